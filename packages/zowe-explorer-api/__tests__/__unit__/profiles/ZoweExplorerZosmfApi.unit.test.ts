@@ -230,6 +230,104 @@ describe("ZosmfUssApi", () => {
             await expectApiWithSession(ussApi, new ZosmfUssApi());
         });
     });
+
+    describe("chmod, chown and chgrp", () => {
+        const api = new ZosmfUssApi();
+        const putUSSPayload = jest.fn();
+
+        beforeEach(() => {
+            Object.defineProperty(zowe.Utilities, "putUSSPayload", { value: putUSSPayload, configurable: true });
+            putUSSPayload.mockResolvedValue(Buffer.from(""));
+            jest.spyOn(api, "getSession").mockReturnValue(fakeSession);
+        });
+
+        it("changes the permissions with a chmod request", async () => {
+            const response = await api.chmod("/u/user/file.txt", "755", true);
+            expect(putUSSPayload).toHaveBeenCalledWith(fakeSession, "/u/user/file.txt", { request: "chmod", mode: "755", recursive: true });
+            expect(response.success).toBe(true);
+        });
+
+        it("changes the owner with a chown request", async () => {
+            await api.chown("/u/user/file.txt", "USER2");
+            expect(putUSSPayload).toHaveBeenCalledWith(fakeSession, "/u/user/file.txt", { request: "chown", owner: "USER2", recursive: false });
+        });
+
+        it("keeps the current owner of a directory when changing its group", async () => {
+            jest.spyOn(zowe.List, "fileList").mockResolvedValue({
+                success: true,
+                commandResponse: null,
+                apiResponse: {
+                    items: [
+                        { name: ".", user: "USER1" },
+                        { name: "..", user: "ROOT" },
+                        { name: "file.txt", user: "USER3" },
+                    ],
+                },
+            });
+            await api.chgrp("/u/user/dir", "DEV", true);
+            expect(putUSSPayload).toHaveBeenCalledWith(fakeSession, "/u/user/dir", {
+                request: "chown",
+                owner: "USER1",
+                group: "DEV",
+                recursive: true,
+            });
+        });
+
+        it("fails to change the group when the owner cannot be found", async () => {
+            jest.spyOn(zowe.List, "fileList").mockResolvedValue({ success: true, commandResponse: null, apiResponse: { items: [] } });
+            await expect(api.chgrp("/u/user/file.txt", "DEV")).rejects.toThrow("Unable to find the owner of /u/user/file.txt");
+            expect(putUSSPayload).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getTag and setTag", () => {
+        const api = new ZosmfUssApi();
+        const putUSSPayload = jest.fn();
+
+        beforeEach(() => {
+            Object.defineProperty(zowe.Utilities, "putUSSPayload", { value: putUSSPayload, configurable: true });
+            putUSSPayload.mockResolvedValue(Buffer.from(""));
+            jest.spyOn(api, "getSession").mockReturnValue(fakeSession);
+        });
+
+        it.each([
+            ["t IBM-1047    T=on  /u/user/file.txt", { type: "text", codeset: "IBM-1047" }],
+            ["m ISO8859-1   T=off /u/user/file.txt", { type: "mixed", codeset: "ISO8859-1" }],
+            ["b binary      T=off /u/user/file.txt", { type: "binary" }],
+            ["- untagged    T=off /u/user/file.txt", { type: "untagged" }],
+        ])("gets the tag listed as %s", async (stdout, tag) => {
+            putUSSPayload.mockResolvedValue(Buffer.from(JSON.stringify({ stdout: [stdout] })));
+            await expect(api.getTag("/u/user/file.txt")).resolves.toEqual(tag);
+            expect(putUSSPayload).toHaveBeenCalledWith(fakeSession, "/u/user/file.txt", { request: "chtag", action: "list" });
+        });
+
+        it("tags the files of a directory with a codeset", async () => {
+            const response = await api.setTag("/u/user/dir", { type: "text", codeset: "IBM-1047" }, true);
+            expect(putUSSPayload).toHaveBeenCalledWith(fakeSession, "/u/user/dir", {
+                request: "chtag",
+                action: "set",
+                type: "text",
+                codeset: "IBM-1047",
+                recursive: true,
+            });
+            expect(response.success).toBe(true);
+        });
+
+        it("tags a binary file without a codeset", async () => {
+            await api.setTag("/u/user/file.bin", { type: "binary", codeset: "IBM-1047" });
+            expect(putUSSPayload).toHaveBeenCalledWith(fakeSession, "/u/user/file.bin", {
+                request: "chtag",
+                action: "set",
+                type: "binary",
+                recursive: false,
+            });
+        });
+
+        it("removes the tag of an untagged file", async () => {
+            await api.setTag("/u/user/file.txt", { type: "untagged" });
+            expect(putUSSPayload).toHaveBeenCalledWith(fakeSession, "/u/user/file.txt", { request: "chtag", action: "remove", recursive: false });
+        });
+    });
 });
 
 describe("ZosmfMvsApi", () => {
@@ -84,6 +84,21 @@ export namespace ZoweExplorerApi {
         getTokenTypeName?(): string;
     }
 
+    /**
+     * The z/OS file tag of a USS file, as listed by the chtag utility.
+     * @export
+     */
+    export interface IUssFileTag {
+        /**
+         * "text" when the text flag is on, "mixed" when a codeset is set without it.
+         */
+        type: "text" | "mixed" | "binary" | "untagged";
+        /**
+         * The name of the coded character set, e.g. "IBM-1047" or "ISO8859-1".
+         */
+        codeset?: string;
+    }
+
     /**
      * API for providing a USS API handler to the extension.
      * @export
@@ -196,6 +211,62 @@ export namespace ZoweExplorerApi {
          * @returns {Promise<zowe.IZosFilesResponse>}
          */
         rename(currentUssPath: string, newUssPath: string): Promise<zowe.IZosFilesResponse>;
+
+        /**
+         * Changes the permissions of a file or directory.
+         *
+         * @param {string} ussPath
+         * @param {string} mode
+         *      The octal representation of the permissions, e.g. "755".
+         * @param {boolean} [recursive]
+         *      Whether to also change the permissions of the contents of a directory.
+         * @returns {Promise<zowe.IZosFilesResponse>}
+         */
+        chmod?(ussPath: string, mode: string, recursive?: boolean): Promise<zowe.IZosFilesResponse>;
+
+        /**
+         * Changes the owner of a file or directory.
+         *
+         * @param {string} ussPath
+         * @param {string} owner
+         *      The user ID or UID of the new owner.
+         * @param {boolean} [recursive]
+         *      Whether to also change the owner of the contents of a directory.
+         * @returns {Promise<zowe.IZosFilesResponse>}
+         */
+        chown?(ussPath: string, owner: string, recursive?: boolean): Promise<zowe.IZosFilesResponse>;
+
+        /**
+         * Changes the group of a file or directory.
+         *
+         * @param {string} ussPath
+         * @param {string} group
+         *      The group name or GID of the new group.
+         * @param {boolean} [recursive]
+         *      Whether to also change the group of the contents of a directory.
+         * @returns {Promise<zowe.IZosFilesResponse>}
+         */
+        chgrp?(ussPath: string, group: string, recursive?: boolean): Promise<zowe.IZosFilesResponse>;
+
+        /**
+         * Gets the file tag of a file.
+         *
+         * @param {string} ussPath
+         * @returns {Promise<IUssFileTag>}
+         */
+        getTag?(ussPath: string): Promise<IUssFileTag>;
+
+        /**
+         * Sets or removes the file tag of a file.
+         *
+         * @param {string} ussPath
+         * @param {IUssFileTag} tag
+         *      The new tag, "untagged" removes the tag.
+         * @param {boolean} [recursive]
+         *      Whether to tag all the files of a directory and its subdirectories.
+         * @returns {Promise<zowe.IZosFilesResponse>}
+         */
+        setTag?(ussPath: string, tag: IUssFileTag, recursive?: boolean): Promise<zowe.IZosFilesResponse>;
     }
 
     /**
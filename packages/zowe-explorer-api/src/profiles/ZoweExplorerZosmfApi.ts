@@ -166,6 +166,75 @@ export class ZosmfUssApi extends ZosmfApiCommon implements ZoweExplorerApi.IUss
             apiResponse: result,
         };
     }
+
+    public async chmod(ussPath: string, mode: string, recursive?: boolean): Promise<zowe.IZosFilesResponse> {
+        const result = await zowe.Utilities.putUSSPayload(this.getSession(), ussPath, { request: "chmod", mode, recursive: recursive ?? false });
+        return {
+            success: true,
+            commandResponse: null,
+            apiResponse: result,
+        };
+    }
+
+    public async chown(ussPath: string, owner: string, recursive?: boolean): Promise<zowe.IZosFilesResponse> {
+        const result = await zowe.Utilities.putUSSPayload(this.getSession(), ussPath, { request: "chown", owner, recursive: recursive ?? false });
+        return {
+            success: true,
+            commandResponse: null,
+            apiResponse: result,
+        };
+    }
+
+    public async chgrp(ussPath: string, group: string, recursive?: boolean): Promise<zowe.IZosFilesResponse> {
+        // z/OSMF changes the group with the chown utility, which always needs the owner
+        const list = await zowe.List.fileList(this.getSession(), ussPath);
+        const items: { name: string; user: string }[] = list.apiResponse?.items ?? [];
+        const item = items.length === 1 ? items[0] : items.find((entry) => entry.name === ".");
+        if (!item) {
+            throw new Error(`Unable to find the owner of ${ussPath}`);
+        }
+        const result = await zowe.Utilities.putUSSPayload(this.getSession(), ussPath, {
+            request: "chown",
+            owner: item.user,
+            group,
+            recursive: recursive ?? false,
+        });
+        return {
+            success: true,
+            commandResponse: null,
+            apiResponse: result,
+        };
+    }
+
+    public async getTag(ussPath: string): Promise<ZoweExplorerApi.IUssFileTag> {
+        const response = await zowe.Utilities.putUSSPayload(this.getSession(), ussPath, { request: "chtag", action: "list" });
+        const stdout: string[] = JSON.parse(response.toString()).stdout ?? [];
+        // Each line is listed as "<type> <codeset> T=<text flag> <path>", e.g. "t IBM-1047 T=on /u/user/file"
+        const [type, codeset] = (stdout[0] ?? "").trim().split(/\s+/);
+        switch (type) {
+            case "t":
+                return { type: "text", codeset };
+            case "m":
+                return { type: "mixed", codeset };
+            case "b":
+                return { type: "binary" };
+            default:
+                return { type: "untagged" };
+        }
+    }
+
+    public async setTag(ussPath: string, tag: ZoweExplorerApi.IUssFileTag, recursive?: boolean): Promise<zowe.IZosFilesResponse> {
+        const payload =
+            tag.type === "untagged"
+                ? { request: "chtag", action: "remove" }
+                : { request: "chtag", action: "set", type: tag.type, ...(tag.type === "binary" ? {} : { codeset: tag.codeset }) };
+        const result = await zowe.Utilities.putUSSPayload(this.getSession(), ussPath, { ...payload, recursive: recursive ?? false });
+        return {
+            success: true,
+            commandResponse: null,
+            apiResponse: result,
+        };
+    }
 }
 
 /**
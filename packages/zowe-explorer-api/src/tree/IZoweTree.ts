@@ -294,6 +294,12 @@ export interface IZoweTree<T> extends vscode.TreeDataProvider<T> {
      * @param {any} criteria the member name to add
      */
     addDsTemplate?(criteria: DataSetAllocTemplate): void;
+    /**
+     * Removes a template for data set creation attributes
+     *
+     * @param {string} name the name of the template to remove
+     */
+    removeDsTemplate?(name: string): void;
     /**
      * Returns the array of saved templates for data set creation attributes
      *
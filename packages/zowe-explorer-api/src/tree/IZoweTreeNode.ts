@@ -162,6 +162,10 @@ export interface IZoweUSSTreeNode extends IZoweTreeNode {
      * Binary indicator. Default false (text)
      */
     binary?: boolean;
+    /**
+     * The codeset in which the contents of the file were transferred, from its file tag
+     */
+    encoding?: string;
     /**
      * Specific profile name in use with this node
      */
@@ -297,6 +301,31 @@ export interface IZoweJobTreeNode extends IZoweTreeNode {
      * Attribute of Job query
      */
     status?: string;
+    /**
+     * Job Class i.e "A"
+     * Attribute of Job query
+     */
+    jobClass?: string;
+    /**
+     * Job Type i.e "STC"
+     * Attribute of Job query
+     */
+    jobType?: string;
+    /**
+     * JES member that ran the job i.e "SY1"
+     * Attribute of Job query
+     */
+    execMember?: string;
+    /**
+     * Earliest submission date of the job i.e "2023-06-01"
+     * Attribute of Job query
+     */
+    submittedFrom?: string;
+    /**
+     * Latest submission date of the job i.e "2023-06-30"
+     * Attribute of Job query
+     */
+    submittedTo?: string;
     /**
      * Returns whether the job node is a filtered search
      */
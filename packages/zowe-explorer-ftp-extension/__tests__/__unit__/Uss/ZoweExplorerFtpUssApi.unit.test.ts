@@ -55,6 +55,19 @@ describe("FtpUssApi", () => {
         expect(UssApi.releaseConnection).toHaveBeenCalledTimes(0);
     });
 
+    it("should list the targets of symbolic links.", async () => {
+        const response = [
+            { name: "link1 -> ../dir1", permissions: "lrwxrwxrwx" },
+            { name: "file -> name", permissions: "-rw-r--r--" },
+        ];
+        UssUtils.listFiles = jest.fn().mockReturnValue(response);
+        const result = await UssApi.fileList("/a/b/c");
+
+        expect(result.apiResponse.items[0]).toEqual(expect.objectContaining({ name: "link1", target: "../dir1", mode: "lrwxrwxrwx" }));
+        expect(result.apiResponse.items[1].name).toBe("file -> name");
+        expect(result.apiResponse.items[1].target).toBeUndefined();
+    });
+
     it("should view uss files.", async () => {
         const localFile = "/tmp/testfile1.txt";
         const response = TestUtils.getSingleLineStream();
@@ -198,6 +211,27 @@ describe("FtpUssApi", () => {
         expect(UssApi.releaseConnection).toBeCalled();
     });
 
+    it("should change the permissions of a uss directory and its contents.", async () => {
+        const site = jest.fn();
+        UssApi.ftpClient = jest.fn().mockReturnValue({ site });
+        UssUtils.listFiles = jest
+            .fn()
+            .mockResolvedValueOnce([
+                { name: "file1", isDirectory: false },
+                { name: "dir1", isDirectory: true },
+            ])
+            .mockResolvedValueOnce([{ name: "file2", isDirectory: false }]);
+        const result = await UssApi.chmod("/a/b", "750", true);
+        expect(result.commandResponse).toContain("Chmod completed.");
+        expect(site.mock.calls.map((call) => call[0])).toEqual([
+            "CHMOD 750 /a/b/file1",
+            "CHMOD 750 /a/b/dir1/file2",
+            "CHMOD 750 /a/b/dir1",
+            "CHMOD 750 /a/b",
+        ]);
+        expect(UssApi.releaseConnection).toBeCalled();
+    });
+
     it("should receive false from isFileTagBinOrAscii as it is not implemented in the FTP extension.", async () => {
         expect(await UssApi.isFileTagBinOrAscii("")).toBe(false);
     });
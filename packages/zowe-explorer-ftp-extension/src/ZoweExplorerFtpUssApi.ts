@@ -26,6 +26,8 @@ import { ZoweLogger } from "./extension";
 /* eslint-disable @typescript-eslint/no-unsafe-member-access */
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
 
+const LINK_SEPARATOR = " -> ";
+
 export class FtpUssApi extends AbstractFtpApi implements ZoweExplorerApi.IUss {
     public async fileList(ussFilePath: string): Promise<zowe.IZosFilesResponse> {
         const result = this.getDefaultResponse();
@@ -38,12 +40,24 @@ export class FtpUssApi extends AbstractFtpApi implements ZoweExplorerApi.IUss {
             const response = await UssUtils.listFiles(session.ussListConnection, ussFilePath);
             if (response) {
                 result.success = true;
-                result.apiResponse.items = response.map((element) => ({
-                    name: element.name,
-                    size: element.size,
-                    mtime: element.lastModified,
-                    mode: element.permissions,
-                }));
+                result.apiResponse.items = response.map((element) => {
+                    const item: Record<string, unknown> = {
+                        name: element.name,
+                        size: element.size,
+                        mtime: element.lastModified,
+                        mode: element.permissions,
+                        user: element.owner,
+                        group: element.group,
+                    };
+                    // Symbolic links are listed as "name -> target", the target is returned separately like z/OSMF does
+                    const name: string = element.name;
+                    const separator = String(element.permissions).startsWith("l") ? name.indexOf(LINK_SEPARATOR) : -1;
+                    if (separator !== -1) {
+                        item.name = name.substring(0, separator);
+                        item.target = name.substring(separator + LINK_SEPARATOR.length);
+                    }
+                    return item;
+                });
             }
         }
         return result;
@@ -241,6 +255,38 @@ export class FtpUssApi extends AbstractFtpApi implements ZoweExplorerApi.IUss {
         }
     }
 
+    public async chmod(ussPath: string, mode: string, recursive?: boolean): Promise<zowe.IZosFilesResponse> {
+        const result = this.getDefaultResponse();
+        let connection;
+        try {
+            connection = await this.ftpClient(this.checkedProfile());
+            if (connection) {
+                await this.changeMode(connection, ussPath, mode, recursive);
+                result.success = true;
+                result.commandResponse = "Chmod completed.";
+            } else {
+                await Gui.errorMessage(result.commandResponse, { logger: ZoweLogger });
+                throw new Error();
+            }
+            return result;
+        } finally {
+            this.releaseConnection(connection);
+        }
+    }
+
+    // The z/OS FTP server has no recursive option for SITE CHMOD, so the contents of a directory are changed one by one
+    private async changeMode(connection, ussPath: string, mode: string, recursive: boolean): Promise<void> {
+        if (recursive) {
+            const files = await UssUtils.listFiles(connection, ussPath);
+            for (const file of files) {
+                if (file.name !== "." && file.name !== "..") {
+                    await this.changeMode(connection, path.posix.join(ussPath, file.name), mode, file.isDirectory);
+                }
+            }
+        }
+        await connection.site(`CHMOD ${mode} ${ussPath}`);
+    }
+
     private async deleteDirectory(ussPath: string, connection): Promise<void> {
         const result = this.getDefaultResponse();
         try {
@@ -45,6 +45,8 @@ export function lstatSync(path: string): Stats {
     return value;
 }
 
+export function mkdirSync(path: string, options?: any): void {}
+
 export function openSync(path: string, mode: string): number {
     return process.stdout.fd;
 }
@@ -72,6 +72,7 @@ export function createDatasetTree(sessionNode: ZoweDatasetNode, treeView: any, f
         getProfiles: jest.fn(),
         getDsTemplates: jest.fn(),
         addDsTemplate: jest.fn(),
+        removeDsTemplate: jest.fn(),
     };
     testDatasetTree.addFavorite.mockImplementation((newFavorite) => testDatasetTree.mFavorites.push(newFavorite));
     testDatasetTree.addFileHistory.mockImplementation((newFile) => testDatasetTree.mFileHistory.push(newFile));
@@ -128,6 +128,36 @@ export interface TreeView<T> {
     reveal(element: T, options?: { select?: boolean; focus?: boolean; expand?: boolean | number }): Thenable<void>;
 }
 
+/**
+ * Encapsulates data transferred during drag and drop operations.
+ */
+export class DataTransferItem {
+    public constructor(public readonly value: any) {}
+
+    public asString(): Thenable<string> {
+        return Promise.resolve(typeof this.value === "string" ? this.value : JSON.stringify(this.value));
+    }
+}
+
+/**
+ * A map containing a mapping of the mime type of the corresponding transferred data.
+ */
+export class DataTransfer {
+    private items = new Map<string, DataTransferItem>();
+
+    public get(mimeType: string): DataTransferItem | undefined {
+        return this.items.get(mimeType);
+    }
+
+    public set(mimeType: string, value: DataTransferItem): void {
+        this.items.set(mimeType, value);
+    }
+
+    public forEach(callbackfn: (value: DataTransferItem, key: string) => void): void {
+        this.items.forEach(callbackfn);
+    }
+}
+
 export class FileDecoration {
     /**
      * A very short string that represents this decoration.
@@ -303,6 +333,11 @@ export class Disposable {
     constructor() {}
 }
 
+export interface TextDocumentContentProvider {
+    onDidChange?: Event<Uri>;
+    provideTextDocumentContent(uri: Uri, token: CancellationToken): string | undefined;
+}
+
 export function RelativePattern(base: string, pattern: string) {
     return {};
 }
@@ -483,7 +518,12 @@ export class EventEmitter<T> {
     /**
      * The event listeners can subscribe to.
      */
-    event: Event<T>;
+    event: Event<T> = (listener: (e: T) => any): Disposable => {
+        this.listeners.push(listener);
+        return new Disposable();
+    };
+
+    private listeners: ((e: T) => any)[] = [];
 
     /**
      * Notify all subscribers of the [event](EventEmitter#event). Failure
@@ -491,12 +531,16 @@ export class EventEmitter<T> {
      *
      * @param data The event object.
      */
-    fire(data?: T): void {}
+    fire(data?: T): void {
+        this.listeners.forEach((listener) => listener(data));
+    }
 
     /**
      * Dispose this object and free resources.
      */
-    //dispose(): void;
+    dispose(): void {
+        this.listeners = [];
+    }
 }
 
 /**
@@ -523,6 +567,14 @@ export namespace workspace {
         };
     }
 
+    export function registerTextDocumentContentProvider(scheme: string, provider: TextDocumentContentProvider): Disposable {
+        return new Disposable();
+    }
+
+    export function registerFileSystemProvider(scheme: string, provider: FileSystemProvider, options?: { isCaseSensitive?: boolean }): Disposable {
+        return new Disposable();
+    }
+
     export function createFileSystemWatcher() {
         return {
             onDidCreate: () => {},
@@ -535,6 +587,11 @@ export namespace workspace {
         return true;
     }
 
+    /**
+     * All text documents currently known to the editor.
+     */
+    export const textDocuments: TextDocument[] = [];
+
     /**
      * ~~The folder that is open in the editor. `undefined` when no folder
      * has been opened.~~
@@ -571,6 +628,80 @@ export namespace workspace {
     }
 }
 
+/**
+ * A location in the editor at which progress information can be shown.
+ */
+export enum ProgressLocation {
+    SourceControl = 1,
+    Window = 10,
+    Notification = 15,
+}
+
+/**
+ * Enumeration of file types. The types `File` and `Directory` can also be
+ * a symbolic links, in that case use `FileType.File | FileType.SymbolicLink` and
+ * `FileType.Directory | FileType.SymbolicLink`.
+ */
+export enum FileType {
+    Unknown = 0,
+    File = 1,
+    Directory = 2,
+    SymbolicLink = 64,
+}
+
+/**
+ * Enumeration of file change types.
+ */
+export enum FileChangeType {
+    Changed = 1,
+    Created = 2,
+    Deleted = 3,
+}
+
+export interface FileStat {
+    type: FileType;
+    ctime: number;
+    mtime: number;
+    size: number;
+}
+
+export interface FileChangeEvent {
+    readonly type: FileChangeType;
+    readonly uri: Uri;
+}
+
+export interface FileSystemProvider {
+    readonly onDidChangeFile: Event<FileChangeEvent[]>;
+}
+
+/**
+ * A type that filesystem providers should use to signal errors.
+ */
+export class FileSystemError extends Error {
+    public static FileNotFound(messageOrUri?: string | Uri): FileSystemError {
+        return new FileSystemError(messageOrUri, "FileNotFound");
+    }
+    public static FileExists(messageOrUri?: string | Uri): FileSystemError {
+        return new FileSystemError(messageOrUri, "FileExists");
+    }
+    public static FileNotADirectory(messageOrUri?: string | Uri): FileSystemError {
+        return new FileSystemError(messageOrUri, "FileNotADirectory");
+    }
+    public static FileIsADirectory(messageOrUri?: string | Uri): FileSystemError {
+        return new FileSystemError(messageOrUri, "FileIsADirectory");
+    }
+    public static NoPermissions(messageOrUri?: string | Uri): FileSystemError {
+        return new FileSystemError(messageOrUri, "NoPermissions");
+    }
+    public static Unavailable(messageOrUri?: string | Uri): FileSystemError {
+        return new FileSystemError(messageOrUri, "Unavailable");
+    }
+
+    public constructor(messageOrUri?: string | Uri, public readonly code: string = "Unknown") {
+        super(typeof messageOrUri === "string" ? messageOrUri : messageOrUri?.toString());
+    }
+}
+
 export interface InputBoxOptions {
     placeholder?: string;
 }
@@ -589,11 +720,24 @@ export class Uri {
 
         return newUri;
     }
+    public static from(components: { scheme: string; path?: string; query?: string; fragment?: string }): Uri {
+        const newUri = Uri.parse(components.path ?? "");
+        newUri.scheme = components.scheme;
+        newUri.query = components.query ?? "";
+        newUri.fragment = components.fragment ?? "";
+        return newUri;
+    }
     public with(_fragment: string): Uri {
         return this;
     }
 
+    public scheme: string;
     public path: string;
+    public query: string;
+    public fragment: string;
+    public get fsPath(): string {
+        return this.path;
+    }
     public toString(): string {
         return this.path;
     }
@@ -603,6 +747,12 @@ export class Uri {
  * The clipboard provides read and write access to the system's clipboard.
  */
 export interface Clipboard {
+    /**
+     * Read the current clipboard contents as text.
+     * @returns A thenable that resolves to a string.
+     */
+    readText(): Thenable<string>;
+
     /**
      * Writes text into the clipboard.
      * @returns A thenable that resolves when writing happened.
@@ -617,6 +767,7 @@ export class Range {}
 export class WorkspaceEdit {
     public delete(uri: Uri, range: Range) {}
     public insert(uri: Uri, position: Position, newText: string) {}
+    public replace(uri: Uri, range: Range, newText: string) {}
 }
 
 /**
@@ -632,6 +783,9 @@ export namespace env {
      * The system clipboard.
      */
     export const clipboard: Clipboard = {
+        readText() {
+            return Promise.resolve("");
+        },
         writeText() {
             return Promise.resolve();
         },
@@ -66,6 +66,17 @@ describe("PersistentFilters Unit Test", () => {
             expect(updateDsTemplateHistorySpy).toBeCalledTimes(1);
         });
     });
+    describe("removeDsTemplateHistory()", () => {
+        it("should remove the dataset template with the given name", () => {
+            const pf: PersistentFilters = new PersistentFilters("", 2, 2);
+            const updateDsTemplateHistorySpy = jest.spyOn(pf as any, "updateDsTemplateHistory");
+            const keptTemplate = { KeptTemplate: { dsorg: "PS", primary: 1, lrecl: 80 } };
+            (pf as any).mDsTemplates = [{ MyMockTemplate: { dsorg: "PO", primary: 1, lrecl: 80 } }, keptTemplate];
+            pf.removeDsTemplateHistory("MyMockTemplate");
+            expect((pf as any).mDsTemplates).toEqual([keptTemplate]);
+            expect(updateDsTemplateHistorySpy).toBeCalledTimes(1);
+        });
+    });
     describe("getDsTemplates()", () => {
         it("should retrieve the available dataset templates", () => {
             const pf: PersistentFilters = new PersistentFilters("", 2, 2);
@@ -87,4 +98,16 @@ describe("PersistentFilters Unit Test", () => {
             expect(pf.getDsTemplates()).toEqual([mockTemplate]);
         });
     });
+    describe("setSessionOptions()", () => {
+        it("should replace the options of one session and keep the others", () => {
+            const pf: PersistentFilters = new PersistentFilters("", 2, 2);
+            const updateSessionOptionsSpy = jest.spyOn(pf as any, "updateSessionOptions");
+            (pf as any).mSessionOptions = { sestest: { group: "name" }, other: { group: "status" } };
+            pf.setSessionOptions("sestest", { sort: { method: "id", descending: true } });
+            expect(pf.getSessionOptions("sestest")).toEqual({ sort: { method: "id", descending: true } });
+            expect(pf.getSessionOptions("other")).toEqual({ group: "status" });
+            expect(pf.getSessionOptions("unknown")).toBeUndefined();
+            expect(updateSessionOptionsSpy).toBeCalledTimes(1);
+        });
+    });
 });
@@ -40,6 +40,8 @@ describe("SpoolProvider Unit Tests", () => {
         '"record-count":1,"records-url":"fake/records","class":"A","ddname":"STDOUT","id":100,"job' +
         'id":"100","jobname":"TESTJOB","lrecl":80,"procstep":"","recfm":"FB","stepname":"","subsystem":""}]';
 
+    // keep the mocked class, the tests of encodeJobFile replace vscode.Uri
+    const Uri = vscode.Uri;
     const uriObj: vscode.Uri = {
         scheme: "zosspool",
         authority: "",
@@ -224,6 +226,22 @@ describe("SpoolProvider Unit Tests", () => {
         await provider.provideTextDocumentContent(uriObj);
     });
 
+    it("masks the job numbers, times and dates of the content provided for comparison", async () => {
+        const cachedFile = SpoolProvider.files[uriObj.path];
+        SpoolProvider.files[uriObj.path] = { content: "12.30.45 JOB01234  IEF403I TESTJOB - STARTED" } as SpoolFile;
+        const provider = new SpoolProvider();
+
+        const normalizedUri = Uri.from({
+            scheme: uriObj.scheme,
+            path: uriObj.path,
+            query: uriObj.query,
+            fragment: SpoolProvider.normalizedFragment,
+        });
+        expect(await provider.provideTextDocumentContent(normalizedUri)).toBe("##.##.## JOB#####  IEF403I TESTJOB - STARTED");
+        expect(await provider.provideTextDocumentContent(uriObj)).toBe("12.30.45 JOB01234  IEF403I TESTJOB - STARTED");
+        SpoolProvider.files[uriObj.path] = cachedFile;
+    });
+
     it("disposes the event emitter when the content provider is disposed", () => {
         SpoolProvider.onDidChangeEmitter = {
             dispose: jest.fn(),
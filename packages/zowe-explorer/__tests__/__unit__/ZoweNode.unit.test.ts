@@ -18,6 +18,7 @@ import { List, imperative } from "@zowe/cli";
 import { Profiles } from "../../src/Profiles";
 import * as globals from "../../src/globals";
 import { ZoweLogger } from "../../src/utils/LoggerUtils";
+import { OfflineCache } from "../../src/utils/OfflineCache";
 
 describe("Unit Tests (Jest)", () => {
     // Globals
@@ -407,4 +408,111 @@ describe("Unit Tests (Jest)", () => {
         Object.defineProperty(List, "allMembers", { value: allMembers });
         expect((await pds.getChildren())[0].label).toEqual("No data sets found");
     });
+
+    /*************************************************************************************************************
+     * Members with ISPF statistics
+     *************************************************************************************************************/
+    describe("member statistics", () => {
+        const createPds = (): ZoweDatasetNode => {
+            Object.defineProperty(Profiles, "getInstance", {
+                value: jest.fn(() => {
+                    return {
+                        loadNamedProfile: jest.fn().mockReturnValue(profileOne),
+                    };
+                }),
+            });
+            const sessionNode = new ZoweDatasetNode(
+                "root",
+                vscode.TreeItemCollapsibleState.Collapsed,
+                null,
+                session,
+                undefined,
+                undefined,
+                profileOne
+            );
+            sessionNode.contextValue = globals.DS_SESSION_CONTEXT;
+            const pds = new ZoweDatasetNode(
+                "USER1.PDS",
+                vscode.TreeItemCollapsibleState.Collapsed,
+                sessionNode,
+                null,
+                undefined,
+                undefined,
+                profileOne
+            );
+            pds.dirty = true;
+            const allMembers = jest.fn().mockReturnValue({
+                success: true,
+                apiResponse: {
+                    items: [
+                        { member: "MEMA", vers: 1, mod: 5, m4date: "2026/10/01", mtime: "14:35", msec: "12", user: "USER1", cnorc: 120 },
+                        { member: "MEMB", vers: 2, mod: 0, m4date: "2026/10/18", mtime: "09:00", msec: "00", user: "USER2", cnorc: 30 },
+                        { member: "LOADMOD" },
+                    ],
+                },
+            });
+            Object.defineProperty(List, "allMembers", { value: allMembers, configurable: true });
+            return pds;
+        };
+
+        it("shows the statistics of members in their description and tooltip", async () => {
+            const children = await createPds().getChildren();
+            expect(children.map((child) => child.label)).toEqual(["LOADMOD", "MEMA", "MEMB"]);
+            expect(children[1].stats).toEqual({ changed: new Date(2026, 9, 1, 14, 35, 12), user: "USER1", version: 1, modification: 5, size: 120 });
+            expect(children[1].description).toEqual("2026/10/01 14:35:12  USER1  01.05  120");
+            expect(children[1].tooltip).toEqual("MEMA\nChanged: 2026/10/01 14:35:12\nUser ID: USER1\nVersion: 01.05\nSize: 120 lines");
+            expect(children[0].stats).toBeUndefined();
+            expect(children[0].tooltip).toEqual("LOADMOD");
+        });
+
+        it("sorts the members by their statistics", async () => {
+            const pds = createPds();
+            pds.sortOptions = { method: globals.MemberSortMethod.DateModified, descending: true };
+            expect((await pds.getChildren()).map((child) => child.label)).toEqual(["MEMB", "MEMA", "LOADMOD"]);
+        });
+
+        it("filters the members by their statistics", async () => {
+            const pds = createPds();
+            pds.memberFilter = { method: globals.MemberFilterMethod.UserId, value: "USER2" };
+            expect((await pds.getChildren()).map((child) => child.label)).toEqual(["MEMB"]);
+        });
+
+        it("filters the members by name with wildcards and regular expressions", async () => {
+            const pds = createPds();
+            pds.memberPattern = "/^mem[a-z]$/,load*";
+            expect((await pds.getChildren()).map((child) => child.label)).toEqual(["LOADMOD", "MEMA", "MEMB"]);
+            expect(List.allMembers).toHaveBeenCalledTimes(1);
+            expect(pds.memberPattern).toEqual("/^mem[a-z]$/,LOAD*");
+
+            pds.memberPattern = "/^MEMB$/";
+            pds.dirty = true;
+            expect((await pds.getChildren()).map((child) => child.label)).toEqual(["MEMB"]);
+        });
+
+        it("updates the statistics of members that are already loaded", async () => {
+            const pds = createPds();
+            const [, memberA] = await pds.getChildren();
+            (List.allMembers as jest.Mock).mockReturnValue({
+                success: true,
+                apiResponse: { items: [{ member: "MEMA", vers: 1, mod: 6, m4date: "2026/10/18", mtime: "10:00", user: "USER3", cnorc: 121 }] },
+            });
+            pds.dirty = true;
+            const children = await pds.getChildren();
+            expect(children).toEqual([memberA]);
+            expect(children[0]).toBe(memberA);
+            expect(memberA.description).toEqual("2026/10/18 10:00:00  USER3  01.06  121");
+        });
+
+        it("decorates the members listed from the offline cache as stale", async () => {
+            const pds = createPds();
+            const getSavedAtSpy = jest.spyOn(OfflineCache, "getSavedAt").mockReturnValue(new Date(1000));
+            const children = await pds.getChildren();
+            expect(children[1].resourceUri).toMatchObject({ scheme: "zowe-cache", path: "/profile1/USER1.PDS/MEMA", query: "1000" });
+
+            getSavedAtSpy.mockReturnValue(undefined);
+            pds.dirty = true;
+            expect((await pds.getChildren())[1].resourceUri).toBeUndefined();
+            getSavedAtSpy.mockRestore();
+        });
+    });
 });
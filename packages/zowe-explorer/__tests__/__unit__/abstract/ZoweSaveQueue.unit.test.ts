@@ -117,4 +117,88 @@ describe("ZoweSaveQueue - unit tests", () => {
             );
         }
     });
+
+    describe("pending uploads", () => {
+        const createMemento = (pendingUploads?: any[]) => {
+            const values = { [ZoweSaveQueue.PENDING_UPLOADS_KEY]: pendingUploads };
+            return {
+                get: jest.fn().mockImplementation((key) => values[key]),
+                update: jest.fn().mockImplementation((key, value) => {
+                    values[key] = value;
+                }),
+            } as unknown as vscode.Memento;
+        };
+        const createSavedFile = (fileName: string) =>
+            ({
+                isDirty: false,
+                uri: vscode.Uri.parse(`/${fileName}`),
+                fileName,
+                getText: () => "saved contents",
+            } as unknown as vscode.TextDocument);
+
+        beforeEach(() => {
+            Object.defineProperty(ZoweLogger, "warn", { value: jest.fn(), configurable: true });
+            jest.spyOn(ZoweSaveQueue as any, "delay").mockResolvedValue(undefined);
+        });
+
+        it("marks the uploads left over from a previous session as interrupted", () => {
+            const memento = createMemento([
+                { fileName: "fileA", status: "retrying" },
+                { fileName: "fileB", status: "failed" },
+            ]);
+            ZoweSaveQueue.initialize(memento);
+            expect(ZoweSaveQueue.getPendingUploads()).toEqual([
+                { fileName: "fileA", status: "interrupted" },
+                { fileName: "fileB", status: "failed" },
+            ]);
+        });
+
+        it("persists a save until it is uploaded", async () => {
+            const memento = createMemento();
+            ZoweSaveQueue.initialize(memento);
+            let resolveUpload: () => void;
+            const uploadRequest = jest.fn().mockReturnValue(new Promise<void>((resolve) => (resolveUpload = resolve)));
+
+            ZoweSaveQueue.push({ fileProvider: globalMocks.trees.uss, uploadRequest, savedFile: createSavedFile("persistedFile") });
+            expect(memento.update).toHaveBeenCalledWith(ZoweSaveQueue.PENDING_UPLOADS_KEY, [
+                expect.objectContaining({ fileName: "persistedFile", content: "saved contents", status: "queued" }),
+            ]);
+
+            await new Promise((resolve) => setImmediate(resolve));
+            resolveUpload();
+            await ZoweSaveQueue.all();
+            expect(ZoweSaveQueue.getPendingUploads()).toEqual([]);
+            expect(memento.update).toHaveBeenLastCalledWith(ZoweSaveQueue.PENDING_UPLOADS_KEY, []);
+        });
+
+        it("retries an upload that failed because of a network error", async () => {
+            ZoweSaveQueue.initialize(createMemento());
+            const networkError = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+            const uploadRequest = jest.fn().mockRejectedValueOnce(networkError).mockResolvedValueOnce(undefined);
+
+            ZoweSaveQueue.push({ fileProvider: globalMocks.trees.uss, uploadRequest, savedFile: createSavedFile("retriedFile") });
+            await ZoweSaveQueue.all();
+            expect(uploadRequest).toHaveBeenCalledTimes(2);
+            expect((ZoweSaveQueue as any).delay).toHaveBeenCalledWith(globals.SAVE_QUEUE_RETRY_DELAY_MS);
+            expect(ZoweSaveQueue.getPendingUploads()).toEqual([]);
+        });
+
+        it("keeps the upload as failed once the retries are exhausted", async () => {
+            globalMocks.errorMessageSpy.mockClear();
+            ZoweSaveQueue.initialize(createMemento());
+            const networkError = Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+            const uploadRequest = jest.fn().mockRejectedValue(networkError);
+
+            ZoweSaveQueue.push({ fileProvider: globalMocks.trees.uss, uploadRequest, savedFile: createSavedFile("failedFile") });
+            await ZoweSaveQueue.all();
+            expect(uploadRequest).toHaveBeenCalledTimes(globals.SAVE_QUEUE_MAX_RETRIES + 1);
+            expect(ZoweSaveQueue.getPendingUploads()).toEqual([
+                expect.objectContaining({ fileName: "failedFile", status: "failed", lastError: "socket hang up" }),
+            ]);
+            expect(globalMocks.errorMessageSpy).toHaveBeenCalledTimes(1);
+
+            ZoweSaveQueue.discard("failedFile");
+            expect(ZoweSaveQueue.getPendingUploads()).toEqual([]);
+        });
+    });
 });
@@ -0,0 +1,445 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as zowe from "@zowe/cli";
+import * as fs from "fs";
+import { Gui } from "@zowe/zowe-explorer-api";
+import {
+    allocateDataSet,
+    deleteAllocateTemplate,
+    getAllocateTemplates,
+    getTemplateOptions,
+    renameAllocateTemplate,
+    saveAllocateTemplate,
+    showAllocateView,
+    validateAllocateValues,
+} from "../../../src/dataset/AllocateView";
+import { ZoweExplorerApiRegister } from "../../../src/ZoweExplorerApiRegister";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import * as profUtils from "../../../src/utils/ProfilesUtils";
+import * as globals from "../../../src/globals";
+import { createIProfile, createISession, createTreeView } from "../../../__mocks__/mockCreators/shared";
+import { createDatasetSessionNode, createDatasetTree } from "../../../__mocks__/mockCreators/datasets";
+
+jest.mock("fs");
+
+describe("AllocateView Unit Tests", () => {
+    const savedTemplate = { MYTEMPLATE: { dsorg: "PS", alcunit: "TRK", primary: 5, recfm: "VB", lrecl: 255, blksize: 27998 } };
+    const values = {
+        dsName: "user.new",
+        dsorg: "PO",
+        dsntype: "PDS",
+        alcunit: "CYL",
+        primary: "1",
+        secondary: "1",
+        dirblk: "5",
+        recfm: "fb",
+        lrecl: "80",
+        blksize: "6160",
+        storclass: "",
+    };
+
+    function createBlockMocks() {
+        const imperativeProfile = createIProfile();
+        const datasetSessionNode = createDatasetSessionNode(createISession(), imperativeProfile);
+        const treeView = createTreeView();
+        const datasetTree = createDatasetTree(datasetSessionNode, treeView);
+        datasetTree.getDsTemplates.mockReturnValue([savedTemplate]);
+        datasetTree.createFilterString.mockReturnValue("USER.NEW");
+        jest.spyOn(treeView, "reveal").mockResolvedValue(undefined);
+        jest.spyOn(datasetSessionNode, "getChildren").mockResolvedValue([]);
+        const mvsApi = { createDataSet: jest.fn().mockResolvedValue({ success: true }) };
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue(mvsApi as any);
+        const errorHandling = jest.spyOn(profUtils, "errorHandling").mockResolvedValue(undefined);
+
+        return { imperativeProfile, datasetSessionNode, datasetTree, treeView, mvsApi, errorHandling };
+    }
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        Object.defineProperty(vscode.workspace, "workspaceFolders", { value: undefined, configurable: true });
+    });
+
+    function mockWorkspaceTemplates() {
+        Object.defineProperty(vscode.workspace, "workspaceFolders", { value: [{ name: "app", uri: { fsPath: "/app" } }], configurable: true });
+        jest.spyOn(fs, "existsSync").mockReturnValue(true);
+        jest.spyOn(fs, "readFileSync").mockReturnValue(JSON.stringify({ templates: [{ SRC: { dsName: "${user}.SRC", dsorg: "PO", lrecl: 80 } }] }));
+    }
+
+    describe("templates", () => {
+        it("lists the saved templates before the data set types", () => {
+            const blockMocks = createBlockMocks();
+            expect(getAllocateTemplates(blockMocks.datasetTree)).toEqual([
+                { kind: "template", name: "MYTEMPLATE" },
+                { kind: "type", name: "Partitioned Data Set: Binary" },
+                { kind: "type", name: "Partitioned Data Set: C" },
+                { kind: "type", name: "Partitioned Data Set: Classic" },
+                { kind: "type", name: "Partitioned Data Set: Default" },
+                { kind: "type", name: "Sequential Data Set" },
+            ]);
+        });
+
+        it("lists the workspace templates after the saved templates", () => {
+            const blockMocks = createBlockMocks();
+            mockWorkspaceTemplates();
+            expect(getAllocateTemplates(blockMocks.datasetTree).slice(0, 3)).toEqual([
+                { kind: "template", name: "MYTEMPLATE" },
+                { kind: "workspace", name: "SRC", folder: "app" },
+                { kind: "type", name: "Partitioned Data Set: Binary" },
+            ]);
+        });
+
+        it("reads the attributes of a workspace template", () => {
+            const blockMocks = createBlockMocks();
+            mockWorkspaceTemplates();
+            expect(getTemplateOptions({ kind: "workspace", name: "SRC", folder: "app" }, blockMocks.datasetTree)).toEqual({
+                dsName: "${user}.SRC",
+                dsorg: "PO",
+                lrecl: 80,
+            });
+            expect(getTemplateOptions({ kind: "workspace", name: "SRC", folder: "other" }, blockMocks.datasetTree)).toEqual({});
+        });
+
+        it("reads the attributes of a saved template", () => {
+            const blockMocks = createBlockMocks();
+            expect(getTemplateOptions({ kind: "template", name: "MYTEMPLATE" }, blockMocks.datasetTree)).toEqual(savedTemplate.MYTEMPLATE);
+            expect(getTemplateOptions({ kind: "template", name: "DELETED" }, blockMocks.datasetTree)).toEqual({});
+        });
+
+        it("reads the attributes of a data set type from its setting", () => {
+            const blockMocks = createBlockMocks();
+            const getConfigurationSpy = jest.spyOn(vscode.workspace, "getConfiguration").mockReturnValue({
+                get: (key: string) => ({ primary: 10, secondary: 5 }[key]),
+            } as any);
+
+            expect(getTemplateOptions({ kind: "type", name: "Partitioned Data Set: C" }, blockMocks.datasetTree)).toEqual({
+                ...zowe.CreateDefaults.DATA_SET.C,
+                primary: 10,
+                secondary: 5,
+            });
+            expect(getConfigurationSpy).toBeCalledWith(globals.SETTINGS_DS_DEFAULT_C);
+        });
+
+        it("saves the attributes of the form as a template", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(Gui, "showInputBox").mockResolvedValueOnce(" NEWTEMPLATE ");
+
+            await expect(saveAllocateTemplate({ kind: "type", name: "Sequential Data Set" }, values, blockMocks.datasetTree)).resolves.toBe(
+                "NEWTEMPLATE"
+            );
+            expect(blockMocks.datasetTree.addDsTemplate).toBeCalledWith({
+                NEWTEMPLATE: {
+                    dsorg: "PO",
+                    dsntype: "PDS",
+                    alcunit: "CYL",
+                    primary: 1,
+                    secondary: 1,
+                    dirblk: 5,
+                    recfm: "FB",
+                    lrecl: 80,
+                    blksize: 6160,
+                },
+            });
+        });
+
+        it("does not save a template with invalid attributes", async () => {
+            const blockMocks = createBlockMocks();
+            const errorMessageSpy = jest.spyOn(Gui, "errorMessage").mockResolvedValueOnce(undefined);
+            const showInputBoxSpy = jest.spyOn(Gui, "showInputBox");
+
+            await expect(
+                saveAllocateTemplate({ kind: "type", name: "Sequential Data Set" }, { ...values, lrecl: "x" }, blockMocks.datasetTree)
+            ).resolves.toBeUndefined();
+            expect(errorMessageSpy).toBeCalledWith("Correct the attributes before saving them as a template.");
+            expect(showInputBoxSpy).not.toBeCalled();
+            expect(blockMocks.datasetTree.addDsTemplate).not.toBeCalled();
+        });
+
+        it("renames a saved template", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(Gui, "showInputBox").mockResolvedValueOnce("RENAMED");
+
+            await expect(renameAllocateTemplate({ kind: "template", name: "MYTEMPLATE" }, blockMocks.datasetTree)).resolves.toBe("RENAMED");
+            expect(blockMocks.datasetTree.addDsTemplate).toBeCalledWith({ RENAMED: savedTemplate.MYTEMPLATE });
+            expect(blockMocks.datasetTree.removeDsTemplate).toBeCalledWith("MYTEMPLATE");
+        });
+
+        it("replaces a saved template with the same name only when the user confirms it", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(Gui, "showInputBox").mockResolvedValue("MYTEMPLATE");
+            const warningMessageSpy = jest.spyOn(Gui, "warningMessage").mockResolvedValueOnce(undefined).mockResolvedValueOnce("Replace");
+
+            await expect(saveAllocateTemplate({ kind: "template", name: "MYTEMPLATE" }, values, blockMocks.datasetTree)).resolves.toBeUndefined();
+            expect(warningMessageSpy).toBeCalledWith("The data set template MYTEMPLATE already exists. Do you want to replace it?", {
+                items: ["Replace"],
+                vsCodeOpts: { modal: true },
+            });
+            expect(blockMocks.datasetTree.addDsTemplate).not.toBeCalled();
+
+            await expect(saveAllocateTemplate({ kind: "template", name: "MYTEMPLATE" }, values, blockMocks.datasetTree)).resolves.toBe("MYTEMPLATE");
+            expect(blockMocks.datasetTree.addDsTemplate).toBeCalledTimes(1);
+        });
+
+        it("does not accept the name of another saved template as a new name", async () => {
+            const blockMocks = createBlockMocks();
+            blockMocks.datasetTree.getDsTemplates.mockReturnValue([savedTemplate, { OTHER: { dsorg: "PO" } }]);
+            const showInputBoxSpy = jest.spyOn(Gui, "showInputBox").mockResolvedValueOnce(undefined);
+
+            await renameAllocateTemplate({ kind: "template", name: "MYTEMPLATE" }, blockMocks.datasetTree);
+            const validateInput = showInputBoxSpy.mock.calls[0][0].validateInput;
+            expect(validateInput("OTHER")).toEqual("A data set template named OTHER already exists.");
+            expect(validateInput("MYTEMPLATE")).toBeNull();
+            expect(validateInput("RENAMED")).toBeNull();
+        });
+
+        it("does not rename a template when the name is not changed", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(Gui, "showInputBox").mockResolvedValueOnce("MYTEMPLATE");
+
+            await expect(renameAllocateTemplate({ kind: "template", name: "MYTEMPLATE" }, blockMocks.datasetTree)).resolves.toBeUndefined();
+            expect(blockMocks.datasetTree.removeDsTemplate).not.toBeCalled();
+        });
+
+        it("deletes a saved template when the user confirms it", async () => {
+            const blockMocks = createBlockMocks();
+            const warningMessageSpy = jest.spyOn(Gui, "warningMessage").mockResolvedValueOnce("Delete").mockResolvedValueOnce(undefined);
+
+            await expect(deleteAllocateTemplate({ kind: "template", name: "MYTEMPLATE" }, blockMocks.datasetTree)).resolves.toBe(true);
+            await expect(deleteAllocateTemplate({ kind: "template", name: "MYTEMPLATE" }, blockMocks.datasetTree)).resolves.toBe(false);
+            expect(warningMessageSpy).toBeCalledWith("Are you sure you want to delete the data set template MYTEMPLATE?", {
+                items: ["Delete"],
+                vsCodeOpts: { modal: true },
+            });
+            expect(blockMocks.datasetTree.removeDsTemplate).toBeCalledTimes(1);
+        });
+    });
+
+    describe("validateAllocateValues", () => {
+        const errorKeys = (changes: { [key: string]: string }): string[] => Object.keys(validateAllocateValues({ ...values, ...changes }).errors);
+
+        it("converts the values into create options", () => {
+            expect(validateAllocateValues(values)).toEqual({
+                dsName: "USER.NEW",
+                options: { dsorg: "PO", dsntype: "PDS", alcunit: "CYL", primary: 1, secondary: 1, dirblk: 5, recfm: "FB", lrecl: 80, blksize: 6160 },
+                errors: {},
+            });
+        });
+
+        it("checks the name, numbers and choices", () => {
+            expect(errorKeys({ dsName: "1BAD" })).toEqual(["dsName"]);
+            expect(errorKeys({ secondary: "1.5" })).toEqual(["secondary"]);
+            expect(errorKeys({ dsorg: "DA", dirblk: "" })).toEqual(["dsorg"]);
+            expect(errorKeys({ alcunit: "KB" })).toEqual(["alcunit"]);
+            expect(errorKeys({ dsntype: "HFS" })).toEqual(["dsntype"]);
+        });
+
+        it("checks the organization", () => {
+            expect(errorKeys({ dsorg: "PS" })).toEqual(["dsntype", "dirblk"]);
+            expect(errorKeys({ dsntype: "LARGE" })).toEqual(["dsntype"]);
+            expect(errorKeys({ dirblk: "" })).toEqual(["dirblk"]);
+            expect(errorKeys({ dsntype: "LIBRARY", dirblk: "" })).toEqual([]);
+        });
+
+        it("checks the space", () => {
+            expect(errorKeys({ primary: "0" })).toEqual(["primary"]);
+            expect(errorKeys({ alcunit: "BLK" })).toEqual(["avgblk"]);
+            expect(errorKeys({ alcunit: "BLK", avgblk: "800" })).toEqual([]);
+            expect(errorKeys({ size: "10 cylinders" })).toEqual(["size"]);
+            expect(errorKeys({ size: "10cyl" })).toEqual([]);
+        });
+
+        it("checks that the record format, record length and block size are consistent", () => {
+            expect(errorKeys({ recfm: "X" })).toEqual(["recfm"]);
+            expect(errorKeys({ lrecl: "" })).toEqual(["lrecl"]);
+            expect(errorKeys({ blksize: "6100" })).toEqual(["blksize"]);
+            expect(errorKeys({ blksize: "0" })).toEqual([]);
+            expect(errorKeys({ recfm: "F", blksize: "160" })).toEqual(["blksize"]);
+            expect(errorKeys({ recfm: "FBA", blksize: "800" })).toEqual([]);
+            expect(errorKeys({ recfm: "VB", lrecl: "4", blksize: "27998" })).toEqual(["lrecl"]);
+            expect(errorKeys({ recfm: "VB", lrecl: "255", blksize: "256" })).toEqual(["blksize"]);
+            expect(errorKeys({ recfm: "U", lrecl: "", blksize: "40000" })).toEqual(["blksize"]);
+            expect(errorKeys({ lrecl: "40000", blksize: "0" })).toEqual(["lrecl"]);
+        });
+
+        it("checks the SMS classes, volume and device type", () => {
+            expect(errorKeys({ storclass: "SC1", mgntclass: "MC1", dataclass: "@DC", volser: "VOL001", unit: "3390" })).toEqual([]);
+            expect(errorKeys({ storclass: "1SC", mgntclass: "MGMTCLASS", dataclass: "D C", volser: "VOLUME1", unit: "SYSALLDA1" })).toEqual([
+                "storclass",
+                "mgntclass",
+                "dataclass",
+                "volser",
+                "unit",
+            ]);
+        });
+    });
+
+    describe("allocateDataSet", () => {
+        it("allocates the data set with the type of the template and reveals it", async () => {
+            const blockMocks = createBlockMocks();
+
+            await expect(
+                allocateDataSet(
+                    blockMocks.datasetSessionNode,
+                    { kind: "type", name: "Partitioned Data Set: Classic" },
+                    values,
+                    blockMocks.datasetTree
+                )
+            ).resolves.toBe(true);
+            expect(blockMocks.mvsApi.createDataSet).toBeCalledWith(zowe.CreateDataSetTypeEnum.DATA_SET_CLASSIC, "USER.NEW", {
+                responseTimeout: undefined,
+                dsorg: "PO",
+                dsntype: "PDS",
+                alcunit: "CYL",
+                primary: 1,
+                secondary: 1,
+                dirblk: 5,
+                recfm: "FB",
+                lrecl: 80,
+                blksize: 6160,
+            });
+            expect(blockMocks.datasetSessionNode.pattern).toBe("USER.NEW");
+            expect(blockMocks.datasetTree.refresh).toBeCalled();
+            expect(blockMocks.treeView.reveal).toBeCalledWith(blockMocks.datasetSessionNode, { select: true, focus: true });
+        });
+
+        it("uses the type of the organization when it was changed", async () => {
+            const blockMocks = createBlockMocks();
+
+            await allocateDataSet(
+                blockMocks.datasetSessionNode,
+                { kind: "type", name: "Partitioned Data Set: Classic" },
+                { ...values, dsorg: "PS", dsntype: "", dirblk: "" },
+                blockMocks.datasetTree
+            );
+            await allocateDataSet(blockMocks.datasetSessionNode, { kind: "template", name: "MYTEMPLATE" }, values, blockMocks.datasetTree);
+            expect(blockMocks.mvsApi.createDataSet.mock.calls.map((call) => call[0])).toEqual([
+                zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL,
+                zowe.CreateDataSetTypeEnum.DATA_SET_PARTITIONED,
+            ]);
+        });
+
+        it("does not allocate a data set with invalid values", async () => {
+            const blockMocks = createBlockMocks();
+
+            await expect(
+                allocateDataSet(
+                    blockMocks.datasetSessionNode,
+                    { kind: "type", name: "Sequential Data Set" },
+                    { ...values, dsName: "" },
+                    blockMocks.datasetTree
+                )
+            ).resolves.toBe(false);
+            expect(blockMocks.mvsApi.createDataSet).not.toBeCalled();
+        });
+
+        it("reports the error of a failed allocation", async () => {
+            const blockMocks = createBlockMocks();
+            blockMocks.mvsApi.createDataSet.mockRejectedValueOnce(new Error("allocation failed"));
+
+            await expect(
+                allocateDataSet(blockMocks.datasetSessionNode, { kind: "type", name: "Sequential Data Set" }, values, blockMocks.datasetTree)
+            ).resolves.toBe(false);
+            expect(blockMocks.errorHandling).toBeCalledWith(
+                new Error("allocation failed"),
+                blockMocks.imperativeProfile.name,
+                "Error encountered when creating data set."
+            );
+            expect(blockMocks.datasetTree.refresh).not.toBeCalled();
+        });
+    });
+
+    describe("showAllocateView", () => {
+        function createPanel() {
+            return {
+                webview: { html: "", cspSource: "vscode-resource:", onDidReceiveMessage: jest.fn(), postMessage: jest.fn().mockResolvedValue(true) },
+                dispose: jest.fn(),
+            };
+        }
+
+        it("shows the form filled in from the first template", () => {
+            const blockMocks = createBlockMocks();
+            const panel = createPanel();
+            const createWebviewPanelSpy = jest.spyOn(Gui, "createWebviewPanel").mockReturnValue(panel as any);
+
+            showAllocateView(blockMocks.datasetSessionNode, blockMocks.datasetTree);
+            expect(createWebviewPanelSpy).toBeCalledWith(
+                expect.objectContaining({ title: "Allocate Data Set on sestest", vscode: { enableScripts: true, retainContextWhenHidden: true } })
+            );
+            expect(panel.webview.html).toContain('<optgroup label="Personal Templates"><option value="{&quot;kind&quot;:&quot;template&quot;,');
+            expect(panel.webview.html).toContain('&quot;name&quot;:&quot;MYTEMPLATE&quot;}" selected>MYTEMPLATE</option>');
+            expect(panel.webview.html).toContain('<input id="lrecl" data-option="lrecl" value="255">');
+            expect(panel.webview.html).toContain('<option value="PS" selected>PS</option>');
+        });
+
+        it("answers the messages of the form", async () => {
+            const blockMocks = createBlockMocks();
+            const panel = createPanel();
+            jest.spyOn(Gui, "createWebviewPanel").mockReturnValue(panel as any);
+            showAllocateView(blockMocks.datasetSessionNode, blockMocks.datasetTree);
+            const onMessage = panel.webview.onDidReceiveMessage.mock.calls[0][0];
+
+            await onMessage({ command: "change", template: { kind: "template", name: "MYTEMPLATE" }, values: { ...values, primary: "0" } });
+            expect(panel.webview.postMessage).lastCalledWith({
+                command: "validation",
+                errors: { primary: "The primary space must be greater than 0." },
+                preview: expect.stringContaining('"dsorg": "PO"'),
+            });
+
+            await onMessage({ command: "select", template: { kind: "type", name: "Sequential Data Set" }, values });
+            expect(panel.webview.postMessage).lastCalledWith({
+                command: "values",
+                values: expect.objectContaining({ dsorg: "PS", primary: "1", dirblk: "" }),
+            });
+
+            await onMessage({ command: "allocate", template: { kind: "template", name: "MYTEMPLATE" }, values });
+            expect(blockMocks.mvsApi.createDataSet).toBeCalled();
+            expect(panel.dispose).toBeCalled();
+        });
+
+        it("fills in the data set name of a workspace template", async () => {
+            const blockMocks = createBlockMocks();
+            mockWorkspaceTemplates();
+            const panel = createPanel();
+            jest.spyOn(Gui, "createWebviewPanel").mockReturnValue(panel as any);
+            showAllocateView(blockMocks.datasetSessionNode, blockMocks.datasetTree);
+            expect(panel.webview.html).toContain('<optgroup label="Workspace Templates: app">');
+            const onMessage = panel.webview.onDidReceiveMessage.mock.calls[0][0];
+
+            await onMessage({ command: "select", template: { kind: "workspace", name: "SRC", folder: "app" }, values });
+            expect(panel.webview.postMessage).lastCalledWith({
+                command: "values",
+                values: expect.objectContaining({ dsName: "TESTUSER.SRC", dsorg: "PO", lrecl: "80" }),
+            });
+        });
+
+        it("shows the templates again after a template was deleted", async () => {
+            const blockMocks = createBlockMocks();
+            const panel = createPanel();
+            jest.spyOn(Gui, "createWebviewPanel").mockReturnValue(panel as any);
+            jest.spyOn(Gui, "warningMessage").mockResolvedValueOnce("Delete");
+            showAllocateView(blockMocks.datasetSessionNode, blockMocks.datasetTree);
+            const onMessage = panel.webview.onDidReceiveMessage.mock.calls[0][0];
+            blockMocks.datasetTree.removeDsTemplate.mockImplementation(() => blockMocks.datasetTree.getDsTemplates.mockReturnValue([]));
+
+            await onMessage({ command: "deleteTemplate", template: { kind: "template", name: "MYTEMPLATE" }, values });
+            expect(panel.webview.postMessage).toBeCalledWith({
+                command: "templates",
+                html: expect.not.stringContaining("MYTEMPLATE"),
+            });
+            expect(panel.webview.postMessage).lastCalledWith({ command: "values", values: expect.objectContaining({ recfm: "U" }) });
+        });
+    });
+});
@@ -0,0 +1,235 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as zowe from "@zowe/cli";
+import { Gui } from "@zowe/zowe-explorer-api";
+import {
+    allocateLikeWithChanges,
+    getAllocateLikeValues,
+    getCreateOptions,
+    getSpaceUsage,
+    groupAttributes,
+    showAttributesView,
+} from "../../../src/dataset/AttributesView";
+import { ZoweDatasetNode } from "../../../src/dataset/ZoweDatasetNode";
+import { ZoweExplorerApiRegister } from "../../../src/ZoweExplorerApiRegister";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import * as profUtils from "../../../src/utils/ProfilesUtils";
+import * as globals from "../../../src/globals";
+import { createIProfile, createISession, createTreeView } from "../../../__mocks__/mockCreators/shared";
+import {
+    createDatasetAttributes,
+    createDatasetSessionNode,
+    createDatasetTree,
+    createDSMemberAttributes,
+} from "../../../__mocks__/mockCreators/datasets";
+
+describe("AttributesView Unit Tests", () => {
+    function createBlockMocks() {
+        const imperativeProfile = createIProfile();
+        const datasetSessionNode = createDatasetSessionNode(createISession(), imperativeProfile);
+        const datasetTree = createDatasetTree(datasetSessionNode, createTreeView());
+        const node = new ZoweDatasetNode("USER.LIB", vscode.TreeItemCollapsibleState.Collapsed, datasetSessionNode, null);
+        node.contextValue = globals.DS_PDS_CONTEXT;
+        const mvsApi = {
+            createDataSet: jest.fn().mockResolvedValue({ success: true }),
+            copyDataSet: jest.fn().mockResolvedValue({ success: true }),
+        };
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue(mvsApi as any);
+        const errorHandling = jest.spyOn(profUtils, "errorHandling").mockResolvedValue(undefined);
+        const showMessage = jest.spyOn(Gui, "showMessage").mockResolvedValue(undefined);
+        jest.spyOn(Gui, "withProgress").mockImplementation((_options, task) => task(undefined, undefined));
+        datasetTree.createFilterString = jest.fn().mockReturnValue("USER.LIB,USER.NEW");
+
+        return { imperativeProfile, datasetSessionNode, datasetTree, node, mvsApi, errorHandling, showMessage };
+    }
+
+    const values = {
+        dsname: "user.new",
+        dsorg: "PO",
+        dsntype: "LIBRARY",
+        alcunit: "CYL",
+        primary: "15",
+        secondary: "",
+        dirblk: " ",
+        recfm: "fb",
+        lrecl: "80",
+        blksize: "6160",
+    };
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("groupAttributes", () => {
+        it("groups the attributes of a data set", () => {
+            const groups = groupAttributes({ ...createDatasetAttributes("USER.LIB", "PDS"), newAttr: "value" });
+            expect(groups.map((group) => group.key)).toEqual(["general", "space", "dcb", "dates", "other"]);
+            expect(groups[1].attributes).toEqual([
+                { key: "spacu", label: "Space Units", value: "CYLINDERS" },
+                { key: "sizex", label: "Allocated Size", value: "15" },
+                { key: "used", label: "Used (%)", value: "6" },
+                { key: "extx", label: "Extents", value: "1" },
+            ]);
+            expect(groups[4].attributes).toEqual([{ key: "newAttr", label: "newAttr", value: "value" }]);
+        });
+
+        it("groups the statistics of a member", () => {
+            const groups = groupAttributes(createDSMemberAttributes("MEM1"));
+            expect(groups.map((group) => group.key)).toEqual(["general", "statistics"]);
+            expect(groups[1].attributes.length).toBe(11);
+        });
+    });
+
+    it("reads the space usage", () => {
+        expect(getSpaceUsage({ used: "6" })).toBe(6);
+        expect(getSpaceUsage({ used: 120 })).toBe(100);
+        expect(getSpaceUsage({ used: "?" })).toBeUndefined();
+        expect(getSpaceUsage({})).toBeUndefined();
+    });
+
+    it("pre-fills the values of a new data set", () => {
+        expect(getAllocateLikeValues({ ...createDatasetAttributes("USER.LIB", "PDS"), dsorg: "PO-E", storclass: "?" })).toEqual({
+            dsname: "USER.LIB",
+            dsorg: "PO",
+            dsntype: "LIBRARY",
+            alcunit: "CYL",
+            primary: "15",
+            secondary: "",
+            dirblk: "",
+            recfm: "FB",
+            lrecl: "80",
+            blksize: "6160",
+            volser: "",
+            storclass: "",
+            mgntclass: "",
+            dataclass: "",
+        });
+        expect(getAllocateLikeValues({ dsname: "USER.SEQ", dsorg: "PS" })).toMatchObject({ dsorg: "PS", dsntype: "", alcunit: "TRK", primary: "1" });
+    });
+
+    describe("getCreateOptions", () => {
+        it("converts the values into create options", () => {
+            expect(getCreateOptions(values)).toEqual({
+                dsname: "USER.NEW",
+                options: { dsorg: "PO", dsntype: "LIBRARY", alcunit: "CYL", primary: 15, recfm: "FB", lrecl: 80, blksize: 6160 },
+                errors: {},
+            });
+        });
+
+        it("returns the error of each invalid value", () => {
+            const { errors } = getCreateOptions({ dsname: "1BAD", dsorg: "PS", primary: "0", lrecl: "8O", dirblk: "5" });
+            expect(Object.keys(errors)).toEqual(["dsname", "lrecl", "primary", "dirblk"]);
+        });
+    });
+
+    describe("allocateLikeWithChanges", () => {
+        it("allocates the data set and shows it in the tree", async () => {
+            const blockMocks = createBlockMocks();
+
+            await expect(allocateLikeWithChanges(blockMocks.node, values, false, blockMocks.datasetTree)).resolves.toEqual({});
+            expect(blockMocks.mvsApi.createDataSet).toBeCalledWith(
+                zowe.CreateDataSetTypeEnum.DATA_SET_PARTITIONED,
+                "USER.NEW",
+                expect.objectContaining({ primary: 15, dsntype: "LIBRARY" })
+            );
+            expect(blockMocks.mvsApi.copyDataSet).not.toBeCalled();
+            expect(blockMocks.datasetTree.addSearchHistory).toBeCalledWith("USER.LIB,USER.NEW");
+            expect(blockMocks.datasetTree.refreshElement).toBeCalledWith(blockMocks.datasetSessionNode);
+            expect(blockMocks.showMessage).toBeCalledWith("Data set USER.NEW was allocated like USER.LIB.");
+        });
+
+        it("copies the content when asked to", async () => {
+            const blockMocks = createBlockMocks();
+
+            await allocateLikeWithChanges(blockMocks.node, values, true, blockMocks.datasetTree);
+            expect(blockMocks.mvsApi.copyDataSet).toBeCalledWith("USER.LIB", "USER.NEW", null, true);
+            expect(blockMocks.errorHandling).not.toBeCalled();
+        });
+
+        it("reports that copying is not supported", async () => {
+            const blockMocks = createBlockMocks();
+            delete blockMocks.mvsApi.copyDataSet;
+
+            await allocateLikeWithChanges(blockMocks.node, values, true, blockMocks.datasetTree);
+            expect(blockMocks.mvsApi.createDataSet).toBeCalled();
+            expect(blockMocks.errorHandling).toBeCalledWith(
+                new Error("Copying data sets is not supported."),
+                blockMocks.imperativeProfile.name,
+                "Data set USER.NEW was allocated, but the content of USER.LIB could not be copied."
+            );
+        });
+
+        it("does not allocate a data set with invalid values", async () => {
+            const blockMocks = createBlockMocks();
+
+            const errors = await allocateLikeWithChanges(blockMocks.node, { ...values, primary: "" }, false, blockMocks.datasetTree);
+            expect(Object.keys(errors)).toEqual(["primary"]);
+            expect(blockMocks.mvsApi.createDataSet).not.toBeCalled();
+        });
+
+        it("reports the error of a failed allocation", async () => {
+            const blockMocks = createBlockMocks();
+            blockMocks.mvsApi.createDataSet.mockRejectedValueOnce(new Error("allocation failed"));
+
+            const errors = await allocateLikeWithChanges(blockMocks.node, values, true, blockMocks.datasetTree);
+            expect(Object.keys(errors)).toEqual(["dsname"]);
+            expect(blockMocks.errorHandling).toBeCalledWith(
+                new Error("allocation failed"),
+                blockMocks.imperativeProfile.name,
+                "Unable to create data set."
+            );
+            expect(blockMocks.mvsApi.copyDataSet).not.toBeCalled();
+        });
+    });
+
+    describe("showAttributesView", () => {
+        function createPanel() {
+            return {
+                webview: { html: "", cspSource: "vscode-resource:", onDidReceiveMessage: jest.fn(), postMessage: jest.fn() },
+            };
+        }
+
+        it("shows the grouped attributes and the allocate like form of a data set", async () => {
+            const blockMocks = createBlockMocks();
+            const panel = createPanel();
+            const createWebviewPanel = jest.spyOn(Gui, "createWebviewPanel").mockReturnValue(panel as any);
+
+            showAttributesView(blockMocks.node, createDatasetAttributes("USER.LIB", "PDS"), blockMocks.datasetTree);
+            expect(createWebviewPanel).toBeCalledWith(expect.objectContaining({ title: "USER.LIB Attributes", vscode: { enableScripts: true } }));
+            expect(panel.webview.html).toContain("<h3>Space</h3>");
+            expect(panel.webview.html).toContain('<rect class="used" x="0" y="0" width="6" height="6"></rect>');
+            expect(panel.webview.html).toContain('<form id="allocateLike">');
+
+            const onMessage = panel.webview.onDidReceiveMessage.mock.calls[0][0];
+            await onMessage({ command: "allocateLike", values: { ...values, primary: "x" }, copyContent: false });
+            expect(panel.webview.postMessage).toBeCalledWith({ command: "validation", errors: { primary: "Enter a whole number." } });
+        });
+
+        it("shows the attributes of a member without the form", () => {
+            const blockMocks = createBlockMocks();
+            const member = new ZoweDatasetNode("MEM1", vscode.TreeItemCollapsibleState.None, blockMocks.node, null);
+            member.contextValue = globals.DS_MEMBER_CONTEXT;
+            const panel = createPanel();
+            jest.spyOn(Gui, "createWebviewPanel").mockReturnValue(panel as any);
+
+            showAttributesView(member, createDSMemberAttributes("<MEM1>"), blockMocks.datasetTree);
+            expect(panel.webview.html).toContain("&lt;MEM1&gt;");
+            expect(panel.webview.html).not.toContain("<form");
+            expect(panel.webview.onDidReceiveMessage).not.toBeCalled();
+        });
+    });
+});
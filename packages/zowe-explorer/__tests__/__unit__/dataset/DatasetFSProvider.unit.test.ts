@@ -0,0 +1,254 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as fs from "fs";
+import * as vscode from "vscode";
+import { Gui } from "@zowe/zowe-explorer-api";
+import * as globals from "../../../src/globals";
+import { DatasetFSProvider } from "../../../src/dataset/DatasetFSProvider";
+import { Profiles } from "../../../src/Profiles";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import { OfflineCache } from "../../../src/utils/OfflineCache";
+import { LocalHistory } from "../../../src/shared/LocalHistory";
+import { createIProfile, createInstanceOfProfile } from "../../../__mocks__/mockCreators/shared";
+import { bindMvsApi, createMvsApi } from "../../../__mocks__/mockCreators/api";
+
+jest.mock("fs");
+
+describe("DatasetFSProvider Unit Tests", () => {
+    function createBlockMocks() {
+        const profile = createIProfile();
+        const profileInstance = createInstanceOfProfile(profile);
+        const newMocks = {
+            profile,
+            profileInstance,
+            mvsApi: createMvsApi(profile),
+            provider: new DatasetFSProvider(),
+            psUri: DatasetFSProvider.buildUri(profile.name, "hlq.ps"),
+            memberUri: DatasetFSProvider.buildUri(profile.name, "hlq.pds", "mem1"),
+            pdsUri: DatasetFSProvider.buildUri(profile.name, "hlq.pds"),
+        };
+        Object.defineProperty(globals, "ZOWE_TMP_FOLDER", { value: "/tmp/zowe", configurable: true });
+        Object.defineProperty(Profiles, "getInstance", { value: jest.fn().mockReturnValue(profileInstance), configurable: true });
+        bindMvsApi(newMocks.mvsApi);
+        jest.spyOn(fs, "existsSync").mockReturnValue(true);
+        jest.spyOn(fs, "unlinkSync").mockImplementation();
+        jest.spyOn(fs, "readFileSync").mockReturnValue(Buffer.from("hello world"));
+        jest.spyOn(fs, "writeFileSync").mockImplementation();
+        jest.spyOn(LocalHistory, "saveVersion").mockResolvedValue(undefined);
+        return newMocks;
+    }
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "info", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "warn", { value: jest.fn(), configurable: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("buildUri", () => {
+        it("builds the URI of a data set member", () => {
+            const uri = DatasetFSProvider.buildUri("sestest", "hlq.pds", "mem1");
+            expect(uri.scheme).toBe("zowe-ds");
+            expect(uri.path).toBe("/sestest/HLQ.PDS/MEM1");
+        });
+    });
+
+    describe("stat", () => {
+        it("returns a directory for partitioned data sets", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.mvsApi, "dataSet").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: { items: [{ dsname: "HLQ.PDS", dsorg: "PO" }] },
+            });
+
+            const stat = await blockMocks.provider.stat(blockMocks.pdsUri);
+            expect(stat.type).toBe(vscode.FileType.Directory);
+        });
+
+        it("throws FileNotFound when the member does not exist", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.mvsApi, "allMembers").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: { items: [] },
+            });
+
+            await expect(blockMocks.provider.stat(blockMocks.memberUri)).rejects.toMatchObject({ code: "FileNotFound" });
+        });
+    });
+
+    describe("readDirectory", () => {
+        it("lists the members of a partitioned data set", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.mvsApi, "allMembers").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: { items: [{ member: "MEM1" }, { member: "MEM2" }] },
+            });
+
+            const entries = await blockMocks.provider.readDirectory(blockMocks.pdsUri);
+            expect(entries).toEqual([
+                ["MEM1", vscode.FileType.File],
+                ["MEM2", vscode.FileType.File],
+            ]);
+        });
+    });
+
+    describe("readFile", () => {
+        it("downloads the member and removes the transient file", async () => {
+            const blockMocks = createBlockMocks();
+            const getContentsSpy = jest.spyOn(blockMocks.mvsApi, "getContents").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: { etag: "123" },
+            });
+
+            const contents = await blockMocks.provider.readFile(blockMocks.memberUri);
+            expect(contents.toString()).toBe("hello world");
+            expect(getContentsSpy).toHaveBeenCalledWith("HLQ.PDS(MEM1)", expect.objectContaining({ returnEtag: true }));
+            expect(fs.unlinkSync).toHaveBeenCalledWith(getContentsSpy.mock.calls[0][1].file);
+            expect(blockMocks.provider.getEtag(blockMocks.memberUri)).toBe("123");
+        });
+    });
+
+    describe("writeFile", () => {
+        it("uploads the contents with the etag from the last download", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.mvsApi, "getContents").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: { etag: "123" },
+            });
+            const putContentsSpy = jest.spyOn(blockMocks.mvsApi, "putContents").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: [{ etag: "456" }],
+            });
+
+            await blockMocks.provider.readFile(blockMocks.psUri);
+            await blockMocks.provider.writeFile(blockMocks.psUri, Buffer.from("new contents"), { create: false, overwrite: true });
+            expect(putContentsSpy).toHaveBeenCalledWith(expect.any(String), "HLQ.PS", expect.objectContaining({ etag: "123", returnEtag: true }));
+            expect(blockMocks.provider.getEtag(blockMocks.psUri)).toBe("456");
+            expect(LocalHistory.saveVersion).toHaveBeenCalledWith(blockMocks.profile, "HLQ.PS", undefined, undefined);
+        });
+
+        it("throws an error when the upload is not successful", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.mvsApi, "putContents").mockResolvedValue({
+                success: false,
+                commandResponse: "Rest API failure with HTTP(S) status 412",
+                apiResponse: [],
+            });
+
+            await expect(
+                blockMocks.provider.writeFile(blockMocks.psUri, Buffer.from("new contents"), { create: true, overwrite: true })
+            ).rejects.toThrow("Rest API failure with HTTP(S) status 412");
+        });
+
+        it("merges the remote changes and uploads again when the etag does not match", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(fs, "readFileSync")
+                .mockReturnValueOnce(Buffer.from("line1\nline2\nline3\n"))
+                .mockReturnValueOnce(Buffer.from("line1\nline2\nremote3\n"));
+            jest.spyOn(blockMocks.mvsApi, "getContents")
+                .mockResolvedValueOnce({ success: true, commandResponse: "", apiResponse: { etag: "123" } })
+                .mockResolvedValueOnce({ success: true, commandResponse: "", apiResponse: { etag: "456" } });
+            const putContentsSpy = jest
+                .spyOn(blockMocks.mvsApi, "putContents")
+                .mockRejectedValueOnce(new Error("Rest API failure with HTTP(S) status 412"))
+                .mockResolvedValueOnce({ success: true, commandResponse: "", apiResponse: [{ etag: "789" }] });
+            const showMessageSpy = jest.spyOn(Gui, "showMessage").mockImplementation();
+
+            await blockMocks.provider.readFile(blockMocks.psUri);
+            await blockMocks.provider.writeFile(blockMocks.psUri, Buffer.from("local1\nline2\nline3\n"), { create: false, overwrite: true });
+            expect(putContentsSpy).toHaveBeenCalledTimes(2);
+            expect(putContentsSpy).toHaveBeenLastCalledWith(expect.any(String), "HLQ.PS", expect.objectContaining({ etag: "456" }));
+            expect((fs.writeFileSync as jest.Mock).mock.calls[1][1].toString()).toBe("local1\nline2\nremote3\n");
+            expect(showMessageSpy).toHaveBeenCalled();
+            expect(blockMocks.provider.getEtag(blockMocks.psUri)).toBe("789");
+        });
+
+        it("writes the conflicts in the editor and refuses to save until they are resolved", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(fs, "readFileSync").mockReturnValueOnce(Buffer.from("line1\nline2\n")).mockReturnValueOnce(Buffer.from("line1\nremote2\n"));
+            jest.spyOn(blockMocks.mvsApi, "getContents")
+                .mockResolvedValueOnce({ success: true, commandResponse: "", apiResponse: { etag: "123" } })
+                .mockResolvedValueOnce({ success: true, commandResponse: "", apiResponse: { etag: "456" } });
+            const putContentsSpy = jest.spyOn(blockMocks.mvsApi, "putContents").mockResolvedValue({
+                success: false,
+                commandResponse: "Rest API failure with HTTP(S) status 412",
+                apiResponse: [],
+            });
+            const applyEditSpy = jest.spyOn(vscode.workspace, "applyEdit");
+            const replaceSpy = jest.spyOn(vscode.WorkspaceEdit.prototype, "replace");
+            const textDocuments = vscode.workspace.textDocuments;
+            Object.defineProperty(vscode.workspace, "textDocuments", { value: [{ uri: blockMocks.psUri, lineCount: 2 }], configurable: true });
+
+            await blockMocks.provider.readFile(blockMocks.psUri);
+            await expect(
+                blockMocks.provider.writeFile(blockMocks.psUri, Buffer.from("line1\nlocal2\n"), { create: false, overwrite: true })
+            ).rejects.toThrow("/sestest/HLQ.PS has changed on the mainframe. Resolve the 1 conflict(s) with your changes, then save again.");
+            Object.defineProperty(vscode.workspace, "textDocuments", { value: textDocuments, configurable: true });
+            expect(putContentsSpy).toHaveBeenCalledTimes(1);
+            expect(applyEditSpy).toHaveBeenCalled();
+            expect(replaceSpy.mock.calls[0][2]).toContain("<<<<<<<");
+            expect(blockMocks.provider.getEtag(blockMocks.psUri)).toBe("456");
+
+            await expect(
+                blockMocks.provider.writeFile(blockMocks.psUri, Buffer.from(replaceSpy.mock.calls[0][2]), {
+                    create: false,
+                    overwrite: true,
+                })
+            ).rejects.toThrow("Resolve all conflicts in /sestest/HLQ.PS before saving it.");
+            expect(putContentsSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it("refuses to save contents that were read from the offline cache", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.mvsApi, "getContents").mockResolvedValue({ success: true, commandResponse: "", apiResponse: {} });
+            jest.spyOn(OfflineCache, "getSavedAt").mockReturnValue(new Date(1000));
+            const putContentsSpy = jest.spyOn(blockMocks.mvsApi, "putContents");
+
+            await blockMocks.provider.readFile(blockMocks.psUri);
+            await expect(
+                blockMocks.provider.writeFile(blockMocks.psUri, Buffer.from("new contents"), { create: false, overwrite: true })
+            ).rejects.toThrow("/sestest/HLQ.PS was opened from the offline cache and cannot be saved");
+            expect(putContentsSpy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("rename", () => {
+        it("renames a member within the same data set", async () => {
+            const blockMocks = createBlockMocks();
+            const renameSpy = jest.spyOn(blockMocks.mvsApi, "renameDataSetMember").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: {},
+            });
+
+            await blockMocks.provider.rename(blockMocks.memberUri, DatasetFSProvider.buildUri(blockMocks.profile.name, "hlq.pds", "mem2"));
+            expect(renameSpy).toHaveBeenCalledWith("HLQ.PDS", "MEM1", "MEM2");
+        });
+
+        it("refuses to move a member to another data set", async () => {
+            const blockMocks = createBlockMocks();
+
+            await expect(
+                blockMocks.provider.rename(blockMocks.memberUri, DatasetFSProvider.buildUri(blockMocks.profile.name, "hlq.other", "mem1"))
+            ).rejects.toMatchObject({ code: "NoPermissions" });
+        });
+    });
+});
@@ -41,6 +41,8 @@ import * as dsUtils from "../../../src/dataset/utils";
 import { SettingsConfig } from "../../../src/utils/SettingsConfig";
 import * as sharedActions from "../../../src/shared/actions";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import * as dsActions from "../../../src/dataset/actions";
+import * as sharedUtils from "../../../src/shared/utils";
 
 jest.mock("fs");
 jest.mock("util");
@@ -111,6 +113,7 @@ function createGlobalMocks() {
     Object.defineProperty(SettingsConfig, "getDirectValue", {
         value: createGetConfigMock({
             "zowe.automaticProfileValidation": true,
+            "zowe.files.virtualFileSystem.enabled": false,
         }),
     });
     Object.defineProperty(globalMocks.mockProfilesCache, "getConfigInstance", {
@@ -1997,6 +2000,76 @@ describe("Dataset Tree Unit Tests - Function openItemFromPath", () => {
     });
 });
 
+describe("Dataset Tree Unit Tests - Functions handleDrag & handleDrop", () => {
+    function createBlockMocks() {
+        const session = createISession();
+        const imperativeProfile = createIProfile();
+        const treeView = createTreeView();
+        const datasetSessionNode = createDatasetSessionNode(session, imperativeProfile);
+        const pds = new ZoweDatasetNode("TEST.PDS", vscode.TreeItemCollapsibleState.Collapsed, datasetSessionNode, null);
+        pds.contextValue = globals.DS_PDS_CONTEXT;
+        const member = new ZoweDatasetNode("TESTMEMB", vscode.TreeItemCollapsibleState.None, pds, null);
+        member.contextValue = globals.DS_MEMBER_CONTEXT;
+        mocked(vscode.window.createTreeView).mockReturnValueOnce(treeView);
+        const testTree = new DatasetTree();
+        testTree.mSessionNodes.push(datasetSessionNode);
+
+        return {
+            datasetSessionNode,
+            pds,
+            member,
+            testTree,
+        };
+    }
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("Checking that handleDrag transfers the dragged members but not the sessions", () => {
+        createGlobalMocks();
+        const blockMocks = createBlockMocks();
+        const dataTransfer = new vscode.DataTransfer();
+
+        blockMocks.testTree.handleDrag([blockMocks.datasetSessionNode, blockMocks.member], dataTransfer);
+        expect(dataTransfer.get(globals.DS_TREE_MIME_TYPE).value).toEqual([blockMocks.member]);
+    });
+
+    it("Checking that handleDrop copies the USS files dropped on a member to its data set", async () => {
+        createGlobalMocks();
+        const blockMocks = createBlockMocks();
+        const ussFile = { fullPath: "/u/myuser/test.txt" } as any;
+        const dataTransfer = new vscode.DataTransfer();
+        dataTransfer.set(globals.USS_TREE_MIME_TYPE, new vscode.DataTransferItem([ussFile]));
+        const copyUssFilesToPds = jest.spyOn(dsActions, "copyUssFilesToPds").mockResolvedValue(undefined);
+
+        await blockMocks.testTree.handleDrop(blockMocks.member, dataTransfer);
+        expect(copyUssFilesToPds).toHaveBeenCalledWith(blockMocks.pds, [ussFile], blockMocks.testTree);
+    });
+
+    it("Checking that handleDrop uploads the local files dropped on a partitioned data set", async () => {
+        createGlobalMocks();
+        const blockMocks = createBlockMocks();
+        const files = [{ fsPath: "/local/test.txt" } as vscode.Uri];
+        jest.spyOn(sharedUtils, "getDroppedFiles").mockResolvedValue(files);
+        const uploadFiles = jest.spyOn(dsActions, "uploadFiles").mockResolvedValue(undefined);
+
+        await blockMocks.testTree.handleDrop(blockMocks.pds, new vscode.DataTransfer());
+        expect(uploadFiles).toHaveBeenCalledWith(blockMocks.pds, files, blockMocks.testTree);
+    });
+
+    it("Checking that handleDrop ignores the files dropped on a session", async () => {
+        createGlobalMocks();
+        const blockMocks = createBlockMocks();
+        const getDroppedFiles = jest.spyOn(sharedUtils, "getDroppedFiles");
+        const uploadFiles = jest.spyOn(dsActions, "uploadFiles").mockResolvedValue(undefined);
+
+        await blockMocks.testTree.handleDrop(blockMocks.datasetSessionNode, new vscode.DataTransfer());
+        expect(getDroppedFiles).not.toHaveBeenCalled();
+        expect(uploadFiles).not.toHaveBeenCalled();
+    });
+});
+
 describe("Dataset Tree Unit Tests - Function renameNode", () => {
     function createBlockMocks() {
         const session = createISession();
@@ -2552,4 +2625,174 @@ describe("Dataset Tree Unit Tests - Function initializeFavorites", () => {
         });
         expect(() => testTree.initializeFavorites(log)).not.toThrow();
     });
+
+    it("restores the member filter of a favorite PDS", () => {
+        createGlobalMocks();
+        const testTree = new DatasetTree();
+        Object.defineProperty(testTree, "mHistory", {
+            value: {
+                readFavorites: () => ["[sestest]: USER.PDS{pds} PROG*,/^JOB\\d{2,3}$/", "[sestest]: USER.PS{ds}"],
+            },
+        });
+
+        testTree.initializeFavorites(zowe.imperative.Logger.getAppLogger());
+        const [pds, ps] = testTree.mFavorites[0].children as ZoweDatasetNode[];
+        expect(pds.label).toEqual("USER.PDS");
+        expect(pds.memberPattern).toEqual("PROG*,/^JOB\\d{2,3}$/");
+        expect(pds.description).toEqual("PROG*,/^JOB\\d{2,3}$/");
+        expect(ps.memberPattern).toEqual("");
+    });
+});
+
+describe("Dataset Tree Unit Tests - Sort and filter PDS members", () => {
+    function createBlockMocks() {
+        createGlobalMocks();
+        const session = createISession();
+        const imperativeProfile = createIProfile();
+        const treeView = createTreeView();
+        const datasetSessionNode = createDatasetSessionNode(session, imperativeProfile);
+        mocked(vscode.window.createTreeView).mockReturnValueOnce(treeView);
+        const testTree = new DatasetTree();
+        testTree.mSessionNodes.push(datasetSessionNode);
+        const pds = new ZoweDatasetNode(
+            "USER1.PDS",
+            vscode.TreeItemCollapsibleState.Collapsed,
+            datasetSessionNode,
+            null,
+            undefined,
+            undefined,
+            imperativeProfile
+        );
+        const setSessionOptions = jest.spyOn(PersistentFilters.prototype, "setSessionOptions").mockResolvedValue(undefined);
+        const refreshElement = jest.spyOn(testTree, "refreshElement").mockImplementation();
+
+        return { testTree, pds, setSessionOptions, refreshElement, imperativeProfile };
+    }
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("sorts the members of a PDS and saves the choice", async () => {
+        const blockMocks = createBlockMocks();
+        mocked(vscode.window.showQuickPick)
+            .mockImplementationOnce((items) => Promise.resolve(items[1]))
+            .mockImplementationOnce((items) => Promise.resolve(items[1]));
+
+        await blockMocks.testTree.sortPdsMembers(blockMocks.pds);
+
+        const sortOptions = { method: globals.MemberSortMethod.DateModified, descending: true };
+        expect(blockMocks.pds.sortOptions).toEqual(sortOptions);
+        expect(blockMocks.setSessionOptions).toHaveBeenCalledWith("sestest/USER1.PDS", { sort: sortOptions, filter: undefined });
+        expect(blockMocks.refreshElement).toHaveBeenCalledWith(blockMocks.pds);
+    });
+
+    it("does not change the order of the members when the prompt is cancelled", async () => {
+        const blockMocks = createBlockMocks();
+        mocked(vscode.window.showQuickPick).mockResolvedValueOnce(undefined);
+
+        await blockMocks.testTree.sortPdsMembers(blockMocks.pds);
+
+        expect(blockMocks.pds.sortOptions).toBeUndefined();
+        expect(blockMocks.setSessionOptions).not.toHaveBeenCalled();
+    });
+
+    it("filters the members of a PDS by user ID and saves the filter", async () => {
+        const blockMocks = createBlockMocks();
+        mocked(vscode.window.showQuickPick).mockImplementationOnce((items) => Promise.resolve(items[0]));
+        mocked(vscode.window.showInputBox).mockResolvedValueOnce("user*");
+
+        await blockMocks.testTree.filterPdsMembers(blockMocks.pds);
+
+        const filter = { method: globals.MemberFilterMethod.UserId, value: "USER*" };
+        expect(blockMocks.pds.memberFilter).toEqual(filter);
+        expect(blockMocks.setSessionOptions).toHaveBeenCalledWith("sestest/USER1.PDS", { sort: undefined, filter });
+        expect(blockMocks.refreshElement).toHaveBeenCalledWith(blockMocks.pds);
+    });
+
+    it("validates the date of the changed since filter", async () => {
+        const blockMocks = createBlockMocks();
+        mocked(vscode.window.showQuickPick).mockImplementationOnce((items) => Promise.resolve(items[1]));
+        mocked(vscode.window.showInputBox).mockResolvedValueOnce(undefined);
+
+        await blockMocks.testTree.filterPdsMembers(blockMocks.pds);
+
+        const validateInput = mocked(vscode.window.showInputBox).mock.calls[0][0].validateInput;
+        expect(validateInput("2026-10-18")).toBeNull();
+        expect(validateInput("18.10.2026")).toEqual("Enter a date in the YYYY-MM-DD format");
+        expect(validateInput("")).toEqual("Enter a date in the YYYY-MM-DD format");
+        expect(blockMocks.setSessionOptions).not.toHaveBeenCalled();
+    });
+
+    it("clears the filter of a PDS", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.pds.memberFilter = { method: globals.MemberFilterMethod.ChangedSince, value: "2026-10-01" };
+        mocked(vscode.window.showQuickPick).mockImplementationOnce((items) => Promise.resolve(items[2]));
+
+        await blockMocks.testTree.filterPdsMembers(blockMocks.pds);
+
+        expect(blockMocks.pds.memberFilter).toBeUndefined();
+        expect(blockMocks.setSessionOptions).toHaveBeenCalledWith("sestest/USER1.PDS", { sort: undefined, filter: undefined });
+    });
+
+    it("restores the saved sort and filter of a PDS before loading its members", async () => {
+        const blockMocks = createBlockMocks();
+        const pdsOptions = {
+            sort: { method: globals.MemberSortMethod.UserId, descending: false },
+            filter: { method: globals.MemberFilterMethod.UserId, value: "USER1" },
+        };
+        const getSessionOptions = jest.spyOn(PersistentFilters.prototype, "getSessionOptions").mockReturnValue(pdsOptions);
+        jest.spyOn(blockMocks.pds, "getChildren").mockResolvedValue([]);
+
+        await blockMocks.testTree.getChildren(blockMocks.pds);
+
+        expect(getSessionOptions).toHaveBeenCalledWith("sestest/USER1.PDS");
+        expect(blockMocks.pds.sortOptions).toEqual(pdsOptions.sort);
+        expect(blockMocks.pds.memberFilter).toEqual(pdsOptions.filter);
+    });
+
+    it("filters the members of a PDS by name and shows the filter in its description", async () => {
+        const blockMocks = createBlockMocks();
+        mocked(vscode.window.showInputBox).mockResolvedValueOnce(" PROG*, /^JOB\\d{2,3}$/ ");
+
+        await blockMocks.testTree.filterMembers(blockMocks.pds);
+
+        expect(blockMocks.pds.memberPattern).toEqual("PROG*,/^JOB\\d{2,3}$/");
+        expect(blockMocks.pds.description).toEqual("PROG*,/^JOB\\d{2,3}$/");
+        expect(blockMocks.refreshElement).toHaveBeenCalledWith(blockMocks.pds);
+    });
+
+    it("validates the member name patterns", async () => {
+        const blockMocks = createBlockMocks();
+        mocked(vscode.window.showInputBox).mockResolvedValueOnce(undefined);
+
+        await blockMocks.testTree.filterMembers(blockMocks.pds);
+
+        const validateInput = mocked(vscode.window.showInputBox).mock.calls[0][0].validateInput;
+        expect(validateInput("PROG*, TEST%%, /^A{1,2}$/i")).toBeNull();
+        expect(validateInput("PROG-1")).toEqual("Invalid member name pattern: PROG-1");
+        expect(validateInput("/(/")).toContain("Invalid regular expression /(/");
+        expect(blockMocks.pds.memberPattern).toEqual("");
+        expect(blockMocks.refreshElement).not.toHaveBeenCalled();
+    });
+
+    it("clears the member name filter and saves the filter of a favorite PDS", async () => {
+        const blockMocks = createBlockMocks();
+        const favProfileNode = blockMocks.testTree.createProfileNodeForFavs("sestest");
+        const favPds = blockMocks.testTree.initializeFavChildNodeForProfile("USER1.PDS", globals.DS_PDS_CONTEXT, favProfileNode);
+        favProfileNode.children.push(favPds);
+        favPds.memberPattern = "PROG*";
+        favPds.description = "PROG*";
+        const updateFavorites = jest.spyOn(PersistentFilters.prototype, "updateFavorites").mockImplementation();
+        mocked(vscode.window.showInputBox).mockResolvedValueOnce("TEST*");
+
+        await blockMocks.testTree.filterMembers(favPds);
+        expect(updateFavorites).toHaveBeenCalledWith(["[sestest]: USER1.PDS{pds} TEST*"]);
+
+        mocked(vscode.window.showInputBox).mockResolvedValueOnce("");
+        await blockMocks.testTree.filterMembers(favPds);
+        expect(favPds.memberPattern).toEqual("");
+        expect(favPds.description).toBeUndefined();
+        expect(updateFavorites).toHaveBeenLastCalledWith(["[sestest]: USER1.PDS{pds}"]);
+    });
 });
@@ -32,6 +32,7 @@ import {
 import { ZoweDatasetNode } from "../../../src/dataset/ZoweDatasetNode";
 import { bindMvsApi, createMvsApi } from "../../../__mocks__/mockCreators/api";
 import * as dsActions from "../../../src/dataset/actions";
+import * as allocateView from "../../../src/dataset/AllocateView";
 import * as globals from "../../../src/globals";
 import * as path from "path";
 import * as fs from "fs";
@@ -42,7 +43,12 @@ import * as wsUtils from "../../../src/utils/workspace";
 import { getNodeLabels } from "../../../src/dataset/utils";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
 import * as context from "../../../src/shared/context";
+import * as merge from "../../../src/shared/merge";
 import { ZoweExplorerApiRegister } from "../../../src/ZoweExplorerApiRegister";
+import { SettingsConfig } from "../../../src/utils/SettingsConfig";
+import { OfflineCache } from "../../../src/utils/OfflineCache";
+import { LocalHistory } from "../../../src/shared/LocalHistory";
+import { FolderDownload } from "../../../src/shared/FolderDownload";
 
 // Missing the definition of path module, because I need the original logic for tests
 jest.mock("fs");
@@ -101,6 +107,7 @@ function createGlobalMocks() {
     Object.defineProperty(vscode.window, "showTextDocument", { value: jest.fn(), configurable: true });
     Object.defineProperty(vscode.window, "showQuickPick", { value: jest.fn(), configurable: true });
     Object.defineProperty(vscode.window, "createQuickPick", { value: jest.fn(), configurable: true });
+    Object.defineProperty(SettingsConfig, "getDirectValue", { value: jest.fn(), configurable: true });
     Object.defineProperty(vscode.commands, "executeCommand", { value: jest.fn(), configurable: true });
     Object.defineProperty(vscode.workspace, "applyEdit", { value: jest.fn(), configurable: true });
     Object.defineProperty(globals, "LOG", { value: jest.fn(), configurable: true });
@@ -1049,6 +1056,22 @@ describe("Dataset Actions Unit Tests - Function saveFile", () => {
         expect(dataSetSpy).toBeCalledWith("HLQ.TEST.AFILE", { responseTimeout: blockMocks.imperativeProfile.profile?.responseTimeout });
         expect(mocked(Gui.errorMessage)).toBeCalledWith("Data set failed to save. Data set may have been deleted or renamed on mainframe.");
     });
+    it("Checking common dataset saving leaves network errors to the save queue", async () => {
+        globals.defineGlobals("");
+        createGlobalMocks();
+        const blockMocks = createBlockMocks();
+
+        blockMocks.testDatasetTree.getChildren.mockReturnValueOnce([blockMocks.datasetSessionNode]);
+        blockMocks.profileInstance.loadNamedProfile.mockReturnValueOnce(blockMocks.imperativeProfile);
+        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
+        const networkError = Object.assign(new Error("connect ECONNREFUSED"), { code: "ECONNREFUSED" });
+        jest.spyOn(blockMocks.mvsApi, "dataSet").mockRejectedValueOnce(networkError);
+        const testDocument = createTextDocument("HLQ.TEST.AFILE", blockMocks.datasetSessionNode);
+        (testDocument as any).fileName = path.join(globals.DS_DIR, testDocument.fileName);
+
+        await expect(dsActions.saveFile(testDocument, blockMocks.testDatasetTree)).rejects.toBe(networkError);
+        expect(mocked(Gui.errorMessage)).not.toHaveBeenCalled();
+    });
     it("Checking common dataset saving", async () => {
         globals.defineGlobals("");
         const globalMocks = createGlobalMocks();
@@ -1360,15 +1383,17 @@ describe("Dataset Actions Unit Tests - Function saveFile", () => {
         mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
         const testDocument = createTextDocument("HLQ.TEST.AFILE(mem)", blockMocks.datasetSessionNode);
         (testDocument as any).fileName = path.join(globals.DS_DIR, testDocument.fileName);
+        const saveVersionSpy = jest.spyOn(LocalHistory, "saveVersion").mockResolvedValueOnce(undefined);
 
         await dsActions.saveFile(testDocument, blockMocks.testDatasetTree);
 
         expect(mocked(sharedUtils.concatChildNodes)).toBeCalled();
+        expect(saveVersionSpy).toBeCalledWith(blockMocks.imperativeProfile, "HLQ.TEST.AFILE(MEM)");
         expect(mocked(Gui.setStatusBarMessage)).toBeCalledWith("success", globals.STATUS_BAR_TIMEOUT_MS);
     });
     it("Checking common dataset saving failed due to conflict with server version", async () => {
         globals.defineGlobals("");
-        createGlobalMocks();
+        const globalMocks = createGlobalMocks();
         const blockMocks = createBlockMocks();
         const node = new ZoweDatasetNode(
             "HLQ.TEST.AFILE",
@@ -1418,16 +1443,36 @@ describe("Dataset Actions Unit Tests - Function saveFile", () => {
 
         const testDocument = createTextDocument("HLQ.TEST.AFILE", blockMocks.datasetSessionNode);
         (testDocument as any).fileName = path.join(globals.DS_DIR, testDocument.fileName);
+        mocked(testDocument.getText).mockReturnValue("local line");
+        jest.spyOn(fs, "readFileSync").mockReturnValueOnce("remote line");
+        merge.setBaseContent(testDocument.fileName, "base line");
+        globalMocks.mockShowWarningMessage.mockResolvedValueOnce(undefined);
         const logSpy = jest.spyOn(ZoweLogger, "warn");
-        const commandSpy = jest.spyOn(vscode.commands, "executeCommand");
+        const replaceSpy = jest.spyOn(vscode.WorkspaceEdit.prototype, "replace");
 
         await dsActions.saveFile(testDocument, blockMocks.testDatasetTree);
 
         expect(logSpy).toBeCalledWith("Remote file has changed. Presenting with way to resolve file.");
         expect(mocked(sharedUtils.concatChildNodes)).toBeCalled();
-        expect(commandSpy).toBeCalledWith("workbench.files.action.compareWithSaved");
+        expect(replaceSpy).toBeCalledWith(
+            testDocument.uri,
+            expect.anything(),
+            [
+                "<<<<<<< Local changes",
+                "local line",
+                "||||||| Downloaded version",
+                "base line",
+                "=======",
+                "remote line",
+                ">>>>>>> Remote version",
+            ].join("\n")
+        );
+        expect(globalMocks.mockShowWarningMessage).toBeCalledWith(
+            "HLQ.TEST.AFILE has changed on the mainframe. Resolve the 1 conflict(s) with your changes, then select Upload.",
+            { items: ["Upload"] }
+        );
         logSpy.mockClear();
-        commandSpy.mockClear();
+        replaceSpy.mockRestore();
     });
 });
 
@@ -1470,6 +1515,7 @@ describe("Dataset Actions Unit Tests - Function showAttributes", () => {
         mocked(vscode.window.createWebviewPanel).mockReturnValueOnce({
             webview: {
                 html: "",
+                onDidReceiveMessage: jest.fn(),
             },
         } as any);
         const datasetListSpy = jest.spyOn(blockMocks.mvsApi, "dataSet");
@@ -1500,6 +1546,7 @@ describe("Dataset Actions Unit Tests - Function showAttributes", () => {
         mocked(vscode.window.createWebviewPanel).mockReturnValueOnce({
             webview: {
                 html: "",
+                onDidReceiveMessage: jest.fn(),
             },
         } as any);
         const allMembersSpy = jest.spyOn(blockMocks.mvsApi, "allMembers");
@@ -1538,6 +1585,7 @@ describe("Dataset Actions Unit Tests - Function showAttributes", () => {
         mocked(vscode.window.createWebviewPanel).mockReturnValueOnce({
             webview: {
                 html: "",
+                onDidReceiveMessage: jest.fn(),
             },
         } as any);
         const datasetListSpy = jest.spyOn(blockMocks.mvsApi, "dataSet");
@@ -1565,6 +1613,7 @@ describe("Dataset Actions Unit Tests - Function showAttributes", () => {
         mocked(vscode.window.createWebviewPanel).mockReturnValueOnce({
             webview: {
                 html: "",
+                onDidReceiveMessage: jest.fn(),
             },
         } as any);
         const datasetListSpy = jest.spyOn(blockMocks.mvsApi, "dataSet");
@@ -1593,6 +1642,7 @@ describe("Dataset Actions Unit Tests - Function showAttributes", () => {
         mocked(vscode.window.createWebviewPanel).mockReturnValueOnce({
             webview: {
                 html: "",
+                onDidReceiveMessage: jest.fn(),
             },
         } as any);
         const datasetListSpy = jest.spyOn(blockMocks.mvsApi, "dataSet");
@@ -1621,6 +1671,7 @@ describe("Dataset Actions Unit Tests - Function showAttributes", () => {
         mocked(vscode.window.createWebviewPanel).mockReturnValueOnce({
             webview: {
                 html: "",
+                onDidReceiveMessage: jest.fn(),
             },
         } as any);
         const datasetListSpy = jest.spyOn(blockMocks.mvsApi, "dataSet");
@@ -1648,6 +1699,7 @@ describe("Dataset Actions Unit Tests - Function showAttributes", () => {
         mocked(vscode.window.createWebviewPanel).mockReturnValueOnce({
             webview: {
                 html: "",
+                onDidReceiveMessage: jest.fn(),
             },
         } as any);
         const datasetListSpy = jest.spyOn(blockMocks.mvsApi, "dataSet");
@@ -2721,569 +2773,44 @@ describe("Dataset Actions Unit Tests - Function showFileErrorDetails", () => {
 describe("Dataset Actions Unit Tests - Function createFile", () => {
     function createBlockMocks() {
         const session = createISession();
-        const sessionWithoutCredentials = createISessionWithoutCredentials();
         const imperativeProfile = createIProfile();
         const profileInstance = createInstanceOfProfile(imperativeProfile);
-        const zosmfSession = createSessCfgFromArgs(imperativeProfile);
         const treeView = createTreeView();
         const datasetSessionNode = createDatasetSessionNode(session, imperativeProfile);
         const testDatasetTree = createDatasetTree(datasetSessionNode, treeView);
-        const mvsApi = createMvsApi(imperativeProfile);
-        const mockCheckCurrentProfile = jest.fn();
-        bindMvsApi(mvsApi);
-        mocked(treeView.reveal).mockReturnValue(new Promise((resolve) => resolve(null)));
+        const showAllocateViewSpy = jest.spyOn(allocateView, "showAllocateView").mockReturnValue(undefined);
+        showAllocateViewSpy.mockClear();
 
         return {
-            session,
-            sessionWithoutCredentials,
-            zosmfSession,
-            treeView,
             imperativeProfile,
             datasetSessionNode,
-            mvsApi,
             profileInstance,
             testDatasetTree,
-            mockCheckCurrentProfile,
+            showAllocateViewSpy,
         };
     }
-    it("Checking of proper configuration being picked up for different DS types", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("test");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([]);
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        mocked(vscode.window.showInputBox).mockResolvedValue("test");
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        const getChildrenSpy = jest.spyOn(blockMocks.datasetSessionNode, "getChildren");
-        getChildrenSpy.mockResolvedValue([]);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValue("Allocate Data Set" as any);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: Binary" as any);
-        await dsActions.createFile(blockMocks.datasetSessionNode, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_BINARY);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: C" as any);
-        await dsActions.createFile(blockMocks.datasetSessionNode, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_C);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: Classic" as any);
-        await dsActions.createFile(blockMocks.datasetSessionNode, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_CLASSIC);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: Default" as any);
-        await dsActions.createFile(blockMocks.datasetSessionNode, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_PDS);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-        await dsActions.createFile(blockMocks.datasetSessionNode, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_PS);
-
-        expect(createDataSetSpy).toHaveBeenCalledTimes(5);
-    });
-    it("Checking of proper configuration being picked up for different DS types with credentials prompt", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        blockMocks.profileInstance.promptCredentials.mockReturnValue(["fake", "fake", "fake"]);
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("test");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([]);
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        mocked(vscode.window.showInputBox).mockResolvedValue("test");
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, null, blockMocks.sessionWithoutCredentials);
-        node.setProfileToChoice(blockMocks.imperativeProfile);
-        node.contextValue = globals.DS_SESSION_CONTEXT;
-        const getChildrenSpy = jest.spyOn(node, "getChildren");
-        getChildrenSpy.mockResolvedValue([]);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValue("Allocate Data Set" as any);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: Binary" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_BINARY);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: C" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_C);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: Classic" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_CLASSIC);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: Default" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_PDS);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_PS);
-
-        expect(createDataSetSpy).toHaveBeenCalledTimes(5);
-    });
-    it("Checking of proper configuration being picked up for different DS types with credentials prompt for favorite", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        blockMocks.profileInstance.promptCredentials.mockReturnValue(["fake", "fake", "fake"]);
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("test");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([]);
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        mocked(vscode.window.showInputBox).mockResolvedValue("test");
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, null, blockMocks.sessionWithoutCredentials);
-        node.contextValue = globals.DS_SESSION_CONTEXT + globals.FAV_SUFFIX;
-        const getChildrenSpy = jest.spyOn(node, "getChildren");
-        getChildrenSpy.mockResolvedValue([]);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValue("Allocate Data Set" as any);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: Binary" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_BINARY);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: C" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_C);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: Classic" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_CLASSIC);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Partitioned Data Set: Default" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_PDS);
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_PS);
-
-        expect(createDataSetSpy).toHaveBeenCalledTimes(5);
-        createDataSetSpy.mockClear();
-    });
-    it("Checking PS dataset creation", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("test");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([]);
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        mocked(vscode.window.showInputBox).mockImplementation((options) => {
-            options.validateInput("test");
-            return Promise.resolve("test");
-        });
-        mocked(vscode.window.showQuickPick).mockResolvedValue("Allocate Data Set" as any);
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
-        node.contextValue = globals.DS_DS_CONTEXT;
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_PS);
-        expect(createDataSetSpy).toHaveBeenCalledWith(zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL, "TEST", {
-            alcunit: "CYL",
-            blksize: 6160,
-            dsorg: "PS",
-            lrecl: 80,
-            primary: 1,
-            recfm: "FB",
-            responseTimeout: undefined,
-        });
-    });
-    it("Checking PS dataset errored creation with Unverified profile", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-
-        Object.defineProperty(Profiles, "getInstance", {
-            value: jest.fn(() => {
-                return {
-                    checkCurrentProfile: blockMocks.mockCheckCurrentProfile.mockReturnValueOnce({
-                        name: blockMocks.imperativeProfile.name,
-                        status: "unverified",
-                    }),
-                    validProfile: ValidProfileEnum.UNVERIFIED,
-                };
-            }),
-        });
-
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("test");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([]);
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        mocked(vscode.window.showInputBox).mockResolvedValue("test");
-        mocked(vscode.window.showQuickPick).mockResolvedValue("Allocate Data Set" as any);
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        createDataSetSpy.mockRejectedValueOnce(Error("Generic Error"));
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
-        node.contextValue = globals.DS_DS_CONTEXT;
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-        try {
-            await dsActions.createFile(node, blockMocks.testDatasetTree);
-        } catch (err) {
-            // do nothing
-        }
-
-        expect(mocked(Gui.errorMessage)).toHaveBeenCalledWith("Error encountered when creating data set. Error: Generic Error");
-        expect(mocked(vscode.workspace.getConfiguration)).lastCalledWith(globals.SETTINGS_DS_DEFAULT_PS);
-        expect(createDataSetSpy).toHaveBeenCalledWith(zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL, "TEST", {
-            alcunit: "CYL",
-            blksize: 6160,
-            dsorg: "PS",
-            lrecl: 80,
-            primary: 1,
-            recfm: "FB",
-            responseTimeout: undefined,
-        });
-    });
-    it("Checking dataset attempt of creation with empty type", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("test");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([]);
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        mocked(vscode.window.showInputBox).mockResolvedValue("test");
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
-        node.contextValue = globals.DS_DS_CONTEXT;
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce(undefined);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-
-        expect(mocked(Gui.showMessage)).toHaveBeenCalledWith("Operation Cancelled");
-        expect(mocked(vscode.workspace.getConfiguration)).not.toBeCalled();
-        expect(createDataSetSpy).not.toHaveBeenCalled();
-    });
-    it("Tests that user can edit the node label", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("NODE1,NODE.*");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([null]);
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
-        node.contextValue = globals.DS_DS_CONTEXT;
-
-        // 1st step: User names DS
-        mocked(vscode.window.showInputBox).mockResolvedValueOnce("test");
-
-        // 2nd step: User selects DS type
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-
-        // 3rd step: User selects Edit attributes
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Edit Attributes" as any);
-
-        // 4th step: User tries to edit Node Label
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        const selectedItem: vscode.QuickPickItem = { label: "Data Set Name" };
-        jest.spyOn(Gui, "resolveQuickPick").mockResolvedValueOnce(selectedItem);
-        mocked(vscode.window.showInputBox).mockResolvedValueOnce("TEST.EDIT");
-
-        // Then they try to allocate
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        jest.spyOn(Gui, "resolveQuickPick").mockResolvedValueOnce({ label: "Allocate Data Set" });
-
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-
-        expect(createDataSetSpy).toHaveBeenCalledWith(zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL, "TEST.EDIT", {
-            alcunit: "CYL",
-            blksize: 6160,
-            dsorg: "PS",
-            lrecl: 80,
-            primary: 1,
-            recfm: "FB",
-        });
-    });
 
-    it("Tests that user can edit the attributes and save as new template", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("NODE1,NODE.*");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([null]);
-
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
-        node.contextValue = globals.DS_DS_CONTEXT;
-
-        // 1st step: User names DS
-        mocked(vscode.window.showInputBox).mockResolvedValueOnce("test");
-
-        // 2nd step: User selects DS type
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-
-        // 3rd step: User selects Edit attributes
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Edit Attributes" as any);
-
-        // 4th step: User tries to edit Record Length
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        const selectedItem: vscode.QuickPickItem = { label: "Allocation Unit" };
-        jest.spyOn(Gui, "resolveQuickPick").mockResolvedValueOnce(selectedItem);
-        mocked(vscode.window.showInputBox).mockResolvedValueOnce("TRK");
-
-        // Then they try to allocate
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        jest.spyOn(Gui, "resolveQuickPick").mockResolvedValueOnce({ label: "Allocate Data Set" });
-
-        const templateSpy = jest.spyOn(Gui, "infoMessage").mockResolvedValueOnce("Save");
-        mocked(vscode.window.showInputBox).mockResolvedValueOnce("TestTemplate");
-        const addTempSpy = jest.spyOn(blockMocks.testDatasetTree, "addDsTemplate");
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-
-        expect(createDataSetSpy).toHaveBeenCalledWith(zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL, "TEST", {
-            alcunit: "TRK",
-            blksize: 6160,
-            dsorg: "PS",
-            lrecl: 80,
-            primary: 1,
-            recfm: "FB",
-        });
-        expect(templateSpy).toBeCalled();
-        expect(addTempSpy).toBeCalled();
-        templateSpy.mockClear();
-        addTempSpy.mockClear();
-    });
-    it("Tests that user can edit the attributes and don't save as new template", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("NODE1,NODE.*");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([null]);
-
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
-        node.contextValue = globals.DS_DS_CONTEXT;
-
-        // 1st step: User names DS
-        mocked(vscode.window.showInputBox).mockResolvedValueOnce("test");
-
-        // 2nd step: User selects DS type
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-
-        // 3rd step: User selects Edit attributes
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Edit Attributes" as any);
-
-        // 4th step: User tries to edit Record Length
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        const selectedItem: vscode.QuickPickItem = { label: "Allocation Unit" };
-        jest.spyOn(Gui, "resolveQuickPick").mockResolvedValueOnce(selectedItem);
-        mocked(vscode.window.showInputBox).mockResolvedValueOnce("TRK");
-
-        // Then they try to allocate
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        jest.spyOn(Gui, "resolveQuickPick").mockResolvedValueOnce({ label: "Allocate Data Set" });
-
-        const templateSpy = jest.spyOn(Gui, "infoMessage").mockResolvedValueOnce(undefined);
-        const addTempSpy = jest.spyOn(blockMocks.testDatasetTree, "addDsTemplate");
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-
-        expect(createDataSetSpy).toHaveBeenCalledWith(zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL, "TEST", {
-            alcunit: "TRK",
-            blksize: 6160,
-            dsorg: "PS",
-            lrecl: 80,
-            primary: 1,
-            recfm: "FB",
-        });
-        expect(templateSpy).toBeCalled();
-        expect(addTempSpy).toBeCalledTimes(0);
-        templateSpy.mockClear();
-        addTempSpy.mockClear();
-    });
-    it("Checking dataset creation of saved template", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("test");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([]);
-        blockMocks.testDatasetTree.getDsTemplates.mockReturnValue([
-            {
-                TEMPTST: {
-                    alcunit: "CYL",
-                    blksize: 6160,
-                    dsorg: "PO",
-                    lrecl: 80,
-                    primary: 1,
-                    recfm: "FB",
-                },
-            },
-        ]);
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        mocked(vscode.window.showInputBox).mockImplementation((options) => {
-            options.validateInput("test");
-            return Promise.resolve("test");
-        });
-        mocked(vscode.window.showQuickPick).mockResolvedValue("Allocate Data Set" as any);
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
-        node.contextValue = globals.DS_DS_CONTEXT;
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("TEMPTST" as any);
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
-
-        expect(createDataSetSpy).toHaveBeenCalledWith(zowe.CreateDataSetTypeEnum.DATA_SET_PARTITIONED, "TEST", {
-            alcunit: "CYL",
-            blksize: 6160,
-            dsorg: "PO",
-            lrecl: 80,
-            primary: 1,
-            recfm: "FB",
-            responseTimeout: undefined,
-        });
-    });
-    it("Checking correct opCancelled message with no dsName returned", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue(undefined);
-        const createDataSetSpy = jest.spyOn(Gui, "showMessage");
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, "" as any);
-        node.contextValue = globals.DS_DS_CONTEXT;
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
+    afterAll(() => jest.restoreAllMocks());
 
-        expect(createDataSetSpy).toBeCalledWith("Operation Cancelled");
-    });
-    it("Checking opCancelled message shown when no ds type chosen", async () => {
+    it("Checking that the allocation form is shown for the session", () => {
         createGlobalMocks();
         const blockMocks = createBlockMocks();
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("test");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([]);
         mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        mocked(vscode.window.showInputBox).mockImplementation((options) => {
-            options.validateInput("test");
-            return Promise.resolve("test");
-        });
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, "" as any);
-        node.contextValue = globals.DS_DS_CONTEXT;
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce(undefined);
-        const createDataSetSpy = jest.spyOn(Gui, "showMessage");
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
 
-        expect(createDataSetSpy).toBeCalledWith("Operation Cancelled");
-    });
-    it("Checking opCancelled message shown when user escapes allocate or edit attributes options", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("test");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([]);
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        mocked(vscode.window.showInputBox).mockImplementation((options) => {
-            options.validateInput("test");
-            return Promise.resolve("test");
-        });
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, "" as any);
-        node.contextValue = globals.DS_DS_CONTEXT;
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce(undefined);
-        const createDataSetSpy = jest.spyOn(Gui, "showMessage");
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
+        dsActions.createFile(blockMocks.datasetSessionNode, blockMocks.testDatasetTree);
 
-        expect(createDataSetSpy).toBeCalledWith("Operation Cancelled");
+        expect(blockMocks.testDatasetTree.checkCurrentProfile).toBeCalledWith(blockMocks.datasetSessionNode);
+        expect(blockMocks.showAllocateViewSpy).toBeCalledWith(blockMocks.datasetSessionNode, blockMocks.testDatasetTree);
     });
-    it("Checking opCancelled message shown when user escapes during edit attributes", async () => {
-        createGlobalMocks();
-        const blockMocks = createBlockMocks();
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("test");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([]);
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        mocked(vscode.window.showInputBox).mockImplementation((options) => {
-            options.validateInput("test");
-            return Promise.resolve("test");
-        });
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, "" as any);
-        node.contextValue = globals.DS_DS_CONTEXT;
-
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Edit Attributes" as any);
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        const selectedItem: vscode.QuickPickItem = undefined as any;
-        jest.spyOn(Gui, "resolveQuickPick").mockResolvedValueOnce(selectedItem);
-        const createDataSetSpy = jest.spyOn(Gui, "showMessage");
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
 
-        expect(createDataSetSpy).toBeCalledWith("Operation Cancelled");
-    });
-    it("Checking opCancelled message shown when no template name supplied", async () => {
+    it("Checking that the allocation form is not shown for an invalid profile", () => {
         createGlobalMocks();
         const blockMocks = createBlockMocks();
+        mocked(Profiles.getInstance).mockReturnValue({ ...blockMocks.profileInstance, validProfile: ValidProfileEnum.INVALID });
 
-        blockMocks.testDatasetTree.createFilterString.mockReturnValue("NODE1,NODE.*");
-        blockMocks.testDatasetTree.getSearchHistory.mockReturnValue([null]);
-
-        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
-        const createDataSetSpy = jest.spyOn(blockMocks.mvsApi, "createDataSet");
-        createDataSetSpy.mockReset();
-        const node = new ZoweDatasetNode("HLQ.TEST.TO.NODE", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
-        node.contextValue = globals.DS_DS_CONTEXT;
-
-        // 1st step: User names DS
-        mocked(vscode.window.showInputBox).mockResolvedValueOnce("test");
-
-        // 2nd step: User selects DS type
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Sequential Data Set" as any);
-
-        // 3rd step: User selects Edit attributes
-        mocked(vscode.window.showQuickPick).mockResolvedValueOnce("Edit Attributes" as any);
-
-        // 4th step: User tries to edit Record Length
-        const quickPickContent = createQuickPickContent("", [], "");
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        const selectedItem: vscode.QuickPickItem = { label: "Allocation Unit" };
-        jest.spyOn(Gui, "resolveQuickPick").mockResolvedValueOnce(selectedItem);
-        mocked(vscode.window.showInputBox).mockResolvedValueOnce("TRK");
-
-        // Then they try to allocate
-        mocked(vscode.window.createQuickPick).mockReturnValueOnce(quickPickContent);
-        jest.spyOn(Gui, "resolveQuickPick").mockResolvedValueOnce({ label: "Allocate Data Set" });
-
-        const templateSpy = jest.spyOn(Gui, "infoMessage").mockResolvedValueOnce("Save");
-        mocked(vscode.window.showInputBox).mockResolvedValueOnce(undefined);
-        const opCancelledSpy = jest.spyOn(Gui, "showMessage");
-        const addTempSpy = jest.spyOn(blockMocks.testDatasetTree, "addDsTemplate");
-        await dsActions.createFile(node, blockMocks.testDatasetTree);
+        dsActions.createFile(blockMocks.datasetSessionNode, blockMocks.testDatasetTree);
 
-        expect(templateSpy).toBeCalled();
-        expect(addTempSpy).toBeCalledTimes(0);
-        expect(opCancelledSpy).toBeCalledWith("Operation Cancelled");
-        templateSpy.mockClear();
-        addTempSpy.mockClear();
+        expect(blockMocks.showAllocateViewSpy).not.toBeCalled();
     });
 });
 
@@ -3362,6 +2889,49 @@ describe("Dataset Actions Unit Tests - Function openPS", () => {
         expect(mocked(vscode.workspace.openTextDocument)).toBeCalledWith(sharedUtils.getDocumentFilePath(node.label.toString(), node));
     });
 
+    it("Checking of opening for dataset from the offline cache", async () => {
+        globals.defineGlobals("");
+        const globalMocks = createGlobalMocks();
+        const blockMocks = createBlockMocks();
+        const response = { success: true, commandResponse: null, apiResponse: { etag: "123" } };
+        globalMocks.getContentsSpy.mockResolvedValueOnce(response);
+        mocked(Profiles.getInstance).mockReturnValue({ ...blockMocks.profileInstance, validProfile: ValidProfileEnum.INVALID });
+        const hasContentsSpy = jest.spyOn(OfflineCache, "hasContents").mockReturnValue(true);
+        const getSavedAtSpy = jest.spyOn(OfflineCache, "getSavedAt").mockReturnValue(new Date(1000));
+        const cachedUri = vscode.Uri.from({ scheme: "zowe-cache", path: "/sestest/node", query: "1000" });
+        const openReadOnlySpy = jest.spyOn(OfflineCache, "openReadOnly").mockReturnValue(cachedUri);
+        const node = new ZoweDatasetNode("node", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
+        const setEtagSpy = jest.spyOn(node, "setEtag");
+
+        await dsActions.openPS(node, true, blockMocks.testDatasetTree);
+
+        expect(hasContentsSpy).toBeCalledWith("sestest", "node");
+        expect(getSavedAtSpy).toBeCalledWith(response);
+        expect(openReadOnlySpy).toBeCalledWith("sestest", "node", sharedUtils.getDocumentFilePath("node", node), new Date(1000));
+        expect(mocked(vscode.workspace.openTextDocument)).toBeCalledWith(cachedUri);
+        expect(setEtagSpy).not.toBeCalled();
+        hasContentsSpy.mockRestore();
+        getSavedAtSpy.mockRestore();
+        openReadOnlySpy.mockRestore();
+    });
+
+    it("Checking that a member is not opened when the profile is invalid and its contents were not cached", async () => {
+        globals.defineGlobals("");
+        const globalMocks = createGlobalMocks();
+        const blockMocks = createBlockMocks();
+        mocked(Profiles.getInstance).mockReturnValue({ ...blockMocks.profileInstance, validProfile: ValidProfileEnum.INVALID });
+        const hasContentsSpy = jest.spyOn(OfflineCache, "hasContents").mockReturnValue(false);
+        globalMocks.getContentsSpy.mockClear();
+        const pds = new ZoweDatasetNode("HLQ.PDS", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+        const member = new ZoweDatasetNode("MEM1", vscode.TreeItemCollapsibleState.None, pds, null, globals.DS_MEMBER_CONTEXT);
+
+        await dsActions.openPS(member, true, blockMocks.testDatasetTree);
+
+        expect(hasContentsSpy).toBeCalledWith("sestest", "HLQ.PDS(MEM1)");
+        expect(globalMocks.getContentsSpy).not.toBeCalled();
+        hasContentsSpy.mockRestore();
+    });
+
     it("Checking of failed attempt to open dataset", async () => {
         globals.defineGlobals("");
         const globalMocks = createGlobalMocks();
@@ -3405,6 +2975,28 @@ describe("Dataset Actions Unit Tests - Function openPS", () => {
             sharedUtils.getDocumentFilePath(`${parent.label.toString()}(${child.label.toString()})`, child)
         );
     });
+    it("Checking of opening for PDS Member through the virtual file system", async () => {
+        globals.defineGlobals("");
+        const globalMocks = createGlobalMocks();
+        const blockMocks = createBlockMocks();
+
+        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
+        const getDirectValueSpy = jest.spyOn(SettingsConfig, "getDirectValue").mockReturnValueOnce(true);
+        const parent = new ZoweDatasetNode("parent", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
+        parent.contextValue = globals.DS_PDS_CONTEXT;
+        const child = new ZoweDatasetNode("child", vscode.TreeItemCollapsibleState.None, parent, null);
+        child.contextValue = globals.DS_MEMBER_CONTEXT;
+        globalMocks.getContentsSpy.mockClear();
+
+        await dsActions.openPS(child, true, blockMocks.testDatasetTree);
+
+        expect(getDirectValueSpy).toBeCalledWith(globals.SETTINGS_FILES_VIRTUAL_FILE_SYSTEM);
+        expect(globalMocks.getContentsSpy).not.toBeCalled();
+        expect(mocked(vscode.workspace.openTextDocument)).toBeCalledWith(
+            expect.objectContaining({ scheme: "zowe-ds", path: `/${child.getProfileName()}/PARENT/CHILD` })
+        );
+        getDirectValueSpy.mockRestore();
+    });
     it("Checking of opening for PDS Member of favorite dataset", async () => {
         globals.defineGlobals("");
         createGlobalMocks();
@@ -3636,3 +3228,365 @@ describe("Dataset Actions Unit Tests - Function allocateLike", () => {
         expect(errorHandlingSpy).toHaveBeenCalledWith(errorMessage, "test", "Unable to create data set.");
     });
 });
+
+describe("Dataset Actions Unit Tests - Function downloadToFolder", () => {
+    function createBlockMocks() {
+        const blockMocks = createBlockMocksShared();
+        const download = { token: { isCancellationRequested: false }, add: jest.fn(), fail: jest.fn() };
+        const startSpy = jest.spyOn(FolderDownload, "start").mockImplementation(async (_name, listItems) => listItems(download as any));
+        mocked(SettingsConfig.getDirectValue).mockReturnValue({ "*.SOURCE": "cbl" });
+        return { ...blockMocks, download, startSpy };
+    }
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("downloads the members of a PDS with the mapped extension", async () => {
+        createGlobalMocks();
+        const blockMocks = createBlockMocks();
+        const pds = new ZoweDatasetNode("USER.SOURCE", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+        pds.contextValue = globals.DS_PDS_CONTEXT;
+        jest.spyOn(blockMocks.mvsApi, "allMembers").mockResolvedValue({
+            success: true,
+            commandResponse: "",
+            apiResponse: { items: [{ member: "MEM1" }, { member: "MEM2" }] },
+        });
+        const getContentsSpy = jest.spyOn(blockMocks.mvsApi, "getContents").mockResolvedValue(null);
+
+        await dsActions.downloadToFolder(pds);
+        expect(blockMocks.startSpy).toHaveBeenCalledWith("USER.SOURCE", expect.any(Function));
+        expect(blockMocks.download.add).toHaveBeenCalledTimes(2);
+        const item = blockMocks.download.add.mock.calls[0][0];
+        expect(item.name).toBe("USER.SOURCE(MEM1)");
+        expect(item.relativePath).toBe(path.join("USER.SOURCE", "MEM1.cbl"));
+        await item.download("/local/USER.SOURCE/MEM1.cbl");
+        expect(getContentsSpy).toHaveBeenCalledWith("USER.SOURCE(MEM1)", expect.objectContaining({ file: "/local/USER.SOURCE/MEM1.cbl" }));
+    });
+
+    it("downloads the data sets found by the search of a profile", async () => {
+        createGlobalMocks();
+        const blockMocks = createBlockMocks();
+        const pds = new ZoweDatasetNode("USER.SOURCE", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+        pds.contextValue = globals.DS_PDS_CONTEXT;
+        const ds = new ZoweDatasetNode("USER.DATA", vscode.TreeItemCollapsibleState.None, blockMocks.datasetSessionNode, null);
+        ds.contextValue = globals.DS_DS_CONTEXT;
+        blockMocks.datasetSessionNode.pattern = "USER.*";
+        jest.spyOn(blockMocks.datasetSessionNode, "getChildren").mockResolvedValue([pds, ds]);
+        jest.spyOn(blockMocks.mvsApi, "allMembers").mockRejectedValue(new Error("not authorized"));
+
+        await dsActions.downloadToFolder(blockMocks.datasetSessionNode);
+        expect(blockMocks.download.fail).toHaveBeenCalledWith("USER.SOURCE", expect.any(Error));
+        expect(blockMocks.download.add).toHaveBeenCalledTimes(1);
+        expect(blockMocks.download.add.mock.calls[0][0]).toEqual(expect.objectContaining({ name: "USER.DATA", relativePath: "USER.DATA" }));
+    });
+
+    it("asks for a search before downloading a profile", async () => {
+        createGlobalMocks();
+        const blockMocks = createBlockMocks();
+        blockMocks.datasetSessionNode.pattern = "";
+
+        await dsActions.downloadToFolder(blockMocks.datasetSessionNode);
+        expect(blockMocks.startSpy).not.toHaveBeenCalled();
+        expect(mocked(Gui.showMessage)).toHaveBeenCalledWith("Search the profile for data sets before downloading them.");
+    });
+});
+
+describe("Dataset Actions Unit Tests - Copy and move between profiles", () => {
+    const sourceProfile = createIProfile();
+    const targetProfile = { ...createIProfile(), name: "ftpProfile", type: "zftp" };
+    let sourceApi: { [key: string]: jest.Mock };
+    let targetApi: { [key: string]: jest.Mock };
+    let blockMocks: ReturnType<typeof createBlockMocksShared>;
+
+    function createApi(): { [key: string]: jest.Mock } {
+        return {
+            dataSet: jest.fn().mockResolvedValue({ success: true, apiResponse: { items: [] } }),
+            allMembers: jest.fn().mockResolvedValue({ success: true, apiResponse: { items: [] } }),
+            getContents: jest.fn().mockResolvedValue({ success: true }),
+            putContents: jest.fn().mockResolvedValue({ success: true }),
+            createDataSet: jest.fn().mockResolvedValue({ success: true }),
+            copyDataSetMember: jest.fn().mockResolvedValue({ success: true }),
+            deleteDataSet: jest.fn().mockResolvedValue({ success: true }),
+        };
+    }
+
+    beforeEach(() => {
+        createGlobalMocks();
+        blockMocks = createBlockMocksShared();
+        sourceApi = createApi();
+        targetApi = createApi();
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockImplementation(
+            (profile) => (profile.name === targetProfile.name ? targetApi : sourceApi) as any
+        );
+        jest.spyOn(Gui, "withProgress").mockImplementation(async (_options, task) => task({ report: jest.fn() }, undefined));
+        mocked(fs.existsSync).mockReturnValue(true);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("allocates a sequential data set like the source and copies its content to another profile", async () => {
+        sourceApi.dataSet.mockResolvedValue({
+            success: true,
+            apiResponse: {
+                items: [{ dsname: "USER.DATA", dsorg: "PS", recfm: "FB", lrecl: 80, blksz: 27920, spacu: "TRACKS", sizex: 10, storclass: "SC1" }],
+            },
+        });
+
+        await dsActions.transferDataSet("ps", { profile: sourceProfile, dsn: "USER.DATA" }, { profile: targetProfile, dsn: "USER.COPY" }, "notFound");
+        expect(targetApi.createDataSet).toHaveBeenCalledWith(zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL, "USER.COPY", {
+            responseTimeout: undefined,
+            dsorg: "PS",
+            alcunit: "TRK",
+            primary: 10,
+            recfm: "FB",
+            lrecl: 80,
+            blksize: 27920,
+        });
+        const file = path.join(globals.DS_DIR, ".copy", "sestest", "USER.DATA");
+        expect(sourceApi.getContents).toHaveBeenCalledWith("USER.DATA", expect.objectContaining({ file }));
+        expect(targetApi.putContents).toHaveBeenCalledWith(file, "USER.COPY", expect.any(Object));
+        expect(fs.unlinkSync).toHaveBeenCalledWith(file);
+    });
+
+    it("copies the other members of a partitioned data set when a member cannot be copied", async () => {
+        sourceApi.allMembers.mockResolvedValue({ success: true, apiResponse: { items: [{ member: "MEM1" }, { member: "MEM2" }] } });
+        targetApi.putContents.mockResolvedValueOnce({ success: true }).mockResolvedValueOnce({ success: false, commandResponse: "space exhausted" });
+
+        await expect(
+            dsActions.transferDataSet("po", { profile: sourceProfile, dsn: "USER.PDS" }, { profile: targetProfile, dsn: "USER.PDS" }, "replace")
+        ).rejects.toThrow("1 of 2 members could not be copied: MEM2. See the Zowe Explorer log for details.");
+        expect(targetApi.createDataSet).not.toHaveBeenCalled();
+        expect(targetApi.putContents).toHaveBeenCalledWith(expect.any(String), "USER.PDS(MEM1)", expect.any(Object));
+        expect(targetApi.putContents).toHaveBeenCalledWith(expect.any(String), "USER.PDS(MEM2)", expect.any(Object));
+    });
+
+    it("copies the members of a load library to another profile in binary mode", async () => {
+        sourceApi.dataSet.mockResolvedValue({ success: true, apiResponse: { items: [{ dsname: "USER.LOAD", dsorg: "PO", recfm: "U" }] } });
+        sourceApi.allMembers.mockResolvedValue({ success: true, apiResponse: { items: [{ member: "PROG1" }, { member: "PROG2" }] } });
+
+        await dsActions.transferDataSet("po", { profile: sourceProfile, dsn: "USER.LOAD" }, { profile: targetProfile, dsn: "USER.LOAD" }, "replace");
+        expect(sourceApi.dataSet).toHaveBeenCalledTimes(1);
+        expect(sourceApi.getContents).toHaveBeenCalledWith("USER.LOAD(PROG1)", expect.objectContaining({ binary: true, encoding: undefined }));
+        expect(targetApi.putContents).toHaveBeenCalledWith(expect.any(String), "USER.LOAD(PROG2)", expect.objectContaining({ binary: true }));
+    });
+
+    it("copies the content of a fixed block data set to another profile as text", async () => {
+        sourceApi.dataSet.mockResolvedValue({ success: true, apiResponse: { items: [{ dsname: "USER.DATA", dsorg: "PS", recfm: "FB" }] } });
+
+        await dsActions.transferDataSet("ps", { profile: sourceProfile, dsn: "USER.DATA" }, { profile: targetProfile, dsn: "USER.DATA" }, "replace");
+        expect(sourceApi.getContents).toHaveBeenCalledWith("USER.DATA", expect.objectContaining({ binary: false }));
+        expect(targetApi.putContents).toHaveBeenCalledWith(expect.any(String), "USER.DATA", expect.objectContaining({ binary: false }));
+    });
+
+    it("copies a member on the mainframe within the same profile", async () => {
+        await dsActions.transferDataSet(
+            "mem",
+            { profile: sourceProfile, dsn: "USER.PDS", member: "MEM1" },
+            { profile: sourceProfile, dsn: "USER.PDS", member: "MEM2" },
+            "replace"
+        );
+        expect(sourceApi.copyDataSetMember).toHaveBeenCalledWith(
+            { dsn: "USER.PDS", member: "MEM1" },
+            { dsn: "USER.PDS", member: "MEM2" },
+            { replace: true }
+        );
+        expect(sourceApi.getContents).not.toHaveBeenCalled();
+    });
+
+    describe("copyToProfile", () => {
+        function createNodes() {
+            const pds = new ZoweDatasetNode("USER.PDS", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+            pds.contextValue = globals.DS_PDS_CONTEXT;
+            jest.spyOn(pds, "getChildren").mockResolvedValue([]);
+            const member = new ZoweDatasetNode("MEM1", vscode.TreeItemCollapsibleState.None, pds, null);
+            member.contextValue = globals.DS_MEMBER_CONTEXT;
+            const targetSession = { contextValue: globals.DS_SESSION_CONTEXT, getProfileName: () => targetProfile.name, dirty: false };
+            const datasetProvider = {
+                mSessionNodes: [blockMocks.datasetSessionNode, targetSession],
+                refreshElement: jest.fn(),
+            };
+            mocked(Profiles.getInstance).mockReturnValue({
+                loadNamedProfile: jest.fn().mockReturnValue(targetProfile),
+                checkCurrentProfile: jest.fn(),
+                validProfile: ValidProfileEnum.VALID,
+            } as any);
+            jest.spyOn(Gui, "showQuickPick").mockResolvedValue(targetProfile.name as any);
+            return { pds, member, targetSession, datasetProvider };
+        }
+
+        it("moves a member to another profile once it is copied", async () => {
+            const { member, targetSession, datasetProvider } = createNodes();
+            jest.spyOn(Gui, "showInputBox").mockResolvedValueOnce("user.target").mockResolvedValueOnce("mem2");
+
+            await dsActions.copyToProfile(member, undefined, datasetProvider as any, true);
+            expect(Gui.showQuickPick).toHaveBeenCalledWith(["sestest", "ftpProfile"], expect.any(Object));
+            expect(targetApi.putContents).toHaveBeenCalledWith(expect.any(String), "USER.TARGET(MEM2)", expect.any(Object));
+            expect(sourceApi.deleteDataSet).toHaveBeenCalledWith("USER.PDS(MEM1)", expect.any(Object));
+            expect(targetSession.dirty).toBe(true);
+            expect(datasetProvider.refreshElement).toHaveBeenCalledWith(targetSession);
+        });
+
+        it("does not delete a member that could not be copied", async () => {
+            const { member, datasetProvider } = createNodes();
+            jest.spyOn(Gui, "showInputBox").mockResolvedValueOnce("USER.PDS").mockResolvedValueOnce("MEM1");
+            targetApi.putContents.mockRejectedValue(new Error("not authorized"));
+            const errorHandlingSpy = jest.spyOn(utils, "errorHandling").mockResolvedValue(undefined);
+
+            await dsActions.copyToProfile(member, undefined, datasetProvider as any, true);
+            expect(sourceApi.deleteDataSet).not.toHaveBeenCalled();
+            expect(errorHandlingSpy).toHaveBeenCalledWith(
+                expect.any(Error),
+                "ftpProfile",
+                "Unable to move USER.PDS(MEM1) to USER.PDS(MEM1) of ftpProfile."
+            );
+        });
+
+        it("does not copy a data set when replacing the existing one is cancelled", async () => {
+            const { pds, datasetProvider } = createNodes();
+            jest.spyOn(Gui, "showInputBox").mockResolvedValueOnce("USER.PDS");
+            targetApi.dataSet.mockResolvedValue({ success: true, apiResponse: { items: [{ dsname: "USER.PDS" }] } });
+            jest.spyOn(Gui, "showMessage").mockResolvedValue("Cancel");
+
+            await dsActions.copyToProfile(pds, undefined, datasetProvider as any);
+            expect(sourceApi.allMembers).not.toHaveBeenCalled();
+            expect(targetApi.putContents).not.toHaveBeenCalled();
+        });
+    });
+
+    it("pastes a member copied from another profile", async () => {
+        const pds = new ZoweDatasetNode("USER.PDS", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+        pds.contextValue = globals.DS_PDS_CONTEXT;
+        mocked(Profiles.getInstance).mockReturnValue({
+            loadNamedProfile: jest.fn().mockReturnValue(targetProfile),
+            checkCurrentProfile: jest.fn(),
+            validProfile: ValidProfileEnum.VALID,
+        } as any);
+        clipboard.writeText(JSON.stringify({ profileName: targetProfile.name, dataSetName: "FTP.PDS", memberName: "MEM1" }));
+        jest.spyOn(Gui, "showInputBox").mockResolvedValue("MEM1");
+        const datasetProvider = { refreshElement: jest.fn(), findFavoritedNode: jest.fn() };
+
+        await dsActions.pasteMember(pds, datasetProvider as any);
+        expect(targetApi.getContents).toHaveBeenCalledWith("FTP.PDS(MEM1)", expect.any(Object));
+        expect(sourceApi.putContents).toHaveBeenCalledWith(expect.any(String), "USER.PDS(MEM1)", expect.any(Object));
+        expect(sourceApi.copyDataSetMember).not.toHaveBeenCalled();
+        expect(datasetProvider.refreshElement).toHaveBeenCalledWith(pds);
+    });
+});
+
+describe("Dataset Actions Unit Tests - Function copyUssFilesToPds", () => {
+    let blockMocks: ReturnType<typeof createBlockMocksShared>;
+    let ussApi: { [key: string]: jest.Mock };
+
+    beforeEach(() => {
+        createGlobalMocks();
+        blockMocks = createBlockMocksShared();
+        ussApi = { getContents: jest.fn().mockResolvedValue({ success: true }) };
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue(ussApi as any);
+        jest.spyOn(Gui, "withProgress").mockImplementation(async (_options, task) =>
+            task({ report: jest.fn() }, { isCancellationRequested: false } as any)
+        );
+        jest.spyOn(blockMocks.mvsApi, "putContents").mockResolvedValue({ success: true, commandResponse: "" });
+        jest.spyOn(blockMocks.mvsApi, "allMembers").mockResolvedValue({
+            success: true,
+            commandResponse: "",
+            apiResponse: { items: [{ member: "OTHER" }] },
+        });
+        mocked(fs.existsSync).mockReturnValue(true);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("uploads the dropped USS files as members of the data set and deletes the temporary files", async () => {
+        const pds = new ZoweDatasetNode("USER.PDS", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+        pds.contextValue = globals.DS_PDS_CONTEXT;
+        const ussFile = {
+            fullPath: "/u/user/test.jcl",
+            binary: false,
+            contextValue: globals.DS_TEXT_FILE_CONTEXT,
+            getProfile: () => blockMocks.imperativeProfile,
+        } as any;
+        const ussDirectory = { fullPath: "/u/user/dir", contextValue: globals.USS_DIR_CONTEXT } as any;
+
+        await dsActions.copyUssFilesToPds(pds, [ussFile, ussDirectory], blockMocks.testDatasetTree);
+        const file = path.join(globals.USS_DIR, ".drop", "sestest", "/u/user/test.jcl");
+        expect(ussApi.getContents).toHaveBeenCalledTimes(1);
+        expect(ussApi.getContents).toHaveBeenCalledWith("/u/user/test.jcl", expect.objectContaining({ file, binary: false }));
+        expect(blockMocks.mvsApi.putContents).toHaveBeenCalledWith(file, "USER.PDS", expect.objectContaining({ binary: false }));
+        expect(blockMocks.testDatasetTree.refreshElement).toHaveBeenCalledWith(pds);
+        expect(fs.unlinkSync).toHaveBeenCalledWith(file);
+    });
+
+    it("reports the USS files which cannot be downloaded and does not upload anything", async () => {
+        const pds = new ZoweDatasetNode("USER.PDS", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+        const ussFile = {
+            fullPath: "/u/user/test.bin",
+            binary: true,
+            contextValue: globals.DS_BINARY_FILE_CONTEXT,
+            getProfile: () => blockMocks.imperativeProfile,
+        };
+        ussApi.getContents.mockRejectedValue(new Error("not found"));
+        const errorHandlingSpy = jest.spyOn(utils, "errorHandling").mockResolvedValue(undefined);
+
+        await dsActions.copyUssFilesToPds(pds, [ussFile as any], blockMocks.testDatasetTree);
+        expect(errorHandlingSpy).toHaveBeenCalledWith(expect.any(Error), "sestest", "Unable to download /u/user/test.bin.");
+        expect(blockMocks.mvsApi.putContents).not.toHaveBeenCalled();
+    });
+
+    it("reports the USS files which would be copied to the same member and copies the other ones", async () => {
+        const pds = new ZoweDatasetNode("USER.PDS", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+        const ussFiles = ["/u/user/a.cbl", "/u/user/a.jcl", "/u/user/program01.cbl", "/u/user/program02.cbl", "/u/user/123.txt", "/u/user/b.jcl"].map(
+            (fullPath) => ({ fullPath, binary: false, contextValue: globals.DS_TEXT_FILE_CONTEXT, getProfile: () => blockMocks.imperativeProfile })
+        );
+        const errorMessage = jest.spyOn(Gui, "errorMessage").mockResolvedValue(undefined);
+
+        await dsActions.copyUssFilesToPds(pds, ussFiles as any[], blockMocks.testDatasetTree);
+        expect(errorMessage).toHaveBeenCalledWith(
+            "These files were not copied, they would all be copied to the member A: /u/user/a.cbl, /u/user/a.jcl"
+        );
+        expect(errorMessage).toHaveBeenCalledWith(
+            "These files were not copied, they would all be copied to the member PROGRAM0: /u/user/program01.cbl, /u/user/program02.cbl"
+        );
+        expect(errorMessage).toHaveBeenCalledWith("These files were not copied, their names are not valid member names: /u/user/123.txt");
+        expect(ussApi.getContents).toHaveBeenCalledTimes(1);
+        expect(ussApi.getContents).toHaveBeenCalledWith("/u/user/b.jcl", expect.any(Object));
+        expect(blockMocks.mvsApi.putContents).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports the USS files which would replace an existing member and copies the other ones", async () => {
+        const pds = new ZoweDatasetNode("USER.PDS", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+        const ussFiles = ["/u/user/other.cbl", "/u/user/b.jcl"].map((fullPath) => ({
+            fullPath,
+            binary: false,
+            contextValue: globals.DS_TEXT_FILE_CONTEXT,
+            getProfile: () => blockMocks.imperativeProfile,
+        }));
+        const errorMessage = jest.spyOn(Gui, "errorMessage").mockResolvedValue(undefined);
+
+        await dsActions.copyUssFilesToPds(pds, ussFiles as any[], blockMocks.testDatasetTree);
+        expect(blockMocks.mvsApi.allMembers).toHaveBeenCalledWith("USER.PDS", expect.any(Object));
+        expect(errorMessage).toHaveBeenCalledWith("/u/user/other.cbl was not copied, the member OTHER already exists in USER.PDS.");
+        expect(ussApi.getContents).toHaveBeenCalledTimes(1);
+        expect(ussApi.getContents).toHaveBeenCalledWith("/u/user/b.jcl", expect.any(Object));
+    });
+
+    it("reports the data set which cannot be listed and does not copy anything", async () => {
+        const pds = new ZoweDatasetNode("USER.PDS", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+        const ussFile = {
+            fullPath: "/u/user/test.jcl",
+            binary: false,
+            contextValue: globals.DS_TEXT_FILE_CONTEXT,
+            getProfile: () => blockMocks.imperativeProfile,
+        };
+        jest.spyOn(blockMocks.mvsApi, "allMembers").mockRejectedValue(new Error("not found"));
+        const errorHandlingSpy = jest.spyOn(utils, "errorHandling").mockResolvedValue(undefined);
+
+        await dsActions.copyUssFilesToPds(pds, [ussFile as any], blockMocks.testDatasetTree);
+        expect(errorHandlingSpy).toHaveBeenCalledWith(expect.any(Error), "sestest", "Unable to list the members of USER.PDS.");
+        expect(ussApi.getContents).not.toHaveBeenCalled();
+    });
+});
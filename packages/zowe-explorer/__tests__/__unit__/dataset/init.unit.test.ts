@@ -19,6 +19,8 @@ import { initDatasetProvider } from "../../../src/dataset/init";
 import { Profiles } from "../../../src/Profiles";
 import { IJestIt, ITestContext, processSubscriptions, spyOnSubscriptions } from "../../__common__/testUtils";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import { LocalHistory } from "../../../src/shared/LocalHistory";
+import { FolderSync } from "../../../src/shared/FolderSync";
 
 describe("Test src/dataset/extension", () => {
     describe("initDatasetProvider", () => {
@@ -42,6 +44,9 @@ describe("Test src/dataset/extension", () => {
             rename: jest.fn(),
             ssoLogin: jest.fn(),
             ssoLogout: jest.fn(),
+            sortPdsMembers: jest.fn(),
+            filterPdsMembers: jest.fn(),
+            filterMembers: jest.fn(),
             onDidChangeConfiguration: jest.fn(),
             getTreeView: jest.fn(),
             refreshElement: jest.fn(),
@@ -250,6 +255,38 @@ describe("Test src/dataset/extension", () => {
                 name: "zowe.ds.ssoLogout",
                 mock: [{ spy: jest.spyOn(dsProvider, "ssoLogout"), arg: [test.value] }],
             },
+            {
+                name: "zowe.ds.sortMembers",
+                mock: [{ spy: jest.spyOn(dsProvider, "sortPdsMembers"), arg: [test.value] }],
+            },
+            {
+                name: "zowe.ds.filterMembersByStats",
+                mock: [{ spy: jest.spyOn(dsProvider, "filterPdsMembers"), arg: [test.value] }],
+            },
+            {
+                name: "zowe.ds.filterMembers",
+                mock: [{ spy: jest.spyOn(dsProvider, "filterMembers"), arg: [test.value] }],
+            },
+            {
+                name: "zowe.ds.showHistory",
+                mock: [{ spy: jest.spyOn(LocalHistory, "showHistory"), arg: [test.value] }],
+            },
+            {
+                name: "zowe.ds.downloadToFolder",
+                mock: [{ spy: jest.spyOn(dsActions, "downloadToFolder"), arg: [test.value] }],
+            },
+            {
+                name: "zowe.ds.syncFolder",
+                mock: [{ spy: jest.spyOn(FolderSync, "syncFolder"), arg: [test.value] }],
+            },
+            {
+                name: "zowe.ds.copyToProfile",
+                mock: [{ spy: jest.spyOn(dsActions, "copyToProfile"), arg: [test.value, undefined, dsProvider] }],
+            },
+            {
+                name: "zowe.ds.moveToProfile",
+                mock: [{ spy: jest.spyOn(dsActions, "copyToProfile"), arg: [test.value, undefined, dsProvider, true] }],
+            },
             {
                 name: "onDidChangeConfiguration",
                 mock: [{ spy: jest.spyOn(dsProvider, "onDidChangeConfiguration"), arg: [test.value] }],
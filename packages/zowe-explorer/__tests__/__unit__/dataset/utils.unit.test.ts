@@ -0,0 +1,212 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import {
+    formatMemberChanged,
+    formatMemberVersion,
+    getDownloadExtension,
+    getMemberStats,
+    getWorkspaceTemplates,
+    IMemberStats,
+    matchesMemberFilter,
+    matchesMemberPattern,
+    memberPatternToRegExp,
+    resolveDsNamePlaceholders,
+    sortMembers,
+    splitMemberPatterns,
+} from "../../../src/dataset/utils";
+import { MemberFilterMethod, MemberSortMethod, SETTINGS_DS_DOWNLOAD_EXTENSION_MAPPING } from "../../../src/globals";
+import { SettingsConfig } from "../../../src/utils/SettingsConfig";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import { createIProfile } from "../../../__mocks__/mockCreators/shared";
+
+jest.mock("fs");
+
+describe("Dataset Utils Unit Tests", () => {
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+    });
+
+    describe("getMemberStats", () => {
+        it("reads the statistics returned by z/OSMF", () => {
+            expect(
+                getMemberStats({
+                    member: "MEM1",
+                    vers: 1,
+                    mod: 5,
+                    c4date: "2026/01/02",
+                    m4date: "2026/10/18",
+                    mtime: "14:35",
+                    msec: "12",
+                    user: "USER1",
+                    cnorc: 120,
+                })
+            ).toEqual({ changed: new Date(2026, 9, 18, 14, 35, 12), user: "USER1", version: 1, modification: 5, size: 120 });
+        });
+
+        it("reads the statistics returned by FTP", () => {
+            expect(getMemberStats({ member: "MEM1", changed: "2026/10/18 14:35", id: "USER1 " })).toEqual({
+                changed: new Date(2026, 9, 18, 14, 35, 0),
+                user: "USER1",
+            });
+        });
+
+        it("returns no statistics for members without any", () => {
+            expect(getMemberStats({ member: "LOADMOD" })).toEqual({});
+        });
+    });
+
+    it("formats the changed date and version like ISPF", () => {
+        expect(formatMemberChanged(new Date(2026, 0, 2, 3, 4, 5))).toBe("2026/01/02 03:04:05");
+        expect(formatMemberVersion({ version: 1, modification: 5 })).toBe("01.05");
+        expect(formatMemberVersion({})).toBeUndefined();
+    });
+
+    describe("sortMembers", () => {
+        const node = (label: string, stats?: IMemberStats): { label: string; stats: IMemberStats } => ({ label, stats });
+        const nodes = [
+            node("MEMC", { changed: new Date(2026, 9, 1), user: "USER2", version: 1, modification: 10, size: 5 }),
+            node("MEMA", { changed: new Date(2026, 9, 18), user: "USER1", version: 2, modification: 0, size: 50 }),
+            node("LOADMOD"),
+            node("MEMB", { changed: new Date(2026, 9, 1), user: "USER1", version: 1, modification: 2, size: 500 }),
+        ];
+        const labels = (method: MemberSortMethod, descending = false): string[] =>
+            sortMembers(nodes, { method, descending }).map((sorted) => sorted.label);
+
+        it("sorts by name", () => {
+            expect(labels(MemberSortMethod.Name)).toEqual(["LOADMOD", "MEMA", "MEMB", "MEMC"]);
+            expect(labels(MemberSortMethod.Name, true)).toEqual(["MEMC", "MEMB", "MEMA", "LOADMOD"]);
+        });
+
+        it("sorts by statistic and name, and keeps the members without statistics at the end", () => {
+            expect(labels(MemberSortMethod.DateModified)).toEqual(["MEMB", "MEMC", "MEMA", "LOADMOD"]);
+            expect(labels(MemberSortMethod.DateModified, true)).toEqual(["MEMA", "MEMC", "MEMB", "LOADMOD"]);
+            expect(labels(MemberSortMethod.UserId)).toEqual(["MEMA", "MEMB", "MEMC", "LOADMOD"]);
+            expect(labels(MemberSortMethod.Version)).toEqual(["MEMB", "MEMC", "MEMA", "LOADMOD"]);
+            expect(labels(MemberSortMethod.Size, true)).toEqual(["MEMB", "MEMA", "MEMC", "LOADMOD"]);
+        });
+
+        it("does not change the given array", () => {
+            sortMembers(nodes, { method: MemberSortMethod.Size, descending: false });
+            expect(nodes.map((sorted) => sorted.label)).toEqual(["MEMC", "MEMA", "LOADMOD", "MEMB"]);
+        });
+    });
+
+    describe("matchesMemberFilter", () => {
+        const stats: IMemberStats = { changed: new Date(2026, 9, 18, 0, 30), user: "USER1" };
+
+        it("filters by user ID with wildcards", () => {
+            expect(matchesMemberFilter(stats, { method: MemberFilterMethod.UserId, value: "user1" })).toBe(true);
+            expect(matchesMemberFilter(stats, { method: MemberFilterMethod.UserId, value: "US*" })).toBe(true);
+            expect(matchesMemberFilter(stats, { method: MemberFilterMethod.UserId, value: "USER%" })).toBe(true);
+            expect(matchesMemberFilter(stats, { method: MemberFilterMethod.UserId, value: "USER" })).toBe(false);
+            expect(matchesMemberFilter({}, { method: MemberFilterMethod.UserId, value: "*" })).toBe(false);
+        });
+
+        it("filters by the date the members were changed since", () => {
+            expect(matchesMemberFilter(stats, { method: MemberFilterMethod.ChangedSince, value: "2026-10-18" })).toBe(true);
+            expect(matchesMemberFilter(stats, { method: MemberFilterMethod.ChangedSince, value: "2026-10-19" })).toBe(false);
+            expect(matchesMemberFilter({}, { method: MemberFilterMethod.ChangedSince, value: "2026-10-01" })).toBe(false);
+        });
+    });
+
+    describe("member name patterns", () => {
+        it("splits the patterns without splitting the regular expressions", () => {
+            expect(splitMemberPatterns(" PROG*, /^JOB\\d{2,3}$/i ,, TEST%% ")).toEqual(["PROG*", "/^JOB\\d{2,3}$/i", "TEST%%"]);
+            expect(splitMemberPatterns("")).toEqual([]);
+        });
+
+        it("matches the member names with wildcards or regular expressions", () => {
+            expect(matchesMemberPattern("PROG01", "TEST*,prog*")).toBe(true);
+            expect(matchesMemberPattern("TEST1", "TEST%%")).toBe(false);
+            expect(matchesMemberPattern("JOB123", "/^job\\d{2,3}$/")).toBe(true);
+            expect(matchesMemberPattern("JOB1234", "/^JOB\\d{2,3}$/")).toBe(false);
+        });
+
+        it("throws for an invalid regular expression", () => {
+            expect(() => memberPatternToRegExp("/(/")).toThrow();
+        });
+    });
+
+    describe("getWorkspaceTemplates", () => {
+        afterEach(() => {
+            jest.restoreAllMocks();
+            Object.defineProperty(vscode.workspace, "workspaceFolders", { value: undefined, configurable: true });
+        });
+
+        it("reads the templates of each workspace folder", () => {
+            Object.defineProperty(vscode.workspace, "workspaceFolders", {
+                value: [
+                    { name: "app", uri: { fsPath: "/app" } },
+                    { name: "docs", uri: { fsPath: "/docs" } },
+                    { name: "broken", uri: { fsPath: "/broken" } },
+                ],
+                configurable: true,
+            });
+            jest.spyOn(fs, "existsSync").mockImplementation((file) => file !== path.join("/docs", ".zowe", "templates.json"));
+            jest.spyOn(fs, "readFileSync").mockImplementation((file) => {
+                if (file === path.join("/broken", ".zowe", "templates.json")) {
+                    return "{";
+                }
+                return JSON.stringify({ templates: [{ SRC: { dsName: "${user}.SRC", dsorg: "PO" } }, { LOAD: { recfm: "U" } }] });
+            });
+            const warnSpy = jest.fn();
+            Object.defineProperty(ZoweLogger, "warn", { value: warnSpy, configurable: true });
+
+            expect(getWorkspaceTemplates()).toEqual([
+                { folder: "app", name: "SRC", options: { dsName: "${user}.SRC", dsorg: "PO" } },
+                { folder: "app", name: "LOAD", options: { recfm: "U" } },
+            ]);
+            expect(warnSpy).toBeCalledTimes(1);
+        });
+
+        it("returns no templates without a workspace", () => {
+            expect(getWorkspaceTemplates()).toEqual([]);
+        });
+    });
+
+    describe("resolveDsNamePlaceholders", () => {
+        const now = new Date(2026, 9, 8, 7, 5, 3);
+
+        it("replaces the user, date and time", () => {
+            expect(resolveDsNamePlaceholders("${user}.D${date}.T${time}", createIProfile(), now)).toBe("TESTUSER.D261008.T070503");
+        });
+
+        it("keeps unknown placeholders", () => {
+            expect(resolveDsNamePlaceholders("${user}.${project}", { ...createIProfile(), profile: {} }, now)).toBe("${user}.${project}");
+        });
+    });
+
+    describe("getDownloadExtension", () => {
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it("uses the first extension mapped to a matching data set name", () => {
+            const getDirectValueSpy = jest
+                .spyOn(SettingsConfig, "getDirectValue")
+                .mockReturnValue({ "*.SOURCE": "cbl", "USER.*": ".txt", "*.JCL": "" });
+            expect(getDownloadExtension("USER.SOURCE")).toBe(".cbl");
+            expect(getDownloadExtension("USER.DATA")).toBe(".txt");
+            expect(getDownloadExtension("PROD.JCL")).toBe("");
+            expect(getDirectValueSpy).toHaveBeenCalledWith(SETTINGS_DS_DOWNLOAD_EXTENSION_MAPPING);
+        });
+
+        it("uses the extension of the editor when no mapping matches", () => {
+            jest.spyOn(SettingsConfig, "getDirectValue").mockReturnValue(undefined);
+            expect(getDownloadExtension("USER.COBOL")).toBe(".cbl");
+            expect(getDownloadExtension("USER.DATA")).toBe("");
+        });
+    });
+});
@@ -176,6 +176,14 @@ async function createGlobalMocks() {
             "zowe.ds.enableValidation",
             "zowe.ds.ssoLogin",
             "zowe.ds.ssoLogout",
+            "zowe.ds.sortMembers",
+            "zowe.ds.filterMembersByStats",
+            "zowe.ds.filterMembers",
+            "zowe.ds.showHistory",
+            "zowe.ds.downloadToFolder",
+            "zowe.ds.syncFolder",
+            "zowe.ds.copyToProfile",
+            "zowe.ds.moveToProfile",
             "zowe.uss.addFavorite",
             "zowe.uss.removeFavorite",
             "zowe.uss.addSession",
@@ -205,6 +213,13 @@ async function createGlobalMocks() {
             "zowe.uss.ssoLogout",
             "zowe.uss.pasteUssFile",
             "zowe.uss.copyUssFile",
+            "zowe.uss.cutUssFile",
+            "zowe.uss.showHistory",
+            "zowe.uss.downloadToFolder",
+            "zowe.uss.syncFolder",
+            "zowe.uss.showProperties",
+            "zowe.uss.setFileTag",
+            "zowe.uss.goToTarget",
             "zowe.jobs.zosJobsOpenspool",
             "zowe.jobs.deleteJob",
             "zowe.jobs.runModifyCommand",
@@ -237,11 +252,25 @@ async function createGlobalMocks() {
             "zowe.jobs.startPolling",
             "zowe.jobs.stopPolling",
             "zowe.jobs.cancelJob",
+            "zowe.jobs.submitJobChain",
+            "zowe.jobs.cancelJobChain",
+            "zowe.jobs.removeJobChain",
+            "zowe.jobs.toggleNotifications",
+            "zowe.jobs.searchSpool",
+            "zowe.jobs.clearSpoolSearch",
+            "zowe.jobs.compareJobs",
+            "zowe.jobs.showStepSummary",
+            "zowe.jobs.sortBy",
+            "zowe.jobs.groupBy",
             "zowe.manualPoll",
             "zowe.updateSecureCredentials",
             "zowe.promptCredentials",
             "zowe.openRecentMember",
             "zowe.searchInAllLoadedItems",
+            "zowe.clearOfflineCache",
+            "zowe.pendingUploads.retry",
+            "zowe.pendingUploads.discard",
+            "zowe.pendingUploads.diff",
             "zowe.ds.deleteProfile",
             "zowe.cmd.deleteProfile",
             "zowe.uss.deleteProfile",
@@ -467,9 +496,11 @@ describe("Extension Unit Tests", () => {
         await extension.activate(globalMocks.mockExtension);
 
         // Check that tree providers are initialized successfully
-        expect(globalMocks.mockCreateTreeView.mock.calls.length).toBe(3);
+        expect(globalMocks.mockCreateTreeView.mock.calls.length).toBe(5);
         expect(globalMocks.mockCreateTreeView.mock.calls[0][0]).toBe("zowe.ds.explorer");
         expect(globalMocks.mockCreateTreeView.mock.calls[1][0]).toBe("zowe.uss.explorer");
+        expect(globalMocks.mockCreateTreeView.mock.calls[3][0]).toBe("zowe.jobs.spoolSearch");
+        expect(globalMocks.mockCreateTreeView.mock.calls[4][0]).toBe("zowe.pendingUploads");
 
         // Check that CLI Profile Manager is initialized successfully
         expect(globalMocks.mockInitialize.mock.calls.length).toBe(1);
@@ -78,6 +78,14 @@ describe("Checking icon generator's basics", () => {
         expect(resultIcon.id).toBe(IconId.folderOpen);
         expect(resultIcon.path.dark).toContain("folder-open.svg");
     });
+    it("Testing that USS symbolic links get the link Icon, also when they are expanded", () => {
+        const node = new vscode.TreeItem("link", vscode.TreeItemCollapsibleState.Expanded);
+        node.contextValue = "directory_symlink";
+
+        const resultIcon = getIconByNode(node);
+        expect(resultIcon.id).toBe(IconId.symlink);
+        expect(resultIcon.path.light).toContain("link.svg");
+    });
     it("Testing that you can't get Icon using incorrect Node", () => {
         const randomNode = {};
         const resultIcon = getIconByNode(randomNode);
@@ -0,0 +1,129 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as globals from "../../../src/globals";
+import * as jobActions from "../../../src/job/actions";
+import { Gui, ValidProfileEnum } from "@zowe/zowe-explorer-api";
+import { JobChainNode } from "../../../src/job/JobChain";
+import { Profiles } from "../../../src/Profiles";
+import { SettingsConfig } from "../../../src/utils/SettingsConfig";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import { createIProfile, createInstanceOfProfile } from "../../../__mocks__/mockCreators/shared";
+import { createIJobObject } from "../../../__mocks__/mockCreators/jobs";
+import { bindJesApi, createJesApi } from "../../../__mocks__/mockCreators/api";
+
+describe("JobChain Unit Tests", () => {
+    function createBlockMocks() {
+        const profile = createIProfile();
+        const newMocks = {
+            profile,
+            jesApi: createJesApi(profile),
+            jobsProvider: { refreshElement: jest.fn(), addJobChain: jest.fn() } as any,
+            showMessage: jest.spyOn(Gui, "showMessage").mockImplementation(),
+            errorMessage: jest.spyOn(Gui, "errorMessage").mockImplementation(),
+            warningMessage: jest.spyOn(Gui, "warningMessage").mockResolvedValue("Submit"),
+        };
+        bindJesApi(newMocks.jesApi);
+        jest.spyOn(SettingsConfig, "getDirectValue").mockImplementation((key) => (key === globals.SETTINGS_JOBS_CHAIN_MAX_RETURN_CODE ? 4 : 1));
+        return newMocks;
+    }
+
+    function createJob(jobid: string, status: string, retcode?: string) {
+        return { ...createIJobObject(), jobid, status, retcode };
+    }
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "info", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "error", { value: jest.fn(), configurable: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("isAcceptableReturnCode", () => {
+        it("accepts condition codes up to the highest acceptable return code", () => {
+            expect(JobChainNode.isAcceptableReturnCode("CC 0000", 4)).toBe(true);
+            expect(JobChainNode.isAcceptableReturnCode("CC 0004", 4)).toBe(true);
+            expect(JobChainNode.isAcceptableReturnCode("CC 0008", 4)).toBe(false);
+        });
+
+        it("rejects abends, JCL errors and missing return codes", () => {
+            expect(JobChainNode.isAcceptableReturnCode("ABEND S0C7", 4)).toBe(false);
+            expect(JobChainNode.isAcceptableReturnCode("JCL ERROR", 4)).toBe(false);
+            expect(JobChainNode.isAcceptableReturnCode(null, 4)).toBe(false);
+        });
+    });
+
+    describe("run", () => {
+        it("submits each job once the previous one ends with an acceptable return code", async () => {
+            const blockMocks = createBlockMocks();
+            const submitJob = jest
+                .spyOn(blockMocks.jesApi, "submitJob")
+                .mockResolvedValueOnce(createJob("JOB00001", "INPUT"))
+                .mockResolvedValueOnce(createJob("JOB00002", "INPUT"));
+            jest.spyOn(blockMocks.jesApi, "getJob")
+                .mockResolvedValueOnce(createJob("JOB00001", "ACTIVE"))
+                .mockResolvedValueOnce(createJob("JOB00001", "OUTPUT", "CC 0000"))
+                .mockResolvedValueOnce(createJob("JOB00002", "OUTPUT", "CC 0004"));
+
+            const chain = new JobChainNode(["HLQ.JCL(STEP1)", "HLQ.JCL(STEP2)"], blockMocks.profile, 4, blockMocks.jobsProvider);
+            await chain.run();
+
+            expect(submitJob.mock.calls).toEqual([["HLQ.JCL(STEP1)"], ["HLQ.JCL(STEP2)"]]);
+            expect(chain.steps.map((step) => step.stepStatus)).toEqual(["completed", "completed"]);
+            expect(chain.steps[1].label).toContain("JOB00002");
+            expect(chain.steps[1].contextValue).toBe(globals.JOBS_JOB_CONTEXT + globals.RC_SUFFIX + "CC 0004");
+            expect(chain.description).toBe("Completed");
+            expect(blockMocks.showMessage).toHaveBeenCalled();
+        });
+
+        it("skips the remaining jobs when a job ends with a higher return code", async () => {
+            const blockMocks = createBlockMocks();
+            const submitJob = jest.spyOn(blockMocks.jesApi, "submitJob").mockResolvedValue(createJob("JOB00001", "INPUT"));
+            jest.spyOn(blockMocks.jesApi, "getJob").mockResolvedValue(createJob("JOB00001", "OUTPUT", "CC 0008"));
+
+            const chain = new JobChainNode(["HLQ.JCL(STEP1)", "HLQ.JCL(STEP2)"], blockMocks.profile, 4, blockMocks.jobsProvider);
+            await chain.run();
+
+            expect(submitJob).toHaveBeenCalledTimes(1);
+            expect(chain.steps.map((step) => step.stepStatus)).toEqual(["failed", "skipped"]);
+            expect(chain.description).toBe("Failed (0 of 2 completed)");
+            expect(blockMocks.errorMessage).toHaveBeenCalledWith(expect.stringContaining("ended with CC 0008"));
+        });
+    });
+
+    describe("submitJobChain", () => {
+        it("submits the selected members in order after confirmation", async () => {
+            const blockMocks = createBlockMocks();
+            const profileInstance = createInstanceOfProfile(blockMocks.profile);
+            Object.defineProperty(profileInstance, "validProfile", { value: ValidProfileEnum.VALID, configurable: true });
+            Object.defineProperty(Profiles, "getInstance", { value: jest.fn().mockReturnValue(profileInstance), configurable: true });
+            const runSpy = jest.spyOn(JobChainNode.prototype, "run").mockResolvedValue(undefined);
+            const pds = { getLabel: () => "HLQ.JCL" };
+            const members = ["STEP2", "STEP1"].map((member) => ({
+                contextValue: globals.DS_MEMBER_CONTEXT,
+                getLabel: () => member,
+                getParent: () => pds,
+                getProfile: () => blockMocks.profile,
+            }));
+
+            await jobActions.submitJobChain(blockMocks.jobsProvider, members as any);
+
+            expect(blockMocks.warningMessage).toHaveBeenCalledWith(expect.stringContaining("HLQ.JCL(STEP2)\nHLQ.JCL(STEP1)"), expect.anything());
+            const chain: JobChainNode = blockMocks.jobsProvider.addJobChain.mock.calls[0][0];
+            expect(chain.steps.map((step) => step.dataSetName)).toEqual(["HLQ.JCL(STEP2)", "HLQ.JCL(STEP1)"]);
+            expect(chain.maxReturnCode).toBe(4);
+            expect(runSpy).toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import { formatDuration, parseJobLog } from "../../../src/job/JobLogParser";
+
+describe("JobLogParser Unit Tests", () => {
+    const jesmsglg = [
+        "1                    J E S 2  J O B  L O G  --  S Y S T E M  S Y S 1  --  N O D E  N 1",
+        "0",
+        "23.59.50 JOB01234 ---- SUNDAY,    18 OCT 2026 ----",
+        "23.59.50 JOB01234  IRR010I  USERID USER1    IS ASSIGNED TO THIS JOB.",
+        "23.59.50 JOB01234  ICH70001I USER1    LAST ACCESS AT 23:50:12 ON SUNDAY, OCTOBER 18, 2026",
+        "23.59.50 JOB01234  $HASP373 TESTJOB  STARTED - INIT 1    - CLASS A        - SYS SYS1",
+        "23.59.51 JOB01234  IEF403I TESTJOB - STARTED - TIME=23.59.51",
+        "00.01.02 JOB01234  IEF404I TESTJOB - ENDED - TIME=00.01.02",
+        "00.01.02 JOB01234  $HASP395 TESTJOB  ENDED - RC=0008",
+        "------ JES2 JOB STATISTICS ------",
+        "  18 OCT 2026 JOB EXECUTION DATE",
+    ].join("\n");
+
+    const jesjcl = [
+        "        1 //TESTJOB  JOB (ACCT),'TEST',CLASS=A,MSGCLASS=X",
+        "        2 //STEP1    EXEC PGM=IEFBR14",
+        "        3 //COMPILE  EXEC IGYWC",
+        "        4 XXIGYWC   PROC LNGPRFX='IGY.V6R4M0'",
+        "        5 XXCOBOL   EXEC PGM=IGYCRCTL,REGION=0M",
+        "        6 //STEP3    EXEC PGM=SORT",
+        "        7 //STEP4    EXEC PGM=IEBGENER",
+    ].join("\n");
+
+    const jesysmsg = [
+        " IEF236I ALLOC. FOR TESTJOB STEP1",
+        " IEF142I TESTJOB STEP1 - STEP WAS EXECUTED - COND CODE 0000",
+        " IEF373I STEP/STEP1    /START 2026291.2359",
+        " IEF032I STEP/STEP1    /STOP  2026292.0000",
+        "         CPU:     0 HR  00 MIN  00.01 SEC    SRB:     0 HR  00 MIN  00.01 SEC",
+        "         VIRT:     4K  SYS:   248K  EXT:        0K  SYS:    11640K",
+        " IEF236I ALLOC. FOR TESTJOB COMPILE COBOL",
+        " IEF142I TESTJOB COMPILE COBOL - STEP WAS EXECUTED - COND CODE 0008",
+        " IEF373I STEP/COBOL    /START 2026292.0000",
+        " IEF374I STEP/COBOL    /STOP  2026292.0001 CPU    0MIN 01.25SEC SRB    0MIN 00.05SEC VIRT  1024K SYS   260K EXT   4096K SYS  11700K",
+        " IEF272I TESTJOB STEP3 - STEP WAS NOT EXECUTED.",
+        " IEF472I TESTJOB STEP4 - COMPLETION CODE - SYSTEM=0C4 USER=0000 REASON=00000004",
+        " IEF373I STEP/STEP4    /START 2026292.0001",
+        " IEF032I STEP/STEP4    /STOP  2026292.0001",
+        "         CPU:     0 HR  00 MIN  00.12 SEC    SRB:     0 HR  00 MIN  00.00 SEC",
+        " IEF375I  JOB/TESTJOB  /START 2026291.2359",
+        " IEF033I  JOB/TESTJOB  /STOP  2026292.0001",
+    ].join("\n");
+
+    it("parses the completion code, program, CPU time and elapsed time of each step", () => {
+        const summary = parseJobLog(jesmsglg, jesysmsg, jesjcl);
+        expect(summary.steps).toEqual([
+            { stepName: "STEP1", procStep: undefined, program: "IEFBR14", completionCode: "0000", cpuTime: 0.02, elapsedTime: 60 },
+            { stepName: "COMPILE", procStep: "COBOL", program: "IGYCRCTL", completionCode: "0008", cpuTime: 1.3, elapsedTime: 60 },
+            { stepName: "STEP3", procStep: undefined, program: "SORT", completionCode: "FLUSH" },
+            { stepName: "STEP4", procStep: undefined, program: "IEBGENER", completionCode: "S0C4", cpuTime: 0.12, elapsedTime: 0 },
+        ]);
+    });
+
+    it("parses the job information of the JES message log", () => {
+        const summary = parseJobLog(jesmsglg, "");
+        expect(summary).toEqual({ jobName: "TESTJOB", jobId: "JOB01234", elapsedTime: 72, steps: [] });
+    });
+
+    it("reads user abends and the maximum completion code", () => {
+        const summary = parseJobLog(
+            "12.00.00 JOB01235  $HASP165 TESTJOB  ENDED AT N1  MAXCC=U0100 CN(INTERNAL)",
+            " IEF450I TESTJOB STEP1 - ABEND=S000 U0100 REASON=00000000"
+        );
+        expect(summary.maxCompletionCode).toBe("U0100");
+        expect(summary.steps).toEqual([{ stepName: "STEP1", procStep: undefined, program: undefined, completionCode: "U0100" }]);
+    });
+
+    it("formats durations", () => {
+        expect(formatDuration(1.3)).toBe("00:01.30");
+        expect(formatDuration(72)).toBe("01:12.00");
+        expect(formatDuration(3725)).toBe("1:02:05");
+        expect(formatDuration(undefined)).toBe("");
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as globals from "../../../src/globals";
+import { Gui } from "@zowe/zowe-explorer-api";
+import { Poller } from "@zowe/zowe-explorer-api/src/utils";
+import { JobWatcher } from "../../../src/job/JobWatcher";
+import { Profiles } from "../../../src/Profiles";
+import { SettingsConfig } from "../../../src/utils/SettingsConfig";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import { createIProfile, createInstanceOfProfile } from "../../../__mocks__/mockCreators/shared";
+import { createIJobObject } from "../../../__mocks__/mockCreators/jobs";
+import { bindJesApi, createJesApi } from "../../../__mocks__/mockCreators/api";
+
+describe("JobWatcher Unit Tests", () => {
+    function createBlockMocks(enabledProfiles: string[]) {
+        const profile = createIProfile();
+        const newMocks = {
+            profile,
+            jesApi: createJesApi(profile),
+            job: { ...createIJobObject(), jobid: "JOB00001", status: "INPUT" },
+            addRequest: jest.spyOn(Poller, "addRequest").mockImplementation(),
+            showMessage: jest.spyOn(Gui, "showMessage").mockResolvedValue(undefined),
+            warningMessage: jest.spyOn(Gui, "warningMessage").mockResolvedValue(undefined),
+            errorMessage: jest.spyOn(Gui, "errorMessage").mockResolvedValue(undefined),
+        };
+        bindJesApi(newMocks.jesApi);
+        jest.spyOn(SettingsConfig, "getDirectValue").mockImplementation((key) =>
+            key === globals.SETTINGS_JOBS_NOTIFICATION_PROFILES ? enabledProfiles : 1
+        );
+        return newMocks;
+    }
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "warn", { value: jest.fn(), configurable: true });
+        Object.defineProperty(vscode.commands, "executeCommand", { value: jest.fn(), configurable: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("watch", () => {
+        it("does not watch the jobs of profiles without notifications", () => {
+            const blockMocks = createBlockMocks([]);
+            JobWatcher.watch(blockMocks.profile, blockMocks.job);
+            expect(blockMocks.addRequest).not.toHaveBeenCalled();
+        });
+
+        it("notifies once the job reaches the output queue", async () => {
+            const blockMocks = createBlockMocks([createIProfile().name]);
+            const notifySpy = jest.spyOn(JobWatcher, "notify").mockResolvedValue(undefined);
+            jest.spyOn(blockMocks.jesApi, "getJob").mockResolvedValue({ ...blockMocks.job, status: "OUTPUT", retcode: "CC 0000" });
+
+            JobWatcher.watch(blockMocks.profile, blockMocks.job);
+            const [pollId, request] = blockMocks.addRequest.mock.calls[0];
+            expect(pollId).toBe(`jobWatcher:${blockMocks.profile.name}:JOB00001`);
+
+            Poller.pollRequests[pollId] = request;
+            await request.resolve(pollId, { ...blockMocks.job, status: "ACTIVE" });
+            expect(notifySpy).not.toHaveBeenCalled();
+
+            await request.resolve(pollId, await request.request());
+            expect(request.dispose).toBe(true);
+            expect(notifySpy).toHaveBeenCalledWith(blockMocks.profile.name, expect.objectContaining({ retcode: "CC 0000" }));
+            delete Poller.pollRequests[pollId];
+        });
+    });
+
+    describe("notify", () => {
+        it("shows the message according to the return code", async () => {
+            const blockMocks = createBlockMocks([]);
+            await JobWatcher.notify("sestest", { ...blockMocks.job, status: "OUTPUT", retcode: "CC 0000" });
+            expect(blockMocks.showMessage).toHaveBeenCalledWith(expect.stringContaining("ended with CC 0000."), expect.anything());
+
+            await JobWatcher.notify("sestest", { ...blockMocks.job, status: "OUTPUT", retcode: "CC 0008" });
+            expect(blockMocks.warningMessage).toHaveBeenCalledWith(expect.stringContaining("ended with CC 0008."), expect.anything());
+
+            await JobWatcher.notify("sestest", { ...blockMocks.job, status: "OUTPUT", retcode: "ABEND S0C4" });
+            expect(blockMocks.errorMessage).toHaveBeenCalledWith(expect.stringContaining("failed with ABEND S0C4."), expect.anything());
+        });
+
+        it("opens the JES message log when requested", async () => {
+            const blockMocks = createBlockMocks([]);
+            Object.defineProperty(Profiles, "getInstance", {
+                value: jest.fn().mockReturnValue(createInstanceOfProfile(blockMocks.profile)),
+                configurable: true,
+            });
+            const messageLog = { ddname: "JESMSGLG", id: 2 };
+            jest.spyOn(blockMocks.jesApi, "getSpoolFiles").mockResolvedValue([{ ddname: "JESJCL", id: 3 }, messageLog] as any);
+            blockMocks.errorMessage.mockResolvedValueOnce("Open JESMSGLG" as any);
+
+            await JobWatcher.notify("sestest", { ...blockMocks.job, status: "OUTPUT", retcode: "JCL ERROR" });
+            expect(vscode.commands.executeCommand).toHaveBeenCalledWith("zowe.jobs.setJobSpool", "sestest", "JOB00001");
+            expect(vscode.commands.executeCommand).toHaveBeenCalledWith("zowe.jobs.zosJobsOpenspool", "sestest", messageLog, expect.any(Number));
+        });
+    });
+});
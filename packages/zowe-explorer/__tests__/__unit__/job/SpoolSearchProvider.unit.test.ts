@@ -0,0 +1,116 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import { Gui } from "@zowe/zowe-explorer-api";
+import { SpoolSearchFileNode, SpoolSearchJobNode, SpoolSearchMatchNode, SpoolSearchProvider } from "../../../src/job/SpoolSearchProvider";
+import { Profiles } from "../../../src/Profiles";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import { createIProfile, createISession, createInstanceOfProfile } from "../../../__mocks__/mockCreators/shared";
+import { createIJobFile, createJobNode, createJobSessionNode } from "../../../__mocks__/mockCreators/jobs";
+import { bindJesApi, createJesApi } from "../../../__mocks__/mockCreators/api";
+
+describe("SpoolSearchProvider Unit Tests", () => {
+    function createBlockMocks() {
+        const profile = createIProfile();
+        const session = createJobSessionNode(createISession(), profile);
+        const newMocks = {
+            profile,
+            session,
+            jobNode: createJobNode(session, profile),
+            jesApi: createJesApi(profile),
+            showInputBox: jest.spyOn(Gui, "showInputBox"),
+            showMessage: jest.spyOn(Gui, "showMessage").mockImplementation(),
+            warningMessage: jest.spyOn(Gui, "warningMessage").mockImplementation(),
+        };
+        bindJesApi(newMocks.jesApi);
+        Object.defineProperty(Profiles, "getInstance", {
+            value: jest.fn().mockReturnValue(createInstanceOfProfile(profile)),
+            configurable: true,
+        });
+        Object.defineProperty(vscode.window, "withProgress", {
+            value: jest.fn().mockImplementation((_options, task) => task({ report: jest.fn() }, { isCancellationRequested: false })),
+            configurable: true,
+        });
+        return newMocks;
+    }
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "error", { value: jest.fn(), configurable: true });
+        Object.defineProperty(vscode.commands, "executeCommand", { value: jest.fn(), configurable: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("findMatches", () => {
+        it("finds the lines that contain the search string regardless of case", () => {
+            const content = " IEF236I ALLOC. FOR TESTJOB\r\n IEF450I TESTJOB STEP1 - ABEND=S0C4\n ief450i TESTJOB STEP2";
+            const matches = SpoolSearchProvider.findMatches(content, SpoolSearchProvider.buildPattern("IEF450I"));
+            expect(matches).toEqual([
+                { line: 1, start: 1, end: 8, text: " IEF450I TESTJOB STEP1 - ABEND=S0C4" },
+                { line: 2, start: 1, end: 8, text: " ief450i TESTJOB STEP2" },
+            ]);
+        });
+
+        it("uses a search string enclosed in slashes as a regular expression", () => {
+            expect(SpoolSearchProvider.buildPattern("/IEF\\d+I/").test("IEF142I")).toBe(true);
+            expect(SpoolSearchProvider.buildPattern("ABEND=S0C4 (").test("ABEND=S0C4 (X)")).toBe(true);
+        });
+    });
+
+    describe("search", () => {
+        it("searches the selected DD names of a job and links the matches to their line", async () => {
+            const blockMocks = createBlockMocks();
+            blockMocks.showInputBox.mockResolvedValueOnce("IEF450I").mockResolvedValueOnce("jesmsglg, sysout");
+            const messageLog = { ...createIJobFile(), ddname: "JESMSGLG", stepname: "JES2", id: 2 };
+            jest.spyOn(blockMocks.jesApi, "getSpoolFiles").mockResolvedValue([
+                messageLog,
+                { ...createIJobFile(), ddname: "JESJCL", stepname: "JES2", id: 3 },
+            ]);
+            const getSpoolContentById = jest.spyOn(blockMocks.jesApi, "getSpoolContentById").mockResolvedValue("line 1\n IEF450I TESTJOB");
+
+            const provider = new SpoolSearchProvider();
+            await provider.search([blockMocks.jobNode]);
+
+            expect(getSpoolContentById).toHaveBeenCalledTimes(1);
+            expect(getSpoolContentById).toHaveBeenCalledWith(messageLog.jobname, messageLog.jobid, 2);
+            expect(vscode.commands.executeCommand).toHaveBeenCalledWith("setContext", SpoolSearchProvider.VISIBLE_CONTEXT_KEY, true);
+            expect(vscode.commands.executeCommand).toHaveBeenCalledWith("zowe.jobs.spoolSearch.focus");
+
+            const [jobNode] = provider.getChildren() as SpoolSearchJobNode[];
+            expect(jobNode.label).toBe(`${messageLog.jobname}(${messageLog.jobid})`);
+            const [fileNode] = provider.getChildren(jobNode) as SpoolSearchFileNode[];
+            expect(fileNode.label).toBe("JES2:JESMSGLG");
+            const [matchNode] = provider.getChildren(fileNode) as SpoolSearchMatchNode[];
+            expect(matchNode.label).toEqual({ label: "IEF450I TESTJOB", highlights: [[0, 7]] });
+            expect(matchNode.description).toBe("Line 2");
+            expect(matchNode.command.command).toBe("vscode.open");
+        });
+
+        it("reports the spool files that could not be read", async () => {
+            const blockMocks = createBlockMocks();
+            blockMocks.showInputBox.mockResolvedValueOnce("IEF450I").mockResolvedValueOnce("");
+            jest.spyOn(blockMocks.session, "getChildren").mockResolvedValue([blockMocks.jobNode]);
+            jest.spyOn(blockMocks.jesApi, "getSpoolFiles").mockResolvedValue([createIJobFile()]);
+            jest.spyOn(blockMocks.jesApi, "getSpoolContentById").mockRejectedValue(new Error("socket hang up"));
+
+            const provider = new SpoolSearchProvider();
+            await provider.search([blockMocks.session]);
+
+            expect(blockMocks.warningMessage).toHaveBeenCalledWith(expect.stringContaining("1 spool files could not be searched"));
+            expect(blockMocks.showMessage).toHaveBeenCalledWith("No spool lines match IEF450I.");
+            expect(provider.getChildren()).toEqual([]);
+        });
+    });
+});
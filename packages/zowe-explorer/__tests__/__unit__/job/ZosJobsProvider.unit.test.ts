@@ -35,6 +35,7 @@ import { jobStringValidator } from "../../../src/shared/utils";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
 import { Poller } from "@zowe/zowe-explorer-api/src/utils";
 import { SettingsConfig } from "../../../src/utils/SettingsConfig";
+import * as dsActions from "../../../src/dataset/actions";
 
 async function createGlobalMocks() {
     const globalMocks = {
@@ -652,6 +653,72 @@ describe("ZosJobsProvider Unit Tests - Function findEquivalentNode()", () => {
     });
 });
 
+describe("ZosJobsProvider Unit Tests - Function handleDrop()", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("Testing that handleDrop() submits the members dropped on a session with its profile", async () => {
+        const globalMocks = await createGlobalMocks();
+        const member = { contextValue: globals.DS_MEMBER_CONTEXT, getLabel: () => "MEM1", getProfile: () => globalMocks.testProfile } as any;
+        const dataTransfer = new vscode.DataTransfer();
+        dataTransfer.set(globals.DS_TREE_MIME_TYPE, new vscode.DataTransferItem([member, { contextValue: globals.DS_PDS_CONTEXT }]));
+        const submitMember = jest.spyOn(dsActions, "submitMember").mockResolvedValue(undefined);
+        const refreshElement = jest.spyOn(globalMocks.testJobsProvider, "refreshElement").mockImplementation();
+
+        await globalMocks.testJobsProvider.handleDrop(globalMocks.testSessionNode, dataTransfer);
+        expect(submitMember).toHaveBeenCalledTimes(1);
+        expect(submitMember).toHaveBeenCalledWith(member, globalMocks.testProfile);
+        expect(refreshElement).toHaveBeenCalledWith(globalMocks.testSessionNode);
+    });
+
+    it("Testing that handleDrop() only submits the members of the same system and reports each failure", async () => {
+        const globalMocks = await createGlobalMocks();
+        const createMember = (label: string, profile: object): any => ({
+            contextValue: globals.DS_MEMBER_CONTEXT,
+            getLabel: () => label,
+            getProfile: () => profile,
+        });
+        const sameHost = createMember("MEM1", { ...globalMocks.testProfile, name: "ftp", profile: { host: globalMocks.testProfile.profile.host } });
+        const otherHost = createMember("MEM2", { name: "other", profile: { host: "other.host.com" } });
+        const failing = createMember("MEM3", globalMocks.testProfile);
+        const last = createMember("MEM4", globalMocks.testProfile);
+        const dataTransfer = new vscode.DataTransfer();
+        dataTransfer.set(globals.DS_TREE_MIME_TYPE, new vscode.DataTransferItem([sameHost, otherHost, failing, last]));
+        const submitMember = jest
+            .spyOn(dsActions, "submitMember")
+            .mockImplementation((node) => (node === failing ? Promise.reject(new Error("invalid node")) : Promise.resolve()));
+        const errorMessage = jest.spyOn(Gui, "errorMessage").mockResolvedValue(undefined);
+        const errorHandling = jest.spyOn(utils, "errorHandling").mockResolvedValue(undefined);
+        jest.spyOn(globalMocks.testJobsProvider, "refreshElement").mockImplementation();
+
+        await globalMocks.testJobsProvider.handleDrop(globalMocks.testSessionNode, dataTransfer);
+        expect(submitMember).toHaveBeenCalledTimes(3);
+        expect(submitMember).toHaveBeenCalledWith(sameHost, globalMocks.testProfile);
+        expect(submitMember).toHaveBeenCalledWith(last, globalMocks.testProfile);
+        expect(errorMessage).toHaveBeenCalledWith("MEM2 was not submitted, it is not on the system of sestest.");
+        expect(errorHandling).toHaveBeenCalledWith(expect.any(Error), "sestest", "Unable to submit MEM3.");
+    });
+
+    it("Testing that handleDrop() does not submit the members dropped on a job", async () => {
+        const globalMocks = await createGlobalMocks();
+        const job = new Job(
+            "TESTJOB(JOB1234)",
+            vscode.TreeItemCollapsibleState.Collapsed,
+            globalMocks.testSessionNode,
+            null,
+            globalMocks.testIJob,
+            null
+        );
+        const dataTransfer = new vscode.DataTransfer();
+        dataTransfer.set(globals.DS_TREE_MIME_TYPE, new vscode.DataTransferItem([{ contextValue: globals.DS_MEMBER_CONTEXT }]));
+        const submitMember = jest.spyOn(dsActions, "submitMember").mockResolvedValue(undefined);
+
+        await globalMocks.testJobsProvider.handleDrop(job, dataTransfer);
+        expect(submitMember).not.toHaveBeenCalled();
+    });
+});
+
 describe("ZosJobsProvider Unit Tests - unimplemented functions", () => {
     it("Testing that each unimplemented function throws an error", async () => {
         const globalMocks = await createGlobalMocks();
@@ -817,6 +884,11 @@ describe("ZosJobsProvider unit tests - Function getPopulatedPickerArray", () =>
             Prefix: "job*",
             JobId: undefined,
             Status: "output",
+            Class: "A",
+            Type: undefined,
+            ExecMember: undefined,
+            SubmittedFrom: "2026-10-01",
+            SubmittedTo: undefined,
         };
 
         const actualPickerObj = globalMocks.testJobsProvider.getPopulatedPickerValues(parsedHistoryObj);
@@ -844,6 +916,41 @@ describe("ZosJobsProvider unit tests - Function getPopulatedPickerArray", () =>
                 show: true,
                 placeHolder: `Enter job status`,
             },
+            {
+                key: `job-class`,
+                label: `Job Class`,
+                value: "A",
+                show: true,
+                placeHolder: `Enter job class`,
+            },
+            {
+                key: `job-type`,
+                label: `Job Type`,
+                value: "*",
+                show: true,
+                placeHolder: `Enter job type`,
+            },
+            {
+                key: `exec-member`,
+                label: `Execution Member`,
+                value: "",
+                show: true,
+                placeHolder: `Enter the JES member that ran the job`,
+            },
+            {
+                key: `submitted-from`,
+                label: `Submitted From`,
+                value: "2026-10-01",
+                show: true,
+                placeHolder: `Enter the earliest submission date (YYYY-MM-DD)`,
+            },
+            {
+                key: `submitted-to`,
+                label: `Submitted To`,
+                value: "",
+                show: true,
+                placeHolder: `Enter the latest submission date (YYYY-MM-DD)`,
+            },
         ];
         expect(JSON.stringify(actualPickerObj)).toEqual(JSON.stringify(expectedObj));
     });
@@ -925,3 +1032,81 @@ describe("Jobs utils unit tests - Function jobStringValidator", () => {
         invalidOpts.forEach((invalidOpt) => expect(jobStringValidator(invalidOpt[0], invalidOpt[1])).toContain("Invalid"));
     });
 });
+
+describe("ZosJobsProvider unit tests - Functions sortBy and groupBy", () => {
+    function createJob(sessionNode: Job, jobid: string, status: string): Job {
+        const job = { ...createIJobObject(), jobid, status };
+        const jobNode = new Job(`TESTJOB(${jobid})`, vscode.TreeItemCollapsibleState.Collapsed, sessionNode, sessionNode.getSession(), job, null);
+        jobNode.contextValue = globals.JOBS_JOB_CONTEXT;
+        return jobNode;
+    }
+
+    it("saves the sort order of a session", async () => {
+        const globalMocks = await createGlobalMocks();
+        const sessionNode = globalMocks.testJobsProvider.mSessionNodes[1];
+        const setSessionOptions = jest.spyOn(globalMocks.testJobsProvider.mHistory, "setSessionOptions");
+        const refreshElement = jest.spyOn(globalMocks.testJobsProvider, "refreshElement");
+        globalMocks.mockShowQuickPick
+            .mockImplementationOnce((items) => Promise.resolve(items[3]))
+            .mockImplementationOnce((items) => Promise.resolve(items[1]));
+
+        await globalMocks.testJobsProvider.sortBy(sessionNode);
+
+        expect(sessionNode.sortOptions).toEqual({ method: globals.JobSortMethod.ReturnCode, descending: true });
+        expect(setSessionOptions).toHaveBeenCalledWith("sestest", { sort: sessionNode.sortOptions, group: undefined });
+        expect(refreshElement).toHaveBeenCalledWith(sessionNode);
+    });
+
+    it("does not change the sort order when the prompt is cancelled", async () => {
+        const globalMocks = await createGlobalMocks();
+        const sessionNode = globalMocks.testJobsProvider.mSessionNodes[1];
+        const setSessionOptions = jest.spyOn(globalMocks.testJobsProvider.mHistory, "setSessionOptions");
+        globalMocks.mockShowQuickPick.mockResolvedValueOnce(undefined);
+
+        await globalMocks.testJobsProvider.sortBy(sessionNode);
+
+        expect(sessionNode.sortOptions).toBeUndefined();
+        expect(setSessionOptions).not.toHaveBeenCalled();
+    });
+
+    it("groups the jobs of a session below folders that are the parents of the jobs", async () => {
+        const globalMocks = await createGlobalMocks();
+        const sessionNode = globalMocks.testJobsProvider.mSessionNodes[1];
+        const jobs = [
+            createJob(sessionNode, "JOB00001", "OUTPUT"),
+            createJob(sessionNode, "JOB00002", "ACTIVE"),
+            createJob(sessionNode, "JOB00003", "OUTPUT"),
+        ];
+        jest.spyOn(sessionNode, "getChildren").mockResolvedValue(jobs);
+        globalMocks.mockShowQuickPick.mockImplementationOnce((items) => Promise.resolve(items[2]));
+
+        await globalMocks.testJobsProvider.groupBy(sessionNode);
+        const groups = await globalMocks.testJobsProvider.getChildren(sessionNode);
+
+        expect(sessionNode.groupBy).toEqual(globals.JobGroupMethod.Status);
+        expect(groups.map((group) => [group.label, group.contextValue, group.description])).toEqual([
+            ["ACTIVE", globals.JOBS_GROUP_CONTEXT, "1 job"],
+            ["OUTPUT", globals.JOBS_GROUP_CONTEXT, "2 jobs"],
+        ]);
+        expect(await globalMocks.testJobsProvider.getChildren(groups[1])).toEqual([jobs[0], jobs[2]]);
+        expect(globalMocks.testJobsProvider.getParent(jobs[2])).toBe(groups[1]);
+
+        // The groups are kept when the session is refreshed
+        expect((await globalMocks.testJobsProvider.getChildren(sessionNode))[1]).toBe(groups[1]);
+    });
+
+    it("restores the sort and group options of a session", async () => {
+        const globalMocks = await createGlobalMocks();
+        const sortOptions = { method: globals.JobSortMethod.Name, descending: false };
+        jest.spyOn(globalMocks.testJobsProvider.mHistory, "getSessionOptions").mockReturnValue({
+            sort: sortOptions,
+            group: globals.JobGroupMethod.Name,
+        });
+        globalMocks.testJobsProvider.mSessionNodes = [];
+
+        await globalMocks.testJobsProvider.addSingleSession(globalMocks.testProfile);
+
+        expect(globalMocks.testJobsProvider.mSessionNodes[0].sortOptions).toEqual(sortOptions);
+        expect(globalMocks.testJobsProvider.mSessionNodes[0].groupBy).toEqual(globals.JobGroupMethod.Name);
+    });
+});
@@ -313,6 +313,22 @@ describe("ZoweJobNode unit tests - Function getChildren", () => {
         expect(jobs[0].tooltip).toEqual("TESTJOB(JOB1234)");
     });
 
+    it("Tests that getChildren sorts the jobs of a session by its sort options", async () => {
+        const globalMocks = await createGlobalMocks();
+        const sessionNode = globalMocks.testJobsProvider.mSessionNodes[1];
+        jest.spyOn(sessionNode, "getJobs").mockResolvedValue([
+            { ...globalMocks.testIJob, jobid: "JOB00001", jobname: "BETA" },
+            { ...globalMocks.testIJob, jobid: "JOB00002", jobname: "ALPHA" },
+        ]);
+        sessionNode.filtered = true;
+        sessionNode.dirty = true;
+        sessionNode.sortOptions = { method: globals.JobSortMethod.Name, descending: false };
+
+        const jobs = await sessionNode.getChildren();
+
+        expect(jobs.map((job) => job.job.jobname)).toEqual(["ALPHA", "BETA"]);
+    });
+
     it("Tests that getChildren returns the spool files if called on a job", async () => {
         const globalMocks = await createGlobalMocks();
 
@@ -683,6 +699,41 @@ describe("ZosJobsProvider - Function parseJobSearchQuery", () => {
         const actualCriteriaObj = globalMocks.testJobsProvider.parseJobSearchQuery("      ");
         expect(actualCriteriaObj).toEqual(emptySearchCriteriaObj);
     });
+    it("should parse the class, type, execution member and submission dates", async () => {
+        const globalMocks = await createGlobalMocks();
+        const actualCriteriaObj = globalMocks.testJobsProvider.parseJobSearchQuery(
+            "Owner: zowe | Prefix: * | Status: * | Class: A | Type: STC | ExecMember: SY1 | SubmittedFrom: 2026-10-01 | SubmittedTo: 2026-10-18"
+        );
+        expect(actualCriteriaObj).toEqual({
+            Owner: "zowe",
+            Prefix: "*",
+            JobId: undefined,
+            Status: "*",
+            Class: "A",
+            Type: "STC",
+            ExecMember: "SY1",
+            SubmittedFrom: "2026-10-01",
+            SubmittedTo: "2026-10-18",
+        });
+    });
+});
+
+describe("ZosJobsProvider - Function createSearchLabel", () => {
+    it("should create a label from the owner, prefix and status", async () => {
+        const globalMocks = await createGlobalMocks();
+        expect(globalMocks.testJobsProvider.createSearchLabel("zowe", "*", undefined, "*")).toEqual("Owner: zowe | Prefix: * | Status: *");
+    });
+    it("should add the class, type, execution member and submission dates that are set", async () => {
+        const globalMocks = await createGlobalMocks();
+        const label = globalMocks.testJobsProvider.createSearchLabel("zowe", "*", undefined, undefined, {
+            Class: "A",
+            Type: "*",
+            ExecMember: undefined,
+            SubmittedFrom: "2026-10-01",
+            SubmittedTo: "2026-10-18",
+        });
+        expect(label).toEqual("Owner: zowe | Prefix: * | Class: A | SubmittedFrom: 2026-10-01 | SubmittedTo: 2026-10-18");
+    });
 });
 
 describe("ZosJobsProvider - Function handleEditingMultiJobParameters", () => {
@@ -745,6 +796,45 @@ describe("ZosJobsProvider - Function handleEditingMultiJobParameters", () => {
         expect(setJobStatus).not.toHaveBeenCalled();
         expect(result).toEqual({ Owner: "zowe", Prefix: "KRI*", JobId: undefined, Status: "ACTIVE" });
     });
+    it("should set the job type and return the criteria that the APIs cannot search by", async () => {
+        const globalMocks = await createGlobalMocks();
+        const jobProperties = globalMocks.testJobsProvider.JOB_PROPERTIES;
+        jobProperties.find((prop) => prop.key === "job-class").value = "a";
+        jobProperties.find((prop) => prop.key === "submitted-from").value = "2026-10-01";
+        globalMocks.mockShowQuickPick
+            .mockReturnValueOnce({ label: "Job Type" })
+            .mockReturnValueOnce("STC")
+            .mockReturnValueOnce({ label: "$(check) Submit this query" });
+        const node = globalMocks.testJobsProvider.mSessionNodes[0];
+        const result = await globalMocks.testJobsProvider.handleEditingMultiJobParameters(jobProperties, node);
+        expect(result).toEqual({
+            Owner: node.owner,
+            Prefix: "*",
+            JobId: undefined,
+            Status: "*",
+            Class: "a",
+            Type: "STC",
+            ExecMember: undefined,
+            SubmittedFrom: "2026-10-01",
+            SubmittedTo: undefined,
+        });
+        expect(node.jobType).toEqual("STC");
+        expect(jobProperties.find((prop) => prop.key === "job-class").value).toEqual("");
+    });
+    it("should not submit a date range that ends before it starts", async () => {
+        const globalMocks = await createGlobalMocks();
+        const jobProperties = globalMocks.testJobsProvider.JOB_PROPERTIES;
+        jobProperties.find((prop) => prop.key === "submitted-from").value = "2026-10-18";
+        jobProperties.find((prop) => prop.key === "submitted-to").value = "2026-10-01";
+        const errorMessage = jest.spyOn(Gui, "errorMessage").mockImplementation();
+        globalMocks.mockShowQuickPick.mockReturnValueOnce({ label: "$(check) Submit this query" }).mockReturnValueOnce(undefined);
+        const result = await globalMocks.testJobsProvider.handleEditingMultiJobParameters(
+            jobProperties,
+            globalMocks.testJobsProvider.mSessionNodes[0]
+        );
+        expect(errorMessage).toHaveBeenCalledWith("The Submitted From date must not be after the Submitted To date.");
+        expect(result).toBeUndefined();
+    });
 });
 
 describe("ZosJobsProvider - tooltip", () => {
@@ -783,4 +873,22 @@ describe("ZosJobsProvider - getJobs", () => {
         jest.spyOn(Gui, "warningMessage").mockImplementation();
         await expect(globalMocks.testJobNode.getJobs("test", "test", "test", "test")).resolves.not.toThrow();
     });
+    it("should request the execution data and filter the jobs by the criteria the API cannot search by", async () => {
+        const globalMocks = await createGlobalMocks();
+        const getJobsByParameters = jest.fn().mockResolvedValue([
+            { ...globalMocks.testIJob, jobid: "JOB00001", class: "A", "exec-member": "SY1" },
+            { ...globalMocks.testIJob, jobid: "JOB00002", class: "B", "exec-member": "SY1" },
+            { ...globalMocks.testIJob, jobid: "JOB00003", class: "A", "exec-member": "SY2" },
+        ]);
+        Object.defineProperty(ZoweExplorerApiRegister, "getJesApi", {
+            value: () => ({ getJobsByParameters }),
+        });
+        const sessionNode = globalMocks.testJobsProvider.mSessionNodes[1];
+        sessionNode.searchId = "";
+        sessionNode.jobClass = "a";
+        sessionNode.execMember = "SY1";
+        const jobs = await sessionNode.getJobs("zowe", "*", "", "*");
+        expect(getJobsByParameters).toHaveBeenCalledWith({ owner: "zowe", prefix: "*", status: "*", execData: true });
+        expect(jobs.map((job) => job.jobid)).toEqual(["JOB00001"]);
+    });
 });
@@ -41,6 +41,7 @@ import * as refreshActions from "../../../src/shared/refresh";
 import * as sharedUtils from "../../../src/shared/utils";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
 import { SpoolFile } from "../../../src/SpoolProvider";
+import { ZoweExplorerApiRegister } from "../../../src/ZoweExplorerApiRegister";
 
 const activeTextEditorDocument = jest.fn();
 
@@ -602,6 +603,28 @@ describe("Jobs Actions Unit Tests - Function submitMember", () => {
             "Job submitted [JOB1234](command:zowe.jobs.setJobSpool?%5B%22sestest%22%2C%22JOB1234%22%5D)"
         );
     });
+    it("Checking Submit Job for PDS Member content with the profile of a jobs session", async () => {
+        createGlobalMocks();
+        const blockMocks = createBlockMocks();
+        mocked(Profiles.getInstance).mockReturnValue(blockMocks.profileInstance);
+        const jobsProfile = { ...blockMocks.imperativeProfile, name: "jobsProfile" };
+        const subNode = new ZoweDatasetNode("dataset", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.datasetSessionNode, null);
+        subNode.contextValue = globals.DS_PDS_CONTEXT;
+        const member = new ZoweDatasetNode("member", vscode.TreeItemCollapsibleState.None, subNode, null);
+        member.contextValue = globals.DS_MEMBER_CONTEXT;
+        const getJesApiSpy = jest.spyOn(ZoweExplorerApiRegister, "getJesApi");
+        const submitJobSpy = jest.spyOn(blockMocks.jesApi, "submitJob");
+        submitJobSpy.mockResolvedValueOnce(blockMocks.iJob);
+
+        await dsActions.submitMember(member, jobsProfile);
+        expect(blockMocks.profileInstance.checkCurrentProfile).toBeCalledWith(jobsProfile);
+        expect(getJesApiSpy).toBeCalledWith(jobsProfile);
+        expect(submitJobSpy.mock.calls[0][0]).toEqual("dataset(member)");
+        expect(mocked(Gui.showMessage).mock.calls[0][0]).toEqual(
+            "Job submitted [JOB1234](command:zowe.jobs.setJobSpool?%5B%22jobsProfile%22%2C%22JOB1234%22%5D)"
+        );
+        getJesApiSpy.mockRestore();
+    });
     it("Checking Submit Job for PDS Member content with Unverified Profile", async () => {
         createGlobalMocks();
         const blockMocks = createBlockMocks();
@@ -1390,3 +1413,122 @@ describe("Job Actions Unit Tests - Misc. functions", () => {
         expect(statusMsgSpy).toHaveBeenCalledWith(`$(sync~spin) Polling: ${testDoc.fileName}...`);
     });
 });
+
+describe("compareJobs", () => {
+    createGlobalMocks();
+    const session = createISession();
+    const profile = createIProfile();
+    const jobSessionNode = createJobSessionNode(session, profile);
+    const createJob = (jobid: string): Job => {
+        const job = { ...createIJobObject(), jobid };
+        const jobNode = new Job(`TESTJOB(${jobid})`, vscode.TreeItemCollapsibleState.Collapsed, jobSessionNode, session, job, profile);
+        jobNode.contextValue = globals.JOBS_JOB_CONTEXT;
+        return jobNode;
+    };
+    const todaysJob = createJob("JOB00002");
+    const yesterdaysJob = createJob("JOB00001");
+    const jobsProvider = createJobsTree(session, todaysJob.job, profile, createTreeView());
+    jobsProvider.mSessionNodes = [{ children: [todaysJob, yesterdaysJob] }];
+
+    beforeEach(() => {
+        Object.defineProperty(SpoolProvider, "getSpoolFiles", {
+            value: jest.fn().mockImplementation((node: IZoweJobTreeNode) =>
+                Promise.resolve([
+                    { ...createIJobFile(), jobid: node.job.jobid, stepname: "JES2", ddname: "JESMSGLG", id: 2 },
+                    { ...createIJobFile(), jobid: node.job.jobid, stepname: "STEP1", ddname: "SYSOUT", id: 102 },
+                ])
+            ),
+            configurable: true,
+        });
+        Object.defineProperty(SpoolProvider, "encodeJobFile", {
+            value: jest.fn().mockImplementation((sessionName, spool) => ({
+                with: (change) => ({ path: `${spool.jobid as string}.${spool.ddname as string}`, ...change }),
+            })),
+            configurable: true,
+        });
+    });
+
+    it("compares two selected jobs without asking for another job", async () => {
+        mocked(vscode.window.showQuickPick).mockImplementationOnce((items) => Promise.resolve(items[0]));
+        await jobActions.compareJobs(jobsProvider, yesterdaysJob, [yesterdaysJob, todaysJob]);
+
+        expect(vscode.window.showQuickPick).toHaveBeenCalledTimes(1);
+        expect(vscode.commands.executeCommand).toHaveBeenCalledTimes(2);
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+            "vscode.diff",
+            { path: "JOB00001.SYSOUT", fragment: "normalized" },
+            { path: "JOB00002.SYSOUT", fragment: "normalized" },
+            "TESTJOB(JOB00001) ↔ TESTJOB(JOB00002) - STEP1:SYSOUT",
+            { preview: false }
+        );
+    });
+
+    it("asks for the job to compare with and the spool file to compare", async () => {
+        mocked(vscode.window.showQuickPick)
+            .mockImplementationOnce((items) => {
+                expect(items.map((item) => item.label)).toEqual(["TESTJOB(JOB00001)"]);
+                return Promise.resolve(items[0]);
+            })
+            .mockImplementationOnce((items) => Promise.resolve(items[1]));
+        await jobActions.compareJobs(jobsProvider, todaysJob);
+
+        expect(vscode.commands.executeCommand).toHaveBeenCalledTimes(1);
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+            "vscode.diff",
+            { path: "JOB00002.JESMSGLG", fragment: "normalized" },
+            { path: "JOB00001.JESMSGLG", fragment: "normalized" },
+            "TESTJOB(JOB00002) ↔ TESTJOB(JOB00001) - JES2:JESMSGLG",
+            { preview: false }
+        );
+    });
+
+    it("does not compare more than two jobs", async () => {
+        await jobActions.compareJobs(jobsProvider, todaysJob, [todaysJob, yesterdaysJob, todaysJob]);
+        expect(Gui.errorMessage).toHaveBeenCalledWith("Select one or two jobs to compare.");
+        expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+    });
+});
+
+describe("showStepSummary", () => {
+    createGlobalMocks();
+    const session = createISession();
+    const profile = createIProfile();
+    const jobSessionNode = createJobSessionNode(session, profile);
+    const jobNode = createJobNode(jobSessionNode, profile);
+    const jesApi = createJesApi(profile);
+    const webview = { html: "" };
+
+    beforeEach(() => {
+        bindJesApi(jesApi);
+        Object.defineProperty(SpoolProvider, "getSpoolFiles", {
+            value: jest.fn().mockResolvedValue([
+                { ...createIJobFile(), stepname: "JES2", ddname: "JESMSGLG", id: 2 },
+                { ...createIJobFile(), stepname: "JES2", ddname: "JESYSMSG", id: 4 },
+            ]),
+            configurable: true,
+        });
+        Object.defineProperty(Gui, "createWebviewPanel", { value: jest.fn().mockReturnValue({ webview }), configurable: true });
+    });
+
+    it("shows the completion code of each step", async () => {
+        const getSpoolContentById = jest
+            .spyOn(jesApi, "getSpoolContentById")
+            .mockImplementation((_jobname, _jobid, id) =>
+                Promise.resolve(id === 4 ? " IEF142I TESTJOB STEP1 - STEP WAS EXECUTED - COND CODE 0004" : "")
+            );
+        await jobActions.showStepSummary(jobNode);
+
+        expect(getSpoolContentById).toHaveBeenCalledTimes(2);
+        expect(Gui.createWebviewPanel).toHaveBeenCalledWith(expect.objectContaining({ title: "TESTJOB(JOB1234) Step Summary" }));
+        expect(webview.html).toContain('<td align="left">STEP1</td>');
+        expect(webview.html).toContain('<td align="left">0004</td>');
+    });
+
+    it("reports a job without step completion messages", async () => {
+        jest.spyOn(jesApi, "getSpoolContentById").mockResolvedValue("");
+        await jobActions.showStepSummary(jobNode);
+
+        expect(Gui.showMessage).toHaveBeenCalledWith("No step completion messages were found for TESTJOB(JOB1234).");
+        expect(Gui.createWebviewPanel).not.toHaveBeenCalled();
+    });
+});
@@ -21,6 +21,8 @@ import { IJestIt, ITestContext, processSubscriptions, spyOnSubscriptions } from
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
 import { createISession, createIProfile } from "../../../__mocks__/mockCreators/shared";
 import { createJobNode, createJobSessionNode } from "../../../__mocks__/mockCreators/jobs";
+import { JobWatcher } from "../../../src/job/JobWatcher";
+import { SpoolSearchProvider } from "../../../src/job/SpoolSearchProvider";
 
 describe("Test src/jobs/extension", () => {
     describe("initJobsProvider", () => {
@@ -54,7 +56,11 @@ describe("Test src/jobs/extension", () => {
             onDidChangeConfiguration: jest.fn(),
             pollData: jest.fn(),
             refreshElement: jest.fn(),
+            removeJobChain: jest.fn(),
+            sortBy: jest.fn(),
+            groupBy: jest.fn(),
         };
+        const jobChain = { cancel: jest.fn() };
         const commands: IJestIt[] = [
             {
                 name: "zowe.jobs.zosJobsOpenspool",
@@ -219,6 +225,55 @@ describe("Test src/jobs/extension", () => {
                 mock: [{ spy: jest.spyOn(jobActions, "cancelJobs"), arg: [jobsProvider, [exampleData.job]] }],
                 parm: [exampleData.job],
             },
+            {
+                name: "zowe.jobs.submitJobChain",
+                mock: [{ spy: jest.spyOn(jobActions, "submitJobChain"), arg: [jobsProvider, [exampleData.job]] }],
+                parm: [exampleData.job],
+            },
+            {
+                name: "zowe.jobs.cancelJobChain",
+                mock: [{ spy: jobChain.cancel, arg: [] }],
+                parm: [jobChain],
+            },
+            {
+                name: "zowe.jobs.removeJobChain",
+                mock: [{ spy: jobsProvider.removeJobChain, arg: [jobChain] }],
+                parm: [jobChain],
+            },
+            {
+                name: "zowe.jobs.toggleNotifications",
+                mock: [{ spy: jest.spyOn(JobWatcher, "toggleNotifications"), arg: [exampleData.jobSession] }],
+                parm: [exampleData.jobSession],
+            },
+            {
+                name: "zowe.jobs.searchSpool",
+                mock: [{ spy: jest.spyOn(SpoolSearchProvider.prototype, "search"), arg: [[exampleData.job]] }],
+                parm: [exampleData.job],
+            },
+            {
+                name: "zowe.jobs.clearSpoolSearch",
+                mock: [{ spy: jest.spyOn(SpoolSearchProvider.prototype, "clear"), arg: [] }],
+            },
+            {
+                name: "zowe.jobs.compareJobs",
+                mock: [{ spy: jest.spyOn(jobActions, "compareJobs"), arg: [jobsProvider, exampleData.job, undefined] }],
+                parm: [exampleData.job],
+            },
+            {
+                name: "zowe.jobs.showStepSummary",
+                mock: [{ spy: jest.spyOn(jobActions, "showStepSummary"), arg: [exampleData.job] }],
+                parm: [exampleData.job],
+            },
+            {
+                name: "zowe.jobs.sortBy",
+                mock: [{ spy: jest.spyOn(jobsProvider, "sortBy"), arg: [exampleData.jobSession] }],
+                parm: [exampleData.jobSession],
+            },
+            {
+                name: "zowe.jobs.groupBy",
+                mock: [{ spy: jest.spyOn(jobsProvider, "groupBy"), arg: [exampleData.jobSession] }],
+                parm: [exampleData.jobSession],
+            },
         ];
 
         beforeAll(async () => {
@@ -0,0 +1,151 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import { filterJobs, getJobGroupName, needsExecData, normalizeSpoolContent, pairSpoolFiles, sortJobs } from "../../../src/job/utils";
+import { JobGroupMethod, JobSortMethod } from "../../../src/globals";
+import { createIJobFile, createIJobObject } from "../../../__mocks__/mockCreators/jobs";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+
+describe("Job Utils Unit Tests", () => {
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+    });
+
+    describe("normalizeSpoolContent", () => {
+        it("masks the job numbers, times and dates", () => {
+            const content = [
+                "12.30.45 JOB01234 ---- SUNDAY,    18 OCT 2026 ----",
+                "12.30.45 JOB01234  IEF403I TESTJOB - STARTED - TIME=12.30.45",
+                "IEF375I  JOB/TESTJOB /START 2026291.1230",
+                "Run on 2026-10-18 at 12:30:45.123 for J0001234",
+            ].join("\n");
+            expect(normalizeSpoolContent(content)).toBe(
+                [
+                    "##.##.## JOB##### ---- SUNDAY,    ## OCT #### ----",
+                    "##.##.## JOB#####  IEF403I TESTJOB - STARTED - TIME=##.##.##",
+                    "IEF375I  JOB/TESTJOB /START #######.####",
+                    "Run on ####-##-## at ##:##:##.### for J#######",
+                ].join("\n")
+            );
+        });
+
+        it("keeps return codes and messages", () => {
+            const content = "IEF142I TESTJOB STEP1 - STEP WAS EXECUTED - COND CODE 0004";
+            expect(normalizeSpoolContent(content)).toBe(content);
+        });
+    });
+
+    describe("pairSpoolFiles", () => {
+        it("pairs the spool files by step name, procedure step name and DD name", () => {
+            const spool = (stepname: string, ddname: string, id: number, procstep?: string) => ({
+                ...createIJobFile(),
+                stepname,
+                ddname,
+                procstep,
+                id,
+            });
+            const pairs = pairSpoolFiles(
+                [spool("JES2", "JESMSGLG", 2), spool("STEP1", "SYSPRINT", 102, "COMPILE"), spool("STEP1", "SYSOUT", 103)],
+                [spool("JES2", "JESMSGLG", 2), spool("STEP1", "SYSOUT", 104), spool("STEP1", "SYSOUT", 105)]
+            );
+            expect(pairs.map((pair) => [pair.key, pair.left?.id, pair.right?.id])).toEqual([
+                ["JES2:JESMSGLG", 2, 2],
+                ["STEP1:COMPILE:SYSPRINT", 102, undefined],
+                ["STEP1:SYSOUT", 103, 104],
+                ["STEP1:SYSOUT (2)", undefined, 105],
+            ]);
+        });
+    });
+
+    describe("filterJobs", () => {
+        const job = (jobid: string, attributes: object) => ({ ...createIJobObject(), jobid, ...attributes });
+        const jobs = [
+            job("JOB00001", { class: "A", type: "JOB", "exec-member": "SY1", "exec-submitted": "2026-10-01T12:00:00.000Z" }),
+            job("STC00002", { class: "STC", type: "STC", "exec-member": "SY2", "exec-submitted": "2026-10-10T12:00:00.000Z" }),
+            job("JOB00003", { class: "B", type: "JOB", "exec-member": "SY1", "exec-submitted": "2026-10-18T12:00:00.000Z" }),
+        ];
+
+        it("keeps the jobs that match the class, type and execution member", () => {
+            expect(filterJobs(jobs, { jobType: "job", execMember: "sy1" }).map((j) => j.jobid)).toEqual(["JOB00001", "JOB00003"]);
+            expect(filterJobs(jobs, { jobClass: "B", jobType: "*" }).map((j) => j.jobid)).toEqual(["JOB00003"]);
+        });
+
+        it("keeps the jobs submitted within the date range", () => {
+            expect(filterJobs(jobs, { submittedFrom: "2026-10-10" }).map((j) => j.jobid)).toEqual(["STC00002", "JOB00003"]);
+            expect(filterJobs(jobs, { submittedFrom: "2026-10-02", submittedTo: "2026-10-17" }).map((j) => j.jobid)).toEqual(["STC00002"]);
+        });
+
+        it("ignores the criteria for attributes that were not returned", () => {
+            const ftpJobs = [job("JOB00004", { class: "A", "exec-member": undefined })];
+            expect(filterJobs(ftpJobs, { execMember: "SY1", submittedTo: "2026-10-01" })).toEqual(ftpJobs);
+        });
+
+        it("asks for the execution data only when it is needed", () => {
+            expect(needsExecData({ jobClass: "A", jobType: "STC" })).toBe(false);
+            expect(needsExecData({ submittedTo: "2026-10-01" })).toBe(true);
+        });
+    });
+
+    describe("sortJobs", () => {
+        const node = (jobid: string, attributes: object) => ({ job: { ...createIJobObject(), jobid, ...attributes } });
+        const nodes = [
+            node("JOB00010", { jobname: "BETA", retcode: "CC 0004", status: "OUTPUT", "exec-submitted": "2026-10-02T08:00:00.000Z" }),
+            node("J0000002", { jobname: "ALPHA", retcode: null, status: "ACTIVE", "exec-submitted": "2026-10-03T08:00:00.000Z" }),
+            node("JOB00003", { jobname: "BETA", retcode: "ABEND S0C4", status: "OUTPUT", "exec-submitted": "2026-10-01T08:00:00.000Z" }),
+            node("JOB00004", { jobname: "ALPHA", retcode: "CC 0000", status: "OUTPUT", "exec-submitted": "2026-10-04T08:00:00.000Z" }),
+        ];
+        const ids = (sorted: { job: { jobid: string } }[]): string[] => sorted.map((n) => n.job.jobid);
+
+        it("sorts by job ID, the number of the ID is compared", () => {
+            expect(ids(sortJobs(nodes, { method: JobSortMethod.Id, descending: false }))).toEqual(["J0000002", "JOB00003", "JOB00004", "JOB00010"]);
+            expect(ids(sortJobs(nodes, { method: JobSortMethod.Id, descending: true }))).toEqual(["JOB00010", "JOB00004", "JOB00003", "J0000002"]);
+        });
+
+        it("sorts by name, date submitted and status, then by job ID", () => {
+            expect(ids(sortJobs(nodes, { method: JobSortMethod.Name, descending: false }))).toEqual(["J0000002", "JOB00004", "JOB00003", "JOB00010"]);
+            expect(ids(sortJobs(nodes, { method: JobSortMethod.DateSubmitted, descending: false }))).toEqual([
+                "JOB00003",
+                "JOB00010",
+                "J0000002",
+                "JOB00004",
+            ]);
+            expect(ids(sortJobs(nodes, { method: JobSortMethod.Status, descending: false }))).toEqual([
+                "J0000002",
+                "JOB00003",
+                "JOB00004",
+                "JOB00010",
+            ]);
+        });
+
+        it("sorts condition codes by value, then abends, then the jobs that have not ended", () => {
+            expect(ids(sortJobs(nodes, { method: JobSortMethod.ReturnCode, descending: false }))).toEqual([
+                "JOB00004",
+                "JOB00010",
+                "JOB00003",
+                "J0000002",
+            ]);
+        });
+
+        it("keeps the nodes without a job first", () => {
+            const information = { job: undefined };
+            expect(sortJobs([nodes[0], information, nodes[1]], { method: JobSortMethod.Id, descending: true })[0]).toBe(information);
+        });
+    });
+
+    describe("getJobGroupName", () => {
+        it("returns the job name or status of a job", () => {
+            const job = { ...createIJobObject(), jobname: "TESTJOB", status: "OUTPUT" };
+            expect(getJobGroupName(job, JobGroupMethod.Name)).toBe("TESTJOB");
+            expect(getJobGroupName(job, JobGroupMethod.Status)).toBe("OUTPUT");
+            expect(getJobGroupName(job, JobGroupMethod.None)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Gui } from "@zowe/zowe-explorer-api";
+import { FolderDownload } from "../../../src/shared/FolderDownload";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+
+jest.mock("fs");
+
+describe("FolderDownload Unit Tests", () => {
+    const folder = path.join("/local", "folder");
+    let token: { isCancellationRequested: boolean };
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "error", { value: jest.fn(), configurable: true });
+        token = { isCancellationRequested: false };
+        jest.spyOn(Gui, "showOpenDialog").mockResolvedValue([{ fsPath: folder } as any]);
+        jest.spyOn(Gui, "withProgress").mockImplementation(async (_options, task) => task({ report: jest.fn() }, token as any));
+        jest.spyOn(Gui, "reportProgress").mockImplementation();
+        jest.spyOn(fs, "mkdirSync").mockImplementation();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("downloads the listed files to the selected folder", async () => {
+        const download = jest.fn();
+        const showMessageSpy = jest.spyOn(Gui, "showMessage").mockImplementation();
+
+        await FolderDownload.start("USER.LIB", async (folderDownload) => {
+            folderDownload.add({ name: "USER.LIB(MEM1)", relativePath: path.join("USER.LIB", "MEM1.cbl"), download });
+            folderDownload.add({ name: "USER.LIB(MEM2)", relativePath: path.join("USER.LIB", "MEM2.cbl"), download });
+        });
+        expect(download).toHaveBeenCalledWith(path.join(folder, "USER.LIB", "MEM1.cbl"));
+        expect(download).toHaveBeenCalledWith(path.join(folder, "USER.LIB", "MEM2.cbl"));
+        expect(fs.mkdirSync).toHaveBeenCalledWith(path.join(folder, "USER.LIB"), { recursive: true });
+        expect(showMessageSpy).toHaveBeenCalledWith(`Downloaded 2 files to ${folder}`);
+    });
+
+    it("does not download anything when no folder is selected", async () => {
+        jest.spyOn(Gui, "showOpenDialog").mockResolvedValue(undefined);
+        const listItems = jest.fn();
+
+        await FolderDownload.start("USER.LIB", listItems);
+        expect(listItems).not.toHaveBeenCalled();
+        expect(Gui.withProgress).not.toHaveBeenCalled();
+    });
+
+    it("keeps downloading after a failure and reports the failed items", async () => {
+        const download = jest.fn().mockRejectedValueOnce(new Error("not authorized")).mockResolvedValue(undefined);
+        const errorMessageSpy = jest.spyOn(Gui, "errorMessage").mockImplementation();
+        const showMessageSpy = jest.spyOn(Gui, "showMessage").mockImplementation();
+
+        await FolderDownload.start("/u/user", async (folderDownload) => {
+            folderDownload.fail("/u/user/private", new Error("permission denied"));
+            folderDownload.add({ name: "/u/user/a.txt", relativePath: "a.txt", download });
+            folderDownload.add({ name: "/u/user/b.txt", relativePath: "b.txt", download });
+        });
+        expect(download).toHaveBeenCalledTimes(2);
+        expect(errorMessageSpy).toHaveBeenCalledWith(
+            `2 items could not be downloaded to ${folder}: /u/user/private, /u/user/a.txt. See the Zowe Explorer log for details.`
+        );
+        expect(ZoweLogger.error).toHaveBeenCalledTimes(2);
+        expect(showMessageSpy).not.toHaveBeenCalled();
+    });
+
+    it("stops downloading when cancelled", async () => {
+        const download = jest.fn().mockImplementation(async () => {
+            token.isCancellationRequested = true;
+        });
+        const showMessageSpy = jest.spyOn(Gui, "showMessage").mockImplementation();
+
+        await FolderDownload.start("/u/user", async (folderDownload) => {
+            folderDownload.add({ name: "/u/user/a.txt", relativePath: "a.txt", download });
+            folderDownload.add({ name: "/u/user/b.txt", relativePath: "b.txt", download });
+        });
+        expect(download).toHaveBeenCalledTimes(1);
+        expect(showMessageSpy).toHaveBeenCalledWith(`Download cancelled, 1 of 2 files were downloaded to ${folder}`);
+    });
+});
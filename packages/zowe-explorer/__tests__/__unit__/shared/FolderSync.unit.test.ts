@@ -0,0 +1,277 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Gui } from "@zowe/zowe-explorer-api";
+import * as isbinaryfile from "isbinaryfile";
+import { FolderSync, ISyncMapping } from "../../../src/shared/FolderSync";
+import { Profiles } from "../../../src/Profiles";
+import { ZoweExplorerApiRegister } from "../../../src/ZoweExplorerApiRegister";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import * as profUtils from "../../../src/utils/ProfilesUtils";
+import * as globals from "../../../src/globals";
+import { createIProfile } from "../../../__mocks__/mockCreators/shared";
+
+jest.mock("fs");
+
+describe("FolderSync Unit Tests", () => {
+    const profile = createIProfile();
+    const localFolder = path.join("/local", "project");
+    let store: { [key: string]: any };
+    let onDidSave: (doc: Partial<vscode.TextDocument>) => Promise<void>;
+
+    function hash(content: string): string {
+        return crypto.createHash("sha1").update(Buffer.from(content)).digest("hex");
+    }
+
+    // Mocks a local folder from the paths of its files, relative to the local folder, and their contents
+    function mockLocalFiles(files: { [relativePath: string]: string }) {
+        jest.spyOn(fs, "readdirSync").mockImplementation(((folder: string) => {
+            const relativeFolder = path.relative(localFolder, folder);
+            const names = new Map<string, boolean>();
+            for (const file of Object.keys(files)) {
+                const relativeFile = path.relative(relativeFolder, file);
+                if (relativeFolder === "" || !relativeFile.startsWith("..")) {
+                    const [name, ...rest] = relativeFile.split(path.sep);
+                    names.set(name, rest.length > 0);
+                }
+            }
+            return [...names.entries()].map(([name, isDirectory]) => ({ name, isFile: () => !isDirectory, isDirectory: () => isDirectory }));
+        }) as any);
+        jest.spyOn(fs, "readFileSync").mockImplementation((file) => Buffer.from(files[path.relative(localFolder, file.toString())]));
+    }
+
+    function mockMapping(mapping: Partial<ISyncMapping>): ISyncMapping {
+        const fullMapping = { localFolder, profileName: profile.name, remotePath: "USER.SRC", type: "ds", pushOnSave: false, files: {}, ...mapping };
+        store[FolderSync.MAPPINGS_KEY] = [fullMapping];
+        return fullMapping as ISyncMapping;
+    }
+
+    function createPdsNode(): any {
+        return { contextValue: globals.DS_PDS_CONTEXT, getProfile: () => profile, getLabel: () => "USER.SRC" };
+    }
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "warn", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "error", { value: jest.fn(), configurable: true });
+        store = {};
+        jest.spyOn(vscode.workspace, "onDidSaveTextDocument").mockImplementation((listener: any) => (onDidSave = listener));
+        FolderSync.initialize({
+            workspaceState: { get: (key: string) => store[key], update: async (key: string, value: any) => (store[key] = value) },
+            subscriptions: [],
+        } as any);
+        jest.spyOn(Gui, "withProgress").mockImplementation(async (_options, task) =>
+            task({ report: jest.fn() }, { isCancellationRequested: false } as any)
+        );
+        jest.spyOn(Gui, "reportProgress").mockImplementation();
+        jest.spyOn(Gui, "showMessage").mockImplementation();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("lists the files changed since the last upload as members", () => {
+        mockLocalFiles({ "mem1.cbl": "new", "mem2.cbl": "changed", "mem3.cbl": "same", [path.join(".git", "HEAD")]: "" });
+        const mapping = mockMapping({ files: { "mem2.cbl": { hash: hash("before") }, "mem3.cbl": { hash: hash("same") } } });
+
+        expect(FolderSync.getChanges(mapping)).toEqual([
+            { relativePath: "mem1.cbl", remoteName: "USER.SRC(MEM1)", hash: hash("new"), added: true },
+            { relativePath: "mem2.cbl", remoteName: "USER.SRC(MEM2)", hash: hash("changed"), added: false },
+        ]);
+    });
+
+    it("lists the files without a valid or distinct member name as conflicts", () => {
+        mockLocalFiles({ "a.cbl": "", "a.jcl": "", "program1.cbl": "", "program12.cbl": "", "not-a-member.cbl": "", "b.cbl": "same" });
+        const mapping = mockMapping({ files: { "a.cbl": { hash: hash("") }, "b.cbl": { hash: hash("same") } } });
+
+        expect(FolderSync.getChanges(mapping).map((change) => [change.relativePath, change.conflict])).toEqual([
+            ["a.cbl", "a.cbl, a.jcl would all be uploaded as A"],
+            ["a.jcl", "a.cbl, a.jcl would all be uploaded as A"],
+            ["program1.cbl", undefined],
+            ["program12.cbl", "PROGRAM12 is longer than 8 characters"],
+            ["not-a-member.cbl", "NOT-A-MEMBER is longer than 8 characters"],
+        ]);
+    });
+
+    it("uploads only the files without conflicts and shows the conflicts in the preview", async () => {
+        mockLocalFiles({ "mem1.cbl": "new", "mem$-1.cbl": "new" });
+        mockMapping({});
+        const showQuickPickSpy = jest
+            .spyOn(Gui, "showQuickPick")
+            .mockResolvedValueOnce("Upload 1 Changed Files" as any)
+            .mockResolvedValueOnce("Preview Changes" as any)
+            .mockResolvedValueOnce(undefined);
+        const warningMessageSpy = jest.spyOn(Gui, "warningMessage").mockResolvedValue(undefined);
+        const putContents = jest.fn().mockResolvedValue({ success: true, apiResponse: [{ etag: "ETAG1" }] });
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue({ putContents } as any);
+
+        await FolderSync.syncFolder(createPdsNode());
+        expect(putContents).toHaveBeenCalledTimes(1);
+        expect(putContents).toHaveBeenCalledWith(path.join(localFolder, "mem1.cbl"), "USER.SRC(MEM1)", expect.any(Object));
+        expect(warningMessageSpy).toHaveBeenCalledWith("1 files were not uploaded because of their member names. Preview the changes for details.");
+
+        await FolderSync.syncFolder(createPdsNode());
+        expect(showQuickPickSpy.mock.calls[1][0]).toEqual(["Preview Changes", "Turn On Push on Save", "Stop Synchronizing"]);
+        expect(showQuickPickSpy.mock.calls[2][0]).toEqual([
+            { label: "mem$-1.cbl", description: "USER.SRC(MEM$-1)", detail: "Not uploaded: MEM$-1 is not a valid member name" },
+        ]);
+        expect(putContents).toHaveBeenCalledTimes(1);
+    });
+
+    it("lists the changed files of the subfolders for a USS directory", () => {
+        mockLocalFiles({ "main.c": "main", [path.join("include", "util.h")]: "util" });
+        const mapping = mockMapping({ type: "uss", remotePath: "/u/user/project/" });
+
+        expect(FolderSync.getChanges(mapping).map((change) => change.remoteName)).toEqual([
+            "/u/user/project/main.c",
+            "/u/user/project/include/util.h",
+        ]);
+    });
+
+    it("asks for the local folder and uploads the changed files with their etag", async () => {
+        mockLocalFiles({ "mem1.cbl": "new", "mem2.cbl": "changed" });
+        store[FolderSync.MAPPINGS_KEY] = [];
+        jest.spyOn(Gui, "showOpenDialog").mockResolvedValue([{ fsPath: localFolder } as any]);
+        jest.spyOn(Gui, "showQuickPick").mockResolvedValue("Upload 2 Changed Files" as any);
+        const putContents = jest.fn().mockResolvedValue({ success: true, apiResponse: [{ etag: "ETAG2" }] });
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue({ putContents } as any);
+
+        await FolderSync.syncFolder(createPdsNode());
+        expect(putContents).toHaveBeenCalledWith(
+            path.join(localFolder, "mem1.cbl"),
+            "USER.SRC(MEM1)",
+            expect.objectContaining({ etag: undefined, returnEtag: true })
+        );
+        const [mapping] = FolderSync.getMappings();
+        expect(mapping).toEqual(expect.objectContaining({ localFolder, remotePath: "USER.SRC", type: "ds" }));
+        expect(mapping.files["mem2.cbl"]).toEqual({ hash: hash("changed"), etag: "ETAG2" });
+        expect(Gui.showMessage).toHaveBeenCalledWith("Uploaded 2 of 2 changed files to USER.SRC");
+
+        // Nothing is left to upload
+        expect(FolderSync.getChanges(mapping)).toEqual([]);
+    });
+
+    it("does not upload anything for a preview", async () => {
+        mockLocalFiles({ "mem1.cbl": "new" });
+        mockMapping({});
+        const showQuickPickSpy = jest
+            .spyOn(Gui, "showQuickPick")
+            .mockResolvedValueOnce("Preview Changes" as any)
+            .mockResolvedValueOnce(undefined);
+        const putContents = jest.fn();
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue({ putContents } as any);
+
+        await FolderSync.syncFolder(createPdsNode());
+        expect(showQuickPickSpy.mock.calls[1][0]).toEqual([{ label: "mem1.cbl", description: "USER.SRC(MEM1)", detail: "New" }]);
+        expect(putContents).not.toHaveBeenCalled();
+    });
+
+    it("overwrites the members changed on the mainframe only when confirmed", async () => {
+        mockLocalFiles({ "mem1.cbl": "changed" });
+        const mapping = mockMapping({ files: { "mem1.cbl": { hash: hash("before"), etag: "ETAG1" } } });
+        const putContents = jest
+            .fn()
+            .mockRejectedValueOnce(new Error("Rest API failure with HTTP(S) status 412"))
+            .mockResolvedValue({ success: true, apiResponse: [{ etag: "ETAG2" }] });
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue({ putContents } as any);
+        const warningMessageSpy = jest.spyOn(Gui, "warningMessage").mockResolvedValue("Overwrite");
+
+        await FolderSync.uploadChanges(mapping, profile, FolderSync.getChanges(mapping));
+        expect(warningMessageSpy).toHaveBeenCalledTimes(1);
+        expect(putContents).toHaveBeenNthCalledWith(1, expect.any(String), "USER.SRC(MEM1)", expect.objectContaining({ etag: "ETAG1" }));
+        expect(putContents).toHaveBeenNthCalledWith(2, expect.any(String), "USER.SRC(MEM1)", expect.objectContaining({ etag: undefined }));
+        expect(FolderSync.getMappings()[0].files["mem1.cbl"].etag).toBe("ETAG2");
+    });
+
+    it("reports the files that cannot be uploaded", async () => {
+        mockLocalFiles({ "mem1.cbl": "new" });
+        const mapping = mockMapping({});
+        const putContents = jest.fn().mockResolvedValue({ success: false, commandResponse: "space exhausted" });
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue({ putContents } as any);
+        const errorMessageSpy = jest.spyOn(Gui, "errorMessage").mockImplementation();
+
+        await FolderSync.uploadChanges(mapping, profile, FolderSync.getChanges(mapping));
+        expect(errorMessageSpy).toHaveBeenCalledWith("1 files could not be uploaded: USER.SRC(MEM1). See the Zowe Explorer log for details.");
+        expect(FolderSync.getMappings()[0].files).toEqual({});
+    });
+
+    it("creates the missing USS directories before uploading", async () => {
+        mockLocalFiles({ [path.join("include", "util.h")]: "util" });
+        const mapping = mockMapping({ type: "uss", remotePath: "/u/user/project" });
+        const ussApi = {
+            fileList: jest.fn().mockRejectedValue(new Error("not found")),
+            create: jest.fn(),
+            putContents: jest.fn().mockResolvedValue({ success: true, apiResponse: { etag: "ETAG1" } }),
+        };
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue(ussApi as any);
+        jest.spyOn(isbinaryfile, "isBinaryFileSync").mockReturnValue(false);
+
+        await FolderSync.uploadChanges(mapping, profile, FolderSync.getChanges(mapping));
+        expect(ussApi.create).toHaveBeenCalledWith("/u/user/project/include", "directory");
+        expect(ussApi.putContents).toHaveBeenCalledWith(
+            path.join(localFolder, "include", "util.h"),
+            "/u/user/project/include/util.h",
+            false,
+            null,
+            undefined,
+            true
+        );
+    });
+
+    it("pushes a saved file when push on save is turned on", async () => {
+        mockLocalFiles({ "mem1.cbl": "new", "mem2.cbl": "new" });
+        mockMapping({ pushOnSave: true });
+        jest.spyOn(Profiles, "getInstance").mockReturnValue({ loadNamedProfile: () => profile } as any);
+        const putContents = jest.fn().mockResolvedValue({ success: true, apiResponse: [{ etag: "ETAG1" }] });
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue({ putContents } as any);
+
+        await onDidSave({ fileName: path.join(localFolder, "mem1.cbl") });
+        await onDidSave({ fileName: path.join("/other", "mem2.cbl") });
+        expect(putContents).toHaveBeenCalledTimes(1);
+        expect(putContents).toHaveBeenCalledWith(path.join(localFolder, "mem1.cbl"), "USER.SRC(MEM1)", expect.any(Object));
+    });
+
+    it("does not push a saved file with the same member name as another file", async () => {
+        mockLocalFiles({ "mem1.cbl": "new", "mem1.jcl": "new" });
+        mockMapping({ pushOnSave: true });
+        jest.spyOn(Profiles, "getInstance").mockReturnValue({ loadNamedProfile: () => profile } as any);
+        const putContents = jest.fn();
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue({ putContents } as any);
+        const warningMessageSpy = jest.spyOn(Gui, "warningMessage").mockResolvedValue(undefined);
+
+        await onDidSave({ fileName: path.join(localFolder, "mem1.cbl") });
+        expect(putContents).not.toHaveBeenCalled();
+        expect(warningMessageSpy).toHaveBeenCalledWith("mem1.cbl was not uploaded: mem1.cbl, mem1.jcl would all be uploaded as MEM1");
+    });
+
+    it("reports an error instead of pushing a saved file when the profile cannot be loaded", async () => {
+        mockLocalFiles({ "mem1.cbl": "new" });
+        mockMapping({ pushOnSave: true });
+        const error = new Error("Could not find profile named: sestest.");
+        jest.spyOn(Profiles, "getInstance").mockReturnValue({
+            loadNamedProfile: () => {
+                throw error;
+            },
+        } as any);
+        const putContents = jest.fn();
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue({ putContents } as any);
+        const errorHandlingSpy = jest.spyOn(profUtils, "errorHandling").mockResolvedValue(undefined);
+
+        await onDidSave({ fileName: path.join(localFolder, "mem1.cbl") });
+        expect(putContents).not.toHaveBeenCalled();
+        expect(errorHandlingSpy).toHaveBeenCalledWith(error, profile.name, "mem1.cbl was not uploaded to USER.SRC");
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { Gui } from "@zowe/zowe-explorer-api";
+import { LocalHistory } from "../../../src/shared/LocalHistory";
+import { ZoweExplorerApiRegister } from "../../../src/ZoweExplorerApiRegister";
+import { SettingsConfig } from "../../../src/utils/SettingsConfig";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import * as globals from "../../../src/globals";
+import { createIProfile } from "../../../__mocks__/mockCreators/shared";
+
+jest.mock("fs");
+
+describe("LocalHistory Unit Tests", () => {
+    const profile = createIProfile();
+    const storagePath = path.join("/storage", "localHistory");
+    let registerContentProvider: jest.SpyInstance;
+
+    function mockVersions(contents: { [name: string]: string }) {
+        jest.spyOn(fs, "existsSync").mockReturnValue(true);
+        jest.spyOn(fs, "readdirSync").mockReturnValue(Object.keys(contents) as any);
+        jest.spyOn(fs, "readFileSync").mockImplementation((file) => Buffer.from(contents[path.basename(file.toString())] ?? "current"));
+    }
+
+    function createMemberNode(): any {
+        return {
+            contextValue: globals.DS_MEMBER_CONTEXT,
+            getProfile: () => profile,
+            getLabel: () => "MEM",
+            getParent: () => ({ getLabel: () => "USER.LIB" }),
+        };
+    }
+
+    function createUssNode(): any {
+        return {
+            contextValue: globals.DS_TEXT_FILE_CONTEXT,
+            fullPath: "/u/user/file.txt",
+            binary: false,
+            getProfile: () => profile,
+            getUSSDocumentFilePath: () => path.join("/tmp", "file.txt"),
+        };
+    }
+
+    beforeAll(() => {
+        registerContentProvider = jest.spyOn(vscode.workspace, "registerTextDocumentContentProvider");
+        LocalHistory.initialize({ globalStorageUri: { fsPath: "/storage" }, subscriptions: [] } as any);
+    });
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "warn", { value: jest.fn(), configurable: true });
+        jest.spyOn(SettingsConfig, "getDirectValue").mockReturnValue(2);
+        jest.spyOn(Date, "now").mockReturnValue(3000);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("lists the versions of a file, the most recent first", () => {
+        mockVersions({ "1000": "first", "2000": "second", current: "" });
+
+        const versions = LocalHistory.getVersions("sestest", "USER.LIB(MEM)");
+        expect(versions.map((version) => version.savedAt.getTime())).toEqual([2000, 1000]);
+        expect(path.dirname(versions[0].file).startsWith(storagePath)).toBe(true);
+        expect(LocalHistory.getVersions("other", "USER.LIB(MEM)")[0].file).not.toBe(versions[0].file);
+    });
+
+    it("keeps the replaced version and removes the oldest versions", async () => {
+        mockVersions({ "1000": "first", "2000": "second" });
+        const writeFileSpy = jest.spyOn(fs, "writeFileSync").mockImplementation();
+        const unlinkSpy = jest.spyOn(fs, "unlinkSync").mockImplementation();
+
+        await LocalHistory.saveVersion(profile, "USER.LIB(MEM)", "third");
+        const [file, content] = writeFileSpy.mock.calls[0];
+        expect(path.basename(file as string)).toBe("3000");
+        expect(content).toBe("third");
+        expect(unlinkSpy).toHaveBeenCalledTimes(1);
+        expect(path.basename(unlinkSpy.mock.calls[0][0] as string)).toBe("1000");
+        expect(SettingsConfig.getDirectValue).toHaveBeenCalledWith(globals.SETTINGS_FILES_LOCAL_HISTORY_MAX_ENTRIES);
+    });
+
+    it("does not keep a version that is the same as the last version", async () => {
+        mockVersions({ "2000": "second" });
+        jest.spyOn(fs, "readFileSync").mockReturnValue(Buffer.from("second"));
+        jest.spyOn(fs, "writeFileSync").mockImplementation();
+        const unlinkSpy = jest.spyOn(fs, "unlinkSync").mockImplementation();
+
+        await LocalHistory.saveVersion(profile, "USER.LIB(MEM)", "second");
+        expect(unlinkSpy).toHaveBeenCalledTimes(1);
+        expect(path.basename(unlinkSpy.mock.calls[0][0] as string)).toBe("3000");
+    });
+
+    it("downloads the replaced version when its content is not known", async () => {
+        mockVersions({});
+        const getContents = jest.fn();
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue({ getContents } as any);
+
+        await LocalHistory.saveVersion(profile, "/u/user/file.txt", undefined, true);
+        expect(getContents).toHaveBeenCalledWith("/u/user/file.txt", expect.objectContaining({ binary: true }));
+        expect(path.basename(getContents.mock.calls[0][1].file)).toBe("3000");
+    });
+
+    it("does not keep versions when the history is disabled", async () => {
+        jest.spyOn(SettingsConfig, "getDirectValue").mockReturnValue(0);
+        const writeFileSpy = jest.spyOn(fs, "writeFileSync");
+
+        await LocalHistory.saveVersion(profile, "USER.LIB(MEM)", "content");
+        expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("never fails the upload when a version cannot be kept", async () => {
+        mockVersions({});
+        jest.spyOn(fs, "writeFileSync").mockImplementation(() => {
+            throw new Error("disk full");
+        });
+
+        await expect(LocalHistory.saveVersion(profile, "USER.LIB(MEM)", "content")).resolves.toBeUndefined();
+        expect(ZoweLogger.warn).toHaveBeenCalled();
+    });
+
+    it("tells the user when a file has no history", async () => {
+        jest.spyOn(fs, "existsSync").mockReturnValue(false);
+        const infoMessageSpy = jest.spyOn(Gui, "infoMessage").mockImplementation();
+
+        await LocalHistory.showHistory(createMemberNode());
+        expect(infoMessageSpy).toHaveBeenCalledWith("There is no local history for USER.LIB(MEM)");
+    });
+
+    it("compares a version with the current version", async () => {
+        mockVersions({ "2000": "second" });
+        const getContents = jest.fn();
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue({ getContents } as any);
+        (jest.spyOn(Gui, "showQuickPick") as jest.Mock)
+            .mockImplementationOnce(async (items: any) => items[0])
+            .mockResolvedValueOnce("Compare with Current Version");
+        const executeCommandSpy = jest.spyOn(vscode.commands, "executeCommand");
+
+        await LocalHistory.showHistory(createMemberNode());
+        expect(getContents).toHaveBeenCalledWith("USER.LIB(MEM)", expect.objectContaining({ file: expect.stringContaining("current") }));
+        const [command, versionUri, currentUri] = executeCommandSpy.mock.calls[0] as any[];
+        expect(command).toBe("vscode.diff");
+        const provider = registerContentProvider.mock.calls[0][1];
+        expect(provider.provideTextDocumentContent(versionUri)).toBe("second");
+        expect(provider.provideTextDocumentContent(currentUri)).toBe("current");
+    });
+
+    it("restores a version after keeping the current version", async () => {
+        mockVersions({ "2000": "second" });
+        jest.spyOn(fs, "writeFileSync").mockImplementation();
+        const api = { getContents: jest.fn(), putContents: jest.fn() };
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue(api as any);
+        (jest.spyOn(Gui, "showQuickPick") as jest.Mock).mockImplementationOnce(async (items: any) => items[0]).mockResolvedValueOnce("Restore");
+        jest.spyOn(Gui, "warningMessage").mockResolvedValue("Restore");
+        const showMessageSpy = jest.spyOn(Gui, "showMessage").mockImplementation();
+
+        await LocalHistory.showHistory(createUssNode());
+        expect(api.getContents).toHaveBeenCalledWith("/u/user/file.txt", expect.objectContaining({ binary: false }));
+        expect(api.putContents).toHaveBeenCalledWith(expect.stringMatching(/2000$/), "/u/user/file.txt", false);
+        expect(showMessageSpy).toHaveBeenCalled();
+    });
+
+    it("does not restore a version when the user cancels", async () => {
+        mockVersions({ "2000": "second" });
+        const api = { getContents: jest.fn(), putContents: jest.fn() };
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue(api as any);
+        (jest.spyOn(Gui, "showQuickPick") as jest.Mock).mockImplementationOnce(async (items: any) => items[0]).mockResolvedValueOnce("Restore");
+        jest.spyOn(Gui, "warningMessage").mockResolvedValue(undefined);
+
+        await LocalHistory.showHistory(createUssNode());
+        expect(api.putContents).not.toHaveBeenCalled();
+    });
+});
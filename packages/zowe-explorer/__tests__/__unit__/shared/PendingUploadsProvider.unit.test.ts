@@ -0,0 +1,76 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import { Gui } from "@zowe/zowe-explorer-api";
+import { PendingUpload, ZoweSaveQueue } from "../../../src/abstract/ZoweSaveQueue";
+import { PendingUploadNode, PendingUploadsProvider } from "../../../src/shared/PendingUploadsProvider";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+
+describe("PendingUploadsProvider Unit Tests", () => {
+    const upload: PendingUpload = {
+        fileName: "/tmp/zowe/_D_/sestest/TEST.PS",
+        uri: "file:///tmp/zowe/_D_/sestest/TEST.PS",
+        content: "saved contents",
+        baseContent: "downloaded contents",
+        queuedAt: 0,
+        attempts: 1,
+        status: "failed",
+        lastError: "socket hang up",
+    };
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(vscode.commands, "executeCommand", { value: jest.fn(), configurable: true });
+        jest.spyOn(ZoweSaveQueue, "getPendingUploads").mockReturnValue([upload]);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("lists the pending uploads with their status", () => {
+        const provider = new PendingUploadsProvider();
+        const [node] = provider.getChildren();
+        expect(node.label).toBe("TEST.PS");
+        expect(node.description).toBe("Failed");
+        expect(node.tooltip).toBe(`${upload.fileName}\nsocket hang up`);
+        expect(node.contextValue).toBe("pendingUpload");
+    });
+
+    it("provides the downloaded and the saved contents for the diff", async () => {
+        const provider = new PendingUploadsProvider();
+        expect(provider.provideTextDocumentContent(PendingUploadsProvider.buildUri(upload, "base"))).toBe("downloaded contents");
+        expect(provider.provideTextDocumentContent(PendingUploadsProvider.buildUri(upload, "pending"))).toBe("saved contents");
+
+        await provider.showDiff(new PendingUploadNode(upload));
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+            "vscode.diff",
+            PendingUploadsProvider.buildUri(upload, "base"),
+            PendingUploadsProvider.buildUri(upload, "pending"),
+            "TEST.PS (Downloaded) ↔ TEST.PS (Pending Upload)",
+            { preview: true }
+        );
+    });
+
+    it("discards a pending upload only after confirmation", async () => {
+        const provider = new PendingUploadsProvider();
+        const discardSpy = jest.spyOn(ZoweSaveQueue, "discard").mockImplementation();
+        const warningMessageSpy = jest.spyOn(Gui, "warningMessage").mockResolvedValueOnce(undefined).mockResolvedValueOnce("Discard");
+
+        await provider.discard(new PendingUploadNode(upload));
+        expect(discardSpy).not.toHaveBeenCalled();
+
+        await provider.discard(new PendingUploadNode(upload));
+        expect(warningMessageSpy).toHaveBeenCalledTimes(2);
+        expect(discardSpy).toHaveBeenCalledWith(upload.fileName);
+    });
+});
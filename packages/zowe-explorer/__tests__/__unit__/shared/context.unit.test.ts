@@ -128,6 +128,18 @@ describe("Context helper tests", () => {
             }
         }
     });
+    it("Test USS symbolic link", () => {
+        for (const ctx of [globals.USS_SYMLINK_CONTEXT, USS_DIR_CONTEXT + globals.SYMLINK_SUFFIX, DS_TEXT_FILE_CONTEXT + globals.SYMLINK_SUFFIX]) {
+            treeItem.contextValue = ctx;
+            expect(contextually.isUssSymlink(treeItem)).toBe(true);
+        }
+        for (const ctx of testList) {
+            treeItem.contextValue = ctx;
+            expect(contextually.isUssSymlink(treeItem)).toBe(false);
+        }
+        treeItem.contextValue = USS_DIR_CONTEXT + globals.SYMLINK_SUFFIX;
+        expect(contextually.isUssDirectory(treeItem)).toBe(true);
+    });
     it("Test is dataset", async () => {
         for (const ctx of testList) {
             treeItem.contextValue = ctx;
@@ -25,6 +25,8 @@ import { saveFile } from "../../../src/dataset/actions";
 import { saveUSSFile } from "../../../src/uss/actions";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
 import { ZoweSaveQueue } from "../../../src/abstract/ZoweSaveQueue";
+import { PendingUploadsProvider } from "../../../src/shared/PendingUploadsProvider";
+import { OfflineCache } from "../../../src/utils/OfflineCache";
 
 describe("Test src/shared/extension", () => {
     describe("registerCommonCommands", () => {
@@ -127,6 +129,10 @@ describe("Test src/shared/extension", () => {
                 name: "zowe.searchInAllLoadedItems",
                 mock: [{ spy: jest.spyOn(sharedActions, "searchInAllLoadedItems"), arg: ["ds", "uss"] }],
             },
+            {
+                name: "zowe.clearOfflineCache",
+                mock: [{ spy: jest.spyOn(OfflineCache, "clear"), arg: [] }],
+            },
             {
                 name: "onDidSaveTextDocument:1",
                 parm: [{ isDirty: false, fileName: "_", uri: vscode.Uri.parse("") }],
@@ -169,6 +175,31 @@ describe("Test src/shared/extension", () => {
                 parm: [{ isDirty: true, fileName: "NOT_DATASET" }],
                 mock: [],
             },
+            {
+                name: "zowe.pendingUploads.retry",
+                parm: [{ upload: { fileName: "DS_DIR/file.txt" } }],
+                mock: [
+                    {
+                        spy: jest.spyOn(ZoweSaveQueue, "restoreDocument"),
+                        arg: [{ fileName: "DS_DIR/file.txt" }],
+                        ret: { fileName: "DS_DIR/file.txt" },
+                    },
+                    {
+                        spy: jest.spyOn(ZoweSaveQueue, "push"),
+                        arg: [{ fileProvider: "ds", savedFile: { fileName: "DS_DIR/file.txt" }, uploadRequest: saveFile }],
+                    },
+                ],
+            },
+            {
+                name: "zowe.pendingUploads.discard",
+                parm: [{ upload: { fileName: "DS_DIR/file.txt" } }],
+                mock: [{ spy: jest.spyOn(PendingUploadsProvider.prototype, "discard"), arg: [{ upload: { fileName: "DS_DIR/file.txt" } }] }],
+            },
+            {
+                name: "zowe.pendingUploads.diff",
+                parm: [{ upload: { fileName: "DS_DIR/file.txt" } }],
+                mock: [{ spy: jest.spyOn(PendingUploadsProvider.prototype, "showDiff"), arg: [{ upload: { fileName: "DS_DIR/file.txt" } }] }],
+            },
             {
                 name: "zowe.ds.deleteProfile",
                 mock: [{ spy: jest.spyOn(Profiles, "getInstance"), arg: [], ret: { deleteProfile: jest.fn() } }],
@@ -0,0 +1,118 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as fs from "fs";
+import * as merge from "../../../src/shared/merge";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+
+jest.mock("fs");
+
+const labels: merge.IMergeLabels = { local: "Local", base: "Base", remote: "Remote" };
+
+describe("Shared merge unit tests - function mergeContents", () => {
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "debug", { value: jest.fn(), configurable: true });
+    });
+
+    it("applies changes made on different lines of each side", () => {
+        const base = ["line 1", "line 2", "line 3", "line 4"].join("\n");
+        const local = ["line 1 local", "line 2", "line 3", "line 4"].join("\n");
+        const remote = ["line 1", "line 2", "line 3", "line 4 remote", "line 5"].join("\n");
+
+        const result = merge.mergeContents(base, local, remote, labels);
+        expect(result.conflicts).toBe(0);
+        expect(result.content).toBe(["line 1 local", "line 2", "line 3", "line 4 remote", "line 5"].join("\n"));
+    });
+
+    it("keeps identical changes made on both sides once", () => {
+        const base = ["a", "b", "c"].join("\n");
+        const changed = ["a", "B", "c"].join("\n");
+
+        const result = merge.mergeContents(base, changed, changed, labels);
+        expect(result).toEqual({ content: changed, conflicts: 0 });
+    });
+
+    it("marks overlapping changes as a conflict with the base version", () => {
+        const base = ["a", "b", "c"].join("\n");
+        const local = ["a", "local b", "c"].join("\n");
+        const remote = ["a", "remote b", "c"].join("\n");
+
+        const result = merge.mergeContents(base, local, remote, labels);
+        expect(result.conflicts).toBe(1);
+        expect(result.content).toBe(["a", "<<<<<<< Local", "local b", "||||||| Base", "b", "=======", "remote b", ">>>>>>> Remote", "c"].join("\n"));
+        expect(merge.hasConflictMarkers(result.content)).toBe(true);
+    });
+
+    it("marks every difference as a conflict when the base version is unknown", () => {
+        const local = ["a", "local", "c", "d"].join("\r\n");
+        const remote = ["a", "c", "d", "remote"].join("\r\n");
+
+        const result = merge.mergeContents(undefined, local, remote, labels);
+        expect(result.conflicts).toBe(2);
+        expect(result.content).toBe(
+            ["a", "<<<<<<< Local", "local", "=======", ">>>>>>> Remote", "c", "d", "<<<<<<< Local", "=======", "remote", ">>>>>>> Remote"].join(
+                "\r\n"
+            )
+        );
+    });
+
+    it("merges texts with many differences as a whole", () => {
+        const base = Array.from({ length: 3000 }, (_value, index) => `line ${index}`);
+        const local = base.map((line, index) => (index % 2 === 0 ? `${line} local` : line));
+        const remote = [...base.slice(0, 2999), "line 2999 remote"];
+
+        const result = merge.mergeContents(base.join("\n"), local.join("\n"), remote.join("\n"), labels);
+        expect(result.conflicts).toBe(1);
+        expect(result.content.split("\n").slice(0, 3)).toEqual(["<<<<<<< Local", "line 0 local", "line 1"]);
+        expect(ZoweLogger.debug).toHaveBeenCalledWith("Texts differ by more than 1000 edits, they are merged as a whole.");
+    });
+
+    it("merges changes far apart in a long text", () => {
+        const base = Array.from({ length: 500 }, (_value, index) => `line ${index}`);
+        const local = [...base.slice(0, 100), "inserted", ...base.slice(100, 400), ...base.slice(401)];
+        const remote = base.map((line, index) => (index % 50 === 25 ? `${line} remote` : line));
+
+        const result = merge.mergeContents(base.join("\n"), local.join("\n"), remote.join("\n"), labels);
+        expect(result.conflicts).toBe(0);
+        const expected = remote.slice(0, 100).concat("inserted", remote.slice(100, 400), remote.slice(401));
+        expect(result.content).toBe(expected.join("\n"));
+    });
+});
+
+describe("Shared merge unit tests - base contents", () => {
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "warn", { value: jest.fn(), configurable: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("reads the downloaded file when no content is given", () => {
+        jest.spyOn(fs, "readFileSync").mockReturnValueOnce(Buffer.from("downloaded"));
+
+        merge.setBaseContent("/temp/_D_/sestest/HLQ.PS");
+        expect(merge.getBaseContent("/temp/_D_/sestest/HLQ.PS")).toBe("downloaded");
+    });
+
+    it("forgets the base version when the downloaded file cannot be read", () => {
+        merge.setBaseContent("/temp/_D_/sestest/HLQ.OTHER", "saved");
+        jest.spyOn(fs, "readFileSync").mockImplementationOnce(() => {
+            throw new Error("ENOENT");
+        });
+
+        merge.setBaseContent("/temp/_D_/sestest/HLQ.OTHER");
+        expect(merge.getBaseContent("/temp/_D_/sestest/HLQ.OTHER")).toBeUndefined();
+        expect(ZoweLogger.warn).toHaveBeenCalled();
+    });
+});
@@ -14,6 +14,7 @@ import * as globals from "../../../src/globals";
 import { imperative } from "@zowe/cli";
 import { ZoweDatasetNode } from "../../../src/dataset/ZoweDatasetNode";
 import * as vscode from "vscode";
+import * as fs from "fs";
 import * as path from "path";
 import {
     createIProfile,
@@ -29,10 +30,14 @@ import { Job } from "../../../src/job/ZoweJobNode";
 import { ZoweExplorerApiRegister } from "../../../src/ZoweExplorerApiRegister";
 import { Profiles } from "../../../src/Profiles";
 import * as utils from "../../../src/utils/ProfilesUtils";
+import * as context from "../../../src/shared/context";
+import * as wsUtils from "../../../src/utils/workspace";
+import * as merge from "../../../src/shared/merge";
 import { ProfilesCache } from "@zowe/zowe-explorer-api";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
 
 jest.mock("path");
+jest.mock("fs");
 
 async function createGlobalMocks() {
     const newMocks = {
@@ -224,6 +229,35 @@ describe("Test uploadContents", () => {
         expect(ZoweExplorerApiRegister.getUssApi(null).putContent).toBeCalled();
     });
 
+    it("should test with uss node that the contents are uploaded in the codeset of the file tag", async () => {
+        const putContent = jest.fn();
+        ZoweExplorerApiRegister.getUssApi = jest.fn<any, Parameters<typeof ZoweExplorerApiRegister.getUssApi>>(
+            (profile: imperative.IProfileLoaded) => {
+                return {
+                    putContent,
+                };
+            }
+        );
+
+        await sharedUtils.uploadContent(
+            new ZoweUSSNode(null, null, null, null, null),
+            {
+                fileName: "whatever",
+            } as any,
+            "/u/myuser/file",
+            {
+                profile: {
+                    encoding: 123,
+                },
+            } as any,
+            false,
+            null,
+            true,
+            "IBM-037"
+        );
+        expect(putContent).toBeCalledWith("whatever", "/u/myuser/file", expect.objectContaining({ encoding: "IBM-037" }));
+    });
+
     it("should test with uss node that old API method is called", async () => {
         const putContents = jest.fn();
         ZoweExplorerApiRegister.getUssApi = jest.fn<any, Parameters<typeof ZoweExplorerApiRegister.getUssApi>>(
@@ -370,6 +404,84 @@ describe("Test force upload", () => {
     });
 });
 
+describe("Test merge conflict resolution", () => {
+    function createBlockMocks() {
+        const profile = createIProfile();
+        const newVariables = {
+            profile,
+            dsNode: new ZoweDatasetNode("HLQ.PS", vscode.TreeItemCollapsibleState.None, null, null, undefined, undefined, profile),
+            mockDoc: createTextDocument("/temp/_D_/sestest/HLQ.PS"),
+            getContents: jest.fn().mockResolvedValue(createFileResponse({ etag: "remote" })),
+            putContents: jest.fn().mockResolvedValue(createFileResponse([{ etag: "merged" }])),
+            showWarningMessage: jest.fn(),
+            showErrorMessage: jest.fn(),
+            executeCommand: jest.fn(),
+        };
+
+        Object.defineProperty(ZoweLogger, "warn", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweExplorerApiRegister, "getMvsApi", {
+            value: jest.fn().mockReturnValue({ getContents: newVariables.getContents, putContents: newVariables.putContents }),
+            configurable: true,
+        });
+        Object.defineProperty(context, "isTypeUssTreeNode", { value: jest.fn().mockReturnValue(false), configurable: true });
+        Object.defineProperty(wsUtils, "markDocumentUnsaved", { value: jest.fn(), configurable: true });
+        Object.defineProperty(vscode.window, "showWarningMessage", { value: newVariables.showWarningMessage, configurable: true });
+        Object.defineProperty(vscode.window, "showErrorMessage", { value: newVariables.showErrorMessage, configurable: true });
+        Object.defineProperty(vscode.window, "withProgress", { value: jest.fn((_options, task) => task()), configurable: true });
+        Object.defineProperty(vscode.window, "showTextDocument", { value: jest.fn(), configurable: true });
+        Object.defineProperty(vscode.commands, "executeCommand", { value: newVariables.executeCommand, configurable: true });
+        jest.spyOn(fs, "readFileSync").mockReturnValue("remote line");
+        jest.spyOn(fs, "writeFileSync").mockImplementation();
+        merge.setBaseContent(newVariables.mockDoc.fileName, "base line");
+
+        return newVariables;
+    }
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("should upload the merged content with the etag of the remote version", async () => {
+        const blockMocks = createBlockMocks();
+        const getText = blockMocks.mockDoc.getText as jest.Mock;
+        getText.mockReturnValue("local line");
+        blockMocks.showWarningMessage.mockImplementationOnce(async () => {
+            getText.mockReturnValue("resolved line");
+            return "Upload";
+        });
+        const reverted = new Promise((resolve) => blockMocks.executeCommand.mockImplementation(resolve));
+
+        await sharedUtils.compareFileContent(blockMocks.mockDoc, blockMocks.dsNode, "HLQ.PS");
+        await reverted;
+
+        expect(blockMocks.showWarningMessage.mock.calls[0][0]).toBe(
+            "HLQ.PS has changed on the mainframe. Resolve the 1 conflict(s) with your changes, then select Upload."
+        );
+        expect(fs.writeFileSync).toBeCalledWith(blockMocks.mockDoc.fileName, "resolved line");
+        expect(blockMocks.putContents).toBeCalledWith(
+            blockMocks.mockDoc.fileName,
+            "HLQ.PS",
+            expect.objectContaining({ etag: "remote", returnEtag: true })
+        );
+        expect(blockMocks.dsNode.getEtag()).toBe("merged");
+        expect(merge.getBaseContent(blockMocks.mockDoc.fileName)).toBe("resolved line");
+        expect(blockMocks.executeCommand).toBeCalledWith("workbench.action.files.revert");
+    });
+
+    it("should not upload the merged content while conflicts remain", async () => {
+        const blockMocks = createBlockMocks();
+        (blockMocks.mockDoc.getText as jest.Mock).mockReturnValue("local line\n<<<<<<< Local changes");
+        blockMocks.showWarningMessage.mockResolvedValueOnce("Upload");
+        const errorShown = new Promise((resolve) => blockMocks.showErrorMessage.mockImplementation(resolve));
+
+        await sharedUtils.compareFileContent(blockMocks.mockDoc, blockMocks.dsNode, "HLQ.PS");
+        await errorShown;
+
+        expect(blockMocks.showErrorMessage.mock.calls[0][0]).toBe("Resolve all conflicts in HLQ.PS before uploading it.");
+        expect(blockMocks.putContents).not.toBeCalled();
+    });
+});
+
 describe("Shared Utils Unit Tests - Function filterTreeByString", () => {
     it("Testing that filterTreeByString returns the correct array", async () => {
         const qpItems = [
@@ -562,3 +674,39 @@ describe("Shared utils unit tests - function sortTreeItems", () => {
         ]);
     });
 });
+
+describe("Shared utils unit tests - function getDroppedFiles", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("returns the local files of the dropped uri list", async () => {
+        jest.spyOn(vscode.Uri, "parse").mockImplementation((value: string) => {
+            const [scheme, filePath] = value.split("://");
+            return { scheme, fsPath: filePath } as vscode.Uri;
+        });
+        jest.spyOn(fs, "existsSync").mockImplementation((filePath: string) => filePath !== "/local/missing.txt");
+        jest.spyOn(fs, "statSync").mockImplementation((filePath: string) => ({ isFile: () => filePath !== "/local/folder" } as any));
+        const dataTransfer = new vscode.DataTransfer();
+        dataTransfer.set(
+            globals.URI_LIST_MIME_TYPE,
+            new vscode.DataTransferItem(
+                [
+                    "# comment",
+                    "file:///local/test.txt",
+                    "file:///local/folder",
+                    "file:///local/missing.txt",
+                    "vscode-remote://host/test.txt",
+                    "",
+                ].join("\r\n")
+            )
+        );
+
+        const files = await sharedUtils.getDroppedFiles(dataTransfer);
+        expect(files.map((file) => file.fsPath)).toEqual(["/local/test.txt"]);
+    });
+
+    it("returns no files when nothing was dropped from outside the tree", async () => {
+        expect(await sharedUtils.getDroppedFiles(new vscode.DataTransfer())).toEqual([]);
+    });
+});
@@ -0,0 +1,174 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import { Gui } from "@zowe/zowe-explorer-api";
+import { applyProperties, showPropertiesView } from "../../../src/uss/PropertiesView";
+import { ZoweExplorerApiRegister } from "../../../src/ZoweExplorerApiRegister";
+import { Profiles } from "../../../src/Profiles";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import * as profUtils from "../../../src/utils/ProfilesUtils";
+import * as globals from "../../../src/globals";
+import { createIProfile, createISession } from "../../../__mocks__/mockCreators/shared";
+import { createUSSNode } from "../../../__mocks__/mockCreators/uss";
+
+describe("PropertiesView Unit Tests", () => {
+    function createBlockMocks() {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        const profile = createIProfile();
+        jest.spyOn(Profiles, "getInstance").mockReturnValue({ loadNamedProfile: () => profile } as any);
+        const node = createUSSNode(createISession(), profile);
+        jest.spyOn(node, "getProfile").mockReturnValue(profile);
+        const ussApi = {
+            chmod: jest.fn().mockResolvedValue({ success: true }),
+            chown: jest.fn().mockResolvedValue({ success: true }),
+            chgrp: jest.fn().mockResolvedValue({ success: true }),
+        };
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue(ussApi as any);
+        const errorHandling = jest.spyOn(profUtils, "errorHandling").mockResolvedValue(undefined);
+        const showMessage = jest.spyOn(Gui, "showMessage").mockResolvedValue(undefined);
+        const ussFileProvider = { refreshElement: jest.fn() } as any;
+        const attributes = { mode: "drwxr-x---", user: "USER1", group: "DEV" };
+        return { node, ussApi, errorHandling, showMessage, ussFileProvider, attributes };
+    }
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("applyProperties", () => {
+        it("changes only the permissions, owner and group that differ", async () => {
+            const blockMocks = createBlockMocks();
+
+            const errors = await applyProperties(
+                blockMocks.node,
+                blockMocks.attributes,
+                { mode: "755", owner: "USER1", group: " SYS1 ", recursive: true },
+                blockMocks.ussFileProvider
+            );
+            expect(errors).toEqual({});
+            expect(blockMocks.ussApi.chmod).toHaveBeenCalledWith("/u/myuser/usstest", "0755", true);
+            expect(blockMocks.ussApi.chown).not.toHaveBeenCalled();
+            expect(blockMocks.ussApi.chgrp).toHaveBeenCalledWith("/u/myuser/usstest", "SYS1", true);
+            expect(blockMocks.node.attributes).toEqual({ mode: "drwxr-xr-x", user: "USER1", group: "SYS1" });
+            expect(blockMocks.node.description).toBe("drwxr-xr-x");
+            expect(blockMocks.node.dirty).toBe(true);
+            expect(blockMocks.ussFileProvider.refreshElement).toHaveBeenCalledWith(blockMocks.node);
+            expect(blockMocks.showMessage).toHaveBeenCalledWith("The properties of /u/myuser/usstest were changed.");
+        });
+
+        it("does not change the contents of a file", async () => {
+            const blockMocks = createBlockMocks();
+            blockMocks.node.contextValue = globals.DS_TEXT_FILE_CONTEXT;
+
+            await applyProperties(blockMocks.node, { mode: "-rw-r--r--" }, { mode: "600", recursive: true }, blockMocks.ussFileProvider);
+            expect(blockMocks.ussApi.chmod).toHaveBeenCalledWith("/u/myuser/usstest", "0600", false);
+        });
+
+        it("keeps the setuid, setgid and sticky bits of three octal digits", async () => {
+            const blockMocks = createBlockMocks();
+            const attributes = { mode: "-rwsr-sr-t", user: "USER1" };
+
+            await applyProperties(blockMocks.node, attributes, { mode: "755", owner: "USER2" }, blockMocks.ussFileProvider);
+            expect(blockMocks.ussApi.chmod).not.toHaveBeenCalled();
+            expect(blockMocks.ussApi.chown).toHaveBeenCalledWith("/u/myuser/usstest", "USER2", false);
+
+            await applyProperties(blockMocks.node, attributes, { mode: "750" }, blockMocks.ussFileProvider);
+            expect(blockMocks.ussApi.chmod).toHaveBeenCalledWith("/u/myuser/usstest", "7750", false);
+            expect(attributes.mode).toBe("-rwsr-s--T");
+        });
+
+        it("clears the setuid, setgid and sticky bits with four octal digits", async () => {
+            const blockMocks = createBlockMocks();
+            const attributes = { mode: "-rwsr-sr-t" };
+
+            await applyProperties(blockMocks.node, attributes, { mode: "0755" }, blockMocks.ussFileProvider);
+            expect(blockMocks.ussApi.chmod).toHaveBeenCalledWith("/u/myuser/usstest", "0755", false);
+            expect(attributes.mode).toBe("-rwxr-xr-x");
+        });
+
+        it("returns the error of each invalid value", async () => {
+            const blockMocks = createBlockMocks();
+
+            const errors = await applyProperties(blockMocks.node, blockMocks.attributes, { mode: "9", owner: " " }, blockMocks.ussFileProvider);
+            expect(errors).toEqual({ mode: "Enter three or four octal digits.", owner: "Enter the user ID or UID of the owner." });
+            expect(blockMocks.ussApi.chmod).not.toHaveBeenCalled();
+        });
+
+        it("keeps the changes made before a failure", async () => {
+            const blockMocks = createBlockMocks();
+            blockMocks.ussApi.chown.mockRejectedValue(new Error("not authorized"));
+
+            const errors = await applyProperties(blockMocks.node, blockMocks.attributes, { mode: "700", owner: "USER2" }, blockMocks.ussFileProvider);
+            expect(errors).toEqual({ apply: "The properties could not be changed." });
+            expect(blockMocks.errorHandling).toHaveBeenCalledWith(
+                expect.any(Error),
+                "sestest",
+                "Unable to change the properties of /u/myuser/usstest"
+            );
+            expect(blockMocks.node.attributes).toEqual({ mode: "drwx------", user: "USER1", group: "DEV" });
+            expect(blockMocks.showMessage).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("showPropertiesView", () => {
+        function createPanel() {
+            return {
+                webview: { html: "", cspSource: "vscode-resource:", onDidReceiveMessage: jest.fn(), postMessage: jest.fn() },
+            };
+        }
+
+        it("shows the permissions as a grid of checkboxes and applies the changes", async () => {
+            const blockMocks = createBlockMocks();
+            const panel = createPanel();
+            const createWebviewPanel = jest.spyOn(Gui, "createWebviewPanel").mockReturnValue(panel as any);
+
+            showPropertiesView(blockMocks.node, blockMocks.attributes, blockMocks.ussFileProvider);
+            expect(createWebviewPanel).toHaveBeenCalledWith(
+                expect.objectContaining({ title: "usstest Properties", vscode: { enableScripts: true } })
+            );
+            expect(panel.webview.html).toContain('<input type="checkbox" data-bit="3" aria-label="Group Read" checked>');
+            expect(panel.webview.html).toContain('<input type="checkbox" data-bit="4" aria-label="Group Write">');
+            expect(panel.webview.html).toContain('<output id="mode">0750</output>');
+            expect(panel.webview.html).toContain('<form id="properties" data-special="0">');
+            expect(panel.webview.html).toContain('<input id="recursive" type="checkbox">');
+
+            const onMessage = panel.webview.onDidReceiveMessage.mock.calls[0][0];
+            await onMessage({ command: "apply", values: { mode: "770" } });
+            expect(blockMocks.ussApi.chmod).toHaveBeenCalledWith("/u/myuser/usstest", "0770", false);
+            expect(panel.webview.postMessage).toHaveBeenCalledWith({ command: "validation", errors: {} });
+        });
+
+        it("only shows the attributes when the permissions cannot be changed", () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue({} as any);
+            const panel = createPanel();
+            jest.spyOn(Gui, "createWebviewPanel").mockReturnValue(panel as any);
+
+            showPropertiesView(blockMocks.node, blockMocks.attributes, blockMocks.ussFileProvider);
+            expect(panel.webview.html).toContain("<td>drwxr-x---</td>");
+            expect(panel.webview.html).not.toContain("<form");
+            expect(panel.webview.onDidReceiveMessage).not.toHaveBeenCalled();
+        });
+
+        it("hides the owner and group fields when they cannot be changed", () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue({ chmod: jest.fn() } as any);
+            const panel = createPanel();
+            jest.spyOn(Gui, "createWebviewPanel").mockReturnValue(panel as any);
+
+            showPropertiesView(blockMocks.node, blockMocks.attributes, blockMocks.ussFileProvider);
+            expect(panel.webview.html).toContain("<td>USER1</td>");
+            expect(panel.webview.html).toContain("<td>DEV</td>");
+            expect(panel.webview.html).not.toContain('<input id="owner"');
+            expect(panel.webview.html).not.toContain('<input id="group"');
+        });
+    });
+});
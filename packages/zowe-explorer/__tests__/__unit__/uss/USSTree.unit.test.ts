@@ -32,6 +32,9 @@ import { getIconByNode } from "../../../src/generators/icons";
 import * as workspaceUtils from "../../../src/utils/workspace";
 import { createUssApi, bindUssApi } from "../../../__mocks__/mockCreators/api";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import * as ussActions from "../../../src/uss/actions";
+import * as sharedUtils from "../../../src/shared/utils";
+import { UssFileType } from "../../../src/uss/FileStructure";
 
 async function createGlobalMocks() {
     const globalMocks = {
@@ -485,6 +488,94 @@ describe("USSTree Unit Tests - Function USSTree.openItemFromPath()", () => {
     });
 });
 
+describe("USSTree Unit Tests - Functions USSTree.handleDrag() & USSTree.handleDrop()", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("Tests that handleDrag() transfers the dragged files and directories but not the sessions", async () => {
+        const globalMocks = await createGlobalMocks();
+        const dataTransfer = new vscode.DataTransfer();
+
+        globalMocks.testTree.handleDrag([globalMocks.testTree.mSessionNodes[1], globalMocks.testUSSNode], dataTransfer);
+        expect(dataTransfer.get(globals.USS_TREE_MIME_TYPE).value).toEqual([globalMocks.testUSSNode]);
+    });
+
+    it("Tests that handleDrop() moves the dropped nodes once the move is confirmed", async () => {
+        const globalMocks = await createGlobalMocks();
+        const file = new ZoweUSSNode("file.txt", vscode.TreeItemCollapsibleState.None, null, globalMocks.testSession, "/u/other", false, "sestest");
+        const dataTransfer = new vscode.DataTransfer();
+        dataTransfer.set(globals.USS_TREE_MIME_TYPE, new vscode.DataTransferItem([file]));
+        const fileTree = { ussPath: "", type: UssFileType.Directory, children: [] };
+        const warningMessage = jest.spyOn(Gui, "warningMessage").mockResolvedValue("Move");
+        jest.spyOn(ussActions, "ussFileStructure").mockResolvedValue(fileTree);
+        const moveUssFiles = jest.spyOn(ussActions, "moveUssFiles").mockResolvedValue(undefined);
+
+        await globalMocks.testTree.handleDrop(globalMocks.testUSSNode, dataTransfer);
+        expect(warningMessage).toHaveBeenCalledWith("Are you sure you want to move the following items to /u/myuser/usstest?\n\n/u/other/file.txt", {
+            items: ["Move"],
+            vsCodeOpts: { modal: true },
+        });
+        expect(moveUssFiles).toHaveBeenCalledWith(globalMocks.testTree, fileTree, globalMocks.testUSSNode);
+    });
+
+    it("Tests that handleDrop() does not move the nodes dropped on favorites or when the move is cancelled", async () => {
+        const globalMocks = await createGlobalMocks();
+        const dataTransfer = new vscode.DataTransfer();
+        dataTransfer.set(globals.USS_TREE_MIME_TYPE, new vscode.DataTransferItem([globalMocks.testUSSNode]));
+        const warningMessage = jest.spyOn(Gui, "warningMessage").mockResolvedValue(undefined);
+        const moveUssFiles = jest.spyOn(ussActions, "moveUssFiles").mockResolvedValue(undefined);
+
+        await globalMocks.testTree.handleDrop(createFavoriteUSSNode(globalMocks.testSession, globalMocks.testProfile), dataTransfer);
+        expect(warningMessage).not.toHaveBeenCalled();
+        await globalMocks.testTree.handleDrop(globalMocks.testTree.mSessionNodes[1], dataTransfer);
+        expect(warningMessage).toHaveBeenCalled();
+        expect(moveUssFiles).not.toHaveBeenCalled();
+    });
+
+    it("Tests that handleDrop() copies the members dropped from the Data Sets tree to the directory", async () => {
+        const globalMocks = await createGlobalMocks();
+        const member = { label: "MEMBER" } as any;
+        const dataTransfer = new vscode.DataTransfer();
+        dataTransfer.set(globals.DS_TREE_MIME_TYPE, new vscode.DataTransferItem([member]));
+        const copyDataSetsToUss = jest.spyOn(ussActions, "copyDataSetsToUss").mockResolvedValue(undefined);
+
+        await globalMocks.testTree.handleDrop(globalMocks.testUSSNode, dataTransfer);
+        expect(copyDataSetsToUss).toHaveBeenCalledWith(globalMocks.testUSSNode, [member], globalMocks.testTree);
+    });
+
+    it("Tests that handleDrop() uploads the local files dropped on a file to its directory", async () => {
+        const globalMocks = await createGlobalMocks();
+        const file = new ZoweUSSNode(
+            "file.txt",
+            vscode.TreeItemCollapsibleState.None,
+            globalMocks.testUSSNode,
+            globalMocks.testSession,
+            null,
+            false,
+            "sestest"
+        );
+        const files = [{ fsPath: "/local/test.txt" } as vscode.Uri];
+        jest.spyOn(sharedUtils, "getDroppedFiles").mockResolvedValue(files);
+        const uploadFiles = jest.spyOn(ussActions, "uploadFiles").mockResolvedValue(undefined);
+
+        await globalMocks.testTree.handleDrop(file, new vscode.DataTransfer());
+        expect(uploadFiles).toHaveBeenCalledWith(globalMocks.testUSSNode, files, globalMocks.testTree);
+    });
+
+    it("Tests that handleDrop() asks for a path when the session has none", async () => {
+        const globalMocks = await createGlobalMocks();
+        const session = createUSSSessionNode(globalMocks.testSession, globalMocks.testProfile);
+        session.fullPath = "";
+        const showMessage = jest.spyOn(Gui, "showMessage").mockResolvedValue(undefined);
+        const uploadFiles = jest.spyOn(ussActions, "uploadFiles").mockResolvedValue(undefined);
+
+        await globalMocks.testTree.handleDrop(session, new vscode.DataTransfer());
+        expect(showMessage).toHaveBeenCalledWith("Search a path in sestest to drop files in it.");
+        expect(uploadFiles).not.toHaveBeenCalled();
+    });
+});
+
 describe("USSTree Unit Tests - Function USSTree.addSession()", () => {
     it("Tests if addSession works properly", async () => {
         const globalMocks = await createGlobalMocks();
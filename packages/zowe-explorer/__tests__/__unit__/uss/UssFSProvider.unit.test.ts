@@ -0,0 +1,232 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as fs from "fs";
+import * as vscode from "vscode";
+import { Gui } from "@zowe/zowe-explorer-api";
+import * as globals from "../../../src/globals";
+import { UssFSProvider } from "../../../src/uss/UssFSProvider";
+import { Profiles } from "../../../src/Profiles";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import { LocalHistory } from "../../../src/shared/LocalHistory";
+import { createIProfile, createInstanceOfProfile } from "../../../__mocks__/mockCreators/shared";
+import { bindUssApi, createUssApi } from "../../../__mocks__/mockCreators/api";
+
+jest.mock("fs");
+
+describe("UssFSProvider Unit Tests", () => {
+    function createBlockMocks() {
+        const profile = createIProfile();
+        const profileInstance = createInstanceOfProfile(profile);
+        const newMocks = {
+            profile,
+            profileInstance,
+            ussApi: createUssApi(profile),
+            provider: new UssFSProvider(),
+            fileUri: UssFSProvider.buildUri(profile.name, "/u/myuser/file.txt"),
+            dirUri: UssFSProvider.buildUri(profile.name, "/u/myuser"),
+        };
+        Object.defineProperty(globals, "ZOWE_TMP_FOLDER", { value: "/tmp/zowe", configurable: true });
+        Object.defineProperty(Profiles, "getInstance", { value: jest.fn().mockReturnValue(profileInstance), configurable: true });
+        bindUssApi(newMocks.ussApi);
+        jest.spyOn(fs, "existsSync").mockReturnValue(true);
+        jest.spyOn(fs, "unlinkSync").mockImplementation();
+        jest.spyOn(fs, "readFileSync").mockReturnValue(Buffer.from("hello world"));
+        jest.spyOn(fs, "writeFileSync").mockImplementation();
+        jest.spyOn(LocalHistory, "saveVersion").mockResolvedValue(undefined);
+        return newMocks;
+    }
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "info", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "warn", { value: jest.fn(), configurable: true });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("buildUri", () => {
+        it("builds the URI of a USS file", () => {
+            const uri = UssFSProvider.buildUri("sestest", "/u/myuser/file.txt");
+            expect(uri.scheme).toBe("zowe-uss");
+            expect(uri.path).toBe("/sestest/u/myuser/file.txt");
+        });
+    });
+
+    describe("stat", () => {
+        it("returns a directory when the listing contains the directory itself", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.ussApi, "fileList").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: {
+                    items: [
+                        { name: ".", mode: "drwxr-xr-x" },
+                        { name: "file.txt", mode: "-rw-r--r--" },
+                    ],
+                },
+            });
+
+            const stat = await blockMocks.provider.stat(blockMocks.dirUri);
+            expect(stat.type).toBe(vscode.FileType.Directory);
+        });
+
+        it("maps a 404 error to FileNotFound", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.ussApi, "fileList").mockRejectedValue({ errorCode: 404 });
+
+            await expect(blockMocks.provider.stat(blockMocks.fileUri)).rejects.toMatchObject({ code: "FileNotFound" });
+        });
+    });
+
+    describe("readDirectory", () => {
+        it("lists the directory without the relative entries", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.ussApi, "fileList").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: {
+                    items: [
+                        { name: ".", mode: "drwxr-xr-x" },
+                        { name: "..", mode: "drwxr-xr-x" },
+                        { name: "folder", mode: "drwxr-xr-x" },
+                        { name: "file.txt", mode: "-rw-r--r--" },
+                    ],
+                },
+            });
+
+            const entries = await blockMocks.provider.readDirectory(blockMocks.dirUri);
+            expect(entries).toEqual([
+                ["folder", vscode.FileType.Directory],
+                ["file.txt", vscode.FileType.File],
+            ]);
+        });
+    });
+
+    describe("readFile and writeFile", () => {
+        it("downloads the file as tagged and uploads it back with the returned etag", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.ussApi, "getTag").mockResolvedValue({ type: "binary" });
+            const getContentsSpy = jest.spyOn(blockMocks.ussApi, "getContents").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: { etag: "123" },
+            });
+            const putContentSpy = jest.spyOn(blockMocks.ussApi, "putContent").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: { etag: "456" },
+            });
+
+            const contents = await blockMocks.provider.readFile(blockMocks.fileUri);
+            expect(contents.toString()).toBe("hello world");
+            expect(getContentsSpy).toHaveBeenCalledWith("/u/myuser/file.txt", expect.objectContaining({ binary: true, returnEtag: true }));
+
+            await blockMocks.provider.writeFile(blockMocks.fileUri, Buffer.from("new contents"), { create: false, overwrite: true });
+            expect(putContentSpy).toHaveBeenCalledWith(
+                expect.any(String),
+                "/u/myuser/file.txt",
+                expect.objectContaining({ binary: true, etag: "123", returnEtag: true })
+            );
+            expect(blockMocks.provider.getEtag(blockMocks.fileUri)).toBe("456");
+            expect(fs.unlinkSync).toHaveBeenCalledTimes(2);
+            expect(LocalHistory.saveVersion).toHaveBeenCalledWith(blockMocks.profile, "/u/myuser/file.txt", undefined, true);
+        });
+
+        it("transfers the file in the codeset of its tag", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.ussApi, "getTag").mockResolvedValue({ type: "text", codeset: "IBM-037" });
+            const getContentsSpy = jest.spyOn(blockMocks.ussApi, "getContents").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: { etag: "123" },
+            });
+            const putContentSpy = jest.spyOn(blockMocks.ussApi, "putContent").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: { etag: "456" },
+            });
+
+            await blockMocks.provider.readFile(blockMocks.fileUri);
+            expect(getContentsSpy).toHaveBeenCalledWith("/u/myuser/file.txt", expect.objectContaining({ binary: false, encoding: "IBM-037" }));
+
+            await blockMocks.provider.writeFile(blockMocks.fileUri, Buffer.from("new contents"), { create: false, overwrite: true });
+            expect(putContentSpy).toHaveBeenCalledWith(
+                expect.any(String),
+                "/u/myuser/file.txt",
+                expect.objectContaining({ binary: false, encoding: "IBM-037" })
+            );
+        });
+
+        it("merges the remote changes in the codeset of the file when the etag does not match", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.ussApi, "getTag").mockResolvedValue({ type: "text", codeset: "IBM-037" });
+            jest.spyOn(fs, "readFileSync")
+                .mockReturnValueOnce(Buffer.from("line1\nline2\nline3\n"))
+                .mockReturnValueOnce(Buffer.from("line1\nline2\nremote3\n"));
+            const getContentsSpy = jest
+                .spyOn(blockMocks.ussApi, "getContents")
+                .mockResolvedValueOnce({ success: true, commandResponse: "", apiResponse: { etag: "123" } })
+                .mockResolvedValueOnce({ success: true, commandResponse: "", apiResponse: { etag: "456" } });
+            const putContentSpy = jest
+                .spyOn(blockMocks.ussApi, "putContent")
+                .mockRejectedValueOnce(new Error("Rest API failure with HTTP(S) status 412"))
+                .mockResolvedValueOnce({ success: true, commandResponse: "", apiResponse: { etag: "789" } });
+            jest.spyOn(Gui, "showMessage").mockImplementation();
+
+            await blockMocks.provider.readFile(blockMocks.fileUri);
+            await blockMocks.provider.writeFile(blockMocks.fileUri, Buffer.from("local1\nline2\nline3\n"), { create: false, overwrite: true });
+            expect(getContentsSpy).toHaveBeenLastCalledWith("/u/myuser/file.txt", expect.objectContaining({ binary: false, encoding: "IBM-037" }));
+            expect(putContentSpy).toHaveBeenLastCalledWith(expect.any(String), "/u/myuser/file.txt", expect.objectContaining({ etag: "456" }));
+            expect((fs.writeFileSync as jest.Mock).mock.calls[1][1].toString()).toBe("local1\nline2\nremote3\n");
+            expect(blockMocks.provider.getEtag(blockMocks.fileUri)).toBe("789");
+        });
+
+        it("does not merge binary files when the etag does not match", async () => {
+            const blockMocks = createBlockMocks();
+            jest.spyOn(blockMocks.ussApi, "getTag").mockResolvedValue({ type: "binary" });
+            jest.spyOn(blockMocks.ussApi, "getContents").mockResolvedValue({ success: true, commandResponse: "", apiResponse: { etag: "123" } });
+            const putContentSpy = jest
+                .spyOn(blockMocks.ussApi, "putContent")
+                .mockRejectedValue(new Error("Rest API failure with HTTP(S) status 412"));
+
+            await blockMocks.provider.readFile(blockMocks.fileUri);
+            await expect(
+                blockMocks.provider.writeFile(blockMocks.fileUri, Buffer.from("new contents"), { create: false, overwrite: true })
+            ).rejects.toThrow("/sestest/u/myuser/file.txt has changed on the mainframe. Reopen it to see the remote version.");
+            expect(putContentSpy).toHaveBeenCalledTimes(1);
+        });
+
+        it("refuses to write a file that does not exist without the create option", async () => {
+            const blockMocks = createBlockMocks();
+
+            await expect(
+                blockMocks.provider.writeFile(blockMocks.fileUri, Buffer.from("new contents"), { create: false, overwrite: true })
+            ).rejects.toMatchObject({ code: "FileNotFound" });
+        });
+    });
+
+    describe("delete", () => {
+        it("deletes the directory recursively", async () => {
+            const blockMocks = createBlockMocks();
+            const deleteSpy = jest.spyOn(blockMocks.ussApi, "delete").mockResolvedValue({
+                success: true,
+                commandResponse: "",
+                apiResponse: {},
+            });
+
+            await blockMocks.provider.delete(blockMocks.dirUri, { recursive: true });
+            expect(deleteSpy).toHaveBeenCalledWith("/u/myuser", true);
+        });
+    });
+});
@@ -32,6 +32,7 @@ import * as workspaceUtils from "../../../src/utils/workspace";
 import * as globals from "../../../src/globals";
 import * as ussUtils from "../../../src/uss/utils";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import { SettingsConfig } from "../../../src/utils/SettingsConfig";
 jest.mock("fs");
 jest.mock("path");
 
@@ -56,6 +57,7 @@ async function createGlobalMocks() {
         mockLoadNamedProfile: jest.fn(),
         showQuickPick: jest.fn(),
         isFileTagBinOrAscii: jest.fn(),
+        putUSSPayload: jest.fn().mockResolvedValue(Buffer.from(JSON.stringify({ stdout: ["- untagged    T=off /u/myuser/file"] }))),
         existsSync: jest.fn(),
         Delete: jest.fn(),
         Utilities: jest.fn(),
@@ -107,6 +109,7 @@ async function createGlobalMocks() {
         value: globalMocks.getConfiguration,
         configurable: true,
     });
+    Object.defineProperty(SettingsConfig, "getDirectValue", { value: jest.fn(), configurable: true });
     Object.defineProperty(vscode.commands, "executeCommand", {
         value: globalMocks.mockExecuteCommand,
         configurable: true,
@@ -359,6 +362,7 @@ describe("ZoweUSSNode Unit Tests - Function node.refreshUSS()", () => {
 
         Object.defineProperty(newMocks.node, "isDirtyInEditor", { get: globalMocks.mockIsDirtyInEditor });
         Object.defineProperty(newMocks.node, "openedDocumentInstance", { get: globalMocks.openedDocumentInstance });
+        Object.defineProperty(globalMocks.Utilities, "putUSSPayload", { value: globalMocks.putUSSPayload, configurable: true });
 
         return newMocks;
     }
@@ -837,6 +841,97 @@ describe("ZoweUSSNode Unit Tests - Function node.getChildren()", () => {
         expect(rootChildren[1].label).toBe("myFile.txt");
     });
 
+    it("Tests that node.getChildren() shows the permissions, owner and group of the children", async () => {
+        const globalMocks = await createGlobalMocks();
+        const blockMocks = await createBlockMocks(globalMocks);
+        blockMocks.rootNode.contextValue = globals.USS_DIR_CONTEXT;
+        blockMocks.rootNode.fullPath = "/u";
+        blockMocks.rootNode.dirty = true;
+
+        const [dirNode, fileNode] = (await blockMocks.rootNode.getChildren()) as ZoweUSSNode[];
+        expect(dirNode.attributes).toEqual({ mode: "drw-r--r--", user: "WSADMIN", group: "OMVSGRP" });
+        expect(dirNode.description).toBe("drw-r--r--");
+        expect(fileNode.tooltip).toBe("/u/myFile.txt\nPermissions: -rw-r--r-- (0644)\nOwner: WSADMIN\nGroup: OMVSGRP");
+    });
+
+    describe("symbolic links", () => {
+        const listings: Record<string, Record<string, unknown>[]> = {
+            "/u/user": [
+                { name: "bin", mode: "lrwxrwxrwx", target: "/usr/lpp/bin" },
+                { name: "profile", mode: "lrwxrwxrwx", target: "../shared/.profile" },
+                { name: "parent", mode: "lrwxrwxrwx", target: ".." },
+                { name: "gone", mode: "lrwxrwxrwx", target: "missing" },
+                { name: "self", mode: "lrwxrwxrwx", target: "self" },
+            ],
+            "/usr/lpp": [{ name: "bin", mode: "drwxr-xr-x" }],
+            "/u/shared": [{ name: ".profile", mode: "-rw-r--r--" }],
+            "/": [{ name: "u", mode: "drwxr-xr-x" }],
+        };
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        async function getSymlinkNodes(globalMocks): Promise<Record<string, ZoweUSSNode>> {
+            Object.defineProperty(path, "posix", { value: jest.requireActual("path").posix, configurable: true });
+            const fileList = jest
+                .spyOn(globalMocks.ussApi, "fileList")
+                .mockImplementation((ussPath: string) => Promise.resolve({ success: true, apiResponse: { items: listings[ussPath] ?? [] } } as any));
+            const node = new ZoweUSSNode("user", vscode.TreeItemCollapsibleState.Collapsed, null, globalMocks.session, "/u", false, "sestest");
+            const children = (await node.getChildren()) as ZoweUSSNode[];
+            // Each directory of a target is listed once
+            expect(fileList).toHaveBeenCalledTimes(Object.keys(listings).length);
+            return children.reduce((nodes, child) => ({ ...nodes, [child.label as string]: child }), {} as Record<string, ZoweUSSNode>);
+        }
+
+        it("shows links to directories and files like them, with their targets", async () => {
+            const globalMocks = await createGlobalMocks();
+            const nodes = await getSymlinkNodes(globalMocks);
+
+            expect(nodes.bin.collapsibleState).toBe(vscode.TreeItemCollapsibleState.Collapsed);
+            expect(nodes.bin.contextValue).toBe(globals.USS_DIR_CONTEXT + globals.SYMLINK_SUFFIX);
+            expect(nodes.bin.description).toBe("→ /usr/lpp/bin");
+            expect(nodes.bin.getRealPath()).toBe("/usr/lpp/bin");
+            expect(nodes.profile.collapsibleState).toBe(vscode.TreeItemCollapsibleState.None);
+            expect(nodes.profile.contextValue).toBe(globals.DS_TEXT_FILE_CONTEXT + globals.SYMLINK_SUFFIX);
+            expect(nodes.profile.command.command).toBe("zowe.uss.ZoweUSSNode.open");
+            expect(nodes.profile.tooltip).toBe("/u/user/profile\nTarget: /u/shared/.profile\nPermissions: lrwxrwxrwx (0777)");
+            expect(nodes.profile.iconPath).toEqual(expect.objectContaining({ dark: expect.stringContaining("link.svg") }));
+
+            nodes.profile.setBinary(true);
+            expect(nodes.profile.contextValue).toBe(globals.DS_BINARY_FILE_CONTEXT + globals.SYMLINK_SUFFIX);
+        });
+
+        it("does not expand the links to a parent directory, the broken links and the chains that are too long", async () => {
+            const globalMocks = await createGlobalMocks();
+            const nodes = await getSymlinkNodes(globalMocks);
+
+            for (const name of ["parent", "gone", "self"]) {
+                expect(nodes[name].collapsibleState).toBe(vscode.TreeItemCollapsibleState.None);
+                expect(nodes[name].contextValue).toBe(globals.USS_SYMLINK_CONTEXT);
+                expect(nodes[name].command).toBeUndefined();
+            }
+            expect(nodes.parent.description).toBe("→ .. (loop)");
+            expect(nodes.gone.description).toBe("→ missing (broken)");
+            expect(nodes.self.description).toBe("→ self (loop)");
+        });
+
+        it("does not follow the links when they are not followed", async () => {
+            const globalMocks = await createGlobalMocks();
+            jest.spyOn(SettingsConfig, "getDirectValue").mockReturnValue(false);
+            Object.defineProperty(path, "posix", { value: jest.requireActual("path").posix, configurable: true });
+            const fileList = jest
+                .spyOn(globalMocks.ussApi, "fileList")
+                .mockResolvedValue({ success: true, apiResponse: { items: listings["/u/user"] } } as any);
+            const node = new ZoweUSSNode("user", vscode.TreeItemCollapsibleState.Collapsed, null, globalMocks.session, "/u", false, "sestest");
+
+            const children = (await node.getChildren()) as ZoweUSSNode[];
+            expect(fileList).toHaveBeenCalledTimes(1);
+            expect(children.map((child) => child.contextValue)).toEqual(Array(5).fill(globals.USS_SYMLINK_CONTEXT));
+            expect(children[0].symlink).toEqual({ target: "/usr/lpp/bin", path: "/usr/lpp/bin" });
+        });
+    });
+
     it("Tests that node.getChildren() returns no children if none exist", async () => {
         const globalMocks = await createGlobalMocks();
         const blockMocks = await createBlockMocks(globalMocks);
@@ -1056,6 +1151,7 @@ describe("ZoweUSSNode Unit Tests - Function node.openUSS()", () => {
         getUssApiMock.mockReturnValue(mockUssApi);
         ZoweExplorerApiRegister.getUssApi = getUssApiMock.bind(ZoweExplorerApiRegister);
         jest.spyOn(mockUssApi, "isFileTagBinOrAscii").mockResolvedValueOnce(true);
+        Object.defineProperty(globalMocks.Utilities, "putUSSPayload", { value: globalMocks.putUSSPayload, configurable: true });
 
         return newMocks;
     }
@@ -1092,6 +1188,28 @@ describe("ZoweUSSNode Unit Tests - Function node.openUSS()", () => {
         expect(globalMocks.mockShowTextDocument.mock.calls[0][0]).toStrictEqual("test.doc");
     });
 
+    it("Tests that node.openUSS() opens the file through the virtual file system when enabled", async () => {
+        const globalMocks = await createGlobalMocks();
+        const blockMocks = await createBlockMocks(globalMocks);
+        jest.spyOn(SettingsConfig, "getDirectValue").mockReturnValueOnce(true);
+
+        const node = new ZoweUSSNode(
+            "node",
+            vscode.TreeItemCollapsibleState.None,
+            blockMocks.ussNode,
+            globalMocks.session,
+            "/",
+            false,
+            globalMocks.profileOne.name
+        );
+
+        await node.openUSS(false, true, blockMocks.testUSSTree);
+        expect(globalMocks.existsSync).not.toBeCalled();
+        expect(globalMocks.openTextDocument.mock.calls.length).toBe(1);
+        expect(globalMocks.openTextDocument.mock.calls[0][0]).toMatchObject({ scheme: "zowe-uss", path: `/${node.getProfileName()}/node` });
+        expect(globalMocks.mockShowTextDocument.mock.calls[0][0]).toStrictEqual("test.doc");
+    });
+
     it("Tests that node.openUSS() is executed successfully with Unverified profile", async () => {
         const globalMocks = await createGlobalMocks();
         const blockMocks = await createBlockMocks(globalMocks);
@@ -1261,7 +1379,7 @@ describe("ZoweUSSNode Unit Tests - Function node.openUSS()", () => {
         const globalMocks = await createGlobalMocks();
         const blockMocks = await createBlockMocks(globalMocks);
 
-        globalMocks.isFileTagBinOrAscii.mockReturnValue(true);
+        globalMocks.putUSSPayload.mockResolvedValue(Buffer.from(JSON.stringify({ stdout: ["b binary      T=off /u/myuser/file"] })));
         globalMocks.existsSync.mockReturnValue(null);
 
         const node = new ZoweUSSNode(
@@ -1287,6 +1405,30 @@ describe("ZoweUSSNode Unit Tests - Function node.openUSS()", () => {
         expect(globalMocks.mockShowTextDocument.mock.calls[0][0]).toStrictEqual("test.doc");
     });
 
+    it("Tests that node.openUSS() downloads a file in the codeset of its tag", async () => {
+        const globalMocks = await createGlobalMocks();
+        const blockMocks = await createBlockMocks(globalMocks);
+
+        globalMocks.putUSSPayload.mockResolvedValue(Buffer.from(JSON.stringify({ stdout: ["t IBM-037     T=on  /node"] })));
+        globalMocks.existsSync.mockReturnValue(null);
+
+        const node = new ZoweUSSNode(
+            "node",
+            vscode.TreeItemCollapsibleState.None,
+            blockMocks.ussNode,
+            globalMocks.session,
+            "/",
+            false,
+            blockMocks.ussNode.getProfileName()
+        );
+
+        await node.openUSS(false, true, blockMocks.testUSSTree);
+        expect(globalMocks.ussFile).toBeCalledWith(expect.anything(), "/node", expect.objectContaining({ binary: false, encoding: "IBM-037" }));
+        expect(node.encoding).toBe("IBM-037");
+        expect(node.tag).toEqual({ type: "text", codeset: "IBM-037" });
+        expect(node.tooltip).toContain("\nTag: t IBM-037 T=on");
+    });
+
     it("Tests that node.openUSS() fails when passed an invalid node", async () => {
         const globalMocks = await createGlobalMocks();
         const blockMocks = await createBlockMocks(globalMocks);
@@ -1769,3 +1911,87 @@ describe("ZoweUSSNode Unit Tests - Function node.pasteUssTree()", () => {
         await blockMocks.testNode.pasteUssTree();
     });
 });
+
+describe("ZoweUSSNode Unit Tests - USS attributes utilities", () => {
+    it("reads the permissions, owner and group of a listed item", () => {
+        expect(ussUtils.getUssAttributes({ name: "a.txt", mode: "-rwxr-x---", user: "USER1 ", group: "DEV" })).toEqual({
+            mode: "-rwxr-x---",
+            user: "USER1",
+            group: "DEV",
+        });
+        expect(ussUtils.getUssAttributes({ name: "a.txt", mode: "-rw-r--r--" })).toEqual({ mode: "-rw-r--r--" });
+        expect(ussUtils.getUssAttributes({ name: "a.txt" })).toBeUndefined();
+    });
+
+    it("converts a mode to octal and back", () => {
+        expect(ussUtils.modeToOctal("drwxr-x---")).toBe("0750");
+        expect(ussUtils.modeToOctal("-rwsr-xr-T")).toBe("5754");
+        expect(ussUtils.octalToMode("750", "d")).toBe("drwxr-x---");
+        expect(ussUtils.octalToMode("644")).toBe("-rw-r--r--");
+        expect(ussUtils.octalToMode("007")).toBe("-------rwx");
+    });
+
+    it("converts the setuid, setgid and sticky bits to octal and back", () => {
+        expect(ussUtils.modeToOctal("-rwsr-sr-t")).toBe("7755");
+        expect(ussUtils.octalToMode("7755")).toBe("-rwsr-sr-t");
+        expect(ussUtils.modeToOctal("drwSr-Sr-T")).toBe("7644");
+        expect(ussUtils.octalToMode("7644", "d")).toBe("drwSr-Sr-T");
+        expect(ussUtils.octalToMode("1777", "d")).toBe("drwxrwxrwt");
+        expect(ussUtils.octalToMode(ussUtils.modeToOctal("-rwxr-s---"))).toBe("-rwxr-s---");
+    });
+
+    it("formats a file tag like chtag", () => {
+        expect(ussUtils.formatTag({ type: "text", codeset: "IBM-1047" })).toBe("t IBM-1047 T=on");
+        expect(ussUtils.formatTag({ type: "mixed", codeset: "ISO8859-1" })).toBe("m ISO8859-1 T=off");
+        expect(ussUtils.formatTag({ type: "binary" })).toBe("b binary T=off");
+        expect(ussUtils.formatTag({ type: "untagged" })).toBe("- untagged T=off");
+    });
+
+    describe("getTransferOptions", () => {
+        const profile = createIProfile();
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it("transfers a file in the codeset of its tag", async () => {
+            jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue({
+                getTag: jest.fn().mockResolvedValue({ type: "mixed", codeset: "IBM-037" }),
+            } as any);
+            await expect(ussUtils.getTransferOptions(profile, "/u/myuser/file", false)).resolves.toEqual({
+                binary: false,
+                encoding: "IBM-037",
+                tag: { type: "mixed", codeset: "IBM-037" },
+            });
+        });
+
+        it("does not convert a file tagged with an ASCII codeset", async () => {
+            jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue({
+                getTag: jest.fn().mockResolvedValue({ type: "text", codeset: "ISO8859-1" }),
+            } as any);
+            const transfer = await ussUtils.getTransferOptions(profile, "/u/myuser/file", false);
+            expect(transfer.binary).toBe(true);
+        });
+
+        it("converts an untagged file from the encoding of the profile", async () => {
+            jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue({
+                getTag: jest.fn().mockResolvedValue({ type: "untagged" }),
+            } as any);
+            const transfer = await ussUtils.getTransferOptions({ ...profile, profile: { encoding: "IBM-1147" } }, "/u/myuser/file", false);
+            expect(transfer).toEqual({ binary: false, encoding: "IBM-1147", tag: { type: "untagged" } });
+        });
+
+        it("checks whether the file is binary when its tag cannot be listed", async () => {
+            const isFileTagBinOrAscii = jest.fn().mockResolvedValue(true);
+            jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue({ isFileTagBinOrAscii } as any);
+            await expect(ussUtils.getTransferOptions(profile, "/u/myuser/file", false)).resolves.toEqual({ binary: true, encoding: undefined });
+            expect(isFileTagBinOrAscii).toBeCalledWith("/u/myuser/file");
+        });
+
+        it("does not list the tag of a file marked as binary", async () => {
+            const getUssApi = jest.spyOn(ZoweExplorerApiRegister, "getUssApi");
+            await expect(ussUtils.getTransferOptions(profile, "/u/myuser/file", true)).resolves.toEqual({ binary: true, encoding: undefined });
+            expect(getUssApi).not.toBeCalled();
+        });
+    });
+});
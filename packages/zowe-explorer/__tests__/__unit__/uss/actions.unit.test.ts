@@ -15,7 +15,7 @@ import * as zowe from "@zowe/cli";
 import { Gui, ValidProfileEnum } from "@zowe/zowe-explorer-api";
 import * as ussNodeActions from "../../../src/uss/actions";
 import { UssFileTree, UssFileType, UssFileUtils } from "../../../src/uss/FileStructure";
-import { createUSSTree, createUSSNode, createFavoriteUSSNode } from "../../../__mocks__/mockCreators/uss";
+import { createUSSTree, createUSSNode, createFavoriteUSSNode, createUSSSessionNode } from "../../../__mocks__/mockCreators/uss";
 import {
     createIProfile,
     createISession,
@@ -32,6 +32,8 @@ import * as path from "path";
 import * as globals from "../../../src/globals";
 import * as sharedUtils from "../../../src/shared/utils";
 import { ZoweUSSNode } from "../../../src/uss/ZoweUSSNode";
+import { ZoweDatasetNode } from "../../../src/dataset/ZoweDatasetNode";
+import { createDatasetSessionNode } from "../../../__mocks__/mockCreators/datasets";
 import * as isbinaryfile from "isbinaryfile";
 import * as fs from "fs";
 import { createUssApi, bindUssApi } from "../../../__mocks__/mockCreators/api";
@@ -39,6 +41,11 @@ import * as refreshActions from "../../../src/shared/refresh";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
 import * as wsUtils from "../../../src/utils/workspace";
 import * as context from "../../../src/shared/context";
+import * as merge from "../../../src/shared/merge";
+import { SettingsConfig } from "../../../src/utils/SettingsConfig";
+import { LocalHistory } from "../../../src/shared/LocalHistory";
+import { FolderDownload } from "../../../src/shared/FolderDownload";
+import * as PropertiesView from "../../../src/uss/PropertiesView";
 
 function createGlobalMocks() {
     const globalMocks = {
@@ -68,6 +75,7 @@ function createGlobalMocks() {
         mockLoadNamedProfile: jest.fn(),
         Utilities: jest.fn(),
         isFileTagBinOrAscii: jest.fn(),
+        putUSSPayload: jest.fn().mockResolvedValue(Buffer.from(JSON.stringify({ stdout: ["- untagged    T=off /u/myuser/file"] }))),
         theia: false,
         testSession: createISession(),
         testProfile: createValidIProfile(),
@@ -96,6 +104,7 @@ function createGlobalMocks() {
     Object.defineProperty(globalMocks.Create, "uss", { value: globalMocks.uss, configurable: true });
     Object.defineProperty(vscode.window, "showOpenDialog", { value: globalMocks.showOpenDialog, configurable: true });
     Object.defineProperty(vscode.workspace, "getConfiguration", { value: jest.fn(), configurable: true });
+    Object.defineProperty(SettingsConfig, "getDirectValue", { value: jest.fn(), configurable: true });
     Object.defineProperty(vscode.workspace, "openTextDocument", {
         value: globalMocks.openTextDocument,
         configurable: true,
@@ -120,6 +129,7 @@ function createGlobalMocks() {
         value: globalMocks.isFileTagBinOrAscii,
         configurable: true,
     });
+    Object.defineProperty(globalMocks.Utilities, "putUSSPayload", { value: globalMocks.putUSSPayload, configurable: true });
     Object.defineProperty(vscode.window, "showErrorMessage", {
         value: globalMocks.showErrorMessage,
         configurable: true,
@@ -467,6 +477,20 @@ describe("USS Action Unit Tests - Function saveUSSFile", () => {
         expect(blockMocks.mockGetEtag).toReturnWith("123");
     });
 
+    it("Tests that saveUSSFile keeps the replaced version in the local history", async () => {
+        const globalMocks = createGlobalMocks();
+        const blockMocks = await createBlockMocks(globalMocks);
+
+        globalMocks.concatChildNodes.mockReturnValue([blockMocks.ussNode.children[0]]);
+        globalMocks.withProgress.mockReturnValueOnce({ success: true, commandResponse: "", apiResponse: { etag: "456" } });
+        jest.spyOn(blockMocks.ussNode, "getProfileName").mockReturnValue("usstest");
+        globalMocks.isFileTagBinOrAscii.mockResolvedValueOnce(false);
+        const saveVersionSpy = jest.spyOn(LocalHistory, "saveVersion").mockResolvedValueOnce(undefined);
+
+        await ussNodeActions.saveUSSFile(blockMocks.testDoc, blockMocks.testUSSTree);
+        expect(saveVersionSpy).toBeCalledWith(blockMocks.ussNode.getProfile(), "/u/myuser/testFile", undefined, false);
+    });
+
     it("Tests that saveUSSFile fails when save fails", async () => {
         const globalMocks = createGlobalMocks();
         const blockMocks = await createBlockMocks(globalMocks);
@@ -522,17 +546,18 @@ describe("USS Action Unit Tests - Function saveUSSFile", () => {
             configurable: true,
         });
         const logSpy = jest.spyOn(ZoweLogger, "warn");
-        const commandSpy = jest.spyOn(vscode.commands, "executeCommand");
+        const replaceSpy = jest.spyOn(vscode.WorkspaceEdit.prototype, "replace");
+        blockMocks.testDoc.getText = jest.fn().mockReturnValue("local line");
+        jest.spyOn(fs, "readFileSync").mockReturnValueOnce("remote line");
+        merge.setBaseContent(blockMocks.testDoc.fileName, "local line");
+        globalMocks.showWarningMessage.mockResolvedValueOnce(undefined);
 
-        try {
-            await ussNodeActions.saveUSSFile(blockMocks.testDoc, blockMocks.testUSSTree);
-        } catch (e) {
-            expect(e.message).toBe("vscode.Position is not a constructor");
-        }
+        await ussNodeActions.saveUSSFile(blockMocks.testDoc, blockMocks.testUSSTree);
         expect(logSpy).toBeCalledWith("Remote file has changed. Presenting with way to resolve file.");
-        expect(commandSpy).toBeCalledWith("workbench.files.action.compareWithSaved");
+        expect(replaceSpy).toBeCalledWith(blockMocks.testDoc.uri, expect.anything(), "remote line");
+        expect(globalMocks.showWarningMessage.mock.calls[0][0]).toContain("has changed on the mainframe and the remote changes were merged");
         logSpy.mockClear();
-        commandSpy.mockClear();
+        replaceSpy.mockRestore();
     });
 });
 
@@ -887,6 +912,23 @@ describe("USS Action Unit Tests - copy file / directory", () => {
         expect(sharedUtils.getSelectedNodeList(blockMocks.treeNodes.ussNode, blockMocks.treeNodes.ussNodes)).toEqual([blockMocks.treeNodes.ussNode]);
     });
 
+    it("ignores the sessions cut with the other nodes", async () => {
+        const globalMocks = createGlobalMocks();
+        const blockMocks = await createBlockMocks(globalMocks);
+        const sessionNode = createUSSSessionNode(globalMocks.testSession, globalMocks.testProfile);
+        globalMocks.withProgress.mockImplementation((_location, callback) => callback());
+        globalMocks.writeText.mockClear();
+
+        await ussNodeActions.copyUssFiles(sessionNode, [sessionNode], blockMocks.treeNodes.testUSSTree, true);
+        expect(globalMocks.withProgress).not.toHaveBeenCalled();
+        expect(globalMocks.writeText).not.toHaveBeenCalled();
+
+        await ussNodeActions.copyUssFiles(sessionNode, [sessionNode, blockMocks.nodes[0]], blockMocks.treeNodes.testUSSTree, true);
+        const fileTree = JSON.parse(globalMocks.writeText.mock.calls[0][0]);
+        expect(fileTree.move).toBe(true);
+        expect(fileTree.children.map((child) => child.ussPath)).toEqual(["/u/myuser/testFile"]);
+    });
+
     it("tests pasteUssFile executed successfully with selected nodes", async () => {
         const globalMocks = createGlobalMocks();
         const blockMocks = await createBlockMocks(globalMocks);
@@ -940,3 +982,542 @@ describe("USS Action Unit Tests - function refreshDirectory", () => {
         expect(errorHandlingSpy).toBeCalledTimes(1);
     });
 });
+
+describe("USS Action Unit Tests - function downloadToFolder", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("downloads the files of a directory and its subdirectories", async () => {
+        const globalMocks = createGlobalMocks();
+        const node = createUSSNode(globalMocks.testSession, globalMocks.testProfile);
+        jest.spyOn(node, "getProfile").mockReturnValue(globalMocks.testProfile);
+        jest.spyOn(node, "getSessionNode").mockReturnValue({ binaryFiles: { "/u/myuser/usstest/sub/app.bin": true } } as any);
+        const ussApi = { fileList: jest.fn(), getContents: jest.fn() };
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue(ussApi as any);
+        ussApi.fileList.mockImplementation(async (dirPath: string) => ({
+            success: true,
+            commandResponse: "",
+            apiResponse: {
+                items:
+                    dirPath === "/u/myuser/usstest"
+                        ? [
+                              { name: ".", mode: "drwxr-xr-x" },
+                              { name: "readme.txt", mode: "-rw-r--r--" },
+                              { name: "link", mode: "lrwxrwxrwx" },
+                              { name: "sub", mode: "drwxr-xr-x" },
+                          ]
+                        : [{ name: "app.bin", mode: "-rwxr-xr-x" }],
+            },
+        }));
+        const download = { token: { isCancellationRequested: false }, add: jest.fn(), fail: jest.fn() };
+        const startSpy = jest.spyOn(FolderDownload, "start").mockImplementation(async (_name, listItems) => listItems(download as any));
+
+        await ussNodeActions.downloadToFolder(node);
+        expect(startSpy).toHaveBeenCalledWith("/u/myuser/usstest", expect.any(Function));
+        expect(download.add.mock.calls.map((call) => call[0].relativePath)).toEqual([
+            path.join("usstest", "readme.txt"),
+            path.join("usstest", "sub", "app.bin"),
+        ]);
+        await download.add.mock.calls[0][0].download("readme.txt");
+        await download.add.mock.calls[1][0].download("app.bin");
+        expect(ussApi.getContents).toHaveBeenCalledWith(
+            "/u/myuser/usstest/readme.txt",
+            expect.objectContaining({ file: "readme.txt", binary: false })
+        );
+        expect(ussApi.getContents).toHaveBeenCalledWith("/u/myuser/usstest/sub/app.bin", expect.objectContaining({ file: "app.bin", binary: true }));
+        expect(download.fail).not.toHaveBeenCalled();
+    });
+
+    it("records the directories that cannot be listed", async () => {
+        const globalMocks = createGlobalMocks();
+        const node = createUSSNode(globalMocks.testSession, globalMocks.testProfile);
+        jest.spyOn(node, "getProfile").mockReturnValue(globalMocks.testProfile);
+        const fileList = jest.fn().mockRejectedValue(new Error("permission denied"));
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue({ fileList } as any);
+        const download = { token: { isCancellationRequested: false }, add: jest.fn(), fail: jest.fn() };
+        jest.spyOn(FolderDownload, "start").mockImplementation(async (_name, listItems) => listItems(download as any));
+
+        await ussNodeActions.downloadToFolder(node);
+        expect(download.fail).toHaveBeenCalledWith("/u/myuser/usstest", expect.any(Error));
+        expect(download.add).not.toHaveBeenCalled();
+    });
+});
+
+describe("USS Action Unit Tests - function showProperties", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    function createBlockMocks() {
+        const globalMocks = createGlobalMocks();
+        const node = createUSSNode(globalMocks.testSession, globalMocks.testProfile);
+        jest.spyOn(node, "getProfile").mockReturnValue(globalMocks.testProfile);
+        const fileList = jest.fn();
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue({ fileList } as any);
+        const showPropertiesView = jest.spyOn(PropertiesView, "showPropertiesView").mockReturnValue(undefined);
+        const response = (items: object[]) => ({ success: true, commandResponse: "", apiResponse: { items } });
+        const ussFileProvider = { refreshElement: jest.fn() } as any;
+        return { node, fileList, showPropertiesView, response, ussFileProvider };
+    }
+
+    it("shows the attributes that z/OSMF lists for the directory itself", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.fileList.mockResolvedValue(blockMocks.response([{ name: ".", mode: "drwxr-x---", user: "USER1", group: "DEV" }]));
+
+        await ussNodeActions.showProperties(blockMocks.node, blockMocks.ussFileProvider);
+        expect(blockMocks.fileList).toHaveBeenCalledTimes(1);
+        expect(blockMocks.showPropertiesView).toHaveBeenCalledWith(
+            blockMocks.node,
+            { mode: "drwxr-x---", user: "USER1", group: "DEV" },
+            blockMocks.ussFileProvider
+        );
+    });
+
+    it("lists the parent directory when the directory is listed without its own entry", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.fileList
+            .mockResolvedValueOnce(blockMocks.response([{ name: "a.txt", mode: "-rw-r--r--" }]))
+            .mockResolvedValueOnce(blockMocks.response([{ name: "usstest", mode: "drwxr-xr-x", user: "USER1" }]));
+
+        await ussNodeActions.showProperties(blockMocks.node, blockMocks.ussFileProvider);
+        expect(blockMocks.fileList).toHaveBeenLastCalledWith("/u/myuser");
+        expect(blockMocks.showPropertiesView).toHaveBeenCalledWith(blockMocks.node, { mode: "drwxr-xr-x", user: "USER1" }, expect.anything());
+    });
+
+    it("reports the files whose attributes cannot be listed", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.node.contextValue = globals.DS_TEXT_FILE_CONTEXT;
+        blockMocks.fileList.mockResolvedValue(blockMocks.response([]));
+        const errorHandlingSpy = jest.spyOn(utils, "errorHandling").mockResolvedValue(undefined);
+
+        await ussNodeActions.showProperties(blockMocks.node, blockMocks.ussFileProvider);
+        expect(errorHandlingSpy).toHaveBeenCalledWith(expect.any(Error), "sestest", "Unable to list the properties of /u/myuser/usstest");
+        expect(blockMocks.showPropertiesView).not.toHaveBeenCalled();
+    });
+});
+
+describe("USS Action Unit Tests - function setFileTag", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    function createBlockMocks() {
+        const globalMocks = createGlobalMocks();
+        const node = createUSSNode(globalMocks.testSession, globalMocks.testProfile);
+        jest.spyOn(node, "getProfile").mockReturnValue(globalMocks.testProfile);
+        const ussApi = {
+            getTag: jest.fn().mockResolvedValue({ type: "untagged" }),
+            setTag: jest.fn().mockResolvedValue({ success: true }),
+        };
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue(ussApi as any);
+        const showQuickPick = jest.spyOn(Gui, "showQuickPick");
+        const showInputBox = jest.spyOn(Gui, "showInputBox");
+        const showMessage = jest.spyOn(Gui, "showMessage").mockResolvedValue(undefined);
+        const ussFileProvider = { refreshElement: jest.fn() } as any;
+        return { globalMocks, node, ussApi, showQuickPick, showInputBox, showMessage, ussFileProvider };
+    }
+
+    it("tags a file with the entered codeset", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.node.contextValue = globals.DS_TEXT_FILE_CONTEXT;
+        blockMocks.ussApi.getTag.mockResolvedValue({ type: "mixed", codeset: "IBM-1047" });
+        blockMocks.showQuickPick.mockImplementation((items: readonly vscode.QuickPickItem[]) => Promise.resolve(items[0]) as any);
+        blockMocks.showInputBox.mockResolvedValue(" IBM-037 ");
+
+        await ussNodeActions.setFileTag(blockMocks.node, blockMocks.ussFileProvider);
+        const items = blockMocks.showQuickPick.mock.calls[0][0] as vscode.QuickPickItem[];
+        expect(items[1]).toEqual({ label: "Mixed", description: "Current: m IBM-1047 T=off" });
+        expect(blockMocks.showInputBox).toHaveBeenCalledWith(expect.objectContaining({ value: "IBM-1047" }));
+        expect(blockMocks.ussApi.setTag).toHaveBeenCalledWith("/u/myuser/usstest", { type: "text", codeset: "IBM-037" }, false);
+        expect(blockMocks.node.tag).toEqual({ type: "text", codeset: "IBM-037" });
+        expect(blockMocks.ussFileProvider.refreshElement).toHaveBeenCalledWith(blockMocks.node);
+        expect(blockMocks.showMessage).toHaveBeenCalledWith("/u/myuser/usstest was tagged t IBM-037 T=on.");
+    });
+
+    it("tags all the files of a directory and its subdirectories", async () => {
+        const blockMocks = createBlockMocks();
+        const child = new ZoweUSSNode(
+            "image.png",
+            vscode.TreeItemCollapsibleState.None,
+            blockMocks.node,
+            null,
+            blockMocks.node.fullPath,
+            false,
+            blockMocks.globalMocks.testProfile.name
+        );
+        blockMocks.node.children = [child];
+        blockMocks.showQuickPick.mockImplementation((items: readonly vscode.QuickPickItem[]) => Promise.resolve(items[2]) as any);
+
+        await ussNodeActions.setFileTag(blockMocks.node, blockMocks.ussFileProvider);
+        expect(blockMocks.ussApi.getTag).not.toHaveBeenCalled();
+        expect(blockMocks.showInputBox).not.toHaveBeenCalled();
+        expect(blockMocks.ussApi.setTag).toHaveBeenCalledWith("/u/myuser/usstest", { type: "binary" }, true);
+        expect(child.tag).toEqual({ type: "binary" });
+        expect(child.binary).toBe(true);
+        expect(blockMocks.showMessage).toHaveBeenCalledWith("The files of /u/myuser/usstest were tagged b binary T=off.");
+    });
+
+    it("does not tag the file when the prompts are cancelled", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.node.contextValue = globals.DS_TEXT_FILE_CONTEXT;
+        blockMocks.showQuickPick.mockImplementation((items: readonly vscode.QuickPickItem[]) => Promise.resolve(items[0]) as any);
+        blockMocks.showInputBox.mockResolvedValue(undefined);
+
+        await ussNodeActions.setFileTag(blockMocks.node, blockMocks.ussFileProvider);
+        expect(blockMocks.ussApi.setTag).not.toHaveBeenCalled();
+    });
+
+    it("reports the profiles whose file tags cannot be changed", async () => {
+        const blockMocks = createBlockMocks();
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue({} as any);
+        const errorMessage = jest.spyOn(Gui, "errorMessage").mockResolvedValue(undefined);
+
+        await ussNodeActions.setFileTag(blockMocks.node, blockMocks.ussFileProvider);
+        expect(errorMessage).toHaveBeenCalledWith("The file tags of profile sestest cannot be changed.");
+        expect(blockMocks.showQuickPick).not.toHaveBeenCalled();
+    });
+
+    it("reports the errors of z/OS", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.showQuickPick.mockImplementation((items: readonly vscode.QuickPickItem[]) => Promise.resolve(items[3]) as any);
+        blockMocks.ussApi.setTag.mockRejectedValue(new Error("EDC5111I Permission denied."));
+        const errorHandlingSpy = jest.spyOn(utils, "errorHandling").mockResolvedValue(undefined);
+
+        await ussNodeActions.setFileTag(blockMocks.node, blockMocks.ussFileProvider);
+        expect(errorHandlingSpy).toHaveBeenCalledWith(expect.any(Error), "sestest", "Unable to set the file tag of /u/myuser/usstest");
+        expect(blockMocks.showMessage).not.toHaveBeenCalled();
+    });
+});
+
+describe("USS Action Unit Tests - function goToSymlinkTarget", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    function createBlockMocks(target: string) {
+        const globalMocks = createGlobalMocks();
+        const sessionNode = new ZoweUSSNode(
+            "sestest",
+            vscode.TreeItemCollapsibleState.Expanded,
+            null,
+            globalMocks.testSession,
+            null,
+            false,
+            "sestest"
+        );
+        sessionNode.contextValue = globals.USS_SESSION_CONTEXT;
+        sessionNode.fullPath = "/u/myuser";
+        const link = new ZoweUSSNode("link", vscode.TreeItemCollapsibleState.None, sessionNode, null, "/u/myuser", false, "sestest");
+        link.contextValue = globals.USS_SYMLINK_CONTEXT;
+        link.symlink = { target, path: target };
+        const reveal = jest.fn();
+        const ussFileProvider = { getTreeView: () => ({ reveal }), addSearchHistory: jest.fn() } as any;
+        return { sessionNode, link, reveal, ussFileProvider };
+    }
+
+    it("reveals a target under the filter of the session", async () => {
+        const blockMocks = createBlockMocks("/u/myuser/dir/file.txt");
+        const dir = new ZoweUSSNode("dir", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.sessionNode, null, "/u/myuser", false, "sestest");
+        const file = new ZoweUSSNode("file.txt", vscode.TreeItemCollapsibleState.None, dir, null, "/u/myuser/dir", false, "sestest");
+        jest.spyOn(blockMocks.sessionNode, "getChildren").mockResolvedValue([blockMocks.link, dir]);
+        jest.spyOn(dir, "getChildren").mockResolvedValue([file]);
+
+        await ussNodeActions.goToSymlinkTarget(blockMocks.link, blockMocks.ussFileProvider);
+        expect(blockMocks.sessionNode.fullPath).toBe("/u/myuser");
+        expect(blockMocks.ussFileProvider.addSearchHistory).not.toHaveBeenCalled();
+        expect(blockMocks.reveal).toHaveBeenCalledWith(file, { select: true, focus: true, expand: false });
+    });
+
+    it("filters the session with the directory of a target outside of its filter", async () => {
+        const blockMocks = createBlockMocks("/usr/lpp/bin");
+        const bin = new ZoweUSSNode("bin", vscode.TreeItemCollapsibleState.Collapsed, blockMocks.sessionNode, null, "/usr/lpp", false, "sestest");
+        jest.spyOn(blockMocks.sessionNode, "getChildren").mockResolvedValue([bin]);
+
+        await ussNodeActions.goToSymlinkTarget(blockMocks.link, blockMocks.ussFileProvider);
+        expect(blockMocks.sessionNode.fullPath).toBe("/usr/lpp");
+        expect(blockMocks.sessionNode.description).toBe("/usr/lpp");
+        expect(blockMocks.sessionNode.contextValue).toBe(`${globals.USS_SESSION_CONTEXT}_${globals.FILTER_SEARCH}`);
+        expect(blockMocks.sessionNode.dirty).toBe(true);
+        expect(blockMocks.ussFileProvider.addSearchHistory).toHaveBeenCalledWith("/usr/lpp");
+        expect(blockMocks.reveal).toHaveBeenCalledWith(bin, { select: true, focus: true, expand: false });
+    });
+
+    it("reports the targets that are not found", async () => {
+        const blockMocks = createBlockMocks("/u/myuser/missing");
+        jest.spyOn(blockMocks.sessionNode, "getChildren").mockResolvedValue([blockMocks.link]);
+        const errorMessage = jest.spyOn(Gui, "errorMessage").mockResolvedValue(undefined);
+
+        await ussNodeActions.goToSymlinkTarget(blockMocks.link, blockMocks.ussFileProvider);
+        expect(errorMessage).toHaveBeenCalledWith("The target of /u/myuser/link was not found: /u/myuser/missing");
+        expect(blockMocks.reveal).not.toHaveBeenCalled();
+    });
+});
+
+describe("USS Action Unit Tests - function moveUssFiles", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    function createBlockMocks() {
+        const globalMocks = createGlobalMocks();
+        const sessionNode = new ZoweUSSNode(
+            "sestest",
+            vscode.TreeItemCollapsibleState.Expanded,
+            null,
+            globalMocks.testSession,
+            null,
+            false,
+            "sestest",
+            undefined,
+            globalMocks.testProfile
+        );
+        sessionNode.contextValue = globals.USS_SESSION_CONTEXT;
+        sessionNode.fullPath = "/u/myuser";
+        const source = new ZoweUSSNode("src", vscode.TreeItemCollapsibleState.Collapsed, sessionNode, null, "/u/myuser", false, "sestest");
+        const target = new ZoweUSSNode("dest", vscode.TreeItemCollapsibleState.Collapsed, sessionNode, null, "/u/myuser", false, "sestest");
+        sessionNode.children = [source, target];
+        const ussFileProvider = { mSessionNodes: [sessionNode], refreshElement: jest.fn() } as any;
+        const targetApi = { fileList: jest.fn().mockResolvedValue({ apiResponse: { items: [] } }), rename: jest.fn(), delete: jest.fn() } as any;
+        const getUssApi = jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue(targetApi);
+        jest.spyOn(Gui, "withProgress").mockImplementation((_options, task) => task({ report: jest.fn() }, undefined));
+        jest.spyOn(fs, "existsSync").mockReturnValue(false);
+        return { globalMocks, sessionNode, source, target, ussFileProvider, targetApi, getUssApi };
+    }
+
+    function createFileTree(sessionName: string, ...children: UssFileTree[]): UssFileTree {
+        return { ussPath: "", type: UssFileType.Directory, move: true, children: children.map((child) => ({ ...child, sessionName })) };
+    }
+
+    it("renames the files moved within the same profile", async () => {
+        const blockMocks = createBlockMocks();
+        const fileTree = createFileTree("sestest", {
+            ussPath: "/u/myuser/src/file.txt",
+            baseName: "file.txt",
+            type: UssFileType.File,
+            children: [],
+        });
+
+        await ussNodeActions.moveUssFiles(blockMocks.ussFileProvider, fileTree, blockMocks.target);
+        expect(blockMocks.targetApi.rename).toHaveBeenCalledWith("/u/myuser/src/file.txt", "/u/myuser/dest/file.txt");
+        expect(blockMocks.ussFileProvider.refreshElement).toHaveBeenCalledWith(blockMocks.target);
+        expect(blockMocks.ussFileProvider.refreshElement).toHaveBeenCalledWith(blockMocks.source);
+    });
+
+    it("does not move files over a file with the same name", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.targetApi.fileList.mockResolvedValue({ apiResponse: { items: [{ name: "file.txt" }] } });
+        const errorMessage = jest.spyOn(Gui, "errorMessage").mockResolvedValue(undefined);
+        const fileTree = createFileTree("sestest", {
+            ussPath: "/u/myuser/src/file.txt",
+            baseName: "file.txt",
+            type: UssFileType.File,
+            children: [],
+        });
+
+        await ussNodeActions.moveUssFiles(blockMocks.ussFileProvider, fileTree, blockMocks.target);
+        expect(errorMessage).toHaveBeenCalledWith(
+            "/u/myuser/src/file.txt was not moved, a file or directory with the same name already exists in /u/myuser/dest."
+        );
+        expect(blockMocks.targetApi.rename).not.toHaveBeenCalled();
+    });
+
+    it("copies, verifies and deletes the files moved to another profile", async () => {
+        const blockMocks = createBlockMocks();
+        const sourceApi = {
+            getContents: jest.fn(),
+            delete: jest.fn(),
+            fileList: jest.fn().mockResolvedValue({ apiResponse: { items: [{ name: "a.txt", mode: "-rw-r--r--", size: 120 }] } }),
+        };
+        blockMocks.globalMocks.mockLoadNamedProfile.mockReturnValue({ name: "other", profile: {} });
+        blockMocks.getUssApi.mockImplementation((profile) => (profile.name === "other" ? sourceApi : blockMocks.targetApi));
+        blockMocks.targetApi.create = jest.fn();
+        blockMocks.targetApi.putContent = jest.fn();
+        blockMocks.targetApi.fileList.mockImplementation((ussPath: string) => {
+            const items = {
+                "/u/myuser/dest": blockMocks.targetApi.create.mock.calls.length > 0 ? [{ name: "dir", mode: "drwxr-xr-x" }] : [],
+                "/u/myuser/dest/dir": [{ name: "a.txt", mode: "-rw-r--r--", size: 120 }],
+            };
+            return Promise.resolve({ apiResponse: { items: items[ussPath] } });
+        });
+        const fileTree = createFileTree("other", {
+            ussPath: "/u/other/dir",
+            baseName: "dir",
+            type: UssFileType.Directory,
+            children: [{ ussPath: "/u/other/dir/a.txt", baseName: "a.txt", type: UssFileType.File, binary: true, children: [] }],
+        });
+
+        await ussNodeActions.moveUssFiles(blockMocks.ussFileProvider, fileTree, blockMocks.target);
+        expect(blockMocks.targetApi.create).toHaveBeenCalledWith("/u/myuser/dest/dir", "directory");
+        expect(sourceApi.getContents).toHaveBeenCalledWith("/u/other/dir/a.txt", expect.objectContaining({ binary: true }));
+        expect(blockMocks.targetApi.putContent).toHaveBeenCalledWith(
+            path.join(globals.USS_DIR, ".move", "other", "/u/other/dir/a.txt"),
+            "/u/myuser/dest/dir/a.txt",
+            expect.objectContaining({ binary: true })
+        );
+        expect(sourceApi.fileList).toHaveBeenCalledWith("/u/other/dir");
+        expect(sourceApi.delete).toHaveBeenCalledWith("/u/other/dir", true);
+        expect(blockMocks.targetApi.delete).not.toHaveBeenCalled();
+    });
+
+    it("transfers the files moved to another profile as their tag requires and tags the copy", async () => {
+        const blockMocks = createBlockMocks();
+        const tag = { type: "text", codeset: "IBM-037" };
+        const sourceApi = { getContents: jest.fn(), delete: jest.fn(), getTag: jest.fn().mockResolvedValue(tag) };
+        blockMocks.globalMocks.mockLoadNamedProfile.mockReturnValue({ name: "other", profile: { encoding: "IBM-1047" } });
+        blockMocks.getUssApi.mockImplementation((profile) => (profile.name === "other" ? sourceApi : blockMocks.targetApi));
+        blockMocks.targetApi.putContent = jest.fn();
+        blockMocks.targetApi.setTag = jest.fn();
+        blockMocks.targetApi.fileList.mockImplementation((ussPath: string) =>
+            Promise.resolve({ apiResponse: { items: blockMocks.targetApi.putContent.mock.calls.length > 0 ? [{ name: "a.txt" }] : [] } })
+        );
+        const fileTree = createFileTree("other", { ussPath: "/u/other/a.txt", baseName: "a.txt", type: UssFileType.File, children: [] });
+
+        await ussNodeActions.moveUssFiles(blockMocks.ussFileProvider, fileTree, blockMocks.target);
+        expect(sourceApi.getContents).toHaveBeenCalledWith("/u/other/a.txt", expect.objectContaining({ binary: false, encoding: "IBM-037" }));
+        expect(blockMocks.targetApi.putContent).toHaveBeenCalledWith(
+            expect.any(String),
+            "/u/myuser/dest/a.txt",
+            expect.objectContaining({ binary: false, encoding: "IBM-037" })
+        );
+        expect(blockMocks.targetApi.setTag).toHaveBeenCalledWith("/u/myuser/dest/a.txt", tag);
+        expect(sourceApi.delete).toHaveBeenCalledWith("/u/other/a.txt", false);
+    });
+
+    it("removes the copied binary files that do not have the size of the originals", async () => {
+        const blockMocks = createBlockMocks();
+        const sourceApi = {
+            getContents: jest.fn(),
+            delete: jest.fn(),
+            fileList: jest.fn().mockResolvedValue({ apiResponse: { items: [{ name: "a.bin", size: 4096 }] } }),
+        };
+        blockMocks.globalMocks.mockLoadNamedProfile.mockReturnValue({ name: "other", profile: {} });
+        blockMocks.getUssApi.mockImplementation((profile) => (profile.name === "other" ? sourceApi : blockMocks.targetApi));
+        blockMocks.targetApi.putContent = jest.fn();
+        blockMocks.targetApi.fileList.mockImplementation(() =>
+            Promise.resolve({ apiResponse: { items: blockMocks.targetApi.putContent.mock.calls.length > 0 ? [{ name: "a.bin", size: 2048 }] : [] } })
+        );
+        const errorHandling = jest.spyOn(utils, "errorHandling").mockResolvedValue(undefined);
+        const fileTree = createFileTree("other", {
+            ussPath: "/u/other/a.bin",
+            baseName: "a.bin",
+            type: UssFileType.File,
+            binary: true,
+            children: [],
+        });
+
+        await ussNodeActions.moveUssFiles(blockMocks.ussFileProvider, fileTree, blockMocks.target);
+        expect(blockMocks.targetApi.delete).toHaveBeenCalledWith("/u/myuser/dest/a.bin", false);
+        expect(sourceApi.delete).not.toHaveBeenCalled();
+        expect(errorHandling).toHaveBeenCalledWith(
+            new Error("The copy of these files was not found or does not have the same size: /u/myuser/dest/a.bin"),
+            "sestest",
+            expect.any(String)
+        );
+    });
+
+    it("removes the copied files when the copy cannot be verified", async () => {
+        const blockMocks = createBlockMocks();
+        const sourceApi = { getContents: jest.fn(), delete: jest.fn(), isFileTagBinOrAscii: jest.fn().mockResolvedValue(false) };
+        blockMocks.globalMocks.mockLoadNamedProfile.mockReturnValue({ name: "other", profile: {} });
+        blockMocks.getUssApi.mockImplementation((profile) => (profile.name === "other" ? sourceApi : blockMocks.targetApi));
+        blockMocks.targetApi.putContent = jest.fn();
+        const errorHandling = jest.spyOn(utils, "errorHandling").mockResolvedValue(undefined);
+        const fileTree = createFileTree("other", { ussPath: "/u/other/a.txt", baseName: "a.txt", type: UssFileType.File, children: [] });
+
+        await ussNodeActions.moveUssFiles(blockMocks.ussFileProvider, fileTree, blockMocks.target);
+        expect(blockMocks.targetApi.delete).toHaveBeenCalledWith("/u/myuser/dest/a.txt", false);
+        expect(sourceApi.delete).not.toHaveBeenCalled();
+        expect(errorHandling).toHaveBeenCalledWith(
+            new Error("The copy of these files was not found or does not have the same size: /u/myuser/dest/a.txt"),
+            "sestest",
+            "Unable to copy /u/other/a.txt to /u/myuser/dest/a.txt of sestest. " +
+                "The copied files were removed from sestest, /u/other/a.txt was not changed."
+        );
+    });
+
+    it("moves the cut files when they are pasted", async () => {
+        const blockMocks = createBlockMocks();
+        const fileTree = createFileTree("sestest", { ussPath: "/u/myuser/src/a.txt", baseName: "a.txt", type: UssFileType.File, children: [] });
+        jest.spyOn(vscode.env.clipboard, "readText").mockResolvedValue(JSON.stringify(fileTree));
+        const ussFileProvider = { ...blockMocks.ussFileProvider, getTreeView: () => ({ selection: [] }) };
+
+        await ussNodeActions.pasteUss(ussFileProvider, blockMocks.target);
+        expect(blockMocks.globalMocks.writeText).toHaveBeenCalledWith("");
+        expect(blockMocks.targetApi.rename).toHaveBeenCalledWith("/u/myuser/src/a.txt", "/u/myuser/dest/a.txt");
+    });
+});
+
+describe("USS Action Unit Tests - function copyDataSetsToUss", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    function createBlockMocks() {
+        const globalMocks = createGlobalMocks();
+        const directory = new ZoweUSSNode("dest", vscode.TreeItemCollapsibleState.Collapsed, null, null, "/u/myuser", false, "sestest");
+        directory.contextValue = globals.USS_DIR_CONTEXT;
+        jest.spyOn(directory, "getProfile").mockReturnValue(globalMocks.testProfile);
+        const datasetSessionNode = createDatasetSessionNode(globalMocks.testSession, globalMocks.testProfile);
+        const pds = new ZoweDatasetNode("USER.PDS", vscode.TreeItemCollapsibleState.Collapsed, datasetSessionNode, null);
+        const member = new ZoweDatasetNode("MEMBER", vscode.TreeItemCollapsibleState.None, pds, null, globals.DS_MEMBER_CONTEXT);
+        const ussFileProvider = { refresh: jest.fn() } as any;
+        const mvsApi = { getContents: jest.fn().mockResolvedValue({ success: true }) } as any;
+        const ussApi = {
+            fileList: jest.fn().mockResolvedValue({ success: true, apiResponse: { items: [{ name: "." }, { name: "OTHER" }] } }),
+            putContents: jest.fn().mockResolvedValue({ success: true }),
+        } as any;
+        jest.spyOn(ZoweExplorerApiRegister, "getMvsApi").mockReturnValue(mvsApi);
+        jest.spyOn(ZoweExplorerApiRegister, "getUssApi").mockReturnValue(ussApi);
+        jest.spyOn(fs, "existsSync").mockReturnValue(true);
+        const unlinkSync = jest.spyOn(fs, "unlinkSync").mockImplementation();
+        globalMocks.isBinaryFileSync.mockReturnValue(true);
+        return { globalMocks, directory, pds, member, ussFileProvider, mvsApi, ussApi, unlinkSync };
+    }
+
+    it("uploads the dropped members to the directory and deletes the temporary files", async () => {
+        const blockMocks = createBlockMocks();
+
+        await ussNodeActions.copyDataSetsToUss(blockMocks.directory, [blockMocks.pds, blockMocks.member], blockMocks.ussFileProvider);
+        const file = path.join(globals.DS_DIR, ".drop", "sestest", "USER.PDS", "MEMBER");
+        expect(blockMocks.mvsApi.getContents).toHaveBeenCalledTimes(1);
+        expect(blockMocks.mvsApi.getContents).toHaveBeenCalledWith("USER.PDS(MEMBER)", expect.objectContaining({ file }));
+        expect(blockMocks.ussApi.putContents).toHaveBeenCalledWith(file, "/u/myuser/dest/MEMBER", true);
+        expect(blockMocks.ussFileProvider.refresh).toHaveBeenCalled();
+        expect(blockMocks.unlinkSync).toHaveBeenCalledWith(file);
+    });
+
+    it("reports the members which cannot be downloaded and does not upload anything", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.mvsApi.getContents.mockRejectedValue(new Error("not found"));
+        const errorHandlingSpy = jest.spyOn(utils, "errorHandling").mockResolvedValue(undefined);
+
+        await ussNodeActions.copyDataSetsToUss(blockMocks.directory, [blockMocks.member], blockMocks.ussFileProvider);
+        expect(errorHandlingSpy).toHaveBeenCalledWith(expect.any(Error), "sestest", "Unable to download USER.PDS(MEMBER).");
+        expect(blockMocks.ussApi.putContents).not.toHaveBeenCalled();
+    });
+
+    it("reports the members with the same name as a file of the directory and does not copy them", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.ussApi.fileList.mockResolvedValue({ success: true, apiResponse: { items: [{ name: "MEMBER" }] } });
+        const errorMessage = jest.spyOn(Gui, "errorMessage").mockResolvedValue(undefined);
+
+        await ussNodeActions.copyDataSetsToUss(blockMocks.directory, [blockMocks.member], blockMocks.ussFileProvider);
+        expect(blockMocks.ussApi.fileList).toHaveBeenCalledWith("/u/myuser/dest");
+        expect(errorMessage).toHaveBeenCalledWith(
+            "USER.PDS(MEMBER) was not copied, a file or directory with the same name already exists in /u/myuser/dest."
+        );
+        expect(blockMocks.mvsApi.getContents).not.toHaveBeenCalled();
+        expect(blockMocks.ussApi.putContents).not.toHaveBeenCalled();
+    });
+
+    it("reports the directory which cannot be listed and does not copy anything", async () => {
+        const blockMocks = createBlockMocks();
+        blockMocks.ussApi.fileList.mockRejectedValue(new Error("not found"));
+        const errorHandlingSpy = jest.spyOn(utils, "errorHandling").mockResolvedValue(undefined);
+
+        await ussNodeActions.copyDataSetsToUss(blockMocks.directory, [blockMocks.member], blockMocks.ussFileProvider);
+        expect(errorHandlingSpy).toHaveBeenCalledWith(expect.any(Error), "sestest", "Unable to list the files of /u/myuser/dest.");
+        expect(blockMocks.mvsApi.getContents).not.toHaveBeenCalled();
+    });
+});
@@ -19,6 +19,8 @@ import { initUSSProvider } from "../../../src/uss/init";
 import { Profiles } from "../../../src/Profiles";
 import { IJestIt, ITestContext, processSubscriptions, spyOnSubscriptions } from "../../__common__/testUtils";
 import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import { LocalHistory } from "../../../src/shared/LocalHistory";
+import { FolderSync } from "../../../src/shared/FolderSync";
 
 describe("Test src/dataset/extension", () => {
     describe("initDatasetProvider", () => {
@@ -199,6 +201,34 @@ describe("Test src/dataset/extension", () => {
                 name: "zowe.uss.copyUssFile",
                 mock: [{ spy: jest.spyOn(ussActions, "copyUssFiles"), arg: [test.value, undefined, ussFileProvider] }],
             },
+            {
+                name: "zowe.uss.cutUssFile",
+                mock: [{ spy: jest.spyOn(ussActions, "copyUssFiles"), arg: [test.value, undefined, ussFileProvider, true] }],
+            },
+            {
+                name: "zowe.uss.showHistory",
+                mock: [{ spy: jest.spyOn(LocalHistory, "showHistory"), arg: [test.value] }],
+            },
+            {
+                name: "zowe.uss.downloadToFolder",
+                mock: [{ spy: jest.spyOn(ussActions, "downloadToFolder"), arg: [test.value] }],
+            },
+            {
+                name: "zowe.uss.syncFolder",
+                mock: [{ spy: jest.spyOn(FolderSync, "syncFolder"), arg: [test.value] }],
+            },
+            {
+                name: "zowe.uss.showProperties",
+                mock: [{ spy: jest.spyOn(ussActions, "showProperties"), arg: [test.value, ussFileProvider] }],
+            },
+            {
+                name: "zowe.uss.setFileTag",
+                mock: [{ spy: jest.spyOn(ussActions, "setFileTag"), arg: [test.value, ussFileProvider] }],
+            },
+            {
+                name: "zowe.uss.goToTarget",
+                mock: [{ spy: jest.spyOn(ussActions, "goToSymlinkTarget"), arg: [test.value, ussFileProvider] }],
+            },
             {
                 name: "onDidChangeConfiguration",
                 mock: [{ spy: jest.spyOn(ussFileProvider, "onDidChangeConfiguration"), arg: [test.value] }],
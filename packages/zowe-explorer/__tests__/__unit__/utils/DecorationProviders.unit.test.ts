@@ -10,7 +10,7 @@
  */
 
 import { Poller } from "@zowe/zowe-explorer-api/src/utils";
-import { PollDecorator } from "../../../src/utils/DecorationProviders";
+import { PollDecorator, StaleDecorator } from "../../../src/utils/DecorationProviders";
 import * as vscode from "vscode";
 
 jest.mock("vscode");
@@ -84,3 +84,15 @@ describe("PollDecorationProvider - unit tests", () => {
         expect(nullDecoration).toBe(null);
     });
 });
+
+describe("StaleDecorationProvider - unit tests", () => {
+    it("decorates the URIs of the offline cache as stale", () => {
+        const savedAt = new Date(2026, 9, 18, 9, 30);
+        const staleUri = vscode.Uri.from({ scheme: "zowe-cache", path: "/sestest/USER.LIB", query: savedAt.getTime().toString() });
+
+        const decoration = StaleDecorator.provideFileDecoration(staleUri, undefined as any) as vscode.FileDecoration;
+        expect(decoration.badge).toBe("S");
+        expect(decoration.tooltip).toBe(`Stale: cached on ${savedAt.toLocaleString()} because the host could not be reached`);
+        expect(StaleDecorator.provideFileDecoration(vscode.Uri.from({ scheme: "zowe-ds", path: "/sestest/USER.LIB" }), undefined as any)).toBe(null);
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { Gui } from "@zowe/zowe-explorer-api";
+import { OfflineCache } from "../../../src/utils/OfflineCache";
+import { SettingsConfig } from "../../../src/utils/SettingsConfig";
+import { ZoweLogger } from "../../../src/utils/LoggerUtils";
+import * as globals from "../../../src/globals";
+import { createIProfile } from "../../../__mocks__/mockCreators/shared";
+
+jest.mock("fs");
+
+describe("OfflineCache Unit Tests", () => {
+    const storagePath = path.join("/storage", "offlineCache");
+    const unreachable = Object.assign(new Error("connect ECONNREFUSED"), { code: "ECONNREFUSED" });
+    const listResponse = { success: true, commandResponse: "", apiResponse: { items: [{ dsname: "USER.LIB", dsorg: "PO" }] } };
+    let registerContentProvider: jest.SpyInstance;
+
+    function createApi() {
+        return {
+            profile: createIProfile(),
+            dataSet: jest.fn().mockResolvedValue(listResponse),
+            allMembers: jest.fn(),
+            getContents: jest.fn(),
+            getProfileTypeName: () => "zosmf",
+        } as any;
+    }
+
+    function mockCacheFile(entry: object) {
+        jest.spyOn(fs, "existsSync").mockReturnValue(true);
+        jest.spyOn(fs, "readFileSync").mockImplementation((file) => (file.toString().startsWith(storagePath) ? JSON.stringify(entry) : "contents"));
+    }
+
+    beforeAll(() => {
+        registerContentProvider = jest.spyOn(vscode.workspace, "registerTextDocumentContentProvider");
+        jest.spyOn(fs, "readdirSync").mockReturnValueOnce([]);
+        OfflineCache.initialize({ globalStorageUri: { fsPath: "/storage" }, subscriptions: [] } as any);
+    });
+
+    beforeEach(() => {
+        Object.defineProperty(ZoweLogger, "trace", { value: jest.fn(), configurable: true });
+        Object.defineProperty(ZoweLogger, "warn", { value: jest.fn(), configurable: true });
+        jest.spyOn(SettingsConfig, "getDirectValue").mockReturnValue(true);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("does not change the API when the cache is disabled", () => {
+        const getDirectValueSpy = jest.spyOn(SettingsConfig, "getDirectValue").mockReturnValue(false);
+        const api = createApi();
+        const dataSet = api.dataSet;
+
+        expect(OfflineCache.cacheMvsApi(api).dataSet).toBe(dataSet);
+        expect(getDirectValueSpy).toBeCalledWith(globals.SETTINGS_FILES_OFFLINE_CACHE);
+        expect(OfflineCache.isEnabled()).toBe(false);
+    });
+
+    it("records the responses of the host", async () => {
+        const api = OfflineCache.cacheMvsApi(createApi());
+        const mkdirSpy = jest.spyOn(fs, "mkdirSync");
+        const writeFileSpy = jest.spyOn(fs, "writeFileSync");
+
+        await expect(api.dataSet("USER.*", { attributes: true, responseTimeout: 5 })).resolves.toBe(listResponse);
+        expect(mkdirSpy).toBeCalledWith(storagePath, { recursive: true });
+        const [cacheFile, entry] = writeFileSpy.mock.calls[0];
+        expect(path.dirname(cacheFile as string)).toBe(storagePath);
+        expect(JSON.parse(entry as string)).toMatchObject({ result: listResponse });
+        expect(OfflineCache.getSavedAt(listResponse)).toBeUndefined();
+    });
+
+    it("returns the recorded response when the host cannot be reached", async () => {
+        const api = createApi();
+        api.dataSet.mockRejectedValueOnce(unreachable);
+        const savedAt = new Date(2026, 9, 1).getTime();
+        mockCacheFile({ savedAt, result: listResponse });
+
+        const response = await OfflineCache.cacheMvsApi(api).dataSet("USER.*", { attributes: true });
+        expect(response).toEqual(listResponse);
+        expect(OfflineCache.getSavedAt(response)).toEqual(new Date(savedAt));
+        expect(ZoweLogger.warn).toBeCalled();
+    });
+
+    it("writes the recorded contents to the file of the download", async () => {
+        const api = createApi();
+        api.getContents.mockRejectedValueOnce(unreachable);
+        mockCacheFile({ savedAt: Date.now(), result: { success: true, apiResponse: {} }, contents: Buffer.from("cached").toString("base64") });
+
+        const writeFileSpy = jest.spyOn(fs, "writeFileSync");
+        await OfflineCache.cacheUssApi(api).getContents("/u/user/file.txt", { file: path.join("/tmp", "file.txt") });
+        expect(writeFileSpy).toBeCalledWith(path.join("/tmp", "file.txt"), Buffer.from("cached"));
+    });
+
+    it("does not use the responses recorded more than 30 days ago", async () => {
+        const api = createApi();
+        api.dataSet.mockRejectedValueOnce(unreachable);
+        mockCacheFile({ savedAt: Date.now() - 31 * 24 * 60 * 60 * 1000, result: listResponse });
+
+        await expect(OfflineCache.cacheMvsApi(api).dataSet("USER.*")).rejects.toBe(unreachable);
+    });
+
+    it("finds the recorded contents of a file whatever the options of the download", async () => {
+        const api = createApi();
+        api.getContents.mockResolvedValueOnce({ success: true, apiResponse: {} });
+        const writeFileSpy = jest.spyOn(fs, "writeFileSync");
+
+        await OfflineCache.cacheUssApi(api).getContents("/u/user/file.txt", { file: path.join("/tmp", "file.txt"), binary: true });
+        jest.spyOn(fs, "readdirSync").mockReturnValue([path.basename(writeFileSpy.mock.calls[0][0] as string)] as any);
+        expect(OfflineCache.hasContents("sestest", "/u/user/file.txt")).toBe(true);
+        expect(OfflineCache.hasContents("sestest", "/u/user/other.txt")).toBe(false);
+    });
+
+    it("throws the errors that are not caused by the network", async () => {
+        const api = createApi();
+        api.allMembers.mockRejectedValueOnce(new Error("not authorized"));
+        mockCacheFile({ savedAt: 1, result: listResponse });
+
+        await expect(OfflineCache.cacheMvsApi(api).allMembers("USER.LIB", {})).rejects.toThrow("not authorized");
+    });
+
+    it("throws the network error when nothing was recorded", async () => {
+        const api = createApi();
+        api.dataSet.mockRejectedValueOnce(unreachable);
+        jest.spyOn(fs, "existsSync").mockReturnValue(false);
+
+        await expect(OfflineCache.cacheMvsApi(api).dataSet("USER.*")).rejects.toBe(unreachable);
+    });
+
+    it("opens the cached contents read-only", () => {
+        jest.spyOn(fs, "readFileSync").mockReturnValue("cached contents");
+        const unlinkSpy = jest.spyOn(fs, "unlinkSync");
+
+        const uri = OfflineCache.openReadOnly("sestest", "/u/user/file.txt", path.join("/tmp", "file.txt"), new Date(1000));
+        expect(uri).toMatchObject({ scheme: "zowe-cache", path: "/sestest/u/user/file.txt", query: "1000" });
+        expect(unlinkSpy).toBeCalledWith(path.join("/tmp", "file.txt"));
+        const provider = registerContentProvider.mock.calls[0][1];
+        expect(provider.provideTextDocumentContent(uri)).toBe("cached contents");
+    });
+
+    it("removes the old responses and the oldest responses above 100 MB when it is initialized", () => {
+        const now = Date.now();
+        const files = {
+            "old.json": { mtimeMs: now - 31 * 24 * 60 * 60 * 1000, size: 10 },
+            "new.json": { mtimeMs: now, size: 10 },
+            "large.json": { mtimeMs: now - 1000, size: 100 * 1024 * 1024 },
+            "older.json": { mtimeMs: now - 2000, size: 10 },
+        };
+        jest.spyOn(fs, "existsSync").mockReturnValue(true);
+        jest.spyOn(fs, "readdirSync").mockReturnValue(Object.keys(files) as any);
+        jest.spyOn(fs, "statSync").mockImplementation((file) => files[path.basename(file.toString())]);
+        const unlinkSpy = jest.spyOn(fs, "unlinkSync");
+
+        OfflineCache.initialize({ globalStorageUri: { fsPath: "/storage" }, subscriptions: [] } as any);
+        expect(unlinkSpy.mock.calls.map((call) => path.basename(call[0] as string))).toEqual(["large.json", "old.json"]);
+    });
+
+    it("removes all the responses when it is cleared", () => {
+        jest.spyOn(fs, "existsSync").mockReturnValue(true);
+        jest.spyOn(fs, "readdirSync").mockReturnValue(["a.json", "b.json"] as any);
+        const unlinkSpy = jest.spyOn(fs, "unlinkSync");
+        const showMessageSpy = jest.spyOn(Gui, "showMessage").mockImplementation();
+
+        OfflineCache.clear();
+        expect(unlinkSpy).toBeCalledWith(path.join(storagePath, "a.json"));
+        expect(unlinkSpy).toBeCalledWith(path.join(storagePath, "b.json"));
+        expect(showMessageSpy).toBeCalledWith("The offline cache was cleared.");
+    });
+});
@@ -26,12 +26,14 @@ export class PersistentFilters {
     private static readonly fileHistory: string = "fileHistory";
     private static readonly sessions: string = "sessions";
     private static readonly templates: string = "templates";
+    private static readonly sessionOptions: string = "sessionOptions";
 
     public schema: string;
     private mSearchHistory: string[] = [];
     private mFileHistory: string[] = [];
     private mSessions: string[] = [];
     private mDsTemplates: api.DataSetAllocTemplate[] = [];
+    private mSessionOptions: Record<string, object> = {};
 
     public constructor(schema: string, private maxSearchHistory = globals.MAX_SEARCH_HISTORY, private maxFileHistory = globals.MAX_FILE_HISTORY) {
         this.schema = schema;
@@ -168,6 +170,15 @@ export class PersistentFilters {
         return this.mDsTemplates;
     }
 
+    /**
+     * Returns the options of a session or data set, e.g. how the jobs of a Jobs session or the members of a PDS are sorted
+     *
+     * @param {string} session - a session name
+     */
+    public getSessionOptions<T extends object>(session: string): T | undefined {
+        return this.mSessionOptions[session] as T;
+    }
+
     public readFavorites(): string[] {
         if (vscode.workspace.getConfiguration(this.schema)) {
             return vscode.workspace.getConfiguration(this.schema).get(PersistentFilters.favorites);
@@ -179,6 +190,17 @@ export class PersistentFilters {
     /* Remove functions, for removing one item from the persistent arrays
     /*********************************************************************************************************************************************/
 
+    /**
+     * Sets the options of one session and updates persistent store.
+     *
+     * @param {string} session - a session name
+     * @param {object} options - the options of the session, they replace the previous ones
+     */
+    public setSessionOptions(session: string, options: object): Thenable<void> {
+        this.mSessionOptions = { ...this.mSessionOptions, [session]: options };
+        return this.updateSessionOptions();
+    }
+
     public removeSession(name: string): void {
         // Remove any entries that match
         this.mSessions = this.mSessions.filter((element) => {
@@ -200,6 +222,14 @@ export class PersistentFilters {
         return this.updateFileHistory();
     }
 
+    /**
+     * @param name - The name of the data set template
+     */
+    public removeDsTemplateHistory(name: string): void {
+        this.mDsTemplates = this.mDsTemplates.filter((template) => !Object.keys(template).includes(name));
+        this.updateDsTemplateHistory();
+    }
+
     /*********************************************************************************************************************************************/
     /* Reset functions, for resetting the persistent array to empty (in the extension and in settings.json)
     /*********************************************************************************************************************************************/
@@ -255,6 +285,15 @@ export class PersistentFilters {
         }
     }
 
+    private updateSessionOptions(): Thenable<void> {
+        // settings are read-only, so make a clone
+        const settings: any = { ...vscode.workspace.getConfiguration(this.schema) };
+        if (settings.persistence) {
+            settings.sessionOptions = this.mSessionOptions;
+            return SettingsConfig.setDirectValue(this.schema, settings);
+        }
+    }
+
     private updateFileHistory(): Thenable<void> {
         // settings are read-only, so make a clone
         const settings: any = { ...vscode.workspace.getConfiguration(this.schema) };
@@ -278,11 +317,13 @@ export class PersistentFilters {
         let sessionLines: string[];
         let fileHistoryLines: string[];
         let dsTemplateLines: api.DataSetAllocTemplate[];
+        let sessionOptions: Record<string, object>;
         if (vscode.workspace.getConfiguration(this.schema)) {
             searchHistoryLines = vscode.workspace.getConfiguration(this.schema).get(PersistentFilters.searchHistory);
             sessionLines = vscode.workspace.getConfiguration(this.schema).get(PersistentFilters.sessions);
             fileHistoryLines = vscode.workspace.getConfiguration(this.schema).get(PersistentFilters.fileHistory);
             dsTemplateLines = vscode.workspace.getConfiguration(this.schema).get(PersistentFilters.templates);
+            sessionOptions = vscode.workspace.getConfiguration(this.schema).get(PersistentFilters.sessionOptions);
         }
         if (searchHistoryLines) {
             this.mSearchHistory = searchHistoryLines;
@@ -304,5 +345,7 @@ export class PersistentFilters {
         } else {
             this.resetDsTemplateHistory();
         }
+        // The options of a session are only saved once they have been changed
+        this.mSessionOptions = sessionOptions ?? {};
     }
 }
@@ -15,28 +15,30 @@ import { ZoweExplorerApiRegister } from "./ZoweExplorerApiRegister";
 import { Profiles } from "./Profiles";
 import { ZoweLogger } from "./utils/LoggerUtils";
 import { IZoweJobTreeNode } from "@zowe/zowe-explorer-api";
+import { normalizeSpoolContent } from "./job/utils";
 
 export default class SpoolProvider implements vscode.TextDocumentContentProvider {
     // Track files that have been opened previously through the SpoolProvider
     public static files: { [key: string]: SpoolFile } = {};
 
     public static scheme = "zosspool";
+    // Fragment of the URIs that show the spool content with its job numbers, times and dates masked
+    public static normalizedFragment = "normalized";
     public static onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
     public onDidChange = SpoolProvider.onDidChangeEmitter.event;
 
     public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
         ZoweLogger.trace("SpoolProvider.provideTextDocumentContent called.");
-        const spoolFile = SpoolProvider.files[uri.path];
-        if (spoolFile) {
-            // Use latest cached content from stored SpoolFile object
-            return spoolFile.content;
+        let spoolFile = SpoolProvider.files[uri.path];
+        if (!spoolFile) {
+            // Track the new spool file and pass the event emitter for future updates
+            spoolFile = new SpoolFile(uri, SpoolProvider.onDidChangeEmitter);
+            await spoolFile.fetchContent();
+            SpoolProvider.files[uri.path] = spoolFile;
         }
 
-        // Track the new spool file and pass the event emitter for future updates
-        const newSpoolFile = new SpoolFile(uri, SpoolProvider.onDidChangeEmitter);
-        await newSpoolFile.fetchContent();
-        SpoolProvider.files[uri.path] = newSpoolFile;
-        return newSpoolFile.content;
+        // Use latest cached content from stored SpoolFile object
+        return uri.fragment === SpoolProvider.normalizedFragment ? normalizeSpoolContent(spoolFile.content) : spoolFile.content;
     }
 
     public dispose(): void {
@@ -13,6 +13,7 @@ import { imperative } from "@zowe/cli";
 import { ZoweExplorerApi, ZosmfUssApi, ZosmfMvsApi, ZosmfJesApi, ZosmfCommandApi } from "@zowe/zowe-explorer-api";
 import { ZoweExplorerExtender } from "./ZoweExplorerExtender";
 import { ZoweLogger } from "./utils/LoggerUtils";
+import { OfflineCache } from "./utils/OfflineCache";
 import * as nls from "vscode-nls";
 
 // Set up localization
@@ -236,7 +237,8 @@ export class ZoweExplorerApiRegister implements ZoweExplorerApi.IApiRegisterClie
             // create a clone of the API object that remembers the profile with which it was created
             const api = Object.create(this.ussApiImplementations.get(profile.type)) as ZoweExplorerApi.IUss;
             api.profile = profile;
-            return api;
+            // record the responses when the offline cache is enabled
+            return OfflineCache.cacheUssApi(api);
         } else {
             throw new Error(localize("getUssApi.error", "Internal error: Tried to call a non-existing USS API in API register: ") + profile.type);
         }
@@ -252,7 +254,8 @@ export class ZoweExplorerApiRegister implements ZoweExplorerApi.IApiRegisterClie
             // create a clone of the API object that remembers the profile with which it was created
             const api = Object.create(this.mvsApiImplementations.get(profile.type)) as ZoweExplorerApi.IMvs;
             api.profile = profile;
-            return api;
+            // record the responses when the offline cache is enabled
+            return OfflineCache.cacheMvsApi(api);
         } else {
             throw new Error(localize("getMvsApi.error", "Internal error: Tried to call a non-existing MVS API in API register: ") + profile.type);
         }
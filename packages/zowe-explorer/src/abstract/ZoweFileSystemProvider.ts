@@ -0,0 +1,318 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import * as globals from "../globals";
+import { imperative } from "@zowe/cli";
+import { Gui } from "@zowe/zowe-explorer-api";
+import { Profiles } from "../Profiles";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import { getBaseContent, hasConflictMarkers, mergeContents, setBaseContent } from "../shared/merge";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * Metadata tracked for every remote resource that has been resolved through a Zowe file system provider.
+ */
+export interface ZoweFileEntry extends vscode.FileStat {
+    /**
+     * Etag returned by the last download or upload, used to detect conflicting changes on save
+     */
+    etag?: string;
+    /**
+     * Whether the resource is transferred in binary mode
+     */
+    binary?: boolean;
+    /**
+     * The codeset the contents are converted from, when it is not the encoding of the profile
+     */
+    encoding?: string;
+    /**
+     * When the contents were cached, set when they were read from the offline cache because the host could not be reached
+     */
+    savedAt?: Date;
+    /**
+     * Whether the contents in the editor were merged with remote changes and have conflicts to resolve before saving
+     */
+    conflicts?: boolean;
+}
+
+/**
+ * Common implementation of the `vscode.FileSystemProvider` methods shared by the
+ * `zowe-ds` and `zowe-uss` schemes.
+ *
+ * URIs are formatted as `<scheme>:/<profile name>/<remote path>`. Contents are never kept in the
+ * temporary downloads folder: the API calls stage them in a transient file that is removed
+ * as soon as the request completes, so extenders only need to support file based transfers.
+ *
+ * @export
+ * @abstract
+ * @class ZoweFileSystemProvider
+ */
+export abstract class ZoweFileSystemProvider implements vscode.FileSystemProvider {
+    private static transientFileCount = 0;
+
+    protected entries: Map<string, ZoweFileEntry> = new Map();
+    protected onDidChangeFileEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    public readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this.onDidChangeFileEmitter.event;
+
+    public abstract stat(uri: vscode.Uri): Promise<vscode.FileStat>;
+    public abstract readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]>;
+    public abstract readFile(uri: vscode.Uri): Promise<Uint8Array>;
+    public abstract writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void>;
+    public abstract createDirectory(uri: vscode.Uri): Promise<void>;
+    public abstract delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void>;
+    public abstract rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void>;
+
+    /**
+     * Remote resources cannot be watched, changes are signalled when they are made through this provider.
+     */
+    public watch(): vscode.Disposable {
+        return new vscode.Disposable(() => {
+            // ignore, there is nothing to stop watching
+        });
+    }
+
+    public dispose(): void {
+        this.onDidChangeFileEmitter.dispose();
+    }
+
+    /**
+     * Returns the etag cached for the given resource, if any
+     *
+     * @param {vscode.Uri} uri
+     * @returns {string}
+     */
+    public getEtag(uri: vscode.Uri): string {
+        return this.entries.get(uri.path)?.etag;
+    }
+
+    /**
+     * Splits the URI path into the profile name and the remaining path segments
+     *
+     * @param {vscode.Uri} uri
+     * @returns {[string, string[]]}
+     */
+    protected parseUri(uri: vscode.Uri): [string, string[]] {
+        const [profileName, ...segments] = uri.path.split("/").filter((segment) => segment.length > 0);
+        if (!profileName) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return [profileName, segments];
+    }
+
+    /**
+     * Loads the profile referenced by the first segment of the URI path
+     *
+     * @param {vscode.Uri} uri
+     * @returns {imperative.IProfileLoaded}
+     */
+    protected getProfile(uri: vscode.Uri): imperative.IProfileLoaded {
+        const [profileName] = this.parseUri(uri);
+        let profile: imperative.IProfileLoaded;
+        try {
+            profile = Profiles.getInstance().loadNamedProfile(profileName);
+        } catch (err) {
+            ZoweLogger.warn(err);
+        }
+        if (!profile) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return profile;
+    }
+
+    /**
+     * Caches the metadata of a resource, keeping the creation time of an existing entry
+     *
+     * @param {vscode.Uri} uri
+     * @param {Partial<ZoweFileEntry>} entry
+     * @returns {ZoweFileEntry}
+     */
+    protected updateEntry(uri: vscode.Uri, entry: Partial<ZoweFileEntry>): ZoweFileEntry {
+        const now = Date.now();
+        const existing = this.entries.get(uri.path);
+        const updated: ZoweFileEntry = {
+            type: vscode.FileType.File,
+            ctime: now,
+            mtime: now,
+            size: 0,
+            ...existing,
+            ...entry,
+        };
+        this.entries.set(uri.path, updated);
+        return updated;
+    }
+
+    /**
+     * Notifies the editor that a resource was created, changed or deleted
+     *
+     * @param {vscode.Uri} uri
+     * @param {vscode.FileChangeType} type
+     */
+    protected fireChange(uri: vscode.Uri, type: vscode.FileChangeType): void {
+        if (type === vscode.FileChangeType.Deleted) {
+            this.entries.delete(uri.path);
+        }
+        this.onDidChangeFileEmitter.fire([{ type, uri }]);
+    }
+
+    /**
+     * Refuses to save a resource whose contents were read from the offline cache, they may be older than the contents on the host
+     *
+     * @param {vscode.Uri} uri
+     * @param {ZoweFileEntry} entry
+     */
+    protected checkNotCached(uri: vscode.Uri, entry: ZoweFileEntry): void {
+        if (entry?.savedAt) {
+            throw vscode.FileSystemError.NoPermissions(
+                localize("checkNotCached.readOnly", "{0} was opened from the offline cache and cannot be saved", uri.path)
+            );
+        }
+    }
+
+    /**
+     * Remembers the contents downloaded or uploaded last, used as the common ancestor when the remote resource changes
+     * before the contents being edited are saved. Binary contents are not merged.
+     *
+     * @param {vscode.Uri} uri
+     * @param {Uint8Array} contents
+     */
+    protected rememberBaseContent(uri: vscode.Uri, contents: Uint8Array): void {
+        if (!this.entries.get(uri.path)?.binary) {
+            setBaseContent(uri.toString(), Buffer.from(contents).toString());
+        }
+    }
+
+    /**
+     * Refuses to save a resource that still has conflicts with the remote changes merged into it
+     *
+     * @param {vscode.Uri} uri
+     * @param {ZoweFileEntry} entry
+     * @param {Uint8Array} content the contents being saved
+     */
+    protected checkConflictsResolved(uri: vscode.Uri, entry: ZoweFileEntry, content: Uint8Array): void {
+        if (entry?.conflicts && hasConflictMarkers(Buffer.from(content).toString())) {
+            throw vscode.FileSystemError.NoPermissions(
+                localize("checkConflictsResolved.unresolved", "Resolve all conflicts in {0} before saving it.", uri.path)
+            );
+        }
+    }
+
+    /**
+     * Whether an upload was refused because the remote resource changed since its etag was read
+     *
+     * @param {any} err the error thrown by the API
+     * @returns {boolean}
+     */
+    protected isEtagMismatch(err: any): boolean {
+        const errorCode = err?.errorCode ?? err?.mDetails?.errorCode;
+        return `${errorCode as string}` === "412" || err?.message?.includes("Rest API failure with HTTP(S) status 412") === true;
+    }
+
+    /**
+     * Merges the remote changes into the contents being saved, the same way as the files saved from the temporary downloads folder.
+     * When the changes do not overlap, the merged contents are returned to be uploaded with the etag of the remote contents.
+     * Otherwise the conflicts are written in the editor, to be resolved before saving again, and the save is refused.
+     *
+     * @param {vscode.Uri} uri
+     * @param {Uint8Array} content the contents being saved
+     * @param {Uint8Array} remoteContent the contents currently on the mainframe
+     * @param {string} remoteEtag the etag of the remote contents
+     * @returns {Promise<Uint8Array>} the merged contents
+     */
+    protected async mergeRemoteChanges(uri: vscode.Uri, content: Uint8Array, remoteContent: Uint8Array, remoteEtag: string): Promise<Uint8Array> {
+        ZoweLogger.warn(localize("mergeRemoteChanges.log.warning", "{0} has changed on the mainframe, merging the remote changes.", uri.path));
+        const entry = this.updateEntry(uri, { etag: remoteEtag });
+        if (entry.binary) {
+            // binary contents cannot be merged line by line
+            throw vscode.FileSystemError.Unavailable(
+                localize("mergeRemoteChanges.binary", "{0} has changed on the mainframe. Reopen it to see the remote version.", uri.path)
+            );
+        }
+
+        const remoteText = Buffer.from(remoteContent).toString();
+        const mergeResult = mergeContents(getBaseContent(uri.toString()), Buffer.from(content).toString(), remoteText, {
+            local: localize("mergeRemoteChanges.label.local", "Local changes"),
+            base: localize("mergeRemoteChanges.label.base", "Downloaded version"),
+            remote: localize("mergeRemoteChanges.label.remote", "Remote version"),
+        });
+        setBaseContent(uri.toString(), remoteText);
+        if (mergeResult.conflicts === 0) {
+            Gui.showMessage(
+                localize(
+                    "mergeRemoteChanges.merged",
+                    "{0} has changed on the mainframe and the remote changes were merged with your changes.",
+                    uri.path
+                )
+            );
+            return Buffer.from(mergeResult.content);
+        }
+
+        entry.conflicts = true;
+        const doc = vscode.workspace.textDocuments.find((textDocument) => textDocument.uri.toString() === uri.toString());
+        if (doc) {
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(doc.uri, new vscode.Range(new vscode.Position(0, 0), new vscode.Position(doc.lineCount, 0)), mergeResult.content);
+            await vscode.workspace.applyEdit(edit);
+        }
+        throw vscode.FileSystemError.Unavailable(
+            localize(
+                "mergeRemoteChanges.conflicts",
+                "{0} has changed on the mainframe. Resolve the {1} conflict(s) with your changes, then save again.",
+                uri.path,
+                mergeResult.conflicts
+            )
+        );
+    }
+
+    /**
+     * Maps "not found" responses from the APIs to the error expected by the editor
+     *
+     * @param {any} err the error thrown by the API
+     * @param {vscode.Uri} uri
+     * @returns {Error}
+     */
+    protected toFileSystemError(err: any, uri: vscode.Uri): Error {
+        const errorCode = err?.errorCode ?? err?.mDetails?.errorCode;
+        if (`${errorCode as string}` === "404") {
+            return vscode.FileSystemError.FileNotFound(uri);
+        }
+        return err as Error;
+    }
+
+    /**
+     * Runs a transfer that needs a local file, removing the file once the transfer is complete
+     *
+     * @param {(filePath: string) => Promise<T>} transfer
+     * @returns {Promise<T>}
+     */
+    protected async withTransientFile<T>(transfer: (filePath: string) => Promise<T>): Promise<T> {
+        if (!fs.existsSync(globals.ZOWE_TMP_FOLDER)) {
+            fs.mkdirSync(globals.ZOWE_TMP_FOLDER, { recursive: true });
+        }
+        const filePath = path.join(globals.ZOWE_TMP_FOLDER, `fsp-${process.pid}-${Date.now()}-${ZoweFileSystemProvider.transientFileCount++}`);
+        try {
+            return await transfer(filePath);
+        } finally {
+            if (fs.existsSync(filePath)) {
+                fs.unlinkSync(filePath);
+            }
+        }
+    }
+}
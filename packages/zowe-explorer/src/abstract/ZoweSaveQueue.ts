@@ -9,11 +9,15 @@
  *
  */
 
+import * as fs from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
+import * as globals from "../globals";
 import { Gui, IZoweTree, IZoweTreeNode } from "@zowe/zowe-explorer-api";
 import { markDocumentUnsaved } from "../utils/workspace";
 import { ZoweLogger } from "../utils/LoggerUtils";
+import { isTransientError } from "../utils/ProfilesUtils";
+import { getBaseContent, setBaseContent } from "../shared/merge";
 
 // Set up localization
 import * as nls from "vscode-nls";
@@ -23,17 +27,48 @@ nls.config({
 })();
 const localize: nls.LocalizeFunc = nls.loadMessageBundle();
 
-interface SaveRequest {
+export interface SaveRequest {
     uploadRequest: (document: SaveRequest["savedFile"], provider: SaveRequest["fileProvider"]) => Promise<void>;
     savedFile: vscode.TextDocument;
     fileProvider: IZoweTree<IZoweTreeNode>;
 }
 
+/**
+ * Saved file that has not been uploaded yet, persisted so that the upload can be resumed after a window reload
+ */
+export interface PendingUpload {
+    fileName: string;
+    uri: string;
+    content: string;
+    baseContent?: string;
+    queuedAt: number;
+    attempts: number;
+    status: "queued" | "retrying" | "failed" | "interrupted";
+    lastError?: string;
+}
+
 /**
  * Class to handle queueing of file save/upload operations.
  * Architecture is documented in `docs/developer/File-Save-Flow.md`
  */
 export class ZoweSaveQueue {
+    public static readonly PENDING_UPLOADS_KEY = "zowe.saveQueue.pendingUploads";
+    private static pendingUploadsEmitter = new vscode.EventEmitter<void>();
+    public static readonly onDidChangePendingUploads = ZoweSaveQueue.pendingUploadsEmitter.event;
+
+    /**
+     * Load the uploads that were still pending when the window was closed.
+     * Uploads are only persisted once the queue has been initialized.
+     */
+    public static initialize(state: vscode.Memento): void {
+        ZoweLogger.trace("ZoweSaveQueue.initialize called.");
+        this.state = state;
+        this.pendingUploads = (state?.get<PendingUpload[]>(this.PENDING_UPLOADS_KEY) ?? []).map((upload) =>
+            upload.status === "failed" ? upload : { ...upload, status: "interrupted" }
+        );
+        this.pendingUploadsEmitter.fire();
+    }
+
     /**
      * Enqueue a request to upload a file that has been saved. Also start
      * processing the next item in the queue if there are no active upload
@@ -42,6 +77,7 @@ export class ZoweSaveQueue {
     public static push(request: SaveRequest): void {
         ZoweLogger.trace("ZoweSaveQueue.push called.");
         this.savingQueue.push(request);
+        this.persistPendingUpload(request.savedFile);
         this.ongoingSave = this.all().then(this.processNext.bind(this));
     }
 
@@ -53,33 +89,134 @@ export class ZoweSaveQueue {
         await this.ongoingSave;
     }
 
+    /**
+     * Uploads that have been queued but not completed, including the ones left over from a previous session.
+     */
+    public static getPendingUploads(): PendingUpload[] {
+        return [...this.pendingUploads];
+    }
+
+    /**
+     * Forget a pending upload without uploading its contents.
+     */
+    public static discard(fileName: string): void {
+        ZoweLogger.trace("ZoweSaveQueue.discard called.");
+        this.updatePendingUploads(this.pendingUploads.filter((upload) => upload.fileName !== fileName));
+    }
+
+    /**
+     * Write the contents of a pending upload back to its local file, so that it can be queued again.
+     */
+    public static async restoreDocument(upload: PendingUpload): Promise<vscode.TextDocument> {
+        ZoweLogger.trace("ZoweSaveQueue.restoreDocument called.");
+        const openedDocument = vscode.workspace.textDocuments.find((doc) => doc.fileName === upload.fileName);
+        if (!openedDocument?.isDirty && (!fs.existsSync(upload.fileName) || fs.readFileSync(upload.fileName).toString() !== upload.content)) {
+            fs.mkdirSync(path.dirname(upload.fileName), { recursive: true });
+            fs.writeFileSync(upload.fileName, upload.content);
+        }
+        if (upload.baseContent != null && getBaseContent(upload.fileName) == null) {
+            setBaseContent(upload.fileName, upload.baseContent);
+        }
+        return openedDocument ?? vscode.workspace.openTextDocument(upload.fileName);
+    }
+
     private static ongoingSave = Promise.resolve();
     private static savingQueue: SaveRequest[] = [];
+    private static pendingUploads: PendingUpload[] = [];
+    private static state: vscode.Memento;
 
     /**
      * Iterate over the queue and process next item until it is empty.
+     * Uploads that fail because of a network error are retried with an increasing delay.
      */
     private static async processNext(): Promise<void> {
         ZoweLogger.trace("ZoweSaveQueue.processNext called.");
         const nextRequest = this.savingQueue.shift();
-        if (nextRequest == null || this.savingQueue.some(({ savedFile }) => savedFile.fileName === nextRequest.savedFile.fileName)) {
+        if (nextRequest == null || this.hasNewerSave(nextRequest)) {
             return;
         }
 
-        try {
-            await nextRequest.uploadRequest(nextRequest.savedFile, nextRequest.fileProvider);
-        } catch (err) {
-            ZoweLogger.error(err);
-            await markDocumentUnsaved(nextRequest.savedFile);
-            await Gui.errorMessage(
-                localize(
-                    "processNext.error.uploadFailed",
-                    "Failed to upload changes for {0}: {1}",
-                    this.buildFileHyperlink(nextRequest.savedFile),
-                    err.message
-                )
-            );
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await nextRequest.uploadRequest(nextRequest.savedFile, nextRequest.fileProvider);
+                if (!this.hasNewerSave(nextRequest)) {
+                    this.updatePendingUploads(this.pendingUploads.filter((upload) => upload.fileName !== nextRequest.savedFile.fileName));
+                }
+                return;
+            } catch (err) {
+                ZoweLogger.error(err);
+                if (this.hasNewerSave(nextRequest)) {
+                    return;
+                }
+                if (attempt <= globals.SAVE_QUEUE_MAX_RETRIES && isTransientError(err)) {
+                    const delay = globals.SAVE_QUEUE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+                    ZoweLogger.warn(
+                        localize(
+                            "processNext.retry",
+                            "Failed to upload changes for {0}, retrying in {1} seconds: {2}",
+                            nextRequest.savedFile.fileName,
+                            delay / globals.MS_PER_SEC,
+                            err.message
+                        )
+                    );
+                    this.updatePendingUpload(nextRequest.savedFile.fileName, { status: "retrying", attempts: attempt, lastError: err.message });
+                    await this.delay(delay);
+                    continue;
+                }
+
+                this.updatePendingUpload(nextRequest.savedFile.fileName, { status: "failed", attempts: attempt, lastError: err.message });
+                await markDocumentUnsaved(nextRequest.savedFile);
+                await Gui.errorMessage(
+                    localize(
+                        "processNext.error.uploadFailed",
+                        "Failed to upload changes for {0}: {1}",
+                        this.buildFileHyperlink(nextRequest.savedFile),
+                        err.message
+                    )
+                );
+                return;
+            }
+        }
+    }
+
+    /**
+     * Check whether a newer save of the same document is waiting in the queue.
+     */
+    private static hasNewerSave(request: SaveRequest): boolean {
+        return this.savingQueue.some(({ savedFile }) => savedFile.fileName === request.savedFile.fileName);
+    }
+
+    private static delay(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    /**
+     * Keep a copy of the saved contents until the upload completes.
+     */
+    private static persistPendingUpload(savedFile: vscode.TextDocument): void {
+        if (this.state == null) {
+            return;
         }
+        const upload: PendingUpload = {
+            fileName: savedFile.fileName,
+            uri: savedFile.uri.toString(),
+            content: savedFile.getText(),
+            baseContent: getBaseContent(savedFile.fileName),
+            queuedAt: Date.now(),
+            attempts: 0,
+            status: "queued",
+        };
+        this.updatePendingUploads([...this.pendingUploads.filter((pending) => pending.fileName !== upload.fileName), upload]);
+    }
+
+    private static updatePendingUpload(fileName: string, changes: Partial<PendingUpload>): void {
+        this.updatePendingUploads(this.pendingUploads.map((upload) => (upload.fileName === fileName ? { ...upload, ...changes } : upload)));
+    }
+
+    private static updatePendingUploads(pendingUploads: PendingUpload[]): void {
+        this.pendingUploads = pendingUploads;
+        this.state?.update(this.PENDING_UPLOADS_KEY, pendingUploads);
+        this.pendingUploadsEmitter.fire();
     }
 
     /**
@@ -0,0 +1,695 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as zowe from "@zowe/cli";
+import { DataSetAllocTemplate, Gui, IZoweDatasetTreeNode, IZoweTree } from "@zowe/zowe-explorer-api";
+import * as globals from "../globals";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
+import { errorHandling } from "../utils/ProfilesUtils";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import { WebviewUtils } from "../utils/WebviewUtils";
+import { getIconByNode } from "../generators/icons";
+import { getWorkspaceTemplates, resolveDsNamePlaceholders, validateDataSetName } from "./utils";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * A data set type of Zowe Explorer, with defaults from the `zowe.ds.default.*` settings,
+ * a template that was saved by the user, or a template shared in the `.zowe/templates.json` file of a workspace folder
+ */
+export interface IAllocateTemplate {
+    kind: "type" | "template" | "workspace";
+    name: string;
+    folder?: string;
+}
+
+/**
+ * The values of the allocation form by the keys of `globals.DATA_SET_PROPERTIES`, as they are entered
+ */
+export type AllocateValues = { [key: string]: string };
+
+export interface IAllocateValidation {
+    dsName: string;
+    options: Partial<zowe.ICreateDataSetOptions>;
+    errors: { [key: string]: string };
+}
+
+interface IAllocateMessage {
+    command: string;
+    template: IAllocateTemplate;
+    values: AllocateValues;
+}
+
+type AddError = (key: string, message: string) => void;
+
+const MAX_BLOCK_SIZE = 32760;
+const RDW_LENGTH = 4;
+const NUMERIC_OPTIONS = ["avgblk", "blksize", "dirblk", "lrecl", "primary", "secondary"];
+const SPACE_UNITS = ["TRK", "CYL", "BLK"];
+const DSN_TYPES = ["BASIC", "EXTPREF", "EXTREQ", "LARGE", "LIBRARY", "PDS"];
+const PARTITIONED_DSN_TYPES = ["LIBRARY", "PDS"];
+const SEQUENTIAL_DSN_TYPES = ["BASIC", "LARGE"];
+const RECFM_REGEX = /^(U|[FV]B?S?)[AM]?$/;
+const SMS_CLASS_REGEX = /^[A-Z$#@][A-Z0-9$#@]{0,7}$/;
+const VOLSER_REGEX = /^[A-Z0-9$#@]{1,6}$/;
+const UNIT_REGEX = /^[A-Z0-9$#@-]{1,8}$/;
+const SIZE_REGEX = /^\d+(TRK|CYL)?$/;
+
+function getDataSetTypes(): { name: string; typeEnum: zowe.CreateDataSetTypeEnum; setting: string }[] {
+    return [
+        {
+            name: localize("createFile.dataSetBinary", "Partitioned Data Set: Binary"),
+            typeEnum: zowe.CreateDataSetTypeEnum.DATA_SET_BINARY,
+            setting: globals.SETTINGS_DS_DEFAULT_BINARY,
+        },
+        {
+            name: localize("createFile.dataSetC", "Partitioned Data Set: C"),
+            typeEnum: zowe.CreateDataSetTypeEnum.DATA_SET_C,
+            setting: globals.SETTINGS_DS_DEFAULT_C,
+        },
+        {
+            name: localize("createFile.dataSetClassic", "Partitioned Data Set: Classic"),
+            typeEnum: zowe.CreateDataSetTypeEnum.DATA_SET_CLASSIC,
+            setting: globals.SETTINGS_DS_DEFAULT_CLASSIC,
+        },
+        {
+            name: localize("createFile.dataSetPartitioned", "Partitioned Data Set: Default"),
+            typeEnum: zowe.CreateDataSetTypeEnum.DATA_SET_PARTITIONED,
+            setting: globals.SETTINGS_DS_DEFAULT_PDS,
+        },
+        {
+            name: localize("createFile.dataSetSequential", "Sequential Data Set"),
+            typeEnum: zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL,
+            setting: globals.SETTINGS_DS_DEFAULT_PS,
+        },
+    ];
+}
+
+/**
+ * Lists the templates that can be picked in the allocation form,
+ * the templates saved by the user come first and the templates of the workspace folders next
+ *
+ * @param {IZoweTree<IZoweDatasetTreeNode>} datasetProvider
+ */
+export function getAllocateTemplates(datasetProvider: IZoweTree<IZoweDatasetTreeNode>): IAllocateTemplate[] {
+    ZoweLogger.trace("AllocateView.getAllocateTemplates called.");
+    const savedTemplates: IAllocateTemplate[] = [];
+    datasetProvider.getDsTemplates()?.forEach((template) => {
+        Object.keys(template).forEach((name) => savedTemplates.push({ kind: "template", name }));
+    });
+    return savedTemplates.concat(
+        getWorkspaceTemplates().map((template): IAllocateTemplate => ({ kind: "workspace", name: template.name, folder: template.folder })),
+        getDataSetTypes().map((type): IAllocateTemplate => ({ kind: "type", name: type.name }))
+    );
+}
+
+/**
+ * Reads the attributes of a template. The attributes of a data set type are the defaults of Zowe CLI,
+ * changed by the `zowe.ds.default.*` setting of the type. Workspace templates may also have a data set name.
+ *
+ * @param {IAllocateTemplate} template
+ * @param {IZoweTree<IZoweDatasetTreeNode>} datasetProvider
+ */
+export function getTemplateOptions(
+    template: IAllocateTemplate,
+    datasetProvider: IZoweTree<IZoweDatasetTreeNode>
+): Partial<zowe.ICreateDataSetOptions> & { dsName?: string } {
+    ZoweLogger.trace("AllocateView.getTemplateOptions called.");
+    if (template.kind === "template") {
+        const savedTemplate: DataSetAllocTemplate = datasetProvider.getDsTemplates()?.find((saved) => Object.keys(saved).includes(template.name));
+        return { ...savedTemplate?.[template.name] };
+    }
+    if (template.kind === "workspace") {
+        const workspaceTemplate = getWorkspaceTemplates().find((shared) => shared.folder === template.folder && shared.name === template.name);
+        return { ...workspaceTemplate?.options };
+    }
+    const type = getDataSetTypes().find((dataSetType) => dataSetType.name === template.name);
+    if (!type) {
+        return {};
+    }
+    const cliDefaultsKey = globals.CreateDataSetTypeWithKeysEnum[type.typeEnum].replace("DATA_SET_", "");
+    const options: Partial<zowe.ICreateDataSetOptions> = { ...zowe.CreateDefaults.DATA_SET[cliDefaultsKey] };
+    const settings = vscode.workspace.getConfiguration(type.setting);
+    for (const property of globals.DATA_SET_PROPERTIES) {
+        const value = settings?.get(property.key);
+        if (value != null) {
+            options[property.key] = value;
+        }
+    }
+    return options;
+}
+
+/**
+ * Picks the type that `IMvs.createDataSet` merges the attributes with, the type of the template is kept
+ * unless the organization of the data set was changed
+ */
+function getTypeEnum(template: IAllocateTemplate, options: Partial<zowe.ICreateDataSetOptions>): zowe.CreateDataSetTypeEnum {
+    const isSequential = options.dsorg === "PS";
+    const type = template.kind === "type" ? getDataSetTypes().find((dataSetType) => dataSetType.name === template.name) : undefined;
+    if (type && (type.typeEnum === zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL) === isSequential) {
+        return type.typeEnum;
+    }
+    return isSequential ? zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL : zowe.CreateDataSetTypeEnum.DATA_SET_PARTITIONED;
+}
+
+function getFormValues(
+    template: IAllocateTemplate,
+    profile: zowe.imperative.IProfileLoaded,
+    datasetProvider: IZoweTree<IZoweDatasetTreeNode>
+): AllocateValues {
+    const options = getTemplateOptions(template, datasetProvider);
+    const values: AllocateValues = {};
+    if (options.dsName) {
+        values.dsName = resolveDsNamePlaceholders(options.dsName, profile);
+    }
+    for (const property of globals.DATA_SET_PROPERTIES) {
+        if (property.key !== "dsName") {
+            values[property.key] = options[property.key] == null ? "" : String(options[property.key]);
+        }
+    }
+    return values;
+}
+
+function checkOrganization(options: Partial<zowe.ICreateDataSetOptions>, addError: AddError): void {
+    if (options.dsorg && !["PO", "PS"].includes(options.dsorg)) {
+        addError("dsorg", localize("allocate.dsorg.invalid", "Enter PO or PS."));
+    }
+    if (options.dsntype && !DSN_TYPES.includes(options.dsntype)) {
+        addError("dsntype", localize("allocate.choice.invalid", "Enter one of {0}.", DSN_TYPES.join(", ")));
+    } else if (options.dsorg === "PS" && PARTITIONED_DSN_TYPES.includes(options.dsntype)) {
+        addError("dsntype", localize("allocate.dsntype.partitioned", "DSNTYPE {0} can only be used for partitioned data sets.", options.dsntype));
+    } else if (options.dsorg === "PO" && SEQUENTIAL_DSN_TYPES.includes(options.dsntype)) {
+        addError("dsntype", localize("allocate.dsntype.sequential", "DSNTYPE {0} can only be used for sequential data sets.", options.dsntype));
+    }
+    if (options.dsorg === "PS" && options.dirblk) {
+        addError("dirblk", localize("allocate.dirblk.sequential", "Directory blocks can only be allocated for partitioned data sets."));
+    } else if (options.dsorg === "PO" && options.dsntype !== "LIBRARY" && !options.dirblk) {
+        addError("dirblk", localize("allocate.dirblk.required", "Enter the number of directory blocks of the partitioned data set."));
+    }
+}
+
+function checkSpace(options: Partial<zowe.ICreateDataSetOptions>, addError: AddError): void {
+    if (options.alcunit && !SPACE_UNITS.includes(options.alcunit)) {
+        addError("alcunit", localize("allocate.choice.invalid", "Enter one of {0}.", SPACE_UNITS.join(", ")));
+    }
+    if (!options.primary) {
+        addError("primary", localize("allocate.primary.invalid", "The primary space must be greater than 0."));
+    }
+    if (options.alcunit === "BLK" && !options.avgblk) {
+        addError("avgblk", localize("allocate.avgblk.required", "Enter the average block length when the space is allocated in blocks."));
+    }
+    if (options.size && !SIZE_REGEX.test(options.size)) {
+        addError("size", localize("allocate.size.invalid", "Enter a size such as 10CYL."));
+    }
+}
+
+function checkRecords(options: Partial<zowe.ICreateDataSetOptions>, addError: AddError): void {
+    const { recfm, lrecl, blksize } = options;
+    if (recfm && !RECFM_REGEX.test(recfm)) {
+        addError("recfm", localize("allocate.recfm.invalid", "Enter a record format such as FB, VB or U."));
+        return;
+    }
+    if (lrecl > MAX_BLOCK_SIZE) {
+        addError("lrecl", localize("allocate.lrecl.max", "The record length can be at most {0}.", MAX_BLOCK_SIZE));
+    }
+    if (blksize > MAX_BLOCK_SIZE) {
+        addError("blksize", localize("allocate.blksize.max", "The block size can be at most {0}.", MAX_BLOCK_SIZE));
+    }
+    if (recfm && !recfm.startsWith("U") && !lrecl) {
+        addError("lrecl", localize("allocate.lrecl.required", "Enter the record length."));
+    }
+    // A block size of 0 lets the system determine the block size
+    if (recfm && lrecl && blksize) {
+        checkBlockSize(recfm, lrecl, blksize, addError);
+    }
+}
+
+function checkBlockSize(recfm: string, lrecl: number, blksize: number, addError: AddError): void {
+    if (recfm.startsWith("F") && recfm.includes("B") && blksize % lrecl !== 0) {
+        addError(
+            "blksize",
+            localize("allocate.blksize.fixedBlocked", "The block size of blocked fixed records must be a multiple of the record length.")
+        );
+    } else if (recfm.startsWith("F") && !recfm.includes("B") && blksize !== lrecl) {
+        addError("blksize", localize("allocate.blksize.fixed", "The block size of unblocked fixed records must be the record length."));
+    } else if (recfm.startsWith("V") && lrecl <= RDW_LENGTH) {
+        addError("lrecl", localize("allocate.lrecl.variable", "The record length of variable records must be greater than {0}.", RDW_LENGTH));
+    } else if (recfm.startsWith("V") && blksize < lrecl + RDW_LENGTH) {
+        addError(
+            "blksize",
+            localize("allocate.blksize.variable", "The block size of variable records must be at least the record length plus {0}.", RDW_LENGTH)
+        );
+    }
+}
+
+function checkNames(options: Partial<zowe.ICreateDataSetOptions>, addError: AddError): void {
+    for (const key of ["storclass", "mgntclass", "dataclass"]) {
+        if (options[key] && !SMS_CLASS_REGEX.test(options[key])) {
+            addError(key, localize("allocate.smsClass.invalid", "Enter a name of 1 to 8 characters that starts with a letter, $, # or @."));
+        }
+    }
+    if (options.volser && !VOLSER_REGEX.test(options.volser)) {
+        addError("volser", localize("allocate.volser.invalid", "Enter a volume serial of 1 to 6 characters."));
+    }
+    if (options.unit && !UNIT_REGEX.test(options.unit)) {
+        addError("unit", localize("allocate.unit.invalid", "Enter a device type of 1 to 8 characters."));
+    }
+}
+
+/**
+ * Converts the values of the allocation form into options of `IMvs.createDataSet`, and checks that they are consistent
+ *
+ * @param {AllocateValues} values the values entered in the form
+ * @returns the options, and the error message of each invalid value
+ */
+export function validateAllocateValues(values: AllocateValues): IAllocateValidation {
+    ZoweLogger.trace("AllocateView.validateAllocateValues called.");
+    const errors: { [key: string]: string } = {};
+    const addError: AddError = (key, message) => {
+        errors[key] ??= message;
+    };
+    const options: Partial<zowe.ICreateDataSetOptions> = {};
+    const dsName = (values.dsName ?? "").trim().toUpperCase();
+    if (!validateDataSetName(dsName)) {
+        addError("dsName", localize("allocate.dsName.invalid", "Enter a valid data set name."));
+    }
+    for (const { key } of globals.DATA_SET_PROPERTIES) {
+        const value = (values[key] ?? "").trim().toUpperCase();
+        if (key === "dsName" || value === "") {
+            continue;
+        }
+        if (!NUMERIC_OPTIONS.includes(key)) {
+            options[key] = value;
+        } else if (/^\d+$/.test(value)) {
+            options[key] = Number(value);
+        } else {
+            addError(key, localize("allocate.number.invalid", "Enter a whole number."));
+        }
+    }
+    checkOrganization(options, addError);
+    checkSpace(options, addError);
+    checkRecords(options, addError);
+    checkNames(options, addError);
+    return { dsName, options, errors };
+}
+
+async function focusOnNewDs(node: IZoweDatasetTreeNode, dsName: string, datasetProvider: IZoweTree<IZoweDatasetTreeNode>): Promise<void> {
+    node.dirty = true;
+    const theFilter = datasetProvider.createFilterString(dsName, node);
+    datasetProvider.refresh();
+    node.tooltip = node.pattern = theFilter.toUpperCase();
+    node.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+    const icon = getIconByNode(node);
+    if (icon) {
+        node.iconPath = icon.path;
+    }
+
+    const newNode = await node.getChildren().then((children) => children.find((child) => child.label === dsName));
+    datasetProvider
+        .getTreeView()
+        .reveal(node, { select: true, focus: true })
+        .then(() => datasetProvider.getTreeView().reveal(newNode, { select: true, focus: true }));
+}
+
+/**
+ * Allocates the data set of the allocation form and reveals it in the tree
+ *
+ * @param {IZoweDatasetTreeNode} node the session to allocate the data set on
+ * @param {IAllocateTemplate} template the template the values were read from
+ * @param {AllocateValues} values the values entered in the form
+ * @param {IZoweTree<IZoweDatasetTreeNode>} datasetProvider
+ * @returns {Promise<boolean>} whether the data set was allocated, it is not when a value is invalid
+ */
+export async function allocateDataSet(
+    node: IZoweDatasetTreeNode,
+    template: IAllocateTemplate,
+    values: AllocateValues,
+    datasetProvider: IZoweTree<IZoweDatasetTreeNode>
+): Promise<boolean> {
+    ZoweLogger.trace("AllocateView.allocateDataSet called.");
+    const { dsName, options, errors } = validateAllocateValues(values);
+    if (Object.keys(errors).length > 0) {
+        return false;
+    }
+    const profile = node.getProfile();
+    try {
+        await ZoweExplorerApiRegister.getMvsApi(profile).createDataSet(getTypeEnum(template, options), dsName, {
+            responseTimeout: profile?.profile?.responseTimeout,
+            ...options,
+        });
+    } catch (err) {
+        await errorHandling(err, node.getProfileName(), localize("allocateNewDataSet.error", "Error encountered when creating data set."));
+        return false;
+    }
+    await focusOnNewDs(node, dsName, datasetProvider);
+    return true;
+}
+
+function getSavedTemplateNames(datasetProvider: IZoweTree<IZoweDatasetTreeNode>): string[] {
+    return (datasetProvider.getDsTemplates() ?? []).reduce((names: string[], saved) => names.concat(Object.keys(saved)), []);
+}
+
+/**
+ * Saves the attributes of the allocation form as a template, the name of the template is asked for.
+ * A saved template with the same name is only replaced when the user confirms it.
+ *
+ * @returns {Promise<string | undefined>} the name of the saved template, undefined when it was not saved
+ */
+export async function saveAllocateTemplate(
+    template: IAllocateTemplate,
+    values: AllocateValues,
+    datasetProvider: IZoweTree<IZoweDatasetTreeNode>
+): Promise<string | undefined> {
+    ZoweLogger.trace("AllocateView.saveAllocateTemplate called.");
+    const { options, errors } = validateAllocateValues(values);
+    delete errors.dsName;
+    if (Object.keys(errors).length > 0) {
+        Gui.errorMessage(localize("saveDsTemplate.invalid", "Correct the attributes before saving them as a template."));
+        return;
+    }
+    const typeNames = getDataSetTypes().map((type) => type.name);
+    const templateName = await Gui.showInputBox({
+        placeHolder: localize("saveDsTemplate.inputBox.placeHolder", "Name of Data Set Template"),
+        value: template.kind === "template" ? template.name : undefined,
+        ignoreFocusOut: true,
+        validateInput: (text) =>
+            typeNames.includes(text.trim()) ? localize("saveDsTemplate.name.reserved", "{0} is the name of a data set type.", text.trim()) : null,
+    });
+    if (!templateName?.trim()) {
+        return;
+    }
+    if (getSavedTemplateNames(datasetProvider).includes(templateName.trim())) {
+        const replaceButton = localize("saveDsTemplate.replace", "Replace");
+        const selection = await Gui.warningMessage(
+            localize("saveDsTemplate.confirmReplace", "The data set template {0} already exists. Do you want to replace it?", templateName.trim()),
+            { items: [replaceButton], vsCodeOpts: { modal: true } }
+        );
+        if (selection !== replaceButton) {
+            return;
+        }
+    }
+    datasetProvider.addDsTemplate({ [templateName.trim()]: options as zowe.ICreateDataSetOptions });
+    return templateName.trim();
+}
+
+/**
+ * Renames a saved template, the new name is asked for and cannot be the name of another saved template
+ *
+ * @returns {Promise<string | undefined>} the new name of the template, undefined when it was not renamed
+ */
+export async function renameAllocateTemplate(
+    template: IAllocateTemplate,
+    datasetProvider: IZoweTree<IZoweDatasetTreeNode>
+): Promise<string | undefined> {
+    ZoweLogger.trace("AllocateView.renameAllocateTemplate called.");
+    const typeNames = getDataSetTypes().map((type) => type.name);
+    const otherNames = getSavedTemplateNames(datasetProvider).filter((name) => name !== template.name);
+    const newName = (
+        await Gui.showInputBox({
+            prompt: localize("renameDsTemplate.inputBox.prompt", "Enter a new name for the data set template"),
+            value: template.name,
+            ignoreFocusOut: true,
+            validateInput: (text) => {
+                if (typeNames.includes(text.trim())) {
+                    return localize("saveDsTemplate.name.reserved", "{0} is the name of a data set type.", text.trim());
+                }
+                return otherNames.includes(text.trim())
+                    ? localize("renameDsTemplate.name.exists", "A data set template named {0} already exists.", text.trim())
+                    : null;
+            },
+        })
+    )?.trim();
+    if (!newName || newName === template.name) {
+        return;
+    }
+    datasetProvider.addDsTemplate({ [newName]: getTemplateOptions(template, datasetProvider) as zowe.ICreateDataSetOptions });
+    datasetProvider.removeDsTemplate(template.name);
+    return newName;
+}
+
+/**
+ * Deletes a saved template when the user confirms it
+ *
+ * @returns {Promise<boolean>} whether the template was deleted
+ */
+export async function deleteAllocateTemplate(template: IAllocateTemplate, datasetProvider: IZoweTree<IZoweDatasetTreeNode>): Promise<boolean> {
+    ZoweLogger.trace("AllocateView.deleteAllocateTemplate called.");
+    const deleteButton = localize("deleteDsTemplate.delete", "Delete");
+    const selection = await Gui.warningMessage(
+        localize("deleteDsTemplate.confirm", "Are you sure you want to delete the data set template {0}?", template.name),
+        { items: [deleteButton], vsCodeOpts: { modal: true } }
+    );
+    if (selection !== deleteButton) {
+        return false;
+    }
+    datasetProvider.removeDsTemplate(template.name);
+    return true;
+}
+
+function getTemplateOptionsHtml(templates: IAllocateTemplate[], selected: IAllocateTemplate): string {
+    const escape = (value: string): string => WebviewUtils.escapeHtml(value);
+    const option = (template: IAllocateTemplate): string => {
+        const isSelected = template.kind === selected.kind && template.name === selected.name && template.folder === selected.folder;
+        return `<option value="${escape(JSON.stringify(template))}"${isSelected ? " selected" : ""}>${escape(template.name)}</option>`;
+    };
+    // Show where the templates come from, the workspace templates are grouped by folder
+    const groups: [string, IAllocateTemplate[]][] = [[localize("allocate.templates.personal", "Personal Templates"), []]];
+    for (const template of templates) {
+        let label: string;
+        if (template.kind === "template") {
+            label = groups[0][0];
+        } else if (template.kind === "workspace") {
+            label = localize("allocate.templates.workspace", "Workspace Templates: {0}", template.folder);
+        } else {
+            label = localize("allocate.templates.types", "Data Set Types");
+        }
+        const group = groups.find(([groupLabel]) => groupLabel === label);
+        if (group) {
+            group[1].push(template);
+        } else {
+            groups.push([label, [template]]);
+        }
+    }
+    return groups
+        .filter(([, groupTemplates]) => groupTemplates.length > 0)
+        .map(([label, groupTemplates]) => `<optgroup label="${escape(label)}">${groupTemplates.map(option).join("")}</optgroup>`)
+        .join("");
+}
+
+function getAllocateForm(templates: IAllocateTemplate[], selected: IAllocateTemplate, values: AllocateValues): string {
+    const escape = (value: string): string => WebviewUtils.escapeHtml(value);
+    const choices: { [key: string]: string[] } = { dsorg: ["PO", "PS"], alcunit: SPACE_UNITS, dsntype: ["", ...DSN_TYPES] };
+    const groups: [string, string[]][] = [
+        [localize("allocate.group.general", "General"), ["dsName", "dsorg", "dsntype"]],
+        [localize("allocate.group.space", "Space"), ["alcunit", "primary", "secondary", "dirblk", "avgblk", "size"]],
+        [localize("allocate.group.dcb", "Data Control Block"), ["recfm", "lrecl", "blksize"]],
+        [localize("allocate.group.sms", "SMS Classes"), ["storclass", "mgntclass", "dataclass"]],
+        [localize("allocate.group.placement", "Placement"), ["volser", "unit"]],
+    ];
+    const input = (key: string): string => {
+        const value = values[key] ?? "";
+        if (!choices[key]) {
+            return `<input id="${key}" data-option="${key}" value="${escape(value)}">`;
+        }
+        const keyChoices = choices[key].includes(value) ? choices[key] : [...choices[key], value];
+        return `<select id="${key}" data-option="${key}">${keyChoices
+            .map((choice) => `<option value="${escape(choice)}"${choice === value ? " selected" : ""}>${escape(choice)}</option>`)
+            .join("")}</select>`;
+    };
+    const field = (key: string): string => {
+        const property = globals.DATA_SET_PROPERTIES.find((dsProperty) => dsProperty.key === key);
+        return `<div class="field">
+            <label for="${key}" title="${escape(property.placeHolder)}">${escape(property.label)}</label>
+            ${input(key)}
+            <span class="error" data-error-for="${key}"></span>
+        </div>`;
+    };
+    return `<form id="allocate">
+        <div class="field">
+            <label for="template">${escape(localize("allocate.template", "Template"))}</label>
+            <select id="template">${getTemplateOptionsHtml(templates, selected)}</select>
+            <span class="buttons">
+                <button type="button" data-command="saveTemplate">${escape(localize("allocate.saveTemplate", "Save as Template"))}</button>
+                <button type="button" data-command="renameTemplate">${escape(localize("allocate.renameTemplate", "Rename"))}</button>
+                <button type="button" data-command="deleteTemplate">${escape(localize("allocate.deleteTemplate", "Delete"))}</button>
+            </span>
+        </div>
+        ${groups
+            .map(
+                ([label, keys]) => `<fieldset>
+            <legend>${escape(label)}</legend>
+            ${keys.map(field).join("\n")}
+        </fieldset>`
+            )
+            .join("\n")}
+        <h3>${escape(localize("allocate.preview", "Allocation Options"))}</h3>
+        <pre id="preview"></pre>
+        <button type="submit">${escape(localize("allocate.submit", "Allocate"))}</button>
+    </form>`;
+}
+
+const STYLE = `
+    fieldset { margin-top: 1em; border: 1px solid var(--vscode-editorWidget-border); }
+    legend { font-weight: bold; }
+    .field { display: grid; grid-template-columns: 14em 16em auto; align-items: center; margin: 0.3em 0; }
+    .error { color: var(--vscode-errorForeground); margin-left: 1em; }
+    .buttons { margin-left: 1em; }
+    input, select {
+        color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border);
+    }
+    pre { padding: 0.5em; background: var(--vscode-textCodeBlock-background); }
+    button {
+        margin-top: 0.5em; padding: 0.4em 1em; border: none;
+        color: var(--vscode-button-foreground); background: var(--vscode-button-background);
+    }
+    button:disabled { opacity: 0.5; }
+`;
+
+const SCRIPT = `
+    const vscode = acquireVsCodeApi();
+    const form = document.getElementById("allocate");
+    const template = document.getElementById("template");
+    const getTemplate = () => JSON.parse(template.value);
+    const getValues = () => {
+        const values = {};
+        for (const input of form.querySelectorAll("[data-option]")) {
+            values[input.dataset.option] = input.value;
+        }
+        return values;
+    };
+    const post = (command) => vscode.postMessage({ command, template: getTemplate(), values: getValues() });
+    const updateButtons = () => {
+        for (const button of form.querySelectorAll("[data-command=renameTemplate], [data-command=deleteTemplate]")) {
+            button.disabled = getTemplate().kind !== "template";
+        }
+    };
+    form.addEventListener("input", (event) => {
+        if (event.target !== template) {
+            post("change");
+        }
+    });
+    template.addEventListener("change", () => {
+        updateButtons();
+        post("select");
+    });
+    for (const button of form.querySelectorAll("button[data-command]")) {
+        button.addEventListener("click", () => post(button.dataset.command));
+    }
+    form.addEventListener("submit", (event) => {
+        event.preventDefault();
+        post("allocate");
+    });
+    window.addEventListener("message", (event) => {
+        const message = event.data;
+        if (message.command === "values") {
+            for (const input of form.querySelectorAll("[data-option]")) {
+                if (input.dataset.option in message.values) {
+                    if (input.tagName === "SELECT" && ![...input.options].some((option) => option.value === message.values[input.dataset.option])) {
+                        input.add(new Option(message.values[input.dataset.option]));
+                    }
+                    input.value = message.values[input.dataset.option];
+                }
+            }
+            post("change");
+        } else if (message.command === "validation") {
+            for (const error of form.querySelectorAll(".error")) {
+                error.textContent = message.errors[error.dataset.errorFor] || "";
+            }
+            document.getElementById("preview").textContent = message.preview;
+        } else if (message.command === "templates") {
+            template.innerHTML = message.html;
+            updateButtons();
+        }
+    });
+    updateButtons();
+    post("change");
+`;
+
+/**
+ * Shows the form that allocates a data set. The attributes are filled in from a data set type, a saved template
+ * or a workspace template, they are checked while they are entered and the options that will be sent to `IMvs.createDataSet` are shown.
+ *
+ * @param {IZoweDatasetTreeNode} node the session to allocate the data set on
+ * @param {IZoweTree<IZoweDatasetTreeNode>} datasetProvider
+ */
+export function showAllocateView(node: IZoweDatasetTreeNode, datasetProvider: IZoweTree<IZoweDatasetTreeNode>): vscode.WebviewPanel {
+    ZoweLogger.trace("AllocateView.showAllocateView called.");
+    const title = localize("allocate.title", "Allocate Data Set on {0}", node.getProfileName());
+    const templates = getAllocateTemplates(datasetProvider);
+    const panel: vscode.WebviewPanel = Gui.createWebviewPanel({
+        viewType: "zowe",
+        title,
+        showOptions: vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : 1,
+        vscode: { enableScripts: true, retainContextWhenHidden: true },
+    });
+    panel.webview.html = WebviewUtils.getHtml(panel.webview, {
+        title,
+        body: getAllocateForm(templates, templates[0], getFormValues(templates[0], node.getProfile(), datasetProvider)),
+        style: STYLE,
+        script: SCRIPT,
+    });
+    const postTemplates = (selected: IAllocateTemplate): Thenable<boolean> => {
+        const newTemplates = getAllocateTemplates(datasetProvider);
+        return panel.webview.postMessage({ command: "templates", html: getTemplateOptionsHtml(newTemplates, selected ?? newTemplates[0]) });
+    };
+    const postValidation = (values: AllocateValues): Thenable<boolean> => {
+        const { options, errors } = validateAllocateValues(values);
+        return panel.webview.postMessage({ command: "validation", errors, preview: JSON.stringify(options, null, 2) });
+    };
+    const postValues = (template: IAllocateTemplate): Thenable<boolean> =>
+        panel.webview.postMessage({ command: "values", values: getFormValues(template, node.getProfile(), datasetProvider) });
+    panel.webview.onDidReceiveMessage(async (message: IAllocateMessage) => {
+        switch (message.command) {
+            case "change":
+                await postValidation(message.values);
+                break;
+            case "select":
+                await postValues(message.template);
+                break;
+            case "allocate":
+                if (await allocateDataSet(node, message.template, message.values, datasetProvider)) {
+                    panel.dispose();
+                } else {
+                    await postValidation(message.values);
+                }
+                break;
+            case "saveTemplate": {
+                const name = await saveAllocateTemplate(message.template, message.values, datasetProvider);
+                if (name) {
+                    await postTemplates({ kind: "template", name });
+                }
+                break;
+            }
+            case "renameTemplate": {
+                const name = await renameAllocateTemplate(message.template, datasetProvider);
+                if (name) {
+                    await postTemplates({ kind: "template", name });
+                }
+                break;
+            }
+            case "deleteTemplate":
+                if (await deleteAllocateTemplate(message.template, datasetProvider)) {
+                    const newTemplates = getAllocateTemplates(datasetProvider);
+                    await postTemplates(newTemplates[0]);
+                    await postValues(newTemplates[0]);
+                }
+                break;
+        }
+    });
+    return panel;
+}
@@ -0,0 +1,436 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as zowe from "@zowe/cli";
+import { Gui, IZoweDatasetTreeNode, IZoweTree } from "@zowe/zowe-explorer-api";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
+import { errorHandling } from "../utils/ProfilesUtils";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import { WebviewUtils } from "../utils/WebviewUtils";
+import * as contextually from "../shared/context";
+import { validateDataSetName } from "./utils";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+export interface IAttributeGroup {
+    key: string;
+    label: string;
+    attributes: { key: string; label: string; value: string }[];
+}
+
+/**
+ * The attributes that can be changed before a data set is allocated like another one.
+ * The values are kept as they are entered, `getCreateOptions` converts them for `IMvs.createDataSet`.
+ */
+export interface IAllocateLikeValues {
+    dsname?: string;
+    dsorg?: string;
+    dsntype?: string;
+    alcunit?: string;
+    primary?: string;
+    secondary?: string;
+    dirblk?: string;
+    recfm?: string;
+    lrecl?: string;
+    blksize?: string;
+    volser?: string;
+    storclass?: string;
+    mgntclass?: string;
+    dataclass?: string;
+}
+
+const MAX_PERCENT = 100;
+const NUMERIC_OPTIONS = ["primary", "secondary", "dirblk", "lrecl", "blksize"];
+const SPACE_UNITS = { TRACKS: "TRK", CYLINDERS: "CYL" };
+
+function getAttributeLabels(): { [key: string]: string } {
+    return {
+        dsname: localize("attributes.dsname", "Data Set Name"),
+        member: localize("attributes.member", "Member Name"),
+        dsorg: localize("attributes.dsorg", "Organization"),
+        dsntp: localize("attributes.dsntp", "Data Set Type"),
+        vol: localize("attributes.vol", "Volume"),
+        vols: localize("attributes.vols", "Volumes"),
+        dev: localize("attributes.dev", "Device Type"),
+        catnm: localize("attributes.catnm", "Catalog"),
+        migr: localize("attributes.migr", "Migrated"),
+        mvol: localize("attributes.mvol", "Multivolume"),
+        ovf: localize("attributes.ovf", "Volume Overflow"),
+        spacu: localize("attributes.spacu", "Space Units"),
+        sizex: localize("attributes.sizex", "Allocated Size"),
+        used: localize("attributes.used", "Used (%)"),
+        extx: localize("attributes.extx", "Extents"),
+        recfm: localize("attributes.recfm", "Record Format"),
+        lrecl: localize("attributes.lrecl", "Record Length"),
+        blksz: localize("attributes.blksz", "Block Size"),
+        dataclass: localize("attributes.dataclass", "Data Class"),
+        mgmtclass: localize("attributes.mgmtclass", "Management Class"),
+        storclass: localize("attributes.storclass", "Storage Class"),
+        cdate: localize("attributes.cdate", "Creation Date"),
+        rdate: localize("attributes.rdate", "Last Referenced"),
+        edate: localize("attributes.edate", "Expiration Date"),
+        vers: localize("attributes.vers", "Version"),
+        mod: localize("attributes.mod", "Modification Level"),
+        c4date: localize("attributes.c4date", "Created"),
+        m4date: localize("attributes.m4date", "Changed"),
+        mtime: localize("attributes.mtime", "Changed Time"),
+        msec: localize("attributes.msec", "Changed Seconds"),
+        user: localize("attributes.user", "User ID"),
+        cnorc: localize("attributes.cnorc", "Current Records"),
+        inorc: localize("attributes.inorc", "Initial Records"),
+        mnorc: localize("attributes.mnorc", "Modified Records"),
+        sclm: localize("attributes.sclm", "SCLM"),
+    };
+}
+
+/**
+ * Sorts the attributes of a data set or member into groups, the attributes that are not known are shown last
+ *
+ * @param {Record<string, unknown>} attributes an item of the `IMvs.dataSet` or `IMvs.allMembers` response
+ * @returns {IAttributeGroup[]} the groups that have at least one attribute
+ */
+export function groupAttributes(attributes: Record<string, unknown>): IAttributeGroup[] {
+    ZoweLogger.trace("AttributesView.groupAttributes called.");
+    const labels = getAttributeLabels();
+    const groups: [string, string, string[]][] = [
+        [
+            "general",
+            localize("attributes.group.general", "General"),
+            ["dsname", "member", "dsorg", "dsntp", "vol", "vols", "dev", "catnm", "migr", "mvol", "ovf"],
+        ],
+        ["space", localize("attributes.group.space", "Space"), ["spacu", "sizex", "used", "extx"]],
+        ["dcb", localize("attributes.group.dcb", "Data Control Block"), ["recfm", "lrecl", "blksz"]],
+        ["sms", localize("attributes.group.sms", "SMS Classes"), ["dataclass", "mgmtclass", "storclass"]],
+        ["dates", localize("attributes.group.dates", "Dates"), ["cdate", "rdate", "edate"]],
+        [
+            "statistics",
+            localize("attributes.group.statistics", "ISPF Statistics"),
+            ["vers", "mod", "c4date", "m4date", "mtime", "msec", "user", "cnorc", "inorc", "mnorc", "sclm"],
+        ],
+    ];
+    const knownKeys = ([] as string[]).concat(...groups.map(([, , keys]) => keys));
+    groups.push(["other", localize("attributes.group.other", "Other"), Object.keys(attributes).filter((key) => !knownKeys.includes(key))]);
+    return groups
+        .map(([key, label, keys]) => ({
+            key,
+            label,
+            attributes: keys
+                .filter((attributeKey) => attributes[attributeKey] != null)
+                .map((attributeKey) => ({ key: attributeKey, label: labels[attributeKey] ?? attributeKey, value: String(attributes[attributeKey]) })),
+        }))
+        .filter((group) => group.attributes.length > 0);
+}
+
+/**
+ * Reads the percentage of the allocated space that a data set uses
+ *
+ * @returns {number | undefined} undefined when the data set does not report it, e.g. VSAM and migrated data sets
+ */
+export function getSpaceUsage(attributes: Record<string, unknown>): number | undefined {
+    const used = Number(attributes.used);
+    return attributes.used == null || attributes.used === "" || isNaN(used) ? undefined : Math.min(Math.max(used, 0), MAX_PERCENT);
+}
+
+/**
+ * Pre-fills the attributes of a new data set with the ones of an existing data set
+ *
+ * @param {Record<string, unknown>} attributes an item of the `IMvs.dataSet` response
+ * @returns {IAllocateLikeValues} the values shown in the "Allocate Like with Changes" form
+ */
+export function getAllocateLikeValues(attributes: Record<string, unknown>): IAllocateLikeValues {
+    ZoweLogger.trace("AttributesView.getAllocateLikeValues called.");
+    const text = (value: unknown): string => (value == null || value === "?" ? "" : String(value).trim());
+    const dsorg = text(attributes.dsorg).startsWith("PO") ? "PO" : "PS";
+    return {
+        dsname: text(attributes.dsname),
+        dsorg,
+        dsntype: attributes.dsorg === "PO-E" ? "LIBRARY" : dsorg === "PO" ? "PDS" : "",
+        alcunit: SPACE_UNITS[text(attributes.spacu).toUpperCase()] ?? "TRK",
+        primary: text(attributes.sizex) || "1",
+        secondary: "",
+        dirblk: "",
+        recfm: text(attributes.recfm),
+        lrecl: text(attributes.lrecl),
+        blksize: text(attributes.blksz),
+        volser: "",
+        storclass: text(attributes.storclass),
+        mgntclass: text(attributes.mgmtclass),
+        dataclass: text(attributes.dataclass),
+    };
+}
+
+/**
+ * Converts the values of the "Allocate Like with Changes" form into options of `IMvs.createDataSet`
+ *
+ * @param {IAllocateLikeValues} values the values entered in the form
+ * @returns the options, or the error message of each invalid value
+ */
+export function getCreateOptions(values: IAllocateLikeValues): {
+    dsname: string;
+    options: Partial<zowe.ICreateDataSetOptions>;
+    errors: { [key: string]: string };
+} {
+    ZoweLogger.trace("AttributesView.getCreateOptions called.");
+    const errors: { [key: string]: string } = {};
+    const options: Partial<zowe.ICreateDataSetOptions> = {};
+    const dsname = (values.dsname ?? "").trim().toUpperCase();
+    if (!validateDataSetName(dsname)) {
+        errors.dsname = localize("allocateLike.dsname.invalid", "Enter a valid data set name.");
+    }
+    for (const [key, value] of Object.entries(values)) {
+        const trimmed = (value ?? "").trim().toUpperCase();
+        if (key === "dsname" || trimmed === "") {
+            continue;
+        }
+        if (NUMERIC_OPTIONS.includes(key)) {
+            if (!/^\d+$/.test(trimmed)) {
+                errors[key] = localize("allocateLike.number.invalid", "Enter a whole number.");
+                continue;
+            }
+            options[key] = Number(trimmed);
+        } else {
+            options[key] = trimmed;
+        }
+    }
+    if (!options.primary) {
+        errors.primary ??= localize("allocateLike.primary.invalid", "The primary space must be greater than 0.");
+    }
+    if (options.dsorg === "PS" && options.dirblk) {
+        errors.dirblk = localize("allocateLike.dirblk.invalid", "Directory blocks can only be allocated for partitioned data sets.");
+    }
+    return { dsname, options, errors };
+}
+
+/**
+ * Allocates a data set with the attributes that were changed in the attributes view,
+ * and copies the content of the data set they were read from when asked to
+ *
+ * @param {IZoweDatasetTreeNode} node the data set the attributes were read from
+ * @param {IAllocateLikeValues} values the values entered in the form
+ * @param {boolean} copyContent whether to copy the content with `IMvs.copyDataSet`
+ * @param {IZoweTree<IZoweDatasetTreeNode>} datasetProvider
+ * @returns the error message of each invalid value, empty when the data set was allocated
+ */
+export async function allocateLikeWithChanges(
+    node: IZoweDatasetTreeNode,
+    values: IAllocateLikeValues,
+    copyContent: boolean,
+    datasetProvider: IZoweTree<IZoweDatasetTreeNode>
+): Promise<{ [key: string]: string }> {
+    ZoweLogger.trace("AttributesView.allocateLikeWithChanges called.");
+    const { dsname, options, errors } = getCreateOptions(values);
+    if (Object.keys(errors).length > 0) {
+        return errors;
+    }
+    const profile = node.getProfile();
+    const mvsApi = ZoweExplorerApiRegister.getMvsApi(profile);
+    const likeDsName = (node.label as string).replace(/\[.*\]: /g, "");
+    const dataSetType = options.dsorg === "PO" ? zowe.CreateDataSetTypeEnum.DATA_SET_PARTITIONED : zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL;
+    try {
+        await mvsApi.createDataSet(dataSetType, dsname, { responseTimeout: profile?.profile?.responseTimeout, ...options });
+    } catch (err) {
+        await errorHandling(err, node.getProfileName(), localize("createDataSet.error", "Unable to create data set."));
+        return { dsname: localize("allocateLike.failed", "The data set could not be allocated.") };
+    }
+    if (copyContent) {
+        try {
+            if (mvsApi.copyDataSet == null) {
+                throw new Error(localize("allocateLike.copy.notSupported", "Copying data sets is not supported."));
+            }
+            await Gui.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: localize("allocateLike.copy.progress", "Copying {0} to {1}", likeDsName, dsname),
+                },
+                () => mvsApi.copyDataSet(likeDsName, dsname, null, true)
+            );
+        } catch (err) {
+            await errorHandling(
+                err,
+                node.getProfileName(),
+                localize("allocateLike.copy.error", "Data set {0} was allocated, but the content of {1} could not be copied.", dsname, likeDsName)
+            );
+        }
+    }
+
+    const sessionNode: IZoweDatasetTreeNode = datasetProvider.mSessionNodes.find((session) => session.label.toString().trim() === profile.name);
+    if (sessionNode) {
+        const theFilter = datasetProvider.createFilterString(dsname, sessionNode);
+        sessionNode.tooltip = sessionNode.pattern = theFilter.toUpperCase();
+        datasetProvider.addSearchHistory(theFilter);
+        datasetProvider.refreshElement(sessionNode);
+    }
+    Gui.showMessage(localize("allocateLike.success", "Data set {0} was allocated like {1}.", dsname, likeDsName));
+    return {};
+}
+
+function getAttributesBody(attributes: Record<string, unknown>): string {
+    const escape = (value: string | number | boolean): string => WebviewUtils.escapeHtml(value);
+    const usage = getSpaceUsage(attributes);
+    const chart =
+        usage == null
+            ? ""
+            : `<figure>
+                <svg class="usage" viewBox="0 0 100 6" preserveAspectRatio="none" role="img"
+                    aria-label="${escape(localize("attributes.usage.label", "{0}% of the allocated space is used", usage))}">
+                    <rect class="free" x="0" y="0" width="${MAX_PERCENT}" height="6"></rect>
+                    <rect class="used" x="0" y="0" width="${usage}" height="6"></rect>
+                </svg>
+                <figcaption>${escape(localize("attributes.usage", "Used: {0}%, free: {1}%", usage, MAX_PERCENT - usage))}</figcaption>
+            </figure>`;
+    return groupAttributes(attributes)
+        .map(
+            (group) => `<section>
+            <h3>${escape(group.label)}</h3>
+            ${group.key === "space" ? chart : ""}
+            <table>
+                ${group.attributes
+                    .map(
+                        (attribute) =>
+                            `<tr><th title="${escape(attribute.key)}">${escape(attribute.label)}</th><td>${escape(attribute.value)}</td></tr>`
+                    )
+                    .join("\n")}
+            </table>
+        </section>`
+        )
+        .join("\n");
+}
+
+function getAllocateLikeForm(attributes: Record<string, unknown>): string {
+    const escape = (value: string | number | boolean): string => WebviewUtils.escapeHtml(value);
+    const values = getAllocateLikeValues(attributes);
+    const fields: [keyof IAllocateLikeValues, string, string[]?][] = [
+        ["dsname", localize("allocateLike.field.dsname", "New Data Set Name")],
+        ["dsorg", localize("attributes.dsorg", "Organization"), ["PS", "PO"]],
+        ["dsntype", localize("attributes.dsntp", "Data Set Type"), ["", "BASIC", "LARGE", "PDS", "LIBRARY"]],
+        ["alcunit", localize("attributes.spacu", "Space Units"), ["TRK", "CYL"]],
+        ["primary", localize("allocateLike.field.primary", "Primary Space")],
+        ["secondary", localize("allocateLike.field.secondary", "Secondary Space")],
+        ["dirblk", localize("allocateLike.field.dirblk", "Directory Blocks")],
+        ["recfm", localize("attributes.recfm", "Record Format")],
+        ["lrecl", localize("attributes.lrecl", "Record Length")],
+        ["blksize", localize("attributes.blksz", "Block Size")],
+        ["volser", localize("attributes.vol", "Volume")],
+        ["storclass", localize("attributes.storclass", "Storage Class")],
+        ["mgntclass", localize("attributes.mgmtclass", "Management Class")],
+        ["dataclass", localize("attributes.dataclass", "Data Class")],
+    ];
+    const input = (key: string, choices?: string[]): string =>
+        choices
+            ? `<select id="${key}" data-option="${key}">${choices
+                  .map((choice) => `<option value="${choice}"${choice === values[key] ? " selected" : ""}>${escape(choice)}</option>`)
+                  .join("")}</select>`
+            : `<input id="${key}" data-option="${key}" value="${escape(values[key])}">`;
+    return `<form id="allocateLike">
+        <h2>${escape(localize("allocateLike.title", "Allocate Like with Changes"))}</h2>
+        ${fields
+            .map(
+                ([key, label, choices]) => `<div class="field">
+            <label for="${key}">${escape(label)}</label>
+            ${input(key, choices)}
+            <span class="error" data-error-for="${key}"></span>
+        </div>`
+            )
+            .join("\n")}
+        <div class="field">
+            <label for="copyContent">${escape(localize("allocateLike.field.copyContent", "Copy the content"))}</label>
+            <input id="copyContent" type="checkbox">
+        </div>
+        <button type="submit">${escape(localize("allocateLike.submit", "Allocate"))}</button>
+    </form>`;
+}
+
+const STYLE = `
+    section, form { margin-top: 1.5em; }
+    th { text-align: left; padding-right: 2em; color: var(--vscode-editorLink-activeForeground); font-weight: bold; }
+    .usage { width: 20em; height: 1em; }
+    .usage .free { fill: var(--vscode-editorWidget-border); }
+    .usage .used { fill: var(--vscode-charts-blue); }
+    figure { margin: 0 0 0.5em 0; }
+    .field { display: grid; grid-template-columns: 12em 16em auto; align-items: center; margin: 0.3em 0; }
+    .error { color: var(--vscode-errorForeground); margin-left: 1em; }
+    input, select {
+        color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border);
+    }
+    input[type="checkbox"] { justify-self: start; }
+    button {
+        margin-top: 0.5em; padding: 0.4em 1em; border: none;
+        color: var(--vscode-button-foreground); background: var(--vscode-button-background);
+    }
+`;
+
+const SCRIPT = `
+    const vscode = acquireVsCodeApi();
+    const form = document.getElementById("allocateLike");
+    form.addEventListener("submit", (event) => {
+        event.preventDefault();
+        const values = {};
+        for (const input of form.querySelectorAll("[data-option]")) {
+            values[input.dataset.option] = input.value;
+        }
+        vscode.postMessage({ command: "allocateLike", values, copyContent: document.getElementById("copyContent").checked });
+    });
+    window.addEventListener("message", (event) => {
+        if (event.data.command === "validation") {
+            for (const error of form.querySelectorAll(".error")) {
+                error.textContent = event.data.errors[error.dataset.errorFor] || "";
+            }
+        }
+    });
+`;
+
+/**
+ * Shows the attributes of a data set or member by group, with the space usage of data sets as a chart.
+ * Data sets can be allocated again with changed attributes from the view.
+ *
+ * @param {IZoweDatasetTreeNode} node the data set or member
+ * @param {Record<string, unknown>} attributes an item of the `IMvs.dataSet` or `IMvs.allMembers` response
+ * @param {IZoweTree<IZoweDatasetTreeNode>} datasetProvider
+ */
+export function showAttributesView(
+    node: IZoweDatasetTreeNode,
+    attributes: Record<string, unknown>,
+    datasetProvider: IZoweTree<IZoweDatasetTreeNode>
+): vscode.WebviewPanel {
+    ZoweLogger.trace("AttributesView.showAttributesView called.");
+    const label = node.label as string;
+    const canAllocateLike = contextually.isDs(node) || contextually.isPds(node);
+    const title = label + " " + localize("attributes.title", "Attributes");
+    const panel: vscode.WebviewPanel = Gui.createWebviewPanel({
+        viewType: "zowe",
+        title,
+        showOptions: vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : 1,
+        vscode: { enableScripts: canAllocateLike },
+    });
+    panel.webview.html = WebviewUtils.getHtml(panel.webview, {
+        title,
+        body: getAttributesBody(attributes) + (canAllocateLike ? getAllocateLikeForm(attributes) : ""),
+        style: STYLE,
+        script: canAllocateLike ? SCRIPT : undefined,
+    });
+    if (canAllocateLike) {
+        panel.webview.onDidReceiveMessage(async (message: { command: string; values: IAllocateLikeValues; copyContent: boolean }) => {
+            if (message.command !== "allocateLike") {
+                return;
+            }
+            const errors = await allocateLikeWithChanges(node, message.values, message.copyContent, datasetProvider);
+            await panel.webview.postMessage({ command: "validation", errors });
+        });
+    }
+    return panel;
+}
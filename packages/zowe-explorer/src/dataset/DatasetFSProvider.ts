@@ -0,0 +1,261 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as fs from "fs";
+import * as vscode from "vscode";
+import * as zowe from "@zowe/cli";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
+import { ZoweFileSystemProvider } from "../abstract/ZoweFileSystemProvider";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import { OfflineCache } from "../utils/OfflineCache";
+import { LocalHistory } from "../shared/LocalHistory";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * File system provider for the `zowe-ds` scheme.
+ *
+ * URIs are formatted as `zowe-ds:/<profile>/<DATA.SET.NAME>` for data sets and
+ * `zowe-ds:/<profile>/<DATA.SET.NAME>/<MEMBER>` for members of a partitioned data set.
+ *
+ * @export
+ * @class DatasetFSProvider
+ */
+export class DatasetFSProvider extends ZoweFileSystemProvider {
+    public static scheme = "zowe-ds";
+    private static mInstance: DatasetFSProvider;
+
+    public static get instance(): DatasetFSProvider {
+        if (!DatasetFSProvider.mInstance) {
+            DatasetFSProvider.mInstance = new DatasetFSProvider();
+        }
+        return DatasetFSProvider.mInstance;
+    }
+
+    /**
+     * Builds the URI used to open a data set or member
+     *
+     * @param {string} profileName
+     * @param {string} dataSetName
+     * @param {string} memberName optional
+     * @returns {vscode.Uri}
+     */
+    public static buildUri(profileName: string, dataSetName: string, memberName?: string): vscode.Uri {
+        const segments = [profileName, dataSetName.toUpperCase()];
+        if (memberName) {
+            segments.push(memberName.toUpperCase());
+        }
+        return vscode.Uri.from({ scheme: DatasetFSProvider.scheme, path: `/${segments.join("/")}` });
+    }
+
+    public async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        ZoweLogger.trace("DatasetFSProvider.stat called.");
+        const [, [dataSetName, memberName]] = this.parseUri(uri);
+        if (!dataSetName) {
+            return this.updateEntry(uri, { type: vscode.FileType.Directory });
+        }
+        const cachedEntry = this.entries.get(uri.path);
+        if (cachedEntry) {
+            return cachedEntry;
+        }
+
+        const profile = this.getProfile(uri);
+        const mvsApi = ZoweExplorerApiRegister.getMvsApi(profile);
+        try {
+            if (memberName) {
+                const response = await mvsApi.allMembers(dataSetName, {
+                    pattern: memberName,
+                    responseTimeout: profile.profile?.responseTimeout,
+                });
+                const items: any[] = response.apiResponse?.items ?? [];
+                if (!items.some((item) => item.member === memberName)) {
+                    throw vscode.FileSystemError.FileNotFound(uri);
+                }
+                return this.updateEntry(uri, { type: vscode.FileType.File });
+            }
+
+            const response = await mvsApi.dataSet(dataSetName, { attributes: true, responseTimeout: profile.profile?.responseTimeout });
+            const items: any[] = response.apiResponse?.items ?? [];
+            const dataSet = items.find((item) => item.dsname === dataSetName);
+            if (!dataSet) {
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }
+            const isPartitioned = dataSet.dsorg === "PO" || dataSet.dsorg === "PO-E";
+            return this.updateEntry(uri, { type: isPartitioned ? vscode.FileType.Directory : vscode.FileType.File });
+        } catch (err) {
+            throw this.toFileSystemError(err, uri);
+        }
+    }
+
+    public async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        ZoweLogger.trace("DatasetFSProvider.readDirectory called.");
+        const [, [dataSetName, memberName]] = this.parseUri(uri);
+        if (!dataSetName) {
+            // Listing every data set on the system is not feasible, data sets are opened by name
+            return [];
+        }
+        if (memberName) {
+            throw vscode.FileSystemError.FileNotADirectory(uri);
+        }
+
+        const profile = this.getProfile(uri);
+        try {
+            const response = await ZoweExplorerApiRegister.getMvsApi(profile).allMembers(dataSetName, {
+                responseTimeout: profile.profile?.responseTimeout,
+            });
+            const items: any[] = response.apiResponse?.items ?? [];
+            return items.map((item) => [item.member as string, vscode.FileType.File]);
+        } catch (err) {
+            throw this.toFileSystemError(err, uri);
+        }
+    }
+
+    public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        ZoweLogger.trace("DatasetFSProvider.readFile called.");
+        const remoteName = this.getRemoteName(uri);
+        ZoweLogger.info(localize("readFile.openDataSet", "Opening {0}", remoteName));
+        try {
+            const [contents, response] = await this.download(uri);
+            this.updateEntry(uri, {
+                type: vscode.FileType.File,
+                size: contents.length,
+                etag: response?.apiResponse?.etag,
+                savedAt: OfflineCache.getSavedAt(response),
+            });
+            this.rememberBaseContent(uri, contents);
+            return contents;
+        } catch (err) {
+            throw this.toFileSystemError(err, uri);
+        }
+    }
+
+    public async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+        ZoweLogger.trace("DatasetFSProvider.writeFile called.");
+        const remoteName = this.getRemoteName(uri);
+        const entry = this.entries.get(uri.path);
+        if (!entry && !options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (entry && options.create && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+        this.checkNotCached(uri, entry);
+        this.checkConflictsResolved(uri, entry, content);
+
+        ZoweLogger.info(localize("writeFile.saving", "Saving file {0}", remoteName));
+        if (entry) {
+            // Keep the remote version that is replaced by the upload
+            await LocalHistory.saveVersion(this.getProfile(uri), remoteName, undefined, entry.binary);
+        }
+        let contents = content;
+        let response: zowe.IZosFilesResponse;
+        try {
+            response = await this.upload(uri, contents, entry?.etag);
+        } catch (err) {
+            if (!entry || !this.isEtagMismatch(err)) {
+                throw err;
+            }
+            const [remoteContents, remoteResponse] = await this.download(uri);
+            contents = await this.mergeRemoteChanges(uri, content, remoteContents, remoteResponse?.apiResponse?.etag);
+            response = await this.upload(uri, contents, remoteResponse?.apiResponse?.etag);
+        }
+        this.updateEntry(uri, { size: contents.length, mtime: Date.now(), etag: response.apiResponse?.[0]?.etag, conflicts: false });
+        this.rememberBaseContent(uri, contents);
+        this.fireChange(uri, entry ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created);
+    }
+
+    public createDirectory(uri: vscode.Uri): Promise<void> {
+        ZoweLogger.trace("DatasetFSProvider.createDirectory called.");
+        throw vscode.FileSystemError.NoPermissions(
+            localize("createDirectory.notSupported", "Partitioned data sets must be allocated from the Data Sets tree: {0}", uri.path)
+        );
+    }
+
+    public async delete(uri: vscode.Uri): Promise<void> {
+        ZoweLogger.trace("DatasetFSProvider.delete called.");
+        const remoteName = this.getRemoteName(uri);
+        const profile = this.getProfile(uri);
+        try {
+            await ZoweExplorerApiRegister.getMvsApi(profile).deleteDataSet(remoteName, { responseTimeout: profile.profile?.responseTimeout });
+        } catch (err) {
+            throw this.toFileSystemError(err, uri);
+        }
+        this.fireChange(uri, vscode.FileChangeType.Deleted);
+    }
+
+    public async rename(oldUri: vscode.Uri, newUri: vscode.Uri): Promise<void> {
+        ZoweLogger.trace("DatasetFSProvider.rename called.");
+        const [oldProfileName, [oldDataSetName, oldMemberName]] = this.parseUri(oldUri);
+        const [newProfileName, [newDataSetName, newMemberName]] = this.parseUri(newUri);
+        const mvsApi = ZoweExplorerApiRegister.getMvsApi(this.getProfile(oldUri));
+        if (oldProfileName === newProfileName && oldMemberName && newMemberName && oldDataSetName === newDataSetName) {
+            await mvsApi.renameDataSetMember(oldDataSetName, oldMemberName, newMemberName);
+        } else if (oldProfileName === newProfileName && !oldMemberName && !newMemberName) {
+            await mvsApi.renameDataSet(oldDataSetName, newDataSetName);
+        } else {
+            throw vscode.FileSystemError.NoPermissions(localize("rename.notSupported", "Unable to rename {0} to {1}", oldUri.path, newUri.path));
+        }
+        this.fireChange(oldUri, vscode.FileChangeType.Deleted);
+        this.fireChange(newUri, vscode.FileChangeType.Created);
+    }
+
+    /**
+     * Returns the name used by the MVS APIs for the resource, e.g. `DATA.SET.NAME(MEMBER)`
+     *
+     * @param {vscode.Uri} uri
+     * @returns {string}
+     */
+    private download(uri: vscode.Uri): Promise<[Buffer, zowe.IZosFilesResponse]> {
+        const profile = this.getProfile(uri);
+        return this.withTransientFile(async (filePath) => {
+            const response = await ZoweExplorerApiRegister.getMvsApi(profile).getContents(this.getRemoteName(uri), {
+                file: filePath,
+                returnEtag: true,
+                binary: this.entries.get(uri.path)?.binary,
+                encoding: profile.profile?.encoding,
+                responseTimeout: profile.profile?.responseTimeout,
+            });
+            return [fs.readFileSync(filePath), response];
+        });
+    }
+
+    private async upload(uri: vscode.Uri, content: Uint8Array, etag: string): Promise<zowe.IZosFilesResponse> {
+        const profile = this.getProfile(uri);
+        const response = await this.withTransientFile((filePath) => {
+            fs.writeFileSync(filePath, content);
+            return ZoweExplorerApiRegister.getMvsApi(profile).putContents(filePath, this.getRemoteName(uri), {
+                etag,
+                returnEtag: true,
+                binary: this.entries.get(uri.path)?.binary,
+                encoding: profile.profile?.encoding,
+                responseTimeout: profile.profile?.responseTimeout,
+            });
+        });
+        if (!response.success) {
+            throw new Error(response.commandResponse);
+        }
+        return response;
+    }
+
+    private getRemoteName(uri: vscode.Uri): string {
+        const [, [dataSetName, memberName]] = this.parseUri(uri);
+        if (!dataSetName) {
+            throw vscode.FileSystemError.FileIsADirectory(uri);
+        }
+        return memberName ? `${dataSetName}(${memberName})` : dataSetName;
+    }
+}
@@ -23,11 +23,12 @@ import {
     PersistenceSchemaEnum,
     NodeInteraction,
     IZoweTreeNode,
+    IZoweUSSTreeNode,
 } from "@zowe/zowe-explorer-api";
 import { Profiles } from "../Profiles";
 import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
 import { FilterDescriptor, FilterItem, errorHandling, syncSessionNode } from "../utils/ProfilesUtils";
-import { sortTreeItems, getAppName, getDocumentFilePath } from "../shared/utils";
+import { sortTreeItems, getAppName, getDocumentFilePath, jobDateValidator, getDroppedFiles } from "../shared/utils";
 import { ZoweTreeProvider } from "../abstract/ZoweTreeProvider";
 import { ZoweDatasetNode } from "./ZoweDatasetNode";
 import { getIconById, getIconByNode, IconId, IIconItem } from "../generators/icons";
@@ -36,7 +37,7 @@ import * as contextually from "../shared/context";
 import { resetValidationSettings } from "../shared/actions";
 import { closeOpenedTextFile } from "../utils/workspace";
 import { IDataSet, IListOptions, imperative } from "@zowe/cli";
-import { validateDataSetName, validateMemberName } from "./utils";
+import { IPdsTreeOptions, memberPatternToRegExp, splitMemberPatterns, validateDataSetName, validateMemberName } from "./utils";
 import { SettingsConfig } from "../utils/SettingsConfig";
 import { ZoweLogger } from "../utils/LoggerUtils";
 import { TreeViewUtils } from "../utils/TreeViewUtils";
@@ -67,7 +68,7 @@ export async function createDatasetTree(log: imperative.Logger): Promise<Dataset
  * @class DatasetTree
  * @implements {vscode.TreeDataProvider}
  */
-export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweDatasetTreeNode> {
+export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweDatasetTreeNode>, vscode.TreeDragAndDropController<IZoweDatasetTreeNode> {
     private static readonly persistenceSchema: PersistenceSchemaEnum = PersistenceSchemaEnum.Dataset;
     private static readonly defaultDialogText: string = localize(
         "defaultFilterPrompt.option.prompt.search",
@@ -78,6 +79,8 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
     public mSessionNodes: IZoweDatasetTreeNode[] = [];
     public mFavorites: IZoweDatasetTreeNode[] = [];
     public lastOpened: NodeInteraction = {};
+    public readonly dragMimeTypes: string[] = [globals.DS_TREE_MIME_TYPE];
+    public readonly dropMimeTypes: string[] = [globals.USS_TREE_MIME_TYPE, globals.URI_LIST_MIME_TYPE];
     // public memberPattern: IZoweDatasetTreeNode[] = [];
     private treeView: vscode.TreeView<IZoweDatasetTreeNode>;
 
@@ -95,9 +98,49 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
         this.treeView = Gui.createTreeView("zowe.ds.explorer", {
             treeDataProvider: this,
             canSelectMany: true,
+            dragAndDropController: this,
         });
     }
 
+    /**
+     * Adds the dragged members and data sets to the data transfer. Sessions cannot be dragged.
+     *
+     * @param {IZoweDatasetTreeNode[]} source - The dragged nodes
+     * @param {vscode.DataTransfer} dataTransfer - The data transfer of the drag and drop operation
+     */
+    public handleDrag(source: IZoweDatasetTreeNode[], dataTransfer: vscode.DataTransfer): void {
+        ZoweLogger.trace("DatasetTree.handleDrag called.");
+        const nodes = source.filter((node) => contextually.isDsMember(node) || contextually.isDs(node));
+        if (nodes.length > 0) {
+            dataTransfer.set(globals.DS_TREE_MIME_TYPE, new vscode.DataTransferItem(nodes));
+        }
+    }
+
+    /**
+     * Uploads the files dropped on a partitioned data set or on one of its members, which stands for the data set.
+     * Files dragged from the USS tree are copied as members, and local files dropped from the VS Code Explorer are uploaded.
+     *
+     * @param {IZoweDatasetTreeNode} target - The node the files are dropped on
+     * @param {vscode.DataTransfer} dataTransfer - The data transfer of the drag and drop operation
+     */
+    public async handleDrop(target: IZoweDatasetTreeNode | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        ZoweLogger.trace("DatasetTree.handleDrop called.");
+        const pds = target && contextually.isDsMember(target) ? target.getParent() : target;
+        if (pds == null || !contextually.isPds(pds)) {
+            return;
+        }
+
+        const ussNodes: IZoweUSSTreeNode[] = dataTransfer.get(globals.USS_TREE_MIME_TYPE)?.value;
+        if (ussNodes?.length > 0) {
+            await dsActions.copyUssFilesToPds(pds as ZoweDatasetNode, ussNodes, this);
+        } else {
+            const files = await getDroppedFiles(dataTransfer);
+            if (files.length > 0) {
+                await dsActions.uploadFiles(pds as ZoweDatasetNode, files, this);
+            }
+        }
+    }
+
     /**
      * Rename data set
      *
@@ -141,6 +184,127 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
         return this.datasetFilterPrompt(node);
     }
 
+    /**
+     * Prompts for the order of the members of a PDS
+     *
+     * @param {ZoweDatasetNode} node - The PDS node
+     */
+    public async sortPdsMembers(node: ZoweDatasetNode): Promise<void> {
+        ZoweLogger.trace("DatasetTree.sortPdsMembers called.");
+        const methods: [globals.MemberSortMethod, string][] = [
+            [globals.MemberSortMethod.Name, localize("sortMembers.name", "Name")],
+            [globals.MemberSortMethod.DateModified, localize("sortMembers.dateModified", "Date Modified")],
+            [globals.MemberSortMethod.UserId, localize("sortMembers.userId", "User ID")],
+            [globals.MemberSortMethod.Version, localize("sortMembers.version", "Version")],
+            [globals.MemberSortMethod.Size, localize("sortMembers.size", "Size")],
+        ];
+        const current = localize("sortMembers.current", "Current");
+        const methodItems: vscode.QuickPickItem[] = methods.map(([method, label]) => ({
+            label,
+            description: (node.sortOptions?.method ?? globals.MemberSortMethod.Name) === method ? current : undefined,
+        }));
+        const methodChoice = await Gui.showQuickPick(methodItems, {
+            placeHolder: localize("sortMembers.method.prompt", "Sort the members of {0} by", node.label as string),
+        });
+        if (!methodChoice) {
+            return;
+        }
+        const directionItems: vscode.QuickPickItem[] = [
+            { label: localize("sortMembers.ascending", "Ascending") },
+            { label: localize("sortMembers.descending", "Descending") },
+        ];
+        const directionChoice = await Gui.showQuickPick(directionItems, {
+            placeHolder: localize("sortMembers.direction.prompt", "Sort order"),
+        });
+        if (!directionChoice) {
+            return;
+        }
+        node.sortOptions = { method: methods[methodItems.indexOf(methodChoice)][0], descending: directionChoice === directionItems[1] };
+        await this.savePdsOptions(node);
+    }
+
+    /**
+     * Prompts for a filter on the ISPF statistics of the members of a PDS
+     *
+     * @param {ZoweDatasetNode} node - The PDS node
+     */
+    public async filterPdsMembers(node: ZoweDatasetNode): Promise<void> {
+        ZoweLogger.trace("DatasetTree.filterPdsMembers called.");
+        const methods: [globals.MemberFilterMethod, string][] = [
+            [globals.MemberFilterMethod.UserId, localize("filterMembers.userId", "User ID")],
+            [globals.MemberFilterMethod.ChangedSince, localize("filterMembers.changedSince", "Changed Since")],
+        ];
+        const items: vscode.QuickPickItem[] = methods.map(([method, label]) => ({
+            label,
+            description: node.memberFilter?.method === method ? node.memberFilter.value : undefined,
+        }));
+        const clearItem: vscode.QuickPickItem = { label: localize("filterMembers.clear", "$(clear-all) Clear filter") };
+        if (node.memberFilter) {
+            items.push(clearItem);
+        }
+        const choice = await Gui.showQuickPick(items, {
+            placeHolder: localize("filterMembers.method.prompt", "Filter the members of {0} by", node.label as string),
+        });
+        if (!choice) {
+            return;
+        }
+        if (choice === clearItem) {
+            node.memberFilter = undefined;
+            await this.savePdsOptions(node);
+            return;
+        }
+        const method = methods[items.indexOf(choice)][0];
+        const value = await Gui.showInputBox(
+            method === globals.MemberFilterMethod.UserId
+                ? {
+                      prompt: localize("filterMembers.userId.prompt", "Enter a user ID, the wildcards * and % are allowed"),
+                      value: node.memberFilter?.method === method ? node.memberFilter.value : undefined,
+                      validateInput: (text: string): string | null =>
+                          /^[\w@#$*%]+$/.test(text.trim()) ? null : localize("filterMembers.userId.invalid", "Enter a valid user ID"),
+                  }
+                : {
+                      prompt: localize("filterMembers.changedSince.prompt", "Show the members changed on or after a date in the YYYY-MM-DD format"),
+                      value: node.memberFilter?.method === method ? node.memberFilter.value : undefined,
+                      validateInput: (text: string): string | null =>
+                          text ? jobDateValidator(text) : localize("filterMembers.changedSince.invalid", "Enter a date in the YYYY-MM-DD format"),
+                  }
+        );
+        if (!value) {
+            return;
+        }
+        node.memberFilter = { method, value: value.trim().toUpperCase() };
+        await this.savePdsOptions(node);
+    }
+
+    /**
+     * Prompts for the names of the members of a PDS to show, as patterns separated by commas.
+     * The filter of a favorite PDS is saved with the favorites.
+     *
+     * @param {ZoweDatasetNode} node - The PDS node
+     */
+    public async filterMembers(node: ZoweDatasetNode): Promise<void> {
+        ZoweLogger.trace("DatasetTree.filterMembers called.");
+        const value = await Gui.showInputBox({
+            prompt: localize(
+                "filterMembers.pattern.prompt",
+                "Enter member names separated by commas, with the wildcards * and % or as regular expressions between slashes. " +
+                    "Leave empty to show all members."
+            ),
+            placeHolder: localize("filterMembers.pattern.placeholder", "e.g. PROG*, TEST%%, /^JOB\\d{2,3}$/"),
+            value: node.memberPattern,
+            validateInput: (text: string): string | null => this.validateMemberPatterns(text),
+        });
+        if (value == null) {
+            return;
+        }
+        node.memberPattern = splitMemberPatterns(value).join(",");
+        node.description = node.memberPattern || undefined;
+        if (contextually.isFavorite(node)) {
+            this.updateFavorites();
+        }
+        this.refreshElement(node);
+    }
+
     /**
      * Takes argument of type IZoweDatasetTreeNode and retrieves all of the first level children
      *
@@ -158,6 +322,11 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
                 return favsForProfile;
             }
             await Profiles.getInstance().checkCurrentProfile(element.getProfile());
+            if (contextually.isPds(element)) {
+                const pdsOptions = this.mHistory.getSessionOptions<IPdsTreeOptions>(this.getPdsOptionsKey(element));
+                (element as ZoweDatasetNode).sortOptions = pdsOptions?.sort;
+                (element as ZoweDatasetNode).memberFilter = pdsOptions?.filter;
+            }
             const finalResponse: IZoweDatasetTreeNode[] = [];
             const response = await element.getChildren();
             if (!response) {
@@ -245,7 +414,10 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
 
         const favoriteDataSetPattern = /^\[.+\]:\s[a-zA-Z#@$][a-zA-Z0-9#@$-]{0,7}(\.[a-zA-Z#@$][a-zA-Z0-9#@$-]{0,7})*\{p?ds\}$/;
         const favoriteSearchPattern = /^\[.+\]:\s.*\{session}$/;
-        for (const line of lines) {
+        for (const favorite of lines) {
+            // The member filter of a PDS follows its context value
+            const memberPatternIndex = favorite.indexOf(`{${globals.DS_PDS_CONTEXT}} `);
+            const line = memberPatternIndex === -1 ? favorite : favorite.substring(0, memberPatternIndex + globals.DS_PDS_CONTEXT.length + 2);
             if (!(favoriteDataSetPattern.test(line) || favoriteSearchPattern.test(line))) {
                 ZoweLogger.warn(
                     localize("initializeFavorites.invalidDsFavorite1", "Invalid Data Sets favorite: {0}.", line) +
@@ -269,6 +441,10 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
             }
             // Initialize and attach favorited item nodes under their respective profile node in Favorrites
             const favChildNodeForProfile = this.initializeFavChildNodeForProfile(favLabel, favContextValue, profileNodeInFavorites);
+            if (memberPatternIndex !== -1) {
+                favChildNodeForProfile.memberPattern = favorite.substring(line.length + 1).trim();
+                favChildNodeForProfile.description = favChildNodeForProfile.memberPattern || undefined;
+            }
             profileNodeInFavorites.children.push(favChildNodeForProfile);
         }
     }
@@ -533,6 +709,10 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
                 node.getProfile()
             );
             temp.contextValue = contextually.asFavorite(temp);
+            if (contextually.isPds(node) && node.memberPattern) {
+                temp.memberPattern = node.memberPattern;
+                temp.description = node.memberPattern;
+            }
             if (contextually.isFavoriteDs(temp)) {
                 temp.command = { command: "zowe.ds.ZoweNode.openPS", title: "", arguments: [temp] };
             }
@@ -659,8 +839,12 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
         const favoritesArray = [];
         this.mFavorites.forEach((profileNode) => {
             profileNode.children.forEach((favorite) => {
-                const favoriteEntry =
+                let favoriteEntry =
                     "[" + profileNode.label.toString() + "]: " + favorite.label.toString() + "{" + contextually.getBaseContext(favorite) + "}";
+                const memberPattern = (favorite as IZoweDatasetTreeNode).memberPattern;
+                if (contextually.isPds(favorite) && memberPattern) {
+                    favoriteEntry += ` ${memberPattern}`;
+                }
                 favoritesArray.push(favoriteEntry);
             });
         });
@@ -758,6 +942,12 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
         this.refresh();
     }
 
+    public removeDsTemplate(name: string): void {
+        ZoweLogger.trace("DatasetTree.removeDsTemplate called.");
+        this.mHistory.removeDsTemplateHistory(name);
+        this.refresh();
+    }
+
     public getDsTemplates(): DataSetAllocTemplate[] {
         // eslint-disable-next-line @typescript-eslint/no-unsafe-return
         return this.mHistory.getDsTemplates();
@@ -1002,6 +1192,7 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
                     if (child.contextValue.includes(globals.FILTER_SEARCH)) {
                         child.contextValue = child.contextValue.replace(globals.FILTER_SEARCH, "");
                         child.memberPattern = "";
+                        child.description = undefined;
                         child.pattern = "";
                         this.refreshElement(child);
                     }
@@ -1042,6 +1233,7 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
                                     existing = this.checkFilterPattern(mem.member, item.member);
                                     if (existing) {
                                         child.memberPattern = item.member;
+                                        child.description = item.member;
                                         if (!child.contextValue.includes(globals.FILTER_SEARCH)) {
                                             child.contextValue = child.contextValue + globals.FILTER_SEARCH;
                                         }
@@ -1243,6 +1435,30 @@ export class DatasetTree extends ZoweTreeProvider implements IZoweTree<IZoweData
         }
     }
 
+    private validateMemberPatterns(text: string): string | null {
+        for (const pattern of splitMemberPatterns(text)) {
+            try {
+                memberPatternToRegExp(pattern);
+            } catch (err) {
+                return localize("filterMembers.pattern.invalidRegExp", "Invalid regular expression {0}: {1}", pattern, (err as Error).message);
+            }
+            if (!pattern.startsWith("/") && !/^[\w#@$*%]+$/.test(pattern)) {
+                return localize("filterMembers.pattern.invalid", "Invalid member name pattern: {0}", pattern);
+            }
+        }
+        return null;
+    }
+
+    private getPdsOptionsKey(node: IZoweDatasetTreeNode): string {
+        return `${node.getProfileName()}/${node.label as string}`;
+    }
+
+    private async savePdsOptions(node: ZoweDatasetNode): Promise<void> {
+        const pdsOptions: IPdsTreeOptions = { sort: node.sortOptions, filter: node.memberFilter };
+        await this.mHistory.setSessionOptions(this.getPdsOptionsKey(node), pdsOptions);
+        this.refreshElement(node);
+    }
+
     /**
      * Adds a single session to the data set tree
      *
@@ -20,6 +20,20 @@ import * as contextually from "../shared/context";
 import * as nls from "vscode-nls";
 import { Profiles } from "../Profiles";
 import { ZoweLogger } from "../utils/LoggerUtils";
+import { OfflineCache } from "../utils/OfflineCache";
+import {
+    formatMemberChanged,
+    formatMemberVersion,
+    IMemberFilter,
+    IMemberSortOptions,
+    IMemberStats,
+    isMemberRegExp,
+    matchesMemberFilter,
+    matchesMemberPattern,
+    getMemberStats,
+    sortMembers,
+    splitMemberPatterns,
+} from "./utils";
 // Set up localization
 nls.config({
     messageFormat: nls.MessageFormat.bundle,
@@ -41,6 +55,9 @@ export class ZoweDatasetNode extends ZoweTreeNode implements IZoweDatasetTreeNod
     public dirty = true;
     public children: ZoweDatasetNode[] = [];
     public errorDetails: zowe.imperative.ImperativeError;
+    public stats: IMemberStats;
+    public sortOptions: IMemberSortOptions;
+    public memberFilter: IMemberFilter;
 
     /**
      * Creates an instance of ZoweDatasetNode
@@ -215,17 +232,21 @@ export class ZoweDatasetNode extends ZoweTreeNode implements IZoweDatasetTreeNod
                     temp.command = { command: "zowe.ds.ZoweNode.openPS", title: "", arguments: [temp] };
                     elementChildren[temp.label.toString()] = temp;
                 } else {
-                    // Creates a ZoweDatasetNode for a PDS member
-                    const temp = new ZoweDatasetNode(
-                        item.member,
-                        vscode.TreeItemCollapsibleState.None,
-                        this,
-                        null,
-                        undefined,
-                        undefined,
-                        this.getProfile()
-                    );
+                    const stats = getMemberStats(item);
+                    if (
+                        (this.memberFilter && !matchesMemberFilter(stats, this.memberFilter)) ||
+                        (this.memberPattern && !matchesMemberPattern(item.member, this.memberPattern))
+                    ) {
+                        continue;
+                    }
+                    // Creates a ZoweDatasetNode for a PDS member, existing members are kept to update their statistics
+                    const temp =
+                        this.children.find((element) => element.label.toString() === item.member) ??
+                        new ZoweDatasetNode(item.member, vscode.TreeItemCollapsibleState.None, this, null, undefined, undefined, this.getProfile());
                     temp.command = { command: "zowe.ds.ZoweNode.openPS", title: "", arguments: [temp] };
+                    if (Object.keys(stats).length > 0) {
+                        temp.setStats(stats);
+                    }
                     elementChildren[temp.label.toString()] = temp;
                 }
             }
@@ -249,8 +270,12 @@ export class ZoweDatasetNode extends ZoweTreeNode implements IZoweDatasetTreeNod
                 .map((label) => elementChildren[label]);
 
             this.children = this.children.concat(newChildren).filter((c) => (c.label as string) in elementChildren);
+            if (this.sortOptions && contextually.isPds(this)) {
+                this.children = sortMembers(this.children, this.sortOptions);
+            }
         }
 
+        this.decorateStaleChildren(responses);
         return this.children;
     }
 
@@ -278,6 +303,39 @@ export class ZoweDatasetNode extends ZoweTreeNode implements IZoweDatasetTreeNod
         this.etag = etagValue;
     }
 
+    /**
+     * Sets the ISPF statistics of a member and shows them in its description and tooltip
+     *
+     * @param {IMemberStats} stats
+     */
+    public setStats(stats: IMemberStats): void {
+        ZoweLogger.trace("ZoweDatasetNode.setStats called.");
+        this.stats = stats;
+        const changed = stats.changed ? formatMemberChanged(stats.changed) : undefined;
+        const version = formatMemberVersion(stats);
+        this.description = [changed, stats.user, version, stats.size].filter((value) => value != null).join("  ") || undefined;
+        this.tooltip = [
+            this.label as string,
+            changed && localize("member.tooltip.changed", "Changed: {0}", changed),
+            stats.user && localize("member.tooltip.user", "User ID: {0}", stats.user),
+            version && localize("member.tooltip.version", "Version: {0}", version),
+            stats.size != null && localize("member.tooltip.size", "Size: {0} lines", stats.size),
+        ]
+            .filter(Boolean)
+            .join("\n");
+    }
+
+    /**
+     * Decorates the children listed from the offline cache as stale, until the host can be reached again
+     */
+    private decorateStaleChildren(responses: zowe.IZosFilesResponse[]): void {
+        const savedAt = responses.map((response) => OfflineCache.getSavedAt(response)).find((date) => date != null);
+        for (const child of this.children) {
+            const remotePath = contextually.isSession(this) ? child.label.toString() : `${this.label.toString()}/${child.label.toString()}`;
+            child.resourceUri = savedAt ? OfflineCache.getStaleUri(this.getProfileName(), remotePath, savedAt) : undefined;
+        }
+    }
+
     private async getDatasets(): Promise<zowe.IZosFilesResponse[]> {
         ZoweLogger.trace("ZoweDatasetNode.getDatasets called.");
         const sessNode = this.getSessionNode();
@@ -306,10 +364,18 @@ export class ZoweDatasetNode extends ZoweTreeNode implements IZoweDatasetTreeNod
                     }
                 }
             } else if (this.memberPattern) {
-                this.memberPattern = this.memberPattern.toUpperCase();
-                for (const memPattern of this.memberPattern.split(",")) {
-                    options.pattern = memPattern;
+                const memPatterns = splitMemberPatterns(this.memberPattern).map((memPattern) =>
+                    isMemberRegExp(memPattern) ? memPattern : memPattern.toUpperCase()
+                );
+                this.memberPattern = memPatterns.join(",");
+                // Regular expressions are matched once all the members are listed
+                if (memPatterns.some((memPattern) => isMemberRegExp(memPattern))) {
                     responses.push(await ZoweExplorerApiRegister.getMvsApi(cachedProfile).allMembers(this.label as string, options));
+                } else {
+                    for (const memPattern of memPatterns) {
+                        options.pattern = memPattern;
+                        responses.push(await ZoweExplorerApiRegister.getMvsApi(cachedProfile).allMembers(this.label as string, options));
+                    }
                 }
             } else {
                 responses.push(await ZoweExplorerApiRegister.getMvsApi(cachedProfile).allMembers(this.label as string, options));
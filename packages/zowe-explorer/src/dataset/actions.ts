@@ -16,7 +16,7 @@ import * as zowe from "@zowe/cli";
 import * as globals from "../globals";
 import * as path from "path";
 import * as api from "@zowe/zowe-explorer-api";
-import { FilterItem, errorHandling } from "../utils/ProfilesUtils";
+import { FilterItem, errorHandling, isTransientError } from "../utils/ProfilesUtils";
 import {
     getDocumentFilePath,
     concatChildNodes,
@@ -27,6 +27,7 @@ import {
     getDefaultUri,
     compareFileContent,
 } from "../shared/utils";
+import { setBaseContent } from "../shared/merge";
 import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
 import { Profiles } from "../Profiles";
 import { getIconByNode } from "../generators/icons";
@@ -36,6 +37,14 @@ import * as contextually from "../shared/context";
 import { markDocumentUnsaved, setFileSaved } from "../utils/workspace";
 import { IUploadOptions } from "@zowe/zos-files-for-zowe-sdk";
 import { ZoweLogger } from "../utils/LoggerUtils";
+import { SettingsConfig } from "../utils/SettingsConfig";
+import { DatasetFSProvider } from "./DatasetFSProvider";
+import { JobWatcher } from "../job/JobWatcher";
+import { getAllocateLikeValues, getCreateOptions, showAttributesView } from "./AttributesView";
+import { showAllocateView } from "./AllocateView";
+import { OfflineCache } from "../utils/OfflineCache";
+import { LocalHistory } from "../shared/LocalHistory";
+import { FolderDownload } from "../shared/FolderDownload";
 
 // Set up localization
 import * as nls from "vscode-nls";
@@ -45,24 +54,13 @@ nls.config({
 })();
 const localize: nls.LocalizeFunc = nls.loadMessageBundle();
 
-let typeEnum: zowe.CreateDataSetTypeEnum;
-// Make a nice new mutable array for the DS properties
-let newDSProperties;
-
 /**
  * Localized strings that are used multiple times within the file
  */
 const localizedStrings = {
-    dsBinary: localize("createFile.dataSetBinary", "Partitioned Data Set: Binary"),
-    dsC: localize("createFile.dataSetC", "Partitioned Data Set: C"),
-    dsClassic: localize("createFile.dataSetClassic", "Partitioned Data Set: Classic"),
-    dsPartitioned: localize("createFile.dataSetPartitioned", "Partitioned Data Set: Default"),
-    dsSequential: localize("createFile.dataSetSequential", "Sequential Data Set"),
     opCancelled: localize("dsActions.cancelled", "Operation Cancelled"),
     copyingFiles: localize("dsActions.copy.inProgress", "Copying File(s)"),
     profileInvalid: localize("dsActions.profileInvalid", "Profile is invalid, check connection details."),
-    allocString: localize("dsActions.allocate", "Allocate Data Set"),
-    editString: localize("dsActions.editAttributes", "Edit Attributes"),
 };
 
 /**
@@ -176,56 +174,74 @@ export async function uploadDialog(node: ZoweDatasetNode, datasetProvider: api.I
     };
     const value = await api.Gui.showOpenDialog(fileOpenOptions);
     if (value?.length > 0) {
-        await api.Gui.withProgress(
-            {
-                location: vscode.ProgressLocation.Notification,
-                title: localize("uploadFile.response.upload.title", "Uploading to data set"),
-                cancellable: true,
-            },
-            async (progress, token) => {
-                let index = 0;
-                for (const item of value) {
-                    if (token.isCancellationRequested) {
-                        api.Gui.showMessage(localize("uploadFile.uploadCancelled", "Upload action was cancelled."));
-                        break;
-                    }
-                    api.Gui.reportProgress(progress, value.length, index, "Uploading");
-                    const response = await uploadFile(node, item.fsPath);
-                    if (!response?.success) {
-                        await errorHandling(response?.commandResponse, node.getProfileName(), response?.commandResponse);
-                        break;
-                    }
-                    index++;
+        await uploadFiles(node, value, datasetProvider);
+    } else {
+        api.Gui.showMessage(localizedStrings.opCancelled);
+    }
+}
+
+/**
+ * Uploads local files to a data set, as members when it is a partitioned data set, and refreshes it in the tree
+ *
+ * @export
+ * @param {ZoweDatasetNode} node - The data set to upload the files to
+ * @param {{ fsPath: string; binary?: boolean }[]} files - The local files, such as the URIs selected in a dialog or dropped on the tree
+ * @param {IZoweTree<IZoweDatasetTreeNode>} datasetProvider - the tree which contains the nodes
+ */
+export async function uploadFiles(
+    node: ZoweDatasetNode,
+    files: { fsPath: string; binary?: boolean }[],
+    datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>
+): Promise<void> {
+    ZoweLogger.trace("dataset.actions.uploadFiles called.");
+    await api.Gui.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: localize("uploadFile.response.upload.title", "Uploading to data set"),
+            cancellable: true,
+        },
+        async (progress, token) => {
+            let index = 0;
+            for (const item of files) {
+                if (token.isCancellationRequested) {
+                    api.Gui.showMessage(localize("uploadFile.uploadCancelled", "Upload action was cancelled."));
+                    break;
+                }
+                api.Gui.reportProgress(progress, files.length, index, "Uploading");
+                const response = await uploadFile(node, item.fsPath, item.binary);
+                if (!response?.success) {
+                    await errorHandling(response?.commandResponse, node.getProfileName(), response?.commandResponse);
+                    break;
                 }
+                index++;
             }
-        );
+        }
+    );
 
-        // refresh Tree View & favorites
-        datasetProvider.refreshElement(node);
-        datasetProvider.getTreeView().reveal(node, { expand: true, focus: true });
-        if (contextually.isFavorite(node) || contextually.isFavoriteContext(node.getParent())) {
-            const nonFavNode = datasetProvider.findNonFavoritedNode(node);
-            if (nonFavNode) {
-                datasetProvider.refreshElement(nonFavNode);
-            }
-        } else {
-            const favNode = datasetProvider.findFavoritedNode(node);
-            if (favNode) {
-                datasetProvider.refreshElement(favNode);
-            }
+    // refresh Tree View & favorites
+    datasetProvider.refreshElement(node);
+    datasetProvider.getTreeView().reveal(node, { expand: true, focus: true });
+    if (contextually.isFavorite(node) || contextually.isFavoriteContext(node.getParent())) {
+        const nonFavNode = datasetProvider.findNonFavoritedNode(node);
+        if (nonFavNode) {
+            datasetProvider.refreshElement(nonFavNode);
         }
     } else {
-        api.Gui.showMessage(localizedStrings.opCancelled);
+        const favNode = datasetProvider.findFavoritedNode(node);
+        if (favNode) {
+            datasetProvider.refreshElement(favNode);
+        }
     }
 }
 
-export async function uploadFile(node: ZoweDatasetNode, docPath: string): Promise<zowe.IZosFilesResponse> {
+export async function uploadFile(node: ZoweDatasetNode, docPath: string, binary?: boolean): Promise<zowe.IZosFilesResponse> {
     ZoweLogger.trace("dataset.actions.uploadFile called.");
     try {
         const datasetName = node.label as string;
         const prof = node.getProfile();
 
         const response = await ZoweExplorerApiRegister.getMvsApi(prof).putContents(docPath, datasetName, {
+            binary,
             encoding: prof.profile?.encoding,
             responseTimeout: prof.profile?.responseTimeout,
         });
@@ -235,6 +251,112 @@ export async function uploadFile(node: ZoweDatasetNode, docPath: string): Promis
     }
 }
 
+/**
+ * Copies USS files to a partitioned data set as members, such as the files dragged from the USS tree.
+ * Each file is downloaded to a temporary file, in binary mode when it is marked as binary, and uploaded with `uploadFiles`.
+ * The files that would be uploaded to the same member or to an existing member, or that have no valid member name,
+ * are reported and not copied.
+ *
+ * @export
+ * @param {ZoweDatasetNode} node - The partitioned data set to copy the files to
+ * @param {IZoweUSSTreeNode[]} ussNodes - The USS files to copy, the directories are skipped
+ * @param {IZoweTree<IZoweDatasetTreeNode>} datasetProvider - the tree which contains the nodes
+ */
+export async function copyUssFilesToPds(
+    node: ZoweDatasetNode,
+    ussNodes: api.IZoweUSSTreeNode[],
+    datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>
+): Promise<void> {
+    ZoweLogger.trace("dataset.actions.copyUssFilesToPds called.");
+    const dataSetName = node.label as string;
+    let existingMembers: string[];
+    try {
+        const response = await ZoweExplorerApiRegister.getMvsApi(node.getProfile()).allMembers(dataSetName, {
+            responseTimeout: node.getProfile().profile?.responseTimeout,
+        });
+        existingMembers = (response?.apiResponse?.items ?? []).map((item) => item.member as string);
+    } catch (err) {
+        await errorHandling(err, node.getProfileName(), localize("copyUssFilesToPds.listError", "Unable to list the members of {0}.", dataSetName));
+        return;
+    }
+    const ussFiles = ussNodes.filter((selected) => contextually.isText(selected) || contextually.isBinary(selected));
+    const pathsByMember = new Map<string, string[]>();
+    for (const ussNode of ussFiles) {
+        const memberName = getUploadedMemberName(ussNode.fullPath);
+        pathsByMember.set(memberName, [...(pathsByMember.get(memberName) ?? []), ussNode.fullPath]);
+    }
+    const skipped: string[] = [];
+    for (const [memberName, paths] of pathsByMember) {
+        if (memberName === "") {
+            api.Gui.errorMessage(
+                localize(
+                    "copyUssFilesToPds.invalidName",
+                    "These files were not copied, their names are not valid member names: {0}",
+                    paths.join(", ")
+                )
+            );
+            skipped.push(...paths);
+        } else if (paths.length > 1) {
+            api.Gui.errorMessage(
+                localize(
+                    "copyUssFilesToPds.sameName",
+                    "These files were not copied, they would all be copied to the member {0}: {1}",
+                    memberName,
+                    paths.join(", ")
+                )
+            );
+            skipped.push(...paths);
+        } else if (existingMembers.includes(memberName)) {
+            api.Gui.errorMessage(
+                localize("copyUssFilesToPds.exists", "{0} was not copied, the member {1} already exists in {2}.", paths[0], memberName, dataSetName)
+            );
+            skipped.push(...paths);
+        }
+    }
+
+    const files: { fsPath: string; binary?: boolean }[] = [];
+    try {
+        for (const ussNode of ussFiles.filter((ussFile) => !skipped.includes(ussFile.fullPath))) {
+            const prof = ussNode.getProfile();
+            const file = path.join(globals.USS_DIR, ".drop", prof.name, ussNode.fullPath);
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            try {
+                await ZoweExplorerApiRegister.getUssApi(prof).getContents(ussNode.fullPath, {
+                    file,
+                    binary: ussNode.binary,
+                    encoding: prof.profile?.encoding,
+                    responseTimeout: prof.profile?.responseTimeout,
+                });
+                files.push({ fsPath: file, binary: ussNode.binary });
+            } catch (err) {
+                await errorHandling(err, prof.name, localize("copyUssFilesToPds.error", "Unable to download {0}.", ussNode.fullPath));
+            }
+        }
+        if (files.length > 0) {
+            await uploadFiles(node, files, datasetProvider);
+        }
+    } finally {
+        for (const file of files) {
+            if (fs.existsSync(file.fsPath)) {
+                fs.unlinkSync(file.fsPath);
+            }
+        }
+    }
+}
+
+/**
+ * Gets the member name a file is uploaded to when no member is given, like the SDK: the name without its extension
+ * in upper case, without the characters and leading digits that are not allowed, truncated to the maximum length
+ */
+function getUploadedMemberName(filePath: string): string {
+    return path.posix
+        .parse(filePath)
+        .name.toUpperCase()
+        .replace(/[^A-Z0-9@#$]/g, "")
+        .replace(/^\d+/, "")
+        .substring(0, globals.MAX_MEMBER_LENGTH);
+}
+
 /**
  * Deletes nodes from the data set tree & delegates deletion of data sets, members, and profiles
  *
@@ -436,6 +558,17 @@ export async function createMember(parent: api.IZoweDatasetTreeNode, datasetProv
     }
 }
 
+/**
+ * Whether the contents of a data set or member are in the offline cache,
+ * so that it can be opened when the profile could not be validated
+ */
+function isInOfflineCache(node: api.IZoweDatasetTreeNode): boolean {
+    const remoteName = contextually.isDsMember(node)
+        ? `${node.getParent().getLabel() as string}(${node.getLabel() as string})`
+        : (node.label as string);
+    return OfflineCache.hasContents(node.getProfileName(), remoteName);
+}
+
 /**
  * Downloads and displays a PS or data set member in a text editor view
  *
@@ -453,7 +586,7 @@ export async function openPS(
 
     const doubleClicked = api.Gui.utils.wasDoubleClicked(node, datasetProvider);
     const shouldPreview = doubleClicked ? false : previewMember;
-    if (Profiles.getInstance().validProfile !== api.ValidProfileEnum.INVALID) {
+    if (Profiles.getInstance().validProfile !== api.ValidProfileEnum.INVALID || isInOfflineCache(node)) {
         try {
             let label: string;
             const defaultMessage = localize("openPS.error", "Invalid data set or member.");
@@ -472,22 +605,39 @@ export async function openPS(
                     api.Gui.errorMessage(defaultMessage);
                     throw Error(defaultMessage);
             }
-            // if local copy exists, open that instead of pulling from mainframe
-            const documentFilePath = getDocumentFilePath(label, node);
-            if (!fs.existsSync(documentFilePath)) {
-                const prof = node.getProfile();
-                ZoweLogger.info(localize("openPS.openDataSet", "Opening {0}", label));
-                const statusMsg = api.Gui.setStatusBarMessage(localize("dataSet.opening", "$(sync~spin) Opening data set..."));
-                const response = await ZoweExplorerApiRegister.getMvsApi(prof).getContents(label, {
-                    file: documentFilePath,
-                    returnEtag: true,
-                    encoding: prof.profile?.encoding,
-                    responseTimeout: prof.profile?.responseTimeout,
-                });
-                node.setEtag(response?.apiResponse?.etag);
-                statusMsg.dispose();
+            let document: vscode.TextDocument;
+            if (SettingsConfig.getDirectValue<boolean>(globals.SETTINGS_FILES_VIRTUAL_FILE_SYSTEM)) {
+                // read and write the contents directly on the mainframe through the zowe-ds file system
+                const [dataSetName, memberName] = label.replace(")", "").split("(");
+                document = await vscode.workspace.openTextDocument(DatasetFSProvider.buildUri(node.getProfileName(), dataSetName, memberName));
+            } else {
+                // if local copy exists, open that instead of pulling from mainframe
+                const documentFilePath = getDocumentFilePath(label, node);
+                let cachedUri: vscode.Uri;
+                if (!fs.existsSync(documentFilePath)) {
+                    const prof = node.getProfile();
+                    ZoweLogger.info(localize("openPS.openDataSet", "Opening {0}", label));
+                    const statusMsg = api.Gui.setStatusBarMessage(localize("dataSet.opening", "$(sync~spin) Opening data set..."));
+                    const response = await ZoweExplorerApiRegister.getMvsApi(prof).getContents(label, {
+                        file: documentFilePath,
+                        returnEtag: true,
+                        encoding: prof.profile?.encoding,
+                        responseTimeout: prof.profile?.responseTimeout,
+                    });
+                    const savedAt = OfflineCache.getSavedAt(response);
+                    if (savedAt) {
+                        // The host could not be reached, the cached contents cannot be saved
+                        cachedUri = OfflineCache.openReadOnly(node.getProfileName(), label, documentFilePath, savedAt);
+                    } else {
+                        node.setEtag(response?.apiResponse?.etag);
+                        setBaseContent(documentFilePath);
+                    }
+                    statusMsg.dispose();
+                }
+                document = cachedUri
+                    ? await vscode.workspace.openTextDocument(cachedUri)
+                    : await vscode.workspace.openTextDocument(getDocumentFilePath(label, node));
             }
-            const document = await vscode.workspace.openTextDocument(getDocumentFilePath(label, node));
             await api.Gui.showTextDocument(document, { preview: shouldPreview });
             if (datasetProvider) {
                 datasetProvider.addFileHistory(`[${node.getProfileName()}]: ${label}`);
@@ -499,357 +649,23 @@ export async function openPS(
     }
 }
 
-export function getDataSetTypeAndOptions(type: string): {
-    typeEnum: zowe.CreateDataSetTypeEnum;
-    createOptions: vscode.WorkspaceConfiguration;
-} {
-    let createOptions: vscode.WorkspaceConfiguration;
-    switch (type) {
-        case localizedStrings.dsBinary:
-            typeEnum = zowe.CreateDataSetTypeEnum.DATA_SET_BINARY;
-            createOptions = vscode.workspace.getConfiguration(globals.SETTINGS_DS_DEFAULT_BINARY);
-            break;
-        case localizedStrings.dsC:
-            typeEnum = zowe.CreateDataSetTypeEnum.DATA_SET_C;
-            createOptions = vscode.workspace.getConfiguration(globals.SETTINGS_DS_DEFAULT_C);
-            break;
-        case localizedStrings.dsClassic:
-            typeEnum = zowe.CreateDataSetTypeEnum.DATA_SET_CLASSIC;
-            createOptions = vscode.workspace.getConfiguration(globals.SETTINGS_DS_DEFAULT_CLASSIC);
-            break;
-        case localizedStrings.dsPartitioned:
-            typeEnum = zowe.CreateDataSetTypeEnum.DATA_SET_PARTITIONED;
-            createOptions = vscode.workspace.getConfiguration(globals.SETTINGS_DS_DEFAULT_PDS);
-            break;
-        case localizedStrings.dsSequential:
-            typeEnum = zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL;
-            createOptions = vscode.workspace.getConfiguration(globals.SETTINGS_DS_DEFAULT_PS);
-            break;
-    }
-    return {
-        typeEnum,
-        createOptions,
-    };
-}
-
 /**
- * Creates a new file and uploads to the server
+ * Shows the form that allocates a new data set
  * @export
  * @param {IZoweDatasetTreeNode} node - Desired Zowe session
  * @param {DatasetTree} datasetProvider - the tree which contains the nodes
  */
-export async function createFile(node: api.IZoweDatasetTreeNode, datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>): Promise<void> {
+export function createFile(node: api.IZoweDatasetTreeNode, datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>): void {
+    ZoweLogger.trace("dataset.actions.createFile called.");
     datasetProvider.checkCurrentProfile(node);
     if (Profiles.getInstance().validProfile === api.ValidProfileEnum.INVALID) {
         return;
     }
-    newDSProperties = JSON.parse(JSON.stringify(globals.DATA_SET_PROPERTIES));
-    // 1st step: Get data set name
-    let dsName = await getDataSetName();
-    if (!dsName) {
-        ZoweLogger.debug(localizedStrings.opCancelled);
-        api.Gui.showMessage(localizedStrings.opCancelled);
-        return;
-    }
-    // 2nd step: Get data set type
-    const type = await getDsTypeForCreation(datasetProvider);
-    if (!type) {
-        ZoweLogger.debug(localizedStrings.opCancelled);
-        api.Gui.showMessage(localizedStrings.opCancelled);
-        return;
-    }
-    const propertiesFromDsType = getDsProperties(type, datasetProvider);
-    // 3rd step: Ask if we allocate, or show DS attributes
-    const choice = await allocateOrEditAttributes();
-    if (!choice) {
-        ZoweLogger.debug(localizedStrings.opCancelled);
-        api.Gui.showMessage(localizedStrings.opCancelled);
-        return;
-    }
-    if (choice.includes(localizedStrings.allocString)) {
-        // User wants to allocate straightaway - skip Step 4
-        const allocMsg = localize("createFile.allocatingNewDataSet", "Allocating new data set");
-        ZoweLogger.debug(allocMsg);
-        api.Gui.showMessage(allocMsg);
-    } else {
-        // 4th step (optional): Show data set attributes
-        const choice2 = await handleUserSelection();
-        if (!choice2) {
-            ZoweLogger.debug(localizedStrings.opCancelled);
-            api.Gui.showMessage(localizedStrings.opCancelled);
-            return;
-        }
-        ZoweLogger.debug(localize("createFile.allocatingNewDataSet", "Attempting to allocate new data set"));
-    }
-    const isMatch = compareDsProperties(type, datasetProvider);
-    // Format properties for use by API
-    const dsPropsForAPI = {};
-    newDSProperties?.forEach((property) => {
-        if (property.value) {
-            if (property.key === `dsName`) {
-                dsName = property.value;
-            } else {
-                if (typeof propertiesFromDsType[property.key] === "number") {
-                    dsPropsForAPI[property.key] = Number(property.value);
-                } else {
-                    dsPropsForAPI[property.key] = property.value;
-                }
-            }
-        }
-    });
-    await allocateNewDataSet(node, dsName, dsPropsForAPI, datasetProvider);
-    if (!isMatch) {
-        await saveDsTemplate(datasetProvider, dsPropsForAPI);
-    }
-}
-
-async function handleUserSelection(): Promise<string> {
-    // Create the array of items in the quickpick list
-    const qpItems = [];
-    qpItems.push(new FilterItem({ text: `\u002B ${localizedStrings.allocString}`, show: true }));
-    newDSProperties?.forEach((prop) => {
-        const propLabel = `\u270F ${prop.label as string}`;
-        qpItems.push(new FilterItem({ text: propLabel, description: prop.value, show: true }));
-    });
-
-    // Provide the settings for the quickpick's appearance & behavior
-    const quickpick = api.Gui.createQuickPick();
-    quickpick.placeholder = localize("handleUserSelection.qp.prompt", "Click on parameters to change them");
-    quickpick.ignoreFocusOut = true;
-    quickpick.items = [...qpItems];
-    quickpick.matchOnDescription = false;
-    quickpick.onDidHide(() => {
-        if (quickpick.selectedItems.length === 0) {
-            ZoweLogger.debug(localizedStrings.opCancelled);
-            api.Gui.showMessage(localizedStrings.opCancelled);
-        }
-    });
-
-    // Show quickpick and store the user's input
-    quickpick.show();
-    const choice2 = await api.Gui.resolveQuickPick(quickpick);
-    quickpick.dispose();
-    if (!choice2) {
-        return;
-    }
-    const pattern = choice2.label;
-    const showPatternOptions = async (): Promise<void> => {
-        const options: vscode.InputBoxOptions = {
-            value: newDSProperties?.find((prop) => pattern.includes(prop.label))?.value,
-            placeHolder: newDSProperties?.find((prop) => prop.label === pattern)?.placeHolder,
-        };
-        newDSProperties.find((prop) => pattern.includes(prop.label)).value = await api.Gui.showInputBox(options);
-    };
-
-    if (pattern) {
-        // Parse pattern for selected attribute
-        if (pattern.includes(localizedStrings.allocString)) {
-            return Promise.resolve(localizedStrings.allocString);
-        } else {
-            await showPatternOptions();
-        }
-        return Promise.resolve(handleUserSelection());
-    }
-}
-
-async function getDataSetName(): Promise<string> {
-    const options: vscode.InputBoxOptions = {
-        placeHolder: localize("createFile.inputBox.placeHolder", "Name of Data Set"),
-        ignoreFocusOut: true,
-        validateInput: (text) => {
-            return dsUtils.validateDataSetName(text) === true ? null : localize("dataset.validation", "Enter valid dataset name");
-        },
-    };
-    let dsName = await api.Gui.showInputBox(options);
-    if (!dsName) {
-        return;
-    }
-    dsName = dsName.trim().toUpperCase();
-    return dsName;
-}
-
-async function getDsTypeForCreation(datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>): Promise<string> {
-    const stepTwoOptions: vscode.QuickPickOptions = {
-        placeHolder: localize("createFile.quickPickOption.dataSetType", "Template of Data Set to be Created"),
-        ignoreFocusOut: true,
-        canPickMany: false,
-    };
-    //get array of template names
-    const dsTemplateNames = getTemplateNames(datasetProvider);
-    const stepTwoChoices = [
-        ...dsTemplateNames,
-        localizedStrings.dsBinary,
-        localizedStrings.dsC,
-        localizedStrings.dsClassic,
-        localizedStrings.dsPartitioned,
-        localizedStrings.dsSequential,
-    ];
-    return Promise.resolve(api.Gui.showQuickPick(stepTwoChoices, stepTwoOptions));
-}
-
-function getTemplateNames(datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>): string[] {
-    const templates = datasetProvider.getDsTemplates();
-    const templateNames: string[] = [];
-    templates?.forEach((template) => {
-        Object.entries(template).forEach(([key, value]) => {
-            templateNames.push(key);
-        });
-    });
-    return templateNames;
-}
-
-function compareDsProperties(type: string, datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>): boolean {
-    let isMatch = true;
-    const templates: api.DataSetAllocTemplate[] = datasetProvider.getDsTemplates();
-    let propertiesFromDsType: Partial<zowe.ICreateDataSetOptions>;
-    // Look for template
-    templates?.forEach((template) => {
-        for (const [key, value] of Object.entries(template)) {
-            if (type === key) {
-                propertiesFromDsType = value;
-            }
-        }
-    });
-    if (!propertiesFromDsType) {
-        propertiesFromDsType = getDefaultDsTypeProperties(type);
-    }
-    newDSProperties?.forEach((property) => {
-        Object.keys(propertiesFromDsType).forEach((typeProperty) => {
-            if (typeProperty === property.key) {
-                if (property.value !== propertiesFromDsType[typeProperty].toString()) {
-                    isMatch = false;
-                    return;
-                }
-            }
-        });
-    });
-    return isMatch;
-}
-
-function getDsProperties(type: string, datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>): Partial<zowe.ICreateDataSetOptions> {
-    const templates: api.DataSetAllocTemplate[] = datasetProvider.getDsTemplates();
-    let propertiesFromDsType: Partial<zowe.ICreateDataSetOptions>;
-    // Look for template
-    templates?.forEach((template) => {
-        Object.entries(template).forEach(([key, value]) => {
-            if (type === key) {
-                if (template[key].dsorg === "PS") {
-                    typeEnum = 4;
-                } else {
-                    typeEnum = 3;
-                }
-                propertiesFromDsType = value;
-            }
-        });
-    });
-    if (!propertiesFromDsType) {
-        propertiesFromDsType = getDefaultDsTypeProperties(type);
-    }
-    newDSProperties?.forEach((property) => {
-        Object.keys(propertiesFromDsType).forEach((typeProperty) => {
-            if (typeProperty === property.key) {
-                property.value = propertiesFromDsType[typeProperty].toString();
-                property.placeHolder = propertiesFromDsType[typeProperty];
-            }
-        });
-    });
-    return propertiesFromDsType;
-}
-
-function getDefaultDsTypeProperties(dsType: string): zowe.ICreateDataSetOptions {
-    typeEnum = getDataSetTypeAndOptions(dsType)?.typeEnum;
-    const cliDefaultsKey = globals.CreateDataSetTypeWithKeysEnum[typeEnum]?.replace("DATA_SET_", "");
-    return zowe.CreateDefaults.DATA_SET[cliDefaultsKey] as zowe.ICreateDataSetOptions;
-}
-
-async function allocateOrEditAttributes(): Promise<string> {
-    const stepThreeOptions: vscode.QuickPickOptions = {
-        ignoreFocusOut: true,
-        canPickMany: false,
-    };
-    const allocate = `\u002B ${localizedStrings.allocString}`;
-    const editAtts = `\u270F ${localizedStrings.editString}`;
-    const stepThreeChoices = [allocate, editAtts];
-    return Promise.resolve(api.Gui.showQuickPick(stepThreeChoices, stepThreeOptions));
-}
-
-async function allocateNewDataSet(
-    node: api.IZoweDatasetTreeNode,
-    dsName: string,
-    dsPropsForAPI: {},
-    datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>
-): Promise<void> {
-    const profile = node.getProfile();
-    try {
-        // Allocate the data set
-        await ZoweExplorerApiRegister.getMvsApi(profile).createDataSet(typeEnum, dsName, {
-            responseTimeout: profile?.profile?.responseTimeout,
-            ...dsPropsForAPI,
-        });
-        node.dirty = true;
-        const theFilter = datasetProvider.createFilterString(dsName, node);
-        datasetProvider.refresh();
-
-        // Show newly-created data set in expanded tree view
-        await focusOnNewDs(node, dsName, datasetProvider, theFilter);
-    } catch (err) {
-        const errorMsg = localize("allocateNewDataSet.error", "Error encountered when creating data set.");
-        ZoweLogger.error(errorMsg + JSON.stringify(err));
-        if (err instanceof Error) {
-            await errorHandling(err, node.getProfileName(), errorMsg);
-        }
-        throw new Error(err);
-    }
-}
-
-async function focusOnNewDs(
-    node: api.IZoweDatasetTreeNode,
-    dsName: string,
-    datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>,
-    theFilter: any
-): Promise<void> {
-    node.tooltip = node.pattern = theFilter.toUpperCase();
-    node.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
-    const icon = getIconByNode(node);
-    if (icon) {
-        node.iconPath = icon.path;
-    }
-    node.dirty = true;
-
-    const newNode = await node.getChildren().then((children) => children.find((child) => child.label === dsName));
-    datasetProvider
-        .getTreeView()
-        .reveal(node, { select: true, focus: true })
-        .then(() => datasetProvider.getTreeView().reveal(newNode, { select: true, focus: true }));
-}
-
-async function saveDsTemplate(datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>, dsPropsForAPI: any): Promise<void> {
-    // newDSProperties
-    await api.Gui.infoMessage("Would you like to save these attributes as a template for future data set creation?", {
-        items: ["Save"],
-        vsCodeOpts: { modal: true },
-    }).then(async (selection) => {
-        if (selection) {
-            const options: vscode.InputBoxOptions = {
-                placeHolder: localize("saveDsTemplate.inputBox.placeHolder", "Name of Data Set Template"),
-                ignoreFocusOut: true,
-            };
-            const templateName = await vscode.window.showInputBox(options);
-            if (!templateName) {
-                ZoweLogger.debug(localizedStrings.opCancelled);
-                api.Gui.showMessage(localizedStrings.opCancelled);
-                return;
-            }
-            const newTemplate: api.DataSetAllocTemplate = {
-                [templateName]: dsPropsForAPI,
-            };
-            datasetProvider.addDsTemplate(newTemplate);
-        }
-    });
+    showAllocateView(node, datasetProvider);
 }
 
 /**
- * Shows data set attributes in a new text editor
+ * Shows data set attributes by group in a webview, where data sets can be allocated again with changes
  *
  * @export
  * @param {IZoweDatasetTreeNode} node   - The node to show attributes for
@@ -893,37 +709,7 @@ export async function showAttributes(node: api.IZoweDatasetTreeNode, datasetProv
             throw err;
         }
 
-        const attributesMessage = localize("attributes.title", "Attributes");
-        const webviewHTML = `<!DOCTYPE html>
-        <html lang="en">
-        <head>
-            <meta charset="UTF-8">
-            <title>${label} "${attributesMessage}"</title>
-        </head>
-        <body>
-        <table style="margin-top: 2em; border-spacing: 2em 0">
-        ${Object.keys(attributes[0]).reduce(
-            (html, key) =>
-                html.concat(`
-                <tr>
-                    <td align="left" style="color: var(--vscode-editorLink-activeForeground); font-weight: bold">${key}:</td>
-                    <td align="right" style="color: ${
-                        isNaN(attributes[0][key]) ? "var(--vscode-settings-textInputForeground)" : "var(--vscode-problemsWarningIcon-foreground)"
-                        // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
-                    }">${attributes[0][key]}</td>
-                </tr>
-        `),
-            ""
-        )}
-        </table>
-        </body>
-        </html>`;
-        const panel: vscode.WebviewPanel = api.Gui.createWebviewPanel({
-            viewType: "zowe",
-            title: label + " " + localize("attributes.title", "Attributes"),
-            showOptions: vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : 1,
-        });
-        panel.webview.html = webviewHTML;
+        showAttributesView(node, attributes[0], datasetProvider);
     }
 }
 
@@ -993,6 +779,7 @@ export async function submitJcl(datasetProvider: api.IZoweTree<api.IZoweDatasetT
             const setJobCmd = `command:zowe.jobs.setJobSpool?${encodeURIComponent(JSON.stringify(args))}`;
             api.Gui.showMessage(localize("submitJcl.jobSubmitted", "Job submitted ") + `[${job.jobid}](${setJobCmd})`);
             ZoweLogger.info(localize("submitJcl.jobSubmitted", "Job submitted {0} using profile {1}.", job.jobid, sessProfileName));
+            JobWatcher.watch(sessProfile, job);
         } catch (error) {
             if (error instanceof Error) {
                 await errorHandling(error, sessProfileName, localize("submitJcl.jobSubmissionFailed", "Job submission failed."));
@@ -1051,14 +838,16 @@ async function confirmJobSubmission(node: api.IZoweTreeNode, ownsJob: boolean):
  *
  * @export
  * @param node The dataset member
+ * @param jobsProfile {optional} The profile to submit the job with instead of the profile of the member,
+ * when the member is dropped on a session of the Jobs tree
  */
-export async function submitMember(node: api.IZoweTreeNode): Promise<void> {
+export async function submitMember(node: api.IZoweTreeNode, jobsProfile?: zowe.imperative.IProfileLoaded): Promise<void> {
     ZoweLogger.trace("dataset.actions.submitMember called.");
     let label: string;
     let sesName: string;
     let sessProfile: zowe.imperative.IProfileLoaded;
     const profiles = Profiles.getInstance();
-    const nodeProfile = node.getProfile();
+    const nodeProfile = jobsProfile ?? node.getProfile();
     await profiles.checkCurrentProfile(nodeProfile);
 
     const datasetName = contextually.isDsMember(node) ? node.getParent().getLabel().toString() : node.getLabel().toString();
@@ -1089,12 +878,17 @@ export async function submitMember(node: api.IZoweTreeNode): Promise<void> {
                 api.Gui.errorMessage(defaultMessage);
                 throw Error(defaultMessage);
         }
+        if (jobsProfile) {
+            sesName = jobsProfile.name;
+            sessProfile = jobsProfile;
+        }
         try {
             const job = await ZoweExplorerApiRegister.getJesApi(sessProfile).submitJob(label);
             const args = [sesName, job.jobid];
             const setJobCmd = `command:zowe.jobs.setJobSpool?${encodeURIComponent(JSON.stringify(args))}`;
             api.Gui.showMessage(localize("submitMember.jobSubmitted", "Job submitted ") + `[${job.jobid}](${setJobCmd})`);
             ZoweLogger.info(localize("submitMember.success", "Job submitted {0} using profile {1}.", job.jobid, sesName));
+            JobWatcher.watch(sessProfile, job);
         } catch (error) {
             if (error instanceof Error) {
                 await errorHandling(error, sesName, localize("submitMember.jobSubmissionFailed", "Job submission failed."));
@@ -1218,6 +1012,7 @@ export async function refreshPS(node: api.IZoweDatasetTreeNode): Promise<void> {
             responseTimeout: prof.profile?.responseTimeout,
         });
         node.setEtag(response.apiResponse.etag);
+        setBaseContent(documentFilePath);
 
         const document = await vscode.workspace.openTextDocument(documentFilePath);
         api.Gui.showTextDocument(document, { preview: false });
@@ -1469,37 +1264,38 @@ export async function pasteMember(node: api.IZoweDatasetTreeNode, datasetProvide
             }
         }
 
-        if (beforeProfileName === profileName) {
-            let replace: shouldReplace;
-            if (memberName) {
-                replace = await determineReplacement(node.getProfile(), `${dataSetName}(${memberName})`, "mem");
+        let replace: shouldReplace;
+        if (memberName) {
+            replace = await determineReplacement(node.getProfile(), `${dataSetName}(${memberName})`, "mem");
+        }
+        if (replace !== "cancel") {
+            try {
+                const sourceProfile =
+                    beforeProfileName === profileName ? node.getProfile() : Profiles.getInstance().loadNamedProfile(beforeProfileName);
+                await transferDataSet(
+                    "mem",
+                    { profile: sourceProfile, dsn: beforeDataSetName, member: beforeMemberName },
+                    { profile: node.getProfile(), dsn: dataSetName, member: memberName },
+                    replace
+                );
+            } catch (err) {
+                ZoweLogger.error(err);
+                api.Gui.errorMessage(err.message);
+                return;
             }
-            if (replace !== "cancel") {
-                try {
-                    await ZoweExplorerApiRegister.getMvsApi(node.getProfile()).copyDataSetMember(
-                        { dsn: beforeDataSetName, member: beforeMemberName },
-                        { dsn: dataSetName, member: memberName },
-                        { replace: replace === "replace" }
-                    );
-                } catch (err) {
-                    ZoweLogger.error(err);
-                    api.Gui.errorMessage(err.message);
-                    return;
-                }
-                if (memberName) {
-                    datasetProvider.refreshElement(node);
-                    let node2;
-                    if (node.contextValue.includes(globals.FAV_SUFFIX)) {
-                        node2 = datasetProvider.findNonFavoritedNode(node);
-                    } else {
-                        node2 = datasetProvider.findFavoritedNode(node);
-                    }
-                    if (node2) {
-                        datasetProvider.refreshElement(node2);
-                    }
+            if (memberName) {
+                datasetProvider.refreshElement(node);
+                let node2;
+                if (node.contextValue.includes(globals.FAV_SUFFIX)) {
+                    node2 = datasetProvider.findNonFavoritedNode(node);
                 } else {
-                    await refreshPS(node);
+                    node2 = datasetProvider.findFavoritedNode(node);
+                }
+                if (node2) {
+                    datasetProvider.refreshElement(node2);
                 }
+            } else {
+                await refreshPS(node);
             }
         }
     }
@@ -1563,7 +1359,7 @@ export async function saveFile(doc: vscode.TextDocument, datasetProvider: api.IZ
             return;
         }
     } catch (err) {
-        await errorHandling(err, sesName);
+        await handleSaveError(err, sesName);
     }
     // Get specific node based on label and parent tree (session / favorites)
     const nodes: api.IZoweNodeType[] = concatChildNodes(sesNode ? [sesNode] : datasetProvider.mSessionNodes);
@@ -1590,8 +1386,10 @@ export async function saveFile(doc: vscode.TextDocument, datasetProvider: api.IZ
                 location: vscode.ProgressLocation.Window,
                 title: localize("saveFile.progress.title", "Saving data set..."),
             },
-            () => {
+            async () => {
                 const prof = node?.getProfile() ?? profile;
+                // Keep the version that is replaced by the upload
+                await LocalHistory.saveVersion(prof, label);
                 if (prof.profile?.encoding) {
                     uploadOptions.encoding = prof.profile.encoding;
                 }
@@ -1608,6 +1406,7 @@ export async function saveFile(doc: vscode.TextDocument, datasetProvider: api.IZ
                 node.setEtag(uploadResponse.apiResponse[0].etag);
                 setFileSaved(true);
             }
+            setBaseContent(doc.fileName, doc.getText());
         } else if (!uploadResponse.success && uploadResponse.commandResponse.includes("Rest API failure with HTTP(S) status 412")) {
             await compareFileContent(doc, node, label, null, profile);
         } else {
@@ -1615,9 +1414,27 @@ export async function saveFile(doc: vscode.TextDocument, datasetProvider: api.IZ
             api.Gui.errorMessage(uploadResponse.commandResponse);
         }
     } catch (err) {
+        await handleSaveError(err, sesName, doc);
+    }
+}
+
+/**
+ * Reports an error raised while saving a data set. Network errors are thrown again for the save queue
+ * to retry the upload once the connection is back.
+ *
+ * @param err the error raised by the API
+ * @param sesName the name of the session of the data set
+ * @param doc the document to mark as unsaved, when the upload was attempted
+ */
+async function handleSaveError(err: Error, sesName: string, doc?: vscode.TextDocument): Promise<void> {
+    ZoweLogger.trace("dataset.actions.handleSaveError called.");
+    if (isTransientError(err)) {
+        throw err;
+    }
+    if (doc) {
         await markDocumentUnsaved(doc);
-        await errorHandling(err, sesName);
     }
+    await errorHandling(err, sesName);
 }
 
 /**
@@ -1648,10 +1465,24 @@ export async function pasteDataSetMembers(datasetProvider: api.IZoweTree<api.IZo
             for (const content of clipboardContent) {
                 if (content.memberName) {
                     try {
-                        await ZoweExplorerApiRegister.getMvsApi(node.getProfile()).copyDataSetMember(
-                            { dsn: content.dataSetName, member: content.memberName },
-                            { dsn: node.getLabel().toString(), member: content.memberName }
-                        );
+                        if (content.profileName == null || content.profileName === node.getProfileName()) {
+                            await ZoweExplorerApiRegister.getMvsApi(node.getProfile()).copyDataSetMember(
+                                { dsn: content.dataSetName, member: content.memberName },
+                                { dsn: node.getLabel().toString(), member: content.memberName }
+                            );
+                        } else {
+                            const target = { profile: node.getProfile(), dsn: node.getLabel().toString(), member: content.memberName };
+                            const replace = await determineReplacement(target.profile, `${target.dsn}(${target.member as string})`, "mem");
+                            if (replace !== "cancel") {
+                                const sourceProfile = Profiles.getInstance().loadNamedProfile(content.profileName);
+                                await transferDataSet(
+                                    "mem",
+                                    { profile: sourceProfile, dsn: content.dataSetName, member: content.memberName },
+                                    target,
+                                    replace
+                                );
+                            }
+                        }
                     } catch (err) {
                         api.Gui.errorMessage(err.message);
                         return;
@@ -1696,6 +1527,55 @@ export async function downloadDs(node: ZoweDatasetNode): Promise<zowe.IZosFilesR
     });
 }
 
+/**
+ * Downloads the members of a PDS, or the data sets listed by the search of a profile, to a local folder.
+ * The members of each PDS are downloaded to a folder named after the PDS.
+ *
+ * @export
+ * @param {IZoweDatasetTreeNode} node - the PDS or the profile node
+ */
+export async function downloadToFolder(node: api.IZoweDatasetTreeNode): Promise<void> {
+    ZoweLogger.trace("dataset.actions.downloadToFolder called.");
+    if (contextually.isDsSession(node) && !node.pattern) {
+        api.Gui.showMessage(localize("downloadToFolder.noPattern", "Search the profile for data sets before downloading them."));
+        return;
+    }
+    const profile = node.getProfile();
+    const mvsApi = ZoweExplorerApiRegister.getMvsApi(profile);
+    const options = { encoding: profile.profile?.encoding, responseTimeout: profile.profile?.responseTimeout };
+    await FolderDownload.start(node.getLabel() as string, async (download) => {
+        const dataSets = contextually.isDsSession(node) ? await node.getChildren() : [node];
+        for (const dataSet of dataSets) {
+            if (download.token.isCancellationRequested) {
+                return;
+            }
+            const dsName = dataSet.getLabel() as string;
+            const extension = dsUtils.getDownloadExtension(dsName);
+            if (contextually.isPds(dataSet)) {
+                try {
+                    const response = await mvsApi.allMembers(dsName, options);
+                    for (const item of response.apiResponse?.items ?? []) {
+                        const memberName = `${dsName}(${item.member as string})`;
+                        download.add({
+                            name: memberName,
+                            relativePath: path.join(dsName, `${item.member as string}${extension}`),
+                            download: (file) => mvsApi.getContents(memberName, { ...options, file }),
+                        });
+                    }
+                } catch (err) {
+                    download.fail(dsName, err);
+                }
+            } else if (contextually.isDs(dataSet)) {
+                download.add({
+                    name: dsName,
+                    relativePath: `${dsName}${extension}`,
+                    download: (file) => mvsApi.getContents(dsName, { ...options, file }),
+                });
+            }
+        }
+    });
+}
+
 /**
  * copies given sequential dataset nodes
  *
@@ -1866,3 +1746,335 @@ export async function _copyProcessor(
         }
     }
 }
+
+/**
+ * A data set or member of a profile, copied or moved between profiles
+ * @export
+ */
+export interface IDataSetLocation {
+    profile: zowe.imperative.IProfileLoaded;
+    dsn: string;
+    member?: string;
+    /** Whether the content is transferred in binary mode, found from the record format of the data set when not set */
+    binary?: boolean;
+}
+
+/**
+ * Copies a sequential data set, a partitioned data set or a member to the same profile or to another one.
+ * On the same profile, the data set is copied on the mainframe with `IMvs.copyDataSet` and `IMvs.copyDataSetMember`.
+ * Between profiles, which can be on other systems or use other APIs, the content of each member or sequential data set
+ * is downloaded with `getContents` and uploaded with `putContents`, and the target data set is allocated with the
+ * attributes of the source when it does not exist. Data sets with the undefined record format, such as load libraries,
+ * are transferred in binary mode.
+ *
+ * @export
+ * @param {replaceDstype} type the type of the data set, or "mem" for a member
+ * @param {IDataSetLocation} source the data set or member to copy
+ * @param {IDataSetLocation} target the data set or member to copy to
+ * @param {shouldReplace} replace whether the target exists, as returned by `determineReplacement`
+ * @param {vscode.Progress} progress {optional} the progress the copied members are reported to
+ * @throws {Error} when a member of a partitioned data set could not be copied, once the other members are copied
+ */
+export async function transferDataSet(
+    type: replaceDstype,
+    source: IDataSetLocation,
+    target: IDataSetLocation,
+    replace: shouldReplace,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+): Promise<void> {
+    ZoweLogger.trace("dataset.actions.transferDataSet called.");
+    const sameProfile = source.profile.name === target.profile.name;
+    const sourceApi = ZoweExplorerApiRegister.getMvsApi(source.profile);
+    const targetApi = ZoweExplorerApiRegister.getMvsApi(target.profile);
+    if (type === "mem") {
+        if (sameProfile) {
+            await targetApi.copyDataSetMember(
+                { dsn: source.dsn, member: source.member },
+                { dsn: target.dsn, member: target.member },
+                { replace: replace === "replace" }
+            );
+        } else {
+            await transferContent(source, target);
+        }
+        return;
+    }
+
+    if (replace === "notFound") {
+        await allocateLikeSource(source, target);
+    }
+    if (type === "ps") {
+        if (sameProfile && targetApi.copyDataSet) {
+            await targetApi.copyDataSet(source.dsn, target.dsn, null, true);
+        } else {
+            await transferContent(source, target);
+        }
+        return;
+    }
+
+    const response = await sourceApi.allMembers(source.dsn, { responseTimeout: source.profile.profile?.responseTimeout });
+    const members: string[] = (response?.apiResponse?.items ?? []).map((item) => item.member as string);
+    const binary = sameProfile ? source.binary : source.binary ?? (await isBinaryDataSet(source));
+    const failures: string[] = [];
+    for (const [index, member] of members.entries()) {
+        if (progress) {
+            api.Gui.reportProgress(progress, members.length, index, localize("transferDataSet.progress", "Copying member"));
+        }
+        try {
+            await transferDataSet("mem", { ...source, member, binary }, { ...target, member }, "replace");
+        } catch (err) {
+            ZoweLogger.error(`Unable to copy ${source.dsn}(${member}) to ${target.dsn}(${member}): ${(err as Error).message}`);
+            failures.push(member);
+        }
+    }
+    if (failures.length > 0) {
+        throw new Error(
+            localize(
+                "transferDataSet.failures",
+                "{0} of {1} members could not be copied: {2}. See the Zowe Explorer log for details.",
+                failures.length,
+                members.length,
+                failures.join(", ")
+            )
+        );
+    }
+}
+
+/**
+ * Copies or moves the selected data sets or members to another profile, or under another name to the same profile.
+ * Members are copied to a partitioned data set of the target profile, and data sets are copied to a data set of the same type.
+ * A moved data set or member is only deleted once all of its content is copied.
+ *
+ * @export
+ * @param {IZoweDatasetTreeNode} node the node the command was run on
+ * @param {IZoweDatasetTreeNode[]} nodeList the selected nodes
+ * @param {IZoweTree<IZoweDatasetTreeNode>} datasetProvider
+ * @param {boolean} move whether to delete the data sets or members once they are copied
+ */
+export async function copyToProfile(
+    node: api.IZoweDatasetTreeNode,
+    nodeList: api.IZoweDatasetTreeNode[],
+    datasetProvider: api.IZoweTree<api.IZoweDatasetTreeNode>,
+    move = false
+): Promise<void> {
+    ZoweLogger.trace("dataset.actions.copyToProfile called.");
+    const selectedNodes = getSelectedNodeList(node ?? datasetProvider.getTreeView().selection[0], nodeList) as api.IZoweDatasetTreeNode[];
+    const type: replaceDstype = contextually.isDsMember(selectedNodes[0]) ? "mem" : contextually.isPds(selectedNodes[0]) ? "po" : "ps";
+    if (selectedNodes.some((selected) => contextually.getBaseContext(selected) !== contextually.getBaseContext(selectedNodes[0]))) {
+        api.Gui.showMessage(
+            localize("copyDataSet.multitype.error", "Cannot perform the copy operation as the data sets selected have different types")
+        );
+        return;
+    }
+
+    const profileNames = datasetProvider.mSessionNodes
+        .filter((session) => contextually.isDsSession(session))
+        .map((session) => session.getProfileName());
+    const targetProfileName = await api.Gui.showQuickPick(profileNames, {
+        placeHolder: move
+            ? localize("copyToProfile.move.profile", "Select the profile to move to")
+            : localize("copyToProfile.copy.profile", "Select the profile to copy to"),
+        ignoreFocusOut: true,
+    });
+    if (!targetProfileName) {
+        return;
+    }
+    const targetProfile = Profiles.getInstance().loadNamedProfile(targetProfileName);
+    await Profiles.getInstance().checkCurrentProfile(targetProfile);
+    if (Profiles.getInstance().validProfile === api.ValidProfileEnum.INVALID) {
+        api.Gui.errorMessage(localizedStrings.profileInvalid);
+        return;
+    }
+
+    const transfers = await getTransferTargets(type, selectedNodes, targetProfile);
+    for (const { source, target } of transfers) {
+        await transferToProfile(type, source, target, move);
+    }
+
+    const targetSession = datasetProvider.mSessionNodes.find((session) => session.getProfileName() === targetProfileName);
+    if (targetSession) {
+        targetSession.dirty = true;
+        datasetProvider.refreshElement(targetSession);
+    }
+    if (move && transfers.length > 0) {
+        await refreshDataset(selectedNodes[0].getParent(), datasetProvider);
+    }
+}
+
+/**
+ * Copies or moves a data set or member once replacing the target is confirmed, and reports the errors
+ */
+async function transferToProfile(type: replaceDstype, source: IDataSetLocation, target: IDataSetLocation, move: boolean): Promise<void> {
+    const sourceName = source.member ? `${source.dsn}(${source.member})` : source.dsn;
+    const targetName = target.member ? `${target.dsn}(${target.member})` : target.dsn;
+    try {
+        const replace = await determineReplacement(target.profile, targetName, type);
+        if (replace === "cancel") {
+            return;
+        }
+        await api.Gui.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: move
+                    ? localize("copyToProfile.move.progress", "Moving {0} to {1} of {2}", sourceName, targetName, target.profile.name)
+                    : localize("copyToProfile.copy.progress", "Copying {0} to {1} of {2}", sourceName, targetName, target.profile.name),
+            },
+            async (progress) => {
+                await transferDataSet(type, source, target, replace, progress);
+                if (move) {
+                    await ZoweExplorerApiRegister.getMvsApi(source.profile).deleteDataSet(sourceName, {
+                        responseTimeout: source.profile.profile?.responseTimeout,
+                    });
+                }
+            }
+        );
+    } catch (err) {
+        await errorHandling(
+            err,
+            target.profile.name,
+            move
+                ? localize("copyToProfile.move.error", "Unable to move {0} to {1} of {2}.", sourceName, targetName, target.profile.name)
+                : localize("copyToProfile.copy.error", "Unable to copy {0} to {1} of {2}.", sourceName, targetName, target.profile.name)
+        );
+    }
+}
+
+/**
+ * Asks for the names that the data sets or members are copied to.
+ * Members are copied with their names to the same partitioned data set, and a single member can be renamed.
+ */
+async function getTransferTargets(
+    type: replaceDstype,
+    nodes: api.IZoweDatasetTreeNode[],
+    targetProfile: zowe.imperative.IProfileLoaded
+): Promise<{ source: IDataSetLocation; target: IDataSetLocation }[]> {
+    const sameProfile = nodes[0].getProfile().name === targetProfile.name;
+    const askDataSetName = (name: string, prompt: string): Thenable<string> =>
+        api.Gui.showInputBox({
+            prompt,
+            value: name,
+            placeHolder: localize("copyProcessor.inputBox.placeHolder", "Name of Data Set"),
+            validateInput: (text) =>
+                dsUtils.validateDataSetName(text) && (type === "mem" || !sameProfile || text.toUpperCase() !== name)
+                    ? null
+                    : localize("dataset.validation", "Enter a valid data set name."),
+        });
+
+    if (type !== "mem") {
+        const transfers: { source: IDataSetLocation; target: IDataSetLocation }[] = [];
+        for (const node of nodes) {
+            const { dataSetName } = dsUtils.getNodeLabels(node);
+            const dsn = await askDataSetName(dataSetName, localize("copyProcessor.inputBox.prompt", "Enter a name for the new data set"));
+            if (!dsn) {
+                return [];
+            }
+            transfers.push({ source: { profile: node.getProfile(), dsn: dataSetName }, target: { profile: targetProfile, dsn: dsn.toUpperCase() } });
+        }
+        return transfers;
+    }
+
+    const sources = nodes.map((node) => {
+        const { dataSetName, memberName } = dsUtils.getNodeLabels(node);
+        return { profile: node.getProfile(), dsn: dataSetName, member: memberName };
+    });
+    const targetDsn = await askDataSetName(
+        sources[0].dsn,
+        localize("copyToProfile.pds.prompt", "Enter the name of the partitioned data set to copy the members to")
+    );
+    if (!targetDsn) {
+        return [];
+    }
+    let targetMember = sources[0].member;
+    if (sources.length === 1) {
+        targetMember = await api.Gui.showInputBox({
+            value: targetMember,
+            placeHolder: localize("pasteMember.inputBox.placeHolder", "Name of Data Set Member"),
+            validateInput: (text) =>
+                dsUtils.validateMemberName(text) &&
+                (!sameProfile || `${targetDsn}(${text})`.toUpperCase() !== `${sources[0].dsn}(${sources[0].member})`)
+                    ? null
+                    : localize("member.validation", "Enter valid member name"),
+        });
+        if (!targetMember) {
+            return [];
+        }
+    }
+    return sources.map((source) => ({
+        source,
+        target: { profile: targetProfile, dsn: targetDsn.toUpperCase(), member: sources.length === 1 ? targetMember.toUpperCase() : source.member },
+    }));
+}
+
+/**
+ * Allocates the target of a copy with the attributes of the source data set.
+ * The volume and SMS classes are not copied, as they may not exist on the system of another profile.
+ */
+async function allocateLikeSource(source: IDataSetLocation, target: IDataSetLocation): Promise<void> {
+    const targetApi = ZoweExplorerApiRegister.getMvsApi(target.profile);
+    if (source.profile.name === target.profile.name) {
+        await targetApi.allocateLikeDataSet(target.dsn, source.dsn);
+        return;
+    }
+    const { options } = getCreateOptions({
+        ...getAllocateLikeValues(await getDataSetAttributes(source)),
+        dsname: target.dsn,
+        volser: "",
+        storclass: "",
+        mgntclass: "",
+        dataclass: "",
+    });
+    const dataSetType = options.dsorg === "PO" ? zowe.CreateDataSetTypeEnum.DATA_SET_PARTITIONED : zowe.CreateDataSetTypeEnum.DATA_SET_SEQUENTIAL;
+    await targetApi.createDataSet(dataSetType, target.dsn, { responseTimeout: target.profile.profile?.responseTimeout, ...options });
+}
+
+/**
+ * Gets the attributes of a data set, as listed by `IMvs.dataSet`
+ */
+async function getDataSetAttributes(location: IDataSetLocation): Promise<Record<string, unknown>> {
+    const response = await ZoweExplorerApiRegister.getMvsApi(location.profile).dataSet(location.dsn, {
+        attributes: true,
+        responseTimeout: location.profile.profile?.responseTimeout,
+    });
+    const items: Record<string, unknown>[] = response?.apiResponse?.items ?? [];
+    return items.find((item) => item.dsname === location.dsn) ?? items[0] ?? {};
+}
+
+/**
+ * Whether the content of a data set is binary, which is the case for the undefined record format
+ */
+async function isBinaryDataSet(location: IDataSetLocation): Promise<boolean> {
+    const attributes = await getDataSetAttributes(location);
+    return String(attributes.recfm ?? "")
+        .toUpperCase()
+        .startsWith("U");
+}
+
+/**
+ * Downloads a member or sequential data set of a profile to a temporary file and uploads it to another profile
+ */
+async function transferContent(source: IDataSetLocation, target: IDataSetLocation): Promise<void> {
+    const sourceName = source.member ? `${source.dsn}(${source.member})` : source.dsn;
+    const targetName = target.member ? `${target.dsn}(${target.member})` : target.dsn;
+    const binary = source.binary ?? (await isBinaryDataSet(source));
+    const file = path.join(globals.DS_DIR, ".copy", source.profile.name, sourceName);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    try {
+        await ZoweExplorerApiRegister.getMvsApi(source.profile).getContents(sourceName, {
+            file,
+            binary,
+            encoding: binary ? undefined : source.profile.profile?.encoding,
+            responseTimeout: source.profile.profile?.responseTimeout,
+        });
+        const response = await ZoweExplorerApiRegister.getMvsApi(target.profile).putContents(file, targetName, {
+            binary,
+            encoding: binary ? undefined : target.profile.profile?.encoding,
+            responseTimeout: target.profile.profile?.responseTimeout,
+        });
+        if (!response?.success) {
+            throw new Error(response?.commandResponse);
+        }
+    } finally {
+        if (fs.existsSync(file)) {
+            fs.unlinkSync(file);
+        }
+    }
+}
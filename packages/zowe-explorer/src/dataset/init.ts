@@ -15,13 +15,15 @@ import * as dsActions from "./actions";
 import * as refreshActions from "../shared/refresh";
 import { IZoweDatasetTreeNode, IZoweTreeNode, IZoweTree } from "@zowe/zowe-explorer-api";
 import { Profiles } from "../Profiles";
-import { createDatasetTree } from "./DatasetTree";
+import { createDatasetTree, DatasetTree } from "./DatasetTree";
 import { ZoweDatasetNode } from "./ZoweDatasetNode";
 import * as contextuals from "../shared/context";
 import { getSelectedNodeList } from "../shared/utils";
 import { initSubscribers } from "../shared/init";
 import { ZoweLogger } from "../utils/LoggerUtils";
 import { TreeViewUtils } from "../utils/TreeViewUtils";
+import { LocalHistory } from "../shared/LocalHistory";
+import { FolderSync } from "../shared/FolderSync";
 
 export async function initDatasetProvider(context: vscode.ExtensionContext): Promise<IZoweTree<IZoweDatasetTreeNode>> {
     ZoweLogger.trace("dataset.init.initDatasetProvider called.");
@@ -74,7 +76,7 @@ export async function initDatasetProvider(context: vscode.ExtensionContext): Pro
     context.subscriptions.push(
         vscode.commands.registerCommand("zowe.ds.ZoweNode.openPS", async (node) => dsActions.openPS(node, true, datasetProvider))
     );
-    context.subscriptions.push(vscode.commands.registerCommand("zowe.ds.createDataset", async (node) => dsActions.createFile(node, datasetProvider)));
+    context.subscriptions.push(vscode.commands.registerCommand("zowe.ds.createDataset", (node): void => dsActions.createFile(node, datasetProvider)));
     context.subscriptions.push(
         vscode.commands.registerCommand("zowe.ds.createMember", async (node) => dsActions.createMember(node, datasetProvider))
     );
@@ -198,6 +200,44 @@ export async function initDatasetProvider(context: vscode.ExtensionContext): Pro
     );
     context.subscriptions.push(vscode.commands.registerCommand("zowe.ds.ssoLogin", (node: IZoweTreeNode): void => datasetProvider.ssoLogin(node)));
     context.subscriptions.push(vscode.commands.registerCommand("zowe.ds.ssoLogout", (node: IZoweTreeNode): void => datasetProvider.ssoLogout(node)));
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "zowe.ds.sortMembers",
+            async (node: ZoweDatasetNode): Promise<void> => (datasetProvider as DatasetTree).sortPdsMembers(node)
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "zowe.ds.filterMembersByStats",
+            async (node: ZoweDatasetNode): Promise<void> => (datasetProvider as DatasetTree).filterPdsMembers(node)
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "zowe.ds.filterMembers",
+            async (node: ZoweDatasetNode): Promise<void> => (datasetProvider as DatasetTree).filterMembers(node)
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.ds.showHistory", async (node: IZoweDatasetTreeNode): Promise<void> => LocalHistory.showHistory(node))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "zowe.ds.downloadToFolder",
+            async (node: IZoweDatasetTreeNode): Promise<void> => dsActions.downloadToFolder(node)
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.ds.syncFolder", async (node: IZoweDatasetTreeNode): Promise<void> => FolderSync.syncFolder(node))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.ds.copyToProfile", async (node, nodeList) => dsActions.copyToProfile(node, nodeList, datasetProvider))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.ds.moveToProfile", async (node, nodeList) =>
+            dsActions.copyToProfile(node, nodeList, datasetProvider, true)
+        )
+    );
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration((e) => {
             datasetProvider.onDidChangeConfiguration(e);
@@ -9,9 +9,17 @@
  *
  */
 
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as zowe from "@zowe/cli";
 import * as globals from "../globals";
-import { IZoweNodeType } from "@zowe/zowe-explorer-api";
+import { DataSetAllocTemplate, IZoweNodeType } from "@zowe/zowe-explorer-api";
 import { ZoweLogger } from "../utils/LoggerUtils";
+import { SettingsConfig } from "../utils/SettingsConfig";
+import { appendSuffix } from "../shared/utils";
+
+const YEARS_PER_CENTURY = 100;
 
 export function getProfileAndDataSetName(node: IZoweNodeType): {
     profileName: string;
@@ -53,3 +61,301 @@ export function validateMemberName(member: string): boolean {
     }
     return globals.MEMBER_NAME_REGEX_CHECK.test(member);
 }
+
+/**
+ * A data set template that is shared in the `.zowe/templates.json` file of a workspace folder.
+ * The templates of the file have the format of the `zowe.ds.history.templates` setting,
+ * and may also have a data set name with placeholders.
+ */
+export interface IWorkspaceTemplate {
+    folder: string;
+    name: string;
+    options: Partial<zowe.ICreateDataSetOptions> & { dsName?: string };
+}
+
+/**
+ * ISPF statistics of a PDS member
+ */
+export interface IMemberStats {
+    changed?: Date;
+    user?: string;
+    version?: number;
+    modification?: number;
+    size?: number;
+}
+
+export interface IMemberSortOptions {
+    method: globals.MemberSortMethod;
+    descending: boolean;
+}
+
+export interface IMemberFilter {
+    method: globals.MemberFilterMethod;
+    value: string;
+}
+
+/**
+ * Sort and filter options of the members of a PDS, persisted with the profile and data set name
+ */
+export interface IPdsTreeOptions {
+    sort?: IMemberSortOptions;
+    filter?: IMemberFilter;
+}
+
+function parseIspfDate(date: string, time?: string, seconds?: string): Date | undefined {
+    const dateMatch = /^(\d{4})\/(\d{2})\/(\d{2})(?:\s+(\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(date?.trim() ?? "");
+    if (!dateMatch) {
+        return undefined;
+    }
+    const [, year, month, day, dateHours, dateMinutes, dateSeconds] = dateMatch;
+    // z/OSMF returns the time and seconds separately, FTP returns them with the date
+    const [, hours, minutes] = /^(\d{2}):(\d{2})$/.exec(time?.trim() ?? "") ?? [undefined, dateHours, dateMinutes];
+    return new Date(Number(year), Number(month) - 1, Number(day), Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? dateSeconds ?? 0));
+}
+
+/**
+ * Reads the ISPF statistics of a member, as returned by z/OSMF (m4date, user, vers, cnorc...) or by FTP (changed, id)
+ *
+ * @param item a member of the response of `IMvs.allMembers`
+ * @returns {IMemberStats} the statistics, empty when the member has none (e.g. load modules)
+ */
+export function getMemberStats(item: Record<string, any>): IMemberStats {
+    ZoweLogger.trace("dataset.utils.getMemberStats called.");
+    const stats: IMemberStats = {};
+    const changed = item.m4date ? parseIspfDate(item.m4date, item.mtime, item.msec) : parseIspfDate(item.changed);
+    if (changed) {
+        stats.changed = changed;
+    }
+    if (item.user ?? item.id) {
+        stats.user = (item.user ?? item.id).trim();
+    }
+    if (item.vers != null) {
+        stats.version = Number(item.vers);
+        stats.modification = Number(item.mod ?? 0);
+    }
+    if (item.cnorc != null) {
+        stats.size = Number(item.cnorc);
+    }
+    return stats;
+}
+
+/**
+ * Formats a changed date like ISPF does, e.g. 2023/06/01 14:35:12
+ */
+export function formatMemberChanged(changed: Date): string {
+    const pad = (value: number): string => value.toString().padStart(2, "0");
+    return (
+        `${changed.getFullYear()}/${pad(changed.getMonth() + 1)}/${pad(changed.getDate())} ` +
+        `${pad(changed.getHours())}:${pad(changed.getMinutes())}:${pad(changed.getSeconds())}`
+    );
+}
+
+/**
+ * Formats the version and modification level like ISPF does, e.g. 01.05
+ */
+export function formatMemberVersion(stats: IMemberStats): string | undefined {
+    if (stats.version == null) {
+        return undefined;
+    }
+    const pad = (value: number): string => (value ?? 0).toString().padStart(2, "0");
+    return `${pad(stats.version)}.${pad(stats.modification)}`;
+}
+
+/**
+ * Sort member nodes, members without the sorted statistic are put at the end
+ *
+ * @param {T[]} nodes member nodes, nodes without statistics such as information nodes are sorted by name
+ * @param {IMemberSortOptions} options
+ * @returns {T[]} a sorted copy of the nodes
+ */
+export function sortMembers<T extends { label?: string | vscode.TreeItemLabel; stats?: IMemberStats }>(nodes: T[], options: IMemberSortOptions): T[] {
+    ZoweLogger.trace("dataset.utils.sortMembers called.");
+    const value = (stats: IMemberStats = {}): string | number => {
+        switch (options.method) {
+            case globals.MemberSortMethod.DateModified:
+                return stats.changed?.getTime();
+            case globals.MemberSortMethod.UserId:
+                return stats.user;
+            case globals.MemberSortMethod.Version:
+                // The zero padded VV.MM levels sort like numbers
+                return formatMemberVersion(stats);
+            case globals.MemberSortMethod.Size:
+                return stats.size;
+            default:
+                return undefined;
+        }
+    };
+    const compareValues = (a: string | number, b: string | number): number => {
+        if (typeof a === "number" && typeof b === "number") {
+            return a - b;
+        }
+        return String(a).localeCompare(String(b));
+    };
+    const direction = options.descending ? -1 : 1;
+    return [...nodes].sort((a, b) => {
+        const [valueA, valueB] = [value(a.stats), value(b.stats)];
+        if (valueA == null || valueB == null) {
+            // Missing values stay at the end whatever the direction
+            if (valueA != null || valueB != null) {
+                return Number(valueA == null) - Number(valueB == null);
+            }
+        } else {
+            const compare = compareValues(valueA, valueB);
+            if (compare !== 0) {
+                return direction * compare;
+            }
+        }
+        return direction * a.label.toString().localeCompare(b.label.toString());
+    });
+}
+
+/**
+ * Converts a name pattern with the wildcards * (any characters) and % (one character) to a case insensitive regular expression
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .trim()
+        .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, ".*")
+        .replace(/%/g, ".");
+    return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Splits a list of member name patterns separated by commas. A regular expression is written between slashes,
+ * optionally followed by flags, and may contain commas.
+ *
+ * @param {string} value e.g. `PROG*,TEST%%,/^JOB\d{2,3}$/`
+ * @returns {string[]} the trimmed patterns
+ */
+export function splitMemberPatterns(value: string): string[] {
+    const patterns: string[] = [];
+    for (const part of value.split(",")) {
+        const last = patterns[patterns.length - 1]?.trim();
+        // A comma inside a regular expression does not separate patterns
+        if (last?.startsWith("/") && !isMemberRegExp(last)) {
+            patterns[patterns.length - 1] += `,${part}`;
+        } else {
+            patterns.push(part);
+        }
+    }
+    return patterns.map((pattern) => pattern.trim()).filter((pattern) => pattern.length > 0);
+}
+
+/**
+ * Checks whether a member name pattern is a regular expression, written between slashes
+ */
+export function isMemberRegExp(pattern: string): boolean {
+    return /^\/.+\/[a-z]*$/.test(pattern);
+}
+
+/**
+ * Converts a member name pattern to a case insensitive regular expression
+ *
+ * @param {string} pattern a name with the wildcards * and %, or a regular expression between slashes
+ * @returns {RegExp}
+ * @throws {SyntaxError} when the regular expression is not valid
+ */
+export function memberPatternToRegExp(pattern: string): RegExp {
+    if (isMemberRegExp(pattern)) {
+        const flags = pattern.substring(pattern.lastIndexOf("/") + 1);
+        return new RegExp(pattern.substring(1, pattern.lastIndexOf("/")), flags.includes("i") ? flags : `${flags}i`);
+    }
+    return wildcardToRegExp(pattern);
+}
+
+/**
+ * Checks whether a member name matches one of the member name patterns
+ *
+ * @param {string} memberName
+ * @param {string} memberPattern patterns separated by commas, see {@link splitMemberPatterns}
+ * @returns {boolean}
+ */
+export function matchesMemberPattern(memberName: string, memberPattern: string): boolean {
+    return splitMemberPatterns(memberPattern).some((pattern) => memberPatternToRegExp(pattern).test(memberName));
+}
+
+/**
+ * Checks whether a member matches a statistics filter.
+ * User IDs may contain the wildcards * and %, the changed since filter is a date in the YYYY-MM-DD format.
+ *
+ * @param {IMemberStats} stats
+ * @param {IMemberFilter} filter
+ * @returns {boolean} false when the member has no statistic to filter on
+ */
+export function matchesMemberFilter(stats: IMemberStats, filter: IMemberFilter): boolean {
+    switch (filter.method) {
+        case globals.MemberFilterMethod.UserId:
+            return stats.user != null && wildcardToRegExp(filter.value).test(stats.user.toUpperCase());
+        case globals.MemberFilterMethod.ChangedSince: {
+            const [year, month, day] = filter.value.split("-").map(Number);
+            return stats.changed != null && stats.changed >= new Date(year, month - 1, day);
+        }
+        default:
+            return true;
+    }
+}
+
+/**
+ * Reads the data set templates of the `.zowe/templates.json` file of each workspace folder.
+ * Files that cannot be read are logged and skipped.
+ *
+ * @returns {IWorkspaceTemplate[]} the templates in the order of the workspace folders
+ */
+export function getWorkspaceTemplates(): IWorkspaceTemplate[] {
+    ZoweLogger.trace("dataset.utils.getWorkspaceTemplates called.");
+    const workspaceTemplates: IWorkspaceTemplate[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const templatesFile = path.join(folder.uri.fsPath, globals.WORKSPACE_TEMPLATES_FILE);
+        if (!fs.existsSync(templatesFile)) {
+            continue;
+        }
+        try {
+            const templates: DataSetAllocTemplate[] = JSON.parse(fs.readFileSync(templatesFile, { encoding: "utf-8" })).templates ?? [];
+            templates.forEach((template) => {
+                Object.entries(template).forEach(([name, options]) => workspaceTemplates.push({ folder: folder.name, name, options }));
+            });
+        } catch (err) {
+            ZoweLogger.warn(`Unable to read the data set templates of ${templatesFile}: ${(err as Error).message}`);
+        }
+    }
+    return workspaceTemplates;
+}
+
+/**
+ * Replaces the placeholders of a data set name: ${user} is the user of the profile,
+ * ${date} and ${time} are the current date and time as YYMMDD and HHMMSS.
+ * Unknown placeholders are kept, so that the name is reported as invalid.
+ *
+ * @param {string} dsName the data set name with placeholders
+ * @param {zowe.imperative.IProfileLoaded} profile the profile the data set is allocated with
+ */
+export function resolveDsNamePlaceholders(dsName: string, profile: zowe.imperative.IProfileLoaded, now = new Date()): string {
+    const pad = (value: number): string => value.toString().padStart(2, "0");
+    const year = now.getFullYear() % YEARS_PER_CENTURY;
+    const values: { [key: string]: string } = {
+        user: profile?.profile?.user,
+        date: `${pad(year)}${pad(now.getMonth() + 1)}${pad(now.getDate())}`,
+        time: `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+    };
+    return dsName.replace(/\$\{(\w+)\}/g, (placeholder, key: string) => (values[key] ? values[key].toUpperCase() : placeholder));
+}
+
+/**
+ * Returns the extension of the files downloaded from a data set to a local folder. The patterns of the
+ * `zowe.ds.download.extensionMapping` setting are checked in order, e.g. `"*.COBOL": ".cbl"`. When none matches,
+ * the extension is derived from the qualifiers of the name like for the files opened from the Data Sets tree.
+ *
+ * @param {string} dataSetName the name of the sequential data set or PDS
+ * @returns {string} the extension with its leading dot, or an empty string
+ */
+export function getDownloadExtension(dataSetName: string): string {
+    ZoweLogger.trace("dataset.utils.getDownloadExtension called.");
+    const mapping = SettingsConfig.getDirectValue<{ [pattern: string]: string }>(globals.SETTINGS_DS_DOWNLOAD_EXTENSION_MAPPING) ?? {};
+    const match = Object.entries(mapping).find(([pattern]) => wildcardToRegExp(pattern).test(dataSetName));
+    if (match) {
+        const extension = match[1].trim();
+        return extension.length === 0 || extension.startsWith(".") ? extension : `.${extension}`;
+    }
+    return appendSuffix(dataSetName).substring(dataSetName.length);
+}
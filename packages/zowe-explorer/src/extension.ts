@@ -22,10 +22,13 @@ import { SettingsConfig } from "./utils/SettingsConfig";
 import { initDatasetProvider } from "./dataset/init";
 import { initUSSProvider } from "./uss/init";
 import { initJobsProvider } from "./job/init";
-import { IZoweProviders, registerCommonCommands, registerRefreshCommand, watchConfigProfile } from "./shared/init";
+import { IZoweProviders, registerCommonCommands, registerFileSystemProviders, registerRefreshCommand, watchConfigProfile } from "./shared/init";
 import { ZoweLogger } from "./utils/LoggerUtils";
 import { ZoweSaveQueue } from "./abstract/ZoweSaveQueue";
-import { PollDecorator } from "./utils/DecorationProviders";
+import { PollDecorator, StaleDecorator } from "./utils/DecorationProviders";
+import { OfflineCache } from "./utils/OfflineCache";
+import { LocalHistory } from "./shared/LocalHistory";
+import { FolderSync } from "./shared/FolderSync";
 
 /**
  * The function that runs when the extension is loaded
@@ -49,8 +52,13 @@ export async function activate(context: vscode.ExtensionContext): Promise<ZoweEx
     await Profiles.createInstance(globals.LOG);
     registerRefreshCommand(context, activate, deactivate);
     initializeSpoolProvider(context);
+    registerFileSystemProviders(context);
+    OfflineCache.initialize(context);
+    LocalHistory.initialize(context);
+    FolderSync.initialize(context);
 
     PollDecorator.register();
+    StaleDecorator.register();
 
     const providers: IZoweProviders = {
         ds: await initDatasetProvider(context),
@@ -34,6 +34,7 @@ export enum IconId {
     "fileError" = "fileError",
     "vsam" = "vsam",
     "home" = "home",
+    "symlink" = "symlink",
 }
 export enum IconHierarchyType {
     "base" = "base",
@@ -69,6 +70,7 @@ const items = [
     require("./items/home"),
     require("./items/filterFolder"),
     require("./items/filterFolderOpen"),
+    require("./items/symlink"),
     // eslint-disable-next-line @typescript-eslint/no-unsafe-return
 ].map((item) => item.default) as IIconItem[];
 
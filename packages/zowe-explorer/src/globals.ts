@@ -35,7 +35,7 @@ export let DS_DIR: string;
 export let CONFIG_PATH; // set during activate
 export let ISTHEIA = false; // set during activate
 export let LOG: imperative.Logger;
-export const COMMAND_COUNT = 109;
+export const COMMAND_COUNT = 138;
 export const MAX_SEARCH_HISTORY = 5;
 export const MAX_FILE_HISTORY = 10;
 export const MS_PER_SEC = 1000;
@@ -43,11 +43,13 @@ export const STATUS_BAR_TIMEOUT_MS = 5000;
 export const CONTEXT_PREFIX = "_";
 export const FAV_SUFFIX = CONTEXT_PREFIX + "fav";
 export const HOME_SUFFIX = CONTEXT_PREFIX + "home";
+export const SYMLINK_SUFFIX = CONTEXT_PREFIX + "symlink";
 export const FAV_PROFILE_CONTEXT = "profile_fav";
 export const RC_SUFFIX = CONTEXT_PREFIX + "rc=";
 export const VALIDATE_SUFFIX = CONTEXT_PREFIX + "validate";
 export const NO_VALIDATE_SUFFIX = CONTEXT_PREFIX + "noValidate";
 export const INFORMATION_CONTEXT = "information";
+export const PENDING_UPLOAD_CONTEXT = "pendingUpload";
 export const FAVORITE_CONTEXT = "favorite";
 export const DS_FAV_CONTEXT = "ds_fav";
 export const PDS_FAV_CONTEXT = "pds_fav";
@@ -64,9 +66,16 @@ export const DS_FILE_ERROR_CONTEXT = "fileError";
 export const USS_SESSION_CONTEXT = "ussSession";
 export const USS_DIR_CONTEXT = "directory";
 export const USS_FAV_DIR_CONTEXT = "directory_fav";
+export const USS_SYMLINK_CONTEXT = "ussSymlink";
 export const JOBS_SESSION_CONTEXT = "server";
 export const JOBS_JOB_CONTEXT = "job";
 export const JOBS_SPOOL_CONTEXT = "spool";
+export const JOBS_CHAIN_CONTEXT = "chain";
+export const JOBS_CHAIN_STEP_CONTEXT = "chainStep";
+export const JOBS_SPOOL_SEARCH_JOB_CONTEXT = "spoolSearchJob";
+export const JOBS_SPOOL_SEARCH_FILE_CONTEXT = "spoolSearchFile";
+export const JOBS_SPOOL_SEARCH_MATCH_CONTEXT = "spoolSearchMatch";
+export const JOBS_GROUP_CONTEXT = "group";
 export const POLL_CONTEXT = CONTEXT_PREFIX + "polling";
 export const VSAM_CONTEXT = "vsam";
 export const INACTIVE_CONTEXT = CONTEXT_PREFIX + "Inactive";
@@ -76,13 +85,20 @@ export const ICON_STATE_OPEN = "open";
 export const ICON_STATE_CLOSED = "closed";
 export const FILTER_SEARCH = "isFilterSearch";
 export const VSCODE_APPNAME: string[] = ["Visual Studio Code", "VSCodium"];
+export const DS_TREE_MIME_TYPE = "application/vnd.code.tree.zowe.ds.explorer";
+export const USS_TREE_MIME_TYPE = "application/vnd.code.tree.zowe.uss.explorer";
+export const URI_LIST_MIME_TYPE = "text/uri-list";
 export const ROOTPATH = path.join(__dirname, "..", "..");
 export const SETTINGS_VERSION = "zowe.settings.version";
 export const SETTINGS_TEMP_FOLDER_PATH = "zowe.files.temporaryDownloadsFolder.path";
 export const SETTINGS_TEMP_FOLDER_CLEANUP = "zowe.files.temporaryDownloadsFolder.cleanup";
 export const SETTINGS_TEMP_FOLDER_HIDE = "zowe.files.temporaryDownloadsFolder.hide";
+export const SETTINGS_FILES_VIRTUAL_FILE_SYSTEM = "zowe.files.virtualFileSystem.enabled";
+export const SETTINGS_FILES_OFFLINE_CACHE = "zowe.files.offlineCache.enabled";
+export const SETTINGS_FILES_LOCAL_HISTORY_MAX_ENTRIES = "zowe.files.localHistory.maxEntries";
 export const SETTINGS_LOGS_FOLDER_PATH = "zowe.files.logsFolder.path";
 export const SETTINGS_DS_DEFAULT_BINARY = "zowe.ds.default.binary";
+export const SETTINGS_DS_DOWNLOAD_EXTENSION_MAPPING = "zowe.ds.download.extensionMapping";
 export const SETTINGS_DS_DEFAULT_C = "zowe.ds.default.c";
 export const SETTINGS_DS_DEFAULT_CLASSIC = "zowe.ds.default.classic";
 export const SETTINGS_DS_DEFAULT_PDS = "zowe.ds.default.pds";
@@ -92,7 +108,10 @@ export const SETTINGS_COMMANDS_ALWAYS_EDIT = "zowe.commands.alwaysEdit";
 export const SETTINGS_AUTOMATIC_PROFILE_VALIDATION = "zowe.automaticProfileValidation";
 export const SETTINGS_DS_HISTORY = "zowe.ds.history";
 export const SETTINGS_USS_HISTORY = "zowe.uss.history";
+export const SETTINGS_USS_FOLLOW_SYMLINKS = "zowe.uss.symlinks.follow";
 export const SETTINGS_JOBS_HISTORY = "zowe.jobs.history";
+export const SETTINGS_JOBS_CHAIN_MAX_RETURN_CODE = "zowe.jobs.chain.maxReturnCode";
+export const SETTINGS_JOBS_NOTIFICATION_PROFILES = "zowe.jobs.notifications.profiles";
 export const SETTINGS_SECURE_CREDENTIALS_ENABLED = "zowe.security.secureCredentialsEnabled";
 export const LOGGER_SETTINGS = "zowe.logger";
 export const EXTENDER_CONFIG: imperative.ICommandProfileTypeConfiguration[] = [];
@@ -105,6 +124,24 @@ export let ACTIVATED = false;
 export let PROFILE_SECURITY: string | boolean = ZOWE_CLI_SCM;
 export let SAVED_PROFILE_CONTENTS = new Uint8Array();
 export const JOBS_MAX_PREFIX = 8;
+export const SAVE_QUEUE_MAX_RETRIES = 3;
+export const SAVE_QUEUE_RETRY_DELAY_MS = 2000;
+export const JOBS_SPOOL_SEARCH_CONCURRENCY = 5;
+export const WORKSPACE_TEMPLATES_FILE = ".zowe/templates.json";
+// eslint-disable-next-line no-magic-numbers
+export const TRANSIENT_HTTP_STATUS_CODES = [408, 429, 502, 503, 504];
+export const TRANSIENT_NETWORK_ERROR_CODES = [
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ECONNABORTED",
+    "ETIMEDOUT",
+    "ESOCKETTIMEDOUT",
+    "EHOSTUNREACH",
+    "ENETUNREACH",
+    "ENOTFOUND",
+    "EAI_AGAIN",
+    "EPIPE",
+];
 
 // Dictionary describing translation from old configuration names to new standardized names
 export const configurationDictionary: { [k: string]: string } = {
@@ -276,6 +313,33 @@ export enum JobPickerTypes {
     History = "History",
 }
 
+export enum JobSortMethod {
+    Id = "id",
+    Name = "name",
+    DateSubmitted = "dateSubmitted",
+    ReturnCode = "returnCode",
+    Status = "status",
+}
+
+export enum JobGroupMethod {
+    None = "none",
+    Name = "name",
+    Status = "status",
+}
+
+export enum MemberSortMethod {
+    Name = "name",
+    DateModified = "dateModified",
+    UserId = "userId",
+    Version = "version",
+    Size = "size",
+}
+
+export enum MemberFilterMethod {
+    UserId = "userId",
+    ChangedSince = "changedSince",
+}
+
 export const SEPARATORS = {
     BLANK: { kind: vscode.QuickPickItemKind.Separator, label: "" },
     RECENT_FILTERS: { kind: vscode.QuickPickItemKind.Separator, label: localize("zowe.separator.recentFilters", "Recent Filters") },
@@ -0,0 +1,283 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as zowe from "@zowe/cli";
+import * as globals from "../globals";
+import { Gui, IZoweJobTreeNode, IZoweTree } from "@zowe/zowe-explorer-api";
+import { Poller } from "@zowe/zowe-explorer-api/src/utils";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
+import { Job } from "./ZoweJobNode";
+import { getIconByNode } from "../generators/icons";
+import { errorHandling } from "../utils/ProfilesUtils";
+import { SettingsConfig } from "../utils/SettingsConfig";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+export type JobChainStepStatus = "waiting" | "submitted" | "completed" | "failed" | "skipped";
+
+/**
+ * Member or sequential data set of a job chain, replaced by a job node once it has been submitted
+ *
+ * @export
+ * @class JobChainStep
+ */
+export class JobChainStep extends Job {
+    public stepStatus: JobChainStepStatus = "waiting";
+
+    public constructor(public readonly dataSetName: string, index: number, mParent: JobChainNode, profile: zowe.imperative.IProfileLoaded) {
+        super(dataSetName, vscode.TreeItemCollapsibleState.None, mParent, null, null, profile);
+        if (this.id) {
+            // The same member can be submitted more than once in a chain
+            this.id = `${mParent.id}.${index}`;
+        }
+        this.contextValue = globals.JOBS_CHAIN_STEP_CONTEXT;
+        this.iconPath = undefined;
+        this.description = localize("jobChain.step.waiting", "Waiting");
+    }
+
+    /**
+     * Turn the step into a job node so that its spool files can be browsed
+     *
+     * @param {zowe.IJob} job the submitted job
+     */
+    public setJob(job: zowe.IJob): void {
+        this.job = job;
+        this.label = job.retcode ? `${job.jobname}(${job.jobid}) - ${job.retcode}` : `${job.jobname}(${job.jobid}) - ${job.status}`;
+        this.tooltip = `${this.dataSetName}\n${this.label}`;
+        this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        this.contextValue = globals.JOBS_JOB_CONTEXT + (job.retcode ? globals.RC_SUFFIX + job.retcode : "");
+        this.iconPath = getIconByNode(this)?.path;
+        this.dirty = true;
+    }
+
+    public setStatus(stepStatus: JobChainStepStatus, description?: string): void {
+        this.stepStatus = stepStatus;
+        this.description = description;
+    }
+}
+
+/**
+ * Ordered list of jobs where each job is submitted once the previous one ends with an acceptable return code
+ *
+ * @export
+ * @class JobChainNode
+ */
+export class JobChainNode extends Job {
+    private static chainCount = 0;
+
+    public steps: JobChainStep[];
+    private cancelled = false;
+    private running = false;
+
+    public constructor(
+        dataSetNames: string[],
+        profile: zowe.imperative.IProfileLoaded,
+        public readonly maxReturnCode: number,
+        private readonly jobsProvider: IZoweTree<IZoweJobTreeNode>
+    ) {
+        super(
+            localize("jobChain.label", "Job Chain {0} ({1})", ++JobChainNode.chainCount, profile.name),
+            vscode.TreeItemCollapsibleState.Expanded,
+            null,
+            null,
+            null,
+            profile
+        );
+        this.contextValue = globals.JOBS_CHAIN_CONTEXT;
+        this.iconPath = getIconByNode(this)?.path;
+        this.steps = dataSetNames.map((dataSetName, index) => new JobChainStep(dataSetName, index, this, profile));
+        this.children = this.steps;
+        this.updateDescription();
+    }
+
+    public getChildren(): Promise<IZoweJobTreeNode[]> {
+        ZoweLogger.trace("JobChainNode.getChildren called.");
+        return Promise.resolve(this.steps);
+    }
+
+    public isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Submit the jobs one after the other, stopping at the first job that does not end with an acceptable return code
+     */
+    public async run(): Promise<void> {
+        ZoweLogger.trace("JobChainNode.run called.");
+        this.running = true;
+        try {
+            for (const step of this.steps) {
+                if (this.cancelled) {
+                    this.skipRemainingSteps(localize("jobChain.step.cancelled", "Cancelled"));
+                    return;
+                }
+                if (!(await this.runStep(step))) {
+                    this.skipRemainingSteps(localize("jobChain.step.skipped", "Skipped"));
+                    return;
+                }
+            }
+            Gui.showMessage(localize("jobChain.completed", "{0} completed successfully.", this.label as string));
+        } finally {
+            this.running = false;
+            this.updateDescription();
+        }
+    }
+
+    /**
+     * Stop submitting the remaining jobs, the job that is currently running is not cancelled
+     */
+    public cancel(): void {
+        ZoweLogger.trace("JobChainNode.cancel called.");
+        this.cancelled = true;
+        Poller.pollRequests[this.getPollId()]?.resolveChain?.();
+    }
+
+    /**
+     * Whether the return code of a job lets the chain continue, e.g. `CC 0004` when the highest acceptable return code is 4.
+     * Abends, JCL errors and cancelled jobs always stop the chain.
+     *
+     * @param {string} retcode
+     * @param {number} maxReturnCode
+     * @returns {boolean}
+     */
+    public static isAcceptableReturnCode(retcode: string, maxReturnCode: number): boolean {
+        const match = /^CC (\d+)$/.exec(retcode?.trim() ?? "");
+        return match != null && Number(match[1]) <= maxReturnCode;
+    }
+
+    private async runStep(step: JobChainStep): Promise<boolean> {
+        const jesApi = ZoweExplorerApiRegister.getJesApi(this.getProfile());
+        let job: zowe.IJob;
+        try {
+            step.setStatus("submitted", localize("jobChain.step.submitting", "Submitting"));
+            this.refreshStep(step);
+            job = await jesApi.submitJob(step.dataSetName);
+            step.setJob(job);
+            step.setStatus("submitted", step.dataSetName);
+            this.refreshStep(step);
+            ZoweLogger.info(
+                localize("jobChain.step.submitted", "Job {0} submitted from {1} in {2}.", job.jobid, step.dataSetName, this.label as string)
+            );
+            job = await this.waitForCompletion(job);
+        } catch (err) {
+            step.setStatus("failed", localize("jobChain.step.failed", "Failed"));
+            this.refreshStep(step);
+            await errorHandling(
+                err,
+                this.getProfileName(),
+                localize("jobChain.step.error", "{0} stopped at {1}.", this.label as string, step.dataSetName)
+            );
+            return false;
+        }
+        if (job == null) {
+            // The chain was cancelled while the job was running
+            return true;
+        }
+
+        step.setJob(job);
+        const acceptable = JobChainNode.isAcceptableReturnCode(job.retcode, this.maxReturnCode);
+        step.setStatus(acceptable ? "completed" : "failed", step.dataSetName);
+        this.refreshStep(step);
+        if (!acceptable) {
+            Gui.errorMessage(
+                localize(
+                    "jobChain.step.returnCode",
+                    "{0} stopped, job {1} ended with {2}. The highest acceptable return code is {3}.",
+                    this.label as string,
+                    job.jobid,
+                    job.retcode ?? job.status,
+                    this.maxReturnCode
+                )
+            );
+        }
+        return acceptable;
+    }
+
+    /**
+     * Poll the status of a job until it is in the output queue
+     *
+     * @param {zowe.IJob} job
+     * @returns {Promise<zowe.IJob | undefined>} the completed job, or undefined when the chain was cancelled
+     */
+    private waitForCompletion(job: zowe.IJob): Promise<zowe.IJob | undefined> {
+        const jesApi = ZoweExplorerApiRegister.getJesApi(this.getProfile());
+        const pollId = this.getPollId();
+        return new Promise((resolve, reject) => {
+            const finish = (): void => {
+                if (Poller.pollRequests[pollId]) {
+                    Poller.pollRequests[pollId].dispose = true;
+                }
+            };
+            Poller.addRequest(pollId, {
+                msInterval: SettingsConfig.getDirectValue<number>("zowe.jobs.pollInterval"),
+                request: () => jesApi.getJob(job.jobid),
+                resolve: (_uniqueId: string, currentJob: zowe.IJob) => {
+                    if (currentJob.status === "OUTPUT") {
+                        finish();
+                        resolve(currentJob);
+                    }
+                },
+                reject: (err) => {
+                    finish();
+                    reject(err);
+                    return Promise.resolve(undefined);
+                },
+                resolveChain: () => {
+                    finish();
+                    resolve(undefined);
+                },
+            });
+        });
+    }
+
+    private skipRemainingSteps(reason: string): void {
+        for (const step of this.steps.filter((s) => s.stepStatus === "waiting")) {
+            step.setStatus("skipped", reason);
+        }
+        this.jobsProvider.refreshElement(this);
+    }
+
+    private refreshStep(step: JobChainStep): void {
+        this.updateDescription();
+        this.jobsProvider.refreshElement(step);
+        this.jobsProvider.refreshElement(this);
+    }
+
+    private updateDescription(): void {
+        const done = this.steps.filter((step) => step.stepStatus === "completed").length;
+        if (this.steps.some((step) => step.stepStatus === "failed")) {
+            this.description = localize("jobChain.status.failed", "Failed ({0} of {1} completed)", done, this.steps.length);
+        } else if (this.cancelled && !this.running) {
+            this.description = localize("jobChain.status.cancelled", "Cancelled ({0} of {1} completed)", done, this.steps.length);
+        } else if (done === this.steps.length) {
+            this.description = localize("jobChain.status.completed", "Completed");
+        } else {
+            this.description = localize("jobChain.status.running", "{0} of {1} completed", done, this.steps.length);
+        }
+        this.tooltip = `${this.label as string} - ${this.description}\n${localize(
+            "jobChain.tooltip.maxReturnCode",
+            "Highest acceptable return code: {0}",
+            this.maxReturnCode
+        )}`;
+    }
+
+    private getPollId(): string {
+        return `${globals.JOBS_CHAIN_CONTEXT}:${this.id ?? (this.label as string)}`;
+    }
+}
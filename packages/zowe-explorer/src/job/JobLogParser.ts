@@ -0,0 +1,212 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+export interface IJobStepSummary {
+    stepName: string;
+    procStep?: string;
+    program?: string;
+    /** `0004` for a condition code, `S0C4` or `U0100` for an abend, `FLUSH` for a step that was not executed */
+    completionCode?: string;
+    /** CPU time in seconds, including the SRB time */
+    cpuTime?: number;
+    /** Elapsed time in seconds, the JES2 step start and stop times are precise to the minute */
+    elapsedTime?: number;
+}
+
+export interface IJobLogSummary {
+    jobName?: string;
+    jobId?: string;
+    maxCompletionCode?: string;
+    /** Elapsed time of the job in seconds */
+    elapsedTime?: number;
+    steps: IJobStepSummary[];
+}
+
+const SECONDS_PER_MINUTE = 60;
+const SECONDS_PER_HOUR = 3600;
+const SECONDS_PER_DAY = 86400;
+const MILLISECONDS_PER_MINUTE = 60000;
+
+/**
+ * Parse the JES2 system messages of a job into a summary of its steps
+ *
+ * The steps are read from the JESYSMSG messages IEF142I, IEF272I, IEF450I and IEF472I (completion codes),
+ * IEF373I (step start) and IEF374I or IEF032I (step stop and CPU time). The program of each step is read
+ * from the EXEC statements of JESJCL, and the job level information from the JESMSGLG messages.
+ *
+ * @param {string} jesmsglg content of the JESMSGLG spool file
+ * @param {string} jesysmsg content of the JESYSMSG spool file
+ * @param {string} jesjcl content of the JESJCL spool file, to find the program of each step
+ * @returns {IJobLogSummary}
+ */
+export function parseJobLog(jesmsglg: string, jesysmsg: string, jesjcl?: string): IJobLogSummary {
+    const summary: IJobLogSummary = { ...parseMessageLog(jesmsglg ?? ""), steps: parseSystemMessages(jesysmsg ?? "") };
+    const programs = parseExecStatements(jesjcl ?? "");
+    for (const step of summary.steps) {
+        step.program = programs[step.procStep] ?? programs[step.stepName];
+    }
+    return summary;
+}
+
+/**
+ * Format a duration in seconds as `h:mm:ss`, or `mm:ss.ss` below one hour
+ *
+ * @param {number} seconds
+ * @returns {string}
+ */
+export function formatDuration(seconds: number): string {
+    if (seconds == null) {
+        return "";
+    }
+    const hours = Math.floor(seconds / SECONDS_PER_HOUR);
+    const minutes = Math.floor((seconds % SECONDS_PER_HOUR) / SECONDS_PER_MINUTE);
+    const secs = seconds % SECONDS_PER_MINUTE;
+    const pad = (value: string): string => value.padStart(2, "0");
+    if (hours > 0) {
+        return `${hours}:${pad(minutes.toString())}:${pad(Math.round(secs).toString())}`;
+    }
+    return `${pad(minutes.toString())}:${pad(Math.floor(secs).toString())}.${secs.toFixed(2).split(".")[1]}`;
+}
+
+function parseMessageLog(content: string): Omit<IJobLogSummary, "steps"> {
+    const summary: Omit<IJobLogSummary, "steps"> = {};
+    let startTime: number;
+    let endTime: number;
+    for (const line of content.split(/\r?\n/)) {
+        const timestamp = /^\s*(\d{2})\.(\d{2})\.(\d{2})\s+((?:JOB|STC|TSU)\d{5}|[JST]\d{7})/.exec(line);
+        if (timestamp == null) {
+            continue;
+        }
+        const [, hours, minutes, seconds, jobId] = timestamp;
+        summary.jobId ??= jobId;
+        const time = toSeconds(hours, minutes, seconds);
+        const started = /(?:\bIEF403I|\$HASP373) (\S+)\s+(?:-\s+)?STARTED/.exec(line);
+        if (started) {
+            summary.jobName ??= started[1];
+            startTime ??= time;
+        }
+        if (/(?:\bIEF404I|\$HASP395) \S+\s+(?:-\s+)?ENDED/.test(line) || /\bIEF453I \S+ - JOB FAILED/.test(line)) {
+            endTime = time;
+        }
+        const ended = /\$HASP165 \S+\s+ENDED AT .* (?:MAXCC=(\S+)|ABEND=(\S+)|(JCL ERROR))/.exec(line);
+        if (ended) {
+            const [, maxcc, abend, jclError] = ended;
+            summary.maxCompletionCode = maxcc ?? abend ?? jclError;
+        }
+    }
+    if (startTime != null && endTime != null) {
+        // The job may end after midnight
+        summary.elapsedTime = (endTime - startTime + SECONDS_PER_DAY) % SECONDS_PER_DAY;
+    }
+    return summary;
+}
+
+function parseSystemMessages(content: string): IJobStepSummary[] {
+    const steps: IJobStepSummary[] = [];
+    const startTimes = new Map<IJobStepSummary, number>();
+    let current: IJobStepSummary;
+    let awaitingCpuTime = false;
+
+    // The completion message of a step comes before its start and stop times
+    const stepFor = (stepName: string, procStep?: string): IJobStepSummary => {
+        if (current == null || current.stepName !== stepName || current.procStep !== procStep) {
+            current = { stepName, procStep };
+            steps.push(current);
+        }
+        return current;
+    };
+    const stepByTimerName = (name: string): IJobStepSummary => {
+        if (current != null && (current.procStep === name || current.stepName === name)) {
+            return current;
+        }
+        return stepFor(name);
+    };
+
+    for (const line of content.split(/\r?\n/)) {
+        if (awaitingCpuTime) {
+            // IEF032I reports the CPU time on the line after the stop time
+            const cpu = /CPU:\s+(\d+) HR\s+(\d+) MIN\s+([\d.]+) SEC\s+SRB:\s+(\d+) HR\s+(\d+) MIN\s+([\d.]+) SEC/.exec(line);
+            if (cpu) {
+                const [, cpuHours, cpuMinutes, cpuSeconds, srbHours, srbMinutes, srbSeconds] = cpu;
+                current.cpuTime = toSeconds(cpuHours, cpuMinutes, cpuSeconds) + toSeconds(srbHours, srbMinutes, srbSeconds);
+                awaitingCpuTime = false;
+                continue;
+            }
+        }
+        const executed = /\bIEF142I \S+ (\S+)(?: (\S+))? - STEP WAS EXECUTED - COND CODE (\d{4})/.exec(line);
+        const flushed = /\bIEF272I \S+ (\S+)(?: (\S+))? - STEP WAS NOT EXECUTED/.exec(line);
+        const abended = /\bIEF450I \S+ (\S+)(?: (\S+))? - ABEND=(S\w{3})\s+(U\d{4})/.exec(line);
+        const completed = /\bIEF472I \S+ (\S+)(?: (\S+))? - COMPLETION CODE - SYSTEM=(\w{3}) USER=(\d{4})/.exec(line);
+        const started = /\bIEF373I STEP\/(\S+)\s*\/START\s+(\d{7}\.\d{4})/.exec(line);
+        const stopped = /\b(IEF374I|IEF032I) STEP\/(\S+)\s*\/STOP\s+(\d{7}\.\d{4})/.exec(line);
+        if (executed) {
+            const [, stepName, procStep, conditionCode] = executed;
+            stepFor(stepName, procStep).completionCode = conditionCode;
+        } else if (flushed) {
+            const [, stepName, procStep] = flushed;
+            stepFor(stepName, procStep).completionCode = "FLUSH";
+        } else if (abended) {
+            const [, stepName, procStep, systemCode, userCode] = abended;
+            stepFor(stepName, procStep).completionCode = systemCode === "S000" ? userCode : systemCode;
+        } else if (completed) {
+            const [, stepName, procStep, systemCode, userCode] = completed;
+            stepFor(stepName, procStep).completionCode = systemCode === "000" ? `U${userCode}` : `S${systemCode}`;
+        } else if (started) {
+            const [, name, time] = started;
+            startTimes.set(stepByTimerName(name), toJulianMinutes(time));
+        } else if (stopped) {
+            const [, messageId, name, time] = stopped;
+            const step = stepByTimerName(name);
+            if (startTimes.has(step)) {
+                step.elapsedTime = (toJulianMinutes(time) - startTimes.get(step)) * SECONDS_PER_MINUTE;
+            }
+            // IEF374I reports the CPU time on the same line
+            const cpu = /CPU\s+(\d+)MIN\s+([\d.]+)SEC\s+SRB\s+(\d+)MIN\s+([\d.]+)SEC/.exec(line);
+            if (cpu) {
+                const [, cpuMinutes, cpuSeconds, srbMinutes, srbSeconds] = cpu;
+                step.cpuTime = toSeconds("0", cpuMinutes, cpuSeconds) + toSeconds("0", srbMinutes, srbSeconds);
+            }
+            awaitingCpuTime = messageId === "IEF032I";
+        }
+    }
+    return steps;
+}
+
+function parseExecStatements(content: string): Record<string, string> {
+    const programs: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        // e.g. `        2 //STEP1    EXEC PGM=IEFBR14` or `        5 XXCOBOL    EXEC PGM=IGYCRCTL,REGION=0M` in a procedure
+        const match = /^\s*\d*\s*(?:\/\/|XX|X\/)([A-Z#@$][A-Z0-9#@$]{0,7})\s+EXEC\s+PGM=([^,\s]+)/i.exec(line);
+        if (match) {
+            programs[match[1].toUpperCase()] = match[2].toUpperCase();
+        }
+    }
+    return programs;
+}
+
+function toSeconds(hours: string, minutes: string, seconds: string): number {
+    return Number(hours) * SECONDS_PER_HOUR + Number(minutes) * SECONDS_PER_MINUTE + Number(seconds);
+}
+
+/**
+ * Convert a `yyyyddd.hhmm` time to a number of minutes
+ */
+function toJulianMinutes(time: string): number {
+    const [date, hhmm] = time.split(".");
+    const milliseconds = Date.UTC(
+        Number(date.substring(0, 4)),
+        0,
+        Number(date.substring(4)),
+        Number(hhmm.substring(0, 2)),
+        Number(hhmm.substring(2))
+    );
+    return milliseconds / MILLISECONDS_PER_MINUTE;
+}
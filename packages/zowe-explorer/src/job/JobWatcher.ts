@@ -0,0 +1,158 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as zowe from "@zowe/cli";
+import * as globals from "../globals";
+import { Gui, IZoweJobTreeNode } from "@zowe/zowe-explorer-api";
+import { Poller } from "@zowe/zowe-explorer-api/src/utils";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
+import { Profiles } from "../Profiles";
+import { SettingsConfig } from "../utils/SettingsConfig";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import { errorHandling } from "../utils/ProfilesUtils";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * Watches submitted jobs in the background and notifies the user with the return code or abend code
+ * once they reach the output queue. Watching is enabled per profile with the `zowe.jobs.notifications.profiles` setting.
+ */
+export class JobWatcher {
+    public static readonly JES_MESSAGE_LOG = "JESMSGLG";
+
+    /**
+     * Whether the jobs submitted with the profile are watched
+     *
+     * @param {string} profileName
+     * @returns {boolean}
+     */
+    public static isEnabled(profileName: string): boolean {
+        const profileNames = SettingsConfig.getDirectValue<string[]>(globals.SETTINGS_JOBS_NOTIFICATION_PROFILES) ?? [];
+        return profileNames.includes(profileName);
+    }
+
+    /**
+     * Turn the notifications on or off for the jobs submitted with the profile of a Jobs session
+     *
+     * @param {IZoweJobTreeNode} node the session node
+     */
+    public static async toggleNotifications(node: IZoweJobTreeNode): Promise<void> {
+        ZoweLogger.trace("JobWatcher.toggleNotifications called.");
+        const profileName = node.getProfileName();
+        const profileNames = SettingsConfig.getDirectValue<string[]>(globals.SETTINGS_JOBS_NOTIFICATION_PROFILES) ?? [];
+        if (profileNames.includes(profileName)) {
+            await SettingsConfig.setDirectValue(
+                globals.SETTINGS_JOBS_NOTIFICATION_PROFILES,
+                profileNames.filter((name) => name !== profileName)
+            );
+            Gui.showMessage(localize("toggleNotifications.disabled", "Job completion notifications disabled for {0}.", profileName));
+        } else {
+            await SettingsConfig.setDirectValue(globals.SETTINGS_JOBS_NOTIFICATION_PROFILES, [...profileNames, profileName]);
+            Gui.showMessage(localize("toggleNotifications.enabled", "Job completion notifications enabled for {0}.", profileName));
+        }
+    }
+
+    /**
+     * Poll a submitted job until it reaches the output queue, when notifications are enabled for its profile
+     *
+     * @param {zowe.imperative.IProfileLoaded} profile the profile used to submit the job
+     * @param {zowe.IJob} job the submitted job
+     */
+    public static watch(profile: zowe.imperative.IProfileLoaded, job: zowe.IJob): void {
+        ZoweLogger.trace("JobWatcher.watch called.");
+        if (!JobWatcher.isEnabled(profile.name)) {
+            return;
+        }
+        const pollId = JobWatcher.getPollId(profile.name, job.jobid);
+        if (pollId in Poller.pollRequests) {
+            return;
+        }
+
+        const jesApi = ZoweExplorerApiRegister.getJesApi(profile);
+        Poller.addRequest(pollId, {
+            msInterval: SettingsConfig.getDirectValue<number>("zowe.jobs.pollInterval"),
+            request: () => jesApi.getJob(job.jobid),
+            resolve: (_uniqueId: string, currentJob: zowe.IJob) => {
+                if (currentJob.status === "OUTPUT") {
+                    Poller.pollRequests[pollId].dispose = true;
+                    return JobWatcher.notify(profile.name, currentJob);
+                }
+            },
+            reject: (err) => {
+                Poller.pollRequests[pollId].dispose = true;
+                ZoweLogger.warn(localize("watch.stopped", "Stopped watching job {0}: {1}", job.jobid, err?.message));
+                return Promise.resolve(undefined);
+            },
+        });
+    }
+
+    /**
+     * Show the return code or abend code of a completed job, with a link that reveals the job in the Jobs tree
+     *
+     * @param {string} profileName
+     * @param {zowe.IJob} job the completed job
+     */
+    public static async notify(profileName: string, job: zowe.IJob): Promise<void> {
+        ZoweLogger.trace("JobWatcher.notify called.");
+        const args = [profileName, job.jobid];
+        const setJobCmd = `command:zowe.jobs.setJobSpool?${encodeURIComponent(JSON.stringify(args))}`;
+        const jobLink = `[${job.jobname}(${job.jobid})](${setJobCmd})`;
+        const openLogButton = localize("notify.openLog", "Open {0}", JobWatcher.JES_MESSAGE_LOG);
+        const options = { items: [openLogButton] };
+
+        let selection: string;
+        const conditionCode = /^CC (\d+)$/.exec(job.retcode?.trim() ?? "");
+        if (conditionCode != null && Number(conditionCode[1]) === 0) {
+            selection = await Gui.showMessage(localize("notify.success", "Job {0} ended with {1}.", jobLink, job.retcode), options);
+        } else if (conditionCode != null) {
+            selection = await Gui.warningMessage(localize("notify.success", "Job {0} ended with {1}.", jobLink, job.retcode), options);
+        } else {
+            selection = await Gui.errorMessage(localize("notify.failure", "Job {0} failed with {1}.", jobLink, job.retcode ?? job.status), options);
+        }
+        if (selection === openLogButton) {
+            await JobWatcher.openMessageLog(profileName, job);
+        }
+    }
+
+    /**
+     * Reveal the job in the Jobs tree and open its JES message log
+     *
+     * @param {string} profileName
+     * @param {zowe.IJob} job
+     */
+    public static async openMessageLog(profileName: string, job: zowe.IJob): Promise<void> {
+        ZoweLogger.trace("JobWatcher.openMessageLog called.");
+        try {
+            await vscode.commands.executeCommand("zowe.jobs.setJobSpool", profileName, job.jobid);
+            const jesApi = ZoweExplorerApiRegister.getJesApi(Profiles.getInstance().loadNamedProfile(profileName));
+            const spoolFiles = await jesApi.getSpoolFiles(job.jobname, job.jobid);
+            const messageLog = spoolFiles.find((spool) => spool.ddname === JobWatcher.JES_MESSAGE_LOG);
+            if (!messageLog) {
+                Gui.warningMessage(localize("openMessageLog.notFound", "Job {0} has no {1} spool file.", job.jobid, JobWatcher.JES_MESSAGE_LOG));
+                return;
+            }
+            await vscode.commands.executeCommand("zowe.jobs.zosJobsOpenspool", profileName, messageLog, Date.now());
+        } catch (err) {
+            await errorHandling(err, profileName);
+        }
+    }
+
+    private static getPollId(profileName: string, jobid: string): string {
+        return `jobWatcher:${profileName}:${jobid}`;
+    }
+}
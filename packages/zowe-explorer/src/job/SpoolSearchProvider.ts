@@ -0,0 +1,331 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import * as zowe from "@zowe/cli";
+import * as globals from "../globals";
+import * as contextually from "../shared/context";
+import { Gui, IZoweJobTreeNode, IZoweTreeNode } from "@zowe/zowe-explorer-api";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
+import { encodeJobFile, getSpoolFiles } from "../SpoolProvider";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+export interface SpoolSearchMatch {
+    line: number;
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface SpoolSearchFileResult {
+    profileName: string;
+    spool: zowe.IJobFile;
+    matches: SpoolSearchMatch[];
+}
+
+type SpoolSearchNode = SpoolSearchJobNode | SpoolSearchFileNode | SpoolSearchMatchNode;
+type SpoolToSearch = { node: IZoweJobTreeNode; spool: zowe.IJobFile };
+
+/**
+ * Line of a spool file that matches the search, opens the spool file at the match when selected
+ *
+ * @export
+ * @class SpoolSearchMatchNode
+ */
+export class SpoolSearchMatchNode extends vscode.TreeItem {
+    public constructor(public readonly fileResult: SpoolSearchFileResult, public readonly match: SpoolSearchMatch) {
+        super(SpoolSearchMatchNode.getLabel(match), vscode.TreeItemCollapsibleState.None);
+        this.contextValue = globals.JOBS_SPOOL_SEARCH_MATCH_CONTEXT;
+        this.description = localize("spoolSearch.match.line", "Line {0}", match.line + 1);
+        this.tooltip = match.text;
+        this.command = {
+            command: "vscode.open",
+            title: "",
+            arguments: [
+                encodeJobFile(fileResult.profileName, fileResult.spool),
+                { selection: new vscode.Range(match.line, match.start, match.line, match.end), preview: true },
+            ],
+        };
+    }
+
+    private static getLabel(match: SpoolSearchMatch): vscode.TreeItemLabel {
+        // Leading blanks of spool records would push the match out of sight
+        const indent = match.text.length - match.text.trimStart().length;
+        return {
+            label: match.text.trim(),
+            highlights: [[match.start - indent, match.end - indent]],
+        };
+    }
+}
+
+/**
+ * Spool file with at least one match
+ *
+ * @export
+ * @class SpoolSearchFileNode
+ */
+export class SpoolSearchFileNode extends vscode.TreeItem {
+    public constructor(public readonly fileResult: SpoolSearchFileResult) {
+        super(`${fileResult.spool.stepname}:${fileResult.spool.ddname}`, vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = globals.JOBS_SPOOL_SEARCH_FILE_CONTEXT;
+        this.description = localize("spoolSearch.matches", "{0} matches", fileResult.matches.length);
+    }
+}
+
+/**
+ * Job with at least one matching spool file
+ *
+ * @export
+ * @class SpoolSearchJobNode
+ */
+export class SpoolSearchJobNode extends vscode.TreeItem {
+    public constructor(public readonly fileResults: SpoolSearchFileResult[]) {
+        super(`${fileResults[0].spool.jobname}(${fileResults[0].spool.jobid})`, vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = globals.JOBS_SPOOL_SEARCH_JOB_CONTEXT;
+        this.description = `${fileResults[0].profileName} - ${localize(
+            "spoolSearch.matches",
+            "{0} matches",
+            fileResults.reduce((count, result) => count + result.matches.length, 0)
+        )}`;
+    }
+}
+
+/**
+ * Provides the "Spool Search Results" view, listing the lines of the spool files of one or more jobs that match a search
+ *
+ * @export
+ * @class SpoolSearchProvider
+ */
+export class SpoolSearchProvider implements vscode.TreeDataProvider<SpoolSearchNode> {
+    public static readonly VISIBLE_CONTEXT_KEY = "zowe.jobs.spoolSearch.visible";
+
+    private results: SpoolSearchFileResult[] = [];
+    private mOnDidChangeTreeData = new vscode.EventEmitter<SpoolSearchNode | undefined>();
+    public readonly onDidChangeTreeData = this.mOnDidChangeTreeData.event;
+
+    /**
+     * Find the lines that contain the search string, or that match the search pattern when it is enclosed in slashes
+     *
+     * @param {string} content the spool content
+     * @param {RegExp} pattern global regular expression built with {@link buildPattern}
+     * @returns {SpoolSearchMatch[]}
+     */
+    public static findMatches(content: string, pattern: RegExp): SpoolSearchMatch[] {
+        const matches: SpoolSearchMatch[] = [];
+        content.split(/\r?\n/).forEach((text, line) => {
+            pattern.lastIndex = 0;
+            const match = pattern.exec(text);
+            if (match != null && match[0].length > 0) {
+                matches.push({ line, start: match.index, end: match.index + match[0].length, text });
+            }
+        });
+        return matches;
+    }
+
+    /**
+     * Build a case-insensitive pattern from the search string, `/IEF\d+I/` is used as a regular expression
+     *
+     * @param {string} searchString
+     * @returns {RegExp}
+     */
+    public static buildPattern(searchString: string): RegExp {
+        const regex = /^\/(.+)\/$/.exec(searchString);
+        const source = regex ? regex[1] : searchString.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        return new RegExp(source, "gi");
+    }
+
+    public getTreeItem(element: SpoolSearchNode): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: SpoolSearchNode): SpoolSearchNode[] {
+        ZoweLogger.trace("SpoolSearchProvider.getChildren called.");
+        if (element instanceof SpoolSearchJobNode) {
+            return element.fileResults.map((result) => new SpoolSearchFileNode(result));
+        }
+        if (element instanceof SpoolSearchFileNode) {
+            return element.fileResult.matches.map((match) => new SpoolSearchMatchNode(element.fileResult, match));
+        }
+        const jobs = new Map<string, SpoolSearchFileResult[]>();
+        for (const result of this.results) {
+            const key = `${result.profileName}:${result.spool.jobid}`;
+            jobs.set(key, [...(jobs.get(key) ?? []), result]);
+        }
+        return [...jobs.values()].map((fileResults) => new SpoolSearchJobNode(fileResults));
+    }
+
+    /**
+     * Search the spool files of the selected jobs, or of the jobs listed under the selected sessions
+     *
+     * @param {IZoweTreeNode[]} nodes
+     */
+    public async search(nodes: IZoweTreeNode[]): Promise<void> {
+        ZoweLogger.trace("SpoolSearchProvider.search called.");
+        const searchString = await Gui.showInputBox({
+            prompt: localize("spoolSearch.prompt", "Enter the text to search for, or a regular expression enclosed in slashes"),
+            placeHolder: "IEF450I",
+            validateInput: (value) => (value.trim().length ? null : localize("spoolSearch.prompt.empty", "Enter a search string")),
+        });
+        if (!searchString) {
+            return;
+        }
+        let pattern: RegExp;
+        try {
+            pattern = SpoolSearchProvider.buildPattern(searchString.trim());
+        } catch (err) {
+            Gui.errorMessage(localize("spoolSearch.invalidPattern", "Invalid regular expression: {0}", err.message));
+            return;
+        }
+        const ddNames = await Gui.showInputBox({
+            prompt: localize(
+                "spoolSearch.ddNames.prompt",
+                "Enter the DD names to search, separated by commas. Leave empty to search all spool files"
+            ),
+            placeHolder: "JESMSGLG, JESYSMSG, SYSOUT",
+        });
+        if (ddNames == null) {
+            return;
+        }
+        const ddFilter = ddNames
+            .split(",")
+            .map((ddName) => ddName.trim().toUpperCase())
+            .filter((ddName) => ddName.length);
+
+        const jobNodes = await SpoolSearchProvider.getJobNodes(nodes);
+        if (!jobNodes.length) {
+            Gui.showMessage(localize("spoolSearch.noJobs", "There are no jobs to search."));
+            return;
+        }
+
+        const { results, failures } = await Gui.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: localize("spoolSearch.progress", "Searching the spool of {0} jobs for {1}", jobNodes.length, searchString),
+                cancellable: true,
+            },
+            (_progress, token) => SpoolSearchProvider.searchJobs(jobNodes, pattern, ddFilter, token)
+        );
+        if (failures > 0) {
+            Gui.warningMessage(
+                localize("spoolSearch.failures", "{0} spool files could not be searched. See the Zowe Explorer log for details.", failures)
+            );
+        }
+        if (!results.length) {
+            Gui.showMessage(localize("spoolSearch.noMatches", "No spool lines match {0}.", searchString));
+            return;
+        }
+        this.setResults(results);
+        await vscode.commands.executeCommand("zowe.jobs.spoolSearch.focus");
+    }
+
+    public setResults(results: SpoolSearchFileResult[]): void {
+        ZoweLogger.trace("SpoolSearchProvider.setResults called.");
+        this.results = results;
+        vscode.commands.executeCommand("setContext", SpoolSearchProvider.VISIBLE_CONTEXT_KEY, results.length > 0);
+        this.mOnDidChangeTreeData.fire(undefined);
+    }
+
+    public clear(): void {
+        ZoweLogger.trace("SpoolSearchProvider.clear called.");
+        this.setResults([]);
+    }
+
+    public dispose(): void {
+        this.mOnDidChangeTreeData.dispose();
+    }
+
+    private static async getJobNodes(nodes: IZoweTreeNode[]): Promise<IZoweJobTreeNode[]> {
+        const jobNodes: IZoweJobTreeNode[] = [];
+        for (const node of nodes as IZoweJobTreeNode[]) {
+            if (contextually.isJobsSession(node)) {
+                // Only the jobs that match the search of the session are searched
+                const children = await node.getChildren();
+                jobNodes.push(...children.filter((child) => contextually.isJob(child) && child.job != null));
+            } else if (contextually.isJob(node) && node.job != null) {
+                jobNodes.push(node);
+            }
+        }
+        return jobNodes;
+    }
+
+    private static async searchJobs(
+        jobNodes: IZoweJobTreeNode[],
+        pattern: RegExp,
+        ddFilter: string[],
+        token: vscode.CancellationToken
+    ): Promise<{ results: SpoolSearchFileResult[]; failures: number }> {
+        let failures = 0;
+        const spoolFiles = await SpoolSearchProvider.runConcurrently(
+            jobNodes.map((node) => async (): Promise<SpoolToSearch[]> => {
+                try {
+                    const spools = await getSpoolFiles(node);
+                    return spools
+                        .filter((spool) => spool.id != null && (!ddFilter.length || ddFilter.includes(spool.ddname?.toUpperCase())))
+                        .map((spool) => ({ node, spool }));
+                } catch (err) {
+                    failures++;
+                    ZoweLogger.error(localize("spoolSearch.listError", "Could not list the spool files of {0}: {1}", node.job.jobid, err?.message));
+                    return [];
+                }
+            }),
+            token
+        );
+
+        const results = await SpoolSearchProvider.runConcurrently(
+            spoolFiles
+                .reduce<SpoolToSearch[]>((all, spools) => all.concat(spools), [])
+                .map(({ node, spool }) => async (): Promise<SpoolSearchFileResult> => {
+                    const result: SpoolSearchFileResult = { profileName: node.getProfileName(), spool, matches: [] };
+                    try {
+                        const content = await ZoweExplorerApiRegister.getJesApi(node.getProfile()).getSpoolContentById(
+                            spool.jobname,
+                            spool.jobid,
+                            spool.id
+                        );
+                        result.matches = SpoolSearchProvider.findMatches(content ?? "", pattern);
+                    } catch (err) {
+                        failures++;
+                        ZoweLogger.error(
+                            localize("spoolSearch.readError", "Could not read spool file {0} of {1}: {2}", spool.ddname, spool.jobid, err?.message)
+                        );
+                    }
+                    return result;
+                }),
+            token
+        );
+        return { results: results.filter((result) => result.matches.length > 0), failures };
+    }
+
+    /**
+     * Run the requests with at most {@link globals.JOBS_SPOOL_SEARCH_CONCURRENCY} of them in flight,
+     * the requests that have not started yet are skipped once the search is cancelled
+     */
+    private static async runConcurrently<T>(requests: (() => Promise<T>)[], token: vscode.CancellationToken): Promise<T[]> {
+        const responses: T[] = [];
+        let next = 0;
+        const worker = async (): Promise<void> => {
+            while (next < requests.length && !token.isCancellationRequested) {
+                const index = next++;
+                responses[index] = await requests[index]();
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(globals.JOBS_SPOOL_SEARCH_CONCURRENCY, requests.length) }, worker));
+        return responses.filter((response) => response !== undefined);
+    }
+}
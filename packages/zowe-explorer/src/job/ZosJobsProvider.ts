@@ -12,12 +12,21 @@
 import * as vscode from "vscode";
 import * as globals from "../globals";
 import { IJob, imperative } from "@zowe/cli";
-import { Gui, ValidProfileEnum, IZoweTree, IZoweJobTreeNode, PersistenceSchemaEnum, NodeInteraction } from "@zowe/zowe-explorer-api";
+import {
+    Gui,
+    ValidProfileEnum,
+    IZoweTree,
+    IZoweDatasetTreeNode,
+    IZoweJobTreeNode,
+    PersistenceSchemaEnum,
+    NodeInteraction,
+} from "@zowe/zowe-explorer-api";
 import { FilterItem, errorHandling } from "../utils/ProfilesUtils";
 import { Profiles } from "../Profiles";
 import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
-import { Job, Spool } from "./ZoweJobNode";
-import { getAppName, sortTreeItems, jobStringValidator } from "../shared/utils";
+import { Job, JobGroup, Spool } from "./ZoweJobNode";
+import { JobChainNode } from "./JobChain";
+import { getAppName, sortTreeItems, jobStringValidator, jobDateValidator } from "../shared/utils";
 import { ZoweTreeProvider } from "../abstract/ZoweTreeProvider";
 import { getIconByNode } from "../generators/icons";
 import * as contextually from "../shared/context";
@@ -29,6 +38,8 @@ import SpoolProvider, { encodeJobFile } from "../SpoolProvider";
 import { Poller } from "@zowe/zowe-explorer-api/src/utils";
 import { PollDecorator } from "../utils/DecorationProviders";
 import { TreeViewUtils } from "../utils/TreeViewUtils";
+import { getJobGroupName, IJobTreeOptions } from "./utils";
+import * as dsActions from "../dataset/actions";
 
 // Set up localization
 nls.config({
@@ -42,6 +53,11 @@ interface IJobSearchCriteria {
     Prefix: string | undefined;
     JobId: string | undefined;
     Status: string | undefined;
+    Class?: string | undefined;
+    Type?: string | undefined;
+    ExecMember?: string | undefined;
+    SubmittedFrom?: string | undefined;
+    SubmittedTo?: string | undefined;
 }
 
 interface IJobStatusOption {
@@ -75,7 +91,7 @@ export async function createJobsTree(log: imperative.Logger): Promise<ZosJobsPro
     return tree;
 }
 
-export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZoweJobTreeNode> {
+export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZoweJobTreeNode>, vscode.TreeDragAndDropController<IZoweJobTreeNode> {
     public static readonly JobId = "JobId:";
     public static readonly Owner = "Owner:";
     public static readonly Prefix = "Prefix:";
@@ -84,6 +100,8 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
     private static readonly persistenceSchema: PersistenceSchemaEnum = PersistenceSchemaEnum.Job;
     private static readonly submitJobQueryLabel = localize("zosJobsProvider.option.submit", "$(check) Submit this query");
     private static readonly chooseJobStatusLabel = "Job Status";
+    private static readonly chooseJobTypeLabel = "Job Type";
+    private static readonly jobTypes = ["*", "JOB", "STC", "TSU"];
 
     public JOB_PROPERTIES = [
         {
@@ -109,10 +127,51 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
             show: true,
             placeHolder: localize("searchJobs.status", `Enter job status`),
         },
+        {
+            key: `job-class`,
+            label: `Job Class`,
+            value: "",
+            show: true,
+            placeHolder: localize("searchJobs.class", `Enter job class`),
+            validateInput: (text: string): string | null => jobStringValidator(text, "class"),
+        },
+        {
+            key: `job-type`,
+            label: ZosJobsProvider.chooseJobTypeLabel,
+            value: "*",
+            show: true,
+            placeHolder: localize("searchJobs.type", `Enter job type`),
+        },
+        {
+            key: `exec-member`,
+            label: `Execution Member`,
+            value: "",
+            show: true,
+            placeHolder: localize("searchJobs.execMember", `Enter the JES member that ran the job`),
+            validateInput: (text: string): string | null => jobStringValidator(text, "member"),
+        },
+        {
+            key: `submitted-from`,
+            label: `Submitted From`,
+            value: "",
+            show: true,
+            placeHolder: localize("searchJobs.submittedFrom", `Enter the earliest submission date (YYYY-MM-DD)`),
+            validateInput: (text: string): string | null => jobDateValidator(text),
+        },
+        {
+            key: `submitted-to`,
+            label: `Submitted To`,
+            value: "",
+            show: true,
+            placeHolder: localize("searchJobs.submittedTo", `Enter the latest submission date (YYYY-MM-DD)`),
+            validateInput: (text: string): string | null => jobDateValidator(text),
+        },
     ];
 
     public mSessionNodes: IZoweJobTreeNode[] = [];
     public mFavorites: IZoweJobTreeNode[] = [];
+    public mJobChains: JobChainNode[] = [];
+    private mJobGroups = new Map<IZoweJobTreeNode, JobGroup[]>();
     public lastOpened: NodeInteraction = {};
     public searchByQuery = new FilterItem({
         text: localize("zosJobsProvider.option.prompt.createId", "$(plus) Create job search filter"),
@@ -122,6 +181,8 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
         text: localize("zosJobsProvider.option.prompt.createOwner", "$(search) Search by job ID"),
         menuType: globals.JobPickerTypes.IdSearch,
     });
+    public readonly dragMimeTypes: string[] = [];
+    public readonly dropMimeTypes: string[] = [globals.DS_TREE_MIME_TYPE];
     private treeView: vscode.TreeView<IZoweJobTreeNode>;
 
     public constructor() {
@@ -138,9 +199,45 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
         this.treeView = Gui.createTreeView("zowe.jobs.explorer", {
             treeDataProvider: this,
             canSelectMany: true,
+            dragAndDropController: this,
         });
     }
 
+    /**
+     * Submits the members and sequential data sets dragged from the Data Sets tree and dropped on a session,
+     * with the profile of the session, and refreshes the session to show the submitted jobs.
+     * The data sets are submitted by name, so only the ones of the same profile or host as the session are submitted.
+     *
+     * @param {IZoweJobTreeNode} target - The node the data sets are dropped on
+     * @param {vscode.DataTransfer} dataTransfer - The data transfer of the drag and drop operation
+     */
+    public async handleDrop(target: IZoweJobTreeNode | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        ZoweLogger.trace("ZosJobsProvider.handleDrop called.");
+        const nodes: IZoweDatasetTreeNode[] = dataTransfer.get(globals.DS_TREE_MIME_TYPE)?.value;
+        if (target == null || !nodes?.length || !contextually.isJobsSession(target) || contextually.isFavorite(target)) {
+            return;
+        }
+        const profile = target.getProfile();
+        for (const node of nodes.filter((selected) => contextually.isDsMember(selected) || contextually.isDs(selected))) {
+            const label = node.getLabel() as string;
+            if (!ZosJobsProvider.isSameSystem(node.getProfile(), profile)) {
+                Gui.errorMessage(localize("handleDrop.otherSystem", "{0} was not submitted, it is not on the system of {1}.", label, profile.name));
+                continue;
+            }
+            try {
+                await dsActions.submitMember(node, profile);
+            } catch (err) {
+                await errorHandling(err, profile.name, localize("handleDrop.error", "Unable to submit {0}.", label));
+            }
+        }
+        this.refreshElement(target);
+    }
+
+    private static isSameSystem(profile: imperative.IProfileLoaded, other: imperative.IProfileLoaded): boolean {
+        const host: string = profile?.profile?.host;
+        return profile?.name === other?.name || (host != null && host.toLowerCase() === String(other?.profile?.host).toLowerCase());
+    }
+
     public rename(_node: IZoweJobTreeNode): void {
         throw new Error("Method not implemented.");
     }
@@ -197,9 +294,114 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
                 const favsForProfile = this.loadProfilesForFavorites(this.log, element);
                 return favsForProfile;
             }
+            if (contextually.isSessionNotFav(element) && (element as Job).groupBy && (element as Job).groupBy !== globals.JobGroupMethod.None) {
+                return this.groupJobs(element as Job, await element.getChildren());
+            }
             return element.getChildren();
         }
-        return this.mSessionNodes;
+        return this.mJobChains.length ? [...this.mSessionNodes, ...this.mJobChains] : this.mSessionNodes;
+    }
+
+    /**
+     * Returns the group of a job when the jobs of its session are grouped, as the parent of the job node is its session
+     *
+     * @param {IZoweJobTreeNode} element
+     * @returns {IZoweJobTreeNode}
+     */
+    public getParent(element: IZoweJobTreeNode): IZoweJobTreeNode {
+        ZoweLogger.trace("ZosJobsProvider.getParent called.");
+        const group = this.mJobGroups.get(element.getParent())?.find((jobGroup) => jobGroup.children.includes(element));
+        return group ?? element.getParent();
+    }
+
+    /**
+     * Prompts for the order of the jobs of a session
+     *
+     * @param {Job} node - The session node
+     */
+    public async sortBy(node: Job): Promise<void> {
+        ZoweLogger.trace("ZosJobsProvider.sortBy called.");
+        const methods: [globals.JobSortMethod, string][] = [
+            [globals.JobSortMethod.Id, localize("sortBy.id", "Job ID")],
+            [globals.JobSortMethod.Name, localize("sortBy.name", "Job Name")],
+            [globals.JobSortMethod.DateSubmitted, localize("sortBy.dateSubmitted", "Date Submitted")],
+            [globals.JobSortMethod.ReturnCode, localize("sortBy.returnCode", "Return Code")],
+            [globals.JobSortMethod.Status, localize("sortBy.status", "Status")],
+        ];
+        const current = localize("sortBy.current", "Current");
+        const methodItems: vscode.QuickPickItem[] = methods.map(([method, label]) => ({
+            label,
+            description: node.sortOptions?.method === method ? current : undefined,
+        }));
+        const methodChoice = await Gui.showQuickPick(methodItems, {
+            placeHolder: localize("sortBy.method.prompt", "Sort the jobs of {0} by", node.getProfileName()),
+        });
+        if (!methodChoice) {
+            return;
+        }
+        const directionItems: vscode.QuickPickItem[] = [
+            { label: localize("sortBy.ascending", "Ascending") },
+            { label: localize("sortBy.descending", "Descending") },
+        ];
+        const directionChoice = await Gui.showQuickPick(directionItems, {
+            placeHolder: localize("sortBy.direction.prompt", "Sort order"),
+        });
+        if (!directionChoice) {
+            return;
+        }
+        node.sortOptions = { method: methods[methodItems.indexOf(methodChoice)][0], descending: directionChoice === directionItems[1] };
+        await this.saveTreeOptions(node);
+    }
+
+    /**
+     * Prompts for the grouping of the jobs of a session
+     *
+     * @param {Job} node - The session node
+     */
+    public async groupBy(node: Job): Promise<void> {
+        ZoweLogger.trace("ZosJobsProvider.groupBy called.");
+        const methods: [globals.JobGroupMethod, string][] = [
+            [globals.JobGroupMethod.None, localize("groupBy.none", "Do not group")],
+            [globals.JobGroupMethod.Name, localize("groupBy.name", "Job Name")],
+            [globals.JobGroupMethod.Status, localize("groupBy.status", "Status")],
+        ];
+        const current = localize("groupBy.current", "Current");
+        const items: vscode.QuickPickItem[] = methods.map(([method, label]) => ({
+            label,
+            description: (node.groupBy ?? globals.JobGroupMethod.None) === method ? current : undefined,
+        }));
+        const choice = await Gui.showQuickPick(items, {
+            placeHolder: localize("groupBy.prompt", "Group the jobs of {0} by", node.getProfileName()),
+        });
+        if (!choice) {
+            return;
+        }
+        node.groupBy = methods[items.indexOf(choice)][0];
+        this.mJobGroups.delete(node);
+        await this.saveTreeOptions(node);
+    }
+
+    /**
+     * Shows the progress of a job chain below the sessions
+     *
+     * @param {JobChainNode} chain
+     */
+    public addJobChain(chain: JobChainNode): void {
+        ZoweLogger.trace("ZosJobsProvider.addJobChain called.");
+        this.mJobChains.push(chain);
+        this.refresh();
+    }
+
+    /**
+     * Removes a job chain from the tree, the jobs that were not submitted yet are cancelled
+     *
+     * @param {JobChainNode} chain
+     */
+    public removeJobChain(chain: JobChainNode): void {
+        ZoweLogger.trace("ZosJobsProvider.removeJobChain called.");
+        chain.cancel();
+        this.mJobChains = this.mJobChains.filter((node) => node !== chain);
+        this.refresh();
     }
 
     /**
@@ -704,7 +906,8 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
                 searchCriteriaObj.Owner,
                 searchCriteriaObj.Prefix,
                 searchCriteriaObj.JobId,
-                searchCriteriaObj.Status
+                searchCriteriaObj.Status,
+                searchCriteriaObj
             );
         }
         this.applySearchLabelToNode(node, searchCriteriaObj);
@@ -737,6 +940,11 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
             Prefix: undefined,
             JobId: undefined,
             Status: undefined,
+            Class: undefined,
+            Type: undefined,
+            ExecMember: undefined,
+            SubmittedFrom: undefined,
+            SubmittedTo: undefined,
         };
         Object.preventExtensions(searchCriteriaObj);
         if (!searchCriteria) {
@@ -772,6 +980,21 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
             if (prop.key === "job-status") {
                 prop.value = searchObj.Status;
             }
+            if (prop.key === "job-class") {
+                prop.value = searchObj.Class ?? "";
+            }
+            if (prop.key === "job-type") {
+                prop.value = searchObj.Type ?? "*";
+            }
+            if (prop.key === "exec-member") {
+                prop.value = searchObj.ExecMember ?? "";
+            }
+            if (prop.key === "submitted-from") {
+                prop.value = searchObj.SubmittedFrom ?? "";
+            }
+            if (prop.key === "submitted-to") {
+                prop.value = searchObj.SubmittedTo ?? "";
+            }
         });
         return historyPopulatedItems;
     }
@@ -863,8 +1086,10 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
      * @param owner - The owner search item
      * @param prefix - The job prefix search item
      * @param jobid - A specific jobid search item
+     * @param status - The job status search item
+     * @param criteria - The class, type, execution member and submission date search items
      */
-    public createSearchLabel(owner: string, prefix: string, jobid: string, status: string): string {
+    public createSearchLabel(owner: string, prefix: string, jobid: string, status: string, criteria?: IJobSearchCriteria): string {
         ZoweLogger.trace("ZosJobsProvider.createSearchLabel called.");
         const alphaNumeric = new RegExp("^w+$");
         if (jobid && !alphaNumeric.exec(jobid.trim())) {
@@ -880,6 +1105,18 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
         if (status) {
             revisedCriteria += Job.Status + status.trim();
         }
+        const filters = [
+            [Job.Class, criteria?.Class],
+            [Job.Type, criteria?.Type],
+            [Job.ExecMember, criteria?.ExecMember],
+            [Job.SubmittedFrom, criteria?.SubmittedFrom],
+            [Job.SubmittedTo, criteria?.SubmittedTo],
+        ]
+            .filter(([, value]) => value?.trim() && value.trim() !== "*")
+            .map(([key, value]) => key + value.trim());
+        if (filters.length) {
+            revisedCriteria = [revisedCriteria.replace(/[\s|]+$/, ""), ...filters].filter((criterion) => criterion).join(" | ");
+        }
 
         return revisedCriteria.trim();
     }
@@ -901,6 +1138,11 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
         return choice;
     }
 
+    private async setJobType(): Promise<string> {
+        ZoweLogger.trace("ZosJobsProvider.setJobType called.");
+        return (await Gui.showQuickPick(ZosJobsProvider.jobTypes)) ?? "*";
+    }
+
     private async handleEditingMultiJobParameters(
         jobProperties: IJobPickerOption[],
         node: IZoweJobTreeNode
@@ -931,17 +1173,38 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
             case ZosJobsProvider.chooseJobStatusLabel:
                 jobProperties.find((prop) => prop.key === "job-status").value = (await this.setJobStatus(node)).label;
                 break;
+            case ZosJobsProvider.chooseJobTypeLabel:
+                jobProperties.find((prop) => prop.key === "job-type").value = await this.setJobType();
+                break;
             case ZosJobsProvider.submitJobQueryLabel: {
                 node.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
                 node.searchId = "";
                 node.prefix = jobProperties.find((prop) => prop.key === "prefix").value;
                 node.owner = jobProperties.find((prop) => prop.key === "owner").value;
                 node.status = jobProperties.find((prop) => prop.key === "job-status").value;
+                const filterValue = (key: string): string | undefined => {
+                    const value = jobProperties.find((prop) => prop.key === key)?.value?.trim();
+                    return value && value !== "*" ? value : undefined;
+                };
+                node.jobClass = filterValue("job-class");
+                node.jobType = filterValue("job-type");
+                node.execMember = filterValue("exec-member");
+                node.submittedFrom = filterValue("submitted-from");
+                node.submittedTo = filterValue("submitted-to");
+                if (node.submittedFrom && node.submittedTo && node.submittedFrom > node.submittedTo) {
+                    Gui.errorMessage(localize("searchJobs.dateRange.invalid", "The Submitted From date must not be after the Submitted To date."));
+                    return this.handleEditingMultiJobParameters(jobProperties, node);
+                }
                 const searchCriteriaObj: IJobSearchCriteria = {
                     Owner: node.owner,
                     Prefix: node.prefix,
                     JobId: undefined,
                     Status: node.status,
+                    Class: node.jobClass,
+                    Type: node.jobType,
+                    ExecMember: node.execMember,
+                    SubmittedFrom: node.submittedFrom,
+                    SubmittedTo: node.submittedTo,
                 };
 
                 this.resetJobProperties(jobProperties);
@@ -973,9 +1236,12 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
             if (prop.key === "prefix") {
                 prop.value = "*";
             }
-            if (prop.key === "job-status") {
+            if (prop.key === "job-status" || prop.key === "job-type") {
                 prop.value = "*";
             }
+            if (["job-class", "exec-member", "submitted-from", "submitted-to"].includes(prop.key)) {
+                prop.value = "";
+            }
         });
         return jobProperties;
     }
@@ -992,6 +1258,11 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
             node.owner = storedSearchObj.Owner || "*";
             node.prefix = storedSearchObj.Prefix || "*";
             node.status = storedSearchObj.Status || "*";
+            node.jobClass = storedSearchObj.Class;
+            node.jobType = storedSearchObj.Type;
+            node.execMember = storedSearchObj.ExecMember;
+            node.submittedFrom = storedSearchObj.SubmittedFrom;
+            node.submittedTo = storedSearchObj.SubmittedTo;
         }
     }
 
@@ -1033,11 +1304,49 @@ export class ZosJobsProvider extends ZoweTreeProvider implements IZoweTree<IZowe
                 node.iconPath = icon.path;
             }
             node.dirty = true;
+            const treeOptions = this.mHistory.getSessionOptions<IJobTreeOptions>(profile.name);
+            node.sortOptions = treeOptions?.sort;
+            node.groupBy = treeOptions?.group;
             this.mSessionNodes.push(node);
             this.mHistory.addSession(profile.name);
         }
     }
 
+    private async saveTreeOptions(node: Job): Promise<void> {
+        const treeOptions: IJobTreeOptions = { sort: node.sortOptions, group: node.groupBy };
+        await this.mHistory.setSessionOptions(node.getProfileName(), treeOptions);
+        this.refreshElement(node);
+    }
+
+    /**
+     * Puts the jobs of a session into groups, the groups are kept between refreshes so that they stay expanded
+     *
+     * @param {Job} sessionNode
+     * @param {IZoweJobTreeNode[]} children the jobs of the session
+     * @returns {IZoweJobTreeNode[]} the groups sorted by name, and the children that are not jobs
+     */
+    private groupJobs(sessionNode: Job, children: IZoweJobTreeNode[]): IZoweJobTreeNode[] {
+        ZoweLogger.trace("ZosJobsProvider.groupJobs called.");
+        const previousGroups = this.mJobGroups.get(sessionNode) ?? [];
+        const jobsByGroup = new Map<string, IZoweJobTreeNode[]>();
+        const otherNodes: IZoweJobTreeNode[] = [];
+        for (const child of children ?? []) {
+            const groupName = child.job ? getJobGroupName(child.job, sessionNode.groupBy) : undefined;
+            if (groupName == null) {
+                otherNodes.push(child);
+                continue;
+            }
+            jobsByGroup.set(groupName, [...(jobsByGroup.get(groupName) ?? []), child]);
+        }
+        const groups = [...jobsByGroup.keys()].sort().map((groupName) => {
+            const group = previousGroups.find((previous) => previous.label === groupName) ?? new JobGroup(groupName, sessionNode);
+            group.setJobs(jobsByGroup.get(groupName));
+            return group;
+        });
+        this.mJobGroups.set(sessionNode, groups);
+        return [...otherNodes, ...groups];
+    }
+
     /**
      * Given user-provided input, determine whether the input is a valid polling interval.
      * @param value The polling interval provided by the user
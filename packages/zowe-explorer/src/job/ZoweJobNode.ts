@@ -23,6 +23,7 @@ import * as nls from "vscode-nls";
 import { Profiles } from "../Profiles";
 import { ZoweLogger } from "../utils/LoggerUtils";
 import { encodeJobFile } from "../SpoolProvider";
+import { filterJobs, IJobSortOptions, needsExecData, sortJobs } from "./utils";
 // Set up localization
 nls.config({
     messageFormat: nls.MessageFormat.bundle,
@@ -35,9 +36,21 @@ export class Job extends ZoweTreeNode implements IZoweJobTreeNode {
     public static readonly Owner = "Owner: ";
     public static readonly Prefix = "Prefix: ";
     public static readonly Status = "Status: ";
+    public static readonly Class = "Class: ";
+    public static readonly Type = "Type: ";
+    public static readonly ExecMember = "ExecMember: ";
+    public static readonly SubmittedFrom = "SubmittedFrom: ";
+    public static readonly SubmittedTo = "SubmittedTo: ";
 
     public children: IZoweJobTreeNode[] = [];
     public dirty = true;
+    public jobClass: string;
+    public jobType: string;
+    public execMember: string;
+    public submittedFrom: string;
+    public submittedTo: string;
+    public sortOptions: IJobSortOptions;
+    public groupBy: globals.JobGroupMethod;
     private _owner: string;
     private _prefix: string;
     private _searchId: string;
@@ -210,7 +223,7 @@ export class Job extends ZoweTreeNode implements IZoweJobTreeNode {
             // Child nodes already exist and every node was updated.
             // Return cached list of child nodes
             if (this.children.length && unmodifiedCount === 0) {
-                return this.children;
+                return this.sortChildren();
             }
 
             // Only add new children that are not in the list of existing child nodes
@@ -221,7 +234,7 @@ export class Job extends ZoweTreeNode implements IZoweJobTreeNode {
             this.children = this.children.concat(newChildren).filter((ch) => ch.label in elementChildren);
         }
         this.dirty = false;
-        return this.children;
+        return this.sortChildren();
     }
 
     public getSessionNode(): IZoweJobTreeNode {
@@ -298,6 +311,16 @@ export class Job extends ZoweTreeNode implements IZoweJobTreeNode {
         return this._searchId;
     }
 
+    /**
+     * Sorts the jobs of a session node by its sort options, the return codes of the jobs may have changed since the last sort
+     */
+    private sortChildren(): IZoweJobTreeNode[] {
+        if (this.sortOptions && contextually.isSession(this)) {
+            this.children = sortJobs(this.children, this.sortOptions);
+        }
+        return this.children;
+    }
+
     private statusNotSupportedMsg(status: string): void {
         ZoweLogger.trace("ZoweJobNode.statusNotSupportedMsg called.");
         if (status !== "*") {
@@ -324,6 +347,8 @@ export class Job extends ZoweTreeNode implements IZoweJobTreeNode {
                         owner,
                         prefix,
                         status,
+                        // The submission date of the jobs is part of their execution data
+                        ...(needsExecData(this) || this.sortOptions?.method === globals.JobSortMethod.DateSubmitted ? { execData: true } : {}),
                     });
                 } else {
                     this.statusNotSupportedMsg(status);
@@ -345,6 +370,8 @@ export class Job extends ZoweTreeNode implements IZoweJobTreeNode {
                         return acc;
                     }
                 }, []);
+                // The JES APIs cannot search by class, type, execution member or submission date
+                jobsInternal = filterJobs(jobsInternal, this);
             } catch (error) {
                 await errorHandling(error, this.label, localize("getChildren.error.response", "Retrieving response from ") + `zowe.GetJobs`);
                 syncSessionNode(Profiles.getInstance())((profileValue) => ZoweExplorerApiRegister.getJesApi(profileValue).getSession())(sessNode);
@@ -378,3 +405,30 @@ export class Spool extends Job {
         }
     }
 }
+
+/**
+ * Folder that groups the jobs of a session by job name or status.
+ * The jobs keep the session node as their parent, the tree provider shows them below their group.
+ *
+ * @export
+ * @class JobGroup
+ */
+export class JobGroup extends Job {
+    public constructor(label: string, sessionNode: IZoweJobTreeNode) {
+        super(label, vscode.TreeItemCollapsibleState.Collapsed, sessionNode, null, null, sessionNode.getProfile());
+        this.contextValue = globals.JOBS_GROUP_CONTEXT;
+        this.iconPath = getIconByNode(this)?.path;
+    }
+
+    public setJobs(jobs: IZoweJobTreeNode[]): void {
+        this.children = jobs;
+        this.description =
+            jobs.length === 1 ? localize("jobGroup.description.single", "1 job") : localize("jobGroup.description", "{0} jobs", jobs.length);
+        this.dirty = false;
+    }
+
+    public getChildren(): Promise<IZoweJobTreeNode[]> {
+        ZoweLogger.trace("JobGroup.getChildren called.");
+        return Promise.resolve(this.children);
+    }
+}
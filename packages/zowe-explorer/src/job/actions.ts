@@ -14,12 +14,20 @@ import * as zowe from "@zowe/cli";
 import { errorHandling } from "../utils/ProfilesUtils";
 import { Profiles } from "../Profiles";
 import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
-import { Gui, ValidProfileEnum, IZoweTree, IZoweJobTreeNode } from "@zowe/zowe-explorer-api";
+import * as globals from "../globals";
+import * as contextually from "../shared/context";
+import { Gui, ValidProfileEnum, IZoweTree, IZoweJobTreeNode, IZoweTreeNode } from "@zowe/zowe-explorer-api";
 import { Job, Spool } from "./ZoweJobNode";
+import { JobChainNode } from "./JobChain";
+import { ZosJobsProvider } from "./ZosJobsProvider";
 import * as nls from "vscode-nls";
 import SpoolProvider, { encodeJobFile, getSpoolFiles, matchSpool } from "../SpoolProvider";
 import { ZoweLogger } from "../utils/LoggerUtils";
 import { getDefaultUri } from "../shared/utils";
+import { SettingsConfig } from "../utils/SettingsConfig";
+import { pairSpoolFiles } from "./utils";
+import { formatDuration, IJobLogSummary, parseJobLog } from "./JobLogParser";
+import { WebviewUtils } from "../utils/WebviewUtils";
 
 // Set up localization
 nls.config({
@@ -535,3 +543,216 @@ export async function cancelJobs(jobsProvider: IZoweTree<IZoweJobTreeNode>, node
         await Gui.showMessage(localize("cancelJobs.succeeded", "Cancelled selected jobs successfully."));
     }
 }
+
+/**
+ * Submit the selected members and sequential data sets as a job chain, each job is submitted
+ * once the previous one ends with an acceptable return code
+ *
+ * @param jobsProvider The jobs tree that shows the progress of the chain
+ * @param nodes The data set nodes, in the order of submission
+ */
+export async function submitJobChain(jobsProvider: ZosJobsProvider, nodes: IZoweTreeNode[]): Promise<void> {
+    ZoweLogger.trace("job.actions.submitJobChain called.");
+    const jobNodes = nodes.filter((node) => contextually.isDsMember(node) || contextually.isDs(node));
+    if (!jobNodes.length) {
+        Gui.errorMessage(localize("submitJobChain.noMembers", "Select the members or sequential data sets to submit as a job chain."));
+        return;
+    }
+    const profile = jobNodes[0].getProfile();
+    if (jobNodes.some((node) => node.getProfile()?.name !== profile?.name)) {
+        Gui.errorMessage(localize("submitJobChain.multipleProfiles", "The jobs of a chain must be submitted with the same profile."));
+        return;
+    }
+    await Profiles.getInstance().checkCurrentProfile(profile);
+    if (Profiles.getInstance().validProfile === ValidProfileEnum.INVALID) {
+        Gui.errorMessage(localize("submitJobChain.profileInvalid", "Profile is invalid, check connection details."));
+        return;
+    }
+
+    const dataSetNames = jobNodes.map((node) =>
+        contextually.isDsMember(node) ? `${node.getParent().getLabel() as string}(${node.getLabel() as string})` : (node.getLabel() as string)
+    );
+    const maxReturnCode = SettingsConfig.getDirectValue<number>(globals.SETTINGS_JOBS_CHAIN_MAX_RETURN_CODE);
+    const submitButton = localize("submitJobChain.submit", "Submit");
+    const selection = await Gui.warningMessage(
+        localize(
+            "submitJobChain.confirm",
+            "Submit the following jobs in this order? Each job is submitted once the previous job ends with a return code of {0} or lower.\n\n{1}",
+            maxReturnCode,
+            dataSetNames.join("\n")
+        ),
+        { items: [submitButton], vsCodeOpts: { modal: true } }
+    );
+    if (selection !== submitButton) {
+        return;
+    }
+
+    const chain = new JobChainNode(dataSetNames, profile, maxReturnCode, jobsProvider);
+    jobsProvider.addJobChain(chain);
+    await chain.run();
+}
+
+/**
+ * Let the user pick the job to compare a job with, among the jobs listed in the Jobs tree
+ *
+ * @param jobsProvider The jobs tree
+ * @param job The job to compare
+ * @returns The selected job, or undefined when the selection was cancelled
+ */
+async function pickJobToCompare(jobsProvider: IZoweTree<IZoweJobTreeNode>, job: IZoweJobTreeNode): Promise<IZoweJobTreeNode | undefined> {
+    const candidates = jobsProvider.mSessionNodes
+        .reduce<IZoweJobTreeNode[]>((jobs, sessionNode) => jobs.concat(sessionNode.children ?? []), [])
+        .filter((node) => contextually.isJob(node) && node.job != null && node !== job);
+    if (!candidates.length) {
+        Gui.showMessage(localize("compareJobs.noJobs", "Search for the job to compare with in the Jobs view first."));
+        return undefined;
+    }
+    // List the other runs of the same job first
+    candidates.sort((a, b) => Number(b.job.jobname === job.job.jobname) - Number(a.job.jobname === job.job.jobname));
+    const items: vscode.QuickPickItem[] = candidates.map((node) => ({
+        label: `${node.job.jobname}(${node.job.jobid})`,
+        description: node.job.retcode ?? node.job.status,
+        detail: node.getProfileName(),
+    }));
+    const selection = await Gui.showQuickPick(items, {
+        placeHolder: localize("compareJobs.pickJob", "Select the job to compare {0}({1}) with", job.job.jobname, job.job.jobid),
+        ignoreFocusOut: true,
+    });
+    return candidates[items.indexOf(selection)];
+}
+
+/**
+ * Compare the spool files of a job with the spool files of another run, pairing them by step name and DD name.
+ * The job numbers, times and dates are masked so that only the meaningful differences are shown.
+ *
+ * @param jobsProvider The jobs tree listing the jobs to compare with
+ * @param node The job to compare
+ * @param nodeList The selected jobs, two selected jobs are compared with each other
+ */
+export async function compareJobs(jobsProvider: IZoweTree<IZoweJobTreeNode>, node: IZoweJobTreeNode, nodeList?: IZoweJobTreeNode[]): Promise<void> {
+    ZoweLogger.trace("job.actions.compareJobs called.");
+    const selectedJobs = (nodeList ?? [node]).filter((n) => contextually.isJob(n) && n.job != null);
+    if (!selectedJobs.length || selectedJobs.length > 2) {
+        Gui.errorMessage(localize("compareJobs.selection", "Select one or two jobs to compare."));
+        return;
+    }
+    const left = selectedJobs[0];
+    const right = selectedJobs[1] ?? (await pickJobToCompare(jobsProvider, left));
+    if (right == null) {
+        return;
+    }
+
+    const leftLabel = `${left.job.jobname}(${left.job.jobid})`;
+    const rightLabel = `${right.job.jobname}(${right.job.jobid})`;
+    try {
+        const [leftSpools, rightSpools] = await Promise.all([getSpoolFiles(left), getSpoolFiles(right)]);
+        const pairs = pairSpoolFiles(leftSpools, rightSpools);
+        const unpaired = pairs.filter((pair) => pair.left == null || pair.right == null);
+        if (unpaired.length) {
+            Gui.warningMessage(
+                localize(
+                    "compareJobs.unpaired",
+                    "The following spool files are only in one of the jobs: {0}",
+                    unpaired.map((pair) => `${pair.key} (${pair.left ? leftLabel : rightLabel})`).join(", ")
+                )
+            );
+        }
+        const pairedFiles = pairs.filter((pair) => pair.left != null && pair.right != null);
+        if (!pairedFiles.length) {
+            Gui.showMessage(localize("compareJobs.noPairs", "{0} and {1} have no spool files in common.", leftLabel, rightLabel));
+            return;
+        }
+        const allFiles: vscode.QuickPickItem = { label: localize("compareJobs.allSpoolFiles", "All spool files") };
+        const items: vscode.QuickPickItem[] = pairedFiles.map((pair) => ({
+            label: pair.key,
+            description: `${pair.left["record-count"]} ↔ ${pair.right["record-count"]}`,
+        }));
+        const selection = await Gui.showQuickPick([allFiles, ...items], {
+            placeHolder: localize("compareJobs.pickSpoolFiles", "Select the spool file to compare"),
+            ignoreFocusOut: true,
+        });
+        if (selection == null) {
+            return;
+        }
+        for (const pair of selection === allFiles ? pairedFiles : [pairedFiles[items.indexOf(selection)]]) {
+            await vscode.commands.executeCommand(
+                "vscode.diff",
+                encodeJobFile(left.getProfileName(), pair.left).with({ fragment: SpoolProvider.normalizedFragment }),
+                encodeJobFile(right.getProfileName(), pair.right).with({ fragment: SpoolProvider.normalizedFragment }),
+                localize("compareJobs.title", "{0} ↔ {1} - {2}", leftLabel, rightLabel, pair.key),
+                { preview: false }
+            );
+        }
+    } catch (err) {
+        await errorHandling(err, left.getProfileName());
+    }
+}
+
+/**
+ * Show the steps of a job with their program, completion code, CPU time and elapsed time,
+ * as reported by the JES2 system messages of the job
+ *
+ * @param node The job to summarize
+ */
+export async function showStepSummary(node: IZoweJobTreeNode): Promise<void> {
+    ZoweLogger.trace("job.actions.showStepSummary called.");
+    const jobLabel = `${node.job.jobname}(${node.job.jobid})`;
+    let summary: IJobLogSummary;
+    try {
+        const spools = await getSpoolFiles(node);
+        const jesApi = ZoweExplorerApiRegister.getJesApi(node.getProfile());
+        const [jesmsglg, jesjcl, jesysmsg] = await Promise.all(
+            ["JESMSGLG", "JESJCL", "JESYSMSG"].map((ddname) => {
+                const spool = spools.find((s) => s.stepname === "JES2" && s.ddname === ddname);
+                return spool ? jesApi.getSpoolContentById(spool.jobname, spool.jobid, spool.id) : Promise.resolve("");
+            })
+        );
+        summary = parseJobLog(jesmsglg, jesysmsg, jesjcl);
+    } catch (err) {
+        await errorHandling(err, node.getProfileName(), localize("showStepSummary.error", "Unable to read the system messages of {0}.", jobLabel));
+        return;
+    }
+    if (!summary.steps.length) {
+        Gui.showMessage(localize("showStepSummary.noSteps", "No step completion messages were found for {0}.", jobLabel));
+        return;
+    }
+
+    const escape = (value: string): string => WebviewUtils.escapeHtml(value);
+    const headers = [
+        localize("showStepSummary.step", "Step"),
+        localize("showStepSummary.procStep", "Procedure Step"),
+        localize("showStepSummary.program", "Program"),
+        localize("showStepSummary.completionCode", "Completion Code"),
+        localize("showStepSummary.cpuTime", "CPU Time"),
+        localize("showStepSummary.elapsedTime", "Elapsed Time"),
+    ];
+    const rows = summary.steps.map((step) => [
+        step.stepName,
+        step.procStep,
+        step.program,
+        step.completionCode,
+        formatDuration(step.cpuTime),
+        formatDuration(step.elapsedTime),
+    ]);
+    const title = localize("showStepSummary.title", "{0} Step Summary", jobLabel);
+    const panel: vscode.WebviewPanel = Gui.createWebviewPanel({
+        viewType: "zowe",
+        title,
+        showOptions: vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : 1,
+    });
+    panel.webview.html = `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <title>${escape(title)}</title>
+        </head>
+        <body>
+        <h3>${escape(jobLabel)} - ${escape(summary.maxCompletionCode ?? node.job.retcode)}</h3>
+        <p>${localize("showStepSummary.jobElapsedTime", "Elapsed time: {0}", formatDuration(summary.elapsedTime))}</p>
+        <table style="margin-top: 1em; border-spacing: 2em 0.2em">
+            <tr>${headers.map((header) => `<th align="left" style="color: var(--vscode-editorLink-activeForeground)">${header}</th>`).join("")}</tr>
+            ${rows.map((row) => `<tr>${row.map((value) => `<td align="left">${escape(value)}</td>`).join("")}</tr>`).join("\n")}
+        </table>
+        </body>
+        </html>`;
+}
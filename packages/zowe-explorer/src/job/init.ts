@@ -15,9 +15,12 @@ import * as jobActions from "./actions";
 import * as refreshActions from "../shared/refresh";
 import { IZoweJobTreeNode, IZoweTreeNode, IZoweTree } from "@zowe/zowe-explorer-api";
 import { Profiles } from "../Profiles";
-import { createJobsTree } from "./ZosJobsProvider";
+import { createJobsTree, ZosJobsProvider } from "./ZosJobsProvider";
 import * as contextuals from "../shared/context";
 import { Job } from "./ZoweJobNode";
+import { JobChainNode } from "./JobChain";
+import { JobWatcher } from "./JobWatcher";
+import { SpoolSearchProvider } from "./SpoolSearchProvider";
 import { getSelectedNodeList } from "../shared/utils";
 import { initSubscribers } from "../shared/init";
 import { ZoweLogger } from "../utils/LoggerUtils";
@@ -169,6 +172,40 @@ export async function initJobsProvider(context: vscode.ExtensionContext): Promis
             await jobActions.cancelJobs(jobsProvider, getSelectedNodeList(node, nodeList));
         })
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.jobs.submitJobChain", async (node, nodeList) => {
+            await jobActions.submitJobChain(jobsProvider as ZosJobsProvider, getSelectedNodeList(node, nodeList));
+        })
+    );
+    context.subscriptions.push(vscode.commands.registerCommand("zowe.jobs.cancelJobChain", (node: JobChainNode): void => node.cancel()));
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.jobs.removeJobChain", (node: JobChainNode): void =>
+            (jobsProvider as ZosJobsProvider).removeJobChain(node)
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.jobs.toggleNotifications", (node: IZoweJobTreeNode) => JobWatcher.toggleNotifications(node))
+    );
+    const spoolSearchProvider = new SpoolSearchProvider();
+    context.subscriptions.push(vscode.window.createTreeView("zowe.jobs.spoolSearch", { treeDataProvider: spoolSearchProvider }), spoolSearchProvider);
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.jobs.searchSpool", async (node, nodeList) => {
+            await spoolSearchProvider.search(getSelectedNodeList(node, nodeList));
+        })
+    );
+    context.subscriptions.push(vscode.commands.registerCommand("zowe.jobs.clearSpoolSearch", (): void => spoolSearchProvider.clear()));
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.jobs.compareJobs", async (node, nodeList) => {
+            await jobActions.compareJobs(jobsProvider, node, nodeList);
+        })
+    );
+    context.subscriptions.push(vscode.commands.registerCommand("zowe.jobs.showStepSummary", async (node) => jobActions.showStepSummary(node)));
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.jobs.sortBy", async (node: Job): Promise<void> => (jobsProvider as ZosJobsProvider).sortBy(node))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.jobs.groupBy", async (node: Job): Promise<void> => (jobsProvider as ZosJobsProvider).groupBy(node))
+    );
 
     initSubscribers(context, jobsProvider);
     return jobsProvider;
@@ -9,6 +9,8 @@
  *
  */
 
+import * as zowe from "@zowe/cli";
+import * as globals from "../globals";
 import { ZoweLogger } from "../utils/LoggerUtils";
 import { FilterItem } from "../utils/ProfilesUtils";
 
@@ -19,3 +21,201 @@ export async function resolveQuickPickHelper(quickpick): Promise<FilterItem | un
         quickpick.onDidHide(() => c(undefined));
     });
 }
+
+export interface SpoolFilePair {
+    key: string;
+    left?: zowe.IJobFile;
+    right?: zowe.IJobFile;
+}
+
+/**
+ * Content of job output that changes from one run to the next, e.g. `JOB01234`, `12.30.45` or `18 OCT 2026`
+ */
+const VOLATILE_SPOOL_CONTENT = [
+    // Job numbers
+    /\b(?:JOB|STC|TSU)\d{5}\b|\b[JST]\d{7}\b/g,
+    // Times of day
+    /\b\d{1,2}[.:]\d{2}[.:]\d{2}(?:[.,]\d{1,6})?\b/g,
+    // Calendar and Julian dates, including the yyyyddd.hhmm start and stop times of IEF375I and IEF376I
+    /\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}\/\d{1,2}\/\d{2,4}\b|\b\d{2}(?:\d{2})?\.\d{3}\b|\b\d{7}\.\d{4}\b/g,
+    /\b\d{1,2} (?:JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)[A-Z]* \d{2,4}\b/gi,
+];
+
+/**
+ * Mask the digits of the job numbers, times and dates of spool content so that two runs of a job can be compared
+ *
+ * @param {string} content
+ * @returns {string}
+ */
+export function normalizeSpoolContent(content: string): string {
+    ZoweLogger.trace("job.utils.normalizeSpoolContent called.");
+    return VOLATILE_SPOOL_CONTENT.reduce((normalized, pattern) => normalized.replace(pattern, (match) => match.replace(/\d/g, "#")), content);
+}
+
+/**
+ * Pair the spool files of two jobs by step name, procedure step name and DD name.
+ * When a step writes the same DD more than once, the files are paired in the order they were written.
+ *
+ * @param {zowe.IJobFile[]} leftSpools
+ * @param {zowe.IJobFile[]} rightSpools
+ * @returns {SpoolFilePair[]} the pairs, a file without a match only has one side
+ */
+export function pairSpoolFiles(leftSpools: zowe.IJobFile[], rightSpools: zowe.IJobFile[]): SpoolFilePair[] {
+    ZoweLogger.trace("job.utils.pairSpoolFiles called.");
+    const pairs = new Map<string, SpoolFilePair>();
+    const addSpools = (spools: zowe.IJobFile[], side: "left" | "right"): void => {
+        const occurrences: Record<string, number> = {};
+        for (const spool of spools) {
+            const name = [spool.stepname, spool.procstep, spool.ddname].filter((segment) => segment?.length).join(":");
+            occurrences[name] = (occurrences[name] ?? 0) + 1;
+            const key = occurrences[name] > 1 ? `${name} (${occurrences[name]})` : name;
+            pairs.set(key, { key, ...pairs.get(key), [side]: spool });
+        }
+    };
+    addSpools(leftSpools, "left");
+    addSpools(rightSpools, "right");
+    return [...pairs.values()];
+}
+
+export interface IJobFilterCriteria {
+    jobClass?: string;
+    jobType?: string;
+    execMember?: string;
+    /** YYYY-MM-DD */
+    submittedFrom?: string;
+    /** YYYY-MM-DD */
+    submittedTo?: string;
+}
+
+export interface IJobSortOptions {
+    method: globals.JobSortMethod;
+    descending: boolean;
+}
+
+/**
+ * Sort and group options of the jobs of a session, persisted with the session name
+ */
+export interface IJobTreeOptions {
+    sort?: IJobSortOptions;
+    group?: globals.JobGroupMethod;
+}
+
+/**
+ * The execution data that z/OSMF returns with a job when it is requested with `exec-data=Y`
+ */
+type JobWithExecData = zowe.IJob & { "exec-submitted"?: string; "exec-member"?: string };
+
+/**
+ * Whether a job search needs the execution data of the jobs to apply the criteria
+ *
+ * @param {IJobFilterCriteria} criteria
+ * @returns {boolean}
+ */
+export function needsExecData(criteria: IJobFilterCriteria): boolean {
+    return [criteria.execMember, criteria.submittedFrom, criteria.submittedTo].some((value) => value && value !== "*");
+}
+
+/**
+ * Filter jobs by the search criteria that the JES APIs do not support.
+ * A criterion is ignored for a job that was returned without the attribute it applies to, as the FTP API does not return
+ * the execution data of the jobs for example.
+ *
+ * @param {zowe.IJob[]} jobs
+ * @param {IJobFilterCriteria} criteria
+ * @returns {zowe.IJob[]} the jobs that match all the criteria
+ */
+export function filterJobs(jobs: zowe.IJob[], criteria: IJobFilterCriteria): zowe.IJob[] {
+    ZoweLogger.trace("job.utils.filterJobs called.");
+    const isSet = (value: string): boolean => value != null && value.length > 0 && value !== "*";
+    const matches = (actual: string, expected: string): boolean =>
+        !isSet(expected) || actual == null || actual.toUpperCase() === expected.trim().toUpperCase();
+    const submittedDate = (job: JobWithExecData): string => {
+        if (job["exec-submitted"] == null) {
+            return undefined;
+        }
+        // Compare the dates in the local time zone, the time stamps of z/OSMF are in UTC
+        const date = new Date(job["exec-submitted"]);
+        const pad = (value: number): string => value.toString().padStart(2, "0");
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    };
+    return jobs.filter((job: JobWithExecData) => {
+        const submitted = submittedDate(job);
+        return (
+            matches(job.class, criteria.jobClass) &&
+            matches(job.type, criteria.jobType) &&
+            matches(job["exec-member"], criteria.execMember) &&
+            (!isSet(criteria.submittedFrom) || submitted == null || submitted >= criteria.submittedFrom) &&
+            (!isSet(criteria.submittedTo) || submitted == null || submitted <= criteria.submittedTo)
+        );
+    });
+}
+
+function compareJobIds(a: string, b: string): number {
+    // The number of JOB01234 and J0012345 job IDs are compared, as both formats can appear on the same system
+    const number = (jobid: string): number => Number(/\d+/.exec(jobid ?? "")?.[0] ?? -1);
+    return number(a) - number(b) || (a ?? "").localeCompare(b ?? "");
+}
+
+function compareReturnCodes(a: string, b: string): number {
+    // Condition codes are sorted by their value, then abends and errors by name, then the jobs that have not ended
+    const rank = (retcode: string): [number, string] => {
+        if (retcode == null) {
+            return [Number.MAX_SAFE_INTEGER, ""];
+        }
+        const conditionCode = /^CC (\d+)$/.exec(retcode.trim());
+        return conditionCode ? [Number(conditionCode[1]), ""] : [Number.MAX_SAFE_INTEGER - 1, retcode];
+    };
+    const [rankA, nameA] = rank(a);
+    const [rankB, nameB] = rank(b);
+    return rankA - rankB || nameA.localeCompare(nameB);
+}
+
+/**
+ * Sort job nodes, jobs that are equal for the sort method keep the order of their job IDs
+ *
+ * @param {T[]} nodes job nodes, nodes without a job are kept at the start
+ * @param {IJobSortOptions} options
+ * @returns {T[]} a sorted copy of the nodes
+ */
+export function sortJobs<T extends { job?: zowe.IJob }>(nodes: T[], options: IJobSortOptions): T[] {
+    ZoweLogger.trace("job.utils.sortJobs called.");
+    const compare = (a: JobWithExecData, b: JobWithExecData): number => {
+        switch (options.method) {
+            case globals.JobSortMethod.Name:
+                return a.jobname.localeCompare(b.jobname);
+            case globals.JobSortMethod.DateSubmitted:
+                return (a["exec-submitted"] ?? "").localeCompare(b["exec-submitted"] ?? "");
+            case globals.JobSortMethod.ReturnCode:
+                return compareReturnCodes(a.retcode, b.retcode);
+            case globals.JobSortMethod.Status:
+                return (a.status ?? "").localeCompare(b.status ?? "");
+            default:
+                return 0;
+        }
+    };
+    const direction = options.descending ? -1 : 1;
+    return [...nodes].sort((a, b) => {
+        if (a.job == null || b.job == null) {
+            return Number(a.job != null) - Number(b.job != null);
+        }
+        return direction * (compare(a.job, b.job) || compareJobIds(a.job.jobid, b.job.jobid));
+    });
+}
+
+/**
+ * Name of the group of a job
+ *
+ * @param {zowe.IJob} job
+ * @param {globals.JobGroupMethod} method
+ * @returns {string} the job name or status, undefined when the jobs are not grouped
+ */
+export function getJobGroupName(job: zowe.IJob, method: globals.JobGroupMethod): string | undefined {
+    switch (method) {
+        case globals.JobGroupMethod.Name:
+            return job.jobname;
+        case globals.JobGroupMethod.Status:
+            return job.status;
+        default:
+            return undefined;
+    }
+}
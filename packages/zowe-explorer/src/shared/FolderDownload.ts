@@ -0,0 +1,157 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { Gui } from "@zowe/zowe-explorer-api";
+import { getDefaultUri } from "./utils";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * A file to download to the local folder
+ */
+export interface IFolderDownloadItem {
+    // The name shown in the progress and in the errors, e.g. USER.LIB(MEMBER) or /u/user/file.txt
+    name: string;
+    // The path of the downloaded file, relative to the local folder
+    relativePath: string;
+    // Downloads the content to the given local file
+    download: (file: string) => Promise<unknown>;
+}
+
+// Number of failed items named in the error message, the others are only logged
+const MAX_LISTED_FAILURES = 5;
+
+/**
+ * Downloads data sets, members or USS files to a local folder that the user selects.
+ * The files are listed first, then downloaded one by one with a cancellable progress.
+ * An item that cannot be listed or downloaded does not stop the others, the failures are reported at the end.
+ *
+ * @export
+ * @class FolderDownload
+ */
+export class FolderDownload {
+    private items: IFolderDownloadItem[] = [];
+    private failures: string[] = [];
+    private downloaded = 0;
+
+    private constructor(public readonly token: vscode.CancellationToken) {}
+
+    /**
+     * Asks for the local folder and downloads the items listed by a callback to it
+     *
+     * @param {string} name the name of the PDS, profile or USS directory that is downloaded
+     * @param {(download: FolderDownload) => Promise<void>} listItems adds the files to download with `add`
+     */
+    public static async start(name: string, listItems: (download: FolderDownload) => Promise<void>): Promise<void> {
+        ZoweLogger.trace("FolderDownload.start called.");
+        const folderUri = await Gui.showOpenDialog({
+            openLabel: localize("downloadToFolder.select", "Download"),
+            canSelectFolders: true,
+            canSelectFiles: false,
+            canSelectMany: false,
+            defaultUri: getDefaultUri(),
+        });
+        if (!folderUri?.length) {
+            return;
+        }
+        const folder = folderUri[0].fsPath;
+        const download = await Gui.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: localize("downloadToFolder.progress", "Downloading {0}", name),
+                cancellable: true,
+            },
+            async (progress, token) => {
+                const folderDownload = new FolderDownload(token);
+                progress.report({ message: localize("downloadToFolder.listing", "Listing the files to download") });
+                await listItems(folderDownload);
+                await folderDownload.downloadAll(folder, progress);
+                return folderDownload;
+            }
+        );
+        download.showSummary(folder);
+    }
+
+    /**
+     * Adds a file to download
+     *
+     * @param {IFolderDownloadItem} item
+     */
+    public add(item: IFolderDownloadItem): void {
+        this.items.push(item);
+    }
+
+    /**
+     * Records an item that could not be listed or downloaded
+     *
+     * @param {string} name the name of the item
+     * @param {Error} err
+     */
+    public fail(name: string, err: Error): void {
+        ZoweLogger.error(`Unable to download ${name}: ${err?.message}`);
+        this.failures.push(name);
+    }
+
+    private async downloadAll(folder: string, progress: vscode.Progress<{ message?: string; increment?: number }>): Promise<void> {
+        for (const [index, item] of this.items.entries()) {
+            if (this.token.isCancellationRequested) {
+                return;
+            }
+            Gui.reportProgress(progress, this.items.length, index, localize("downloadToFolder.downloading", "Downloading"));
+            const file = path.join(folder, item.relativePath);
+            try {
+                fs.mkdirSync(path.dirname(file), { recursive: true });
+                await item.download(file);
+                this.downloaded++;
+            } catch (err) {
+                this.fail(item.name, err);
+            }
+        }
+    }
+
+    private showSummary(folder: string): void {
+        if (this.failures.length > 0) {
+            const names = this.failures.slice(0, MAX_LISTED_FAILURES).join(", ") + (this.failures.length > MAX_LISTED_FAILURES ? ", ..." : "");
+            Gui.errorMessage(
+                localize(
+                    "downloadToFolder.failures",
+                    "{0} items could not be downloaded to {1}: {2}. See the Zowe Explorer log for details.",
+                    this.failures.length,
+                    folder,
+                    names
+                )
+            );
+        }
+        if (this.token.isCancellationRequested) {
+            Gui.showMessage(
+                localize(
+                    "downloadToFolder.cancelled",
+                    "Download cancelled, {0} of {1} files were downloaded to {2}",
+                    this.downloaded,
+                    this.items.length,
+                    folder
+                )
+            );
+        } else if (this.failures.length === 0) {
+            Gui.showMessage(localize("downloadToFolder.success", "Downloaded {0} files to {1}", this.downloaded, folder));
+        }
+    }
+}
@@ -0,0 +1,495 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { imperative, IZosFilesResponse } from "@zowe/cli";
+import { Gui, IZoweDatasetTreeNode, IZoweUSSTreeNode } from "@zowe/zowe-explorer-api";
+import { isBinaryFileSync } from "isbinaryfile";
+import * as contextually from "./context";
+import { getDefaultUri } from "./utils";
+import { Profiles } from "../Profiles";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import { errorHandling } from "../utils/ProfilesUtils";
+import * as globals from "../globals";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * The state of a local file when it was last uploaded
+ */
+export interface ISyncedFile {
+    hash: string;
+    // The etag returned by the upload, used to detect the changes made on the mainframe since then
+    etag?: string;
+}
+
+/**
+ * A local folder synchronized with a PDS or a USS directory
+ */
+export interface ISyncMapping {
+    localFolder: string;
+    profileName: string;
+    // The PDS name or the USS directory path
+    remotePath: string;
+    type: "ds" | "uss";
+    pushOnSave: boolean;
+    // The uploaded files, keyed by their path relative to the local folder
+    files: { [relativePath: string]: ISyncedFile };
+}
+
+/**
+ * A local file that was added or changed since the last synchronization
+ */
+export interface ISyncChange {
+    relativePath: string;
+    // The member name, with the PDS name, or the USS path
+    remoteName: string;
+    hash: string;
+    added: boolean;
+    // Why the file cannot be uploaded, such files are only listed in the preview
+    conflict?: string;
+}
+
+// Number of failed files named in the error message, the others are only logged
+const MAX_LISTED_FAILURES = 5;
+const MEMBER_NAME_REGEX = /^[A-Z#@$][A-Z0-9#@$]{0,7}$/;
+
+/**
+ * Synchronizes local folders with PDSs and USS directories. The files of a folder synchronized with a PDS become
+ * its members, named after the files without their extension. Files that would not have a valid member name, or would have
+ * the same member name as another file, are not uploaded. The files and subdirectories of a folder synchronized with
+ * a USS directory are uploaded to it with the same structure. Files and folders whose name starts with a dot are ignored.
+ *
+ * The hash of each uploaded file is kept in the workspace state, so that only the files changed since the last
+ * synchronization are uploaded. The etag returned by each upload is sent with the next upload of the file, which fails
+ * when the member or USS file was changed on the mainframe in the meantime.
+ *
+ * @export
+ * @class FolderSync
+ */
+export class FolderSync {
+    public static readonly MAPPINGS_KEY = "zowe.folderSync.mappings";
+
+    private static state: vscode.Memento;
+
+    /**
+     * Restores the synchronized folders and starts pushing the files saved in them
+     *
+     * @param {vscode.ExtensionContext} context
+     */
+    public static initialize(context: vscode.ExtensionContext): void {
+        ZoweLogger.trace("FolderSync.initialize called.");
+        FolderSync.state = context.workspaceState;
+        context.subscriptions.push(vscode.workspace.onDidSaveTextDocument((doc) => FolderSync.pushOnSave(doc)));
+    }
+
+    /**
+     * Returns the local folders synchronized with PDSs and USS directories in this workspace
+     *
+     * @returns {ISyncMapping[]}
+     */
+    public static getMappings(): ISyncMapping[] {
+        return FolderSync.state?.get<ISyncMapping[]>(FolderSync.MAPPINGS_KEY) ?? [];
+    }
+
+    /**
+     * Synchronizes a local folder with a PDS or USS directory. The local folder is asked for the first time,
+     * then the changed files can be previewed or uploaded, and pushing the files on save can be turned on or off.
+     *
+     * @param {IZoweDatasetTreeNode | IZoweUSSTreeNode} node the PDS or USS directory node
+     */
+    public static async syncFolder(node: IZoweDatasetTreeNode | IZoweUSSTreeNode): Promise<void> {
+        ZoweLogger.trace("FolderSync.syncFolder called.");
+        const profile = node.getProfile();
+        const type = contextually.isPds(node) ? "ds" : "uss";
+        const remotePath = type === "ds" ? (node.getLabel() as string) : (node as IZoweUSSTreeNode).fullPath;
+        let mapping = FolderSync.getMappings().find(
+            (item) => item.profileName === profile.name && item.type === type && item.remotePath === remotePath
+        );
+        if (!mapping) {
+            const folderUri = await Gui.showOpenDialog({
+                openLabel: localize("syncFolder.select", "Synchronize"),
+                canSelectFolders: true,
+                canSelectFiles: false,
+                canSelectMany: false,
+                defaultUri: getDefaultUri(),
+            });
+            if (!folderUri?.length) {
+                return;
+            }
+            mapping = { localFolder: folderUri[0].fsPath, profileName: profile.name, remotePath, type, pushOnSave: false, files: {} };
+            await FolderSync.saveMapping(mapping);
+        }
+
+        const changes = FolderSync.getChanges(mapping);
+        const uploads = changes.filter((change) => change.conflict == null);
+        const uploadAction = localize("syncFolder.upload", "Upload {0} Changed Files", uploads.length);
+        const previewAction = localize("syncFolder.preview", "Preview Changes");
+        const pushOnSaveAction = mapping.pushOnSave
+            ? localize("syncFolder.pushOnSave.off", "Turn Off Push on Save")
+            : localize("syncFolder.pushOnSave.on", "Turn On Push on Save");
+        const stopAction = localize("syncFolder.stop", "Stop Synchronizing");
+        const action = await Gui.showQuickPick(
+            [...(uploads.length > 0 ? [uploadAction] : []), ...(changes.length > 0 ? [previewAction] : []), pushOnSaveAction, stopAction],
+            {
+                placeHolder: localize(
+                    "syncFolder.pickAction",
+                    "{0} is synchronized with {1}, {2} files changed since the last upload",
+                    remotePath,
+                    mapping.localFolder,
+                    changes.length
+                ),
+            }
+        );
+        switch (action) {
+            case uploadAction:
+                await FolderSync.uploadChanges(mapping, profile, uploads);
+                if (uploads.length < changes.length) {
+                    Gui.warningMessage(
+                        localize(
+                            "syncFolder.conflicts.skipped",
+                            "{0} files were not uploaded because of their member names. Preview the changes for details.",
+                            changes.length - uploads.length
+                        )
+                    );
+                }
+                break;
+            case previewAction:
+                await Gui.showQuickPick(
+                    changes.map((change) => ({
+                        label: change.relativePath,
+                        description: change.remoteName,
+                        detail: FolderSync.describeChange(change),
+                    })),
+                    { placeHolder: localize("syncFolder.preview.placeholder", "Dry run: these files would be uploaded to {0}", remotePath) }
+                );
+                break;
+            case pushOnSaveAction:
+                mapping.pushOnSave = !mapping.pushOnSave;
+                await FolderSync.saveMapping(mapping);
+                break;
+            case stopAction:
+                await FolderSync.removeMapping(mapping);
+                Gui.showMessage(localize("syncFolder.stopped", "{0} is no longer synchronized with {1}", mapping.localFolder, remotePath));
+                break;
+        }
+    }
+
+    /**
+     * Lists the local files added or changed since they were last uploaded
+     *
+     * @param {ISyncMapping} mapping
+     * @returns {ISyncChange[]}
+     */
+    public static getChanges(mapping: ISyncMapping): ISyncChange[] {
+        ZoweLogger.trace("FolderSync.getChanges called.");
+        const files = FolderSync.listFiles(mapping, mapping.localFolder);
+        const conflicts = FolderSync.getConflicts(mapping, files);
+        return files.map((file) => FolderSync.getChange(mapping, file, conflicts)).filter((change) => change != null);
+    }
+
+    private static getChange(mapping: ISyncMapping, file: string, conflicts: Map<string, string>): ISyncChange {
+        const relativePath = path.relative(mapping.localFolder, file);
+        const remoteName =
+            mapping.type === "ds"
+                ? `${mapping.remotePath}(${FolderSync.getMemberName(file)})`
+                : [mapping.remotePath.replace(/\/$/, ""), ...relativePath.split(path.sep)].join("/");
+        const hash = crypto.createHash("sha1").update(fs.readFileSync(file)).digest("hex");
+        const synced = mapping.files[relativePath];
+        const conflict = conflicts.get(relativePath);
+        if (conflict != null) {
+            return { relativePath, remoteName, hash, added: synced == null, conflict };
+        }
+        return synced?.hash === hash ? undefined : { relativePath, remoteName, hash, added: synced == null };
+    }
+
+    /**
+     * Finds the files of a folder synchronized with a PDS that cannot be uploaded: the files whose name is not a valid
+     * member name, and the files that have the same name without their extension
+     *
+     * @returns {Map<string, string>} why each file cannot be uploaded, keyed by its path relative to the local folder
+     */
+    private static getConflicts(mapping: ISyncMapping, files: string[]): Map<string, string> {
+        const conflicts = new Map<string, string>();
+        if (mapping.type !== "ds") {
+            return conflicts;
+        }
+        const filesByMember = new Map<string, string[]>();
+        for (const file of files) {
+            const relativePath = path.relative(mapping.localFolder, file);
+            const memberName = FolderSync.getMemberName(file);
+            if (memberName.length > globals.MAX_MEMBER_LENGTH) {
+                conflicts.set(
+                    relativePath,
+                    localize("syncFolder.conflict.tooLong", "{0} is longer than {1} characters", memberName, globals.MAX_MEMBER_LENGTH)
+                );
+            } else if (!MEMBER_NAME_REGEX.test(memberName)) {
+                conflicts.set(relativePath, localize("syncFolder.conflict.invalidName", "{0} is not a valid member name", memberName));
+            } else {
+                filesByMember.set(memberName, [...(filesByMember.get(memberName) ?? []), relativePath]);
+            }
+        }
+        for (const [memberName, sameNameFiles] of filesByMember) {
+            if (sameNameFiles.length > 1) {
+                for (const relativePath of sameNameFiles) {
+                    conflicts.set(
+                        relativePath,
+                        localize("syncFolder.conflict.sameName", "{0} would all be uploaded as {1}", sameNameFiles.join(", "), memberName)
+                    );
+                }
+            }
+        }
+        return conflicts;
+    }
+
+    private static getMemberName(file: string): string {
+        return path.parse(file).name.toUpperCase();
+    }
+
+    private static describeChange(change: ISyncChange): string {
+        if (change.conflict != null) {
+            return localize("syncFolder.preview.conflict", "Not uploaded: {0}", change.conflict);
+        }
+        return change.added ? localize("syncFolder.preview.added", "New") : localize("syncFolder.preview.modified", "Modified");
+    }
+
+    private static listFiles(mapping: ISyncMapping, folder: string): string[] {
+        const files: string[] = [];
+        for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+            if (entry.name.startsWith(".")) {
+                continue;
+            }
+            const file = path.join(folder, entry.name);
+            if (entry.isFile()) {
+                files.push(file);
+            } else if (entry.isDirectory() && mapping.type === "uss") {
+                files.push(...FolderSync.listFiles(mapping, file));
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Uploads the changed files with a cancellable progress. The files changed on the mainframe since they were
+     * last uploaded are not overwritten unless the user confirms it.
+     *
+     * @param {ISyncMapping} mapping
+     * @param {imperative.IProfileLoaded} profile
+     * @param {ISyncChange[]} changes
+     * @param {boolean} overwrite {optional} whether to overwrite the files changed on the mainframe
+     */
+    public static async uploadChanges(
+        mapping: ISyncMapping,
+        profile: imperative.IProfileLoaded,
+        changes: ISyncChange[],
+        overwrite?: boolean
+    ): Promise<void> {
+        ZoweLogger.trace("FolderSync.uploadChanges called.");
+        const failures: string[] = [];
+        const conflicts: ISyncChange[] = [];
+        let uploaded = 0;
+        await Gui.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: localize("syncFolder.progress", "Uploading {0} to {1}", mapping.localFolder, mapping.remotePath),
+                cancellable: true,
+            },
+            async (progress, token) => {
+                const knownDirectories = new Set<string>();
+                for (const [index, change] of changes.entries()) {
+                    if (token.isCancellationRequested) {
+                        return;
+                    }
+                    Gui.reportProgress(progress, changes.length, index, localize("syncFolder.uploading", "Uploading"));
+                    try {
+                        await FolderSync.upload(mapping, profile, change, overwrite, knownDirectories);
+                        uploaded++;
+                    } catch (err) {
+                        if (FolderSync.isConflict(err)) {
+                            conflicts.push(change);
+                        } else {
+                            ZoweLogger.error(`Unable to upload ${change.remoteName}: ${(err as Error)?.message}`);
+                            failures.push(change.remoteName);
+                        }
+                    }
+                }
+            }
+        );
+        await FolderSync.saveMapping(mapping);
+
+        if (failures.length > 0) {
+            const names = failures.slice(0, MAX_LISTED_FAILURES).join(", ") + (failures.length > MAX_LISTED_FAILURES ? ", ..." : "");
+            Gui.errorMessage(
+                localize(
+                    "syncFolder.failures",
+                    "{0} files could not be uploaded: {1}. See the Zowe Explorer log for details.",
+                    failures.length,
+                    names
+                )
+            );
+        }
+        if (conflicts.length > 0) {
+            const overwriteButton = localize("syncFolder.conflicts.overwrite", "Overwrite");
+            const selection = await Gui.warningMessage(
+                localize(
+                    "syncFolder.conflicts",
+                    "{0} were changed on the mainframe since they were last uploaded and were not uploaded.",
+                    conflicts.map((change) => change.remoteName).join(", ")
+                ),
+                { items: [overwriteButton] }
+            );
+            if (selection === overwriteButton) {
+                await FolderSync.uploadChanges(mapping, profile, conflicts, true);
+            }
+        }
+        if (uploaded > 0) {
+            Gui.showMessage(localize("syncFolder.success", "Uploaded {0} of {1} changed files to {2}", uploaded, changes.length, mapping.remotePath));
+        }
+    }
+
+    private static async upload(
+        mapping: ISyncMapping,
+        profile: imperative.IProfileLoaded,
+        change: ISyncChange,
+        overwrite: boolean,
+        knownDirectories: Set<string>
+    ): Promise<void> {
+        const localFile = path.join(mapping.localFolder, change.relativePath);
+        const etag = overwrite ? undefined : mapping.files[change.relativePath]?.etag;
+        let response: IZosFilesResponse;
+        if (mapping.type === "ds") {
+            response = await ZoweExplorerApiRegister.getMvsApi(profile).putContents(localFile, change.remoteName, {
+                encoding: profile.profile?.encoding,
+                responseTimeout: profile.profile?.responseTimeout,
+                etag,
+                returnEtag: true,
+            });
+        } else {
+            await FolderSync.createDirectories(mapping, profile, path.dirname(change.relativePath), knownDirectories);
+            response = await ZoweExplorerApiRegister.getUssApi(profile).putContents(
+                localFile,
+                change.remoteName,
+                isBinaryFileSync(localFile),
+                null,
+                etag,
+                true
+            );
+        }
+        if (!response?.success) {
+            throw new Error(response?.commandResponse);
+        }
+        mapping.files[change.relativePath] = {
+            hash: change.hash,
+            etag: mapping.type === "ds" ? response.apiResponse?.[0]?.etag : response.apiResponse?.etag,
+        };
+    }
+
+    /**
+     * Creates the USS directories of a local subfolder that do not exist yet, parents first
+     */
+    private static async createDirectories(
+        mapping: ISyncMapping,
+        profile: imperative.IProfileLoaded,
+        relativeFolder: string,
+        knownDirectories: Set<string>
+    ): Promise<void> {
+        const segments = relativeFolder === "." ? [] : relativeFolder.split(path.sep);
+        const ussApi = ZoweExplorerApiRegister.getUssApi(profile);
+        for (let depth = 1; depth <= segments.length; depth++) {
+            const relativeDirectory = segments.slice(0, depth).join(path.sep);
+            // The directories of the files already uploaded exist
+            if (knownDirectories.has(relativeDirectory) || Object.keys(mapping.files).some((file) => file.startsWith(relativeDirectory + path.sep))) {
+                continue;
+            }
+            const directory = [mapping.remotePath.replace(/\/$/, ""), ...segments.slice(0, depth)].join("/");
+            try {
+                await ussApi.fileList(directory);
+            } catch (err) {
+                await ussApi.create(directory, "directory");
+            }
+            knownDirectories.add(relativeDirectory);
+        }
+    }
+
+    /**
+     * Uploads a saved file when its folder is synchronized with push on save turned on
+     */
+    private static async pushOnSave(doc: vscode.TextDocument): Promise<void> {
+        const mapping = FolderSync.getMappings().find((item) => item.pushOnSave && FolderSync.isSynchronized(item, doc.fileName));
+        // The other files of a PDS folder are listed to find the files with the same member name
+        const conflicts =
+            mapping?.type === "ds" ? FolderSync.getConflicts(mapping, FolderSync.listFiles(mapping, mapping.localFolder)) : new Map<string, string>();
+        const change = mapping && FolderSync.getChange(mapping, doc.fileName, conflicts);
+        if (!change) {
+            return;
+        }
+        ZoweLogger.trace("FolderSync.pushOnSave called.");
+        if (change.conflict != null) {
+            Gui.warningMessage(localize("syncFolder.pushOnSave.conflict", "{0} was not uploaded: {1}", change.relativePath, change.conflict));
+            return;
+        }
+        let profile: imperative.IProfileLoaded;
+        try {
+            profile = Profiles.getInstance().loadNamedProfile(mapping.profileName);
+        } catch (err) {
+            await errorHandling(
+                err,
+                mapping.profileName,
+                localize("syncFolder.pushOnSave.error", "{0} was not uploaded to {1}", change.relativePath, mapping.remotePath)
+            );
+            return;
+        }
+        await FolderSync.uploadChanges(mapping, profile, [change]);
+    }
+
+    /**
+     * Checks that a local file is in the synchronized folder, or in one of its subfolders for a USS directory, and is not ignored
+     */
+    private static isSynchronized(mapping: ISyncMapping, file: string): boolean {
+        const relativePath = path.relative(mapping.localFolder, file);
+        const segments = relativePath.split(path.sep);
+        return (
+            !path.isAbsolute(relativePath) &&
+            segments.every((segment) => !segment.startsWith(".")) &&
+            (mapping.type === "uss" || segments.length === 1)
+        );
+    }
+
+    private static isConflict(err: Error): boolean {
+        return err?.message?.includes("Rest API failure with HTTP(S) status 412") === true;
+    }
+
+    private static async saveMapping(mapping: ISyncMapping): Promise<void> {
+        const mappings = FolderSync.getMappings().filter((item) => !FolderSync.isSameMapping(item, mapping));
+        await FolderSync.state?.update(FolderSync.MAPPINGS_KEY, [...mappings, mapping]);
+    }
+
+    private static async removeMapping(mapping: ISyncMapping): Promise<void> {
+        await FolderSync.state?.update(
+            FolderSync.MAPPINGS_KEY,
+            FolderSync.getMappings().filter((item) => !FolderSync.isSameMapping(item, mapping))
+        );
+    }
+
+    private static isSameMapping(a: ISyncMapping, b: ISyncMapping): boolean {
+        return a.profileName === b.profileName && a.type === b.type && a.remotePath === b.remotePath;
+    }
+}
@@ -0,0 +1,269 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { imperative } from "@zowe/cli";
+import { Gui, IZoweDatasetTreeNode, IZoweUSSTreeNode } from "@zowe/zowe-explorer-api";
+import * as globals from "../globals";
+import * as contextually from "./context";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
+import { getDocumentFilePath } from "./utils";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import { errorHandling } from "../utils/ProfilesUtils";
+import { SettingsConfig } from "../utils/SettingsConfig";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * A previous version of a data set or USS file, kept in the local history
+ */
+export interface ILocalVersion {
+    savedAt: Date;
+    file: string;
+}
+
+const DEFAULT_MAX_ENTRIES = 20;
+
+/**
+ * Keeps the previous versions of the data sets, members and USS files that are saved, so that the
+ * content replaced by an upload can be compared with the current version and restored.
+ *
+ * The versions of each file are kept in their own folder of the global storage, named after the profile
+ * and the data set name or USS path. The number of versions kept is set by the `zowe.files.localHistory.maxEntries` setting.
+ *
+ * @export
+ * @class LocalHistory
+ */
+export class LocalHistory {
+    public static readonly scheme = "zowe-history";
+
+    private static historyFolder: string;
+    // Contents of the compared versions, keyed by the path and query of their URI
+    private static documents = new Map<string, string>();
+
+    /**
+     * Sets the folder of the history and registers the provider of the compared versions
+     *
+     * @param {vscode.ExtensionContext} context
+     */
+    public static initialize(context: vscode.ExtensionContext): void {
+        ZoweLogger.trace("LocalHistory.initialize called.");
+        if (context.globalStorageUri) {
+            LocalHistory.historyFolder = path.join(context.globalStorageUri.fsPath, "localHistory");
+        }
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(LocalHistory.scheme, {
+                provideTextDocumentContent: (uri: vscode.Uri) => LocalHistory.documents.get(`${uri.path}?${uri.query}`),
+            })
+        );
+    }
+
+    /**
+     * Returns the previous versions of a data set or USS file
+     *
+     * @param {string} profileName
+     * @param {string} remoteName the data set name, with the member name in parentheses, or the USS path
+     * @returns {ILocalVersion[]} the versions, the most recent first
+     */
+    public static getVersions(profileName: string, remoteName: string): ILocalVersion[] {
+        ZoweLogger.trace("LocalHistory.getVersions called.");
+        const folder = LocalHistory.getFolder(profileName, remoteName);
+        if (!folder || !fs.existsSync(folder)) {
+            return [];
+        }
+        return fs
+            .readdirSync(folder)
+            .filter((name) => /^\d+$/.test(name))
+            .sort((a, b) => Number(b) - Number(a))
+            .map((name) => ({ savedAt: new Date(Number(name)), file: path.join(folder, name) }));
+    }
+
+    /**
+     * Adds the version of a data set or USS file that is about to be replaced to the history.
+     * The version is downloaded when its content is not known, and is not added when it is the same as the last version.
+     * Keeping the history must never prevent an upload, so the errors are only logged.
+     *
+     * @param {imperative.IProfileLoaded} profile
+     * @param {string} remoteName the data set name, with the member name in parentheses, or the USS path
+     * @param {string} content {optional} the content that was last downloaded
+     * @param {boolean} binary {optional} whether the USS file is downloaded in binary mode
+     */
+    public static async saveVersion(profile: imperative.IProfileLoaded, remoteName: string, content?: string, binary?: boolean): Promise<void> {
+        ZoweLogger.trace("LocalHistory.saveVersion called.");
+        const folder = LocalHistory.getFolder(profile.name, remoteName);
+        const maxEntries = SettingsConfig.getDirectValue<number>(globals.SETTINGS_FILES_LOCAL_HISTORY_MAX_ENTRIES) ?? DEFAULT_MAX_ENTRIES;
+        if (!folder || maxEntries <= 0) {
+            return;
+        }
+        try {
+            const versions = LocalHistory.getVersions(profile.name, remoteName);
+            // A version saved in the same millisecond is replaced
+            const file = path.join(folder, Date.now().toString());
+            fs.mkdirSync(folder, { recursive: true });
+            if (content == null) {
+                await LocalHistory.download(profile, remoteName, file, binary);
+            } else {
+                fs.writeFileSync(file, content);
+            }
+            if (versions.length > 0 && versions[0].file !== file && fs.readFileSync(versions[0].file).equals(fs.readFileSync(file))) {
+                fs.unlinkSync(file);
+                return;
+            }
+            versions
+                .filter((version) => version.file !== file)
+                .slice(maxEntries - 1)
+                .forEach((version) => fs.unlinkSync(version.file));
+        } catch (err) {
+            ZoweLogger.warn(`Unable to save the previous version of ${remoteName} in the local history: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Lists the previous versions of a data set, member or USS file, to compare one of them with the
+     * current version on the mainframe or to restore it
+     *
+     * @param {IZoweDatasetTreeNode | IZoweUSSTreeNode} node
+     */
+    public static async showHistory(node: IZoweDatasetTreeNode | IZoweUSSTreeNode): Promise<void> {
+        ZoweLogger.trace("LocalHistory.showHistory called.");
+        const profile = node.getProfile();
+        const remoteName = LocalHistory.getRemoteName(node);
+        const binary = remoteName.startsWith("/") ? (node as IZoweUSSTreeNode).binary : undefined;
+
+        const versions = LocalHistory.getVersions(profile.name, remoteName);
+        if (versions.length === 0) {
+            Gui.infoMessage(localize("showHistory.empty", "There is no local history for {0}", remoteName));
+            return;
+        }
+        const version = await Gui.showQuickPick(
+            versions.map((item) => ({ label: item.savedAt.toLocaleString(), version: item })),
+            { placeHolder: localize("showHistory.pickVersion", "Select a previous version of {0}", remoteName) }
+        );
+        if (!version) {
+            return;
+        }
+        const compareAction = localize("showHistory.compare", "Compare with Current Version");
+        const restoreAction = localize("showHistory.restore", "Restore");
+        const action = await Gui.showQuickPick([compareAction, restoreAction], {
+            placeHolder: localize("showHistory.pickAction", "Select what to do with the version saved on {0}", version.label),
+        });
+
+        try {
+            if (action === compareAction) {
+                await LocalHistory.compare(profile, remoteName, version.version, binary);
+            } else if (action === restoreAction) {
+                await LocalHistory.restore(node, remoteName, version.version, binary);
+            }
+        } catch (err) {
+            await errorHandling(err, profile.name, localize("showHistory.error", "Unable to use the local history of {0}", remoteName));
+        }
+    }
+
+    private static async compare(profile: imperative.IProfileLoaded, remoteName: string, version: ILocalVersion, binary: boolean): Promise<void> {
+        const current = path.join(path.dirname(version.file), "current");
+        await LocalHistory.download(profile, remoteName, current, binary);
+        const segments = [profile.name, ...remoteName.split("/").filter((segment) => segment.length > 0)];
+        const [versionUri, currentUri] = [version.savedAt.getTime().toString(), "current"].map((query) =>
+            vscode.Uri.from({ scheme: LocalHistory.scheme, path: `/${segments.join("/")}`, query })
+        );
+        LocalHistory.documents.set(`${versionUri.path}?${versionUri.query}`, fs.readFileSync(version.file).toString());
+        LocalHistory.documents.set(`${currentUri.path}?${currentUri.query}`, fs.readFileSync(current).toString());
+        fs.unlinkSync(current);
+        await vscode.commands.executeCommand(
+            "vscode.diff",
+            versionUri,
+            currentUri,
+            localize("showHistory.diffTitle", "{0} ({1}) ↔ Current Version", path.basename(versionUri.path), version.savedAt.toLocaleString())
+        );
+    }
+
+    private static async restore(
+        node: IZoweDatasetTreeNode | IZoweUSSTreeNode,
+        remoteName: string,
+        version: ILocalVersion,
+        binary: boolean
+    ): Promise<void> {
+        const profile = node.getProfile();
+        const restoreButton = localize("showHistory.restore", "Restore");
+        const selection = await Gui.warningMessage(
+            localize(
+                "restore.confirmation",
+                "Are you sure you want to replace {0} with the version saved on {1}? The current version is kept in the local history.",
+                remoteName,
+                version.savedAt.toLocaleString()
+            ),
+            { items: [restoreButton], vsCodeOpts: { modal: true } }
+        );
+        if (selection !== restoreButton) {
+            return;
+        }
+
+        // The current version is kept first, so that the restore can be undone
+        await LocalHistory.saveVersion(profile, remoteName, undefined, binary);
+        const isUss = remoteName.startsWith("/");
+        if (isUss) {
+            await ZoweExplorerApiRegister.getUssApi(profile).putContents(version.file, remoteName, binary);
+        } else {
+            await ZoweExplorerApiRegister.getMvsApi(profile).putContents(version.file, remoteName, {
+                encoding: profile.profile?.encoding,
+                responseTimeout: profile.profile?.responseTimeout,
+            });
+        }
+        Gui.showMessage(localize("restore.success", "Restored {0} to the version saved on {1}", remoteName, version.savedAt.toLocaleString()));
+
+        // Refresh the open editors of the file to show the restored version
+        const localPath = isUss ? (node as IZoweUSSTreeNode).getUSSDocumentFilePath() : getDocumentFilePath(remoteName, node);
+        if (vscode.workspace.textDocuments.some((doc) => doc.fileName === localPath)) {
+            await vscode.commands.executeCommand(isUss ? "zowe.uss.refreshUSS" : "zowe.ds.refreshNode", node);
+        }
+    }
+
+    private static async download(profile: imperative.IProfileLoaded, remoteName: string, file: string, binary?: boolean): Promise<void> {
+        const options = {
+            file,
+            binary,
+            encoding: profile.profile?.encoding,
+            responseTimeout: profile.profile?.responseTimeout,
+        };
+        if (remoteName.startsWith("/")) {
+            await ZoweExplorerApiRegister.getUssApi(profile).getContents(remoteName, options);
+        } else {
+            await ZoweExplorerApiRegister.getMvsApi(profile).getContents(remoteName, options);
+        }
+    }
+
+    private static getRemoteName(node: IZoweDatasetTreeNode | IZoweUSSTreeNode): string {
+        if (contextually.isDsMember(node)) {
+            return `${node.getParent().getLabel() as string}(${node.getLabel() as string})`;
+        }
+        return contextually.isDs(node) ? (node.getLabel() as string) : (node as IZoweUSSTreeNode).fullPath;
+    }
+
+    private static getFolder(profileName: string, remoteName: string): string {
+        if (!LocalHistory.historyFolder) {
+            return undefined;
+        }
+        const key = crypto
+            .createHash("sha1")
+            .update(JSON.stringify([profileName, remoteName]))
+            .digest("hex");
+        return path.join(LocalHistory.historyFolder, key);
+    }
+}
@@ -0,0 +1,157 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as path from "path";
+import * as vscode from "vscode";
+import * as globals from "../globals";
+import { Gui } from "@zowe/zowe-explorer-api";
+import { PendingUpload, ZoweSaveQueue } from "../abstract/ZoweSaveQueue";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * Tree item representing a saved file that has not been uploaded yet
+ *
+ * @export
+ * @class PendingUploadNode
+ */
+export class PendingUploadNode extends vscode.TreeItem {
+    public constructor(public readonly upload: PendingUpload) {
+        super(path.basename(upload.fileName), vscode.TreeItemCollapsibleState.None);
+        this.contextValue = globals.PENDING_UPLOAD_CONTEXT;
+        this.description = PendingUploadNode.getStatusText(upload);
+        this.tooltip = upload.lastError ? `${upload.fileName}\n${upload.lastError}` : upload.fileName;
+        this.command = {
+            command: "zowe.pendingUploads.diff",
+            title: localize("pendingUploads.diff", "Compare with Downloaded Version"),
+            arguments: [this],
+        };
+    }
+
+    private static getStatusText(upload: PendingUpload): string {
+        switch (upload.status) {
+            case "retrying":
+                return localize("pendingUploads.status.retrying", "Retrying ({0} of {1})", upload.attempts, globals.SAVE_QUEUE_MAX_RETRIES);
+            case "failed":
+                return localize("pendingUploads.status.failed", "Failed");
+            case "interrupted":
+                return localize("pendingUploads.status.interrupted", "Not uploaded before the window was closed");
+            case "queued":
+            default:
+                return localize("pendingUploads.status.queued", "Uploading");
+        }
+    }
+}
+
+/**
+ * Provides the "Pending Uploads" view, listing the saves that are still in the save queue or that failed to upload,
+ * and the contents of these saves for comparison with the version that was downloaded.
+ *
+ * @export
+ * @class PendingUploadsProvider
+ */
+export class PendingUploadsProvider implements vscode.TreeDataProvider<PendingUploadNode>, vscode.TextDocumentContentProvider {
+    public static scheme = "zowe-pending-upload";
+    public static readonly VISIBLE_CONTEXT_KEY = "zowe.pendingUploads.visible";
+
+    private mOnDidChangeTreeData = new vscode.EventEmitter<PendingUploadNode | undefined>();
+    public readonly onDidChangeTreeData = this.mOnDidChangeTreeData.event;
+
+    public constructor() {
+        ZoweSaveQueue.onDidChangePendingUploads(() => this.refresh());
+    }
+
+    /**
+     * Build the URI used to show the downloaded or the saved contents of a pending upload
+     *
+     * @param {PendingUpload} upload
+     * @param {"base" | "pending"} version
+     * @returns {vscode.Uri}
+     */
+    public static buildUri(upload: PendingUpload, version: "base" | "pending"): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: PendingUploadsProvider.scheme,
+            path: `/${path.basename(upload.fileName)}`,
+            query: JSON.stringify([upload.fileName, version]),
+        });
+    }
+
+    public refresh(): void {
+        ZoweLogger.trace("PendingUploadsProvider.refresh called.");
+        vscode.commands.executeCommand("setContext", PendingUploadsProvider.VISIBLE_CONTEXT_KEY, ZoweSaveQueue.getPendingUploads().length > 0);
+        this.mOnDidChangeTreeData.fire(undefined);
+    }
+
+    public getTreeItem(element: PendingUploadNode): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(): PendingUploadNode[] {
+        ZoweLogger.trace("PendingUploadsProvider.getChildren called.");
+        return ZoweSaveQueue.getPendingUploads().map((upload) => new PendingUploadNode(upload));
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        ZoweLogger.trace("PendingUploadsProvider.provideTextDocumentContent called.");
+        const [fileName, version] = JSON.parse(uri.query) as [string, string];
+        const upload = ZoweSaveQueue.getPendingUploads().find((pending) => pending.fileName === fileName);
+        return (version === "base" ? upload?.baseContent : upload?.content) ?? "";
+    }
+
+    /**
+     * Compare the saved contents of a pending upload with the version that was downloaded before it was edited
+     *
+     * @param {PendingUploadNode} node
+     */
+    public async showDiff(node: PendingUploadNode): Promise<void> {
+        ZoweLogger.trace("PendingUploadsProvider.showDiff called.");
+        const fileName = path.basename(node.upload.fileName);
+        await vscode.commands.executeCommand(
+            "vscode.diff",
+            PendingUploadsProvider.buildUri(node.upload, "base"),
+            PendingUploadsProvider.buildUri(node.upload, "pending"),
+            localize("pendingUploads.diff.title", "{0} (Downloaded) ↔ {0} (Pending Upload)", fileName),
+            { preview: true }
+        );
+    }
+
+    /**
+     * Remove a pending upload after confirmation, the saved contents are not uploaded
+     *
+     * @param {PendingUploadNode} node
+     */
+    public async discard(node: PendingUploadNode): Promise<void> {
+        ZoweLogger.trace("PendingUploadsProvider.discard called.");
+        const discardButton = localize("pendingUploads.discard.confirm", "Discard");
+        const selection = await Gui.warningMessage(
+            localize(
+                "pendingUploads.discard.message",
+                "The changes saved to {0} will not be uploaded to the mainframe. Do you want to continue?",
+                path.basename(node.upload.fileName)
+            ),
+            { items: [discardButton], vsCodeOpts: { modal: true } }
+        );
+        if (selection === discardButton) {
+            ZoweSaveQueue.discard(node.upload.fileName);
+        }
+    }
+
+    public dispose(): void {
+        this.mOnDidChangeTreeData.dispose();
+    }
+}
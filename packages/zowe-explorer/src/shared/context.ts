@@ -281,6 +281,15 @@ export function isUssDirectory(node: TreeItem): boolean {
     return new RegExp("^" + globals.USS_DIR_CONTEXT).test(node.contextValue);
 }
 
+/**
+ * Helper function which identifies if the node is a USS symbolic link
+ * @param node
+ * @return true if a USS symbolic link, false otherwise
+ */
+export function isUssSymlink(node: TreeItem): boolean {
+    return new RegExp("(^" + globals.USS_SYMLINK_CONTEXT + "|" + globals.SYMLINK_SUFFIX + ")").test(node.contextValue);
+}
+
 /**
  * Helper function which identifies if the node is a USS session
  * @param node
@@ -296,7 +305,18 @@ export function isUssSession(node: TreeItem): boolean {
  * @return true if a folder, false otherwise
  */
 export function isFolder(node: TreeItem): boolean {
-    return new RegExp("^(" + globals.JOBS_JOB_CONTEXT + "|" + globals.USS_DIR_CONTEXT + "|" + globals.DS_PDS_CONTEXT + ")").test(node.contextValue);
+    return new RegExp(
+        "^(" + globals.JOBS_JOB_CONTEXT + "|" + globals.JOBS_GROUP_CONTEXT + "|" + globals.USS_DIR_CONTEXT + "|" + globals.DS_PDS_CONTEXT + ")"
+    ).test(node.contextValue);
+}
+
+/**
+ * Helper function which identifies if the node groups the jobs of a session
+ * @param node
+ * @return true if a group of jobs, false otherwise
+ */
+export function isJobGroup(node: TreeItem): boolean {
+    return new RegExp("^" + globals.JOBS_GROUP_CONTEXT).test(node.contextValue);
 }
 
 /**
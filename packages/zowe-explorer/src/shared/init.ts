@@ -14,7 +14,7 @@ import * as vscode from "vscode";
 import * as refreshActions from "./refresh";
 import * as nls from "vscode-nls";
 import * as sharedActions from "./actions";
-import { getZoweDir, IZoweTree, IZoweTreeNode } from "@zowe/zowe-explorer-api";
+import { getZoweDir, Gui, IZoweTree, IZoweTreeNode } from "@zowe/zowe-explorer-api";
 import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
 import { Profiles } from "../Profiles";
 import { hideTempFolder, moveTempFolder } from "../utils/TempFolder";
@@ -27,6 +27,10 @@ import { ZoweLogger } from "../utils/LoggerUtils";
 import { ZoweSaveQueue } from "../abstract/ZoweSaveQueue";
 import { SettingsConfig } from "../utils/SettingsConfig";
 import { spoolFilePollEvent } from "../job/actions";
+import { DatasetFSProvider } from "../dataset/DatasetFSProvider";
+import { UssFSProvider } from "../uss/UssFSProvider";
+import { PendingUploadNode, PendingUploadsProvider } from "./PendingUploadsProvider";
+import { OfflineCache } from "../utils/OfflineCache";
 
 // Set up localization
 nls.config({
@@ -64,6 +68,14 @@ export function registerRefreshCommand(
     );
 }
 
+export function registerFileSystemProviders(context: vscode.ExtensionContext): void {
+    ZoweLogger.trace("shared.init.registerFileSystemProviders called.");
+    context.subscriptions.push(
+        vscode.workspace.registerFileSystemProvider(DatasetFSProvider.scheme, DatasetFSProvider.instance, { isCaseSensitive: false }),
+        vscode.workspace.registerFileSystemProvider(UssFSProvider.scheme, UssFSProvider.instance, { isCaseSensitive: true })
+    );
+}
+
 export function registerCommonCommands(context: vscode.ExtensionContext, providers: IZoweProviders): void {
     ZoweLogger.trace("shared.init.registerCommonCommands called.");
     context.subscriptions.push(
@@ -132,6 +144,7 @@ export function registerCommonCommands(context: vscode.ExtensionContext, provide
                 sharedActions.searchInAllLoadedItems(providers.ds, providers.uss)
             )
         );
+        context.subscriptions.push(vscode.commands.registerCommand("zowe.clearOfflineCache", () => OfflineCache.clear()));
         context.subscriptions.push(
             vscode.workspace.onDidSaveTextDocument((savedFile) => {
                 ZoweLogger.debug(
@@ -145,21 +158,45 @@ export function registerCommonCommands(context: vscode.ExtensionContext, provide
                         localize("onDidSaveTextDocument3", "and") +
                         globals.USS_DIR
                 );
-                if (savedFile.fileName.toUpperCase().indexOf(globals.DS_DIR.toUpperCase()) >= 0) {
-                    ZoweLogger.debug(localize("activate.didSaveText.isDataSet", "File is a data set-- saving "));
-                    ZoweSaveQueue.push({ uploadRequest: saveFile, savedFile, fileProvider: providers.ds });
-                } else if (savedFile.fileName.toUpperCase().indexOf(globals.USS_DIR.toUpperCase()) >= 0) {
-                    ZoweLogger.debug(localize("activate.didSaveText.isUSSFile", "File is a USS file -- saving"));
-                    ZoweSaveQueue.push({ uploadRequest: saveUSSFile, savedFile, fileProvider: providers.uss });
-                } else {
-                    ZoweLogger.debug(
-                        localize("activate.didSaveText.file", "File ") +
-                            savedFile.fileName +
-                            localize("activate.didSaveText.notDataSet", " is not a data set or USS file ")
-                    );
-                }
+                queueSaveRequest(savedFile, providers);
             })
         );
+
+        ZoweSaveQueue.initialize(context.globalState);
+        const pendingUploadsProvider = new PendingUploadsProvider();
+        context.subscriptions.push(
+            vscode.window.createTreeView("zowe.pendingUploads", { treeDataProvider: pendingUploadsProvider }),
+            vscode.workspace.registerTextDocumentContentProvider(PendingUploadsProvider.scheme, pendingUploadsProvider),
+            pendingUploadsProvider
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand("zowe.pendingUploads.retry", async (node: PendingUploadNode) =>
+                queueSaveRequest(await ZoweSaveQueue.restoreDocument(node.upload), providers)
+            )
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand("zowe.pendingUploads.discard", async (node: PendingUploadNode) => pendingUploadsProvider.discard(node))
+        );
+        context.subscriptions.push(
+            vscode.commands.registerCommand("zowe.pendingUploads.diff", async (node: PendingUploadNode) => pendingUploadsProvider.showDiff(node))
+        );
+        pendingUploadsProvider.refresh();
+        const interruptedUploads = ZoweSaveQueue.getPendingUploads().length;
+        if (interruptedUploads > 0) {
+            const showButton = localize("pendingUploads.interrupted.show", "Show Pending Uploads");
+            Gui.warningMessage(
+                localize(
+                    "pendingUploads.interrupted.message",
+                    "{0} saved file(s) were not uploaded to the mainframe before the window was closed.",
+                    interruptedUploads
+                ),
+                { items: [showButton] }
+            ).then((selection) => {
+                if (selection === showButton) {
+                    vscode.commands.executeCommand("zowe.pendingUploads.focus");
+                }
+            });
+        }
     }
     if (providers.ds || providers.uss || providers.job) {
         context.subscriptions.push(
@@ -203,6 +240,27 @@ export function registerCommonCommands(context: vscode.ExtensionContext, provide
     }
 }
 
+/**
+ * Queue the upload of a saved file if it belongs to the data set or USS temporary folder
+ * @param {vscode.TextDocument} savedFile - the document that was saved
+ * @param {IZoweProviders} providers - the tree providers used to locate the nodes of the saved file
+ */
+function queueSaveRequest(savedFile: vscode.TextDocument, providers: IZoweProviders): void {
+    if (savedFile.fileName.toUpperCase().indexOf(globals.DS_DIR.toUpperCase()) >= 0) {
+        ZoweLogger.debug(localize("activate.didSaveText.isDataSet", "File is a data set-- saving "));
+        ZoweSaveQueue.push({ uploadRequest: saveFile, savedFile, fileProvider: providers.ds });
+    } else if (savedFile.fileName.toUpperCase().indexOf(globals.USS_DIR.toUpperCase()) >= 0) {
+        ZoweLogger.debug(localize("activate.didSaveText.isUSSFile", "File is a USS file -- saving"));
+        ZoweSaveQueue.push({ uploadRequest: saveUSSFile, savedFile, fileProvider: providers.uss });
+    } else {
+        ZoweLogger.debug(
+            localize("activate.didSaveText.file", "File ") +
+                savedFile.fileName +
+                localize("activate.didSaveText.notDataSet", " is not a data set or USS file ")
+        );
+    }
+}
+
 export function watchConfigProfile(context: vscode.ExtensionContext, providers: IZoweProviders): void {
     ZoweLogger.trace("shared.init.watchConfigProfile called.");
     const watchers: vscode.FileSystemWatcher[] = [];
@@ -0,0 +1,237 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+// Three-way merge of the local and remote versions of a downloaded file, used to resolve etag mismatches on save.
+
+import * as fs from "fs";
+import * as path from "path";
+import { ZoweLogger } from "../utils/LoggerUtils";
+
+export const CONFLICT_START = "<<<<<<<";
+export const CONFLICT_BASE = "|||||||";
+export const CONFLICT_SEPARATOR = "=======";
+export const CONFLICT_END = ">>>>>>>";
+
+export interface IMergeLabels {
+    local: string;
+    base: string;
+    remote: string;
+}
+
+export interface IMergeResult {
+    content: string;
+    conflicts: number;
+}
+
+// Contents of the files as they were last downloaded from the mainframe, keyed by local file path
+const baseContents = new Map<string, string>();
+
+// Number of edits after which the texts are considered entirely different, to bound the time and memory of the diff
+const MAX_DIFF_EDITS = 1000;
+
+/**
+ * Stores the version of a file that was downloaded from the mainframe, to be used as the
+ * common ancestor when the remote file changes before the local edits are uploaded
+ * @param {string} filePath - local path of the downloaded file
+ * @param {string} content - {optional} downloaded content, read from the file when omitted
+ */
+export function setBaseContent(filePath: string, content?: string): void {
+    ZoweLogger.trace("shared.merge.setBaseContent called.");
+    try {
+        baseContents.set(path.normalize(filePath), content ?? fs.readFileSync(filePath).toString());
+    } catch (err) {
+        ZoweLogger.warn(err);
+        baseContents.delete(path.normalize(filePath));
+    }
+}
+
+/**
+ * Returns the version of a file that was last downloaded from the mainframe
+ * @param {string} filePath - local path of the downloaded file
+ * @returns {string | undefined}
+ */
+export function getBaseContent(filePath: string): string | undefined {
+    return baseContents.get(path.normalize(filePath));
+}
+
+/**
+ * Checks whether the text still contains unresolved conflict markers
+ * @param {string} text
+ * @returns {boolean}
+ */
+export function hasConflictMarkers(text: string): boolean {
+    return splitLines(text).some((line) => line.startsWith(CONFLICT_START) || line.startsWith(CONFLICT_END));
+}
+
+/**
+ * Merges the local and remote versions of a file against their common ancestor.
+ * Changes made on only one side are applied automatically, overlapping changes are written
+ * with conflict markers that can be resolved hunk by hunk in the editor.
+ * When the common ancestor is unknown, every difference is reported as a conflict.
+ * @param {string | undefined} base - version that was downloaded before the local edits
+ * @param {string} local - version with the local edits
+ * @param {string} remote - version currently on the mainframe
+ * @param {IMergeLabels} labels - text written after the conflict markers
+ * @returns {IMergeResult}
+ */
+export function mergeContents(base: string | undefined, local: string, remote: string, labels: IMergeLabels): IMergeResult {
+    ZoweLogger.trace("shared.merge.mergeContents called.");
+    const eol = local.includes("\r\n") ? "\r\n" : "\n";
+    const localLines = splitLines(local);
+    const remoteLines = splitLines(remote);
+    const baseLines = base === undefined ? localLines : splitLines(base);
+    const localMatches = new Map(diffMatches(baseLines, localLines));
+    const remoteMatches = new Map(diffMatches(baseLines, remoteLines));
+
+    const merged: string[] = [];
+    let conflicts = 0;
+    let [b, l, r] = [0, 0, 0];
+    while (b < baseLines.length || l < localLines.length || r < remoteLines.length) {
+        // Find the next base line that is kept by both sides
+        let nextB = b;
+        while (nextB < baseLines.length && !(localMatches.has(nextB) && remoteMatches.has(nextB))) {
+            nextB++;
+        }
+        const nextL = nextB < baseLines.length ? localMatches.get(nextB) : localLines.length;
+        const nextR = nextB < baseLines.length ? remoteMatches.get(nextB) : remoteLines.length;
+
+        const chunk = mergeChunk(baseLines.slice(b, nextB), localLines.slice(l, nextL), remoteLines.slice(r, nextR), base !== undefined, labels);
+        merged.push(...chunk);
+        if (chunk.length > 0 && chunk[0].startsWith(CONFLICT_START)) {
+            conflicts++;
+        }
+
+        if (nextB < baseLines.length) {
+            merged.push(baseLines[nextB]);
+        }
+        [b, l, r] = [nextB + 1, nextL + 1, nextR + 1];
+    }
+
+    return { content: merged.join(eol), conflicts };
+}
+
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+/**
+ * Resolves the lines changed between two lines kept by both sides
+ * @returns {string[]} the lines of the side that changed, or the lines of both sides with conflict markers
+ */
+function mergeChunk(baseChunk: string[], localChunk: string[], remoteChunk: string[], hasBase: boolean, labels: IMergeLabels): string[] {
+    if (hasBase && sameLines(localChunk, baseChunk)) {
+        return remoteChunk;
+    }
+    if ((hasBase && sameLines(remoteChunk, baseChunk)) || sameLines(localChunk, remoteChunk)) {
+        return localChunk;
+    }
+    const conflict = [`${CONFLICT_START} ${labels.local}`, ...localChunk];
+    if (hasBase) {
+        conflict.push(`${CONFLICT_BASE} ${labels.base}`, ...baseChunk);
+    }
+    conflict.push(CONFLICT_SEPARATOR, ...remoteChunk, `${CONFLICT_END} ${labels.remote}`);
+    return conflict;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Computes the lines shared by two texts
+ * @param {string[]} a
+ * @param {string[]} b
+ * @returns {[number, number][]} pairs of matching line indexes, in increasing order
+ */
+function diffMatches(a: string[], b: string[]): [number, number][] {
+    // Common prefix and suffix are matched directly to keep the edit graph small
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - start && suffix < b.length - start && a[a.length - suffix - 1] === b[b.length - suffix - 1]) {
+        suffix++;
+    }
+
+    const matches: [number, number][] = [];
+    for (let i = 0; i < start; i++) {
+        matches.push([i, i]);
+    }
+    for (const [i, j] of myersMatches(a.slice(start, a.length - suffix), b.slice(start, b.length - suffix))) {
+        matches.push([start + i, start + j]);
+    }
+    for (let i = suffix; i > 0; i--) {
+        matches.push([a.length - i, b.length - i]);
+    }
+    return matches;
+}
+
+/**
+ * Computes the lines shared by two texts with the Myers difference algorithm.
+ * Only the diagonals reachable at each step are kept for the backtracking, and texts that need more than
+ * `MAX_DIFF_EDITS` edits share no lines, so that they are reported as a single conflict.
+ * @param {string[]} a
+ * @param {string[]} b
+ * @returns {[number, number][]} pairs of matching line indexes, in increasing order
+ */
+function myersMatches(a: string[], b: string[]): [number, number][] {
+    const offset = a.length + b.length + 1;
+    const v: number[] = new Array(2 * offset + 1).fill(0);
+    const trace: number[][] = [];
+    let done = false;
+    for (let d = 0; d <= a.length + b.length && !done; d++) {
+        if (d > MAX_DIFF_EDITS) {
+            ZoweLogger.debug(`Texts differ by more than ${MAX_DIFF_EDITS} edits, they are merged as a whole.`);
+            return [];
+        }
+        // diagonals -d-1 to d+1, the only ones read when walking back from step d
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d && !done; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < a.length && y < b.length && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            done = x >= a.length && y >= b.length;
+        }
+    }
+
+    return backtrackMatches(trace, a.length, b.length);
+}
+
+/**
+ * Walks the edit graph back from the end to collect the diagonal moves
+ * @param {number[][]} trace - furthest reaching paths before each step d of the Myers algorithm, from diagonal -d-1 to d+1
+ * @param {number} n - number of lines of the first text
+ * @param {number} m - number of lines of the second text
+ * @returns {[number, number][]} pairs of matching line indexes, in increasing order
+ */
+function backtrackMatches(trace: number[][], n: number, m: number): [number, number][] {
+    const matches: [number, number][] = [];
+    const furthest = (d: number, k: number): number => trace[d][k + d + 1];
+    let [x, y] = [n, m];
+    for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+        const k = x - y;
+        const previousK = k === -d || (k !== d && furthest(d, k - 1) < furthest(d, k + 1)) ? k + 1 : k - 1;
+        const previousX = d === 0 ? 0 : furthest(d, previousK);
+        const previousY = d === 0 ? 0 : previousX - previousK;
+        while (x > previousX && y > previousY) {
+            x--;
+            y--;
+            matches.push([x, y]);
+        }
+        [x, y] = [previousX, previousY];
+    }
+    return matches.reverse();
+}
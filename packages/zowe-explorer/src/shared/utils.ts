@@ -12,6 +12,7 @@
 // Generic utility functions related to all node types. See ./src/utils.ts for other utility functions.
 
 import * as vscode from "vscode";
+import * as fs from "fs";
 import * as path from "path";
 import * as globals from "../globals";
 import * as os from "os";
@@ -21,8 +22,10 @@ import * as nls from "vscode-nls";
 import { IZosFilesResponse, imperative } from "@zowe/cli";
 import { IUploadOptions } from "@zowe/zos-files-for-zowe-sdk";
 import { ZoweLogger } from "../utils/LoggerUtils";
+import { errorHandling } from "../utils/ProfilesUtils";
 import { isTypeUssTreeNode } from "./context";
 import { markDocumentUnsaved } from "../utils/workspace";
+import { getBaseContent, hasConflictMarkers, mergeContents, setBaseContent } from "./merge";
 
 // Set up localization
 nls.config({
@@ -133,7 +136,7 @@ export function getDocumentFilePath(label: string, node: IZoweTreeNode): string
  *   the language is specified
  *  2. Dont do this for the top level HLQ
  */
-function appendSuffix(label: string): string {
+export function appendSuffix(label: string): string {
     const limit = 5;
     const bracket = label.indexOf("(");
     const split = bracket > -1 ? label.substr(0, bracket).split(".", limit) : label.split(".", limit);
@@ -204,6 +207,11 @@ export function markFileAsDirty(doc: vscode.TextDocument): void {
     });
 }
 
+// The codeset in which the contents of a USS file were downloaded
+function getEncoding(node: IZoweDatasetTreeNode | IZoweUSSTreeNode): string {
+    return node && isTypeUssTreeNode(node) ? node.encoding : undefined;
+}
+
 export async function uploadContent(
     node: IZoweDatasetTreeNode | IZoweUSSTreeNode,
     doc: vscode.TextDocument,
@@ -211,13 +219,17 @@ export async function uploadContent(
     profile?: imperative.IProfileLoaded,
     binary?: boolean,
     etagToUpload?: string,
-    returnEtag?: boolean
+    returnEtag?: boolean,
+    encoding?: string
 ): Promise<IZosFilesResponse> {
     if (isZoweDatasetTreeNode(node)) {
-        // Upload without passing the etag to force upload
+        // Upload without passing the etag to force upload, unless the etag of a merged version is given
         const uploadOptions: IUploadOptions = {
             returnEtag: true,
         };
+        if (etagToUpload) {
+            uploadOptions.etag = etagToUpload;
+        }
         const prof = node.getProfile();
         if (prof.profile.encoding) {
             uploadOptions.encoding = prof.profile.encoding;
@@ -239,7 +251,7 @@ export async function uploadContent(
                 localEncoding: null,
                 etag: etagToUpload,
                 returnEtag,
-                encoding: profile.profile?.encoding,
+                encoding: encoding ?? profile.profile?.encoding,
                 task,
                 responseTimeout: profile.profile?.responseTimeout,
             };
@@ -288,7 +300,7 @@ export function willForceUpload(
                     title,
                 },
                 () => {
-                    return uploadContent(node, doc, remotePath, profile, binary, null, returnEtag);
+                    return uploadContent(node, doc, remotePath, profile, binary, null, returnEtag, getEncoding(node));
                 }
             );
             if (uploadResponse.success) {
@@ -333,22 +345,56 @@ export function getSelectedNodeList(node: IZoweTreeNode, nodeList: IZoweTreeNode
  * @param {string} text - prefix text
  * @returns undefined | string
  */
-export function jobStringValidator(text: string, localizedParam: "owner" | "prefix"): string | null {
+export function jobStringValidator(text: string, localizedParam: "owner" | "prefix" | "class" | "member"): string | null {
     switch (localizedParam) {
         case "owner":
             return text.length > globals.JOBS_MAX_PREFIX ? localize("searchJobs.owner.invalid", "Invalid job owner") : null;
+        case "class":
+            return text.length > globals.JOBS_MAX_PREFIX ? localize("searchJobs.class.invalid", "Invalid job class") : null;
+        case "member":
+            return text.length > globals.JOBS_MAX_PREFIX ? localize("searchJobs.member.invalid", "Invalid execution member") : null;
         case "prefix":
         default:
             return text.length > globals.JOBS_MAX_PREFIX ? localize("searchJobs.prefix.invalid", "Invalid job prefix") : null;
     }
 }
 
+/**
+ * Function that validates a date of a job search
+ * @param {string} text - date in the YYYY-MM-DD format, or empty
+ * @returns undefined | string
+ */
+export function jobDateValidator(text: string): string | null {
+    if (!text || (/^\d{4}-\d{2}-\d{2}$/.test(text) && !isNaN(Date.parse(text)))) {
+        return null;
+    }
+    return localize("searchJobs.date.invalid", "Enter a date in the YYYY-MM-DD format");
+}
+
 export function getDefaultUri(): vscode.Uri {
     return vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
 }
 
 /**
- * Function that triggers compare of the old and new document in the active editor
+ * Function that reads the local files dropped on a tree from the VS Code Explorer or from the file manager of the system.
+ * Folders and the resources that are not local files are skipped.
+ * @param {vscode.DataTransfer} dataTransfer - the data transfer of the drop
+ * @returns {Promise<vscode.Uri[]>} the dropped files
+ */
+export async function getDroppedFiles(dataTransfer: vscode.DataTransfer): Promise<vscode.Uri[]> {
+    const uriList = (await dataTransfer.get(globals.URI_LIST_MIME_TYPE)?.asString()) ?? "";
+    return uriList
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith("#"))
+        .map((line) => vscode.Uri.parse(line))
+        .filter((uri) => uri.scheme === "file" && fs.existsSync(uri.fsPath) && fs.statSync(uri.fsPath).isFile());
+}
+
+/**
+ * Function that merges the remote changes into the document in the active editor when its etag no longer matches.
+ * Changes made on only one side are applied automatically and the remaining conflicts are marked in the editor,
+ * where they can be resolved hunk by hunk before the merged version is uploaded.
  * @param {vscode.TextDocument} doc - document to update and compare with previous content
  * @param {IZoweDatasetTreeNode | IZoweUSSTreeNode} node - IZoweTreeNode
  * @param {string} label - {optional} used by IZoweDatasetTreeNode to getContents of file
@@ -363,19 +409,23 @@ export async function compareFileContent(
     binary?: boolean,
     profile?: imperative.IProfileLoaded
 ): Promise<void> {
+    ZoweLogger.trace("shared.utils.compareFileContent called.");
     await markDocumentUnsaved(doc);
     const prof = node ? node.getProfile() : profile;
     let downloadResponse;
+    let remotePath: string;
 
     if (isTypeUssTreeNode(node)) {
+        remotePath = node.fullPath;
         downloadResponse = await ZoweExplorerApiRegister.getUssApi(prof).getContents(node.fullPath, {
             file: node.getUSSDocumentFilePath(),
             binary,
             returnEtag: true,
-            encoding: prof.profile?.encoding,
+            encoding: node.encoding ?? prof.profile?.encoding,
             responseTimeout: prof.profile?.responseTimeout,
         });
     } else {
+        remotePath = label;
         downloadResponse = await ZoweExplorerApiRegister.getMvsApi(prof).getContents(label, {
             file: doc.fileName,
             returnEtag: true,
@@ -384,10 +434,102 @@ export async function compareFileContent(
         });
     }
     ZoweLogger.warn(localize("saveFile.etagMismatch.log.warning", "Remote file has changed. Presenting with way to resolve file."));
-    vscode.commands.executeCommand("workbench.files.action.compareWithSaved");
     // re-assign etag, so that it can be used with subsequent requests
     const downloadEtag = downloadResponse?.apiResponse?.etag;
     if (node && downloadEtag !== node.getEtag()) {
         node.setEtag(downloadEtag);
     }
+    if (binary) {
+        // binary contents cannot be merged line by line
+        vscode.commands.executeCommand("workbench.files.action.compareWithSaved");
+        return;
+    }
+
+    const remoteContent = fs.readFileSync(doc.fileName).toString();
+    const mergeResult = mergeContents(getBaseContent(doc.fileName), doc.getText(), remoteContent, {
+        local: localize("compareFileContent.label.local", "Local changes"),
+        base: localize("compareFileContent.label.base", "Downloaded version"),
+        remote: localize("compareFileContent.label.remote", "Remote version"),
+    });
+    setBaseContent(doc.fileName, remoteContent);
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(doc.uri, new vscode.Range(new vscode.Position(0, 0), new vscode.Position(doc.lineCount, 0)), mergeResult.content);
+    await vscode.workspace.applyEdit(edit);
+
+    const message =
+        mergeResult.conflicts > 0
+            ? localize(
+                  "compareFileContent.conflicts",
+                  "{0} has changed on the mainframe. Resolve the {1} conflict(s) with your changes, then select Upload.",
+                  remotePath,
+                  mergeResult.conflicts
+              )
+            : localize(
+                  "compareFileContent.merged",
+                  "{0} has changed on the mainframe and the remote changes were merged with your changes. Review the result, then select Upload.",
+                  remotePath
+              );
+    const uploadItem = localize("compareFileContent.upload", "Upload");
+    // Don't wait for prompt to return since this would block the save queue
+    Gui.warningMessage(message, { items: node ? [uploadItem] : [] }).then(async (selection) => {
+        if (selection === uploadItem) {
+            await uploadMergedContent(doc, node, remotePath, prof, binary);
+        }
+    });
+}
+
+/**
+ * Uploads the merged version of a document with the etag of the remote version it was merged with
+ * @param {vscode.TextDocument} doc - document with the merged content
+ * @param {IZoweDatasetTreeNode | IZoweUSSTreeNode} node - IZoweTreeNode
+ * @param {string} remotePath - data set name or USS path of the file
+ * @param {imperative.IProfileLoaded} profile
+ * @param {boolean} binary - {optional} used by IZoweUSSTreeNode to upload the file
+ * @returns {Promise<void>}
+ */
+async function uploadMergedContent(
+    doc: vscode.TextDocument,
+    node: IZoweDatasetTreeNode | IZoweUSSTreeNode,
+    remotePath: string,
+    profile: imperative.IProfileLoaded,
+    binary?: boolean
+): Promise<void> {
+    ZoweLogger.trace("shared.utils.uploadMergedContent called.");
+    const mergedContent = doc.getText();
+    if (hasConflictMarkers(mergedContent)) {
+        Gui.errorMessage(localize("uploadMergedContent.unresolved", "Resolve all conflicts in {0} before uploading it.", remotePath));
+        return;
+    }
+    try {
+        fs.writeFileSync(doc.fileName, mergedContent);
+        const uploadResponse = await Gui.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: isZoweDatasetTreeNode(node)
+                    ? localize("saveFile.response.save.title", "Saving data set...")
+                    : localize("saveUSSFile.response.title", "Saving file..."),
+            },
+            () => {
+                return uploadContent(node, doc, remotePath, profile, binary, node.getEtag(), true, getEncoding(node));
+            }
+        );
+        if (uploadResponse.success) {
+            Gui.setStatusBarMessage(uploadResponse.commandResponse, globals.STATUS_BAR_TIMEOUT_MS);
+            node.setEtag(isZoweDatasetTreeNode(node) ? uploadResponse.apiResponse[0]?.etag : uploadResponse.apiResponse?.etag);
+            setBaseContent(doc.fileName, mergedContent);
+            // the merged content is already on disk, reverting the editor clears its unsaved state
+            await Gui.showTextDocument(doc);
+            await vscode.commands.executeCommand("workbench.action.files.revert");
+        } else if (uploadResponse.commandResponse.includes("Rest API failure with HTTP(S) status 412")) {
+            await compareFileContent(doc, node, remotePath, binary, profile);
+        } else {
+            Gui.errorMessage(uploadResponse.commandResponse);
+        }
+    } catch (err) {
+        if (err?.message?.includes("Rest API failure with HTTP(S) status 412")) {
+            await compareFileContent(doc, node, remotePath, binary, profile);
+        } else {
+            await errorHandling(err, profile.name);
+        }
+    }
 }
@@ -40,6 +40,9 @@ export interface UssFileTree {
 
     // The type of the file (file or directory)
     type: UssFileType;
+
+    // whether the files are moved rather than copied when pasted (optional, only set for the root)
+    move?: boolean;
 }
 
 /**
@@ -0,0 +1,293 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as vscode from "vscode";
+import { Gui, IZoweTree, IZoweUSSTreeNode, ZoweExplorerApi } from "@zowe/zowe-explorer-api";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
+import { errorHandling } from "../utils/ProfilesUtils";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import { WebviewUtils } from "../utils/WebviewUtils";
+import * as contextually from "../shared/context";
+import { ZoweUSSNode } from "./ZoweUSSNode";
+import { IUssAttributes, modeToOctal, octalToMode } from "./utils";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * The values entered in the properties view of a file or directory
+ */
+export interface IUssPropertyValues {
+    // The octal permissions, e.g. 755, or 4755 with the setuid bit. Three digits keep the setuid, setgid and sticky bits.
+    mode: string;
+    owner?: string;
+    group?: string;
+    recursive?: boolean;
+}
+
+/**
+ * Changes the permissions, owner and group of a file or directory that differ from its current attributes,
+ * with `IUss.chmod`, `IUss.chown` and `IUss.chgrp`
+ *
+ * @param {IZoweUSSTreeNode} node the file or directory
+ * @param {IUssAttributes} attributes the current attributes
+ * @param {IUssPropertyValues} values the values entered in the properties view
+ * @param {IZoweTree<IZoweUSSTreeNode>} ussFileProvider
+ * @returns the error message of each invalid value, empty when the properties were changed
+ */
+export async function applyProperties(
+    node: IZoweUSSTreeNode,
+    attributes: IUssAttributes,
+    values: IUssPropertyValues,
+    ussFileProvider: IZoweTree<IZoweUSSTreeNode>
+): Promise<{ [key: string]: string }> {
+    ZoweLogger.trace("PropertiesView.applyProperties called.");
+    const owner = (values.owner ?? attributes.user ?? "").trim();
+    const group = (values.group ?? attributes.group ?? "").trim();
+    const errors = validateProperties(attributes, values.mode, owner, group);
+    if (Object.keys(errors).length > 0) {
+        return errors;
+    }
+
+    const recursive = values.recursive === true && contextually.isUssDirectory(node);
+    try {
+        await changeAttributes(node, attributes, { mode: values.mode, owner, group, recursive });
+    } catch (err) {
+        await errorHandling(err, node.getProfileName(), localize("properties.error", "Unable to change the properties of {0}", node.fullPath));
+        errors.apply = localize("properties.failed", "The properties could not be changed.");
+    }
+
+    // The changes made before a failure are shown too
+    if (node instanceof ZoweUSSNode) {
+        node.setAttributes(attributes);
+    }
+    if (recursive) {
+        node.dirty = true;
+    }
+    ussFileProvider.refreshElement(node);
+    if (Object.keys(errors).length === 0) {
+        Gui.showMessage(localize("properties.success", "The properties of {0} were changed.", node.fullPath));
+    }
+    return errors;
+}
+
+function validateProperties(attributes: IUssAttributes, mode: string, owner: string, group: string): { [key: string]: string } {
+    const errors: { [key: string]: string } = {};
+    if (!/^[0-7]{3,4}$/.test(mode)) {
+        errors.mode = localize("properties.mode.invalid", "Enter three or four octal digits.");
+    }
+    if (attributes.user && owner === "") {
+        errors.owner = localize("properties.owner.invalid", "Enter the user ID or UID of the owner.");
+    }
+    if (attributes.group && group === "") {
+        errors.group = localize("properties.group.invalid", "Enter the name or GID of the group.");
+    }
+    return errors;
+}
+
+// Updates the attributes after each change, so that they stay accurate when a later change fails
+async function changeAttributes(node: IZoweUSSTreeNode, attributes: IUssAttributes, values: Required<IUssPropertyValues>): Promise<void> {
+    const ussApi = ZoweExplorerApiRegister.getUssApi(node.getProfile());
+    const currentMode = modeToOctal(attributes.mode);
+    const mode = values.mode.length === currentMode.length ? values.mode : currentMode.charAt(0) + values.mode;
+    if (mode !== currentMode) {
+        await ussApi.chmod(node.fullPath, mode, values.recursive);
+        attributes.mode = octalToMode(mode, attributes.mode.charAt(0));
+    }
+    if (attributes.user && values.owner !== attributes.user) {
+        await ussApi.chown(node.fullPath, values.owner, values.recursive);
+        attributes.user = values.owner;
+    }
+    if (attributes.group && values.group !== attributes.group) {
+        await ussApi.chgrp(node.fullPath, values.group, values.recursive);
+        attributes.group = values.group;
+    }
+}
+
+function getPropertiesBody(node: IZoweUSSTreeNode, attributes: IUssAttributes, ussApi: ZoweExplorerApi.IUss): string {
+    const escape = (value: string | number | boolean): string => WebviewUtils.escapeHtml(value);
+    const isDirectory = contextually.isUssDirectory(node);
+    const classes = [
+        localize("properties.class.owner", "Owner"),
+        localize("properties.class.group", "Group"),
+        localize("properties.class.other", "Other"),
+    ];
+    const permissions = [
+        localize("properties.permission.read", "Read"),
+        localize("properties.permission.write", "Write"),
+        localize("properties.permission.execute", "Execute"),
+    ];
+    // The setuid, setgid and sticky bits are kept, they cannot be changed in the grid
+    const octal = modeToOctal(attributes.mode);
+    // The permission bits without the file type and special bits, e.g. rwxr-x---
+    const bits = octalToMode(octal.substring(1)).substring(1);
+    const rows = classes
+        .map((className, row) => {
+            const cells = permissions
+                .map((permission, column) => {
+                    const index = row * permissions.length + column;
+                    return `<td><input type="checkbox" data-bit="${index}" aria-label="${escape(className + " " + permission)}"${
+                        bits.charAt(index) === "-" ? "" : " checked"
+                    }></td>`;
+                })
+                .join("");
+            return `<tr><th>${escape(className)}</th>${cells}</tr>`;
+        })
+        .join("\n");
+    const info: [string, string][] = [
+        [localize("properties.path", "Path"), node.fullPath],
+        [
+            localize("properties.type", "Type"),
+            isDirectory ? localize("properties.type.directory", "Directory") : localize("properties.type.file", "File"),
+        ],
+        [localize("properties.mode", "Mode"), attributes.mode],
+        [localize("properties.class.owner", "Owner"), attributes.user],
+        [localize("properties.class.group", "Group"), attributes.group],
+    ];
+    // The owner and group are only listed above when the API cannot change them, e.g. over FTP
+    const input = (key: string, label: string, value: string, enabled: boolean): string =>
+        value == null || !enabled
+            ? ""
+            : `<div class="field">
+            <label for="${key}">${escape(label)}</label>
+            <input id="${key}" value="${escape(value)}">
+            <span class="error" data-error-for="${key}"></span>
+        </div>`;
+    const section = `<section>
+        <table>
+            ${info
+                .filter(([, value]) => value != null)
+                .map(([label, value]) => `<tr><th>${escape(label)}</th><td>${escape(value)}</td></tr>`)
+                .join("\n")}
+        </table>
+    </section>`;
+    if (ussApi.chmod == null) {
+        return section;
+    }
+    return `${section}
+    <form id="properties" data-special="${escape(octal.charAt(0))}">
+        <h3>${escape(localize("properties.permissions", "Permissions"))}</h3>
+        <table class="permissions">
+            <tr><th></th>${permissions.map((permission) => `<th>${escape(permission)}</th>`).join("")}</tr>
+            ${rows}
+        </table>
+        <div class="field">
+            <label>${escape(localize("properties.octal", "Octal"))}</label>
+            <output id="mode">${escape(octal)}</output>
+            <span class="error" data-error-for="mode"></span>
+        </div>
+        ${input("owner", localize("properties.class.owner", "Owner"), attributes.user, ussApi.chown != null)}
+        ${input("group", localize("properties.class.group", "Group"), attributes.group, ussApi.chgrp != null)}
+        ${
+            isDirectory
+                ? `<div class="field">
+            <label for="recursive">${escape(localize("properties.recursive", "Apply to the contents"))}</label>
+            <input id="recursive" type="checkbox">
+        </div>`
+                : ""
+        }
+        <button type="submit">${escape(localize("properties.apply", "Apply"))}</button>
+        <span class="error" data-error-for="apply"></span>
+    </form>`;
+}
+
+const STYLE = `
+    section, form { margin-top: 1.5em; }
+    th { text-align: left; padding-right: 2em; color: var(--vscode-editorLink-activeForeground); font-weight: bold; }
+    .permissions th, .permissions td { text-align: center; padding: 0.2em 1em; }
+    .permissions tr th:first-child { text-align: left; }
+    .field { display: grid; grid-template-columns: 12em 16em auto; align-items: center; margin: 0.3em 0; }
+    .error { color: var(--vscode-errorForeground); margin-left: 1em; }
+    input {
+        color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border);
+    }
+    input[type="checkbox"] { justify-self: start; }
+    button {
+        margin-top: 0.5em; padding: 0.4em 1em; border: none;
+        color: var(--vscode-button-foreground); background: var(--vscode-button-background);
+    }
+`;
+
+const SCRIPT = `
+    const vscode = acquireVsCodeApi();
+    const form = document.getElementById("properties");
+    const bits = [...form.querySelectorAll("[data-bit]")].sort((a, b) => a.dataset.bit - b.dataset.bit);
+    const getMode = () =>
+        form.dataset.special + parseInt(bits.map((bit) => (bit.checked ? "1" : "0")).join(""), 2).toString(8).padStart(3, "0");
+    for (const bit of bits) {
+        bit.addEventListener("change", () => (document.getElementById("mode").textContent = getMode()));
+    }
+    form.addEventListener("submit", (event) => {
+        event.preventDefault();
+        const values = { mode: getMode() };
+        for (const key of ["owner", "group"]) {
+            const input = document.getElementById(key);
+            if (input) {
+                values[key] = input.value;
+            }
+        }
+        values.recursive = document.getElementById("recursive")?.checked ?? false;
+        vscode.postMessage({ command: "apply", values });
+    });
+    window.addEventListener("message", (event) => {
+        if (event.data.command === "validation") {
+            for (const error of form.querySelectorAll(".error")) {
+                error.textContent = event.data.errors[error.dataset.errorFor] || "";
+            }
+        }
+    });
+`;
+
+/**
+ * Shows the permissions, owner and group of a file or directory. The permission bits can be changed
+ * in a grid of checkboxes, the owner and group when the USS API of the profile can change them.
+ *
+ * @param {IZoweUSSTreeNode} node the file or directory
+ * @param {IUssAttributes} attributes the attributes listed with `IUss.fileList`
+ * @param {IZoweTree<IZoweUSSTreeNode>} ussFileProvider
+ */
+export function showPropertiesView(
+    node: IZoweUSSTreeNode,
+    attributes: IUssAttributes,
+    ussFileProvider: IZoweTree<IZoweUSSTreeNode>
+): vscode.WebviewPanel {
+    ZoweLogger.trace("PropertiesView.showPropertiesView called.");
+    const ussApi = ZoweExplorerApiRegister.getUssApi(node.getProfile());
+    const canChmod = ussApi.chmod != null;
+    const title = (node.label as string) + " " + localize("properties.title", "Properties");
+    const panel: vscode.WebviewPanel = Gui.createWebviewPanel({
+        viewType: "zowe",
+        title,
+        showOptions: vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : 1,
+        vscode: { enableScripts: canChmod },
+    });
+    panel.webview.html = WebviewUtils.getHtml(panel.webview, {
+        title,
+        body: getPropertiesBody(node, attributes, ussApi),
+        style: STYLE,
+        script: canChmod ? SCRIPT : undefined,
+    });
+    if (canChmod) {
+        panel.webview.onDidReceiveMessage(async (message: { command: string; values: IUssPropertyValues }) => {
+            if (message.command !== "apply") {
+                return;
+            }
+            const errors = await applyProperties(node, attributes, message.values, ussFileProvider);
+            await panel.webview.postMessage({ command: "validation", errors });
+        });
+    }
+    return panel;
+}
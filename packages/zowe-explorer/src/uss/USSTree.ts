@@ -14,8 +14,16 @@ import * as globals from "../globals";
 import * as path from "path";
 import { imperative } from "@zowe/cli";
 import { FilterItem, FilterDescriptor, errorHandling, syncSessionNode } from "../utils/ProfilesUtils";
-import { sortTreeItems, getAppName, checkIfChildPath } from "../shared/utils";
-import { Gui, IZoweTree, IZoweUSSTreeNode, NodeInteraction, ValidProfileEnum, PersistenceSchemaEnum } from "@zowe/zowe-explorer-api";
+import { sortTreeItems, getAppName, checkIfChildPath, getDroppedFiles } from "../shared/utils";
+import {
+    Gui,
+    IZoweTree,
+    IZoweDatasetTreeNode,
+    IZoweUSSTreeNode,
+    NodeInteraction,
+    ValidProfileEnum,
+    PersistenceSchemaEnum,
+} from "@zowe/zowe-explorer-api";
 import { Profiles } from "../Profiles";
 import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
 import { ZoweUSSNode } from "./ZoweUSSNode";
@@ -28,6 +36,7 @@ import { resetValidationSettings } from "../shared/actions";
 import { SettingsConfig } from "../utils/SettingsConfig";
 import { ZoweLogger } from "../utils/LoggerUtils";
 import { TreeViewUtils } from "../utils/TreeViewUtils";
+import * as ussActions from "./actions";
 
 // Set up localization
 nls.config({
@@ -55,14 +64,17 @@ export async function createUSSTree(log: imperative.Logger): Promise<USSTree> {
  * @export
  * @class USSTree
  * @implements {vscode.TreeDataProvider}
+ * @implements {vscode.TreeDragAndDropController}
  */
-export class USSTree extends ZoweTreeProvider implements IZoweTree<IZoweUSSTreeNode> {
+export class USSTree extends ZoweTreeProvider implements IZoweTree<IZoweUSSTreeNode>, vscode.TreeDragAndDropController<IZoweUSSTreeNode> {
     public static readonly defaultDialogText: string = localize("filterPrompt.option.prompt.search", "$(plus) Create a new filter");
     private static readonly persistenceSchema: PersistenceSchemaEnum = PersistenceSchemaEnum.USS;
     public mFavoriteSession: ZoweUSSNode;
     public mSessionNodes: IZoweUSSTreeNode[] = [];
     public mFavorites: IZoweUSSTreeNode[] = [];
     public lastOpened: NodeInteraction = {};
+    public readonly dragMimeTypes: string[] = [globals.USS_TREE_MIME_TYPE];
+    public readonly dropMimeTypes: string[] = [globals.USS_TREE_MIME_TYPE, globals.DS_TREE_MIME_TYPE, globals.URI_LIST_MIME_TYPE];
     private treeView: vscode.TreeView<IZoweUSSTreeNode>;
 
     public constructor() {
@@ -79,9 +91,87 @@ export class USSTree extends ZoweTreeProvider implements IZoweTree<IZoweUSSTreeN
         this.treeView = Gui.createTreeView("zowe.uss.explorer", {
             treeDataProvider: this,
             canSelectMany: true,
+            dragAndDropController: this,
         });
     }
 
+    /**
+     * Adds the dragged files and directories to the data transfer. Sessions and favorites cannot be moved.
+     *
+     * @param {IZoweUSSTreeNode[]} source - The dragged nodes
+     * @param {vscode.DataTransfer} dataTransfer - The data transfer of the drag and drop operation
+     */
+    public handleDrag(source: IZoweUSSTreeNode[], dataTransfer: vscode.DataTransfer): void {
+        ZoweLogger.trace("USSTree.handleDrag called.");
+        const nodes = source.filter(
+            (node) => !contextually.isUssSession(node) && !contextually.isFavoriteContext(node) && !contextually.isFavProfile(node)
+        );
+        if (nodes.length > 0) {
+            dataTransfer.set(globals.USS_TREE_MIME_TYPE, new vscode.DataTransferItem(nodes));
+        }
+    }
+
+    /**
+     * Handles the nodes and files dropped on a directory, a session or a file, which stands for its directory.
+     * Files and directories of the USS tree are moved once the move is confirmed, members and sequential data sets
+     * dragged from the Data Sets tree are copied, and local files dropped from the VS Code Explorer are uploaded.
+     *
+     * @param {IZoweUSSTreeNode} target - The node the files are dropped on
+     * @param {vscode.DataTransfer} dataTransfer - The data transfer of the drag and drop operation
+     */
+    public async handleDrop(target: IZoweUSSTreeNode | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        ZoweLogger.trace("USSTree.handleDrop called.");
+        if (
+            target == null ||
+            contextually.isFavoriteContext(target) ||
+            contextually.isFavProfile(target) ||
+            contextually.isFavoriteDescendant(target)
+        ) {
+            return;
+        }
+        const directory = contextually.isUssDirectory(target) || contextually.isUssSession(target) ? target : target.getParent();
+        if (!directory.fullPath) {
+            Gui.showMessage(localize("handleDrop.noPath", "Search a path in {0} to drop files in it.", directory.getLabel() as string));
+            return;
+        }
+
+        const ussNodes: IZoweUSSTreeNode[] = dataTransfer.get(globals.USS_TREE_MIME_TYPE)?.value;
+        const dsNodes: IZoweDatasetTreeNode[] = dataTransfer.get(globals.DS_TREE_MIME_TYPE)?.value;
+        if (ussNodes?.length > 0) {
+            if (await this.confirmMove(directory, ussNodes)) {
+                await ussActions.moveUssFiles(this, await ussActions.ussFileStructure(ussNodes), directory);
+            }
+        } else if (dsNodes?.length > 0) {
+            await ussActions.copyDataSetsToUss(directory, dsNodes, this);
+        } else {
+            const files = await getDroppedFiles(dataTransfer);
+            if (files.length > 0) {
+                await ussActions.uploadFiles(directory, files, this);
+            }
+        }
+    }
+
+    /**
+     * Asks the user to confirm the move of the dropped files and directories.
+     *
+     * @param {IZoweUSSTreeNode} directory - The directory the files are moved to
+     * @param {IZoweUSSTreeNode[]} nodes - The dropped files and directories
+     * @returns {Promise<boolean>} Whether the move was confirmed
+     */
+    private async confirmMove(directory: IZoweUSSTreeNode, nodes: IZoweUSSTreeNode[]): Promise<boolean> {
+        const moveButton = localize("handleDrop.confirmation.move", "Move");
+        const selection = await Gui.warningMessage(
+            localize(
+                "handleDrop.confirmation.message",
+                "Are you sure you want to move the following items to {0}?\n\n{1}",
+                directory.fullPath,
+                nodes.map((node) => node.fullPath).join("\n")
+            ),
+            { items: [moveButton], vsCodeOpts: { modal: true } }
+        );
+        return selection === moveButton;
+    }
+
     /**
      * Method for renaming a USS Node. This could be a Favorite Node
      *
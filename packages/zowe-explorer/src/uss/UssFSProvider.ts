@@ -0,0 +1,274 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as fs from "fs";
+import * as vscode from "vscode";
+import * as zowe from "@zowe/cli";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
+import { ZoweFileSystemProvider } from "../abstract/ZoweFileSystemProvider";
+import { ZoweLogger } from "../utils/LoggerUtils";
+import { OfflineCache } from "../utils/OfflineCache";
+import { LocalHistory } from "../shared/LocalHistory";
+import { getTransferOptions, IUssTransferOptions } from "./utils";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * File system provider for the `zowe-uss` scheme.
+ *
+ * URIs are formatted as `zowe-uss:/<profile>/<absolute USS path>`.
+ *
+ * @export
+ * @class UssFSProvider
+ */
+export class UssFSProvider extends ZoweFileSystemProvider {
+    public static scheme = "zowe-uss";
+    private static mInstance: UssFSProvider;
+
+    public static get instance(): UssFSProvider {
+        if (!UssFSProvider.mInstance) {
+            UssFSProvider.mInstance = new UssFSProvider();
+        }
+        return UssFSProvider.mInstance;
+    }
+
+    /**
+     * Builds the URI used to open a USS file or directory
+     *
+     * @param {string} profileName
+     * @param {string} ussPath absolute path of the file or directory
+     * @returns {vscode.Uri}
+     */
+    public static buildUri(profileName: string, ussPath: string): vscode.Uri {
+        const trimmedPath = ussPath.replace(/^\/+/, "");
+        return vscode.Uri.from({ scheme: UssFSProvider.scheme, path: `/${profileName}/${trimmedPath}` });
+    }
+
+    public async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        ZoweLogger.trace("UssFSProvider.stat called.");
+        const ussPath = this.getUssPath(uri);
+        if (ussPath === "/") {
+            return this.updateEntry(uri, { type: vscode.FileType.Directory });
+        }
+        const cachedEntry = this.entries.get(uri.path);
+        if (cachedEntry) {
+            return cachedEntry;
+        }
+
+        const profile = this.getProfile(uri);
+        try {
+            const response = await ZoweExplorerApiRegister.getUssApi(profile).fileList(ussPath);
+            const items: any[] = response.apiResponse?.items ?? [];
+            const self = items.find((item) => item.name === ".");
+            if (self) {
+                return this.updateEntry(uri, { type: vscode.FileType.Directory, mtime: this.parseTime(self.mtime) });
+            }
+            const fileName = ussPath.substring(ussPath.lastIndexOf("/") + 1);
+            const file = items.find((item) => item.name === fileName || item.name === ussPath);
+            if (!file) {
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }
+            return this.updateEntry(uri, {
+                type: file.mode?.startsWith("d") ? vscode.FileType.Directory : vscode.FileType.File,
+                size: file.size ?? 0,
+                mtime: this.parseTime(file.mtime),
+            });
+        } catch (err) {
+            throw this.toFileSystemError(err, uri);
+        }
+    }
+
+    public async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        ZoweLogger.trace("UssFSProvider.readDirectory called.");
+        const ussPath = this.getUssPath(uri);
+        const profile = this.getProfile(uri);
+        try {
+            const response = await ZoweExplorerApiRegister.getUssApi(profile).fileList(ussPath);
+            const items: any[] = response.apiResponse?.items ?? [];
+            return items
+                .filter((item) => item.name !== "." && item.name !== "..")
+                .map((item) => [item.name as string, item.mode?.startsWith("d") ? vscode.FileType.Directory : vscode.FileType.File]);
+        } catch (err) {
+            throw this.toFileSystemError(err, uri);
+        }
+    }
+
+    public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        ZoweLogger.trace("UssFSProvider.readFile called.");
+        const ussPath = this.getUssPath(uri);
+        const profile = this.getProfile(uri);
+        ZoweLogger.info(localize("readFile.openUssFile", "Opening {0}", ussPath));
+        try {
+            const entry = this.entries.get(uri.path);
+            const transfer: IUssTransferOptions =
+                entry?.binary != null ? { binary: entry.binary, encoding: entry.encoding } : await getTransferOptions(profile, ussPath, false);
+            const [contents, response] = await this.download(uri, transfer);
+            this.updateEntry(uri, {
+                type: vscode.FileType.File,
+                size: contents.length,
+                binary: transfer.binary,
+                encoding: transfer.encoding,
+                etag: response?.apiResponse?.etag,
+                savedAt: OfflineCache.getSavedAt(response),
+            });
+            this.rememberBaseContent(uri, contents);
+            return contents;
+        } catch (err) {
+            throw this.toFileSystemError(err, uri);
+        }
+    }
+
+    public async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+        ZoweLogger.trace("UssFSProvider.writeFile called.");
+        const ussPath = this.getUssPath(uri);
+        const entry = this.entries.get(uri.path);
+        if (!entry && !options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (entry && options.create && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+        this.checkNotCached(uri, entry);
+        this.checkConflictsResolved(uri, entry, content);
+
+        ZoweLogger.info(localize("writeFile.saving", "Saving file {0}", ussPath));
+        if (entry) {
+            // Keep the remote version that is replaced by the upload
+            await LocalHistory.saveVersion(this.getProfile(uri), ussPath, undefined, entry.binary);
+        }
+        let contents = content;
+        let response: zowe.IZosFilesResponse;
+        try {
+            response = await this.upload(uri, contents, entry?.etag);
+        } catch (err) {
+            if (!entry || !this.isEtagMismatch(err)) {
+                throw err;
+            }
+            const [remoteContents, remoteResponse] = await this.download(uri, { binary: entry.binary, encoding: entry.encoding });
+            contents = await this.mergeRemoteChanges(uri, content, remoteContents, remoteResponse?.apiResponse?.etag);
+            response = await this.upload(uri, contents, remoteResponse?.apiResponse?.etag);
+        }
+        this.updateEntry(uri, { size: contents.length, mtime: Date.now(), etag: response.apiResponse?.etag, conflicts: false });
+        this.rememberBaseContent(uri, contents);
+        this.fireChange(uri, entry ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created);
+    }
+
+    public async createDirectory(uri: vscode.Uri): Promise<void> {
+        ZoweLogger.trace("UssFSProvider.createDirectory called.");
+        const ussPath = this.getUssPath(uri);
+        const profile = this.getProfile(uri);
+        try {
+            await ZoweExplorerApiRegister.getUssApi(profile).create(ussPath, "directory");
+        } catch (err) {
+            throw this.toFileSystemError(err, uri);
+        }
+        this.updateEntry(uri, { type: vscode.FileType.Directory });
+        this.fireChange(uri, vscode.FileChangeType.Created);
+    }
+
+    public async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        ZoweLogger.trace("UssFSProvider.delete called.");
+        const ussPath = this.getUssPath(uri);
+        const profile = this.getProfile(uri);
+        try {
+            await ZoweExplorerApiRegister.getUssApi(profile).delete(ussPath, options.recursive);
+        } catch (err) {
+            throw this.toFileSystemError(err, uri);
+        }
+        this.fireChange(uri, vscode.FileChangeType.Deleted);
+    }
+
+    public async rename(oldUri: vscode.Uri, newUri: vscode.Uri): Promise<void> {
+        ZoweLogger.trace("UssFSProvider.rename called.");
+        const [oldProfileName] = this.parseUri(oldUri);
+        const [newProfileName] = this.parseUri(newUri);
+        if (oldProfileName !== newProfileName) {
+            throw vscode.FileSystemError.NoPermissions(localize("rename.notSupported", "Unable to rename {0} to {1}", oldUri.path, newUri.path));
+        }
+        const profile = this.getProfile(oldUri);
+        try {
+            await ZoweExplorerApiRegister.getUssApi(profile).rename(this.getUssPath(oldUri), this.getUssPath(newUri));
+        } catch (err) {
+            throw this.toFileSystemError(err, oldUri);
+        }
+        this.fireChange(oldUri, vscode.FileChangeType.Deleted);
+        this.fireChange(newUri, vscode.FileChangeType.Created);
+    }
+
+    /**
+     * Downloads a file to a transient file and reads its contents
+     *
+     * @param {vscode.Uri} uri
+     * @param {IUssTransferOptions} transfer whether the file is downloaded in binary mode, and the codeset it is converted from
+     * @returns {Promise<[Buffer, zowe.IZosFilesResponse]>} the contents and the response, with the etag of the file
+     */
+    private download(uri: vscode.Uri, transfer: IUssTransferOptions): Promise<[Buffer, zowe.IZosFilesResponse]> {
+        const profile = this.getProfile(uri);
+        return this.withTransientFile(async (filePath) => {
+            const response = await ZoweExplorerApiRegister.getUssApi(profile).getContents(this.getUssPath(uri), {
+                file: filePath,
+                binary: transfer.binary,
+                returnEtag: true,
+                encoding: transfer.encoding ?? profile.profile?.encoding,
+                responseTimeout: profile.profile?.responseTimeout,
+            });
+            return [fs.readFileSync(filePath), response];
+        });
+    }
+
+    private async upload(uri: vscode.Uri, content: Uint8Array, etag: string): Promise<zowe.IZosFilesResponse> {
+        const ussPath = this.getUssPath(uri);
+        const profile = this.getProfile(uri);
+        const ussApi = ZoweExplorerApiRegister.getUssApi(profile);
+        const entry = this.entries.get(uri.path);
+        const response = await this.withTransientFile((filePath) => {
+            fs.writeFileSync(filePath, content);
+            // if new api method exists, use it
+            if (ussApi.putContent) {
+                return ussApi.putContent(filePath, ussPath, {
+                    binary: entry?.binary,
+                    localEncoding: null,
+                    etag,
+                    returnEtag: true,
+                    encoding: entry?.encoding ?? profile.profile?.encoding,
+                    responseTimeout: profile.profile?.responseTimeout,
+                });
+            }
+            return ussApi.putContents(filePath, ussPath, entry?.binary, null, etag, true);
+        });
+        if (!response.success) {
+            throw new Error(response.commandResponse);
+        }
+        return response;
+    }
+
+    /**
+     * Returns the absolute USS path of the resource, without the profile name
+     *
+     * @param {vscode.Uri} uri
+     * @returns {string}
+     */
+    private getUssPath(uri: vscode.Uri): string {
+        const [, segments] = this.parseUri(uri);
+        return `/${segments.join("/")}`;
+    }
+
+    private parseTime(mtime: string): number {
+        const parsed = Date.parse(mtime);
+        return isNaN(parsed) ? Date.now() : parsed;
+    }
+}
@@ -19,12 +19,28 @@ import { Profiles } from "../Profiles";
 import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
 import { errorHandling, syncSessionNode } from "../utils/ProfilesUtils";
 import { getIconByNode } from "../generators/icons/index";
-import { fileExistsCaseSensitveSync, injectAdditionalDataToTooltip } from "../uss/utils";
+import {
+    fileExistsCaseSensitveSync,
+    formatSymlink,
+    getTransferOptions,
+    getUssAttributes,
+    getUssSymlink,
+    injectAdditionalDataToTooltip,
+    isAsciiCodeset,
+    IUssAttributes,
+    IUssSymlink,
+    IUssTransferOptions,
+    resolveSymlink,
+} from "../uss/utils";
 import * as contextually from "../shared/context";
+import { setBaseContent } from "../shared/merge";
 import { closeOpenedTextFile } from "../utils/workspace";
 import * as nls from "vscode-nls";
 import { UssFileTree, UssFileType, UssFileUtils } from "./FileStructure";
 import { ZoweLogger } from "../utils/LoggerUtils";
+import { SettingsConfig } from "../utils/SettingsConfig";
+import { OfflineCache } from "../utils/OfflineCache";
+import { UssFSProvider } from "./UssFSProvider";
 
 // Set up localization
 nls.config({
@@ -51,6 +67,10 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
     public profileName = "";
     public shortLabel = "";
     public downloadedTime = null as string;
+    public attributes: IUssAttributes;
+    public encoding: string;
+    public tag: ZoweExplorerApi.IUssFileTag;
+    public symlink: IUssSymlink;
     public profile: imperative.IProfileLoaded; // TODO: This reference should be stored instead of the name
     private downloadedInternal = false;
 
@@ -134,6 +154,22 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
         return this.session ? this : this.getParent()?.getSessionNode() ?? this;
     }
 
+    /**
+     * Gets the path of this file or directory with the symbolic links in it resolved
+     *
+     * @returns {string}
+     */
+    public getRealPath(): string {
+        if (this.symlink) {
+            return this.symlink.path;
+        }
+        const parent = this.getParent();
+        if (parent instanceof ZoweUSSNode && parent.fullPath && !contextually.isSession(parent)) {
+            return `${parent.getRealPath()}/${this.label as string}`;
+        }
+        return this.fullPath;
+    }
+
     /**
      * Retrieves child nodes of this IZoweTreeNode
      *
@@ -169,6 +205,7 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
         }
 
         const elementChildren: Record<string, IZoweUSSTreeNode> = {};
+        const symlinks = await this.getSymlinks(responses);
 
         responses.forEach((response) => {
             // Throws reject if the Zowe command does not throw an error but does not succeed
@@ -185,8 +222,11 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
                 if (existing) {
                     elementChildren[existing.label.toString()] = existing;
                 } else if (item.name !== "." && item.name !== "..") {
-                    // Creates a ZoweUSSNode for a directory
-                    if (item.mode.startsWith("d")) {
+                    if (symlinks[item.name]) {
+                        const temp = this.createSymlinkNode(item, symlinks[item.name]);
+                        elementChildren[temp.label.toString()] = temp;
+                    } else if (item.mode.startsWith("d")) {
+                        // Creates a ZoweUSSNode for a directory
                         const temp = new ZoweUSSNode(
                             item.name,
                             vscode.TreeItemCollapsibleState.Collapsed,
@@ -229,6 +269,10 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
                         elementChildren[temp.label.toString()] = temp;
                     }
                 }
+                const attributes = getUssAttributes(item);
+                if (attributes && elementChildren[item.name]) {
+                    (elementChildren[item.name] as ZoweUSSNode).setAttributes(attributes);
+                }
             }
         });
 
@@ -248,6 +292,7 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
 
         this.children = this.children.concat(newChildren).filter((c) => (c.label as string) in elementChildren);
         this.prevPath = this.fullPath;
+        this.decorateStaleChildren(responses);
         return this.children;
     }
 
@@ -261,6 +306,9 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
             this.contextValue = globals.DS_TEXT_FILE_CONTEXT;
             delete this.getSessionNode().binaryFiles[this.fullPath];
         }
+        if (this.symlink) {
+            this.contextValue += globals.SYMLINK_SUFFIX;
+        }
         if (this.getParent() && this.getParent().contextValue === globals.FAV_PROFILE_CONTEXT) {
             this.contextValue = this.binary ? globals.DS_BINARY_FILE_CONTEXT + globals.FAV_SUFFIX : globals.DS_TEXT_FILE_CONTEXT + globals.FAV_SUFFIX;
         }
@@ -273,6 +321,34 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
         this.dirty = true;
     }
 
+    /**
+     * Sets the permissions and ownership of a file or directory, the mode is shown in its description
+     * and the permissions, owner and group in its tooltip
+     *
+     * @param {IUssAttributes} attributes
+     */
+    public setAttributes(attributes: IUssAttributes): void {
+        ZoweLogger.trace("ZoweUSSNode.setAttributes called.");
+        this.attributes = attributes;
+        this.description = this.symlink ? formatSymlink(this.symlink) : attributes.mode;
+        this.tooltip = injectAdditionalDataToTooltip(this, this.fullPath);
+    }
+
+    /**
+     * Sets the file tag of a file, it is shown in its tooltip. Files tagged as binary or with an ASCII codeset
+     * are marked as binary, the other tagged files as text.
+     *
+     * @param {ZoweExplorerApi.IUssFileTag} tag
+     */
+    public setTag(tag: ZoweExplorerApi.IUssFileTag): void {
+        ZoweLogger.trace("ZoweUSSNode.setTag called.");
+        this.tag = tag;
+        if (tag.type !== "untagged") {
+            this.setBinary(tag.type === "binary" || isAsciiCodeset(tag.codeset));
+        }
+        this.tooltip = injectAdditionalDataToTooltip(this, this.fullPath);
+    }
+
     /**
      * Helper getter to check dirtiness of node inside opened editor tabs, can be more accurate than saved value
      *
@@ -458,7 +534,7 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
 
         const doubleClicked = Gui.utils.wasDoubleClicked(this, ussFileProvider);
         const shouldPreview = doubleClicked ? false : previewFile;
-        if (Profiles.getInstance().validProfile === ValidProfileEnum.VALID || Profiles.getInstance().validProfile === ValidProfileEnum.UNVERIFIED) {
+        if (this.canOpen()) {
             try {
                 switch (true) {
                     // For opening favorited and non-favorited files
@@ -474,6 +550,14 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
                         throw Error(localize("openUSS.error.invalidNode", "open() called from invalid node."));
                 }
 
+                if (SettingsConfig.getDirectValue<boolean>(globals.SETTINGS_FILES_VIRTUAL_FILE_SYSTEM)) {
+                    // read and write the contents directly on the mainframe through the zowe-uss file system
+                    ussFileProvider.addFileHistory(`[${this.getProfile().name}]: ${this.fullPath}`);
+                    ussFileProvider.getTreeView().reveal(this, { select: true, focus: true, expand: false });
+                    await this.initializeFileOpening(UssFSProvider.buildUri(this.getProfileName(), this.fullPath), shouldPreview);
+                    return;
+                }
+
                 const documentFilePath = this.getUSSDocumentFilePath();
                 // check if some other file is already created with the same name avoid opening file warn user
                 const fileExists = fs.existsSync(documentFilePath);
@@ -490,20 +574,32 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
                     if (download || !fileExists) {
                         const cachedProfile = Profiles.getInstance().loadNamedProfile(this.getProfileName());
                         const fullPath = this.fullPath;
-                        const chooseBinary =
-                            this.binary || (await ZoweExplorerApiRegister.getUssApi(cachedProfile).isFileTagBinOrAscii(this.fullPath));
+                        const transfer = await getTransferOptions(cachedProfile, this.fullPath, this.binary);
 
                         const statusMsg = Gui.setStatusBarMessage(localize("ussFile.opening", "$(sync~spin) Opening USS file..."));
                         const response = await ZoweExplorerApiRegister.getUssApi(cachedProfile).getContents(fullPath, {
                             file: documentFilePath,
-                            binary: chooseBinary,
+                            binary: transfer.binary,
                             returnEtag: true,
-                            encoding: cachedProfile.profile?.encoding,
+                            encoding: transfer.encoding,
                             responseTimeout: cachedProfile.profile?.responseTimeout,
                         });
                         statusMsg.dispose();
+                        const savedAt = OfflineCache.getSavedAt(response);
+                        if (savedAt) {
+                            // The host could not be reached, the cached contents cannot be saved
+                            await this.initializeFileOpening(
+                                OfflineCache.openReadOnly(this.getProfileName(), fullPath, documentFilePath, savedAt),
+                                shouldPreview
+                            );
+                            return;
+                        }
+                        this.setTransferOptions(transfer);
                         this.downloaded = true;
                         this.setEtag(response.apiResponse.etag);
+                        if (!transfer.binary) {
+                            setBaseContent(documentFilePath);
+                        }
                     }
 
                     // Add document name to recently-opened files
@@ -558,15 +654,20 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
 
             if ((isDirty && !this.isDirtyInEditor && !wasSaved) || !isDirty) {
                 const cachedProfile = Profiles.getInstance().loadNamedProfile(this.getProfileName());
+                const transfer = await getTransferOptions(cachedProfile, this.fullPath, this.binary);
                 const response = await ZoweExplorerApiRegister.getUssApi(cachedProfile).getContents(this.fullPath, {
                     file: ussDocumentFilePath,
-                    binary: this.binary || (await ZoweExplorerApiRegister.getUssApi(cachedProfile).isFileTagBinOrAscii(this.fullPath)),
+                    binary: transfer.binary,
                     returnEtag: true,
-                    encoding: cachedProfile?.profile?.encoding,
+                    encoding: transfer.encoding,
                     responseTimeout: cachedProfile?.profile?.responseTimeout,
                 });
                 this.setEtag(response.apiResponse.etag);
+                this.setTransferOptions(transfer);
                 this.downloaded = true;
+                if (!transfer.binary) {
+                    setBaseContent(ussDocumentFilePath);
+                }
 
                 if (isDirty) {
                     await this.initializeFileOpening(ussDocumentFilePath, true);
@@ -586,14 +687,25 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
         }
     }
 
-    public async initializeFileOpening(documentPath: string, previewFile?: boolean): Promise<void> {
+    private setTransferOptions(transfer: IUssTransferOptions): void {
+        // The contents are saved in the codeset they were downloaded in
+        this.encoding = transfer.encoding;
+        if (transfer.tag) {
+            this.tag = transfer.tag;
+        }
+    }
+
+    public async initializeFileOpening(documentPath: string | vscode.Uri, previewFile?: boolean): Promise<void> {
         ZoweLogger.trace("ZoweUSSNode.initializeFileOpening called.");
         let document;
         let openingTextFailed = false;
 
         if (!this.binary) {
             try {
-                document = await vscode.workspace.openTextDocument(documentPath);
+                document =
+                    typeof documentPath === "string"
+                        ? await vscode.workspace.openTextDocument(documentPath)
+                        : await vscode.workspace.openTextDocument(documentPath);
             } catch (err) {
                 ZoweLogger.warn(err);
                 openingTextFailed = true;
@@ -619,7 +731,7 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
                 }
             }
         } else {
-            const uriPath = vscode.Uri.file(documentPath);
+            const uriPath = typeof documentPath === "string" ? vscode.Uri.file(documentPath) : documentPath;
             await vscode.commands.executeCommand("vscode.open", uriPath);
         }
     }
@@ -745,9 +857,94 @@ export class ZoweUSSNode extends ZoweTreeNode implements IZoweUSSTreeNode {
         }
     }
 
+    /**
+     * Reads the symbolic links of the listed items and resolves their targets, unless they are not followed.
+     * A link to this directory or to one of its parents is a loop, expanding it would show the same directories again and again.
+     */
+    private async getSymlinks(responses: IZosFilesResponse[]): Promise<Record<string, IUssSymlink>> {
+        const followSymlinks = SettingsConfig.getDirectValue<boolean>(globals.SETTINGS_USS_FOLLOW_SYMLINKS) !== false;
+        const realPath = this.getRealPath();
+        const items: Record<string, any>[] = [].concat(...responses.map((response) => (response.apiResponse?.items ?? []) as Record<string, any>[]));
+        // The directories listed to resolve the targets, so that each of them is listed once
+        const listings = new Map([[realPath, Promise.resolve(items)]]);
+        const symlinks: Record<string, IUssSymlink> = {};
+        for (const item of items) {
+            const symlink = getUssSymlink(item, realPath);
+            if (symlink == null || !followSymlinks) {
+                symlinks[item.name] = symlink;
+                continue;
+            }
+            const ussApi = ZoweExplorerApiRegister.getUssApi(Profiles.getInstance().loadNamedProfile(this.getProfileName()));
+            const resolved = await resolveSymlink(ussApi, symlink, listings);
+            // The target is this directory or one of its parents
+            const isLoop = resolved.type === "directory" && `${realPath}/`.startsWith(resolved.path.replace(/\/?$/, "/"));
+            symlinks[item.name] = isLoop ? { ...resolved, type: "loop" } : resolved;
+        }
+        return symlinks;
+    }
+
+    /**
+     * Creates the node of a symbolic link. Links to directories and files are shown like them, the other links cannot be expanded or opened.
+     */
+    private createSymlinkNode(item: Record<string, any>, symlink: IUssSymlink): ZoweUSSNode {
+        const isDirectory = symlink.type === "directory";
+        const node = new ZoweUSSNode(
+            item.name,
+            isDirectory ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            this,
+            null,
+            this.fullPath,
+            `${this.fullPath}/${item.name as string}` in this.getSessionNode().binaryFiles,
+            item.mProfileName
+        );
+        node.symlink = symlink;
+        if (isDirectory) {
+            node.contextValue = globals.USS_DIR_CONTEXT + globals.SYMLINK_SUFFIX;
+        } else if (symlink.type === "file") {
+            node.contextValue += globals.SYMLINK_SUFFIX;
+            node.command = {
+                command: "zowe.uss.ZoweUSSNode.open",
+                title: localize("getChildren.responses.open", "Open"),
+                arguments: [node],
+            };
+        } else {
+            node.contextValue = globals.USS_SYMLINK_CONTEXT;
+        }
+        node.description = formatSymlink(symlink);
+        node.tooltip = injectAdditionalDataToTooltip(node, node.fullPath);
+        const icon = getIconByNode(node);
+        if (icon) {
+            node.iconPath = icon.path;
+        }
+        return node;
+    }
+
     private returnmProfileName(): string {
         return this.mProfileName;
     }
+
+    /**
+     * Decorates the children listed from the offline cache as stale, until the host can be reached again
+     */
+    private decorateStaleChildren(responses: IZosFilesResponse[]): void {
+        const savedAt = responses.map((response) => OfflineCache.getSavedAt(response)).find((date) => date != null);
+        for (const child of this.children as ZoweUSSNode[]) {
+            child.resourceUri = savedAt ? OfflineCache.getStaleUri(this.getProfileName(), child.fullPath, savedAt) : undefined;
+        }
+    }
+
+    /**
+     * Files can be opened when the profile is valid, or from the offline cache when the profile could not be validated
+     * and the contents of the file were recorded
+     */
+    private canOpen(): boolean {
+        const validProfile = Profiles.getInstance().validProfile;
+        return (
+            validProfile === ValidProfileEnum.VALID ||
+            validProfile === ValidProfileEnum.UNVERIFIED ||
+            OfflineCache.hasContents(this.getProfileName(), this.fullPath)
+        );
+    }
 }
 
 let wasSavedRecently = false;
@@ -14,9 +14,12 @@ import { imperative, IZosFilesResponse } from "@zowe/cli";
 import * as fs from "fs";
 import * as globals from "../globals";
 import * as path from "path";
-import { concatChildNodes, uploadContent, getSelectedNodeList, getDefaultUri, compareFileContent } from "../shared/utils";
-import { errorHandling } from "../utils/ProfilesUtils";
-import { Gui, ValidProfileEnum, IZoweTree, IZoweUSSTreeNode } from "@zowe/zowe-explorer-api";
+import { concatChildNodes, uploadContent, getSelectedNodeList, getDefaultUri, compareFileContent, checkIfChildPath } from "../shared/utils";
+import { setBaseContent } from "../shared/merge";
+import { LocalHistory } from "../shared/LocalHistory";
+import { FolderDownload } from "../shared/FolderDownload";
+import { errorHandling, isTransientError } from "../utils/ProfilesUtils";
+import { Gui, ValidProfileEnum, IZoweTree, IZoweUSSTreeNode, IZoweDatasetTreeNode, ZoweExplorerApi } from "@zowe/zowe-explorer-api";
 import { Profiles } from "../Profiles";
 import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
 import { isBinaryFileSync } from "isbinaryfile";
@@ -25,9 +28,13 @@ import { markDocumentUnsaved, setFileSaved } from "../utils/workspace";
 import * as nls from "vscode-nls";
 import { refreshAll } from "../shared/refresh";
 import { IUploadOptions } from "@zowe/zos-files-for-zowe-sdk";
-import { fileExistsCaseSensitveSync } from "./utils";
+import { fileExistsCaseSensitveSync, formatTag, getTransferOptions, getUssAttributes, IUssAttributes } from "./utils";
+import { ZoweUSSNode } from "./ZoweUSSNode";
+import { showPropertiesView } from "./PropertiesView";
 import { UssFileTree, UssFileType } from "./FileStructure";
 import { ZoweLogger } from "../utils/LoggerUtils";
+import { getIconByNode } from "../generators/icons";
+import { getNodeLabels } from "../dataset/utils";
 
 // Set up localization
 nls.config({
@@ -155,9 +162,20 @@ export async function uploadDialog(node: IZoweUSSTreeNode, ussFileProvider: IZow
     };
 
     const value = await Gui.showOpenDialog(fileOpenOptions);
+    await uploadFiles(node, value, ussFileProvider);
+}
 
+/**
+ * Uploads local files to a USS directory, in binary mode for the binary files, and refreshes the tree
+ *
+ * @param node The directory to upload the files to
+ * @param files The local files, such as the files selected in a dialog or dropped on the tree
+ * @param ussFileProvider File provider for USS tree
+ */
+export async function uploadFiles(node: IZoweUSSTreeNode, files: vscode.Uri[], ussFileProvider: IZoweTree<IZoweUSSTreeNode>): Promise<void> {
+    ZoweLogger.trace("uss.actions.uploadFiles called.");
     await Promise.all(
-        value.map(async (item) => {
+        files.map(async (item) => {
             const isBinary = isBinaryFileSync(item.fsPath);
 
             if (isBinary) {
@@ -171,6 +189,71 @@ export async function uploadDialog(node: IZoweUSSTreeNode, ussFileProvider: IZow
     ussFileProvider.refresh();
 }
 
+/**
+ * Copies data set members and sequential data sets to a USS directory, such as the members dragged from the Data Sets tree.
+ * Each of them is downloaded to a temporary file named after the member or data set, and uploaded with `uploadFiles`.
+ * The members and data sets with the same name as a file or directory of the target directory are reported and not copied.
+ *
+ * @param node The directory to copy the data sets to
+ * @param dsNodes The members and sequential data sets to copy, the other nodes are skipped
+ * @param ussFileProvider File provider for USS tree
+ */
+export async function copyDataSetsToUss(
+    node: IZoweUSSTreeNode,
+    dsNodes: IZoweDatasetTreeNode[],
+    ussFileProvider: IZoweTree<IZoweUSSTreeNode>
+): Promise<void> {
+    ZoweLogger.trace("uss.actions.copyDataSetsToUss called.");
+    let existingNames: string[];
+    try {
+        const response = await ZoweExplorerApiRegister.getUssApi(node.getProfile()).fileList(node.fullPath);
+        existingNames = (response.apiResponse?.items ?? []).map((item) => item.name as string);
+    } catch (err) {
+        await errorHandling(err, node.getProfileName(), localize("copyDataSetsToUss.listError", "Unable to list the files of {0}.", node.fullPath));
+        return;
+    }
+    const files: vscode.Uri[] = [];
+    try {
+        for (const dsNode of dsNodes.filter((selected) => contextually.isDsMember(selected) || contextually.isDs(selected))) {
+            const prof = dsNode.getProfile();
+            const { dataSetName, memberName } = getNodeLabels(dsNode);
+            const fullName = memberName ? `${dataSetName}(${memberName})` : dataSetName;
+            if (existingNames.includes(memberName ?? dataSetName)) {
+                Gui.errorMessage(
+                    localize(
+                        "copyDataSetsToUss.exists",
+                        "{0} was not copied, a file or directory with the same name already exists in {1}.",
+                        fullName,
+                        node.fullPath
+                    )
+                );
+                continue;
+            }
+            const file = path.join(globals.DS_DIR, ".drop", prof.name, dataSetName, memberName ?? "");
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            try {
+                await ZoweExplorerApiRegister.getMvsApi(prof).getContents(fullName, {
+                    file,
+                    encoding: prof.profile?.encoding,
+                    responseTimeout: prof.profile?.responseTimeout,
+                });
+                files.push(vscode.Uri.file(file));
+            } catch (err) {
+                await errorHandling(err, prof.name, localize("copyDataSetsToUss.error", "Unable to download {0}.", fullName));
+            }
+        }
+        if (files.length > 0) {
+            await uploadFiles(node, files, ussFileProvider);
+        }
+    } finally {
+        for (const file of files) {
+            if (fs.existsSync(file.fsPath)) {
+                fs.unlinkSync(file.fsPath);
+            }
+        }
+    }
+}
+
 export async function uploadBinaryFile(node: IZoweUSSTreeNode, filePath: string): Promise<void> {
     ZoweLogger.trace("uss.actions.uploadBinaryFile called.");
     try {
@@ -258,6 +341,7 @@ export async function saveUSSFile(doc: vscode.TextDocument, ussFileProvider: IZo
 
     // get session from session name
     let binary;
+    let encoding: string;
 
     const sesNode: IZoweUSSTreeNode = ussFileProvider.mSessionNodes.find(
         (child) => child.getProfileName() && child.getProfileName() === sesName.trim()
@@ -294,7 +378,9 @@ export async function saveUSSFile(doc: vscode.TextDocument, ussFileProvider: IZo
 
     try {
         if (sesNode) {
-            binary = binary || (await ZoweExplorerApiRegister.getUssApi(sesNode.getProfile()).isFileTagBinOrAscii(remote));
+            ({ binary, encoding } = await getTransferOptions(sesNode.getProfile(), remote, binary));
+            // Keep the version that is replaced by the upload
+            await LocalHistory.saveVersion(sesNode.getProfile(), remote, undefined, binary);
         }
         const uploadResponse: IZosFilesResponse = await Gui.withProgress(
             {
@@ -302,7 +388,7 @@ export async function saveUSSFile(doc: vscode.TextDocument, ussFileProvider: IZo
                 title: localize("saveUSSFile.response.title", "Saving file..."),
             },
             () => {
-                return uploadContent(sesNode, doc, remote, sesNode.getProfile(), binary, etagToUpload, returnEtag);
+                return uploadContent(sesNode, doc, remote, sesNode.getProfile(), binary, etagToUpload, returnEtag, encoding);
             }
         );
         if (uploadResponse.success) {
@@ -311,6 +397,7 @@ export async function saveUSSFile(doc: vscode.TextDocument, ussFileProvider: IZo
             if (node) {
                 node.setEtag(uploadResponse.apiResponse.etag);
             }
+            setBaseContent(doc.fileName, doc.getText());
             setFileSaved(true);
             // this part never runs! zowe.Upload.fileToUSSFile doesn't return success: false, it just throws the error which is caught below!!!!!
         } else {
@@ -322,6 +409,9 @@ export async function saveUSSFile(doc: vscode.TextDocument, ussFileProvider: IZo
         const errorMessage = err ? err.message : err.toString();
         if (errorMessage.includes("Rest API failure with HTTP(S) status 412")) {
             await compareFileContent(doc, node, null, binary);
+        } else if (isTransientError(err)) {
+            // let the save queue retry the upload once the connection is back
+            throw err;
         } else {
             await markDocumentUnsaved(doc);
             await errorHandling(err, sesName);
@@ -354,6 +444,222 @@ export async function deleteUSSFilesPrompt(nodes: IZoweUSSTreeNode[]): Promise<b
     return cancelled;
 }
 
+/**
+ * Downloads a USS directory and its subdirectories to a local folder. The files marked as binary in the tree
+ * are downloaded in binary mode, the other files as text.
+ *
+ * @param {IZoweUSSTreeNode} node - the directory node, or the profile node with a searched path
+ */
+export async function downloadToFolder(node: IZoweUSSTreeNode): Promise<void> {
+    ZoweLogger.trace("uss.actions.downloadToFolder called.");
+    const profile = node.getProfile();
+    const ussApi = ZoweExplorerApiRegister.getUssApi(profile);
+    const binaryFiles = (node.getSessionNode() as IZoweUSSTreeNode).binaryFiles;
+    const options = { encoding: profile.profile?.encoding, responseTimeout: profile.profile?.responseTimeout };
+    await FolderDownload.start(node.fullPath, async (download) => {
+        const listDirectory = async (dirPath: string, relativePath: string): Promise<void> => {
+            let items: { name: string; mode: string }[];
+            try {
+                items = (await ussApi.fileList(dirPath)).apiResponse?.items ?? [];
+            } catch (err) {
+                download.fail(dirPath, err);
+                return;
+            }
+            for (const item of items.filter((child) => child.name !== "." && child.name !== "..")) {
+                if (download.token.isCancellationRequested) {
+                    return;
+                }
+                const fullPath = `${dirPath.replace(/\/$/, "")}/${item.name}`;
+                if (item.mode?.startsWith("d")) {
+                    await listDirectory(fullPath, path.join(relativePath, item.name));
+                } else if (item.mode?.startsWith("-")) {
+                    download.add({
+                        name: fullPath,
+                        relativePath: path.join(relativePath, item.name),
+                        download: (file) => ussApi.getContents(fullPath, { ...options, file, binary: fullPath in binaryFiles }),
+                    });
+                }
+            }
+        };
+        await listDirectory(node.fullPath, path.posix.basename(node.fullPath) || node.getProfileName());
+    });
+}
+
+/**
+ * Lists the permissions, owner and group of a file or directory and shows them in the properties view,
+ * where they can be changed
+ *
+ * @param {IZoweUSSTreeNode} node - the file or directory
+ * @param {IZoweTree<IZoweUSSTreeNode>} ussFileProvider
+ */
+export async function showProperties(node: IZoweUSSTreeNode, ussFileProvider: IZoweTree<IZoweUSSTreeNode>): Promise<void> {
+    ZoweLogger.trace("uss.actions.showProperties called.");
+    let attributes: IUssAttributes;
+    try {
+        attributes = await listAttributes(node);
+        if (!attributes) {
+            throw new Error(localize("showProperties.notFound", "No permissions were listed for {0}", node.fullPath));
+        }
+    } catch (err) {
+        await errorHandling(err, node.getProfileName(), localize("showProperties.error", "Unable to list the properties of {0}", node.fullPath));
+        return;
+    }
+    showPropertiesView(node, attributes, ussFileProvider);
+}
+
+async function listAttributes(node: IZoweUSSTreeNode): Promise<IUssAttributes | undefined> {
+    const ussApi = ZoweExplorerApiRegister.getUssApi(node.getProfile());
+    const items: Record<string, unknown>[] = (await ussApi.fileList(node.fullPath)).apiResponse?.items ?? [];
+    if (!contextually.isUssDirectory(node)) {
+        return items.length > 0 ? getUssAttributes(items[0]) : undefined;
+    }
+    // z/OSMF lists a directory with its own entry, other APIs only list its contents so the parent directory is listed
+    const ownEntry = items.find((item) => item.name === ".");
+    if (ownEntry) {
+        return getUssAttributes(ownEntry);
+    }
+    const parentItems: Record<string, unknown>[] = (await ussApi.fileList(path.posix.dirname(node.fullPath))).apiResponse?.items ?? [];
+    const entry = parentItems.find((item) => item.name === path.posix.basename(node.fullPath));
+    return entry && getUssAttributes(entry);
+}
+
+/**
+ * Sets the file tag of a file, or of all the files of a directory and its subdirectories. The contents
+ * of the files are then transferred in the codeset of their tag.
+ *
+ * @param {IZoweUSSTreeNode} node - the file or directory
+ * @param {IZoweTree<IZoweUSSTreeNode>} ussFileProvider
+ */
+export async function setFileTag(node: IZoweUSSTreeNode, ussFileProvider: IZoweTree<IZoweUSSTreeNode>): Promise<void> {
+    ZoweLogger.trace("uss.actions.setFileTag called.");
+    const ussApi = ZoweExplorerApiRegister.getUssApi(node.getProfile());
+    if (ussApi.setTag == null) {
+        Gui.errorMessage(localize("setFileTag.notSupported", "The file tags of profile {0} cannot be changed.", node.getProfileName()));
+        return;
+    }
+    const isDirectory = contextually.isUssDirectory(node);
+    let current: ZoweExplorerApi.IUssFileTag;
+    if (!isDirectory && ussApi.getTag) {
+        try {
+            current = await ussApi.getTag(node.fullPath);
+        } catch (err) {
+            await errorHandling(err, node.getProfileName(), localize("setFileTag.getError", "Unable to get the file tag of {0}", node.fullPath));
+            return;
+        }
+    }
+    const tag = await promptFileTag(node, isDirectory, current);
+    if (!tag) {
+        return;
+    }
+    try {
+        await ussApi.setTag(node.fullPath, tag, isDirectory);
+    } catch (err) {
+        await errorHandling(err, node.getProfileName(), localize("setFileTag.error", "Unable to set the file tag of {0}", node.fullPath));
+        return;
+    }
+    await updateFileTags(node, tag);
+    ussFileProvider.refreshElement(node);
+    Gui.showMessage(
+        isDirectory
+            ? localize("setFileTag.directory.success", "The files of {0} were tagged {1}.", node.fullPath, formatTag(tag))
+            : localize("setFileTag.success", "{0} was tagged {1}.", node.fullPath, formatTag(tag))
+    );
+}
+
+async function promptFileTag(
+    node: IZoweUSSTreeNode,
+    isDirectory: boolean,
+    current: ZoweExplorerApi.IUssFileTag
+): Promise<ZoweExplorerApi.IUssFileTag | undefined> {
+    const types: [ZoweExplorerApi.IUssFileTag["type"], string][] = [
+        ["text", localize("setFileTag.text", "Text")],
+        ["mixed", localize("setFileTag.mixed", "Mixed")],
+        ["binary", localize("setFileTag.binary", "Binary")],
+        ["untagged", localize("setFileTag.untagged", "Untagged")],
+    ];
+    const items: vscode.QuickPickItem[] = types.map(([type, label]) => ({
+        label,
+        description: current?.type === type ? localize("setFileTag.current", "Current: {0}", formatTag(current)) : undefined,
+    }));
+    const choice = await Gui.showQuickPick(items, {
+        placeHolder: isDirectory
+            ? localize("setFileTag.directory.prompt", "Tag all the files of {0} and its subdirectories as", node.fullPath)
+            : localize("setFileTag.prompt", "Tag {0} as", node.fullPath),
+    });
+    if (!choice) {
+        return undefined;
+    }
+    const type = types[items.indexOf(choice)][0];
+    if (type === "binary" || type === "untagged") {
+        return { type };
+    }
+    const codeset = await Gui.showInputBox({
+        prompt: localize("setFileTag.codeset.prompt", "Enter the codeset of the contents, e.g. IBM-1047 or ISO8859-1"),
+        value: current?.codeset ?? "IBM-1047",
+        validateInput: (value) =>
+            /^[\w-]+$/.test(value.trim()) ? null : localize("setFileTag.codeset.invalid", "Enter the name or the CCSID of a codeset."),
+    });
+    return codeset == null ? undefined : { type, codeset: codeset.trim() };
+}
+
+// Updates the tag of the file, or of the files of the directory that were already listed
+async function updateFileTags(node: IZoweUSSTreeNode, tag: ZoweExplorerApi.IUssFileTag): Promise<void> {
+    if (contextually.isUssDirectory(node)) {
+        for (const child of node.children ?? []) {
+            await updateFileTags(child as IZoweUSSTreeNode, tag);
+        }
+        return;
+    }
+    if (node instanceof ZoweUSSNode) {
+        node.setTag(tag);
+        if (node.downloaded) {
+            // The local copy was converted from the previous codeset
+            await node.refreshUSS();
+        }
+    }
+}
+
+/**
+ * Reveals the target of a symbolic link in the tree. When the target is not under the filter of the session,
+ * the session is filtered with the directory of the target.
+ *
+ * @param {IZoweUSSTreeNode} node - the symbolic link
+ * @param {IZoweTree<IZoweUSSTreeNode>} ussFileProvider
+ */
+export async function goToSymlinkTarget(node: IZoweUSSTreeNode, ussFileProvider: IZoweTree<IZoweUSSTreeNode>): Promise<void> {
+    ZoweLogger.trace("uss.actions.goToSymlinkTarget called.");
+    const target = node instanceof ZoweUSSNode ? node.symlink?.path : undefined;
+    if (target == null) {
+        return;
+    }
+    const sessionNode = node.getSessionNode();
+    if (!checkIfChildPath(sessionNode.fullPath, target)) {
+        const directory = path.posix.dirname(target);
+        sessionNode.tooltip = sessionNode.fullPath = directory;
+        sessionNode.description = directory;
+        if (!contextually.isFilterFolder(sessionNode)) {
+            sessionNode.contextValue += `_${globals.FILTER_SEARCH}`;
+        }
+        const icon = getIconByNode(sessionNode);
+        if (icon) {
+            sessionNode.iconPath = icon.path;
+        }
+        sessionNode.dirty = true;
+        ussFileProvider.addSearchHistory(directory);
+    }
+
+    // Loads the directories down to the target, so that it can be revealed
+    let targetNode = sessionNode;
+    for (const name of path.posix.relative(sessionNode.fullPath, target).split("/").filter(Boolean)) {
+        targetNode = (await targetNode.getChildren()).find((child) => child.label === name);
+        if (targetNode == null) {
+            Gui.errorMessage(localize("goToSymlinkTarget.notFound", "The target of {0} was not found: {1}", node.fullPath, target));
+            return;
+        }
+    }
+    await ussFileProvider.getTreeView().reveal(targetNode, { select: true, focus: true, expand: false });
+}
+
 /**
  * Builds a file/directory structure that can be traversed from root to the innermost children.
  *
@@ -421,24 +727,46 @@ export async function ussFileStructure(selectedNodes: IZoweUSSTreeNode[]): Promi
  * object, saving it into a clipboard for future use.
  *
  * @param selectedNodes The list of USS tree nodes that were selected for copying.
+ * @param move Whether the files are cut, to be moved when they are pasted.
  */
-export async function copyUssFilesToClipboard(selectedNodes: IZoweUSSTreeNode[]): Promise<void> {
+export async function copyUssFilesToClipboard(selectedNodes: IZoweUSSTreeNode[], move = false): Promise<void> {
     ZoweLogger.trace("uss.actions.copyUssFilesToClipboard called.");
     const filePaths = await ussFileStructure(selectedNodes);
+    if (move) {
+        filePaths.move = true;
+    }
     vscode.env.clipboard.writeText(JSON.stringify(filePaths));
 }
 
+/**
+ * Copies or cuts the selected USS files and directories to the clipboard.
+ *
+ * @param node The node the command was run on
+ * @param nodeList The selected nodes
+ * @param ussFileProvider File provider for USS tree
+ * @param move Whether the files are cut, to be moved when they are pasted
+ */
 export async function copyUssFiles(
     node: IZoweUSSTreeNode,
     nodeList: IZoweUSSTreeNode[],
-    ussFileProvider: IZoweTree<IZoweUSSTreeNode>
+    ussFileProvider: IZoweTree<IZoweUSSTreeNode>,
+    move = false
 ): Promise<void> {
     ZoweLogger.trace("uss.actions.copyUssFiles called.");
-    let selectedNodes;
+    let selectedNodes: IZoweUSSTreeNode[];
     if (node || nodeList) {
         selectedNodes = getSelectedNodeList(node, nodeList) as IZoweUSSTreeNode[];
     } else {
-        selectedNodes = ussFileProvider.getTreeView().selection;
+        selectedNodes = ussFileProvider.getTreeView().selection as IZoweUSSTreeNode[];
+    }
+    if (move) {
+        // Sessions and favorites cannot be moved, like when they are dragged
+        selectedNodes = selectedNodes.filter(
+            (selected) => !contextually.isUssSession(selected) && !contextually.isFavoriteContext(selected) && !contextually.isFavProfile(selected)
+        );
+        if (selectedNodes.length === 0) {
+            return;
+        }
     }
     await Gui.withProgress(
         {
@@ -446,7 +774,7 @@ export async function copyUssFiles(
             title: localize("ZoweUssNode.copyDownload.progress", "Copying file structure..."),
         },
         () => {
-            return copyUssFilesToClipboard(selectedNodes);
+            return copyUssFilesToClipboard(selectedNodes, move);
         }
     );
 }
@@ -459,7 +787,8 @@ export async function refreshChildNodesDirectory(node: IZoweUSSTreeNode): Promis
             await refreshChildNodesDirectory(child);
         }
     } else {
-        if (node.contextValue !== globals.USS_DIR_CONTEXT) {
+        // Empty directories and the symbolic links that are not followed have nothing to refresh
+        if (contextually.isText(node) || contextually.isBinary(node)) {
             await node.refreshUSS();
         }
     }
@@ -476,7 +805,7 @@ export async function pasteUssFile(ussFileProvider: IZoweTree<IZoweUSSTreeNode>,
 }
 
 /**
- * Paste copied USS nodes into the selected node.
+ * Paste copied USS nodes into the selected node. The nodes that were cut are moved instead.
  * @param ussFileProvider File provider for USS tree
  * @param node The node to paste within
  */
@@ -488,6 +817,14 @@ export async function pasteUss(ussFileProvider: IZoweTree<IZoweUSSTreeNode>, nod
         selectedNode = a.length > 0 ? a[0] : (a as unknown as IZoweUSSTreeNode);
     }
 
+    const cutFiles = getCutUssFiles(await vscode.env.clipboard.readText());
+    if (cutFiles) {
+        // The files are moved once, pasting them again would copy files that no longer exist
+        await vscode.env.clipboard.writeText("");
+        await moveUssFiles(ussFileProvider, cutFiles, selectedNode);
+        return;
+    }
+
     await Gui.withProgress(
         {
             location: vscode.ProgressLocation.Window,
@@ -500,3 +837,278 @@ export async function pasteUss(ussFileProvider: IZoweTree<IZoweUSSTreeNode>, nod
     const nodeToRefresh = node?.contextValue != null && contextually.isUssSession(node) ? selectedNode : selectedNode.getParent();
     ussFileProvider.refreshElement(nodeToRefresh);
 }
+
+/**
+ * Reads the file tree of the clipboard, if its files were cut to be moved
+ */
+function getCutUssFiles(clipboardContents: string): UssFileTree | undefined {
+    try {
+        const fileTree: UssFileTree = JSON.parse(clipboardContents);
+        return fileTree?.move ? fileTree : undefined;
+    } catch (err) {
+        return undefined;
+    }
+}
+
+/**
+ * Moves USS files and directories to a directory, or to the path searched in a session.
+ * Within the same profile, the files are renamed. Between profiles, which can be on other systems or use other APIs,
+ * each file is copied and the copy is verified before the original is deleted. When the copy or its verification fails,
+ * the copied files are removed so that the original is left as it was.
+ *
+ * @param ussFileProvider File provider for USS tree
+ * @param fileTree The files and directories to move, as built by `ussFileStructure`
+ * @param node The directory or session to move the files to, or a file of this directory
+ */
+export async function moveUssFiles(ussFileProvider: IZoweTree<IZoweUSSTreeNode>, fileTree: UssFileTree, node: IZoweUSSTreeNode): Promise<void> {
+    ZoweLogger.trace("uss.actions.moveUssFiles called.");
+    const target = contextually.isUssDirectory(node) || contextually.isUssSession(node) ? node : node.getParent();
+    const targetSession = target.getSessionNode().getLabel() as string;
+    if (!target.fullPath) {
+        Gui.showMessage(localize("moveUssFiles.noPath", "Search a path in {0} to move files to it.", targetSession));
+        return;
+    }
+
+    const targetApi = ZoweExplorerApiRegister.getUssApi(target.getProfile());
+    const moved: UssFileTree[] = [];
+    try {
+        const response = await targetApi.fileList(target.fullPath);
+        const existingNames: string[] = (response.apiResponse?.items ?? []).map((item) => item.name as string);
+        await Gui.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: localize("moveUssFiles.progress", "Moving files to {0}", target.fullPath),
+            },
+            async (progress) => {
+                for (const [index, tree] of fileTree.children.entries()) {
+                    Gui.reportProgress(progress, fileTree.children.length, index, localize("moveUssFiles.progress.item", "Moving"));
+                    const outputPath = `${target.fullPath}/${tree.baseName}`;
+                    const sameSession = tree.sessionName === targetSession;
+                    if (sameSession && outputPath === tree.ussPath) {
+                        continue;
+                    }
+                    if (existingNames.includes(tree.baseName)) {
+                        Gui.errorMessage(
+                            localize(
+                                "moveUssFiles.exists",
+                                "{0} was not moved, a file or directory with the same name already exists in {1}.",
+                                tree.ussPath,
+                                target.fullPath
+                            )
+                        );
+                        continue;
+                    }
+                    if (sameSession && `${outputPath}/`.startsWith(`${tree.ussPath}/`)) {
+                        Gui.errorMessage(localize("moveUssFiles.intoItself", "{0} cannot be moved into itself.", tree.ussPath));
+                        continue;
+                    }
+                    if (await moveUssFile(tree, { api: targetApi, profile: target.getProfile(), path: outputPath }, progress)) {
+                        moved.push(tree);
+                    }
+                }
+            }
+        );
+    } catch (err) {
+        await errorHandling(err, targetSession, localize("moveUssFiles.error", "Unable to move files to {0}", target.fullPath));
+    }
+
+    ussFileProvider.refreshElement(target);
+    for (const tree of moved) {
+        const session = ussFileProvider.mSessionNodes.find((sessionNode) => sessionNode.getLabel() === tree.sessionName);
+        const sourceParent = session && findLoadedUssNode(session, path.posix.dirname(tree.ussPath));
+        if (sourceParent) {
+            ussFileProvider.refreshElement(sourceParent);
+        }
+    }
+}
+
+/**
+ * Moves a file or directory, and reports the step that failed and whether the copied files were removed.
+ *
+ * @returns whether the file or directory was moved
+ */
+async function moveUssFile(
+    tree: UssFileTree,
+    target: { api: ZoweExplorerApi.IUss; profile: imperative.IProfileLoaded; path: string },
+    progress: vscode.Progress<{ message?: string; increment?: number }>
+): Promise<boolean> {
+    const sourceProfile = Profiles.getInstance().loadNamedProfile(tree.sessionName);
+    const sourceApi = ZoweExplorerApiRegister.getUssApi(sourceProfile);
+    if (sourceProfile.name === target.profile.name) {
+        try {
+            await sourceApi.rename(tree.ussPath, target.path);
+            return true;
+        } catch (err) {
+            await errorHandling(
+                err,
+                tree.sessionName,
+                localize("moveUssFiles.rename.error", "Unable to move {0} to {1}.", tree.ussPath, target.path)
+            );
+            return false;
+        }
+    }
+
+    try {
+        progress.report({ message: localize("moveUssFiles.progress.copy", "Copying {0} to {1}", tree.ussPath, target.profile.name) });
+        await copyUssTree(tree, { api: sourceApi, profile: sourceProfile }, target);
+        progress.report({ message: localize("moveUssFiles.progress.verify", "Verifying the copy of {0}", tree.ussPath) });
+        const missing = await findMissingUssFiles(
+            { source: sourceApi, target: target.api },
+            [tree],
+            path.posix.dirname(tree.ussPath),
+            path.posix.dirname(target.path)
+        );
+        if (missing.length > 0) {
+            throw new Error(
+                localize("moveUssFiles.verify.error", "The copy of these files was not found or does not have the same size: {0}", missing.join(", "))
+            );
+        }
+    } catch (err) {
+        let rollback = localize(
+            "moveUssFiles.rollback",
+            "The copied files were removed from {0}, {1} was not changed.",
+            target.profile.name,
+            tree.ussPath
+        );
+        try {
+            await target.api.delete(target.path, tree.type === UssFileType.Directory);
+        } catch (rollbackErr) {
+            ZoweLogger.error(rollbackErr);
+            rollback = localize(
+                "moveUssFiles.rollback.error",
+                "The copied files could not be removed from {0} of {1}.",
+                target.path,
+                target.profile.name
+            );
+        }
+        await errorHandling(
+            err,
+            target.profile.name,
+            localize("moveUssFiles.copy.error", "Unable to copy {0} to {1} of {2}. {3}", tree.ussPath, target.path, target.profile.name, rollback)
+        );
+        return false;
+    }
+
+    try {
+        progress.report({ message: localize("moveUssFiles.progress.delete", "Deleting {0} from {1}", tree.ussPath, sourceProfile.name) });
+        await sourceApi.delete(tree.ussPath, tree.type === UssFileType.Directory);
+    } catch (err) {
+        await errorHandling(
+            err,
+            sourceProfile.name,
+            localize(
+                "moveUssFiles.delete.error",
+                "{0} was copied to {1} of {2}, but it could not be deleted from {3}.",
+                tree.ussPath,
+                target.path,
+                target.profile.name,
+                sourceProfile.name
+            )
+        );
+    }
+    return true;
+}
+
+/**
+ * Copies a file or directory to another profile. Each file is downloaded to a temporary file and uploaded,
+ * rather than using the local copy of an opened file that may not be up to date. The files are transferred
+ * as their file tag requires, and the tag is set on the copy when the API of the target profile can set it.
+ */
+async function copyUssTree(
+    tree: UssFileTree,
+    source: { api: ZoweExplorerApi.IUss; profile: imperative.IProfileLoaded },
+    target: { api: ZoweExplorerApi.IUss; profile: imperative.IProfileLoaded; path: string }
+): Promise<void> {
+    if (tree.type === UssFileType.Directory) {
+        await target.api.create(target.path, "directory");
+        for (const child of tree.children) {
+            await copyUssTree(child, source, { ...target, path: `${target.path}/${child.baseName}` });
+        }
+        return;
+    }
+
+    if (!target.api.putContent) {
+        throw new Error(localize("moveUssFiles.missingApis", "The API of {0} cannot upload files.", target.profile.name));
+    }
+    const file = path.join(globals.USS_DIR, ".move", source.profile.name, tree.ussPath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    try {
+        const transfer = await getTransferOptions(source.profile, tree.ussPath, tree.binary);
+        // The copy is verified by size when it is transferred in binary mode
+        tree.binary = transfer.binary;
+        await source.api.getContents(tree.ussPath, {
+            file,
+            binary: transfer.binary,
+            encoding: transfer.encoding,
+            responseTimeout: source.profile.profile?.responseTimeout,
+        });
+        await target.api.putContent(file, target.path, {
+            binary: transfer.binary,
+            // Text tagged with a codeset is converted back to that codeset
+            encoding: transfer.tag ? transfer.encoding : target.profile.profile?.encoding,
+            responseTimeout: target.profile.profile?.responseTimeout,
+        });
+        if (transfer.tag && transfer.tag.type !== "untagged" && target.api.setTag) {
+            await target.api.setTag(target.path, transfer.tag);
+        }
+    } finally {
+        if (fs.existsSync(file)) {
+            fs.unlinkSync(file);
+        }
+    }
+}
+
+/**
+ * Lists a directory to verify that the files and directories of a tree exist in it, with the same type.
+ * The files transferred in binary mode must also have the size of the originals, the size of text files
+ * changes when they are converted.
+ *
+ * @returns the paths of the files and directories that are missing or do not have the same size
+ */
+async function findMissingUssFiles(
+    ussApis: { source: ZoweExplorerApi.IUss; target: ZoweExplorerApi.IUss },
+    trees: UssFileTree[],
+    sourceDirectory: string,
+    directory: string
+): Promise<string[]> {
+    const items = await listUssItems(ussApis.target, directory);
+    const sourceItems = trees.some((tree) => tree.binary) ? await listUssItems(ussApis.source, sourceDirectory) : [];
+    const missing: string[] = [];
+    for (const tree of trees) {
+        const itemPath = `${directory}/${tree.baseName}`;
+        const isDirectory = tree.type === UssFileType.Directory;
+        const item = items.find((listed) => listed.name === tree.baseName);
+        const sourceItem = sourceItems.find((listed) => listed.name === tree.baseName);
+        // The APIs that do not list the mode or the size of the files are only verified by name
+        const listedAsDirectory = typeof item?.mode === "string" ? item.mode.startsWith("d") : isDirectory;
+        const sizeDiffers = typeof item?.size === "number" && typeof sourceItem?.size === "number" && item.size !== sourceItem.size;
+        if (item == null || listedAsDirectory !== isDirectory || (tree.binary && sizeDiffers)) {
+            missing.push(itemPath);
+        } else if (isDirectory && tree.children.length > 0) {
+            missing.push(...(await findMissingUssFiles(ussApis, tree.children, tree.ussPath, itemPath)));
+        }
+    }
+    return missing;
+}
+
+async function listUssItems(ussApi: ZoweExplorerApi.IUss, directory: string): Promise<Record<string, any>[]> {
+    const response = await ussApi.fileList(directory);
+    const items: Record<string, any>[] = response.apiResponse?.items ?? [];
+    return items;
+}
+
+/**
+ * Finds a node of the tree by its path, among the nodes that are already loaded
+ */
+function findLoadedUssNode(node: IZoweUSSTreeNode, fullPath: string): IZoweUSSTreeNode | undefined {
+    if (node.fullPath === fullPath) {
+        return node;
+    }
+    for (const child of node.children ?? []) {
+        const found = findLoadedUssNode(child, fullPath);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
@@ -21,6 +21,8 @@ import { createUSSTree } from "./USSTree";
 import { initSubscribers } from "../shared/init";
 import { ZoweLogger } from "../utils/LoggerUtils";
 import { TreeViewUtils } from "../utils/TreeViewUtils";
+import { LocalHistory } from "../shared/LocalHistory";
+import { FolderSync } from "../shared/FolderSync";
 
 export async function initUSSProvider(context: vscode.ExtensionContext): Promise<IZoweTree<IZoweUSSTreeNode>> {
     ZoweLogger.trace("init.initUSSProvider called.");
@@ -179,6 +181,42 @@ export async function initUSSProvider(context: vscode.ExtensionContext): Promise
             await ussFileProvider.copying;
         })
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.uss.cutUssFile", async (node: IZoweUSSTreeNode, nodeList: IZoweUSSTreeNode[]) => {
+            ussFileProvider.copying = ussActions.copyUssFiles(node, nodeList, ussFileProvider, true);
+            await ussFileProvider.copying;
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.uss.showHistory", async (node: IZoweUSSTreeNode): Promise<void> => LocalHistory.showHistory(node))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "zowe.uss.downloadToFolder",
+            async (node: IZoweUSSTreeNode): Promise<void> => ussActions.downloadToFolder(node)
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("zowe.uss.syncFolder", async (node: IZoweUSSTreeNode): Promise<void> => FolderSync.syncFolder(node))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "zowe.uss.showProperties",
+            async (node: IZoweUSSTreeNode): Promise<void> => ussActions.showProperties(node, ussFileProvider)
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "zowe.uss.setFileTag",
+            async (node: IZoweUSSTreeNode): Promise<void> => ussActions.setFileTag(node, ussFileProvider)
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "zowe.uss.goToTarget",
+            async (node: IZoweUSSTreeNode): Promise<void> => ussActions.goToSymlinkTarget(node, ussFileProvider)
+        )
+    );
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration((e) => {
             ussFileProvider.onDidChangeConfiguration(e);
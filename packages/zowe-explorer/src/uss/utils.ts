@@ -12,8 +12,60 @@
 import * as path from "path";
 import * as fs from "fs";
 import * as vscode from "vscode";
+import { imperative } from "@zowe/cli";
+import { ZoweExplorerApi } from "@zowe/zowe-explorer-api";
 import { ZoweUSSNode } from "../uss/ZoweUSSNode";
+import { ZoweExplorerApiRegister } from "../ZoweExplorerApiRegister";
 import { ZoweLogger } from "../utils/LoggerUtils";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * Permissions and ownership of a USS file or directory
+ */
+export interface IUssAttributes {
+    // The mode as listed by `ls -l`, e.g. drwxr-xr-x
+    mode: string;
+    user?: string;
+    group?: string;
+}
+
+/**
+ * How the contents of a USS file are transferred
+ */
+export interface IUssTransferOptions {
+    binary: boolean;
+    // The codeset the contents are converted from, e.g. IBM-1047
+    encoding?: string;
+    // Undefined when the USS API of the profile cannot get the file tag
+    tag?: ZoweExplorerApi.IUssFileTag;
+}
+
+/**
+ * The target of a USS symbolic link
+ */
+export interface IUssSymlink {
+    // The target as listed by `ls -l`, absolute or relative to the directory of the link
+    target: string;
+    // The absolute path of the target, of the last link of a chain once the link is resolved
+    path: string;
+    // Undefined when the link is not followed
+    type?: "directory" | "file" | "broken" | "loop";
+}
+
+const PERMISSION_LENGTH = 9;
+const OCTAL_RADIX = 8;
+const OCTAL_DIGITS = 3;
+// The setuid, setgid and sticky bits, listed in place of the execute permission of the owner, the group and others
+const SPECIAL_BITS = "sst";
+// The number of links of a chain that are followed, like SYMLOOP_MAX
+const MAX_SYMLINK_DEPTH = 8;
 
 /**
  * Injects extra data to tooltip based on node status and other conditions
@@ -23,14 +75,232 @@ import { ZoweLogger } from "../utils/LoggerUtils";
  */
 export function injectAdditionalDataToTooltip(node: ZoweUSSNode, tooltip: string): string {
     ZoweLogger.trace("uss.utils.injectAdditionalDataToTooltip called.");
+    const details = getSymlinkTooltip(node.symlink) + getAttributesTooltip(node.attributes) + getTagTooltip(node.tag);
     if (node.downloaded && node.downloadedTime) {
         // TODO: Add time formatter to localization so we will use not just US variant
         return `${tooltip} (Downloaded: ${new Date(node.downloadedTime)
             .toISOString()
-            .replace(/(\d{4})-(\d{2})-(\d{2})T((\d{2}):(\d{2}):([^Z]+))Z/, "$5:$6 $2/$3/$1")})`;
+            .replace(/(\d{4})-(\d{2})-(\d{2})T((\d{2}):(\d{2}):([^Z]+))Z/, "$5:$6 $2/$3/$1")})${details}`;
+    }
+
+    return tooltip + details;
+}
+
+function getSymlinkTooltip(symlink: IUssSymlink): string {
+    return symlink ? `\n${localize("uss.tooltip.target", "Target: {0}", symlink.path)}` : "";
+}
+
+function getTagTooltip(tag: ZoweExplorerApi.IUssFileTag): string {
+    return tag ? `\n${localize("uss.tooltip.tag", "Tag: {0}", formatTag(tag))}` : "";
+}
+
+/**
+ * Formats a file tag the way `chtag -p` lists it, e.g. "t IBM-1047 T=on"
+ *
+ * @param {ZoweExplorerApi.IUssFileTag} tag
+ * @returns {string}
+ */
+export function formatTag(tag: ZoweExplorerApi.IUssFileTag): string {
+    switch (tag.type) {
+        case "text":
+            return `t ${tag.codeset} T=on`;
+        case "mixed":
+            return `m ${tag.codeset} T=off`;
+        case "binary":
+            return "b binary T=off";
+        default:
+            return "- untagged T=off";
+    }
+}
+
+/**
+ * Checks whether the contents of a file tagged with a codeset are not converted when they are transferred,
+ * because they are already ASCII, like the SDK does
+ *
+ * @param {string} codeset
+ * @returns {boolean}
+ */
+export function isAsciiCodeset(codeset: string): boolean {
+    return /^(ISO8859-|UTF-|UCS-|IBM-850$)/.test(codeset ?? "");
+}
+
+/**
+ * Chooses how to transfer the contents of a file from its file tag. Binary files and files tagged with
+ * an ASCII codeset are not converted, files tagged with an EBCDIC codeset are converted from that codeset,
+ * and untagged files from the encoding of the profile.
+ *
+ * @param {imperative.IProfileLoaded} profile
+ * @param {string} ussPath
+ * @param {boolean} binary whether the file was marked as binary in the tree
+ * @returns {Promise<IUssTransferOptions>}
+ */
+export async function getTransferOptions(profile: imperative.IProfileLoaded, ussPath: string, binary: boolean): Promise<IUssTransferOptions> {
+    ZoweLogger.trace("uss.utils.getTransferOptions called.");
+    const encoding = profile?.profile?.encoding;
+    if (binary) {
+        return { binary, encoding };
+    }
+    const ussApi = ZoweExplorerApiRegister.getUssApi(profile);
+    if (ussApi.getTag == null) {
+        return { binary: await ussApi.isFileTagBinOrAscii(ussPath), encoding };
+    }
+    const tag = await ussApi.getTag(ussPath);
+    if (tag.type === "binary" || isAsciiCodeset(tag.codeset)) {
+        return { binary: true, encoding, tag };
+    }
+    return { binary: false, encoding: tag.codeset ?? encoding, tag };
+}
+
+function getAttributesTooltip(attributes: IUssAttributes): string {
+    if (!attributes) {
+        return "";
+    }
+    return [
+        localize("uss.tooltip.permissions", "Permissions: {0} ({1})", attributes.mode, modeToOctal(attributes.mode)),
+        attributes.user && localize("uss.tooltip.owner", "Owner: {0}", attributes.user),
+        attributes.group && localize("uss.tooltip.group", "Group: {0}", attributes.group),
+    ]
+        .filter(Boolean)
+        .map((line) => `\n${line}`)
+        .join("");
+}
+
+/**
+ * Reads the permissions and ownership of a file or directory, as returned by z/OSMF or by FTP
+ *
+ * @param item an item of the response of `IUss.fileList`
+ * @returns {IUssAttributes} the attributes, undefined when the item has no mode
+ */
+export function getUssAttributes(item: Record<string, any>): IUssAttributes | undefined {
+    ZoweLogger.trace("uss.utils.getUssAttributes called.");
+    if (typeof item.mode !== "string" || item.mode.length <= PERMISSION_LENGTH) {
+        return undefined;
+    }
+    const attributes: IUssAttributes = { mode: item.mode };
+    if (item.user) {
+        attributes.user = String(item.user).trim();
+    }
+    if (item.group) {
+        attributes.group = String(item.group).trim();
+    }
+    return attributes;
+}
+
+/**
+ * Converts the mode listed by `ls -l` to octal, e.g. drwxr-x--- to 0750 and -rwsr-sr-t to 7755.
+ * The first digit holds the setuid, setgid and sticky bits: s and t are listed for an execute permission
+ * with the special bit, S and T for the special bit alone.
+ *
+ * @param {string} mode
+ * @returns {string} the four octal digits of the mode
+ */
+export function modeToOctal(mode: string): string {
+    const permissions = mode.substring(1, PERMISSION_LENGTH + 1);
+    const special = [...SPECIAL_BITS]
+        .map((bit, index) => (permissions.charAt((index + 1) * OCTAL_DIGITS - 1).toLowerCase() === bit ? "1" : "0"))
+        .join("");
+    const bits = [...permissions].map((char) => (char === "-" || char === "S" || char === "T" ? "0" : "1")).join("");
+    return parseInt(special + bits, 2)
+        .toString(OCTAL_RADIX)
+        .padStart(OCTAL_DIGITS + 1, "0");
+}
+
+/**
+ * Converts octal permissions to the mode listed by `ls -l`, e.g. 750 to drwxr-x--- and 4755 to -rwsr-xr-x
+ *
+ * @param {string} octal the three octal digits of the permissions, or four with the setuid, setgid and sticky bits
+ * @param {string} fileType the first character of the mode, e.g. "d" for a directory
+ * @returns {string}
+ */
+export function octalToMode(octal: string, fileType = "-"): string {
+    const bits = parseInt(octal, OCTAL_RADIX)
+        .toString(2)
+        .padStart(OCTAL_DIGITS + PERMISSION_LENGTH, "0");
+    const special = bits.substring(0, OCTAL_DIGITS);
+    const permissions = [...bits.substring(OCTAL_DIGITS)].map((bit, index) => {
+        const group = Math.floor(index / OCTAL_DIGITS);
+        if (index % OCTAL_DIGITS === OCTAL_DIGITS - 1 && special.charAt(group) === "1") {
+            return bit === "1" ? SPECIAL_BITS.charAt(group) : SPECIAL_BITS.charAt(group).toUpperCase();
+        }
+        return bit === "1" ? "rwx"[index % OCTAL_DIGITS] : "-";
+    });
+    return fileType + permissions.join("");
+}
+
+/**
+ * Reads the target of a symbolic link, as returned by z/OSMF or by FTP
+ *
+ * @param item an item of the response of `IUss.fileList`
+ * @param {string} directory the real path of the directory that was listed
+ * @returns {IUssSymlink} the target, undefined when the item is not a symbolic link
+ */
+export function getUssSymlink(item: Record<string, any>, directory: string): IUssSymlink | undefined {
+    if (typeof item.mode !== "string" || !item.mode.startsWith("l") || typeof item.target !== "string") {
+        return undefined;
     }
+    return { target: item.target, path: path.posix.resolve(directory, item.target) };
+}
 
-    return tooltip;
+/**
+ * Finds whether the target of a symbolic link is a file or a directory, by listing the directory of the target.
+ * The links of a chain are followed until the last one, or until there are too many of them.
+ *
+ * @param {ZoweExplorerApi.IUss} ussApi
+ * @param {IUssSymlink} symlink
+ * @param listings the items of the directories listed so far by path, so that each directory is listed once
+ * @returns {Promise<IUssSymlink>} the link with the type and path of its target
+ */
+export async function resolveSymlink(
+    ussApi: ZoweExplorerApi.IUss,
+    symlink: IUssSymlink,
+    listings: Map<string, Promise<Record<string, any>[]>>,
+    depth = 0
+): Promise<IUssSymlink> {
+    ZoweLogger.trace("uss.utils.resolveSymlink called.");
+    if (depth >= MAX_SYMLINK_DEPTH) {
+        return { ...symlink, type: "loop" };
+    }
+    const name = path.posix.basename(symlink.path);
+    if (name === "") {
+        return { ...symlink, type: "directory" };
+    }
+    const directory = path.posix.dirname(symlink.path);
+    if (!listings.has(directory)) {
+        listings.set(
+            directory,
+            ussApi.fileList(directory).then(
+                (response) => (response.success ? (response.apiResponse.items as Record<string, any>[]) : []),
+                () => []
+            )
+        );
+    }
+    const item = (await listings.get(directory)).find((entry) => entry.name === name);
+    if (item == null) {
+        return { ...symlink, type: "broken" };
+    }
+    const next = getUssSymlink(item, directory);
+    if (next) {
+        const resolved = await resolveSymlink(ussApi, next, listings, depth + 1);
+        return { ...symlink, path: resolved.path, type: resolved.type };
+    }
+    return { ...symlink, type: String(item.mode).startsWith("d") ? "directory" : "file" };
+}
+
+/**
+ * Describes a symbolic link with its target, e.g. "→ ../bin (broken)"
+ *
+ * @param {IUssSymlink} symlink
+ * @returns {string}
+ */
+export function formatSymlink(symlink: IUssSymlink): string {
+    switch (symlink.type) {
+        case "broken":
+            return localize("uss.symlink.broken", "→ {0} (broken)", symlink.target);
+        case "loop":
+            return localize("uss.symlink.loop", "→ {0} (loop)", symlink.target);
+        default:
+            return `→ ${symlink.target}`;
+    }
 }
 
 /**
@@ -11,6 +11,15 @@
 
 import { Poller } from "@zowe/zowe-explorer-api/src/utils";
 import * as vscode from "vscode";
+import { OfflineCache } from "./OfflineCache";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
 
 class PollDecorationProvider implements vscode.FileDecorationProvider {
     private disposables: vscode.Disposable[];
@@ -58,3 +67,25 @@ class PollDecorationProvider implements vscode.FileDecorationProvider {
 }
 
 export const PollDecorator = new PollDecorationProvider();
+
+/**
+ * Decorates the nodes and documents shown from the offline cache, the query of their URI is when they were cached
+ */
+class StaleDecorationProvider implements vscode.FileDecorationProvider {
+    public register(): void {
+        vscode.window.registerFileDecorationProvider(this);
+    }
+
+    public provideFileDecoration(uri: vscode.Uri, _token: vscode.CancellationToken): vscode.ProviderResult<vscode.FileDecoration> {
+        if (uri.scheme !== OfflineCache.scheme) {
+            return null;
+        }
+        const savedAt = new Date(Number(uri.query));
+        return new vscode.FileDecoration(
+            "S",
+            localize("staleDecoration.tooltip", "Stale: cached on {0} because the host could not be reached", savedAt.toLocaleString())
+        );
+    }
+}
+
+export const StaleDecorator = new StaleDecorationProvider();
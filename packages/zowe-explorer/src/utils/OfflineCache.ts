@@ -0,0 +1,303 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { imperative } from "@zowe/cli";
+import { Gui, ZoweExplorerApi } from "@zowe/zowe-explorer-api";
+import * as globals from "../globals";
+import { ZoweLogger } from "./LoggerUtils";
+import { isTransientError } from "./ProfilesUtils";
+import { SettingsConfig } from "./SettingsConfig";
+import * as nls from "vscode-nls";
+
+// Set up localization
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize: nls.LocalizeFunc = nls.loadMessageBundle();
+
+/**
+ * A response recorded in the offline cache, the contents of downloaded files are kept in base64
+ */
+interface ICacheEntry {
+    savedAt: number;
+    result: unknown;
+    contents?: string;
+}
+
+// The options that change the result of a request, the other options only change how it is sent
+const CACHE_KEY_OPTIONS = ["attributes", "pattern", "binary", "encoding"];
+
+// Responses recorded longer ago are not used and are removed, as well as the oldest responses above the maximum size
+const MAX_CACHE_AGE_MS = 2592000000; // 30 days
+const MAX_CACHE_SIZE = 104857600; // 100 MB
+
+/**
+ * Records the responses of the requests that list and download data sets and USS files, so that
+ * the trees and documents can still be shown when the host cannot be reached.
+ *
+ * The cache is opt-in through the `zowe.files.offlineCache.enabled` setting. Responses read from the
+ * cache are remembered, so that the nodes listed from them can be decorated as stale and the documents
+ * downloaded with them can be opened read-only. Responses are kept for 30 days, and the oldest ones are
+ * removed when the cache grows over 100 MB.
+ *
+ * @export
+ * @class OfflineCache
+ */
+export class OfflineCache {
+    public static readonly scheme = "zowe-cache";
+
+    private static cacheFolder: string;
+    private static cacheSize = 0;
+    private static cachedResults = new WeakMap<object, Date>();
+    private static documents = new Map<string, string>();
+
+    /**
+     * Sets the folder of the cache and registers the provider of the read-only documents
+     *
+     * @param {vscode.ExtensionContext} context
+     */
+    public static initialize(context: vscode.ExtensionContext): void {
+        ZoweLogger.trace("OfflineCache.initialize called.");
+        if (context.globalStorageUri) {
+            OfflineCache.cacheFolder = path.join(context.globalStorageUri.fsPath, "offlineCache");
+            OfflineCache.prune();
+        }
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(OfflineCache.scheme, {
+                provideTextDocumentContent: (uri: vscode.Uri) => OfflineCache.documents.get(uri.path),
+            })
+        );
+    }
+
+    /**
+     * Whether the responses are recorded, and read back when the host cannot be reached
+     *
+     * @returns {boolean}
+     */
+    public static isEnabled(): boolean {
+        return OfflineCache.cacheFolder != null && SettingsConfig.getDirectValue<boolean>(globals.SETTINGS_FILES_OFFLINE_CACHE) === true;
+    }
+
+    /**
+     * Whether contents of a data set or USS file were recorded, so that they can be opened when the host cannot be reached
+     *
+     * @param {string} profileName
+     * @param {string} remotePath the name of the data set or the path of the USS file
+     * @returns {boolean}
+     */
+    public static hasContents(profileName: string, remotePath: string): boolean {
+        ZoweLogger.trace("OfflineCache.hasContents called.");
+        if (!OfflineCache.isEnabled() || !fs.existsSync(OfflineCache.cacheFolder)) {
+            return false;
+        }
+        const prefix = OfflineCache.hash([profileName, "getContents", remotePath]);
+        return fs.readdirSync(OfflineCache.cacheFolder).some((fileName) => fileName.startsWith(`${prefix}.`));
+    }
+
+    /**
+     * Removes all the recorded responses
+     */
+    public static clear(): void {
+        ZoweLogger.trace("OfflineCache.clear called.");
+        if (OfflineCache.cacheFolder != null && fs.existsSync(OfflineCache.cacheFolder)) {
+            for (const fileName of fs.readdirSync(OfflineCache.cacheFolder)) {
+                fs.unlinkSync(path.join(OfflineCache.cacheFolder, fileName));
+            }
+        }
+        OfflineCache.cacheSize = 0;
+        Gui.showMessage(localize("clear.message", "The offline cache was cleared."));
+    }
+
+    /**
+     * Records the data set lists, member lists and contents retrieved with an MVS API
+     *
+     * @param {ZoweExplorerApi.IMvs} api an instance of the API created for a profile
+     * @returns {ZoweExplorerApi.IMvs} the same instance
+     */
+    public static cacheMvsApi(api: ZoweExplorerApi.IMvs): ZoweExplorerApi.IMvs {
+        return OfflineCache.cacheMethods(api, ["dataSet", "dataSetsMatchingPattern", "allMembers", "getContents"]);
+    }
+
+    /**
+     * Records the directory lists, file tags and contents retrieved with a USS API
+     *
+     * @param {ZoweExplorerApi.IUss} api an instance of the API created for a profile
+     * @returns {ZoweExplorerApi.IUss} the same instance
+     */
+    public static cacheUssApi(api: ZoweExplorerApi.IUss): ZoweExplorerApi.IUss {
+        return OfflineCache.cacheMethods(api, ["fileList", "isFileTagBinOrAscii", "getTag", "getContents"]);
+    }
+
+    /**
+     * Returns when a response was recorded, if it was read from the cache because the host could not be reached
+     *
+     * @param {unknown} response the response of an API
+     * @returns {Date} undefined for responses of the host
+     */
+    public static getSavedAt(response: unknown): Date {
+        return response != null && typeof response === "object" ? OfflineCache.cachedResults.get(response) : undefined;
+    }
+
+    /**
+     * Builds the URI of a node or document shown from the cache, the URI is decorated as stale
+     *
+     * @param {string} profileName
+     * @param {string} remotePath the name of the data set or the path of the USS file
+     * @param {Date} savedAt when the response was recorded
+     * @returns {vscode.Uri}
+     */
+    public static getStaleUri(profileName: string, remotePath: string, savedAt: Date): vscode.Uri {
+        const segments = [profileName, ...remotePath.split("/").filter((segment) => segment.length > 0)];
+        return vscode.Uri.from({ scheme: OfflineCache.scheme, path: `/${segments.join("/")}`, query: savedAt.getTime().toString() });
+    }
+
+    /**
+     * Opens the contents that were downloaded from the cache read-only. The downloaded file is removed,
+     * so that it is not opened as the local copy of the file once the host can be reached again.
+     *
+     * @param {string} profileName
+     * @param {string} remotePath the name of the data set or the path of the USS file
+     * @param {string} filePath the file the contents were downloaded to
+     * @param {Date} savedAt when the contents were recorded
+     * @returns {vscode.Uri} the URI of the read-only document
+     */
+    public static openReadOnly(profileName: string, remotePath: string, filePath: string, savedAt: Date): vscode.Uri {
+        ZoweLogger.trace("OfflineCache.openReadOnly called.");
+        const uri = OfflineCache.getStaleUri(profileName, remotePath, savedAt);
+        OfflineCache.documents.set(uri.path, fs.readFileSync(filePath).toString());
+        fs.unlinkSync(filePath);
+        return uri;
+    }
+
+    private static cacheMethods<T extends ZoweExplorerApi.ICommon>(api: T, methods: string[]): T {
+        if (!OfflineCache.isEnabled()) {
+            return api;
+        }
+        for (const method of methods) {
+            const request = api[method] as (...args: unknown[]) => Promise<unknown>;
+            if (typeof request === "function") {
+                api[method] = (...args: unknown[]): Promise<unknown> =>
+                    OfflineCache.fetch(api.profile, method, args, () => request.apply(api, args) as Promise<unknown>);
+            }
+        }
+        return api;
+    }
+
+    private static async fetch(
+        profile: imperative.IProfileLoaded,
+        method: string,
+        args: unknown[],
+        request: () => Promise<unknown>
+    ): Promise<unknown> {
+        const [name, options] = args as [unknown, { [key: string]: unknown }];
+        const file = options?.file as string;
+        if (method === "getContents" && !file) {
+            // Streamed contents are not recorded
+            return request();
+        }
+        const keyOptions = CACHE_KEY_OPTIONS.filter((key) => options?.[key] != null).map((key) => [key, options[key]]);
+        const key = JSON.stringify([profile?.name, method, name, keyOptions]);
+        // The first part of the file name only depends on the request, to find the contents recorded with any options
+        const cacheFile = path.join(
+            OfflineCache.cacheFolder,
+            `${OfflineCache.hash([profile?.name, method, name])}.${OfflineCache.hash([profile?.name, method, name, keyOptions])}.json`
+        );
+        try {
+            const result = await request();
+            OfflineCache.save(cacheFile, result, file);
+            return result;
+        } catch (err) {
+            const entry = isTransientError(err) ? OfflineCache.load(cacheFile) : undefined;
+            if (!entry) {
+                throw err;
+            }
+            ZoweLogger.warn(
+                `The host of ${profile?.name} could not be reached, using the response of ${key} cached on ${new Date(entry.savedAt).toString()}`
+            );
+            if (entry.contents != null) {
+                fs.mkdirSync(path.dirname(file), { recursive: true });
+                fs.writeFileSync(file, Buffer.from(entry.contents, "base64"));
+            }
+            if (entry.result != null && typeof entry.result === "object") {
+                OfflineCache.cachedResults.set(entry.result, new Date(entry.savedAt));
+            }
+            return entry.result;
+        }
+    }
+
+    private static save(cacheFile: string, result: unknown, file: string): void {
+        if ((result as { success?: boolean })?.success === false) {
+            return;
+        }
+        try {
+            const entry: ICacheEntry = { savedAt: Date.now(), result, contents: file ? fs.readFileSync(file).toString("base64") : undefined };
+            const data = JSON.stringify(entry);
+            fs.mkdirSync(OfflineCache.cacheFolder, { recursive: true });
+            fs.writeFileSync(cacheFile, data);
+            OfflineCache.cacheSize += data.length;
+            if (OfflineCache.cacheSize > MAX_CACHE_SIZE) {
+                OfflineCache.prune();
+            }
+        } catch (err) {
+            // Recording a response must never fail the request
+            ZoweLogger.warn(`Unable to save the response in the offline cache: ${(err as Error).message}`);
+        }
+    }
+
+    private static load(cacheFile: string): ICacheEntry {
+        try {
+            const entry = fs.existsSync(cacheFile) ? (JSON.parse(fs.readFileSync(cacheFile).toString()) as ICacheEntry) : undefined;
+            return entry && Date.now() - entry.savedAt <= MAX_CACHE_AGE_MS ? entry : undefined;
+        } catch (err) {
+            ZoweLogger.warn(`Unable to read the offline cache: ${(err as Error).message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Removes the responses recorded too long ago, then the oldest responses until the cache is under its maximum size
+     */
+    private static prune(): void {
+        try {
+            if (!fs.existsSync(OfflineCache.cacheFolder)) {
+                return;
+            }
+            const now = Date.now();
+            const files = fs
+                .readdirSync(OfflineCache.cacheFolder)
+                .map((fileName) => {
+                    const file = path.join(OfflineCache.cacheFolder, fileName);
+                    return { file, stats: fs.statSync(file) };
+                })
+                .sort((a, b) => b.stats.mtimeMs - a.stats.mtimeMs);
+            let size = 0;
+            for (const { file, stats } of files) {
+                if (now - stats.mtimeMs > MAX_CACHE_AGE_MS || size + stats.size > MAX_CACHE_SIZE) {
+                    fs.unlinkSync(file);
+                } else {
+                    size += stats.size;
+                }
+            }
+            OfflineCache.cacheSize = size;
+        } catch (err) {
+            ZoweLogger.warn(`Unable to remove the old responses from the offline cache: ${(err as Error).message}`);
+        }
+    }
+
+    private static hash(request: unknown[]): string {
+        return crypto.createHash("sha1").update(JSON.stringify(request)).digest("hex");
+    }
+}
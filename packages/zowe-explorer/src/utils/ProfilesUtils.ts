@@ -119,6 +119,27 @@ export async function errorHandling(errorDetails: Error | string, label?: string
     Gui.errorMessage(moreInfo + errorDetails.toString().replace(/\n/g, " | "));
 }
 
+/**
+ * Checks whether an error was caused by a network failure that is likely to go away when the request is retried
+ * @param {Error | string} errorDetails - the error thrown by the API
+ * @returns {boolean}
+ */
+export function isTransientError(errorDetails: Error | string): boolean {
+    ZoweLogger.trace("ProfilesUtils.isTransientError called.");
+    if (errorDetails == null) {
+        return false;
+    }
+    const imperativeError = errorDetails as imperative.ImperativeError;
+    const httpErrorCode = Number(imperativeError.mDetails?.errorCode);
+    if (globals.TRANSIENT_HTTP_STATUS_CODES.includes(httpErrorCode)) {
+        return true;
+    }
+    const causeErrors = imperativeError.mDetails?.causeErrors;
+    const errorCodes = [(errorDetails as NodeJS.ErrnoException).code, causeErrors?.code, causeErrors?.errno];
+    const errorText = errorDetails.toString();
+    return globals.TRANSIENT_NETWORK_ERROR_CODES.some((code) => errorCodes.includes(code) || errorText.includes(code));
+}
+
 // TODO: remove this second occurence
 export function isTheia(): boolean {
     ZoweLogger.trace("ProfileUtils.isTheia called.");
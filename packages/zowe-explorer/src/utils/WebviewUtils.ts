@@ -0,0 +1,63 @@
+/**
+ * This program and the accompanying materials are made available under the terms of the
+ * Eclipse Public License v2.0 which accompanies this distribution, and is available at
+ * https://www.eclipse.org/legal/epl-v20.html
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ *
+ * Copyright Contributors to the Zowe Project.
+ *
+ */
+
+import * as crypto from "crypto";
+import * as vscode from "vscode";
+
+const NONCE_LENGTH = 16;
+
+export interface IWebviewContent {
+    title: string;
+    body: string;
+    style?: string;
+    script?: string;
+}
+
+export class WebviewUtils {
+    /**
+     * Escapes text so that it can be put in the HTML of a webview
+     * @param value The text to escape, undefined values become an empty string
+     */
+    public static escapeHtml(value: string | number | boolean): string {
+        return (value == null ? "" : String(value))
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;");
+    }
+
+    /**
+     * Builds the HTML document of a webview. Only the inline style and script of the content are allowed to run,
+     * the script can talk to the extension with the object returned by `acquireVsCodeApi()`.
+     * @param webview The webview that shows the document
+     * @param content The title, body, style and script of the document
+     */
+    public static getHtml(webview: vscode.Webview, content: IWebviewContent): string {
+        const nonce = crypto.randomBytes(NONCE_LENGTH).toString("base64");
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy"
+                content="default-src 'none'; img-src ${webview.cspSource} data:; style-src ${
+            webview.cspSource
+        } 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+            <title>${WebviewUtils.escapeHtml(content.title)}</title>
+            <style nonce="${nonce}">${content.style ?? ""}</style>
+        </head>
+        <body>
+        ${content.body}
+        ${content.script ? `<script nonce="${nonce}">${content.script}</script>` : ""}
+        </body>
+        </html>`;
+    }
+}